@@ -1,5 +1,7 @@
 'use server';
 
+import { ContestErrors, hasContestPermission } from '@/features/contests/constants';
+import { getContestRole } from '@/features/contests/middleware/auth-middleware';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { Database, Tables } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
@@ -22,18 +24,22 @@ export async function updateContestStatus(
     return { data: null, error: { message: 'You must be logged in' } };
   }
 
-  // Get current contest to verify ownership
+  // Get current contest to verify the user can run it
   const { data: contest, error: fetchError } = await supabase
     .from('contests')
-    .select('status, row_numbers')
+    .select('id, owner_id, organization_id, status, row_numbers')
     .eq('id', contestId)
-    .eq('owner_id', user.id)
     .single();
 
   if (fetchError || !contest) {
     return { data: null, error: { message: 'Contest not found or access denied' } };
   }
 
+  const role = await getContestRole(supabase, user.id, contest);
+  if (!hasContestPermission(role, 'manage_settings')) {
+    return { data: null, error: { message: ContestErrors.ROLE_NOT_ALLOWED } };
+  }
+
   // Validate transition requirements
   if (targetStatus === 'open') {
     // Check if unlocking from locked - scores must not exist
@@ -71,7 +77,7 @@ export async function updateContestStatus(
   };
 
   // Make contest publicly readable when opening (required for RLS to allow anonymous reads)
-  // Note: is_public = true allows the page to load; access_pin provides additional security
+  // Note: is_public = true allows the page to load; the access PIN provides additional security
   if (targetStatus === 'open') {
     updateData.is_public = true;
   }
@@ -81,7 +87,6 @@ export async function updateContestStatus(
     .from('contests')
     .update(updateData)
     .eq('id', contestId)
-    .eq('owner_id', user.id)
     .select()
     .single();
 
@@ -3,8 +3,11 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 
+import { getContestSquares } from '@/features/contests/actions/get-contest-squares';
 import { SquaresGrid } from '@/features/contests/components';
 import { ManageSquare, ManageSquareModal } from '@/features/contests/components/manage-square-modal';
+import { GridLayout } from '@/features/contests/constants';
+import { GridPeriodNumbers } from '@/features/contests/utils';
 import { useRealtimeSquares } from '@/hooks/use-realtime-squares';
 
 interface DashboardGridClientProps {
@@ -16,6 +19,10 @@ interface DashboardGridClientProps {
   rowNumbers?: number[] | null;
   colNumbers?: number[] | null;
   winningSquareIds?: string[];
+  gridLayout?: GridLayout;
+  periodNumbers?: GridPeriodNumbers[];
+  /** Viewers see the grid but can't open squares */
+  canManageSquares?: boolean;
 }
 
 export function DashboardGridClient({
@@ -27,11 +34,18 @@ export function DashboardGridClient({
   rowNumbers,
   colNumbers,
   winningSquareIds = [],
+  gridLayout,
+  periodNumbers,
+  canManageSquares = true,
 }: DashboardGridClientProps) {
   const router = useRouter();
   const [selectedSquare, setSelectedSquare] = useState<ManageSquare | null>(null);
   const [isManageModalOpen, setIsManageModalOpen] = useState(false);
-  const realtimeSquares = useRealtimeSquares(contestId, squares);
+  const realtimeSquares = useRealtimeSquares(
+    contestId,
+    squares,
+    async () => ((await getContestSquares(contestId))?.data ?? null) as ManageSquare[] | null
+  );
 
   const handleSquareClick = (square: ManageSquare) => {
     setSelectedSquare(square);
@@ -54,11 +68,13 @@ export function DashboardGridClient({
         squares={realtimeSquares as ManageSquare[]}
         rowTeamName={rowTeamName}
         colTeamName={colTeamName}
-        onSquareClick={handleSquareClick}
+        onSquareClick={canManageSquares ? handleSquareClick : undefined}
         showNumbers={true}
         rowNumbers={rowNumbers}
         colNumbers={colNumbers}
         winningSquareIds={winningSquareIds}
+        gridLayout={gridLayout}
+        periodNumbers={periodNumbers}
       />
 
       <ManageSquareModal
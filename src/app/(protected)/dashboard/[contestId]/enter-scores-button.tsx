@@ -5,15 +5,17 @@ import { useRouter } from 'next/navigation';
 import { Gamepad2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
-import { EnterScoresModal } from '@/features/contests/components';
+import { EnterScoresModal, ScoringEventsModal } from '@/features/contests/components';
+import { GridLayout, OvertimeRule, PotBasis, RolloverPolicy } from '@/features/contests/constants';
 import { GridSquare } from '@/features/contests/queries/get-squares';
+import { ContestPrizeFields, PeriodNumbers, ScoringEventWithWinners } from '@/features/contests/types';
 import { Database } from '@/libs/supabase/types';
 
 type Score = Database['public']['Tables']['scores']['Row'];
 type SportType = Database['public']['Enums']['sport_type'];
 type ContestStatus = Database['public']['Enums']['contest_status'];
 
-interface Contest {
+interface Contest extends ContestPrizeFields {
   id: string;
   sport_type: SportType;
   row_team_name: string;
@@ -22,6 +24,13 @@ interface Contest {
   col_numbers: number[] | null;
   status: ContestStatus;
   square_price: number;
+  grid_layout: GridLayout;
+  pot_basis: PotBasis;
+  organization_cut_percent: number;
+  redraw_numbers_each_period: boolean;
+  overtime_rule: OvertimeRule;
+  score_change_payout: number;
+  rollover_policy: RolloverPolicy;
   payout_q1_percent: number | null;
   payout_q2_percent: number | null;
   payout_q3_percent: number | null;
@@ -33,19 +42,32 @@ interface Contest {
   payout_game5_percent: number | null;
   payout_game6_percent: number | null;
   payout_game7_percent: number | null;
+  payout_ot_percent: number | null;
 }
 
 interface EnterScoresButtonProps {
   contest: Contest;
   scores: Score[];
   squares: GridSquare[];
+  periodNumbers: PeriodNumbers[];
+  scoringEvents: ScoringEventWithWinners[];
   className?: string;
 }
 
-export function EnterScoresButton({ contest, scores, squares, className }: EnterScoresButtonProps) {
+export function EnterScoresButton({
+  contest,
+  scores,
+  squares,
+  periodNumbers,
+  scoringEvents,
+  className,
+}: EnterScoresButtonProps) {
   const router = useRouter();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Score-change contests record every scoring play instead of one score per period
+  const isScoreChange = contest.prize_type === 'score_change';
+
   const handleSuccess = () => {
     router.refresh();
   };
@@ -54,17 +76,30 @@ export function EnterScoresButton({ contest, scores, squares, className }: Enter
     <>
       <Button variant="default" className={className} onClick={() => setIsModalOpen(true)}>
         <Gamepad2 className="mr-2 h-4 w-4" />
-        Enter Scores
+        {isScoreChange ? 'Enter Scoring Plays' : 'Enter Scores'}
       </Button>
 
-      <EnterScoresModal
-        isOpen={isModalOpen}
-        onClose={() => setIsModalOpen(false)}
-        contest={contest}
-        existingScores={scores}
-        squares={squares}
-        onSuccess={handleSuccess}
-      />
+      {isScoreChange ? (
+        <ScoringEventsModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          contest={contest}
+          scoringEvents={scoringEvents}
+          squares={squares}
+          periodNumbers={periodNumbers}
+          onSuccess={handleSuccess}
+        />
+      ) : (
+        <EnterScoresModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          contest={contest}
+          existingScores={scores}
+          squares={squares}
+          periodNumbers={periodNumbers}
+          onSuccess={handleSuccess}
+        />
+      )}
     </>
   );
 }
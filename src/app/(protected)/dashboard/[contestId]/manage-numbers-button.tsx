@@ -6,6 +6,8 @@ import { Hash } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { ManageNumbersModal } from '@/features/contests/components/manage-numbers-modal';
+import { GridLayout, OvertimeRule, SportType } from '@/features/contests/constants';
+import { PeriodNumbers, Score } from '@/features/contests/types';
 
 interface Contest {
   id: string;
@@ -15,13 +17,19 @@ interface Contest {
   numbers_auto_generated: boolean | null;
   row_team_name: string | null;
   col_team_name: string | null;
+  grid_layout: GridLayout;
+  sport_type: SportType;
+  redraw_numbers_each_period: boolean;
+  overtime_rule: OvertimeRule;
 }
 
 interface ManageNumbersButtonProps {
   contest: Contest;
+  periodNumbers: PeriodNumbers[];
+  scores: Score[];
 }
 
-export function ManageNumbersButton({ contest }: ManageNumbersButtonProps) {
+export function ManageNumbersButton({ contest, periodNumbers, scores }: ManageNumbersButtonProps) {
   const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
 
@@ -40,6 +48,8 @@ export function ManageNumbersButton({ contest }: ManageNumbersButtonProps) {
         isOpen={isOpen}
         onClose={() => setIsOpen(false)}
         contest={contest}
+        periodNumbers={periodNumbers}
+        scores={scores}
         onSuccess={handleSuccess}
       />
     </>
@@ -7,7 +7,24 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ManageSquare } from '@/features/contests/components/manage-square-modal';
-import { getContestById, getScoresForContest, getSquaresForContest } from '@/features/contests/queries';
+import {
+  CONTEST_ROLES,
+  getGridLayout,
+  getTotalSquares,
+  hasContestPermission,
+  sumPayoutPercent,
+} from '@/features/contests/constants';
+import { getContestRole } from '@/features/contests/middleware/auth-middleware';
+import {
+  getContestAccessPin,
+  getContestById,
+  getPeriodNumbersForContest,
+  getScoresForContest,
+  getScoreWinnersForContest,
+  getScoringEventsForContest,
+  getSquaresForContest,
+} from '@/features/contests/queries';
+import { calculateMaxPot, calculatePot, getFundraiserAmount, toGridPeriodNumbers } from '@/features/contests/utils';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { Database } from '@/libs/supabase/types';
 import { getURL } from '@/utils/get-url';
@@ -47,19 +64,34 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
     notFound();
   }
 
-  // Fetch contest (RLS will ensure only owner can view)
+  // Fetch contest (RLS will ensure only the owner and members can view)
   const contest = await getContestById(contestId);
 
   if (!contest) {
     notFound();
   }
 
-  // Fetch squares, scores, and payment options count
-  const [squares, scores, paymentOptionsResult] = await Promise.all([
-    getSquaresForContest(contestId),
-    getScoresForContest(contestId),
-    supabase.from('payment_options').select('*', { count: 'exact', head: true }).eq('contest_id', contestId),
-  ]);
+  const role = await getContestRole(supabase, user.id, contest);
+
+  if (!role) {
+    notFound();
+  }
+
+  const canManageSettings = hasContestPermission(role, 'manage_settings');
+  const canEnterScores = hasContestPermission(role, 'enter_scores');
+  const canManageSquares = hasContestPermission(role, 'manage_squares');
+
+  // Fetch squares, scores, payment options count, and the PIN to share
+  const [squares, scores, scoreWinners, scoringEvents, periodNumbers, paymentOptionsResult, accessPin] =
+    await Promise.all([
+      getSquaresForContest(contestId),
+      getScoresForContest(contestId),
+      getScoreWinnersForContest(contestId),
+      getScoringEventsForContest(contestId),
+      getPeriodNumbersForContest(contestId),
+      supabase.from('payment_options').select('*', { count: 'exact', head: true }).eq('contest_id', contestId),
+      getContestAccessPin(contestId),
+    ]);
 
   const hasPaymentOptions = (paymentOptionsResult.count ?? 0) > 0;
   const hasNumbers = contest.row_numbers !== null;
@@ -70,29 +102,19 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
     .map((s) => s.winning_square_id as string);
 
   // Calculate stats
+  const gridLayout = getGridLayout(contest.grid_layout);
+  const totalSquares = getTotalSquares(contest.grid_layout);
   const squaresList = (squares || []) as ManageSquare[];
   const claimedSquares = squaresList.filter((s) => s.payment_status !== 'available');
   const paidSquares = squaresList.filter((s) => s.payment_status === 'paid');
   const revenue = paidSquares.length * Number(contest.square_price);
 
-  // Calculate fundraiser amount
-  const totalPayoutPercent =
-    contest.sport_type === 'football'
-      ? (contest.payout_q1_percent ?? 0) +
-        (contest.payout_q2_percent ?? 0) +
-        (contest.payout_q3_percent ?? 0) +
-        (contest.payout_final_percent ?? 0)
-      : (contest.payout_game1_percent ?? 0) +
-        (contest.payout_game2_percent ?? 0) +
-        (contest.payout_game3_percent ?? 0) +
-        (contest.payout_game4_percent ?? 0) +
-        (contest.payout_game5_percent ?? 0) +
-        (contest.payout_game6_percent ?? 0) +
-        (contest.payout_game7_percent ?? 0);
-  const fundraiserPercent = 100 - totalPayoutPercent;
-  const totalPot = 100 * Number(contest.square_price);
-  const fundraiserCurrent = revenue * (fundraiserPercent / 100);
-  const fundraiserMax = totalPot * (fundraiserPercent / 100);
+  // Calculate fundraiser amount: what's collected less the prizes owed on the pot
+  const totalPayoutPercent = sumPayoutPercent(contest.sport_type, contest, 'db', contest.overtime_rule);
+  const pot = calculatePot(contest, squaresList);
+  const maxPot = calculateMaxPot(contest);
+  const fundraiserCurrent = getFundraiserAmount(revenue, pot, totalPayoutPercent);
+  const fundraiserMax = getFundraiserAmount(maxPot.grossPot, maxPot, totalPayoutPercent);
 
   const publicUrl = getURL(`/contest/${contest.slug}`);
 
@@ -120,18 +142,21 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
             </div>
             <p className="text-sm text-zinc-400">
               {contest.row_team_name} vs {contest.col_team_name}
+              {role !== 'owner' && ` • You're a ${CONTEST_ROLES[role].label.toLowerCase()}`}
             </p>
             {contest.description && <p className="text-sm text-zinc-500">{contest.description}</p>}
           </div>
 
           <div className="flex shrink-0 gap-2">
-            <CopyLinkButton url={publicUrl} code={contest.access_pin} contestName={contest.name} />
-            <Button variant="default" size="sm" asChild>
-              <Link href={`/dashboard/${contestId}/settings`}>
-                <Settings className="mr-2 h-4 w-4" />
-                Settings
-              </Link>
-            </Button>
+            <CopyLinkButton url={publicUrl} code={accessPin?.access_pin ?? null} contestName={contest.name} />
+            {canManageSettings && (
+              <Button variant="default" size="sm" asChild>
+                <Link href={`/dashboard/${contestId}/settings`}>
+                  <Settings className="mr-2 h-4 w-4" />
+                  Settings
+                </Link>
+              </Button>
+            )}
           </div>
         </div>
 
@@ -142,7 +167,7 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
               <CardDescription className="text-zinc-500">Total Squares</CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-3xl font-bold text-white">100</p>
+              <p className="text-3xl font-bold text-white">{totalSquares}</p>
             </CardContent>
           </Card>
 
@@ -152,7 +177,7 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
             </CardHeader>
             <CardContent>
               <p className="text-3xl font-bold text-orange-400">{claimedSquares.length}</p>
-              <p className="text-xs text-zinc-500">{100 - claimedSquares.length} available</p>
+              <p className="text-xs text-zinc-500">{totalSquares - claimedSquares.length} available</p>
             </CardContent>
           </Card>
 
@@ -175,7 +200,7 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
             <CardContent>
               <p className="text-3xl font-bold text-green-400">${revenue.toLocaleString()}</p>
               <p className="text-xs text-zinc-500">
-                ${(100 * Number(contest.square_price)).toLocaleString()} max
+                ${maxPot.grossPot.toLocaleString()} max
               </p>
             </CardContent>
           </Card>
@@ -185,40 +210,56 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
               <CardDescription className="text-zinc-500">Fundraiser</CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-3xl font-bold text-amber-400">${fundraiserCurrent.toLocaleString()}</p>
+              <p className="text-3xl font-bold text-amber-400">
+                {fundraiserCurrent < 0 && '-'}${Math.abs(fundraiserCurrent).toLocaleString()}
+              </p>
               <p className="text-xs text-zinc-500">
                 ${fundraiserMax.toLocaleString()} potential
+                {pot.organizationCut > 0 && ` • $${pot.organizationCut.toLocaleString()} org cut`}
               </p>
             </CardContent>
           </Card>
         </div>
 
         {/* Next Steps */}
-        <NextStepsCard
-          contestId={contest.id}
-          status={contest.status}
-          hasPaymentOptions={hasPaymentOptions}
-          hasNumbers={hasNumbers}
-        />
+        {canManageSettings && (
+          <NextStepsCard
+            contestId={contest.id}
+            status={contest.status}
+            hasPaymentOptions={hasPaymentOptions}
+            hasNumbers={hasNumbers}
+          />
+        )}
 
         {/* Grid Preview */}
         <Card className="border-zinc-800 bg-zinc-900">
           <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <div>
               <CardTitle className="text-white">Grid Preview</CardTitle>
-              <CardDescription>10×10 squares grid • Click to manage squares</CardDescription>
+              <CardDescription>
+                {gridLayout.size}×{gridLayout.size} squares grid
+                {gridLayout.sharesPerSquare > 1 && ' sold in halves'} • Click to manage squares
+              </CardDescription>
             </div>
-            <ManageNumbersButton
-              contest={{
-                id: contest.id,
-                status: contest.status,
-                row_numbers: contest.row_numbers,
-                col_numbers: contest.col_numbers,
-                numbers_auto_generated: contest.numbers_auto_generated,
-                row_team_name: contest.row_team_name,
-                col_team_name: contest.col_team_name,
-              }}
-            />
+            {canManageSettings && (
+              <ManageNumbersButton
+                contest={{
+                  id: contest.id,
+                  status: contest.status,
+                  row_numbers: contest.row_numbers,
+                  col_numbers: contest.col_numbers,
+                  numbers_auto_generated: contest.numbers_auto_generated,
+                  row_team_name: contest.row_team_name,
+                  col_team_name: contest.col_team_name,
+                  grid_layout: contest.grid_layout,
+                  sport_type: contest.sport_type,
+                  redraw_numbers_each_period: contest.redraw_numbers_each_period,
+                  overtime_rule: contest.overtime_rule,
+                }}
+                periodNumbers={periodNumbers}
+                scores={scores}
+              />
+            )}
           </CardHeader>
           <CardContent>
             <DashboardGridClient
@@ -230,6 +271,11 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
               rowNumbers={contest.row_numbers}
               colNumbers={contest.col_numbers}
               winningSquareIds={winningSquareIds}
+              gridLayout={contest.grid_layout}
+              periodNumbers={
+                contest.redraw_numbers_each_period ? toGridPeriodNumbers(contest.sport_type, periodNumbers, contest.overtime_rule) : undefined
+              }
+              canManageSquares={canManageSquares}
             />
           </CardContent>
         </Card>
@@ -246,13 +292,15 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
           </CardHeader>
           <CardContent>
             <div className="flex flex-col gap-3">
-              <ContestStatusButton
-                contestId={contestId}
-                currentStatus={contest.status}
-                hasPaymentOptions={hasPaymentOptions}
-                hasNumbers={hasNumbers}
-                className="w-full justify-start"
-              />
+              {canManageSettings && (
+                <ContestStatusButton
+                  contestId={contestId}
+                  currentStatus={contest.status}
+                  hasPaymentOptions={hasPaymentOptions}
+                  hasNumbers={hasNumbers}
+                  className="w-full justify-start"
+                />
+              )}
 
               <Button variant="default" className="w-full justify-start" asChild>
                 <Link href={`/contest/${contest.slug}`} target="_blank">
@@ -261,32 +309,45 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
                 </Link>
               </Button>
 
-              <EnterScoresButton
-                contest={{
-                  id: contest.id,
-                  sport_type: contest.sport_type,
-                  row_team_name: contest.row_team_name,
-                  col_team_name: contest.col_team_name,
-                  row_numbers: contest.row_numbers,
-                  col_numbers: contest.col_numbers,
-                  status: contest.status,
-                  square_price: Number(contest.square_price),
-                  payout_q1_percent: contest.payout_q1_percent,
-                  payout_q2_percent: contest.payout_q2_percent,
-                  payout_q3_percent: contest.payout_q3_percent,
-                  payout_final_percent: contest.payout_final_percent,
-                  payout_game1_percent: contest.payout_game1_percent,
-                  payout_game2_percent: contest.payout_game2_percent,
-                  payout_game3_percent: contest.payout_game3_percent,
-                  payout_game4_percent: contest.payout_game4_percent,
-                  payout_game5_percent: contest.payout_game5_percent,
-                  payout_game6_percent: contest.payout_game6_percent,
-                  payout_game7_percent: contest.payout_game7_percent,
-                }}
-                scores={scores}
-                squares={squaresList}
-                className="w-full justify-start"
-              />
+              {canEnterScores && (
+                <EnterScoresButton
+                  contest={{
+                    id: contest.id,
+                    sport_type: contest.sport_type,
+                    row_team_name: contest.row_team_name,
+                    col_team_name: contest.col_team_name,
+                    row_numbers: contest.row_numbers,
+                    col_numbers: contest.col_numbers,
+                    status: contest.status,
+                    square_price: Number(contest.square_price),
+                    grid_layout: contest.grid_layout,
+                    pot_basis: contest.pot_basis,
+                    organization_cut_percent: contest.organization_cut_percent,
+                    redraw_numbers_each_period: contest.redraw_numbers_each_period,
+                    overtime_rule: contest.overtime_rule,
+                    prize_type: contest.prize_type,
+                    score_change_payout: Number(contest.score_change_payout),
+                    rollover_policy: contest.rollover_policy,
+                    payout_q1_percent: contest.payout_q1_percent,
+                    payout_q2_percent: contest.payout_q2_percent,
+                    payout_q3_percent: contest.payout_q3_percent,
+                    payout_final_percent: contest.payout_final_percent,
+                    payout_game1_percent: contest.payout_game1_percent,
+                    payout_game2_percent: contest.payout_game2_percent,
+                    payout_game3_percent: contest.payout_game3_percent,
+                    payout_game4_percent: contest.payout_game4_percent,
+                    payout_game5_percent: contest.payout_game5_percent,
+                    payout_game6_percent: contest.payout_game6_percent,
+                    payout_game7_percent: contest.payout_game7_percent,
+                    payout_ot_percent: contest.payout_ot_percent,
+                  }}
+                  scores={scores}
+                  squares={squaresList}
+                  periodNumbers={periodNumbers}
+                  scoringEvents={scoringEvents}
+                  className="w-full justify-start"
+                />
+              )}
 
               <Button variant="default" className="w-full justify-start" asChild>
                 <Link href={`/dashboard/${contestId}/participants`}>
@@ -314,6 +375,13 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
             row_team_name: contest.row_team_name,
             col_team_name: contest.col_team_name,
             square_price: Number(contest.square_price),
+            grid_layout: contest.grid_layout,
+            pot_basis: contest.pot_basis,
+            organization_cut_percent: contest.organization_cut_percent,
+            prize_type: contest.prize_type,
+            score_change_payout: Number(contest.score_change_payout),
+            rollover_policy: contest.rollover_policy,
+            overtime_rule: contest.overtime_rule,
             payout_q1_percent: contest.payout_q1_percent,
             payout_q2_percent: contest.payout_q2_percent,
             payout_q3_percent: contest.payout_q3_percent,
@@ -325,9 +393,12 @@ export default async function ContestDetailPage({ params }: ContestDetailPagePro
             payout_game5_percent: contest.payout_game5_percent,
             payout_game6_percent: contest.payout_game6_percent,
             payout_game7_percent: contest.payout_game7_percent,
+            payout_ot_percent: contest.payout_ot_percent,
           }}
           scores={scores}
           squares={squaresList}
+          winners={scoreWinners}
+          scoringEvents={scoringEvents}
         />
 
         {/* Ad Placeholder */}
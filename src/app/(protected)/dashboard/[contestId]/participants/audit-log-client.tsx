@@ -0,0 +1,215 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowRight, Search } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTOR_LABELS,
+  AuditActionType,
+  AuditActorType,
+} from '@/features/contests/constants';
+import { ContestAuditLogEntry } from '@/features/contests/types';
+import { Json } from '@/libs/supabase/types';
+import { formatDateTime } from '@/utils/date-formatters';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-zinc-900';
+
+interface AuditLogClientProps {
+  entries: ContestAuditLogEntry[];
+}
+
+type JsonObject = { [key: string]: Json | undefined };
+
+function asObject(value: Json | null): JsonObject {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as JsonObject;
+  }
+  return {};
+}
+
+function formatValue(value: Json | undefined): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatField(key: string): string {
+  return key.replace(/_/g, ' ');
+}
+
+function getSquareKey(entry: ContestAuditLogEntry): string | null {
+  const metadata = asObject(entry.metadata);
+  if (metadata.row_index === undefined || metadata.col_index === undefined) return null;
+  return `${metadata.row_index},${metadata.col_index}`;
+}
+
+function formatTarget(entry: ContestAuditLogEntry): string {
+  const metadata = asObject(entry.metadata);
+  if (metadata.row_index !== undefined && metadata.col_index !== undefined) {
+    return `Row ${metadata.row_index} Col ${metadata.col_index}`;
+  }
+  if (metadata.quarter) {
+    return String(metadata.quarter).toUpperCase();
+  }
+  return 'Contest';
+}
+
+function formatActor(entry: ContestAuditLogEntry): string {
+  return entry.actor_email || AUDIT_ACTOR_LABELS[entry.actor_type as AuditActorType] || entry.actor_type;
+}
+
+export function AuditLogClient({ entries }: AuditLogClientProps) {
+  const [actionFilter, setActionFilter] = useState<AuditActionType | 'all'>('all');
+  const [squareFilter, setSquareFilter] = useState('all');
+  const [actorQuery, setActorQuery] = useState('');
+
+  // Only offer squares that actually appear in the log
+  const squareOptions = useMemo(() => {
+    const keys = new Set<string>();
+    entries.forEach((entry) => {
+      const key = getSquareKey(entry);
+      if (key) keys.add(key);
+    });
+    return Array.from(keys).sort((a, b) => {
+      const [aRow, aCol] = a.split(',').map(Number);
+      const [bRow, bCol] = b.split(',').map(Number);
+      return aRow - bRow || aCol - bCol;
+    });
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = actorQuery.trim().toLowerCase();
+
+    return entries.filter((entry) => {
+      if (actionFilter !== 'all' && entry.action !== actionFilter) {
+        return false;
+      }
+
+      if (squareFilter !== 'all' && getSquareKey(entry) !== squareFilter) {
+        return false;
+      }
+
+      if (query) {
+        return formatActor(entry).toLowerCase().includes(query);
+      }
+
+      return true;
+    });
+  }, [entries, actionFilter, squareFilter, actorQuery]);
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-500" />
+          <Input
+            placeholder="Search by who made the change..."
+            value={actorQuery}
+            onChange={(e) => setActorQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          aria-label="Filter by action"
+          value={actionFilter}
+          onChange={(e) => setActionFilter(e.target.value as AuditActionType | 'all')}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="all">All actions</option>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Filter by square"
+          value={squareFilter}
+          onChange={(e) => setSquareFilter(e.target.value)}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="all">All squares</option>
+          {squareOptions.map((key) => {
+            const [row, col] = key.split(',');
+            return (
+              <option key={key} value={key}>
+                Row {row} Col {col}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+
+      {/* Table */}
+      <div className="rounded-lg border border-zinc-800 bg-zinc-900">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-zinc-800 hover:bg-transparent">
+              <TableHead>When</TableHead>
+              <TableHead>Who</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead className="hidden md:table-cell">Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredEntries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center text-zinc-500">
+                  {entries.length > 0 ? 'No activity matches your filters.' : 'No activity yet.'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredEntries.map((entry) => {
+                const before = asObject(entry.before);
+                const after = asObject(entry.after);
+                const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+                return (
+                  <TableRow key={entry.id} className="border-zinc-800">
+                    <TableCell className="whitespace-nowrap text-zinc-400">
+                      {formatDateTime(entry.created_at)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="space-y-1">
+                        <p className="text-white">{formatActor(entry)}</p>
+                        <p className="text-xs text-zinc-500">
+                          {AUDIT_ACTOR_LABELS[entry.actor_type as AuditActorType] ?? entry.actor_type}
+                        </p>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="whitespace-nowrap border-zinc-600 text-zinc-300">
+                        {AUDIT_ACTION_LABELS[entry.action as AuditActionType] ?? entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-zinc-400">{formatTarget(entry)}</TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <div className="space-y-1 text-xs">
+                        {fields.map((field) => (
+                          <div key={field} className="flex flex-wrap items-center gap-1 text-zinc-400">
+                            <span className="text-zinc-500">{formatField(field)}:</span>
+                            {entry.before !== null && <span>{formatValue(before[field])}</span>}
+                            {entry.before !== null && entry.after !== null && <ArrowRight className="h-3 w-3" />}
+                            {entry.after !== null && <span className="text-white">{formatValue(after[field])}</span>}
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  );
+}
@@ -1,12 +1,20 @@
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
-import { ArrowLeft, Users } from 'lucide-react';
+import { ArrowLeft, History, Users } from 'lucide-react';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { getContestById, getParticipantsForContest } from '@/features/contests/queries';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  getAuditLogForContest,
+  getContestById,
+  getParticipantsForContest,
+  getRecentSquareReleases,
+} from '@/features/contests/queries';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 
+import { AuditLogClient } from './audit-log-client';
 import { ParticipantsTableClient } from './participants-table-client';
+import { RecentReleases } from './recent-releases';
 
 interface ParticipantsPageProps {
   params: Promise<{ contestId: string }>;
@@ -32,8 +40,15 @@ export default async function ParticipantsPage({ params }: ParticipantsPageProps
     notFound();
   }
 
-  // Fetch participants (claimed squares)
-  const participants = await getParticipantsForContest(contestId);
+  // Fetch participants (claimed squares), releases that can still be undone and the change history
+  const [participants, recentReleases, auditLog] = await Promise.all([
+    getParticipantsForContest(contestId),
+    getRecentSquareReleases(contestId),
+    getAuditLogForContest(contestId),
+  ]);
+
+  // Deadlines are only enforced while the contest is open
+  const paymentDeadlineHours = contest.status === 'open' ? contest.payment_deadline_hours : null;
 
   return (
     <div className="space-y-6">
@@ -56,28 +71,56 @@ export default async function ParticipantsPage({ params }: ParticipantsPageProps
         </div>
       </div>
 
-      {/* Participants Table Card */}
-      <Card className="border-zinc-800 bg-zinc-900">
-        <CardHeader>
-          <div className="flex items-center gap-2">
-            <Users className="h-5 w-5 text-orange-400" />
-            <div>
-              <CardTitle className="text-white">Participants</CardTitle>
-              <CardDescription>
-                View and manage all participants who have claimed squares
-              </CardDescription>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <ParticipantsTableClient
-            participants={participants}
-            contestId={contestId}
-            contestName={contest.name}
-            squarePrice={Number(contest.square_price)}
-          />
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="participants" className="space-y-4">
+        <TabsList className="bg-zinc-800">
+          <TabsTrigger value="participants">Participants</TabsTrigger>
+          <TabsTrigger value="activity">Activity Log</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="participants">
+          {/* Participants Table Card */}
+          <Card className="border-zinc-800 bg-zinc-900">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Users className="h-5 w-5 text-orange-400" />
+                <div>
+                  <CardTitle className="text-white">Participants</CardTitle>
+                  <CardDescription>
+                    View and manage all participants who have claimed squares
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RecentReleases contestId={contestId} releases={recentReleases} />
+              <ParticipantsTableClient
+                participants={participants}
+                contestId={contestId}
+                contestName={contest.name}
+                squarePrice={Number(contest.square_price)}
+                paymentDeadlineHours={paymentDeadlineHours}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="activity">
+          <Card className="border-zinc-800 bg-zinc-900">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <History className="h-5 w-5 text-orange-400" />
+                <div>
+                  <CardTitle className="text-white">Activity Log</CardTitle>
+                  <CardDescription>Every claim, release, payment, number draw and score change</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <AuditLogClient entries={auditLog} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
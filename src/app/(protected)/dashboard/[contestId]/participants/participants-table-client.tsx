@@ -1,8 +1,8 @@
 'use client';
 
-import { useMemo, useState, useTransition } from 'react';
+import { useEffect, useMemo, useState, useTransition } from 'react';
 import { useRouter } from 'next/navigation';
-import { CheckCircle, Download, Loader2, Search, Settings2, X } from 'lucide-react';
+import { CheckCircle, Clock, Download, Loader2, Search, Settings2, X } from 'lucide-react';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -19,6 +19,7 @@ import { toast } from '@/components/ui/use-toast';
 import { bulkUpdateSquares } from '@/features/contests/actions/bulk-update-squares';
 import { ManageSquare, ManageSquareModal } from '@/features/contests/components/manage-square-modal';
 import { Participant } from '@/features/contests/queries/get-participants';
+import { formatTimeRemaining, getPaymentDueAt } from '@/features/contests/utils/payment-deadline';
 
 type FilterStatus = 'all' | 'pending' | 'paid';
 
@@ -27,6 +28,8 @@ interface ParticipantsTableClientProps {
   contestId: string;
   contestName: string;
   squarePrice: number;
+  /** Set when pending claims are released automatically after this many hours */
+  paymentDeadlineHours: number | null;
 }
 
 function formatDate(dateString: string | null): string {
@@ -60,6 +63,7 @@ export function ParticipantsTableClient({
   contestId,
   contestName,
   squarePrice,
+  paymentDeadlineHours,
 }: ParticipantsTableClientProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
@@ -68,6 +72,16 @@ export function ParticipantsTableClient({
   const [selectedSquare, setSelectedSquare] = useState<ManageSquare | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Set after mount so the countdown doesn't differ between the server and client render
+  const [now, setNow] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!paymentDeadlineHours) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [paymentDeadlineHours]);
 
   // Filter participants based on search and status
   const filteredParticipants = useMemo(() => {
@@ -157,8 +171,19 @@ export function ParticipantsTableClient({
     });
   };
 
+  // Time left to pay, or "Overdue" until the next run of the expiry job releases the square
+  const getPaymentCountdown = (participant: Participant): string | null => {
+    if (!paymentDeadlineHours || !now || participant.payment_status !== 'pending' || !participant.claimed_at) {
+      return null;
+    }
+
+    const dueAt = getPaymentDueAt(participant.claimed_at, paymentDeadlineHours, participant.payment_reminder_sent_at);
+    const remaining = formatTimeRemaining(dueAt, now);
+    return remaining ? `${remaining} left` : 'Overdue';
+  };
+
   const handleRowClick = (participant: Participant) => {
-    setSelectedSquare(participant as ManageSquare);
+    setSelectedSquare(participant);
     setIsModalOpen(true);
   };
 
@@ -350,9 +375,17 @@ export function ParticipantsTableClient({
                   </TableCell>
                   <TableCell>
                     {participant.payment_status === 'pending' ? (
-                      <Badge className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30">
-                        Pending
-                      </Badge>
+                      <div className="flex flex-col items-start gap-1">
+                        <Badge className="bg-yellow-500/20 text-yellow-300 border-yellow-500/30">
+                          Pending
+                        </Badge>
+                        {getPaymentCountdown(participant) && (
+                          <span className="flex items-center gap-1 text-xs text-zinc-400">
+                            <Clock className="h-3 w-3" />
+                            {getPaymentCountdown(participant)}
+                          </span>
+                        )}
+                      </div>
                     ) : (
                       <Badge className="bg-green-500/20 text-green-300 border-green-500/30">
                         Paid
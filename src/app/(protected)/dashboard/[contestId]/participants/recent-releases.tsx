@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Undo2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { undoSquareRelease } from '@/features/contests/actions/undo-square-release';
+import { SQUARE_RELEASE_UNDO_WINDOW_MINUTES } from '@/features/contests/constants';
+import { RecentSquareRelease } from '@/features/contests/queries';
+import { formatDateTime } from '@/utils/date-formatters';
+
+interface RecentReleasesProps {
+  contestId: string;
+  releases: RecentSquareRelease[];
+}
+
+export function RecentReleases({ contestId, releases }: RecentReleasesProps) {
+  const [isPending, startTransition] = useTransition();
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  function handleUndo(releaseId: string) {
+    setUndoingId(releaseId);
+
+    startTransition(async () => {
+      const result = await undoSquareRelease(contestId, releaseId);
+      setUndoingId(null);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        router.refresh();
+        return;
+      }
+
+      toast({ title: 'Success', description: 'Release undone and claimant restored' });
+      router.refresh();
+    });
+  }
+
+  if (releases.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+      <div>
+        <h4 className="text-sm font-medium text-zinc-300">Recently released</h4>
+        <p className="text-xs text-zinc-500">
+          Releases can be undone for {SQUARE_RELEASE_UNDO_WINDOW_MINUTES} minutes if the square hasn&apos;t been claimed
+          again.
+        </p>
+      </div>
+      {releases.map((release) => {
+        const name = [release.claimant_first_name, release.claimant_last_name].filter(Boolean).join(' ');
+
+        return (
+          <div key={release.id} className="flex items-center justify-between gap-4 border-t border-zinc-700 pt-2">
+            <div className="min-w-0 text-sm">
+              <p className="truncate text-white">
+                {release.squares ? `Row ${release.squares.row_index} Col ${release.squares.col_index}` : 'Square'}
+                {' • '}
+                {name || release.claimant_email || 'Unknown claimant'}
+              </p>
+              <p className="text-xs text-zinc-500">Released {formatDateTime(release.released_at)}</p>
+            </div>
+            <Button variant="secondary" size="sm" onClick={() => handleUndo(release.id)} disabled={isPending}>
+              {undoingId === release.id ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Undo2 className="mr-2 h-4 w-4" />
+              )}
+              Undo
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
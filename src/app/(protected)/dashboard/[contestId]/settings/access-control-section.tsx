@@ -1,10 +1,20 @@
 'use client';
 
 import { useState, useTransition } from 'react';
-import { Eye, EyeOff, Loader2, RefreshCw } from 'lucide-react';
+import { Eye, EyeOff, Loader2, RefreshCw, RotateCw, ShieldAlert } from 'lucide-react';
 import { Controller, useForm } from 'react-hook-form';
 import { z } from 'zod';
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -12,20 +22,29 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/components/ui/use-toast';
 import { updateContest } from '@/features/contests/actions/update-contest';
+import { rotateContestPin, updateContestPin } from '@/features/contests/actions/update-contest-pin';
+import { ACCESS_PIN_MAX_LENGTH, ACCESS_PIN_MIN_LENGTH } from '@/features/contests/constants';
+import { ContestAccessPin, ContestInvitee, ContestPinAttempt } from '@/features/contests/types';
 import { Database } from '@/libs/supabase/types';
+import { formatDateTime } from '@/utils/date-formatters';
 import { zodResolver } from '@hookform/resolvers/zod';
 
+import { InviteAllowlist } from './invite-allowlist';
+
 type Contest = Database['public']['Tables']['contests']['Row'];
 
 const accessControlSchema = z.object({
   is_public: z.boolean(),
+  invite_only: z.boolean(),
   require_pin: z.boolean(),
   access_pin: z
     .string()
-    .max(6, 'PIN must be 6 characters or less')
+    .max(ACCESS_PIN_MAX_LENGTH, `PIN must be ${ACCESS_PIN_MAX_LENGTH} characters or less`)
     .regex(/^[A-Za-z0-9]*$/, 'PIN must be alphanumeric')
     .optional()
     .nullable(),
+  // datetime-local value in the owner's time zone; empty means the PIN never expires
+  pin_expires_at: z.string().optional(),
 }).refine(
   (data) => {
     if (data.require_pin && (!data.access_pin || data.access_pin.length === 0)) {
@@ -34,12 +53,18 @@ const accessControlSchema = z.object({
     return true;
   },
   { message: 'PIN is required when PIN access is enabled', path: ['access_pin'] }
+).refine(
+  (data) => !data.require_pin || !data.access_pin || data.access_pin.length >= ACCESS_PIN_MIN_LENGTH,
+  { message: `PIN must be at least ${ACCESS_PIN_MIN_LENGTH} characters`, path: ['access_pin'] }
 );
 
 type AccessControlFormData = z.infer<typeof accessControlSchema>;
 
 interface AccessControlSectionProps {
   contest: Contest;
+  accessPin: ContestAccessPin | null;
+  failedPinAttempts: ContestPinAttempt[];
+  invitees: ContestInvitee[];
 }
 
 function generatePin(): string {
@@ -51,9 +76,22 @@ function generatePin(): string {
   return pin;
 }
 
-export function AccessControlSection({ contest }: AccessControlSectionProps) {
+function toDateTimeLocal(isoString: string | null): string {
+  if (!isoString) return '';
+  const date = new Date(isoString);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+export function AccessControlSection({
+  contest,
+  accessPin,
+  failedPinAttempts,
+  invitees,
+}: AccessControlSectionProps) {
   const [isPending, startTransition] = useTransition();
   const [showPin, setShowPin] = useState(false);
+  const [savedPin, setSavedPin] = useState(accessPin?.access_pin ?? null);
+  const [isRotateDialogOpen, setIsRotateDialogOpen] = useState(false);
   const { toast } = useToast();
 
   const {
@@ -62,13 +100,17 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
     handleSubmit,
     watch,
     setValue,
-    formState: { errors, isDirty },
+    getValues,
+    reset,
+    formState: { errors, isDirty, dirtyFields },
   } = useForm<AccessControlFormData>({
     resolver: zodResolver(accessControlSchema),
     defaultValues: {
       is_public: contest.is_public,
-      require_pin: !!contest.access_pin,
-      access_pin: contest.access_pin ?? '',
+      invite_only: contest.invite_only,
+      require_pin: !!accessPin,
+      access_pin: accessPin?.access_pin ?? '',
+      pin_expires_at: toDateTimeLocal(accessPin?.expires_at ?? null),
     },
   });
 
@@ -83,21 +125,63 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
     startTransition(async () => {
       const result = await updateContest(contest.id, {
         is_public: data.is_public,
-        access_pin: data.require_pin ? data.access_pin : null,
+        invite_only: data.invite_only,
       });
 
-      if (result?.error) {
+      // Saving an unchanged PIN would still check its expiry, so only send PIN changes
+      const pinResult =
+        !result?.error && (dirtyFields.require_pin || dirtyFields.access_pin || dirtyFields.pin_expires_at)
+          ? await updateContestPin(contest.id, {
+              accessPin: data.require_pin ? (data.access_pin ?? null) : null,
+              expiresAt: data.require_pin && data.pin_expires_at ? new Date(data.pin_expires_at).toISOString() : null,
+            })
+          : null;
+
+      const error = result?.error ?? pinResult?.error;
+      if (error) {
         toast({
           variant: 'destructive',
           title: 'Error',
-          description: result.error.message,
+          description: error.message,
         });
         return;
       }
 
+      const newPin = data.require_pin ? (data.access_pin?.toUpperCase() ?? null) : null;
+      const pinChanged = savedPin !== null && newPin !== savedPin;
+      setSavedPin(newPin);
+      reset({ ...data, access_pin: newPin ?? '' });
+
       toast({
         title: 'Settings saved',
-        description: 'Access control settings have been updated.',
+        description: pinChanged
+          ? 'Access control settings have been updated. Anyone who entered the old PIN will need the new one.'
+          : 'Access control settings have been updated.',
+      });
+    });
+  };
+
+  const handleRotatePin = () => {
+    startTransition(async () => {
+      const result = await rotateContestPin(contest.id);
+
+      if (!result?.data) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: result?.error?.message ?? 'Failed to rotate PIN',
+        });
+        return;
+      }
+
+      setSavedPin(result.data.accessPin);
+      reset({ ...getValues(), access_pin: result.data.accessPin });
+      setShowPin(true);
+      setIsRotateDialogOpen(false);
+
+      toast({
+        title: 'PIN rotated',
+        description: 'Share the new PIN with your participants. The old PIN no longer works.',
       });
     });
   };
@@ -131,6 +215,28 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
             />
           </div>
 
+          {/* Invite Only */}
+          <div className="flex items-center justify-between rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="invite_only" className="text-base">Invite only</Label>
+              <p className="text-sm text-zinc-400">
+                When enabled, only people on the invite list can view the contest and claim squares, using the
+                link emailed to them. The PIN alone is no longer enough.
+              </p>
+            </div>
+            <Controller
+              name="invite_only"
+              control={control}
+              render={({ field }) => (
+                <Switch
+                  id="invite_only"
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              )}
+            />
+          </div>
+
           {/* Require PIN */}
           <div className="flex items-center justify-between rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
             <div className="space-y-0.5">
@@ -161,7 +267,7 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
                   <Input
                     id="access_pin"
                     type={showPin ? 'text' : 'password'}
-                    maxLength={6}
+                    maxLength={ACCESS_PIN_MAX_LENGTH}
                     {...register('access_pin')}
                     className="border-zinc-700 bg-zinc-800 pr-10 font-mono uppercase tracking-widest"
                     placeholder="XXXXXX"
@@ -186,11 +292,79 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
               </div>
               {errors.access_pin && <p className="text-sm text-red-500">{errors.access_pin.message}</p>}
               <p className="text-xs text-zinc-500">
-                6 characters max, letters and numbers only
+                6 to 12 characters, letters and numbers only. Changing the PIN signs out everyone who entered the old one.
               </p>
             </div>
           )}
 
+          {/* PIN Expiry */}
+          {requirePin && (
+            <div className="space-y-2">
+              <Label htmlFor="pin_expires_at">PIN expires (optional)</Label>
+              <Input
+                id="pin_expires_at"
+                type="datetime-local"
+                {...register('pin_expires_at')}
+                suppressHydrationWarning
+                className="border-zinc-700 bg-zinc-800"
+              />
+              <p className="text-xs text-zinc-500">
+                After this time the PIN stops working, including for people who already entered it
+              </p>
+            </div>
+          )}
+
+          {/* Rotate PIN */}
+          {requirePin && savedPin && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+              <div className="space-y-0.5">
+                <p className="text-base font-medium">Rotate PIN</p>
+                <p className="text-sm text-zinc-400">
+                  Replace the PIN with a new random one and sign out everyone who entered the old one
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsRotateDialogOpen(true)}
+                disabled={isPending || isDirty}
+                className="border-zinc-700"
+              >
+                <RotateCw className="mr-2 h-4 w-4" />
+                Rotate
+              </Button>
+            </div>
+          )}
+
+          {/* Failed PIN Attempts */}
+          {savedPin && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4 text-zinc-400" />
+                <Label>Recent failed PIN attempts</Label>
+              </div>
+              {failedPinAttempts.length === 0 ? (
+                <p className="text-sm text-zinc-500">No wrong PINs entered in the last 7 days.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-zinc-400">
+                    {failedPinAttempts.length} wrong PIN{failedPinAttempts.length === 1 ? '' : 's'} in the last 7
+                    days. Repeated guesses are slowed down automatically; rotate the PIN if you think it has
+                    leaked.
+                  </p>
+                  <ul className="max-h-48 divide-y divide-zinc-800 overflow-y-auto rounded-lg border border-zinc-700">
+                    {failedPinAttempts.map((attempt) => (
+                      <li key={attempt.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span className="font-mono text-zinc-300">{attempt.client_ip ?? 'Unknown address'}</span>
+                        <span className="text-zinc-500">{formatDateTime(attempt.attempted_at)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end pt-4">
             <Button type="submit" disabled={isPending || !isDirty}>
@@ -199,6 +373,34 @@ export function AccessControlSection({ contest }: AccessControlSectionProps) {
             </Button>
           </div>
         </form>
+
+        <InviteAllowlist contestId={contest.id} invitees={invitees} />
+
+        <AlertDialog open={isRotateDialogOpen} onOpenChange={setIsRotateDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Rotate the PIN?</AlertDialogTitle>
+              <AlertDialogDescription>
+                A new PIN is generated and the current one stops working right away. Everyone who
+                entered it, including participants who already claimed squares, will need the new PIN
+                to view the contest.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleRotatePin();
+                }}
+                disabled={isPending}
+              >
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Rotate PIN
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </CardContent>
     </Card>
   );
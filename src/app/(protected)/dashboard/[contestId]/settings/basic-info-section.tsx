@@ -13,6 +13,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
 import { updateContest } from '@/features/contests/actions/update-contest';
+import { getSport } from '@/features/contests/constants';
 import { Database } from '@/libs/supabase/types';
 import { zodResolver } from '@hookform/resolvers/zod';
 
@@ -31,11 +32,6 @@ interface BasicInfoSectionProps {
   contest: Contest;
 }
 
-const SPORT_TYPE_LABELS: Record<string, string> = {
-  football: 'Football',
-  baseball: 'Baseball',
-};
-
 export function BasicInfoSection({ contest }: BasicInfoSectionProps) {
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -116,7 +112,7 @@ export function BasicInfoSection({ contest }: BasicInfoSectionProps) {
             <Label>Sport Type</Label>
             <div className="flex items-center gap-2">
               <Badge variant="outline" className="border-zinc-700 text-zinc-300">
-                {SPORT_TYPE_LABELS[contest.sport_type] || contest.sport_type}
+                {getSport(contest.sport_type).label}
               </Badge>
               <span className="text-xs text-zinc-500">(Cannot be changed after creation)</span>
             </div>
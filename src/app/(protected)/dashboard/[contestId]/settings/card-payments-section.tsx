@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { CreditCard, ExternalLink, Loader2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  createStripeDashboardLink,
+  createStripeOnboardingLink,
+} from '@/features/square-payments/actions/connect-stripe-account';
+import { updateCardPayments } from '@/features/square-payments/actions/update-card-payments';
+import { ConnectedAccount } from '@/features/square-payments/types';
+import { Database } from '@/libs/supabase/types';
+
+type Contest = Database['public']['Tables']['contests']['Row'];
+
+interface CardPaymentsSectionProps {
+  contest: Contest;
+  connectedAccount: ConnectedAccount | null;
+  isOwner: boolean;
+}
+
+export function CardPaymentsSection({ contest, connectedAccount, isOwner }: CardPaymentsSectionProps) {
+  const [isPending, startTransition] = useTransition();
+  const [isEnabled, setIsEnabled] = useState(contest.accept_card_payments);
+  const { toast } = useToast();
+
+  const canAcceptCharges = Boolean(connectedAccount?.charges_enabled);
+
+  function openStripeLink(createLink: (contestId: string) => ReturnType<typeof createStripeOnboardingLink>) {
+    startTransition(async () => {
+      const result = await createLink(contest.id);
+
+      if (result?.error || !result?.data) {
+        toast({ variant: 'destructive', title: 'Error', description: result?.error?.message });
+        return;
+      }
+
+      window.location.href = result.data.url;
+    });
+  }
+
+  function handleToggle(enabled: boolean) {
+    setIsEnabled(enabled);
+    startTransition(async () => {
+      const result = await updateCardPayments(contest.id, enabled);
+
+      if (result?.error) {
+        setIsEnabled(!enabled);
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: enabled ? 'Card payments enabled' : 'Card payments disabled' });
+    });
+  }
+
+  return (
+    <Card className="border-zinc-800 bg-zinc-900">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <CreditCard className="h-5 w-5 text-orange-400" />
+          Card Payments
+        </CardTitle>
+        <CardDescription>
+          Let participants pay for their squares by card with Stripe. Squares are marked paid automatically and the
+          money is paid out to the contest owner&apos;s bank account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-zinc-300">Stripe account</p>
+            {canAcceptCharges ? (
+              <Badge variant="secondary" className="border-green-500/30 bg-green-500/20 text-green-300">
+                Connected
+              </Badge>
+            ) : connectedAccount ? (
+              <Badge variant="secondary" className="border-yellow-500/30 bg-yellow-500/20 text-yellow-300">
+                Setup incomplete
+              </Badge>
+            ) : (
+              <p className="text-sm text-zinc-500">
+                {isOwner ? 'Not connected' : 'The contest owner needs to connect a Stripe account.'}
+              </p>
+            )}
+          </div>
+          {isOwner &&
+            (canAcceptCharges ? (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => openStripeLink(createStripeDashboardLink)}
+                disabled={isPending}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Stripe Dashboard
+              </Button>
+            ) : (
+              <Button type="button" onClick={() => openStripeLink(createStripeOnboardingLink)} disabled={isPending}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {connectedAccount ? 'Finish Setup' : 'Connect Stripe'}
+              </Button>
+            ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="accept_card_payments" className="text-zinc-300">
+              Accept card payments
+            </Label>
+            <p className="text-xs text-zinc-500">
+              Participants see a Pay by Card button after claiming a square, alongside your other payment options.
+            </p>
+          </div>
+          <Switch
+            id="accept_card_payments"
+            checked={isEnabled}
+            onCheckedChange={handleToggle}
+            disabled={isPending || (!canAcceptCharges && !isEnabled)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/components/ui/use-toast';
 import { deleteContest } from '@/features/contests/actions/delete-contest';
+import { CONTEST_TRASH_RETENTION_DAYS } from '@/features/contests/constants';
 import { Database } from '@/libs/supabase/types';
 
 type Contest = Database['public']['Tables']['contests']['Row'];
@@ -52,7 +53,7 @@ export function DangerZoneSection({ contest }: DangerZoneSectionProps) {
 
       toast({
         title: 'Contest deleted',
-        description: 'Your contest has been permanently deleted.',
+        description: `You can restore it from Recently Deleted for ${CONTEST_TRASH_RETENTION_DAYS} days.`,
       });
 
       setIsDialogOpen(false);
@@ -80,8 +81,9 @@ export function DangerZoneSection({ contest }: DangerZoneSectionProps) {
             <div className="flex-1">
               <h4 className="font-medium text-white">Delete Contest</h4>
               <p className="mt-1 text-sm text-zinc-400">
-                Deleting a contest is permanent and cannot be undone. All squares and participant
-                data will be removed.
+                The contest moves to Recently Deleted, where you can restore it for{' '}
+                {CONTEST_TRASH_RETENTION_DAYS} days. After that, all squares and participant data are
+                permanently removed.
               </p>
             </div>
             <Button variant="destructive" onClick={handleOpenDialog}>
@@ -101,8 +103,8 @@ export function DangerZoneSection({ contest }: DangerZoneSectionProps) {
               Delete Contest
             </DialogTitle>
             <DialogDescription>
-              This action cannot be undone. All contest data, squares, and participant information
-              will be permanently deleted.
+              The contest will be taken offline immediately. Restore it within {CONTEST_TRASH_RETENTION_DAYS} days
+              or all contest data, squares, and participant information will be permanently deleted.
             </DialogDescription>
           </DialogHeader>
 
@@ -0,0 +1,232 @@
+'use client';
+
+import { ChangeEvent, useRef, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileUp, Loader2, MailCheck, Send, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  addContestInvitees,
+  removeContestInvitee,
+  sendContestInvites,
+} from '@/features/contests/actions/manage-contest-invitees';
+import { ACCESS_LINK_TTL_DAYS } from '@/features/contests/constants';
+import { ContestInvitee } from '@/features/contests/types';
+import { parseInviteeEmails } from '@/features/contests/utils';
+import { formatDateTime } from '@/utils/date-formatters';
+
+interface InviteAllowlistProps {
+  contestId: string;
+  invitees: ContestInvitee[];
+}
+
+export function InviteAllowlist({ contestId, invitees }: InviteAllowlistProps) {
+  const [isPending, startTransition] = useTransition();
+  const [text, setText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const parsed = parseInviteeEmails(text);
+  const unsentCount = invitees.filter((invitee) => !invitee.last_sent_at).length;
+
+  async function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const contents = await file.text();
+    setText((current) => (current.trim() ? `${current}\n${contents}` : contents));
+  }
+
+  function handleAdd() {
+    startTransition(async () => {
+      const result = await addContestInvitees(contestId, text);
+
+      if (!result?.data) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: result?.error?.message ?? 'Failed to add invitees',
+        });
+        return;
+      }
+
+      const { invitees: added, invalid } = result.data;
+      const skipped = parsed.emails.length - added.length;
+      toast({
+        title: `${added.length} added to the invite list`,
+        description: [
+          skipped > 0 ? `${skipped} already on the list.` : null,
+          invalid.length > 0 ? `Skipped invalid: ${invalid.join(', ')}` : null,
+        ]
+          .filter(Boolean)
+          .join(' '),
+      });
+      setText('');
+      router.refresh();
+    });
+  }
+
+  function handleSend(inviteeIds?: string[]) {
+    startTransition(async () => {
+      const result = await sendContestInvites(contestId, inviteeIds);
+
+      if (!result?.data) {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: result?.error?.message ?? 'Failed to send invites',
+        });
+        return;
+      }
+
+      const attempted = inviteeIds?.length ?? unsentCount;
+      const failed = attempted - result.data.length;
+      toast({
+        variant: failed > 0 ? 'destructive' : 'default',
+        title: `${result.data.length} invite${result.data.length === 1 ? '' : 's'} sent`,
+        description: failed > 0 ? `${failed} could not be delivered. Try resending them.` : undefined,
+      });
+      router.refresh();
+    });
+  }
+
+  function handleRemove(inviteeId: string) {
+    startTransition(async () => {
+      const result = await removeContestInvitee(contestId, inviteeId);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Invitee removed', description: 'Their access link no longer works.' });
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="mt-6 space-y-4 border-t border-zinc-800 pt-6">
+      <div className="space-y-0.5">
+        <div className="flex items-center gap-2">
+          <MailCheck className="h-4 w-4 text-zinc-400" />
+          <p className="text-base font-medium">Invite list</p>
+        </div>
+        <p className="text-sm text-zinc-400">
+          Each person is emailed a personal link, good for {ACCESS_LINK_TTL_DAYS} days, that lets them in without the
+          PIN. Removing someone locks them out right away.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="invitee_emails">Add emails</Label>
+        <Textarea
+          id="invitee_emails"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={'jane@example.com\nsam@example.com, alex@example.com'}
+          rows={4}
+          className="border-zinc-700 bg-zinc-800"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={handleFileChange}
+          hidden
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-zinc-500">
+            Paste addresses or import a CSV.{' '}
+            {text.trim() &&
+              `${parsed.emails.length} valid email${parsed.emails.length === 1 ? '' : 's'} found${
+                parsed.invalid.length > 0 ? `, ${parsed.invalid.length} invalid` : ''
+              }.`}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isPending}
+              className="border-zinc-700"
+            >
+              <FileUp className="mr-2 h-4 w-4" />
+              Import CSV
+            </Button>
+            <Button type="button" onClick={handleAdd} disabled={isPending || parsed.emails.length === 0}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add to List
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {invitees.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-zinc-400">
+              {invitees.length} invitee{invitees.length === 1 ? '' : 's'}
+              {unsentCount > 0 && `, ${unsentCount} not yet emailed`}
+            </p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleSend()}
+              disabled={isPending || unsentCount === 0}
+              className="border-zinc-700"
+            >
+              <Send className="mr-2 h-4 w-4" />
+              Send Invites
+            </Button>
+          </div>
+          <ul className="max-h-72 divide-y divide-zinc-800 overflow-y-auto rounded-lg border border-zinc-700">
+            {invitees.map((invitee) => (
+              <li key={invitee.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <p className="truncate text-zinc-300">{invitee.email}</p>
+                  {invitee.last_sent_at ? (
+                    <p className="text-xs text-zinc-500">Sent {formatDateTime(invitee.last_sent_at)}</p>
+                  ) : (
+                    <Badge variant="outline" className="border-zinc-600 text-zinc-400">
+                      Not sent
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSend([invitee.id])}
+                    disabled={isPending}
+                    className="text-zinc-400 hover:text-white"
+                  >
+                    {invitee.last_sent_at ? 'Resend' : 'Send'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Remove ${invitee.email}`}
+                    onClick={() => handleRemove(invitee.id)}
+                    disabled={isPending}
+                    className="h-8 w-8 shrink-0 p-0 text-red-400 hover:bg-red-950 hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
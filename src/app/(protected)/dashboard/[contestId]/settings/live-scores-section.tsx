@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Radio, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { getPeriodLabel, getSport } from '@/features/contests/constants';
+import { GameQuarter } from '@/features/contests/types';
+import { linkLiveGame } from '@/features/live-scores/actions/link-live-game';
+import { unlinkLiveGame } from '@/features/live-scores/actions/unlink-live-game';
+import { getLeaguesForSport, isSeriesSport, SCORE_LEAGUES } from '@/features/live-scores/constants';
+import { LiveGame, ScoreLeague } from '@/features/live-scores/types';
+import { Database } from '@/libs/supabase/types';
+import { formatDateTime } from '@/utils/date-formatters';
+
+type Contest = Database['public']['Tables']['contests']['Row'];
+
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: 'Scheduled',
+  in_progress: 'Live',
+  final: 'Final',
+};
+
+interface LiveScoresSectionProps {
+  contest: Contest;
+  liveGames: LiveGame[];
+}
+
+export function LiveScoresSection({ contest, liveGames }: LiveScoresSectionProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const sport = getSport(contest.sport_type);
+  const leagues = getLeaguesForSport(sport.type);
+  const isSeries = isSeriesSport(sport.type);
+  const unlinkedPeriods = sport.periods.filter((p) => !liveGames.some((g) => g.quarter === p.key));
+
+  const [league, setLeague] = useState<ScoreLeague | undefined>(leagues[0]?.type);
+  const [eventId, setEventId] = useState('');
+  const [quarter, setQuarter] = useState<GameQuarter | undefined>(unlinkedPeriods[0]?.key);
+  const [rowIsHome, setRowIsHome] = useState(true);
+
+  // Leagues only cover some sports, and score-change contests are scored by hand
+  if (leagues.length === 0 || contest.prize_type === 'score_change') return null;
+
+  const canLink = isSeries ? unlinkedPeriods.length > 0 : liveGames.length === 0;
+
+  function handleLink() {
+    if (!league) return;
+
+    startTransition(async () => {
+      const result = await linkLiveGame(contest.id, {
+        league,
+        eventId,
+        quarter: isSeries ? quarter ?? null : null,
+        rowIsHome,
+      });
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Game linked', description: 'Scores will be recorded as each period ends.' });
+      setEventId('');
+      setQuarter(unlinkedPeriods.find((p) => p.key !== quarter)?.key);
+      router.refresh();
+    });
+  }
+
+  function handleUnlink(liveGameId: string) {
+    startTransition(async () => {
+      const result = await unlinkLiveGame(contest.id, liveGameId);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Game unlinked', description: 'Scores from this game will no longer be recorded.' });
+      router.refresh();
+    });
+  }
+
+  return (
+    <Card className="border-zinc-800 bg-zinc-900">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Radio className="h-5 w-5 text-orange-400" />
+          Live Scores
+        </CardTitle>
+        <CardDescription>
+          Link this contest to a scheduled game and each {sport.periodNoun}&apos;s score is recorded automatically as it
+          ends, with winners picked and emailed just like manual entry.
+          {isSeries && ` Link each ${sport.periodNoun} of the series to its game.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {liveGames.length > 0 && (
+          <div className="space-y-2">
+            {liveGames.map((game) => (
+              <div
+                key={game.id}
+                className="flex items-center justify-between gap-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium text-zinc-300">
+                      {SCORE_LEAGUES[game.league].label} · {game.event_id}
+                      {game.quarter && ` · ${getPeriodLabel(sport.type, game.quarter)}`}
+                    </p>
+                    <Badge variant="outline" className="border-zinc-600 text-zinc-400">
+                      {STATUS_LABELS[game.status] ?? game.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-zinc-500">
+                    {game.home_score != null && game.away_score != null
+                      ? `${contest.row_team_name} ${game.row_is_home ? game.home_score : game.away_score} - ${
+                          contest.col_team_name
+                        } ${game.row_is_home ? game.away_score : game.home_score} · `
+                      : ''}
+                    {game.last_checked_at ? `Checked ${formatDateTime(game.last_checked_at)}` : 'Not checked yet'}
+                  </p>
+                  {game.last_error && <p className="text-xs text-red-400">{game.last_error}</p>}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleUnlink(game.id)}
+                  disabled={isPending}
+                  className="h-8 w-8 shrink-0 p-0 text-red-400 hover:bg-red-950 hover:text-red-300"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canLink && (
+          <div className="space-y-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="live_score_league">League</Label>
+                <select
+                  id="live_score_league"
+                  value={league}
+                  onChange={(e) => setLeague(e.target.value as ScoreLeague)}
+                  className="flex h-10 w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-zinc-900"
+                >
+                  {leagues.map((l) => (
+                    <option key={l.type} value={l.type}>
+                      {l.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="live_score_event_id">Event ID</Label>
+                <Input
+                  id="live_score_event_id"
+                  value={eventId}
+                  onChange={(e) => setEventId(e.target.value)}
+                  placeholder="e.g., 401671889"
+                  className="border-zinc-700 bg-zinc-800"
+                />
+              </div>
+
+              {isSeries && (
+                <div className="space-y-2">
+                  <Label htmlFor="live_score_quarter">Decides</Label>
+                  <select
+                    id="live_score_quarter"
+                    value={quarter}
+                    onChange={(e) => setQuarter(e.target.value as GameQuarter)}
+                    className="flex h-10 w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-zinc-900"
+                  >
+                    {unlinkedPeriods.map((p) => (
+                      <option key={p.key} value={p.key}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-zinc-300">{contest.row_team_name} are the home team</p>
+                <p className="text-xs text-zinc-500">
+                  Turn off when {contest.col_team_name} play at home, so each score lines up with your grid.
+                </p>
+              </div>
+              <Switch checked={rowIsHome} onCheckedChange={setRowIsHome} />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="button" onClick={handleLink} disabled={isPending || !eventId.trim()}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Link Game
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
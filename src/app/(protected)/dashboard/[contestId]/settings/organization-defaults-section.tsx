@@ -0,0 +1,59 @@
+'use client';
+
+import { useTransition } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { saveOrganizationDefaults } from '@/features/organizations/actions/save-organization-defaults';
+import { Database } from '@/libs/supabase/types';
+
+type Contest = Database['public']['Tables']['contests']['Row'];
+
+interface OrganizationDefaultsSectionProps {
+  contest: Contest;
+  organizationName: string;
+}
+
+export function OrganizationDefaultsSection({ contest, organizationName }: OrganizationDefaultsSectionProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  function handleSave() {
+    startTransition(async () => {
+      const result = await saveOrganizationDefaults(contest.id);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({
+        title: 'Organization defaults saved',
+        description: `New contests in ${organizationName} will start with this branding and these payment options.`,
+      });
+    });
+  }
+
+  return (
+    <Card className="border-zinc-800 bg-zinc-900">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Building2 className="h-5 w-5 text-orange-400" />
+          Organization Defaults
+        </CardTitle>
+        <CardDescription>
+          This contest belongs to {organizationName}. Share its colors, logo, banner and payment options with every new
+          contest the organization creates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex justify-end">
+        <Button type="button" variant="outline" onClick={handleSave} disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save as Organization Defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,15 +2,35 @@ import Link from 'next/link';
 import { notFound, redirect } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
 
-import { getContestById, getPaymentOptionsForContest } from '@/features/contests/queries';
+import { canChangeContestField, hasContestPermission } from '@/features/contests/constants';
+import { getContestRole } from '@/features/contests/middleware/auth-middleware';
+import {
+  getContestAccessPin,
+  getContestById,
+  getContestInviteesForContest,
+  getContestMembersForContest,
+  getFailedPinAttemptsForContest,
+  getPaymentOptionsForContest,
+} from '@/features/contests/queries';
 import { getPlayerSalesCounts } from '@/features/contests/queries/get-player-sales-counts';
+import { getLiveGamesForContest } from '@/features/live-scores/queries/get-live-games';
+import { canManageOrganization } from '@/features/organizations/constants';
+import { getWorkspaces } from '@/features/organizations/controllers/get-workspaces';
+import {
+  getConnectedAccount,
+  refreshConnectedAccount,
+} from '@/features/square-payments/controllers/get-connected-account';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 
 import { AccessControlSection } from './access-control-section';
 import { BasicInfoSection } from './basic-info-section';
 import { BrandingSection } from './branding-section';
+import { CardPaymentsSection } from './card-payments-section';
 import { ContestStatusSection } from './contest-status-section';
 import { DangerZoneSection } from './danger-zone-section';
+import { LiveScoresSection } from './live-scores-section';
+import { MembersSection } from './members-section';
+import { OrganizationDefaultsSection } from './organization-defaults-section';
 import { PaymentOptionsSection } from './payment-options-section';
 import { PlayerTrackingSection } from './player-tracking-section';
 import { PricingPayoutsSection } from './pricing-payouts-section';
@@ -41,10 +61,15 @@ export default async function SettingsPage({ params }: SettingsPageProps) {
     notFound();
   }
 
-  // Verify user owns the contest
-  if (contest.owner_id !== user.id) {
+  // Owners and managers can change settings; other members go back to the contest
+  const role = await getContestRole(supabase, user.id, contest);
+  if (!role) {
     redirect('/dashboard');
   }
+  if (!hasContestPermission(role, 'manage_settings')) {
+    redirect(`/dashboard/${contestId}`);
+  }
+  const canManageMembers = hasContestPermission(role, 'manage_members');
 
   // Fetch payment options
   const paymentOptions = await getPaymentOptionsForContest(contestId);
@@ -52,6 +77,26 @@ export default async function SettingsPage({ params }: SettingsPageProps) {
   // Fetch player sales counts
   const playerSalesCounts = await getPlayerSalesCounts(contestId);
 
+  // Fetch the access PIN and recent wrong guesses at it
+  const accessPin = await getContestAccessPin(contestId);
+  const failedPinAttempts = accessPin ? await getFailedPinAttemptsForContest(contestId) : [];
+  const invitees = await getContestInviteesForContest(contestId);
+
+  // Fetch games linked for live scores
+  const liveGames = await getLiveGamesForContest(contestId);
+
+  // Card payments go to the owner's Stripe account; refresh its status in case they just finished onboarding
+  const connectedAccount =
+    role === 'owner' ? await refreshConnectedAccount(user.id) : await getConnectedAccount(contest.owner_id);
+
+  // Fetch co-organizers (owner only)
+  const members = canManageMembers ? await getContestMembersForContest(contestId) : [];
+
+  // Organization admins can share this contest's setup with the rest of the organization
+  const workspaces = contest.organization_id ? await getWorkspaces(user.id) : [];
+  const organizationWorkspace = workspaces.find((w) => w.organization.id === contest.organization_id);
+  const canSaveOrganizationDefaults = canManageOrganization(organizationWorkspace?.role);
+
   return (
     <div className="space-y-6">
       {/* Back link */}
@@ -73,13 +118,24 @@ export default async function SettingsPage({ params }: SettingsPageProps) {
       <div className="space-y-6">
         <BasicInfoSection contest={contest} />
         <ContestStatusSection contest={contest} />
-        <PricingPayoutsSection contest={contest} />
+        <PricingPayoutsSection contest={contest} canChangePayouts={canChangeContestField(role, 'square_price')} />
         <PaymentOptionsSection contest={contest} paymentOptions={paymentOptions} />
+        <CardPaymentsSection contest={contest} connectedAccount={connectedAccount} isOwner={role === 'owner'} />
         <PlayerTrackingSection contest={contest} squaresPerPlayer={playerSalesCounts} />
         <SuperBowlSection contest={contest} />
-        <AccessControlSection contest={contest} />
+        <LiveScoresSection contest={contest} liveGames={liveGames} />
+        <AccessControlSection
+          contest={contest}
+          accessPin={accessPin}
+          failedPinAttempts={failedPinAttempts}
+          invitees={invitees}
+        />
         <BrandingSection contest={contest} />
-        <DangerZoneSection contest={contest} />
+        {canSaveOrganizationDefaults && organizationWorkspace && (
+          <OrganizationDefaultsSection contest={contest} organizationName={organizationWorkspace.organization.name} />
+        )}
+        {canManageMembers && <MembersSection contest={contest} members={members} />}
+        {hasContestPermission(role, 'delete_contest') && <DangerZoneSection contest={contest} />}
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 'use client';
 
-import { useTransition } from 'react';
+import { useMemo, useTransition } from 'react';
 import { Loader2 } from 'lucide-react';
 import { type Resolver,useForm } from 'react-hook-form';
 import { z } from 'zod';
@@ -9,9 +9,33 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/components/ui/use-toast';
 import { updateContest } from '@/features/contests/actions/update-contest';
-import { FOOTBALL_QUARTER_LABELS, PRIZE_TEXT_MAX_LENGTH } from '@/features/contests/constants';
+import {
+  ALL_PAYOUT_FIELDS,
+  ALL_PRIZE_TEXT_FIELDS,
+  getSecondaryPayoutRules,
+  getSport,
+  getTotalSquares,
+  MAX_ORGANIZATION_CUT_PERCENT,
+  MAX_SECONDARY_PAYOUT_PERCENT,
+  OVERTIME_RULE_TYPES,
+  OVERTIME_RULES,
+  PAYMENT_DEADLINE_MAX_HOURS,
+  POT_BASES,
+  POT_BASIS_TYPES,
+  PRIZE_TEXT_MAX_LENGTH,
+  ROLLOVER_POLICIES,
+  ROLLOVER_POLICY_TYPES,
+  SECONDARY_PAYOUT_RULES,
+  SportType,
+  sumPayoutPercent,
+  sumSecondaryPercent,
+  supportsCustomPrizes,
+  supportsOvertimeRules,
+} from '@/features/contests/constants';
+import { calculateMaxPot, getPrizeAmount } from '@/features/contests/utils';
 import { Database } from '@/libs/supabase/types';
 import { cn } from '@/utils/cn';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -22,68 +46,92 @@ type Contest = Database['public']['Tables']['contests']['Row'];
 const baseSchema = z.object({
   square_price: z.coerce.number().min(1, 'Price must be at least $1'),
   max_squares_per_person: z.coerce.number().min(1).max(100).nullable(),
+  hide_quick_pick_locations: z.boolean(),
+  payment_deadline_hours: z
+    .number()
+    .int('Enter a whole number of hours')
+    .min(1, 'Deadline must be at least 1 hour')
+    .max(PAYMENT_DEADLINE_MAX_HOURS, `Deadline cannot exceed ${PAYMENT_DEADLINE_MAX_HOURS} hours`)
+    .nullable(),
 });
 
-// Football payout schema
-const footballPayoutSchema = baseSchema.extend({
-  prize_type: z.enum(['percentage', 'custom']).default('percentage'),
-  payout_q1_percent: z.coerce.number().min(0).max(100),
-  payout_q2_percent: z.coerce.number().min(0).max(100),
-  payout_q3_percent: z.coerce.number().min(0).max(100),
-  payout_final_percent: z.coerce.number().min(0).max(100),
-  prize_q1_text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
-  prize_q2_text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
-  prize_q3_text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
-  prize_final_text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
-}).refine(
-  (data) => {
-    if (data.prize_type === 'percentage') {
-      const total = data.payout_q1_percent + data.payout_q2_percent + data.payout_q3_percent + data.payout_final_percent;
-      return total <= 100;
+const payoutPercent = z.coerce.number().min(0).max(100);
+const prizeText = z.string().max(25, 'Prize text must be 25 characters or less').optional();
+
+// Payout schema covering every sport's periods; only the contest's sport is validated and saved
+const payoutSchema = baseSchema.extend({
+  prize_type: z.enum(['percentage', 'custom', 'score_change']).default('percentage'),
+  score_change_payout: z.coerce.number().min(0, 'Payout cannot be negative'),
+  rollover_policy: z.enum(ROLLOVER_POLICY_TYPES),
+  pot_basis: z.enum(POT_BASIS_TYPES),
+  organization_cut_percent: z.coerce.number().int().min(0).max(MAX_ORGANIZATION_CUT_PERCENT),
+  overtime_rule: z.enum(OVERTIME_RULE_TYPES),
+  payout_q1_percent: payoutPercent,
+  payout_q2_percent: payoutPercent,
+  payout_q3_percent: payoutPercent,
+  payout_final_percent: payoutPercent,
+  payout_ot_percent: payoutPercent,
+  payout_game1_percent: payoutPercent,
+  payout_game2_percent: payoutPercent,
+  payout_game3_percent: payoutPercent,
+  payout_game4_percent: payoutPercent,
+  payout_game5_percent: payoutPercent,
+  payout_game6_percent: payoutPercent,
+  payout_game7_percent: payoutPercent,
+  prize_q1_text: prizeText,
+  prize_q2_text: prizeText,
+  prize_q3_text: prizeText,
+  prize_final_text: prizeText,
+  prize_ot_text: prizeText,
+  // Secondary payouts (share of each period's prize)
+  secondary_reverse_percent: payoutPercent,
+  secondary_touching_percent: payoutPercent,
+  secondary_minus_one_percent: payoutPercent,
+});
+
+type PayoutFormData = z.infer<typeof payoutSchema>;
+
+function createPayoutSchema(sportType: SportType, totalSquares: number) {
+  return payoutSchema.superRefine((data, ctx) => {
+    // A separate OT prize adds an overtime period
+    const periods = getSport(sportType, data.overtime_rule).periods;
+    const lastPeriod = periods[periods.length - 1];
+    if (data.max_squares_per_person && data.max_squares_per_person > totalSquares) {
+      ctx.addIssue({ code: 'custom', message: `Cannot exceed ${totalSquares} squares`, path: ['max_squares_per_person'] });
+    }
+    if (data.prize_type === 'percentage' && sumPayoutPercent(sportType, data, 'db', data.overtime_rule) > 100) {
+      ctx.addIssue({ code: 'custom', message: 'Total payouts cannot exceed 100%', path: [lastPeriod.payoutField] });
+    }
+    if (data.prize_type === 'score_change' && data.score_change_payout <= 0) {
+      ctx.addIssue({ code: 'custom', message: 'Enter the amount paid for each score change', path: ['score_change_payout'] });
+    }
+    if (data.prize_type === 'percentage' && sumSecondaryPercent(sportType, data) > MAX_SECONDARY_PAYOUT_PERCENT) {
+      const rules = getSecondaryPayoutRules(sportType);
+      ctx.addIssue({
+        code: 'custom',
+        message: `Secondary payouts cannot exceed ${MAX_SECONDARY_PAYOUT_PERCENT}% of a prize`,
+        path: [rules[rules.length - 1].field],
+      });
     }
-    return true;
-  },
-  { message: 'Total payouts cannot exceed 100%', path: ['payout_final_percent'] }
-);
-
-// Baseball payout schema
-const baseballPayoutSchema = baseSchema.extend({
-  payout_game1_percent: z.coerce.number().min(0).max(100),
-  payout_game2_percent: z.coerce.number().min(0).max(100),
-  payout_game3_percent: z.coerce.number().min(0).max(100),
-  payout_game4_percent: z.coerce.number().min(0).max(100),
-  payout_game5_percent: z.coerce.number().min(0).max(100),
-  payout_game6_percent: z.coerce.number().min(0).max(100),
-  payout_game7_percent: z.coerce.number().min(0).max(100),
-}).refine(
-  (data) => {
-    const total = data.payout_game1_percent + data.payout_game2_percent + data.payout_game3_percent +
-      data.payout_game4_percent + data.payout_game5_percent + data.payout_game6_percent + data.payout_game7_percent;
-    return total <= 100;
-  },
-  { message: 'Total payouts cannot exceed 100%', path: ['payout_game7_percent'] }
-);
-
-type FootballFormData = z.infer<typeof footballPayoutSchema>;
-type BaseballFormData = z.infer<typeof baseballPayoutSchema>;
+  });
+}
 
 interface PricingPayoutsSectionProps {
   contest: Contest;
+  /** Managers can change the claim rules here, but the price and payouts stay with the owner */
+  canChangePayouts: boolean;
 }
 
-export function PricingPayoutsSection({ contest }: PricingPayoutsSectionProps) {
-  const isFootball = contest.sport_type === 'football';
-
-  if (isFootball) {
-    return <FootballPayoutsForm contest={contest} />;
-  }
-
-  return <BaseballPayoutsForm contest={contest} />;
-}
-
-function FootballPayoutsForm({ contest }: { contest: Contest }) {
+export function PricingPayoutsSection({ contest, canChangePayouts }: PricingPayoutsSectionProps) {
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
+  const canUseCustomPrizes = supportsCustomPrizes(contest.sport_type);
+  const hasOvertimeRule = supportsOvertimeRules(contest.sport_type);
+  const totalSquares = getTotalSquares(contest.grid_layout);
+  const schema = useMemo(
+    () => createPayoutSchema(contest.sport_type, totalSquares),
+    [contest.sport_type, totalSquares]
+  );
 
   const {
     register,
@@ -91,84 +139,121 @@ function FootballPayoutsForm({ contest }: { contest: Contest }) {
     watch,
     setValue,
     formState: { errors, isDirty },
-  } = useForm<FootballFormData>({
-    resolver: zodResolver(footballPayoutSchema) as Resolver<FootballFormData>,
+  } = useForm<PayoutFormData>({
+    resolver: zodResolver(schema) as Resolver<PayoutFormData>,
     defaultValues: {
       square_price: contest.square_price,
       max_squares_per_person: contest.max_squares_per_person,
-      prize_type: (contest.prize_type as 'percentage' | 'custom') ?? 'percentage',
-      payout_q1_percent: contest.payout_q1_percent ?? 0,
-      payout_q2_percent: contest.payout_q2_percent ?? 0,
-      payout_q3_percent: contest.payout_q3_percent ?? 0,
-      payout_final_percent: contest.payout_final_percent ?? 0,
-      prize_q1_text: contest.prize_q1_text ?? undefined,
-      prize_q2_text: contest.prize_q2_text ?? undefined,
-      prize_q3_text: contest.prize_q3_text ?? undefined,
-      prize_final_text: contest.prize_final_text ?? undefined,
+      hide_quick_pick_locations: contest.hide_quick_pick_locations,
+      payment_deadline_hours: contest.payment_deadline_hours,
+      prize_type: contest.prize_type ?? 'percentage',
+      score_change_payout: Number(contest.score_change_payout),
+      rollover_policy: contest.rollover_policy,
+      pot_basis: contest.pot_basis,
+      organization_cut_percent: contest.organization_cut_percent,
+      overtime_rule: contest.overtime_rule,
+      ...Object.fromEntries(ALL_PAYOUT_FIELDS.map((field) => [field, contest[field] ?? 0])),
+      ...Object.fromEntries(ALL_PRIZE_TEXT_FIELDS.map((field) => [field, contest[field] ?? undefined])),
+      ...Object.fromEntries(SECONDARY_PAYOUT_RULES.map((rule) => [rule.field, contest[rule.field] ?? 0])),
     },
   });
 
   const watchedValues = watch();
   const prizeType = watchedValues.prize_type ?? 'percentage';
-  const totalPercent = Number(watchedValues.payout_q1_percent || 0) + Number(watchedValues.payout_q2_percent || 0) +
-    Number(watchedValues.payout_q3_percent || 0) + Number(watchedValues.payout_final_percent || 0);
-  const totalPot = (watchedValues.square_price || 0) * 100;
-  const totalPayout = (totalPot * totalPercent) / 100;
-  const fundraiserKeeps = totalPot - totalPayout;
+  const sport = getSport(contest.sport_type, watchedValues.overtime_rule);
+  const secondaryRules = getSecondaryPayoutRules(sport.type);
+  const totalPercent = sumPayoutPercent(sport.type, watchedValues, 'db', watchedValues.overtime_rule);
+  // Preview assumes every square sells
+  const pot = calculateMaxPot({
+    square_price: watchedValues.square_price || 0,
+    grid_layout: contest.grid_layout,
+    pot_basis: watchedValues.pot_basis,
+    organization_cut_percent: watchedValues.organization_cut_percent,
+  });
+  const totalPayout = getPrizeAmount(pot, totalPercent);
+  const fundraiserKeeps = pot.grossPot - totalPayout;
 
-  const onSubmit = (data: FootballFormData) => {
+  const onSubmit = (data: PayoutFormData) => {
     startTransition(async () => {
+      if (!canChangePayouts) {
+        await saveUpdates({
+          max_squares_per_person: data.max_squares_per_person,
+          hide_quick_pick_locations: data.hide_quick_pick_locations,
+          payment_deadline_hours: data.payment_deadline_hours,
+        });
+        return;
+      }
+
       const updates: Parameters<typeof updateContest>[1] = {
         square_price: data.square_price,
         max_squares_per_person: data.max_squares_per_person,
+        hide_quick_pick_locations: data.hide_quick_pick_locations,
+        payment_deadline_hours: data.payment_deadline_hours,
         prize_type: data.prize_type,
+        score_change_payout: data.prize_type === 'score_change' ? data.score_change_payout : 0,
+        rollover_policy: data.rollover_policy,
+        pot_basis: data.pot_basis,
+        organization_cut_percent: data.organization_cut_percent,
+        overtime_rule: data.overtime_rule,
       };
 
-      if (data.prize_type === 'percentage') {
-        // Save payout percentages and clear prize text fields
-        updates.payout_q1_percent = data.payout_q1_percent;
-        updates.payout_q2_percent = data.payout_q2_percent;
-        updates.payout_q3_percent = data.payout_q3_percent;
-        updates.payout_final_percent = data.payout_final_percent;
-        updates.prize_q1_text = null;
-        updates.prize_q2_text = null;
-        updates.prize_q3_text = null;
-        updates.prize_final_text = null;
-      } else {
-        // Save prize text fields and set payout percentages to 0
-        updates.payout_q1_percent = 0;
-        updates.payout_q2_percent = 0;
-        updates.payout_q3_percent = 0;
-        updates.payout_final_percent = 0;
-        updates.prize_q1_text = data.prize_q1_text || null;
-        updates.prize_q2_text = data.prize_q2_text || null;
-        updates.prize_q3_text = data.prize_q3_text || null;
-        updates.prize_final_text = data.prize_final_text || null;
+      // Without a separate OT prize the overtime payout no longer applies
+      if (hasOvertimeRule && data.overtime_rule !== 'separate_ot') {
+        updates.payout_ot_percent = 0;
+        updates.prize_ot_text = null;
       }
 
-      const result = await updateContest(contest.id, updates);
+      for (const period of getSport(sport.type, data.overtime_rule).periods) {
+        if (data.prize_type === 'percentage') {
+          // Save payout percentages and clear prize text fields
+          updates[period.payoutField] = data[period.payoutField];
+          if (period.prizeTextField) updates[period.prizeTextField] = null;
+        } else if (data.prize_type === 'custom') {
+          // Save prize text fields and set payout percentages to 0
+          updates[period.payoutField] = 0;
+          if (period.prizeTextField) updates[period.prizeTextField] = data[period.prizeTextField] || null;
+        } else {
+          // Score-change contests only pay per scoring play
+          updates[period.payoutField] = 0;
+          if (period.prizeTextField) updates[period.prizeTextField] = null;
+        }
+      }
 
-      if (result?.error) {
-        toast({
-          variant: 'destructive',
-          title: 'Error',
-          description: result.error.message,
-        });
-        return;
+      // Secondary payouts only apply to cash prizes
+      for (const rule of secondaryRules) {
+        updates[rule.field] = data.prize_type === 'percentage' ? data[rule.field] : 0;
       }
 
+      await saveUpdates(updates);
+    });
+  };
+
+  async function saveUpdates(updates: Parameters<typeof updateContest>[1]) {
+    const result = await updateContest(contest.id, updates);
+
+    if (result?.error) {
       toast({
-        title: 'Settings saved',
-        description: 'Pricing and payouts have been updated.',
+        variant: 'destructive',
+        title: 'Error',
+        description: result.error.message,
       });
+      return;
+    }
+
+    toast({
+      title: 'Settings saved',
+      description: 'Pricing and payouts have been updated.',
     });
-  };
+  }
 
   return (
     <Card className="border-zinc-800 bg-zinc-900">
       <CardHeader>
         <CardTitle className="text-white">Pricing & Payouts</CardTitle>
-        <CardDescription>Set square price and payout percentages for each quarter.</CardDescription>
+        <CardDescription>
+          Set square price and payout percentages for each {sport.periodNoun}.
+          {!canChangePayouts && ' Only the contest owner can change the price, pot and payouts.'}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -180,6 +265,7 @@ function FootballPayoutsForm({ contest }: { contest: Contest }) {
                 id="square_price"
                 type="number"
                 min="1"
+                disabled={!canChangePayouts}
                 {...register('square_price')}
                 className="border-zinc-700 bg-zinc-800"
               />
@@ -192,7 +278,7 @@ function FootballPayoutsForm({ contest }: { contest: Contest }) {
                 id="max_squares_per_person"
                 type="number"
                 min="1"
-                max="100"
+                max={Math.min(totalSquares, 100)}
                 placeholder="No limit"
                 {...register('max_squares_per_person')}
                 className="border-zinc-700 bg-zinc-800"
@@ -203,285 +289,383 @@ function FootballPayoutsForm({ contest }: { contest: Contest }) {
             </div>
           </div>
 
-          {/* Prize Type Selection */}
+          {/* Payment Deadline */}
           <div className="space-y-2">
-            <Label className="text-base">Prize Type</Label>
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setValue('prize_type', 'percentage', { shouldDirty: true })}
-                className={cn(
-                  'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
-                  prizeType === 'percentage'
-                    ? 'border-orange-500 bg-orange-500/10 text-orange-400'
-                    : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
-                )}
-              >
-                Cash Payouts
-              </button>
-              <button
-                type="button"
-                onClick={() => setValue('prize_type', 'custom', { shouldDirty: true })}
-                className={cn(
-                  'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
-                  prizeType === 'custom'
-                    ? 'border-orange-500 bg-orange-500/10 text-orange-400'
-                    : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
-                )}
-              >
-                Custom Prizes
-              </button>
+            <Label htmlFor="payment_deadline_hours">Payment Deadline (hours)</Label>
+            <Input
+              id="payment_deadline_hours"
+              type="number"
+              min="1"
+              max={PAYMENT_DEADLINE_MAX_HOURS}
+              placeholder="No deadline"
+              {...register('payment_deadline_hours', {
+                setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+              })}
+              className="border-zinc-700 bg-zinc-800 sm:max-w-[calc(50%-0.5rem)]"
+            />
+            <p className="text-xs text-zinc-400">
+              Unpaid squares are released automatically this many hours after they&apos;re claimed, while the
+              contest is open. Participants get a reminder email before the deadline. Applies to existing pending
+              claims too.
+            </p>
+            {errors.payment_deadline_hours && (
+              <p className="text-sm text-red-500">{errors.payment_deadline_hours.message}</p>
+            )}
+          </div>
+
+          {/* Quick Pick */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-zinc-800 bg-zinc-800/50 p-4">
+            <div className="space-y-1">
+              <Label htmlFor="hide_quick_pick_locations">Hide quick-pick locations</Label>
+              <p className="text-xs text-zinc-400">
+                Participants who use Quick Pick won&apos;t see where their random squares are, and their names
+                stay off the public grid, until the numbers are drawn.
+              </p>
             </div>
-            <input type="hidden" {...register('prize_type')} />
-            {errors.prize_type && <p className="text-sm text-red-500">{errors.prize_type.message}</p>}
+            <Switch
+              id="hide_quick_pick_locations"
+              checked={watchedValues.hide_quick_pick_locations}
+              onCheckedChange={(checked) => setValue('hide_quick_pick_locations', checked, { shouldDirty: true })}
+            />
           </div>
 
-          {/* Payout Percentages - Show when prize_type is 'percentage' */}
-          {prizeType === 'percentage' && (
-            <>
-              <div className="space-y-4">
-                <Label className="text-base">Payout Percentages</Label>
-                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-                  {FOOTBALL_QUARTER_LABELS.map((quarter) => {
-                    const payoutField = quarter.dbField as keyof FootballFormData;
-                    return (
-                      <div key={quarter.key} className="space-y-2">
-                        <Label htmlFor={payoutField} className="text-sm text-zinc-400">{quarter.label} (%)</Label>
-                        <Input
-                          id={payoutField}
-                          type="number"
-                          min="0"
-                          max="100"
-                          {...register(payoutField)}
-                          className="border-zinc-700 bg-zinc-800"
-                        />
-                        {errors[payoutField] && (
-                          <p className="text-sm text-red-500">{errors[payoutField]?.message}</p>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
+          <fieldset disabled={!canChangePayouts} className="space-y-6">
+            {/* Prize Type Selection */}
+            <div className="space-y-2">
+              <Label className="text-base">Prize Type</Label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setValue('prize_type', 'percentage', { shouldDirty: true })}
+                  className={cn(
+                    'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
+                    prizeType === 'percentage'
+                      ? 'border-orange-500 bg-orange-500/10 text-orange-400'
+                      : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
+                  )}
+                >
+                  Cash Payouts
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setValue('prize_type', 'custom', { shouldDirty: true })}
+                  disabled={!canUseCustomPrizes}
+                  className={cn(
+                    'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-60',
+                    prizeType === 'custom'
+                      ? 'border-orange-500 bg-orange-500/10 text-orange-400'
+                      : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
+                  )}
+                >
+                  Custom Prizes
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setValue('prize_type', 'score_change', { shouldDirty: true })}
+                  className={cn(
+                    'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
+                    prizeType === 'score_change'
+                      ? 'border-orange-500 bg-orange-500/10 text-orange-400'
+                      : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
+                  )}
+                >
+                  Every Score Wins
+                </button>
               </div>
+              <input type="hidden" {...register('prize_type')} />
+              {errors.prize_type && <p className="text-sm text-red-500">{errors.prize_type.message}</p>}
+            </div>
 
-              {/* Calculated Totals */}
-              <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
-                <div className="grid gap-4 sm:grid-cols-3">
-                  <div>
-                    <p className="text-sm text-zinc-400">Total Pot</p>
-                    <p className="text-xl font-bold text-white">${totalPot.toLocaleString()}</p>
-                  </div>
+            {/* Pot settings - which squares count toward the pot and the organization's cut */}
+            {prizeType !== 'custom' && (
+              <div className="space-y-4">
+                <div className="space-y-2">
                   <div>
-                    <p className="text-sm text-zinc-400">Total Payout ({totalPercent}%)</p>
-                    <p className="text-xl font-bold text-orange-400">${totalPayout.toLocaleString()}</p>
+                    <Label className="text-base">Pot Based On</Label>
+                    <p className="text-sm text-zinc-500">
+                      Which squares count toward the pot prizes are paid from. Locked once the game starts.
+                    </p>
                   </div>
-                  <div>
-                    <p className="text-sm text-zinc-400">Fundraiser Keeps</p>
-                    <p className="text-xl font-bold text-green-400">${fundraiserKeeps.toLocaleString()}</p>
+                  <div className="grid gap-2 sm:grid-cols-3">
+                    {POT_BASIS_TYPES.map((basis) => (
+                      <button
+                        key={basis}
+                        type="button"
+                        onClick={() => setValue('pot_basis', basis, { shouldDirty: true })}
+                        className={cn(
+                          'rounded-lg border px-4 py-3 text-left transition-colors',
+                          watchedValues.pot_basis === basis
+                            ? 'border-orange-500 bg-orange-500/10'
+                            : 'border-zinc-700 bg-zinc-800/50 hover:border-zinc-600'
+                        )}
+                      >
+                        <p
+                          className={cn(
+                            'text-sm font-medium',
+                            watchedValues.pot_basis === basis ? 'text-orange-400' : 'text-zinc-300'
+                          )}
+                        >
+                          {POT_BASES[basis].label}
+                        </p>
+                        <p className="text-xs text-zinc-500">{POT_BASES[basis].description}</p>
+                      </button>
+                    ))}
                   </div>
+                  <input type="hidden" {...register('pot_basis')} />
                 </div>
-              </div>
-            </>
-          )}
-
-          {/* Custom Prize Text Inputs - Show when prize_type is 'custom' */}
-          {prizeType === 'custom' && (
-            <div className="space-y-4">
-              <div>
-                <Label className="text-base">Custom Prize Descriptions</Label>
-                <p className="text-sm text-zinc-500">Enter prize descriptions for each quarter (max {PRIZE_TEXT_MAX_LENGTH} characters each).</p>
-              </div>
 
-              <div className="grid gap-4 sm:grid-cols-2">
-                {FOOTBALL_QUARTER_LABELS.map((quarter) => {
-                  const prizeField = `prize_${quarter.key}_text` as keyof FootballFormData;
-                  return (
-                    <div key={quarter.key} className="space-y-2">
-                      <Label htmlFor={prizeField} className="text-sm text-zinc-400">
-                        {quarter.label} Prize
-                      </Label>
-                      <Input
-                        id={prizeField}
-                        type="text"
-                        maxLength={PRIZE_TEXT_MAX_LENGTH}
-                        placeholder="e.g., $100 Gift Card"
-                        {...register(prizeField)}
-                        className="border-zinc-700 bg-zinc-800"
-                      />
-                      {errors[prizeField] && <p className="text-sm text-red-500">{errors[prizeField]?.message}</p>}
-                    </div>
-                  );
-                })}
+                <div className="space-y-2">
+                  <Label htmlFor="organization_cut_percent">Organization Keeps (%)</Label>
+                  <p className="text-sm text-zinc-500">
+                    Taken off the top of the pot before prizes. Payout percentages apply to what is left.
+                  </p>
+                  <Input
+                    id="organization_cut_percent"
+                    type="number"
+                    min="0"
+                    max={MAX_ORGANIZATION_CUT_PERCENT}
+                    {...register('organization_cut_percent')}
+                    className="border-zinc-700 bg-zinc-800 sm:max-w-xs"
+                  />
+                  {errors.organization_cut_percent && (
+                    <p className="text-sm text-red-500">{errors.organization_cut_percent.message}</p>
+                  )}
+                </div>
               </div>
-            </div>
-          )}
-
-          {/* Submit Button */}
-          <div className="flex justify-end pt-4">
-            <Button type="submit" disabled={isPending || !isDirty}>
-              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Save Changes
-            </Button>
-          </div>
-        </form>
-      </CardContent>
-    </Card>
-  );
-}
-
-function BaseballPayoutsForm({ contest }: { contest: Contest }) {
-  const [isPending, startTransition] = useTransition();
-  const { toast } = useToast();
-
-  const {
-    register,
-    handleSubmit,
-    watch,
-    formState: { errors, isDirty },
-  } = useForm<BaseballFormData>({
-    resolver: zodResolver(baseballPayoutSchema) as Resolver<BaseballFormData>,
-    defaultValues: {
-      square_price: contest.square_price,
-      max_squares_per_person: contest.max_squares_per_person,
-      payout_game1_percent: contest.payout_game1_percent ?? 0,
-      payout_game2_percent: contest.payout_game2_percent ?? 0,
-      payout_game3_percent: contest.payout_game3_percent ?? 0,
-      payout_game4_percent: contest.payout_game4_percent ?? 0,
-      payout_game5_percent: contest.payout_game5_percent ?? 0,
-      payout_game6_percent: contest.payout_game6_percent ?? 0,
-      payout_game7_percent: contest.payout_game7_percent ?? 0,
-    },
-  });
-
-  const watchedValues = watch();
-  const totalPercent = Number(watchedValues.payout_game1_percent || 0) + Number(watchedValues.payout_game2_percent || 0) +
-    Number(watchedValues.payout_game3_percent || 0) + Number(watchedValues.payout_game4_percent || 0) +
-    Number(watchedValues.payout_game5_percent || 0) + Number(watchedValues.payout_game6_percent || 0) +
-    Number(watchedValues.payout_game7_percent || 0);
-  const totalPot = (watchedValues.square_price || 0) * 100;
-  const totalPayout = (totalPot * totalPercent) / 100;
-  const fundraiserKeeps = totalPot - totalPayout;
-
-  const onSubmit = (data: BaseballFormData) => {
-    startTransition(async () => {
-      const result = await updateContest(contest.id, {
-        square_price: data.square_price,
-        max_squares_per_person: data.max_squares_per_person,
-        payout_game1_percent: data.payout_game1_percent,
-        payout_game2_percent: data.payout_game2_percent,
-        payout_game3_percent: data.payout_game3_percent,
-        payout_game4_percent: data.payout_game4_percent,
-        payout_game5_percent: data.payout_game5_percent,
-        payout_game6_percent: data.payout_game6_percent,
-        payout_game7_percent: data.payout_game7_percent,
-      });
+            )}
 
-      if (result?.error) {
-        toast({
-          variant: 'destructive',
-          title: 'Error',
-          description: result.error.message,
-        });
-        return;
-      }
+            {/* Overtime rule - how a game that goes to overtime is paid */}
+            {hasOvertimeRule && prizeType !== 'score_change' && (
+              <div className="space-y-2">
+                <div>
+                  <Label className="text-base">Overtime</Label>
+                  <p className="text-sm text-zinc-500">
+                    How the final is paid if the game goes to overtime. Locked once the game starts.
+                  </p>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  {OVERTIME_RULE_TYPES.map((rule) => (
+                    <button
+                      key={rule}
+                      type="button"
+                      onClick={() => setValue('overtime_rule', rule, { shouldDirty: true })}
+                      className={cn(
+                        'rounded-lg border px-4 py-3 text-left transition-colors',
+                        watchedValues.overtime_rule === rule
+                          ? 'border-orange-500 bg-orange-500/10'
+                          : 'border-zinc-700 bg-zinc-800/50 hover:border-zinc-600'
+                      )}
+                    >
+                      <p
+                        className={cn(
+                          'text-sm font-medium',
+                          watchedValues.overtime_rule === rule ? 'text-orange-400' : 'text-zinc-300'
+                        )}
+                      >
+                        {OVERTIME_RULES[rule].label}
+                      </p>
+                      <p className="text-xs text-zinc-500">{OVERTIME_RULES[rule].description}</p>
+                    </button>
+                  ))}
+                </div>
+                <input type="hidden" {...register('overtime_rule')} />
+                {sport.unplayedPeriodNote && <p className="text-xs text-zinc-500">{sport.unplayedPeriodNote}</p>}
+              </div>
+            )}
 
-      toast({
-        title: 'Settings saved',
-        description: 'Pricing and payouts have been updated.',
-      });
-    });
-  };
+            {/* Payout Percentages - Show when prize_type is 'percentage' */}
+            {prizeType === 'percentage' && (
+              <>
+                <div className="space-y-4">
+                  <Label className="text-base">Payout Percentages</Label>
+                  <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                    {sport.periods.map((period) => {
+                      const payoutField = period.payoutField;
+                      return (
+                        <div key={period.key} className="space-y-2">
+                          <Label htmlFor={payoutField} className="text-sm text-zinc-400">{period.label} (%)</Label>
+                          <Input
+                            id={payoutField}
+                            type="number"
+                            min="0"
+                            max="100"
+                            {...register(payoutField)}
+                            className="border-zinc-700 bg-zinc-800"
+                          />
+                          {errors[payoutField] && (
+                            <p className="text-sm text-red-500">{errors[payoutField]?.message}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
 
-  const gameLabels = ['Game 1', 'Game 2', 'Game 3', 'Game 4', 'Game 5', 'Game 6', 'Game 7'];
-  const gameFields = [
-    'payout_game1_percent',
-    'payout_game2_percent',
-    'payout_game3_percent',
-    'payout_game4_percent',
-    'payout_game5_percent',
-    'payout_game6_percent',
-    'payout_game7_percent',
-  ] as const;
+                {/* Secondary Payouts */}
+                <div className="space-y-4">
+                  <div>
+                    <Label className="text-base">Secondary Payouts</Label>
+                    <p className="text-sm text-zinc-500">
+                      Share of each {sport.periodNoun}&apos;s prize paid to other squares. The rest goes to the winner.
+                    </p>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    {secondaryRules.map((rule) => (
+                      <div key={rule.role} className="space-y-2">
+                        <Label htmlFor={rule.field} className="text-sm text-zinc-400">
+                          {rule.label} (%)
+                        </Label>
+                        <Input
+                          id={rule.field}
+                          type="number"
+                          min="0"
+                          max={MAX_SECONDARY_PAYOUT_PERCENT}
+                          {...register(rule.field)}
+                          className="border-zinc-700 bg-zinc-800"
+                        />
+                        <p className="text-xs text-zinc-500">{rule.description}</p>
+                        {errors[rule.field] && <p className="text-sm text-red-500">{errors[rule.field]?.message}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
 
-  return (
-    <Card className="border-zinc-800 bg-zinc-900">
-      <CardHeader>
-        <CardTitle className="text-white">Pricing & Payouts</CardTitle>
-        <CardDescription>Set square price and payout percentages for each game.</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          {/* Pricing */}
-          <div className="grid gap-4 sm:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="square_price">Square Price ($)</Label>
-              <Input
-                id="square_price"
-                type="number"
-                min="1"
-                {...register('square_price')}
-                className="border-zinc-700 bg-zinc-800"
-              />
-              {errors.square_price && <p className="text-sm text-red-500">{errors.square_price.message}</p>}
-            </div>
+                {/* Calculated Totals */}
+                <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    <div>
+                      <p className="text-sm text-zinc-400">Total Pot</p>
+                      <p className="text-xl font-bold text-white">${pot.grossPot.toLocaleString()}</p>
+                      {pot.organizationCut > 0 && (
+                        <p className="text-xs text-zinc-500">${pot.prizePool.toLocaleString()} after organization cut</p>
+                      )}
+                    </div>
+                    <div>
+                      <p className="text-sm text-zinc-400">Total Payout ({totalPercent}%)</p>
+                      <p className="text-xl font-bold text-orange-400">${totalPayout.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-zinc-400">Fundraiser Keeps</p>
+                      <p className="text-xl font-bold text-green-400">${fundraiserKeeps.toLocaleString()}</p>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
 
-            <div className="space-y-2">
-              <Label htmlFor="max_squares_per_person">Max Squares Per Person</Label>
-              <Input
-                id="max_squares_per_person"
-                type="number"
-                min="1"
-                max="100"
-                placeholder="No limit"
-                {...register('max_squares_per_person')}
-                className="border-zinc-700 bg-zinc-800"
-              />
-              {errors.max_squares_per_person && (
-                <p className="text-sm text-red-500">{errors.max_squares_per_person.message}</p>
-              )}
-            </div>
-          </div>
+            {/* Rollover policy - what happens to prizes won by unclaimed squares */}
+            {prizeType !== 'score_change' && (
+              <div className="space-y-2">
+                <div>
+                  <Label className="text-base">Unclaimed Prizes</Label>
+                  <p className="text-sm text-zinc-500">
+                    What happens when a prize is won by a square nobody claimed. Locked once the game starts.
+                  </p>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {ROLLOVER_POLICY_TYPES.map((policy) => (
+                    <button
+                      key={policy}
+                      type="button"
+                      onClick={() => setValue('rollover_policy', policy, { shouldDirty: true })}
+                      className={cn(
+                        'rounded-lg border px-4 py-3 text-left transition-colors',
+                        watchedValues.rollover_policy === policy
+                          ? 'border-orange-500 bg-orange-500/10'
+                          : 'border-zinc-700 bg-zinc-800/50 hover:border-zinc-600'
+                      )}
+                    >
+                      <p
+                        className={cn(
+                          'text-sm font-medium',
+                          watchedValues.rollover_policy === policy ? 'text-orange-400' : 'text-zinc-300'
+                        )}
+                      >
+                        {ROLLOVER_POLICIES[policy].label}
+                      </p>
+                      <p className="text-xs text-zinc-500">{ROLLOVER_POLICIES[policy].description}</p>
+                    </button>
+                  ))}
+                </div>
+                <input type="hidden" {...register('rollover_policy')} />
+              </div>
+            )}
 
-          {/* Payouts */}
-          <div className="space-y-4">
-            <Label className="text-base">Payout Percentages</Label>
-            <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-4">
-              {gameFields.map((field, index) => (
-                <div key={field} className="space-y-2">
-                  <Label htmlFor={field} className="text-sm text-zinc-400">{gameLabels[index]} (%)</Label>
+            {/* Per-score payout - Show when prize_type is 'score_change' */}
+            {prizeType === 'score_change' && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="score_change_payout" className="text-base">
+                    Payout Per Score Change ($)
+                  </Label>
+                  <p className="text-sm text-zinc-500">
+                    Paid to the winning square every time the score changes, until the prize pool runs out.
+                  </p>
                   <Input
-                    id={field}
+                    id="score_change_payout"
                     type="number"
                     min="0"
-                    max="100"
-                    {...register(field)}
-                    className="border-zinc-700 bg-zinc-800"
+                    step="0.01"
+                    {...register('score_change_payout')}
+                    className="border-zinc-700 bg-zinc-800 sm:max-w-xs"
                   />
+                  {errors.score_change_payout && (
+                    <p className="text-sm text-red-500">{errors.score_change_payout.message}</p>
+                  )}
                 </div>
-              ))}
-            </div>
-            {errors.payout_game7_percent && (
-              <p className="text-sm text-red-500">{errors.payout_game7_percent.message}</p>
-            )}
-          </div>
 
-          {/* Calculated Totals */}
-          <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
-            <div className="grid gap-4 sm:grid-cols-3">
-              <div>
-                <p className="text-sm text-zinc-400">Total Pot</p>
-                <p className="text-xl font-bold text-white">${totalPot.toLocaleString()}</p>
-              </div>
-              <div>
-                <p className="text-sm text-zinc-400">Total Payout ({totalPercent}%)</p>
-                <p className="text-xl font-bold text-orange-400">${totalPayout.toLocaleString()}</p>
+                <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <p className="text-sm text-zinc-400">Prize Pool</p>
+                      <p className="text-xl font-bold text-white">${pot.prizePool.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-zinc-400">Scoring Plays Covered</p>
+                      <p className="text-xl font-bold text-orange-400">
+                        {watchedValues.score_change_payout > 0
+                          ? Math.floor(pot.prizePool / watchedValues.score_change_payout)
+                          : '—'}
+                      </p>
+                    </div>
+                  </div>
+                </div>
               </div>
-              <div>
-                <p className="text-sm text-zinc-400">Fundraiser Keeps</p>
-                <p className="text-xl font-bold text-green-400">${fundraiserKeeps.toLocaleString()}</p>
+            )}
+
+            {/* Custom Prize Text Inputs - Show when prize_type is 'custom' */}
+            {prizeType === 'custom' && (
+              <div className="space-y-4">
+                <div>
+                  <Label className="text-base">Custom Prize Descriptions</Label>
+                  <p className="text-sm text-zinc-500">Enter prize descriptions for each {sport.periodNoun} (max {PRIZE_TEXT_MAX_LENGTH} characters each).</p>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {sport.periods.map((period) => {
+                    const prizeField = period.prizeTextField;
+                    if (!prizeField) return null;
+                    return (
+                      <div key={period.key} className="space-y-2">
+                        <Label htmlFor={prizeField} className="text-sm text-zinc-400">
+                          {period.label} Prize
+                        </Label>
+                        <Input
+                          id={prizeField}
+                          type="text"
+                          maxLength={PRIZE_TEXT_MAX_LENGTH}
+                          placeholder="e.g., $100 Gift Card"
+                          {...register(prizeField)}
+                          className="border-zinc-700 bg-zinc-800"
+                        />
+                        {errors[prizeField] && <p className="text-sm text-red-500">{errors[prizeField]?.message}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
-            </div>
-          </div>
+            )}
+          </fieldset>
 
           {/* Submit Button */}
           <div className="flex justify-end pt-4">
@@ -495,4 +679,3 @@ function BaseballPayoutsForm({ contest }: { contest: Contest }) {
     </Card>
   );
 }
-
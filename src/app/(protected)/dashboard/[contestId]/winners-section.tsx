@@ -3,14 +3,32 @@
 import { Trophy } from 'lucide-react';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { FOOTBALL_QUARTER_LABELS } from '@/features/contests/constants';
+import {
+  getPeriodLabel,
+  getScoreLabel,
+  getSport,
+  GridLayout,
+  OvertimeRule,
+  PotBasis,
+  RolloverPolicy,
+} from '@/features/contests/constants';
 import { GridSquare } from '@/features/contests/queries/get-squares';
-import { ContestPrizeFields } from '@/features/contests/types';
-import { getPrizeText } from '@/features/contests/utils';
+import { ContestPrizeFields, ScoreWinner, ScoringEventWithWinners } from '@/features/contests/types';
+import {
+  calculatePot,
+  getCellSquares,
+  getPaidSquareLabel,
+  getPrizeAmount,
+  getPrizeText,
+  getScoringEventCarryPercent,
+  getScoringEventPayouts,
+  getScoringEventRolloverNote,
+  getUnclaimedSharePercent,
+  isPrimaryPayout,
+} from '@/features/contests/utils';
 import { Database } from '@/libs/supabase/types';
 
 type Score = Database['public']['Tables']['scores']['Row'];
-type GameQuarter = Database['public']['Enums']['game_quarter'];
 type SportType = Database['public']['Enums']['sport_type'];
 
 interface Contest extends ContestPrizeFields {
@@ -18,6 +36,12 @@ interface Contest extends ContestPrizeFields {
   row_team_name: string;
   col_team_name: string;
   square_price: number;
+  grid_layout: GridLayout;
+  pot_basis: PotBasis;
+  organization_cut_percent: number;
+  score_change_payout: number;
+  rollover_policy: RolloverPolicy;
+  overtime_rule: OvertimeRule;
   payout_q1_percent: number | null;
   payout_q2_percent: number | null;
   payout_q3_percent: number | null;
@@ -29,29 +53,15 @@ interface Contest extends ContestPrizeFields {
   payout_game5_percent: number | null;
   payout_game6_percent: number | null;
   payout_game7_percent: number | null;
+  payout_ot_percent: number | null;
 }
 
 interface WinnersSectionProps {
   contest: Contest;
   scores: Score[];
   squares: GridSquare[];
-}
-
-const FOOTBALL_QUARTERS = FOOTBALL_QUARTER_LABELS.map((q) => ({
-  quarter: q.key as GameQuarter,
-  label: q.label,
-  payoutKey: q.dbField as keyof Contest,
-}));
-
-const BASEBALL_GAMES: { quarter: GameQuarter; label: string; payoutKey: keyof Contest }[] = [
-  { quarter: 'q1', label: 'Game 1', payoutKey: 'payout_game1_percent' },
-  { quarter: 'q2', label: 'Game 2', payoutKey: 'payout_game2_percent' },
-  { quarter: 'q3', label: 'Game 3', payoutKey: 'payout_game3_percent' },
-  { quarter: 'final', label: 'Game 4', payoutKey: 'payout_game4_percent' },
-];
-
-function getQuarterConfig(sportType: SportType) {
-  return sportType === 'football' ? FOOTBALL_QUARTERS : BASEBALL_GAMES;
+  winners: ScoreWinner[];
+  scoringEvents: ScoringEventWithWinners[];
 }
 
 function getWinnerName(square: GridSquare | undefined): string {
@@ -65,13 +75,103 @@ function getWinnerName(square: GridSquare | undefined): string {
   return name;
 }
 
-export function WinnersSection({ contest, scores, squares }: WinnersSectionProps) {
+/**
+ * Names every claimed owner of the winning cell (squares sold in halves can have two).
+ */
+function getCellWinnerNames(cellSquares: GridSquare[]): string {
+  const claimed = cellSquares.filter((sq) => sq.claimant_first_name);
+  if (claimed.length === 0) return 'Unclaimed';
+  return claimed.map(getWinnerName).join(' & ');
+}
+
+/**
+ * Lists every scoring play of a score-change contest with its payout and the running total against the pot.
+ */
+function ScoringEventWinners({
+  contest,
+  squares,
+  scoringEvents,
+}: Pick<WinnersSectionProps, 'contest' | 'squares' | 'scoringEvents'>) {
+  const sport = getSport(contest.sport_type);
+  const { prizePool } = calculatePot(contest, squares);
+  const squaresMap = new Map(squares.map((sq) => [sq.id, sq]));
+  const payouts = getScoringEventPayouts(
+    scoringEvents,
+    contest.score_change_payout,
+    prizePool,
+    getScoringEventCarryPercent(contest.rollover_policy, squaresMap)
+  );
+  const totalPaid = payouts[payouts.length - 1]?.runningTotal ?? 0;
+
+  return (
+    <Card className="border-zinc-800 bg-zinc-900">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Trophy className="h-5 w-5 text-amber-400" />
+          Winners
+        </CardTitle>
+        <CardDescription>
+          ${totalPaid.toFixed(2)} of ${prizePool.toFixed(2)} paid over {payouts.length} scoring play(s)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {payouts.map(({ event, payout, rolloverOut, runningTotal }) => {
+            const winningSquare = event.winning_square_id ? squaresMap.get(event.winning_square_id) : undefined;
+            const cellSquares = winningSquare ? getCellSquares(squares, winningSquare) : [];
+            const hasClaimed = cellSquares.some((sq) => sq.claimant_first_name);
+            const rolloverNote = getScoringEventRolloverNote(event, (id) => getWinnerName(squaresMap.get(id)));
+
+            return (
+              <div key={event.id} className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-3">
+                {/* Header row: Play number + Payout */}
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold text-white">
+                    #{event.sequence} · {getPeriodLabel(sport.type, event.quarter)}
+                  </span>
+                  <span className="text-sm font-medium text-orange-400">${payout.toFixed(2)}</span>
+                </div>
+                {/* Score */}
+                <p className="mt-1 text-sm text-zinc-400">
+                  {contest.row_team_name} {event.home_score} - {contest.col_team_name} {event.away_score}
+                  {event.description && <span className="text-zinc-500"> · {event.description}</span>}
+                </p>
+                {/* Winner + running total */}
+                <div className="mt-1.5 flex items-center gap-1.5">
+                  <Trophy className="h-3.5 w-3.5 text-amber-400" />
+                  <span className={`text-sm ${hasClaimed ? 'text-green-400' : 'text-zinc-500'}`}>
+                    {getCellWinnerNames(cellSquares)}
+                  </span>
+                  <span className="ml-auto text-xs text-zinc-400">
+                    ${runningTotal.toFixed(2)} / ${prizePool.toFixed(2)}
+                  </span>
+                </div>
+                {rolloverNote && <p className="mt-1 text-xs text-amber-400">{rolloverNote}</p>}
+                {rolloverOut > 0 && (
+                  <p className="mt-1 text-xs text-zinc-500">${rolloverOut.toFixed(2)} rolls to the next play</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function WinnersSection({ contest, scores, squares, winners, scoringEvents }: WinnersSectionProps) {
+  if (contest.prize_type === 'score_change') {
+    return scoringEvents.length > 0 ? (
+      <ScoringEventWinners contest={contest} squares={squares} scoringEvents={scoringEvents} />
+    ) : null;
+  }
+
   if (scores.length === 0) {
     return null;
   }
 
-  const quarterConfig = getQuarterConfig(contest.sport_type);
-  const totalPot = contest.square_price * 100;
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
+  const pot = calculatePot(contest, squares);
 
   // Create a map of squares by ID for quick lookup
   const squaresMap = new Map(squares.map((sq) => [sq.id, sq]));
@@ -79,23 +179,58 @@ export function WinnersSection({ contest, scores, squares }: WinnersSectionProps
   // Get scores with winner info
   const scoresWithWinners = scores
     .map((score) => {
-      const config = quarterConfig.find((q) => q.quarter === score.quarter);
-      if (!config) return null;
+      const period = sport.periods.find((p) => p.key === score.quarter);
+      if (!period) return null;
 
-      const payoutPercent = contest[config.payoutKey] as number | null;
-      const payoutAmount = payoutPercent != null ? (totalPot * payoutPercent) / 100 : null;
+      // The prize includes anything rolled over from earlier unclaimed prizes
+      const payoutPercent = contest[period.payoutField];
+      const rolloverInPercent = Number(score.rollover_in_percent);
+      const payoutAmount = payoutPercent != null ? getPrizeAmount(pot, payoutPercent + rolloverInPercent) : null;
       const prizeText = getPrizeText(contest.prize_type, score.quarter, contest);
       const winningSquare = score.winning_square_id ? squaresMap.get(score.winning_square_id) : undefined;
+      const cellSquares = winningSquare ? getCellSquares(squares, winningSquare) : [];
+
+      // Every square paid for this score with its share (winner first, then secondary and rollover payouts)
+      const scoreWinners = winners.filter((w) => w.score_id === score.id);
+      const paidSquares = scoreWinners
+        .filter((w) => !isPrimaryPayout(w))
+        .map((w) => ({
+          id: w.id,
+          roleLabel: getPaidSquareLabel(w.role, w.rollover_from_square_id),
+          name: getWinnerName(squaresMap.get(w.square_id)),
+          amount: payoutAmount != null ? (payoutAmount * w.share_percent) / 100 : null,
+        }));
+      const primarySharePercent = scoreWinners.filter(isPrimaryPayout).reduce((sum, w) => sum + w.share_percent, 0);
+
+      // Whatever unclaimed squares won either rolls into the next period or stays with the fundraiser
+      const unclaimedPercent = getUnclaimedSharePercent(scoreWinners, squaresMap);
+      const nextPeriod = sport.periods[sport.periods.indexOf(period) + 1];
+      const unclaimedAmount =
+        payoutAmount != null && unclaimedPercent > 0 ? (payoutAmount * unclaimedPercent) / 100 : null;
+      const unclaimedNote =
+        unclaimedAmount == null
+          ? null
+          : contest.rollover_policy === 'next_period' && nextPeriod
+            ? `$${unclaimedAmount.toFixed(2)} unclaimed, rolls over to ${nextPeriod.label}`
+            : `$${unclaimedAmount.toFixed(2)} unclaimed, kept by the fundraiser`;
 
       return {
         quarter: score.quarter,
-        label: config.label,
+        label: getScoreLabel(sport.type, score.quarter, contest.overtime_rule, score.went_to_overtime),
         homeScore: score.home_score,
         awayScore: score.away_score,
-        winnerName: getWinnerName(winningSquare),
+        winnerName: getCellWinnerNames(cellSquares),
         payoutAmount,
         prizeText,
-        hasClaimed: !!winningSquare?.claimant_first_name,
+        hasClaimed: cellSquares.some((sq) => sq.claimant_first_name),
+        // Only shown when secondary payouts take part of the prize
+        winnerAmount:
+          paidSquares.length > 0 && payoutAmount != null && primarySharePercent > 0
+            ? (payoutAmount * primarySharePercent) / 100
+            : null,
+        paidSquares,
+        rolloverInAmount: rolloverInPercent > 0 ? getPrizeAmount(pot, rolloverInPercent) : null,
+        unclaimedNote,
       };
     })
     .filter(Boolean);
@@ -111,7 +246,7 @@ export function WinnersSection({ contest, scores, squares }: WinnersSectionProps
           <Trophy className="h-5 w-5 text-amber-400" />
           Winners
         </CardTitle>
-        <CardDescription>Scores and winners for each {contest.sport_type === 'football' ? 'quarter' : 'game'}</CardDescription>
+        <CardDescription>Scores and winners for each {sport.periodNoun}</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
@@ -137,13 +272,29 @@ export function WinnersSection({ contest, scores, squares }: WinnersSectionProps
               <p className="mt-1 text-sm text-zinc-400">
                 {contest.row_team_name} {item!.homeScore} - {contest.col_team_name} {item!.awayScore}
               </p>
+              {item!.rolloverInAmount != null && (
+                <p className="text-xs text-zinc-500">Includes ${item!.rolloverInAmount.toFixed(2)} rolled over</p>
+              )}
               {/* Winner */}
               <div className="mt-1.5 flex items-center gap-1.5">
                 <Trophy className="h-3.5 w-3.5 text-amber-400" />
                 <span className={`text-sm ${item!.hasClaimed ? 'text-green-400' : 'text-zinc-500'}`}>
                   {item!.winnerName}
                 </span>
+                {item!.winnerAmount != null && (
+                  <span className="ml-auto text-xs text-zinc-400">${item!.winnerAmount.toFixed(2)}</span>
+                )}
               </div>
+              {/* Secondary payouts */}
+              {item!.paidSquares.map((paid) => (
+                <div key={paid.id} className="mt-1 flex items-center gap-1.5 text-xs">
+                  <span className="rounded bg-zinc-700 px-1.5 py-0.5 text-zinc-300">{paid.roleLabel}</span>
+                  <span className={paid.name === 'Unclaimed' ? 'text-zinc-500' : 'text-zinc-200'}>{paid.name}</span>
+                  {paid.amount != null && <span className="ml-auto text-zinc-400">${paid.amount.toFixed(2)}</span>}
+                </div>
+              ))}
+              {/* Unclaimed prize handling */}
+              {item!.unclaimedNote && <p className="mt-1 text-xs text-amber-400">{item!.unclaimedNote}</p>}
             </div>
           ))}
         </div>
@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation';
 
 import { getSubscription } from '@/features/account/controllers/get-subscription';
 import { getUser } from '@/features/account/controllers/get-user';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
 import { getProducts } from '@/features/pricing/controllers/get-products';
 import { SubscriptionCard } from '@/features/subscriptions/components/subscription-card';
 import { UsageCard } from '@/features/subscriptions/components/usage-card';
@@ -15,16 +16,23 @@ export default async function BillingPage() {
     redirect('/login');
   }
 
+  // Billing is per workspace: an organization's subscription covers all of its contests
+  const workspace = await getActiveWorkspace(user.id);
+  const organizationId = workspace?.organization.id ?? null;
+
   const [subscription, products, contestLimit, usageStats] = await Promise.all([
-    getSubscription(),
+    getSubscription(organizationId),
     getProducts(),
-    getContestLimit(user.id),
-    getUsageStats(user.id),
+    getContestLimit(user.id, organizationId),
+    getUsageStats(user.id, organizationId),
   ]);
 
   return (
     <div>
-      <h1 className="mb-6 text-2xl font-bold text-white lg:text-3xl">Billing</h1>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white lg:text-3xl">Billing</h1>
+        {workspace && <p className="mt-1 text-sm text-zinc-400">{workspace.organization.name}</p>}
+      </div>
 
       <div className="grid gap-6 sm:grid-cols-2">
         <SubscriptionCard subscription={subscription} products={products} />
@@ -19,6 +19,7 @@ import { signOut } from '@/features/auth/auth-actions';
 import { cn } from '@/utils/cn';
 
 import { NavItems } from './nav-items';
+import { WorkspaceOption, WorkspaceSwitcher } from './workspace-switcher';
 
 async function handleSignOut() {
   await signOut();
@@ -46,9 +47,19 @@ interface DashboardShellProps {
   children: React.ReactNode;
   userEmail: string;
   avatarUrl: string | null;
+  isPlatformAdmin: boolean;
+  workspaces: WorkspaceOption[];
+  activeWorkspaceId: string | null;
 }
 
-export function DashboardShell({ children, userEmail, avatarUrl }: DashboardShellProps) {
+export function DashboardShell({
+  children,
+  userEmail,
+  avatarUrl,
+  isPlatformAdmin,
+  workspaces,
+  activeWorkspaceId,
+}: DashboardShellProps) {
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
 
   return (
@@ -62,9 +73,14 @@ export function DashboardShell({ children, userEmail, avatarUrl }: DashboardShel
               <Logo />
             </div>
 
+            {/* Workspace */}
+            <div className='border-b border-zinc-800 p-3'>
+              <WorkspaceSwitcher workspaces={workspaces} activeWorkspaceId={activeWorkspaceId} />
+            </div>
+
             {/* Navigation */}
             <nav className='flex-1 space-y-1 px-3 py-4'>
-              <NavItems />
+              <NavItems isPlatformAdmin={isPlatformAdmin} />
             </nav>
 
             {/* Sidebar Footer */}
@@ -93,8 +109,15 @@ export function DashboardShell({ children, userEmail, avatarUrl }: DashboardShel
                       <Logo size='md' href={undefined} />
                     </SheetTitle>
                   </SheetHeader>
+                  <div className='border-b border-zinc-800 p-3'>
+                    <WorkspaceSwitcher
+                      workspaces={workspaces}
+                      activeWorkspaceId={activeWorkspaceId}
+                      onNavigate={() => setMobileNavOpen(false)}
+                    />
+                  </div>
                   <nav className='flex-1 space-y-1 px-3 py-4'>
-                    <NavItems onClick={() => setMobileNavOpen(false)} />
+                    <NavItems isPlatformAdmin={isPlatformAdmin} onClick={() => setMobileNavOpen(false)} />
                   </nav>
                   <div className='border-t border-zinc-800 p-4'>
                     <LogoutButton onClick={() => setMobileNavOpen(false)} />
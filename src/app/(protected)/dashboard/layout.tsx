@@ -1,7 +1,9 @@
 import { redirect } from 'next/navigation';
 
+import { getIsPlatformAdmin } from '@/features/account/controllers/get-is-platform-admin';
 import { getUser } from '@/features/account/controllers/get-user';
 import { getUserProfile } from '@/features/account/controllers/get-user-profile';
+import { getActiveWorkspace, getWorkspaces } from '@/features/organizations/controllers/get-workspaces';
 
 import { DashboardShell } from './dashboard-shell';
 
@@ -13,11 +15,22 @@ export default async function DashboardLayout({ children }: { children: React.Re
   }
 
   const userEmail = user.email ?? 'User';
-  const userProfile = await getUserProfile();
+  const [userProfile, isPlatformAdmin, workspaces, activeWorkspace] = await Promise.all([
+    getUserProfile(),
+    getIsPlatformAdmin(),
+    getWorkspaces(user.id),
+    getActiveWorkspace(user.id),
+  ]);
   const avatarUrl = userProfile?.avatar_url ?? null;
 
   return (
-    <DashboardShell userEmail={userEmail} avatarUrl={avatarUrl}>
+    <DashboardShell
+      userEmail={userEmail}
+      avatarUrl={avatarUrl}
+      isPlatformAdmin={isPlatformAdmin}
+      workspaces={workspaces.map(({ organization, role }) => ({ id: organization.id, name: organization.name, role }))}
+      activeWorkspaceId={activeWorkspace?.organization.id ?? null}
+    >
       {children}
     </DashboardShell>
   );
@@ -10,25 +10,29 @@ export interface NavItem {
   href: string;
   label: string;
   icon: LucideIcon;
+  /** Only shown to platform admins (staff) */
+  adminOnly?: boolean;
 }
 
 export const navItems: NavItem[] = [
   { href: '/dashboard', label: 'My Contests', icon: LayoutGrid },
-  { href: '/dashboard/super-bowl', label: 'Super Bowl', icon: Trophy },
+  { href: '/dashboard/super-bowl', label: 'Super Bowl', icon: Trophy, adminOnly: true },
   { href: '/dashboard/account', label: 'Account', icon: User },
   { href: '/dashboard/billing', label: 'Billing', icon: CreditCard },
 ];
 
 interface NavItemsProps {
+  isPlatformAdmin: boolean;
   onClick?: () => void;
 }
 
-export function NavItems({ onClick }: NavItemsProps) {
+export function NavItems({ isPlatformAdmin, onClick }: NavItemsProps) {
   const pathname = usePathname();
+  const visibleItems = navItems.filter((item) => !item.adminOnly || isPlatformAdmin);
 
   return (
     <>
-      {navItems.map((item) => {
+      {visibleItems.map((item) => {
         const isActive = pathname === item.href || (item.href !== '/dashboard' && pathname.startsWith(item.href));
         return (
           <Link
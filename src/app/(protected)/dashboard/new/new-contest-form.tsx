@@ -34,12 +34,16 @@ const STEP_FIELDS: Record<number, string[]> = {
   2: [
     'squarePrice',
     'maxSquaresPerPerson',
+    'gridLayout',
+    'redrawNumbersEachPeriod',
     'prizeType',
-    // Football payouts
+    'scoreChangePayout',
+    // Quarter/period payouts
     'payoutQ1Percent',
     'payoutQ2Percent',
     'payoutQ3Percent',
     'payoutFinalPercent',
+    'payoutOtPercent',
     // Baseball payouts
     'payoutGame1Percent',
     'payoutGame2Percent',
@@ -53,18 +57,24 @@ const STEP_FIELDS: Record<number, string[]> = {
     'prizeQ2Text',
     'prizeQ3Text',
     'prizeFinalText',
+    'prizeOtText',
   ],
   3: ['primaryColor', 'secondaryColor'],
 };
 
-export function NewContestForm() {
+interface NewContestFormProps {
+  /** Overrides for the initial values, e.g. an organization's shared branding */
+  defaultValues?: Partial<CreateContestInput>;
+}
+
+export function NewContestForm({ defaultValues }: NewContestFormProps) {
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
 
   const methods = useForm({
     resolver: zodResolver(createContestSchema),
-    defaultValues: defaultContestValues,
+    defaultValues: { ...defaultContestValues, ...defaultValues },
     mode: 'onTouched',
   });
 
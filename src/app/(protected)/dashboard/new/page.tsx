@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 
 import { getUser } from '@/features/account/controllers/get-user';
+import { defaultContestValues } from '@/features/contests/models/contest';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
 import { getProducts } from '@/features/pricing/controllers/get-products';
 import { getContestLimit } from '@/features/subscriptions/get-contest-limit';
 
@@ -14,10 +16,28 @@ export default async function NewContestPage() {
     redirect('/login');
   }
 
-  const { canCreate, currentCount } = await getContestLimit(user.id);
+  // New contests go in the active workspace and count against its limit
+  const workspace = await getActiveWorkspace(user.id);
+  const organization = workspace?.organization ?? null;
+
+  const { canCreate, currentCount } = await getContestLimit(user.id, organization?.id ?? null);
 
   if (canCreate) {
-    return <NewContestForm />;
+    // Organization contests start with the organization's shared branding
+    return (
+      <NewContestForm
+        defaultValues={
+          organization
+            ? {
+                primaryColor: organization.primary_color ?? defaultContestValues.primaryColor,
+                secondaryColor: organization.secondary_color ?? defaultContestValues.secondaryColor,
+                orgImageUrl: organization.org_image_url,
+                heroImageUrl: organization.hero_image_url,
+              }
+            : undefined
+        }
+      />
+    );
   }
 
   // User cannot create - fetch products to get Pro pricing
@@ -1,35 +1,31 @@
 'use client';
 
 import { useFormContext, useWatch } from 'react-hook-form';
-import { IoAmericanFootball, IoBaseball, IoTicket } from 'react-icons/io5';
+import type { IconType } from 'react-icons';
+import { IoTicket } from 'react-icons/io5';
 
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { CreateContestInput, SportType } from '@/features/contests/models/contest';
+import { SPORT_ICONS, SportIcon } from '@/features/contests/components';
+import { getSport, SPORT_TYPES, SPORTS, supportsCustomPrizes } from '@/features/contests/constants';
+import { CreateContestInput, getDefaultPayouts, SportType } from '@/features/contests/models/contest';
 import { cn } from '@/utils/cn';
 
 const SPORT_OPTIONS: {
   value: SportType | 'raffle';
   label: string;
-  icon: typeof IoAmericanFootball;
+  icon: IconType;
   placeholder: { row: string; col: string };
   comingSoon?: boolean;
 }[] = [
-  {
-    value: 'football',
-    label: 'Football',
-    icon: IoAmericanFootball,
-    placeholder: { row: 'Kansas City Chiefs', col: 'San Francisco 49ers' },
-  },
-  {
-    value: 'baseball',
-    label: 'Baseball',
-    icon: IoBaseball,
-    placeholder: { row: 'New York Yankees', col: 'Los Angeles Dodgers' },
-    comingSoon: true,
-  },
+  ...SPORT_TYPES.map((type) => ({
+    value: type,
+    label: SPORTS[type].label,
+    icon: SPORT_ICONS[type],
+    placeholder: SPORTS[type].placeholders,
+  })),
   {
     value: 'raffle',
     label: 'Raffle Fundraiser',
@@ -39,23 +35,30 @@ const SPORT_OPTIONS: {
   },
 ];
 
-const SPORT_DESCRIPTIONS: Record<SportType, string> = {
-  football:
-    "Your 10×10 grid will have the row team's last digit of their score on the left axis, and the column team's on the top. Winners are determined by matching the last digit of each team's score at the end of each quarter.",
-  baseball:
-    "Your 10×10 grid will have the row team's last digit of their score on the left axis, and the column team's on the top. Winners are determined by matching the last digit of each team's score at the end of each game in the series.",
-};
-
 export function BasicInfoStep() {
   const {
     register,
     formState: { errors },
     control,
     setValue,
+    getValues,
   } = useFormContext<CreateContestInput>();
 
-  const sportType = useWatch({ control, name: 'sportType' }) || 'football';
+  const sportType = (useWatch({ control, name: 'sportType' }) || 'football') as SportType;
   const currentSport = SPORT_OPTIONS.find((s) => s.value === sportType) || SPORT_OPTIONS[0];
+  const selectedSport = getSport(sportType);
+
+  const handleSportChange = (value: SportType) => {
+    if (value === sportType) return;
+    setValue('sportType', value, { shouldValidate: true });
+    // Start each sport from its own default payout split
+    for (const [field, percent] of Object.entries(getDefaultPayouts(value))) {
+      setValue(field as keyof ReturnType<typeof getDefaultPayouts>, percent);
+    }
+    if (!supportsCustomPrizes(value) && getValues('prizeType') === 'custom') {
+      setValue('prizeType', 'percentage');
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -75,7 +78,7 @@ export function BasicInfoStep() {
                 type="button"
                 onClick={() => {
                   if (!isDisabled && sport.value !== 'raffle') {
-                    setValue('sportType', sport.value as SportType, { shouldValidate: true });
+                    handleSportChange(sport.value);
                   }
                 }}
                 disabled={isDisabled}
@@ -119,7 +122,7 @@ export function BasicInfoStep() {
         </Label>
         <Input
           id="name"
-          placeholder={sportType === 'football' ? 'Super Bowl Squares 2025' : 'World Series Squares 2025'}
+          placeholder={selectedSport.placeholders.name}
           {...register('name')}
           className={cn(errors.name && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
         />
@@ -186,15 +189,11 @@ export function BasicInfoStep() {
       <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
         <div className="flex items-start gap-3">
           <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-orange-500/20">
-            {sportType === 'football' ? (
-              <IoAmericanFootball className="h-4 w-4 text-orange-400" />
-            ) : (
-              <IoBaseball className="h-4 w-4 text-orange-400" />
-            )}
+            <SportIcon sportType={sportType} className="h-4 w-4 text-orange-400" />
           </div>
           <div>
             <p className="text-sm font-medium text-zinc-200">How it works</p>
-            <p className="mt-1 text-xs text-zinc-400">{SPORT_DESCRIPTIONS[sportType as SportType]}</p>
+            <p className="mt-1 text-xs text-zinc-400">{selectedSport.description}</p>
           </div>
         </div>
       </div>
@@ -8,7 +8,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { FOOTBALL_QUARTER_LABELS, PRIZE_TEXT_MAX_LENGTH } from '@/features/contests/constants';
+import {
+  ACCESS_PIN_MAX_LENGTH,
+  getSport,
+  getTotalSquares,
+  GRID_LAYOUT_TYPES,
+  GRID_LAYOUTS,
+  PRIZE_TEXT_MAX_LENGTH,
+  supportsCustomPrizes,
+} from '@/features/contests/constants';
 import { CreateContestInput, SportType } from '@/features/contests/models/contest';
 import { cn } from '@/utils/cn';
 
@@ -24,39 +32,6 @@ function generateRandomPin(): string {
   return pin;
 }
 
-type PayoutField = {
-  name: keyof CreateContestInput;
-  label: string;
-  color: string;
-};
-
-const FOOTBALL_PAYOUT_FIELDS: PayoutField[] = FOOTBALL_QUARTER_LABELS.map((q) => ({
-  name: q.formField as keyof CreateContestInput,
-  label: q.label,
-  color: q.color,
-}));
-
-const BASEBALL_PAYOUT_FIELDS: PayoutField[] = [
-  { name: 'payoutGame1Percent', label: 'Game 1', color: 'bg-blue-500' },
-  { name: 'payoutGame2Percent', label: 'Game 2', color: 'bg-blue-600' },
-  { name: 'payoutGame3Percent', label: 'Game 3', color: 'bg-indigo-500' },
-  { name: 'payoutGame4Percent', label: 'Game 4', color: 'bg-indigo-600' },
-  { name: 'payoutGame5Percent', label: 'Game 5', color: 'bg-violet-500' },
-  { name: 'payoutGame6Percent', label: 'Game 6', color: 'bg-violet-600' },
-  { name: 'payoutGame7Percent', label: 'Game 7', color: 'bg-purple-600' },
-];
-
-const FOOTBALL_PAYOUT_NAMES = ['payoutQ1Percent', 'payoutQ2Percent', 'payoutQ3Percent', 'payoutFinalPercent'] as const;
-const BASEBALL_PAYOUT_NAMES = [
-  'payoutGame1Percent',
-  'payoutGame2Percent',
-  'payoutGame3Percent',
-  'payoutGame4Percent',
-  'payoutGame5Percent',
-  'payoutGame6Percent',
-  'payoutGame7Percent',
-] as const;
-
 export function SettingsStep() {
   const {
     register,
@@ -70,9 +45,12 @@ export function SettingsStep() {
 
   const sportType = useWatch({ control, name: 'sportType' }) as SportType;
   const squarePrice = useWatch({ control, name: 'squarePrice' });
+  const gridLayout = useWatch({ control, name: 'gridLayout' }) ?? 'standard';
+  const redrawNumbersEachPeriod = useWatch({ control, name: 'redrawNumbersEachPeriod' });
   const requirePin = useWatch({ control, name: 'requirePin' });
   const accessPin = useWatch({ control, name: 'accessPin' });
   const prizeType = useWatch({ control, name: 'prizeType' });
+  const scoreChangePayout = useWatch({ control, name: 'scoreChangePayout' });
 
   // Auto-generate PIN when toggle is turned on (only once, not when user is editing)
   useEffect(() => {
@@ -95,19 +73,72 @@ export function SettingsStep() {
     }
   };
 
-  // Watch all payout values
-  const footballPayouts = useWatch({ control, name: FOOTBALL_PAYOUT_NAMES as unknown as (keyof CreateContestInput)[] });
-  const baseballPayouts = useWatch({ control, name: BASEBALL_PAYOUT_NAMES as unknown as (keyof CreateContestInput)[] });
-
-  const isFootball = sportType === 'football';
-  const payoutFields = isFootball ? FOOTBALL_PAYOUT_FIELDS : BASEBALL_PAYOUT_FIELDS;
-  const payoutValues = isFootball ? footballPayouts : baseballPayouts;
+  // Watch the payout values for the selected sport's periods
+  const sport = getSport(sportType);
+  const payoutFields = sport.periods.map((period) => ({
+    name: period.payoutFormField,
+    label: period.label,
+    color: period.color,
+  }));
+  const payoutValues = useWatch({ control, name: payoutFields.map((field) => field.name) });
+  const prizeFields = sport.periods.flatMap((period) =>
+    period.prizeTextFormField ? [{ name: period.prizeTextFormField, label: period.label }] : []
+  );
+  const lastPayoutField = payoutFields[payoutFields.length - 1].name;
+  const canUseCustomPrizes = supportsCustomPrizes(sportType);
 
   const totalPayout = (payoutValues as (number | undefined)[]).reduce((sum, val) => (sum ?? 0) + (Number(val) || 0), 0) ?? 0;
-  const totalPot = (Number(squarePrice) || 0) * 100;
+  const totalSquares = getTotalSquares(gridLayout);
+  const totalPot = (Number(squarePrice) || 0) * totalSquares;
 
   return (
     <div className="space-y-8">
+      {/* Grid Layout */}
+      <div className="space-y-2">
+        <Label className="text-zinc-200">Grid Layout</Label>
+        <div className="grid gap-2 sm:grid-cols-3">
+          {GRID_LAYOUT_TYPES.map((layout) => (
+            <button
+              key={layout}
+              type="button"
+              onClick={() => setValue('gridLayout', layout, { shouldValidate: true })}
+              className={cn(
+                'rounded-lg border px-4 py-3 text-left transition-colors',
+                gridLayout === layout
+                  ? 'border-orange-500 bg-orange-500/10'
+                  : 'border-zinc-700 bg-zinc-800/50 hover:border-zinc-600'
+              )}
+            >
+              <span
+                className={cn('block text-sm font-medium', gridLayout === layout ? 'text-orange-400' : 'text-zinc-300')}
+              >
+                {GRID_LAYOUTS[layout].label}
+              </span>
+              <span className="mt-1 block text-xs text-zinc-500">{GRID_LAYOUTS[layout].description}</span>
+            </button>
+          ))}
+        </div>
+        <input type="hidden" {...register('gridLayout')} />
+        <p className="text-xs text-zinc-500">The grid layout can&apos;t be changed after the contest is created.</p>
+      </div>
+
+      {/* Redraw Numbers Toggle */}
+      <div className="flex items-center justify-between rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+        <div className="space-y-1">
+          <Label htmlFor="redrawNumbersEachPeriod" className="text-zinc-200 cursor-pointer">
+            New numbers every {sport.periodNoun}
+          </Label>
+          <p className="text-xs text-zinc-500">
+            Draw fresh row and column numbers for each {sport.periodNoun} so every square gets more chances to win
+          </p>
+        </div>
+        <Switch
+          id="redrawNumbersEachPeriod"
+          checked={redrawNumbersEachPeriod ?? false}
+          onCheckedChange={(checked) => setValue('redrawNumbersEachPeriod', checked)}
+        />
+      </div>
+
       {/* Square Price */}
       <div className="space-y-2">
         <Label htmlFor="squarePrice" className="text-zinc-200">
@@ -142,7 +173,7 @@ export function SettingsStep() {
           id="maxSquaresPerPerson"
           type="number"
           min="1"
-          max="100"
+          max={Math.min(totalSquares, 100)}
           placeholder="No limit"
           {...register('maxSquaresPerPerson')}
           className={cn(errors.maxSquaresPerPerson && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
@@ -170,8 +201,9 @@ export function SettingsStep() {
           <button
             type="button"
             onClick={() => setValue('prizeType', 'custom')}
+            disabled={!canUseCustomPrizes}
             className={cn(
-              'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
+              'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-60',
               prizeType === 'custom'
                 ? 'border-orange-500 bg-orange-500/10 text-orange-400'
                 : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
@@ -179,6 +211,18 @@ export function SettingsStep() {
           >
             Custom Prizes
           </button>
+          <button
+            type="button"
+            onClick={() => setValue('prizeType', 'score_change')}
+            className={cn(
+              'flex-1 rounded-lg border px-4 py-3 text-sm font-medium transition-colors',
+              prizeType === 'score_change'
+                ? 'border-orange-500 bg-orange-500/10 text-orange-400'
+                : 'border-zinc-700 bg-zinc-800/50 text-zinc-400 hover:border-zinc-600 hover:text-zinc-300'
+            )}
+          >
+            Every Score Wins
+          </button>
         </div>
         <input type="hidden" {...register('prizeType')} />
         {errors.prizeType && <p className="text-sm text-red-500">{errors.prizeType.message}</p>}
@@ -190,14 +234,10 @@ export function SettingsStep() {
         <div>
           <Label className="text-zinc-200">Payout Distribution</Label>
           <p className="text-xs text-zinc-500">
-            {isFootball
-              ? 'How winnings are split between quarters. The rest goes to your fundraiser.'
-              : 'How winnings are split between games. The rest goes to your fundraiser.'}
+            How winnings are split between each {sport.periodNoun}. The rest goes to your fundraiser.
           </p>
-          {!isFootball && (
-            <p className="mt-1 text-xs text-amber-400">
-              💡 If the series ends early, remaining game payouts go to the fundraiser.
-            </p>
+          {sport.unplayedPeriodNote && (
+            <p className="mt-1 text-xs text-amber-400">💡 {sport.unplayedPeriodNote}</p>
           )}
         </div>
 
@@ -218,7 +258,7 @@ export function SettingsStep() {
         </div>
 
         {/* Payout Inputs */}
-        <div className={cn('grid gap-4', isFootball ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-2 sm:grid-cols-4 lg:grid-cols-7')}>
+        <div className={cn('grid gap-4 grid-cols-2 sm:grid-cols-4', payoutFields.length > 4 && 'lg:grid-cols-7')}>
           {payoutFields.map((field) => (
             <div key={field.name} className="space-y-2">
               <Label htmlFor={field.name} className="text-zinc-200 text-xs">
@@ -256,8 +296,7 @@ export function SettingsStep() {
           )}
         </div>
 
-        {errors.payoutFinalPercent && <p className="text-sm text-red-500">{errors.payoutFinalPercent.message}</p>}
-        {errors.payoutGame7Percent && <p className="text-sm text-red-500">{errors.payoutGame7Percent.message}</p>}
+        {errors[lastPayoutField] && <p className="text-sm text-red-500">{errors[lastPayoutField]?.message}</p>}
 
         {/* Payout Breakdown */}
         {totalPot > 0 && totalPayout <= 100 && (
@@ -266,7 +305,7 @@ export function SettingsStep() {
 
             {/* Total Pot */}
             <div className="mb-4 flex items-center justify-between border-b border-zinc-700 pb-3">
-              <span className="text-sm text-zinc-400">Total Pot (100 squares × ${Number(squarePrice).toLocaleString()})</span>
+              <span className="text-sm text-zinc-400">Total Pot ({totalSquares} squares × ${Number(squarePrice).toLocaleString()})</span>
               <span className="text-lg font-semibold text-white">${totalPot.toLocaleString()}</span>
             </div>
 
@@ -304,74 +343,56 @@ export function SettingsStep() {
       </div>
       )}
 
+      {/* Per-score payout - Show when prizeType is 'score_change' */}
+      {prizeType === 'score_change' && (
+        <div className="space-y-2">
+          <Label htmlFor="scoreChangePayout" className="text-zinc-200">
+            Payout Per Score Change ($)
+          </Label>
+          <Input
+            id="scoreChangePayout"
+            type="number"
+            min="0"
+            step="0.01"
+            {...register('scoreChangePayout')}
+            className={cn(errors.scoreChangePayout && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
+          />
+          {errors.scoreChangePayout && <p className="text-sm text-red-500">{errors.scoreChangePayout.message}</p>}
+          <p className="text-xs text-zinc-500">
+            Paid to the winning square every time the score changes, until the $
+            {((Number(squarePrice) || 0) * getTotalSquares(gridLayout)).toLocaleString()} pot runs out
+            {Number(scoreChangePayout) > 0 &&
+              ` (${Math.floor(((Number(squarePrice) || 0) * getTotalSquares(gridLayout)) / Number(scoreChangePayout))} scoring plays)`}
+            .
+          </p>
+        </div>
+      )}
+
       {/* Custom Prize Text Inputs - Show when prizeType is 'custom' */}
       {prizeType === 'custom' && (
         <div className="space-y-4">
           <div>
             <Label className="text-zinc-200">Custom Prize Descriptions</Label>
-            <p className="text-xs text-zinc-500">Enter prize descriptions for each quarter (max {PRIZE_TEXT_MAX_LENGTH} characters each).</p>
+            <p className="text-xs text-zinc-500">Enter prize descriptions for each {sport.periodNoun} (max {PRIZE_TEXT_MAX_LENGTH} characters each).</p>
           </div>
 
           <div className="grid gap-4 sm:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="prizeQ1Text" className="text-zinc-200 text-xs">
-                Q1 Prize
-              </Label>
-              <Input
-                id="prizeQ1Text"
-                type="text"
-                maxLength={PRIZE_TEXT_MAX_LENGTH}
-                placeholder="e.g., $100 Gift Card"
-                {...register('prizeQ1Text')}
-                className={cn(errors.prizeQ1Text && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
-              />
-              {errors.prizeQ1Text && <p className="text-sm text-red-500">{errors.prizeQ1Text.message}</p>}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="prizeQ2Text" className="text-zinc-200 text-xs">
-                Halftime Prize
-              </Label>
-              <Input
-                id="prizeQ2Text"
-                type="text"
-                maxLength={PRIZE_TEXT_MAX_LENGTH}
-                placeholder="e.g., $200 Gift Card"
-                {...register('prizeQ2Text')}
-                className={cn(errors.prizeQ2Text && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
-              />
-              {errors.prizeQ2Text && <p className="text-sm text-red-500">{errors.prizeQ2Text.message}</p>}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="prizeQ3Text" className="text-zinc-200 text-xs">
-                Q3 Prize
-              </Label>
-              <Input
-                id="prizeQ3Text"
-                type="text"
-                maxLength={PRIZE_TEXT_MAX_LENGTH}
-                placeholder="e.g., $300 Gift Card"
-                {...register('prizeQ3Text')}
-                className={cn(errors.prizeQ3Text && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
-              />
-              {errors.prizeQ3Text && <p className="text-sm text-red-500">{errors.prizeQ3Text.message}</p>}
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="prizeFinalText" className="text-zinc-200 text-xs">
-                Final Prize
-              </Label>
-              <Input
-                id="prizeFinalText"
-                type="text"
-                maxLength={PRIZE_TEXT_MAX_LENGTH}
-                placeholder="e.g., $500 Gift Card"
-                {...register('prizeFinalText')}
-                className={cn(errors.prizeFinalText && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
-              />
-              {errors.prizeFinalText && <p className="text-sm text-red-500">{errors.prizeFinalText.message}</p>}
-            </div>
+            {prizeFields.map((field) => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={field.name} className="text-zinc-200 text-xs">
+                  {field.label} Prize
+                </Label>
+                <Input
+                  id={field.name}
+                  type="text"
+                  maxLength={PRIZE_TEXT_MAX_LENGTH}
+                  placeholder="e.g., $100 Gift Card"
+                  {...register(field.name)}
+                  className={cn(errors[field.name] && 'border-red-500 focus:border-red-500 focus:ring-red-500')}
+                />
+                {errors[field.name] && <p className="text-sm text-red-500">{errors[field.name]?.message}</p>}
+              </div>
+            ))}
           </div>
         </div>
       )}
@@ -405,7 +426,7 @@ export function SettingsStep() {
                 <Input
                   id="accessPin"
                   type={showPin ? 'text' : 'password'}
-                  maxLength={6}
+                  maxLength={ACCESS_PIN_MAX_LENGTH}
                   placeholder="XXXXXX"
                   {...register('accessPin')}
                   className={cn(
@@ -433,7 +454,7 @@ export function SettingsStep() {
               </Button>
             </div>
             {errors.accessPin && <p className="text-sm text-red-500">{errors.accessPin.message}</p>}
-            <p className="text-xs text-zinc-500">6 characters max, letters and numbers only.</p>
+            <p className="text-xs text-zinc-500">6 to 12 characters, letters and numbers only.</p>
           </div>
         )}
       </div>
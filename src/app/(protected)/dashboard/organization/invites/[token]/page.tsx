@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { MailX } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { getUser } from '@/features/account/controllers/get-user';
+import { acceptOrganizationInvite } from '@/features/organizations/controllers/accept-organization-invite';
+
+export const metadata = {
+  title: 'Organization Invite | Fundwell',
+};
+
+interface OrganizationInvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function OrganizationInvitePage({ params }: OrganizationInvitePageProps) {
+  const { token } = await params;
+  const user = await getUser();
+
+  if (!user) {
+    redirect(`/login?redirect=/dashboard/organization/invites/${token}`);
+  }
+
+  const result = await acceptOrganizationInvite(token, user);
+
+  // The organization now shows up in the workspace switcher
+  if (result.organizationId) {
+    redirect('/dashboard');
+  }
+
+  return (
+    <div className="flex min-h-[50vh] flex-col items-center justify-center px-4">
+      <div className="mx-auto max-w-md text-center">
+        <div className="mx-auto mb-6 flex h-16 w-16 items-center justify-center rounded-full bg-red-500/10">
+          <MailX className="h-8 w-8 text-red-500" />
+        </div>
+
+        <h2 className="mb-2 text-2xl font-bold text-white">Couldn&apos;t accept invite</h2>
+        <p className="mb-6 text-zinc-400">
+          {result.error}. You&apos;re signed in as {user.email}. Ask an organization admin to send a new invite if you
+          need one.
+        </p>
+
+        <Button asChild variant="outline">
+          <Link href="/dashboard">Back to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
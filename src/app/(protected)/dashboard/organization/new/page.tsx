@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { OrganizationNameForm } from '@/features/organizations/components/organization-name-form';
+
+export const metadata = {
+  title: 'Create Organization | Fundwell',
+};
+
+export default function NewOrganizationPage() {
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center gap-2 text-sm text-zinc-400 transition-colors hover:text-white"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Dashboard
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold text-white lg:text-3xl">Create Organization</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          Run contests as a team. Contests in an organization share its branding, payment options and subscription.
+        </p>
+      </div>
+
+      <Card className="border-zinc-800 bg-zinc-900">
+        <CardHeader>
+          <CardTitle className="text-white">Organization</CardTitle>
+          <CardDescription>A school, league or club. You can invite members once it&apos;s created.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <OrganizationNameForm />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import Image from 'next/image';
+import { redirect } from 'next/navigation';
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getUser } from '@/features/account/controllers/get-user';
+import { getPaymentConfig } from '@/features/contests/utils/payment-helpers';
+import { OrganizationMembers } from '@/features/organizations/components/organization-members';
+import { OrganizationNameForm } from '@/features/organizations/components/organization-name-form';
+import { canManageOrganization, ORGANIZATION_ROLES } from '@/features/organizations/constants';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
+import {
+  getOrganizationMembers,
+  getOrganizationPaymentOptions,
+} from '@/features/organizations/queries/get-organization';
+
+export const metadata = {
+  title: 'Organization Settings | Fundwell',
+};
+
+export default async function OrganizationSettingsPage() {
+  const user = await getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  // Settings apply to the active workspace; the personal workspace has none
+  const workspace = await getActiveWorkspace(user.id);
+
+  if (!workspace) {
+    redirect('/dashboard');
+  }
+
+  const { organization, role } = workspace;
+  const canManage = canManageOrganization(role);
+
+  const [members, paymentOptions] = await Promise.all([
+    canManage ? getOrganizationMembers(organization.id) : Promise.resolve([]),
+    getOrganizationPaymentOptions(organization.id),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Title */}
+      <div>
+        <h1 className="text-2xl font-bold text-white lg:text-3xl">Organization Settings</h1>
+        <p className="mt-1 text-sm text-zinc-400">
+          {organization.name} &middot; You&apos;re {role === 'owner' ? 'the' : 'a'}{' '}
+          {ORGANIZATION_ROLES[role].label.toLowerCase()}
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        {/* Name Section */}
+        {canManage && (
+          <Card className="border-zinc-800 bg-zinc-900">
+            <CardHeader>
+              <CardTitle className="text-white">Organization</CardTitle>
+              <CardDescription>Shown in the workspace switcher and on invites.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationNameForm organizationId={organization.id} defaultName={organization.name} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Shared Defaults Section */}
+        <Card className="border-zinc-800 bg-zinc-900">
+          <CardHeader>
+            <CardTitle className="text-white">Shared Branding &amp; Payment Options</CardTitle>
+            <CardDescription>
+              New contests in {organization.name} start with these. To change them, set up a contest the way you like
+              and use &quot;Save as Organization Defaults&quot; in its settings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-4">
+              {organization.org_image_url && (
+                <div className="relative h-12 w-12 overflow-hidden rounded-lg border border-zinc-700">
+                  <Image src={organization.org_image_url} alt="Organization logo" fill className="object-cover" />
+                </div>
+              )}
+              {[organization.primary_color, organization.secondary_color].map(
+                (color, index) =>
+                  color && (
+                    <div key={index} className="flex items-center gap-2">
+                      <div className="h-8 w-8 rounded-md border border-zinc-700" style={{ backgroundColor: color }} />
+                      <span className="font-mono text-sm text-zinc-400">{color}</span>
+                    </div>
+                  )
+              )}
+            </div>
+
+            {paymentOptions.length === 0 ? (
+              <p className="text-sm text-zinc-500">No shared payment options yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {paymentOptions.map((option) => {
+                  const { Icon, color } = getPaymentConfig(option.type);
+                  return (
+                    <div
+                      key={option.id}
+                      className="flex items-center gap-3 rounded-lg border border-zinc-700 bg-zinc-800/50 p-3"
+                    >
+                      <Icon className={`h-5 w-5 ${color}`} />
+                      <span className="text-sm text-zinc-300">{option.display_name || option.handle_or_link}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Members Section */}
+        {canManage && (
+          <Card className="border-zinc-800 bg-zinc-900">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                Members
+                <Badge variant="outline" className="border-zinc-600 text-zinc-400">
+                  {members.length}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                Admins manage billing, members and every contest in the organization. Members create their own contests
+                here and can view the rest.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OrganizationMembers organizationId={organization.id} members={members} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
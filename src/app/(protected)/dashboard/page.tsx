@@ -1,10 +1,16 @@
 import Link from 'next/link';
-import { PlusCircle } from 'lucide-react';
+import { PlusCircle, Trash2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { ContestCard } from '@/features/contests/components/contest-card';
 import { ContestStatus } from '@/features/contests/constants/status';
-import { listContestsForOwner } from '@/features/contests/queries';
+import {
+  listContestsForOrganization,
+  listContestsForOwner,
+  listContestsSharedWithUser,
+  listDeletedContests,
+} from '@/features/contests/queries';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
 import { UpgradeBanner } from '@/features/subscriptions/components/upgrade-banner';
 import { hasActiveSubscription } from '@/features/subscriptions/has-active-subscription';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
@@ -70,11 +76,17 @@ export default async function DashboardPage() {
     return null;
   }
 
-  // Check if user has active subscription
-  const userHasSubscription = await hasActiveSubscription(user.id);
+  // Contests and billing are scoped to the active workspace
+  const workspace = await getActiveWorkspace(user.id);
+  const organizationId = workspace?.organization.id ?? null;
+
+  // Check if the workspace has an active subscription
+  const userHasSubscription = await hasActiveSubscription(user.id, organizationId);
 
   // Fetch contests with claimed squares count
-  const contests = await listContestsForOwner(user.id);
+  const contests = organizationId
+    ? await listContestsForOrganization(organizationId)
+    : await listContestsForOwner(user.id);
 
   // Calculate claimed counts for each contest
   const contestsWithCounts = contests.map((contest) => {
@@ -84,6 +96,18 @@ export default async function DashboardPage() {
     return { ...contest, claimedCount };
   });
 
+  // Contests the user helps run as a co-organizer
+  const sharedContests = await listContestsSharedWithUser(user.id);
+  const sharedContestsWithCounts = sharedContests.map((contest) => {
+    const claimedCount = contest.squares?.filter(
+      (sq) => sq.payment_status !== 'available'
+    ).length ?? 0;
+    return { ...contest, claimedCount };
+  });
+
+  // Only link to the trash when there's something to restore
+  const deletedContests = await listDeletedContests(organizationId);
+
   // Count active contests for upgrade banner
   const activeContestCount = contests.filter((c) =>
     ([ContestStatus.DRAFT, ContestStatus.OPEN, ContestStatus.LOCKED, ContestStatus.IN_PROGRESS] as readonly string[]).includes(c.status)
@@ -95,13 +119,25 @@ export default async function DashboardPage() {
       {!userHasSubscription && <UpgradeBanner activeContestCount={activeContestCount} />}
 
       <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <h1 className="text-2xl font-bold text-white lg:text-3xl">My Contests</h1>
-        <Button variant="orange" asChild>
-          <Link href="/dashboard/new">
-            <PlusCircle className="mr-2 h-5 w-5" />
-            Create Contest
-          </Link>
-        </Button>
+        <h1 className="text-2xl font-bold text-white lg:text-3xl">
+          {workspace ? workspace.organization.name : 'My Contests'}
+        </h1>
+        <div className="flex flex-wrap gap-2">
+          {deletedContests.length > 0 && (
+            <Button variant="secondary" asChild>
+              <Link href="/dashboard/trash">
+                <Trash2 className="mr-2 h-5 w-5" />
+                Recently Deleted ({deletedContests.length})
+              </Link>
+            </Button>
+          )}
+          <Button variant="orange" asChild>
+            <Link href="/dashboard/new">
+              <PlusCircle className="mr-2 h-5 w-5" />
+              Create Contest
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {contestsWithCounts.length === 0 ? (
@@ -117,6 +153,21 @@ export default async function DashboardPage() {
           ))}
         </div>
       )}
+
+      {sharedContestsWithCounts.length > 0 && (
+        <div className="mt-10">
+          <h2 className="mb-4 text-xl font-semibold text-white">Shared With You</h2>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {sharedContestsWithCounts.map((contest) => (
+              <ContestCard
+                key={contest.id}
+                contest={contest}
+                claimedCount={contest.claimedCount}
+              />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
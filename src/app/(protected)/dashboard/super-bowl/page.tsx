@@ -1,4 +1,8 @@
+import { notFound } from 'next/navigation';
+
+import { getIsPlatformAdmin } from '@/features/account/controllers/get-is-platform-admin';
 import {
+  getAdminAuditLog,
   getProcessingLogs,
   getQuarterResults,
   getSuperBowlConfig,
@@ -12,11 +16,17 @@ export const metadata = {
 };
 
 export default async function SuperBowlPage() {
-  const [config, logs, results, contests] = await Promise.all([
+  // Staff only - the controls act across every contest
+  if (!(await getIsPlatformAdmin())) {
+    notFound();
+  }
+
+  const [config, logs, results, contests, auditLog] = await Promise.all([
     getSuperBowlConfig(),
     getProcessingLogs(),
     getQuarterResults(),
     getSuperBowlContests(),
+    getAdminAuditLog(),
   ]);
 
   return (
@@ -33,6 +43,7 @@ export default async function SuperBowlPage() {
         initialLogs={logs}
         initialResults={results}
         initialContests={contests}
+        initialAuditLog={auditLog}
       />
     </div>
   );
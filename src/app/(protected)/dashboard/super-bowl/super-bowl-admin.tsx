@@ -9,6 +9,7 @@ import {
   Mail,
   Play,
   RefreshCw,
+  ShieldCheck,
   Trophy,
   Zap,
 } from 'lucide-react';
@@ -20,6 +21,7 @@ import { Switch } from '@/components/ui/switch';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/components/ui/use-toast';
+import { GameQuarter } from '@/features/contests/types';
 import {
   resendQuarterEmails,
   toggleScoreChecking,
@@ -68,6 +70,14 @@ interface QuarterResult {
   contests?: { name: string } | null;
 }
 
+interface AuditEntry {
+  id: string;
+  admin_email: string;
+  action: string;
+  details: unknown;
+  created_at: string;
+}
+
 interface Contest {
   id: string;
   name: string;
@@ -81,6 +91,7 @@ interface Props {
   initialLogs: LogEntry[];
   initialResults: QuarterResult[];
   initialContests: Contest[];
+  initialAuditLog: AuditEntry[];
 }
 
 // =============================================================================
@@ -94,6 +105,12 @@ const QUARTER_NAMES: Record<string, string> = {
   final: 'Final',
 };
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  toggle_score_checking: 'Toggled score checking',
+  trigger_score_check: 'Triggered score check',
+  resend_quarter_emails: 'Resent quarter emails',
+};
+
 function formatDate(dateStr: string | null) {
   if (!dateStr) return 'Never';
   return new Date(dateStr).toLocaleString();
@@ -112,7 +129,13 @@ function StatusBadge({ status }: { status: string }) {
 // Component
 // =============================================================================
 
-export function SuperBowlAdmin({ initialConfig, initialLogs, initialResults, initialContests }: Props) {
+export function SuperBowlAdmin({
+  initialConfig,
+  initialLogs,
+  initialResults,
+  initialContests,
+  initialAuditLog,
+}: Props) {
   const [config, setConfig] = useState(initialConfig);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
@@ -131,7 +154,7 @@ export function SuperBowlAdmin({ initialConfig, initialLogs, initialResults, ini
   }
 
   // Manual trigger
-  function handleTrigger(quarter?: string) {
+  function handleTrigger(quarter?: GameQuarter) {
     startTransition(async () => {
       const result = await triggerScoreCheck(quarter, true);
       if (!result || result.error) {
@@ -161,6 +184,7 @@ export function SuperBowlAdmin({ initialConfig, initialLogs, initialResults, ini
         <TabsTrigger value='results'>Results ({initialResults.length})</TabsTrigger>
         <TabsTrigger value='logs'>Logs ({initialLogs.length})</TabsTrigger>
         <TabsTrigger value='contests'>Contests ({initialContests.length})</TabsTrigger>
+        <TabsTrigger value='audit'>Audit ({initialAuditLog.length})</TabsTrigger>
       </TabsList>
 
       {/* ================================================================== */}
@@ -251,7 +275,7 @@ export function SuperBowlAdmin({ initialConfig, initialLogs, initialResults, ini
               <RefreshCw className={`mr-2 h-4 w-4 ${isPending ? 'animate-spin' : ''}`} />
               Check Scores Now
             </Button>
-            {['q1', 'q2', 'q3', 'final'].map((q) => (
+            {(['q1', 'q2', 'q3', 'final'] as GameQuarter[]).map((q) => (
               <Button
                 key={q}
                 variant='outline'
@@ -459,6 +483,55 @@ export function SuperBowlAdmin({ initialConfig, initialLogs, initialResults, ini
           </CardContent>
         </Card>
       </TabsContent>
+
+      {/* ================================================================== */}
+      {/* Audit Tab */}
+      {/* ================================================================== */}
+      <TabsContent value='audit'>
+        <Card className='border-zinc-800 bg-zinc-900'>
+          <CardHeader>
+            <CardTitle className='flex items-center gap-2 text-base text-white'>
+              <ShieldCheck className='h-4 w-4 text-green-400' />
+              Admin Audit Trail
+            </CardTitle>
+            <CardDescription>Who toggled, forced or resent what</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {initialAuditLog.length === 0 ? (
+              <p className='py-8 text-center text-sm text-zinc-500'>No admin actions yet</p>
+            ) : (
+              <div className='max-h-[600px] overflow-y-auto'>
+                <Table>
+                  <TableHeader>
+                    <TableRow className='border-zinc-800'>
+                      <TableHead className='text-zinc-400'>Time</TableHead>
+                      <TableHead className='text-zinc-400'>Admin</TableHead>
+                      <TableHead className='text-zinc-400'>Action</TableHead>
+                      <TableHead className='text-zinc-400'>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {initialAuditLog.map((entry) => (
+                      <TableRow key={entry.id} className='border-zinc-800'>
+                        <TableCell className='whitespace-nowrap text-xs text-zinc-500'>
+                          {formatDate(entry.created_at)}
+                        </TableCell>
+                        <TableCell className='text-sm text-zinc-300'>{entry.admin_email}</TableCell>
+                        <TableCell className='text-sm text-zinc-300'>
+                          {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                        </TableCell>
+                        <TableCell className='max-w-xs truncate text-xs text-zinc-500'>
+                          {JSON.stringify(entry.details).slice(0, 100)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
     </Tabs>
   );
 }
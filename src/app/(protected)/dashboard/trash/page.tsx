@@ -0,0 +1,43 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+
+import { getUser } from '@/features/account/controllers/get-user';
+import { CONTEST_TRASH_RETENTION_DAYS } from '@/features/contests/constants';
+import { listDeletedContests } from '@/features/contests/queries';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
+
+import { TrashList } from './trash-list';
+
+export default async function TrashPage() {
+  const user = await getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  // Your own contests, plus the organization's if you own or run it; the trash follows the active workspace
+  const workspace = await getActiveWorkspace(user.id);
+  const deletedContests = await listDeletedContests(workspace?.organization.id ?? null);
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/dashboard"
+        className="inline-flex items-center gap-2 text-sm text-zinc-400 transition-colors hover:text-white"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to Contests
+      </Link>
+
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold text-white lg:text-3xl">Recently Deleted</h1>
+        <p className="text-sm text-zinc-400">
+          Deleted contests can be restored for {CONTEST_TRASH_RETENTION_DAYS} days, then they are permanently removed.
+        </p>
+      </div>
+
+      <TrashList contests={deletedContests} />
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { restoreContest } from '@/features/contests/actions/restore-contest';
+import { CONTEST_TRASH_RETENTION_DAYS } from '@/features/contests/constants';
+import { DeletedContest } from '@/features/contests/queries';
+import { formatDate } from '@/utils/date-formatters';
+
+interface TrashListProps {
+  contests: DeletedContest[];
+}
+
+function getDaysLeft(deletedAt: string): number {
+  const purgeAt = new Date(deletedAt).getTime() + CONTEST_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+export function TrashList({ contests }: TrashListProps) {
+  const [isPending, startTransition] = useTransition();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const router = useRouter();
+  const { toast } = useToast();
+
+  function handleRestore(contest: DeletedContest) {
+    setRestoringId(contest.id);
+
+    startTransition(async () => {
+      const result = await restoreContest(contest.id);
+      setRestoringId(null);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Contest restored', description: `${contest.name} is back in your contests.` });
+      router.push(`/dashboard/${contest.id}`);
+    });
+  }
+
+  if (contests.length === 0) {
+    return (
+      <div className="rounded-lg border border-zinc-800 bg-zinc-800/50 p-8 text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-zinc-700/50">
+          <Trash2 className="h-8 w-8 text-zinc-400" />
+        </div>
+        <p className="text-zinc-400">No recently deleted contests.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {contests.map((contest) => {
+        const daysLeft = getDaysLeft(contest.deleted_at);
+
+        return (
+          <div
+            key={contest.id}
+            className="flex items-center justify-between gap-4 rounded-lg border border-zinc-800 bg-zinc-900 p-4"
+          >
+            <div className="min-w-0 space-y-1">
+              <p className="truncate font-medium text-white">{contest.name}</p>
+              <p className="text-sm text-zinc-400">
+                Deleted {formatDate(contest.deleted_at)} • {contest.claimed_count} claimed square
+                {contest.claimed_count !== 1 ? 's' : ''}
+              </p>
+              <p className="text-xs text-zinc-500">
+                {daysLeft > 0
+                  ? `Permanently deleted in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`
+                  : 'Permanently deleted soon'}
+              </p>
+            </div>
+            <Button variant="secondary" onClick={() => handleRestore(contest)} disabled={isPending}>
+              {restoringId === contest.id ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Restore
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
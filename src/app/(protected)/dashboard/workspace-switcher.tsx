@@ -0,0 +1,113 @@
+'use client';
+
+import { useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Building2, Check, ChevronsUpDown, Plus, Settings, User } from 'lucide-react';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { switchWorkspace } from '@/features/organizations/actions/switch-workspace';
+import { ORGANIZATION_ROLES } from '@/features/organizations/constants';
+import { OrganizationRole } from '@/features/organizations/types';
+import { cn } from '@/utils/cn';
+
+export interface WorkspaceOption {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceOption[];
+  activeWorkspaceId: string | null;
+  onNavigate?: () => void;
+}
+
+const ITEM_CLASS_NAME = 'cursor-pointer text-zinc-300 focus:bg-zinc-700 focus:text-white';
+
+export function WorkspaceSwitcher({ workspaces, activeWorkspaceId, onNavigate }: WorkspaceSwitcherProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? null;
+
+  function handleSwitch(organizationId: string | null) {
+    if (organizationId === activeWorkspaceId) return;
+
+    startTransition(async () => {
+      const result = await switchWorkspace(organizationId);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      onNavigate?.();
+      router.push('/dashboard');
+      router.refresh();
+    });
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          disabled={isPending}
+          className="flex w-full items-center gap-3 rounded-lg border border-zinc-800 bg-zinc-900 px-3 py-2 text-left text-sm transition-colors hover:bg-zinc-800 disabled:opacity-50"
+        >
+          <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-md bg-orange-500/10 text-orange-500">
+            {activeWorkspace ? <Building2 className="h-4 w-4" /> : <User className="h-4 w-4" />}
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium text-white">{activeWorkspace?.name ?? 'Personal'}</p>
+            <p className="truncate text-xs text-zinc-500">
+              {activeWorkspace ? ORGANIZATION_ROLES[activeWorkspace.role].label : 'Your own contests'}
+            </p>
+          </div>
+          <ChevronsUpDown className="h-4 w-4 flex-shrink-0 text-zinc-500" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56 border-zinc-700 bg-zinc-800">
+        <DropdownMenuLabel className="text-xs font-normal text-zinc-500">Workspaces</DropdownMenuLabel>
+        <DropdownMenuItem className={ITEM_CLASS_NAME} onSelect={() => handleSwitch(null)}>
+          <User className="mr-2 h-4 w-4" />
+          <span className="flex-1 truncate">Personal</span>
+          <Check className={cn('ml-2 h-4 w-4', activeWorkspaceId ? 'invisible' : 'text-orange-500')} />
+        </DropdownMenuItem>
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem key={workspace.id} className={ITEM_CLASS_NAME} onSelect={() => handleSwitch(workspace.id)}>
+            <Building2 className="mr-2 h-4 w-4" />
+            <span className="flex-1 truncate">{workspace.name}</span>
+            <Check
+              className={cn('ml-2 h-4 w-4', workspace.id === activeWorkspaceId ? 'text-orange-500' : 'invisible')}
+            />
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator className="bg-zinc-700" />
+        {activeWorkspace && (
+          <DropdownMenuItem asChild className={ITEM_CLASS_NAME}>
+            <Link href="/dashboard/organization" onClick={onNavigate}>
+              <Settings className="mr-2 h-4 w-4" />
+              Organization settings
+            </Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem asChild className={ITEM_CLASS_NAME}>
+          <Link href="/dashboard/organization/new" onClick={onNavigate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create organization
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
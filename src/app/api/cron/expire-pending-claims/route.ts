@@ -0,0 +1,23 @@
+import { expirePendingClaims } from '@/features/contests/controllers/expire-pending-claims';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job that sends payment reminders and releases pending squares past their contest's
+ * payment deadline. Called by the scheduler with the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await expirePendingClaims();
+    return Response.json(result);
+  } catch (error) {
+    logger.error('cron/expire-pending-claims', error);
+    return Response.json({ error: 'Failed to expire pending claims' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { checkLiveScores } from '@/features/live-scores/controllers/check-live-scores';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job that records live scores for contests linked to a game.
+ * Called by the scheduler with the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await checkLiveScores();
+    return Response.json(result);
+  } catch (error) {
+    logger.error('cron/live-scores', error);
+    return Response.json({ error: 'Failed to check live scores' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { purgeDeletedContests } from '@/features/contests/controllers/purge-deleted-contests';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job that permanently deletes contests that have been in the trash too long.
+ * Called by the scheduler with the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeDeletedContests();
+    return Response.json(result);
+  } catch (error) {
+    logger.error('cron/purge-deleted-contests', error);
+    return Response.json({ error: 'Failed to purge deleted contests' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { checkSuperBowlScores } from '@/features/super-bowl/controllers/check-super-bowl-scores';
+import { logger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled job that records Super Bowl quarters for every Super Bowl contest.
+ * Called by the scheduler with the CRON_SECRET as a bearer token.
+ */
+export async function GET(req: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await checkSuperBowlScores();
+    return Response.json(result);
+  } catch (error) {
+    logger.error('cron/super-bowl-scores', error);
+    return Response.json({ error: 'Failed to check Super Bowl scores' }, { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@ import Stripe from 'stripe';
 import { upsertUserSubscription } from '@/features/account/controllers/upsert-user-subscription';
 import { upsertPrice } from '@/features/pricing/controllers/upsert-price';
 import { upsertProduct } from '@/features/pricing/controllers/upsert-product';
+import { syncConnectedAccount } from '@/features/square-payments/controllers/get-connected-account';
+import { markSquaresPaidFromCheckout } from '@/features/square-payments/controllers/mark-squares-paid';
 import { stripeAdmin } from '@/libs/stripe/stripe-admin';
 import { getEnvVar } from '@/utils/get-env-var';
 import { logger } from '@/utils/logger';
@@ -16,6 +18,7 @@ const relevantEvents = new Set([
   'customer.subscription.created',
   'customer.subscription.updated',
   'customer.subscription.deleted',
+  'account.updated',
 ]);
 
 export async function POST(req: Request) {
@@ -65,6 +68,15 @@ export async function POST(req: Request) {
               isCreateAction: true,
             });
           }
+
+          // Card payments for squares (see createSquareCheckout)
+          if (checkoutSession.mode === 'payment') {
+            await markSquaresPaidFromCheckout(checkoutSession);
+          }
+          break;
+        case 'account.updated':
+          // Sent for connected accounts when the endpoint also listens to Connect events
+          await syncConnectedAccount(event.data.object as Stripe.Account);
           break;
         default:
           throw new Error('Unhandled relevant event!');
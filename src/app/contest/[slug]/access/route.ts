@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+
+import { verifyAccessLinkToken } from '@/features/contests/utils/access-links';
+import { getContestAccessCookieName, getContestAccessCookieOptions } from '@/features/contests/utils/contest-access';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getURL } from '@/utils/get-url';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Landing point for an invitee's emailed access link. Checks the signed token, then sets the
+ * contest's access cookie to the invitee's own access token and sends them on to the contest.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const token = new URL(request.url).searchParams.get('token');
+  const link = token ? verifyAccessLinkToken(token) : null;
+
+  if (link) {
+    // The link names the invitee, so someone removed from the list can't use an old one
+    const { data: invitee } = await supabaseAdminClient
+      .from('contest_invitees')
+      .select('access_token, contests!inner(slug, deleted_at)')
+      .eq('id', link.inviteeId)
+      .maybeSingle();
+
+    if (invitee && invitee.contests.slug === slug && !invitee.contests.deleted_at) {
+      const response = NextResponse.redirect(getURL(`/contest/${slug}`));
+      response.cookies.set(getContestAccessCookieName(slug), invitee.access_token, getContestAccessCookieOptions());
+      return response;
+    }
+  }
+
+  return NextResponse.redirect(getURL(`/contest/${slug}?invite=invalid`));
+}
@@ -2,17 +2,42 @@
 import { useEffect, useState } from 'react';
 import Image from 'next/image';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Share2, Trophy } from 'lucide-react';
+import { Share2, ShoppingCart, Shuffle, Trophy } from 'lucide-react';
 
 import { MarketingFooter } from '@/components/layout/marketing-footer';
 import { AdPlaceholder, ShareQrModal } from '@/components/shared';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
-import { ClaimSquareModal, PinEntryModal, Square, SquaresGrid } from '@/features/contests/components';
-import { FOOTBALL_QUARTER_LABELS } from '@/features/contests/constants';
-import { ContestPrizeFields } from '@/features/contests/types';
+import { getContestSquares } from '@/features/contests/actions/get-contest-squares';
+import { ClaimSquareModal, InviteOnlyNotice, PinEntryModal, Square, SquaresGrid } from '@/features/contests/components';
+import {
+  getPeriodLabel,
+  getScoreLabel,
+  getSport,
+  GridLayout,
+  OvertimeRule,
+  PotBasis,
+  RolloverPolicy,
+  SportType,
+} from '@/features/contests/constants';
+import { ContestPrizeFields, ScoreWinner, ScoringEventWithWinners } from '@/features/contests/types';
 import { Player } from '@/features/contests/types/player';
-import { getPrizeText } from '@/features/contests/utils';
+import {
+  calculateMaxPot,
+  calculatePot,
+  getCellSquares,
+  getPaidSquareLabel,
+  getPrizeAmount,
+  getPrizeText,
+  getScoringEventCarryPercent,
+  getScoringEventPayouts,
+  getScoringEventRolloverNote,
+  getUnclaimedSharePercent,
+  GridPeriodNumbers,
+  isPrimaryPayout,
+  maskQuickPickedSquares,
+} from '@/features/contests/utils';
 import { useRealtimeSquares } from '@/hooks/use-realtime-squares';
 import { Database } from '@/libs/supabase/types';
 import { cn } from '@/utils/cn';
@@ -27,10 +52,14 @@ interface Contest extends ContestPrizeFields {
   slug: string;
   description: string | null;
   status: string;
-  sport_type: 'football' | 'baseball';
+  sport_type: SportType;
   row_team_name: string;
   col_team_name: string;
   square_price: number;
+  grid_layout: GridLayout;
+  // Which squares the pot is counted from and the organization's cut off the top
+  pot_basis: PotBasis;
+  organization_cut_percent: number;
   max_squares_per_person: number | null;
   primary_color: string;
   secondary_color: string;
@@ -38,6 +67,8 @@ interface Contest extends ContestPrizeFields {
   hero_image_position?: string;
   org_image_url: string | null;
   requiresPin: boolean;
+  // Only invitees (via their emailed link) and members can see the grid
+  inviteOnly: boolean;
   access_pin: string | null;
   row_numbers: number[] | null;
   col_numbers: number[] | null;
@@ -53,25 +84,32 @@ interface Contest extends ContestPrizeFields {
   payout_game5_percent: number | null;
   payout_game6_percent: number | null;
   payout_game7_percent: number | null;
+  payout_ot_percent: number | null;
+  // Paid for every scoring play when prize_type is 'score_change'
+  score_change_payout: number;
+  // What happens to prizes won by unclaimed squares
+  rollover_policy: RolloverPolicy;
+  // How a game that goes to overtime is paid
+  overtime_rule: OvertimeRule;
   // Player tracking
   enable_player_tracking: boolean;
   players: unknown;
+  hide_quick_pick_locations: boolean;
 }
 
 interface ContestPageClientProps {
   contest: Contest;
   squares: Square[];
   scores: Score[];
+  scoreWinners: ScoreWinner[];
+  scoringEvents: ScoringEventWithWinners[];
+  periodNumbers?: GridPeriodNumbers[];
   hasAccess: boolean;
   showAds: boolean;
   paymentOptions: PaymentOption[];
+  cardPaymentsEnabled: boolean;
 }
 
-// Build quarter display names from shared constant
-const quarterDisplayNames: Record<GameQuarter, string> = Object.fromEntries(
-  FOOTBALL_QUARTER_LABELS.map((q) => [q.key, q.label])
-) as Record<GameQuarter, string>;
-
 // Convert hero image position to CSS object-position
 function getObjectPosition(position?: string): string {
   const positionMap: Record<string, string> = {
@@ -88,14 +126,26 @@ function getObjectPosition(position?: string): string {
   return positionMap[position || 'center'] || '50% 50%';
 }
 
-export function ContestPageClient({ contest, squares, scores, hasAccess, showAds, paymentOptions }: ContestPageClientProps) {
+export function ContestPageClient({
+  contest,
+  squares,
+  scores,
+  scoreWinners,
+  scoringEvents,
+  periodNumbers,
+  hasAccess,
+  showAds,
+  paymentOptions,
+  cardPaymentsEnabled,
+}: ContestPageClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
   const refParam = searchParams.get('ref');
   const { toast } = useToast();
   const [showPinModal, setShowPinModal] = useState(!hasAccess && contest.requiresPin);
-  const [selectedSquare, setSelectedSquare] = useState<Square | null>(null);
+  const [cartSquareIds, setCartSquareIds] = useState<string[]>([]);
   const [isClaimModalOpen, setIsClaimModalOpen] = useState(false);
+  const [claimMode, setClaimMode] = useState<'cart' | 'quick_pick'>('cart');
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [referredByPlayer, setReferredByPlayer] = useState<Player | null>(null);
 
@@ -108,96 +158,93 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
     }
   }, [refParam, contest.enable_player_tracking, contest.players]);
 
+  // Returning from Stripe Checkout; the webhook marks the square paid
+  useEffect(() => {
+    if (searchParams.get('payment') === 'success') {
+      toast({
+        title: 'Payment received',
+        description: "Thanks! Your square will show as paid in a moment and we'll email your confirmation.",
+      });
+      router.replace(`/contest/${contest.slug}`, { scroll: false });
+    }
+  }, [searchParams, contest.slug, router, toast]);
+
   // Build contest URL for sharing (preserve ref param if present)
   const contestUrl = typeof window !== 'undefined' 
     ? `${window.location.origin}/contest/${contest.slug}${refParam ? `?ref=${refParam}` : ''}`
     : `/contest/${contest.slug}`;
-  const realtimeSquares = useRealtimeSquares(contest.id, squares);
+  // The access cookie lets visitors re-read a PIN-protected grid
+  const fetchSquares = async () => (await getContestSquares(contest.id, contest.slug))?.data ?? null;
+  // Owners get their grid unmasked from the database, so hidden quick picks are masked here too
+  const realtimeSquares = maskQuickPickedSquares(contest, useRealtimeSquares(contest.id, squares, fetchSquares));
+  const availableCount = realtimeSquares.filter((square) => square.payment_status === 'available').length;
+
+  // Squares claimed by someone else while in the cart drop out automatically
+  const cartSquares = realtimeSquares
+    .filter((square) => cartSquareIds.includes(square.id) && square.payment_status === 'available')
+    .sort((a, b) => a.row_index - b.row_index || a.col_index - b.col_index);
+
+  // Score-change contests pay every scoring play instead of each period
+  const isScoreChange = contest.prize_type === 'score_change';
 
   // Get winning square IDs for highlighting
-  const winningSquareIds = scores
+  const winningSquareIds = (isScoreChange ? scoringEvents : scores)
     .filter((score) => score.winning_square_id)
     .map((score) => score.winning_square_id as string);
 
-  // Calculate total pot
-  const claimedSquaresCount = realtimeSquares.filter((s) => s.payment_status !== 'available').length;
-  const totalPot = claimedSquaresCount * contest.square_price;
+  // Prizes are paid from the current pot; the expected pot assumes every square sells
+  const pot = calculatePot(contest, realtimeSquares);
+  const expectedPot = calculateMaxPot(contest);
+  // A pot counted from every square is already at its expected size
+  const showCurrentPot = contest.pot_basis !== 'all';
 
   // Check if we have winners to show
-  const hasWinners = scores.length > 0 && scores.some((s) => s.winning_square_id);
+  const hasWinners = isScoreChange
+    ? scoringEvents.length > 0
+    : scores.length > 0 && scores.some((s) => s.winning_square_id);
 
-  // Build payout list based on sport type
-  const buildPayoutList = () => {
-    // Baseball: games 1-7
-    if (contest.sport_type === 'baseball') {
-      const games = [
-        { label: 'Game 1', percent: contest.payout_game1_percent },
-        { label: 'Game 2', percent: contest.payout_game2_percent },
-        { label: 'Game 3', percent: contest.payout_game3_percent },
-        { label: 'Game 4', percent: contest.payout_game4_percent },
-        { label: 'Game 5', percent: contest.payout_game5_percent },
-        { label: 'Game 6', percent: contest.payout_game6_percent },
-        { label: 'Game 7', percent: contest.payout_game7_percent },
-      ];
-      return games
-        .filter((g) => g.percent && g.percent > 0)
-        .map((g, i) => ({ ...g, quarter: (['q1', 'q2', 'q3', 'final', 'q1', 'q2', 'q3'] as GameQuarter[])[i] }));
-    }
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
 
-    // Football: use shared quarter labels
-    const prizeTextMap: Record<string, string | null | undefined> = {
-      q1: contest.prize_q1_text,
-      q2: contest.prize_q2_text,
-      q3: contest.prize_q3_text,
-      final: contest.prize_final_text,
-    };
-    const payoutMap: Record<string, number | null> = {
-      q1: contest.payout_q1_percent,
-      q2: contest.payout_q2_percent,
-      q3: contest.payout_q3_percent,
-      final: contest.payout_final_percent,
-    };
+  // Get payout percentage for a period
+  const getPayoutPercent = (quarter: GameQuarter): number => {
+    const period = sport.periods.find((p) => p.key === quarter);
+    return (period ? contest[period.payoutField] : null) ?? 0;
+  };
 
+  // Build payout list based on sport type
+  const buildPayoutList = () => {
     if (contest.prize_type === 'custom') {
-      return FOOTBALL_QUARTER_LABELS
-        .map((q) => ({ label: q.label, quarter: q.key as GameQuarter, percent: null, prizeText: prizeTextMap[q.key] }))
+      return sport.periods
+        .map((p) => ({
+          label: p.label,
+          quarter: p.key,
+          percent: null,
+          prizeText: getPrizeText(contest.prize_type, p.key, contest),
+        }))
         .filter((p) => p.prizeText);
     }
 
-    return FOOTBALL_QUARTER_LABELS
-      .map((q) => ({ label: q.label, quarter: q.key as GameQuarter, percent: payoutMap[q.key] }))
-      .filter((p) => p.percent && p.percent > 0);
+    return sport.periods
+      .map((p) => ({ label: p.label, quarter: p.key, percent: getPayoutPercent(p.key) }))
+      .filter((p) => p.percent > 0);
   };
 
   const payoutList = buildPayoutList();
 
-  // Show payouts if we have payout items OR if custom prizes exist
-  const hasCustomPrizes = contest.prize_type === 'custom' && 
-    (contest.prize_q1_text || contest.prize_q2_text || contest.prize_q3_text || contest.prize_final_text);
-  const showPayouts = !hasWinners && (payoutList.length > 0 || hasCustomPrizes);
+  // Show payouts if we have payout items (percentages or custom prizes)
+  const showPayouts = !hasWinners && (isScoreChange || payoutList.length > 0);
   const showSidebar = showAds || hasWinners || showPayouts;
 
-  // Get payout percentage for a quarter
-  const getPayoutPercent = (quarter: GameQuarter): number => {
-    const payoutMap: Record<GameQuarter, number | null> = {
-      q1: contest.payout_q1_percent,
-      q2: contest.payout_q2_percent,
-      q3: contest.payout_q3_percent,
-      final: contest.payout_final_percent,
-    };
-    return payoutMap[quarter] ?? 0;
-  };
-
-
   // Get winner info from square
   const getWinnerInfo = (squareId: string): { name: string; row: number; col: number } | null => {
     const square = realtimeSquares.find((s) => s.id === squareId);
     if (!square) return null;
     
-    const hasName = square.claimant_first_name || square.claimant_last_name;
-    const name = hasName 
-      ? `${square.claimant_first_name || ''} ${square.claimant_last_name || ''}`.trim()
-      : `Row ${square.row_index}, Col ${square.col_index}`;
+    // Squares sold in halves share the win between both owners of the cell
+    const names = getCellSquares(realtimeSquares, square)
+      .filter((s) => s.claimant_first_name || s.claimant_last_name)
+      .map((s) => `${s.claimant_first_name || ''} ${s.claimant_last_name || ''}`.trim());
+    const name = names.length > 0 ? names.join(' & ') : `Row ${square.row_index}, Col ${square.col_index}`;
     
     return { name, row: square.row_index, col: square.col_index };
   };
@@ -234,17 +281,46 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
       return;
     }
 
-    setSelectedSquare(square);
+    // Clicking a square toggles it in the cart
+    if (cartSquareIds.includes(square.id)) {
+      setCartSquareIds((ids) => ids.filter((id) => id !== square.id));
+      return;
+    }
+
+    const maxSquares = contest.max_squares_per_person;
+    if (maxSquares && cartSquares.length >= maxSquares) {
+      toast({
+        title: 'Cart Full',
+        description: `You can claim up to ${maxSquares} square${maxSquares > 1 ? 's' : ''} in this contest.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCartSquareIds((ids) => [...ids, square.id]);
+  };
+
+  const handleOpenCart = () => {
+    setClaimMode('cart');
     setIsClaimModalOpen(true);
   };
 
+  const handleOpenQuickPick = () => {
+    setClaimMode('quick_pick');
+    setIsClaimModalOpen(true);
+  };
+
+  const handleRemoveFromCart = (squareId: string) => {
+    setCartSquareIds((ids) => ids.filter((id) => id !== squareId));
+  };
+
   const handleClaimSuccess = () => {
-    // Real-time subscription handles updates automatically
+    // Real-time subscription handles grid updates automatically
+    setCartSquareIds([]);
   };
 
   const handleClaimModalClose = () => {
     setIsClaimModalOpen(false);
-    setSelectedSquare(null);
   };
 
   // Status badge styling
@@ -265,6 +341,10 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
     }
   };
 
+  if (!hasAccess && contest.inviteOnly) {
+    return <InviteOnlyNotice contestName={contest.name} linkInvalid={searchParams.get('invite') === 'invalid'} />;
+  }
+
   // Show PIN modal if needed
   if (showPinModal) {
     return (
@@ -401,15 +481,21 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
 
             {/* Claiming Instructions */}
             {contest.status === 'open' && (
-              <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-green-500/50 bg-green-500/10 p-4">
                 <p className="text-green-400">
-                  ✨ Click on any available square to claim it!
+                  ✨ Tap available squares to add them to your cart, then claim them all at once!
                   {contest.max_squares_per_person && (
                     <span className="ml-2 text-green-300">
                       (Limit: {contest.max_squares_per_person} square{contest.max_squares_per_person > 1 ? 's' : ''} per person)
                     </span>
                   )}
                 </p>
+                {availableCount > 0 && (
+                  <Button variant="outline" size="sm" onClick={handleOpenQuickPick} className="flex-shrink-0">
+                    <Shuffle className="mr-2 h-4 w-4" />
+                    Quick Pick
+                  </Button>
+                )}
               </div>
             )}
 
@@ -425,8 +511,39 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                 rowNumbers={contest.row_numbers}
                 colNumbers={contest.col_numbers}
                 winningSquareIds={winningSquareIds}
+                selectedSquareIds={cartSquares.map((square) => square.id)}
+                gridLayout={contest.grid_layout}
+                periodNumbers={periodNumbers}
               />
             </div>
+
+            {/* Cart */}
+            {contest.status === 'open' && cartSquares.length > 0 && (
+              <div className="sticky bottom-4 z-20 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-orange-500/50 bg-zinc-900/95 p-4 shadow-lg backdrop-blur">
+                <div className="flex items-center gap-3">
+                  <ShoppingCart className="h-5 w-5 text-orange-400" />
+                  <div>
+                    <p className="font-medium text-white">
+                      {cartSquares.length} square{cartSquares.length > 1 ? 's' : ''} selected
+                    </p>
+                    <p className="text-sm text-zinc-400">
+                      Total due:{' '}
+                      <span className="font-semibold text-orange-400">
+                        ${contest.square_price * cartSquares.length}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setCartSquareIds([])}>
+                    Clear
+                  </Button>
+                  <Button variant="orange" onClick={handleOpenCart}>
+                    Review &amp; Claim
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Right Sidebar: Payouts/Winners + Ad */}
@@ -446,6 +563,19 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                     share now
                   </button>
                 </p>
+                {contest.organization_cut_percent > 0 && (
+                  <p className="text-xs text-zinc-500 mb-2">
+                    Prizes are paid after the organization keeps {contest.organization_cut_percent}% of the pot
+                  </p>
+                )}
+                {isScoreChange && (
+                  <div className="flex items-center justify-between rounded bg-zinc-800 px-3 py-2">
+                    <span className="text-sm text-zinc-300">Every score change</span>
+                    <span className="text-sm font-semibold text-white">
+                      ${contest.score_change_payout.toFixed(2)}
+                    </span>
+                  </div>
+                )}
                 <div className="space-y-2">
                   {payoutList.map((payout) => {
                     const prizeText = contest.prize_type === 'custom' 
@@ -463,10 +593,9 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                         </div>
                       );
                     }
-                    const expectedPot = 100 * contest.square_price;
                     const percent = payout.percent ?? 0;
-                    const expectedPayout = (expectedPot * percent) / 100;
-                    const currentPayout = (totalPot * percent) / 100;
+                    const expectedPayout = getPrizeAmount(expectedPot, percent);
+                    const currentPayout = getPrizeAmount(pot, percent);
                     return (
                       <div
                         key={payout.label}
@@ -477,27 +606,30 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                           <span className="text-sm font-semibold text-white">
                             ${expectedPayout.toFixed(0)}
                           </span>
-                          <span className="text-xs text-zinc-500 ml-1">
-                            (${currentPayout.toFixed(0)} now)
-                          </span>
+                          {showCurrentPot && (
+                            <span className="text-xs text-zinc-500 ml-1">
+                              (${currentPayout.toFixed(0)} now)
+                            </span>
+                          )}
                         </div>
                       </div>
                     );
                   })}
                 </div>
-                {contest.prize_type !== 'custom' && (
+                {contest.prize_type === 'percentage' && (
                   <div className="mt-3 pt-3 border-t border-zinc-700 flex justify-between">
                     <span className="text-sm text-zinc-400">Total Payouts</span>
                     <div className="text-right">
                       {(() => {
-                        const expectedPot = 100 * contest.square_price;
                         const totalPercent = payoutList.reduce((sum, p) => sum + (p.percent || 0), 0);
-                        const expectedTotal = (expectedPot * totalPercent) / 100;
-                        const currentTotal = (totalPot * totalPercent) / 100;
+                        const expectedTotal = getPrizeAmount(expectedPot, totalPercent);
+                        const currentTotal = getPrizeAmount(pot, totalPercent);
                         return (
                           <>
                             <span className="text-sm font-bold text-white">${expectedTotal.toFixed(0)}</span>
-                            <span className="text-xs text-zinc-500 ml-1">(${currentTotal.toFixed(0)} now)</span>
+                            {showCurrentPot && (
+                              <span className="text-xs text-zinc-500 ml-1">(${currentTotal.toFixed(0)} now)</span>
+                            )}
                           </>
                         );
                       })()}
@@ -514,14 +646,73 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                   <Trophy className="h-5 w-5 text-amber-400" />
                   <h2 className="text-lg font-bold text-white">Winners</h2>
                 </div>
+                {isScoreChange ? (
+                  <div className="space-y-3">
+                    {(() => {
+                      const squaresById = new Map(realtimeSquares.map((s) => [s.id, s]));
+                      return getScoringEventPayouts(
+                        scoringEvents,
+                        contest.score_change_payout,
+                        pot.prizePool,
+                        getScoringEventCarryPercent(contest.rollover_policy, squaresById)
+                      ).map(({ event, payout, rolloverOut, runningTotal }) => {
+                        const winnerInfo = event.winning_square_id ? getWinnerInfo(event.winning_square_id) : null;
+                        const rolloverNote = getScoringEventRolloverNote(event, (id) => {
+                          const square = squaresById.get(id);
+                          if (!square?.claimant_first_name) return 'Unclaimed';
+                          return `${square.claimant_first_name} ${square.claimant_last_name || ''}`.trim();
+                        });
+
+                        return (
+                          <div key={event.id} className="rounded-lg bg-zinc-800/50 p-3">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-semibold text-amber-400 text-sm">
+                                #{event.sequence} · {getPeriodLabel(contest.sport_type, event.quarter)}
+                              </span>
+                              <span className="text-sm font-bold text-green-400">${payout.toFixed(2)}</span>
+                            </div>
+                            <p className="text-xs text-zinc-400 mt-1">
+                              {contest.row_team_name} {event.home_score} - {contest.col_team_name}{' '}
+                              {event.away_score}
+                              {event.description && ` · ${event.description}`}
+                            </p>
+                            <div className="mt-1 flex items-center justify-between gap-2">
+                              <span className="text-sm text-white font-medium">
+                                {winnerInfo?.name ?? 'Unclaimed'}
+                              </span>
+                              <span className="text-xs text-zinc-500">
+                                ${runningTotal.toFixed(0)} / ${pot.prizePool.toFixed(0)}
+                              </span>
+                            </div>
+                            {rolloverNote && <p className="mt-1 text-xs text-amber-400">{rolloverNote}</p>}
+                            {rolloverOut > 0 && (
+                              <p className="mt-1 text-xs text-zinc-500">
+                                ${rolloverOut.toFixed(2)} rolls to the next play
+                              </p>
+                            )}
+                          </div>
+                        );
+                      });
+                    })()}
+                  </div>
+                ) : (
                 <div className="space-y-3">
                   {scores
                     .filter((score) => score.winning_square_id)
                     .map((score) => {
                       const winnerInfo = getWinnerInfo(score.winning_square_id!);
-                      const payoutPercent = getPayoutPercent(score.quarter);
-                      const payoutAmount = (totalPot * payoutPercent) / 100;
+                      // The prize includes anything rolled over from earlier unclaimed prizes
+                      const payoutPercent = getPayoutPercent(score.quarter) + Number(score.rollover_in_percent);
+                      const payoutAmount = getPrizeAmount(pot, payoutPercent);
                       const prizeText = getPrizeText(contest.prize_type, score.quarter, contest);
+                      const winnersForScore = scoreWinners.filter((w) => w.score_id === score.id);
+                      const secondaryWinners = winnersForScore.filter((w) => !isPrimaryPayout(w));
+                      const unclaimedPercent = getUnclaimedSharePercent(
+                        winnersForScore,
+                        new Map(realtimeSquares.map((s) => [s.id, s]))
+                      );
+                      const periodIndex = sport.periods.findIndex((p) => p.key === score.quarter);
+                      const nextPeriod = sport.periods[periodIndex + 1];
 
                       return (
                         <div
@@ -530,7 +721,12 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                         >
                           <div className="flex items-center justify-between gap-2">
                             <span className="font-semibold text-amber-400 text-sm">
-                              {quarterDisplayNames[score.quarter]}
+                              {getScoreLabel(
+                                contest.sport_type,
+                                score.quarter,
+                                contest.overtime_rule,
+                                score.went_to_overtime
+                              )}
                             </span>
                             {contest.prize_type === 'custom' && prizeText ? (
                               <span className="text-sm font-bold text-green-400">
@@ -550,10 +746,42 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
                               {winnerInfo.name}
                             </p>
                           )}
+                          {/* Secondary payouts */}
+                          {secondaryWinners.map((winner) => {
+                            const square = realtimeSquares.find((s) => s.id === winner.square_id);
+                            const name = square
+                              ? `${square.claimant_first_name || ''} ${square.claimant_last_name || ''}`.trim() ||
+                                `Row ${square.row_index}, Col ${square.col_index}`
+                              : 'Unclaimed';
+
+                            return (
+                              <div key={winner.id} className="mt-1 flex items-center gap-1.5 text-xs">
+                                <span className="rounded bg-zinc-700 px-1.5 py-0.5 text-zinc-300">
+                                  {getPaidSquareLabel(winner.role, winner.rollover_from_square_id)}
+                                </span>
+                                <span className="text-zinc-200">{name}</span>
+                                {payoutPercent > 0 && (
+                                  <span className="ml-auto text-green-400">
+                                    ${((payoutAmount * winner.share_percent) / 100).toFixed(2)}
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })}
+                          {/* Unclaimed prize handling */}
+                          {payoutPercent > 0 && unclaimedPercent > 0 && (
+                            <p className="mt-1 text-xs text-amber-400">
+                              ${((payoutAmount * unclaimedPercent) / 100).toFixed(2)} unclaimed
+                              {contest.rollover_policy === 'next_period' && nextPeriod
+                                ? `, rolls over to ${nextPeriod.label}`
+                                : ', kept by the fundraiser'}
+                            </p>
+                          )}
                         </div>
                       );
                     })}
                 </div>
+                )}
               </div>
             )}
 
@@ -580,22 +808,24 @@ export function ContestPageClient({ contest, squares, scores, hasAccess, showAds
         <MarketingFooter />
       </div>
 
-      {/* Claim Square Modal */}
-      {selectedSquare && (
-        <ClaimSquareModal
-          isOpen={isClaimModalOpen}
-          onClose={handleClaimModalClose}
-          square={selectedSquare}
-          contestId={contest.id}
-          squarePrice={contest.square_price}
-          maxSquaresPerPerson={contest.max_squares_per_person}
-          paymentOptions={paymentOptions}
-          onSuccess={handleClaimSuccess}
-          enablePlayerTracking={contest.enable_player_tracking}
-          players={(contest.players as Player[]) || []}
-          referredByPlayer={referredByPlayer}
-        />
-      )}
+      {/* Claim Squares Modal (the cart) */}
+      <ClaimSquareModal
+        isOpen={isClaimModalOpen}
+        onClose={handleClaimModalClose}
+        squares={cartSquares}
+        onRemoveSquare={handleRemoveFromCart}
+        mode={claimMode}
+        availableCount={availableCount}
+        contestId={contest.id}
+        squarePrice={contest.square_price}
+        maxSquaresPerPerson={contest.max_squares_per_person}
+        paymentOptions={paymentOptions}
+        cardPaymentsEnabled={cardPaymentsEnabled}
+        onSuccess={handleClaimSuccess}
+        enablePlayerTracking={contest.enable_player_tracking}
+        players={(contest.players as Player[]) || []}
+        referredByPlayer={referredByPlayer}
+      />
 
       {/* Share Modal */}
       <ShareQrModal
@@ -6,12 +6,18 @@ import { Button } from '@/components/ui/button';
 import { hasContestAccess } from '@/features/contests/actions/verify-pin';
 import { requireAuth } from '@/features/contests/middleware/auth-middleware';
 import {
-  getContestPin,
+  getContestAccessPin,
   getPaymentOptionsForContest,
+  getPeriodNumbersForContest,
   getScoresForContest,
+  getScoreWinnersForContest,
+  getScoringEventsForContest,
   getSquaresForContest,
 } from '@/features/contests/queries';
 import { getPublicContestBySlug } from '@/features/contests/queries/get-contest-safe';
+import { maskQuickPickedSquares, toGridPeriodNumbers } from '@/features/contests/utils';
+import { getContestAccessToken } from '@/features/contests/utils/contest-access';
+import { canAcceptCardPayments } from '@/features/square-payments/controllers/get-connected-account';
 import { hasActiveSubscription } from '@/features/subscriptions/has-active-subscription';
 
 import { ContestPageClient } from './contest-page-client';
@@ -41,11 +47,9 @@ export default async function ContestPage({ params }: ContestPageProps) {
     );
   }
 
-  // Fetch access PIN separately (not included in PublicContest for security)
-  const accessPin = await getContestPin(contest.slug);
-
-  // Check if user has access (either no PIN required or valid cookie)
-  const hasAccess = await hasContestAccess(contest.slug, accessPin);
+  // Check if user has access (member, no PIN required, or valid cookie). A visitor who can see
+  // the contest but not its grid needs to enter the PIN, or their invite link if it's invite-only.
+  const hasAccess = await hasContestAccess(contest.id, contest.slug);
 
   // Check if current user is the contest owner
   let isOwner = false;
@@ -57,19 +61,29 @@ export default async function ContestPage({ params }: ContestPageProps) {
     isOwner = false;
   }
 
-  const ownerHasActiveSubscription = await hasActiveSubscription(contest.owner_id);
+  const ownerHasActiveSubscription = await hasActiveSubscription(contest.owner_id, contest.organization_id);
   const showAds = !ownerHasActiveSubscription;
 
+  const cardPaymentsEnabled = await canAcceptCardPayments(contest);
+
+  // The database checks the PIN again before handing over squares
+  const accessToken = await getContestAccessToken(contest.slug);
+
   // Fetch squares, payment options, and scores only when access is granted
-  const [squares, paymentOptions, scores] = hasAccess
+  const [squares, paymentOptions, scores, scoreWinners, scoringEvents, periodNumbers] = hasAccess
     ? await Promise.all([
-        getSquaresForContest(contest.id),
+        getSquaresForContest(contest.id, accessToken),
         getPaymentOptionsForContest(contest.id),
         getScoresForContest(contest.id),
+        getScoreWinnersForContest(contest.id),
+        getScoringEventsForContest(contest.id),
+        getPeriodNumbersForContest(contest.id),
       ])
-    : [[], [], []];
+    : [[], [], [], [], [], []];
 
   // Only include access_pin for contest owners (for share modal)
+  const accessPin = isOwner ? ((await getContestAccessPin(contest.id))?.access_pin ?? null) : null;
+
   const contestForClient = {
     id: contest.id,
     name: contest.name,
@@ -80,14 +94,18 @@ export default async function ContestPage({ params }: ContestPageProps) {
     row_team_name: contest.row_team_name,
     col_team_name: contest.col_team_name,
     square_price: contest.square_price,
+    grid_layout: contest.grid_layout,
+    pot_basis: contest.pot_basis,
+    organization_cut_percent: contest.organization_cut_percent,
     max_squares_per_person: contest.max_squares_per_person,
     primary_color: contest.primary_color ?? '#F97316',
     secondary_color: contest.secondary_color ?? '#D97706',
     hero_image_url: contest.hero_image_url,
     hero_image_position: contest.hero_image_position,
     org_image_url: contest.org_image_url,
-    requiresPin: Boolean(accessPin),
-    access_pin: isOwner ? accessPin : null,
+    requiresPin: !hasAccess && !contest.invite_only,
+    inviteOnly: contest.invite_only,
+    access_pin: accessPin,
     row_numbers: contest.row_numbers,
     col_numbers: contest.col_numbers,
     // Payout percentages for winner display
@@ -102,26 +120,38 @@ export default async function ContestPage({ params }: ContestPageProps) {
     payout_game5_percent: contest.payout_game5_percent,
     payout_game6_percent: contest.payout_game6_percent,
     payout_game7_percent: contest.payout_game7_percent,
+    payout_ot_percent: contest.payout_ot_percent,
     // Prize settings
     prize_type: contest.prize_type,
     prize_q1_text: contest.prize_q1_text,
     prize_q2_text: contest.prize_q2_text,
     prize_q3_text: contest.prize_q3_text,
     prize_final_text: contest.prize_final_text,
+    prize_ot_text: contest.prize_ot_text,
+    score_change_payout: Number(contest.score_change_payout),
+    rollover_policy: contest.rollover_policy,
+    overtime_rule: contest.overtime_rule,
     // Player tracking
     enable_player_tracking: contest.enable_player_tracking,
     players: contest.players,
+    hide_quick_pick_locations: contest.hide_quick_pick_locations,
   };
 
   return (
     <Suspense fallback={<PageLoader />}>
       <ContestPageClient
         contest={contestForClient}
-        squares={squares}
+        squares={maskQuickPickedSquares(contest, squares)}
         scores={scores}
+        scoreWinners={scoreWinners}
+        scoringEvents={scoringEvents}
+        periodNumbers={
+          contest.redraw_numbers_each_period ? toGridPeriodNumbers(contest.sport_type, periodNumbers, contest.overtime_rule) : undefined
+        }
         hasAccess={hasAccess}
         showAds={showAds}
         paymentOptions={paymentOptions}
+        cardPaymentsEnabled={cardPaymentsEnabled}
       />
     </Suspense>
   );
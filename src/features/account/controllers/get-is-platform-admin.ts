@@ -0,0 +1,18 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { logger } from '@/utils/logger';
+
+/**
+ * Whether the signed-in user is Fundwell staff (granted in the platform_admins table).
+ */
+export async function getIsPlatformAdmin(): Promise<boolean> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc('is_platform_admin');
+
+  if (error) {
+    logger.error('get-is-platform-admin', error);
+    return false;
+  }
+
+  return data === true;
+}
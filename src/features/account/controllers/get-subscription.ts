@@ -1,14 +1,22 @@
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { logger } from '@/utils/logger';
 
-export async function getSubscription() {
+/**
+ * The active subscription for a workspace: the organization's when an organizationId is
+ * given, otherwise the user's personal subscription.
+ */
+export async function getSubscription(organizationId: string | null = null) {
   const supabase = await createSupabaseServerClient();
 
-  const { data, error } = await supabase
+  const query = supabase
     .from('subscriptions')
     .select('*, prices(*, products(*))')
-    .in('status', ['trialing', 'active'])
-    .maybeSingle();
+    .in('status', ['trialing', 'active']);
+
+  const { data, error } = await (organizationId
+    ? query.eq('organization_id', organizationId)
+    : query.is('organization_id', null)
+  ).maybeSingle();
 
   if (error) {
     logger.error('get-subscription', error);
@@ -33,6 +33,8 @@ export async function upsertUserSubscription({
   const subscriptionData: Database['public']['Tables']['subscriptions']['Insert'] = {
     id: subscription.id,
     user_id: userId,
+    // Set by createCheckoutAction when bought from an organization workspace
+    organization_id: subscription.metadata.organization_id || null,
     metadata: subscription.metadata,
     status: subscription.status,
     price_id: subscription.items.data[0].price.id,
@@ -4,11 +4,28 @@ import { redirect } from 'next/navigation';
 
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import type { ActionResponse } from '@/types/action-response';
+import { getClientIp } from '@/utils/get-client-ip';
 import { getURL } from '@/utils/get-url';
 import { logger } from '@/utils/logger';
+import { checkRateLimits } from '@/utils/rate-limit';
 
 import { getUserFriendlyErrorMessage } from './auth-error-types';
 
+const MAGIC_LINK_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Magic links send email, so they're limited per address (on top of Supabase's own limit) and
+ * per IP, so one client can't mail a list of addresses. Sign-in and resend share the budget.
+ */
+async function checkMagicLinkRateLimit(email: string) {
+  const ip = await getClientIp();
+
+  return checkRateLimits([
+    ip ? { key: `magic-link:ip:${ip}`, maxRequests: 20, windowMs: MAGIC_LINK_WINDOW_MS } : null,
+    { key: `magic-link:email:${email.trim().toLowerCase()}`, maxRequests: 5, windowMs: MAGIC_LINK_WINDOW_MS },
+  ]);
+}
+
 export async function signInWithOAuth(
   provider: 'google',
   redirectTo?: string | null
@@ -39,6 +56,12 @@ export async function signInWithEmail(
   email: string,
   redirectTo?: string | null
 ): Promise<ActionResponse<{ email: string }>> {
+  const rateLimit = await checkMagicLinkRateLimit(email);
+  if (!rateLimit.success) {
+    const friendlyError = getUserFriendlyErrorMessage({ code: 'rate_limit_exceeded' });
+    return { data: null, error: { message: friendlyError.message, code: friendlyError.type } };
+  }
+
   const supabase = await createSupabaseServerClient();
 
   const callbackUrl = redirectTo
@@ -78,6 +101,12 @@ export async function resendMagicLink(
   email: string,
   redirectTo?: string | null
 ): Promise<ActionResponse> {
+  const rateLimit = await checkMagicLinkRateLimit(email);
+  if (!rateLimit.success) {
+    const friendlyError = getUserFriendlyErrorMessage({ code: 'rate_limit_exceeded' });
+    return { data: null, error: { message: friendlyError.message, code: friendlyError.type } };
+  }
+
   const supabase = await createSupabaseServerClient();
 
   const callbackUrl = redirectTo
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { FakeSupabase } from '@/test/fake-supabase';
+
+import { addScoringEvents } from './add-scoring-events';
+
+const db = new FakeSupabase();
+
+vi.mock('../middleware/auth-middleware', () => ({
+  withContestPermission:
+    (contestId: string, _permission: string, action: (...args: unknown[]) => Promise<unknown>) => async () => {
+      const contest = db.table('contests').find((row) => row.id === contestId);
+      try {
+        return { data: await action({ id: 'owner-1' }, db, contest, 'owner'), error: null };
+      } catch (error) {
+        return { data: null, error: { message: (error as Error).message } };
+      }
+    },
+}));
+
+vi.mock('@/features/emails/send-email-safe', () => ({
+  sendEmailSafe: vi.fn(async () => true),
+}));
+
+const CONTEST_ID = 'contest-1';
+const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+function seedContest(overtimeRule: string) {
+  db.table('contests').push({
+    id: CONTEST_ID,
+    name: 'Scoring Play Squares',
+    slug: 'scoring-plays',
+    row_team_name: 'Chiefs',
+    col_team_name: 'Eagles',
+    sport_type: 'football',
+    overtime_rule: overtimeRule,
+    prize_type: 'score_change',
+    score_change_payout: 25,
+    status: 'in_progress',
+    row_numbers: DIGITS,
+    col_numbers: DIGITS,
+    redraw_numbers_each_period: false,
+    grid_layout: 'standard',
+    rollover_policy: 'house',
+    pot_basis: 'all',
+    square_price: 10,
+    organization_cut_percent: 0,
+  });
+
+  for (const row of DIGITS) {
+    for (const col of DIGITS) {
+      db.table('squares').push({
+        id: `square-${row}-${col}`,
+        contest_id: CONTEST_ID,
+        row_index: row,
+        col_index: col,
+        share_index: 0,
+        payment_status: 'paid',
+        claimant_first_name: 'Pat',
+        claimant_email: 'pat@example.com',
+      });
+    }
+  }
+}
+
+describe('addScoringEvents', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('records a scoring play in overtime under the separate OT rule', async () => {
+    seedContest('separate_ot');
+
+    const result = await addScoringEvents(CONTEST_ID, [{ quarter: 'ot', homeScore: 27, awayScore: 24 }]);
+
+    expect(result?.error).toBeNull();
+    expect(db.table('scoring_events')).toEqual([
+      expect.objectContaining({ quarter: 'ot', sequence: 1, winning_square_id: 'square-7-4' }),
+    ]);
+    expect(db.table('scoring_event_winners')).toEqual([
+      expect.objectContaining({ square_id: 'square-7-4', share_percent: 100 }),
+    ]);
+  });
+
+  it('rejects an OT period when overtime counts toward the final', async () => {
+    seedContest('final_includes_ot');
+
+    const result = await addScoringEvents(CONTEST_ID, [{ quarter: 'ot', homeScore: 27, awayScore: 24 }]);
+
+    expect(result?.error?.message).toBe(ContestErrors.INVALID_SCORING_EVENT);
+    expect(db.table('scoring_events')).toHaveLength(0);
+  });
+});
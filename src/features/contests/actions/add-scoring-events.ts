@@ -0,0 +1,230 @@
+'use server';
+
+import { ContestStatus, getPeriod, getPeriodLabel, getSport } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { winnerEmail } from '@/features/emails/templates/winner-email';
+import { ActionResponse } from '@/types/action-response';
+import { getURL } from '@/utils/get-url';
+
+import { withContestPermission } from '../middleware/auth-middleware';
+import { GameQuarter, ScoringEventWithWinners } from '../types';
+import {
+  applyRolloverPolicy,
+  calculatePot,
+  changesScore,
+  findWinningCell,
+  getNumbersForPeriod,
+  getScoringEventCarryPercent,
+  getScoringEventPayouts,
+  getSquaresAtCell,
+  getWinningSquares,
+} from '../utils';
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+interface ScoringEventInput {
+  quarter: GameQuarter;
+  homeScore: number;
+  awayScore: number;
+  description?: string | null;
+}
+
+interface AddScoringEventsResult {
+  events: ScoringEventWithWinners[];
+}
+
+function isValidScore(score: number): boolean {
+  return Number.isInteger(score) && score >= 0;
+}
+
+/**
+ * Records scoring events for a score-change contest, in order, after any already entered.
+ * Each event's winning square is picked from the new score's digits, shares won by unclaimed
+ * squares follow the contest's rollover policy, and the winners are emailed.
+ */
+export async function addScoringEvents(
+  contestId: string,
+  events: ScoringEventInput[]
+): Promise<ActionResponse<AddScoringEventsResult>> {
+  return withContestPermission<AddScoringEventsResult>(contestId, 'enter_scores', async (user, supabase, contest) => {
+    if (contest.prize_type !== 'score_change') {
+      throw new Error(ContestErrors.NOT_SCORE_CHANGE);
+    }
+
+    if (contest.status !== ContestStatus.IN_PROGRESS) {
+      throw new Error(ContestErrors.SCORES_ONLY_IN_PROGRESS);
+    }
+
+    if (!contest.row_numbers || !contest.col_numbers) {
+      throw new Error(ContestErrors.NUMBERS_REQUIRED);
+    }
+
+    // Under the separate_ot rule, plays in overtime are entered in the OT period
+    const sport = getSport(contest.sport_type, contest.overtime_rule);
+    const isValid = (event: ScoringEventInput) =>
+      getPeriod(sport.type, event.quarter, contest.overtime_rule) &&
+      isValidScore(event.homeScore) &&
+      isValidScore(event.awayScore) &&
+      (event.description ?? '').length <= MAX_DESCRIPTION_LENGTH;
+
+    if (events.length === 0 || !events.every(isValid)) {
+      throw new Error(ContestErrors.INVALID_SCORING_EVENT);
+    }
+
+    const { data: squares, error: squaresError } = await supabase
+      .from('squares')
+      .select('id, row_index, col_index, share_index, payment_status, claimant_first_name, claimant_email')
+      .eq('contest_id', contestId);
+
+    if (squaresError) {
+      throw new Error('Failed to fetch squares');
+    }
+
+    // Contests that redraw numbers every period pick each winner with that period's numbers
+    let periodNumbers: { quarter: GameQuarter; row_numbers: number[]; col_numbers: number[] }[] = [];
+    if (contest.redraw_numbers_each_period) {
+      const { data, error: periodNumbersError } = await supabase
+        .from('period_numbers')
+        .select('quarter, row_numbers, col_numbers')
+        .eq('contest_id', contestId);
+
+      if (periodNumbersError) {
+        throw new Error('Failed to fetch period numbers');
+      }
+      periodNumbers = data ?? [];
+    }
+
+    if (events.some((event) => !getNumbersForPeriod(contest, periodNumbers, event.quarter))) {
+      throw new Error(ContestErrors.PERIOD_NUMBERS_REQUIRED);
+    }
+
+    // New events continue the sequence after the last one entered
+    const { data: existingEvents, error: existingError } = await supabase
+      .from('scoring_events')
+      .select('id, sequence, home_score, away_score, winners:scoring_event_winners(*)')
+      .eq('contest_id', contestId)
+      .order('sequence');
+
+    if (existingError) {
+      throw new Error('Failed to fetch scoring events');
+    }
+
+    const lastEvent = existingEvents?.[existingEvents.length - 1];
+    const lastSequence = lastEvent?.sequence ?? 0;
+
+    // A play that leaves the score where it was isn't a scoring play
+    let previous = lastEvent ? { homeScore: lastEvent.home_score, awayScore: lastEvent.away_score } : null;
+    for (const event of events) {
+      if (!changesScore(event, previous)) {
+        throw new Error(ContestErrors.SCORING_EVENT_UNCHANGED);
+      }
+      previous = event;
+    }
+
+    const rows = events.map((event, index) => {
+      const numbers = getNumbersForPeriod(contest, periodNumbers, event.quarter)!;
+      const cell = findWinningCell(
+        numbers.rowNumbers,
+        numbers.colNumbers,
+        sport.scoreDigit(event.homeScore),
+        sport.scoreDigit(event.awayScore),
+        contest.grid_layout
+      );
+      // A cell sold in halves has two squares; the first half identifies the cell on the event.
+      const cellSquares = cell ? getSquaresAtCell(squares ?? [], cell.rowIndex, cell.colIndex) : [];
+
+      return {
+        contest_id: contestId,
+        sequence: lastSequence + index + 1,
+        quarter: event.quarter,
+        home_score: event.homeScore,
+        away_score: event.awayScore,
+        description: event.description?.trim() || null,
+        winning_square_id: cellSquares[0]?.id ?? null,
+      };
+    });
+
+    const { data: insertedEvents, error: insertError } = await supabase.from('scoring_events').insert(rows).select('*');
+
+    if (insertError || !insertedEvents) {
+      throw new Error('Failed to save scoring events');
+    }
+
+    const squaresById = new Map((squares ?? []).map((sq) => [sq.id, sq]));
+
+    // Owners of a cell sold in halves split the event's payout; shares won by unclaimed squares
+    // go where the contest's rollover policy sends them
+    const winnerRows = insertedEvents.flatMap((event) => {
+      const winningSquare = event.winning_square_id ? squaresById.get(event.winning_square_id) : undefined;
+      if (!winningSquare) return [];
+
+      const winningSquares = getWinningSquares(
+        squares ?? [],
+        [{ role: 'primary', rowIndex: winningSquare.row_index, colIndex: winningSquare.col_index, sharePercent: 100 }],
+        contest.grid_layout
+      );
+      const { winners } = applyRolloverPolicy(contest.rollover_policy, winningSquares, squares ?? []);
+
+      return winners.map((w) => ({
+        scoring_event_id: event.id,
+        contest_id: contestId,
+        square_id: w.square.id,
+        share_percent: Math.round(w.sharePercent * 1000) / 1000,
+        rollover_from_square_id: w.rolloverFromSquareId,
+      }));
+    });
+
+    const { data: savedWinners, error: winnersError } = winnerRows.length
+      ? await supabase.from('scoring_event_winners').insert(winnerRows).select('*')
+      : { data: [], error: null };
+
+    if (winnersError || !savedWinners) {
+      throw new Error('Failed to save scoring event winners');
+    }
+
+    const savedEvents: ScoringEventWithWinners[] = insertedEvents.map((event) => ({
+      ...event,
+      winners: savedWinners.filter((w) => w.scoring_event_id === event.id),
+    }));
+
+    // Each event pays a fixed amount until the prize pool runs out
+    const pot = calculatePot(contest, squares ?? []);
+    const payouts = getScoringEventPayouts(
+      [...(existingEvents ?? []), ...savedEvents],
+      Number(contest.score_change_payout),
+      pot.prizePool,
+      getScoringEventCarryPercent(contest.rollover_policy, squaresById)
+    );
+    const payoutBySequence = new Map(payouts.map((p) => [p.event.sequence, p.payout]));
+
+    for (const event of savedEvents) {
+      const payout = payoutBySequence.get(event.sequence) ?? 0;
+
+      for (const winner of event.winners) {
+        const square = squaresById.get(winner.square_id);
+        if (!square?.claimant_email) continue;
+
+        sendEmailSafe({
+          to: square.claimant_email,
+          template: winnerEmail({
+            participantName: square.claimant_first_name || 'Winner',
+            contestName: contest.name,
+            quarterName: `Scoring Play #${event.sequence} (${getPeriodLabel(sport.type, event.quarter, contest.overtime_rule)})`,
+            homeTeamName: contest.row_team_name,
+            awayTeamName: contest.col_team_name,
+            homeScore: event.home_score,
+            awayScore: event.away_score,
+            prizeAmount: (payout * winner.share_percent) / 100,
+            contestUrl: `${getURL()}/contest/${contest.slug}`,
+          }),
+          contestId,
+          squareIds: [square.id],
+          emailType: 'winner_notification',
+        });
+      }
+    }
+
+    return { events: savedEvents };
+  })();
+}
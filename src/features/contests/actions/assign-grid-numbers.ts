@@ -1,15 +1,21 @@
 'use server'
 
-import { ContestStatus } from '@/features/contests/constants';
+import { ContestStatus, getGridLayout, getPeriod } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
 import { ActionResponse } from '@/types/action-response';
+import { getCurrentISOString } from '@/utils/date-formatters';
 
-import { withContestOwnership } from '../middleware/auth-middleware';
+import { withContestPermission } from '../middleware/auth-middleware';
+import { GameQuarter } from '../types';
+import { getLatestPeriodNumbers, shuffleDigits } from '../utils';
 
 interface AssignGridNumbersParams {
   contestId: string;
   rowNumbers: number[] | null;
   colNumbers: number[] | null;
   autoGenerate: boolean;
+  /** Period to draw for; required when the contest redraws numbers every period */
+  quarter?: GameQuarter | null;
 }
 
 interface AssignGridNumbersResult {
@@ -18,15 +24,6 @@ interface AssignGridNumbersResult {
   numbersAutoGenerated: boolean;
 }
 
-function shuffleNumbers(): number[] {
-  const nums = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
-  for (let i = nums.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [nums[i], nums[j]] = [nums[j], nums[i]];
-  }
-  return nums;
-}
-
 function isValidNumberArray(arr: number[] | null): arr is number[] {
   if (!arr || arr.length !== 10) return false;
   const sorted = [...arr].sort((a, b) => a - b);
@@ -38,43 +35,97 @@ export async function assignGridNumbers({
   rowNumbers,
   colNumbers,
   autoGenerate,
+  quarter = null,
 }: AssignGridNumbersParams): Promise<ActionResponse<AssignGridNumbersResult>> {
-  return withContestOwnership<AssignGridNumbersResult>(contestId, async (user, supabase, contest) => {
-    // Verify contest status allows number assignment
-    if (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED) {
+  return withContestPermission(contestId, 'manage_settings', async (user, supabase, contest) => {
+    const redrawEachPeriod = contest.redraw_numbers_each_period;
+
+    if (redrawEachPeriod) {
+      // Each period is drawn on its own, so later periods can be drawn while the game is in progress
+      if (!quarter || !getPeriod(contest.sport_type, quarter, contest.overtime_rule)) {
+        throw new Error(ContestErrors.INVALID_PERIOD);
+      }
+      if (contest.status === ContestStatus.COMPLETED) {
+        throw new Error('Cannot assign numbers to a contest that is completed');
+      }
+
+      const { count: scoredCount } = await supabase
+        .from('scores')
+        .select('*', { count: 'exact', head: true })
+        .eq('contest_id', contestId)
+        .eq('quarter', quarter);
+
+      if (scoredCount && scoredCount > 0) {
+        throw new Error(ContestErrors.PERIOD_NUMBERS_LOCKED);
+      }
+    } else if (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED) {
+      // Verify contest status allows number assignment
       throw new Error('Cannot assign numbers to a contest that is in progress or completed');
     }
 
+    const layout = getGridLayout(contest.grid_layout);
+    const perLine = (noun: string) => (layout.digitsPerLine > 1 ? `, ${layout.digitsPerLine} per ${noun}` : '');
+
     let finalRowNumbers: number[];
     let finalColNumbers: number[];
     let numbersAutoGenerated: boolean;
 
     if (autoGenerate) {
-      finalRowNumbers = shuffleNumbers();
-      finalColNumbers = shuffleNumbers();
+      finalRowNumbers = shuffleDigits();
+      finalColNumbers = shuffleDigits();
       numbersAutoGenerated = true;
     } else {
       if (!isValidNumberArray(rowNumbers)) {
-        throw new Error('Row numbers must contain exactly 10 unique digits (0-9)');
+        throw new Error(`Row numbers must contain exactly 10 unique digits (0-9)${perLine('row')}`);
       }
       if (!isValidNumberArray(colNumbers)) {
-        throw new Error('Column numbers must contain exactly 10 unique digits (0-9)');
+        throw new Error(`Column numbers must contain exactly 10 unique digits (0-9)${perLine('column')}`);
       }
       finalRowNumbers = rowNumbers;
       finalColNumbers = colNumbers;
       numbersAutoGenerated = false;
     }
 
+    if (redrawEachPeriod && quarter) {
+      const { error: periodError } = await supabase.from('period_numbers').upsert(
+        {
+          contest_id: contestId,
+          quarter,
+          row_numbers: finalRowNumbers,
+          col_numbers: finalColNumbers,
+          numbers_auto_generated: numbersAutoGenerated,
+          revealed_at: getCurrentISOString(),
+        },
+        { onConflict: 'contest_id,quarter' }
+      );
+
+      if (periodError) {
+        throw new Error(`Failed to assign grid numbers: ${periodError.message}`);
+      }
+    }
+
+    // The contest's numbers follow the latest drawn period when numbers are redrawn every period
+    let contestNumbers = { row_numbers: finalRowNumbers, col_numbers: finalColNumbers };
+    if (redrawEachPeriod) {
+      const { data: periodNumbers } = await supabase
+        .from('period_numbers')
+        .select('quarter, row_numbers, col_numbers')
+        .eq('contest_id', contestId);
+
+      const latest = getLatestPeriodNumbers(contest.sport_type, periodNumbers ?? [], contest.overtime_rule);
+      if (latest) {
+        contestNumbers = { row_numbers: latest.row_numbers, col_numbers: latest.col_numbers };
+      }
+    }
+
     // Update the contest
     const { error: updateError } = await supabase
       .from('contests')
       .update({
-        row_numbers: finalRowNumbers,
-        col_numbers: finalColNumbers,
+        ...contestNumbers,
         numbers_auto_generated: numbersAutoGenerated,
       })
-      .eq('id', contestId)
-      .eq('owner_id', user.id);
+      .eq('id', contestId);
 
     if (updateError) {
       throw new Error(`Failed to assign grid numbers: ${updateError.message}`);
@@ -92,7 +143,7 @@ export async function assignGridNumbers({
             Authorization: `Bearer ${anonKey}`,
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ contestId }),
+          body: JSON.stringify(redrawEachPeriod && quarter ? { contestId, quarter } : { contestId }),
         }).catch(() => {}); // Silently fail
       }
     } catch {
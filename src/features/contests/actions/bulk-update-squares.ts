@@ -5,7 +5,7 @@ import { ContestErrors } from '@/features/contests/constants/error-messages';
 import { ActionResponse } from '@/types/action-response';
 import { getCurrentISOString } from '@/utils/date-formatters';
 
-import { withContestOwnership } from '../middleware/auth-middleware';
+import { ForbiddenError, withContestPermission } from '../middleware/auth-middleware';
 
 interface BulkUpdateSquaresInput {
   contestId: string;
@@ -13,16 +13,24 @@ interface BulkUpdateSquaresInput {
   newStatus: PaymentStatusType;
 }
 
+/**
+ * Marks several squares paid or pending at once. Releasing goes through updateSquareStatus,
+ * which snapshots and clears each claimant so the release can be undone.
+ */
 export async function bulkUpdateSquares({
   contestId,
   squareIds,
   newStatus,
 }: BulkUpdateSquaresInput): Promise<ActionResponse<{ updated: number }>> {
-  return withContestOwnership<{ updated: number }>(contestId, async (user, supabase, contest) => {
+  return withContestPermission<{ updated: number }>(contestId, 'manage_squares', async (user, supabase, contest) => {
     if (squareIds.length === 0) {
       throw new Error(ContestErrors.NO_SQUARES_SELECTED);
     }
 
+    if (newStatus !== PaymentStatus.PAID && newStatus !== PaymentStatus.PENDING) {
+      throw new ForbiddenError(ContestErrors.BULK_RELEASE_NOT_ALLOWED);
+    }
+
     // Build update data based on new status
     const updateData: {
       payment_status: PaymentStatusType;
@@ -34,7 +42,7 @@ export async function bulkUpdateSquares({
     // Set paid_at timestamp when marking as paid
     if (newStatus === PaymentStatus.PAID) {
       updateData.paid_at = getCurrentISOString();
-    } else if (newStatus === PaymentStatus.PENDING) {
+    } else {
       updateData.paid_at = null;
     }
 
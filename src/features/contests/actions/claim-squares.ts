@@ -0,0 +1,127 @@
+'use server';
+
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import {
+  ClaimedSquare,
+  getClaimErrorMessage,
+  notifySquaresClaimed,
+} from '@/features/contests/controllers/notify-squares-claimed';
+import { getContestAccessToken } from '@/features/contests/utils/contest-access';
+import { checkClaimRateLimit } from '@/features/contests/utils/rate-limits';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { ActionResponse } from '@/types/action-response';
+import { sanitizeEmail } from '@/utils/email-validator';
+import { logger } from '@/utils/logger';
+
+interface ClaimSquaresInput {
+  squareIds: string[];
+  contestId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  venmoHandle?: string;
+  referredBySlug?: string;
+}
+
+/**
+ * Claims every square in a participant's cart in one transaction: either all of them are
+ * claimed or none are. The per-person limit counts the whole cart, and a single confirmation
+ * email lists every square with the total due.
+ */
+export async function claimSquares(input: ClaimSquaresInput): Promise<ActionResponse<{ squares: ClaimedSquare[] }>> {
+  const { contestId, firstName, lastName, email, venmoHandle, referredBySlug } = input;
+  const squareIds = Array.from(new Set(input.squareIds));
+
+  // Validate and sanitize email
+  const sanitizedEmail = sanitizeEmail(email);
+  if (!sanitizedEmail) {
+    return {
+      data: null,
+      error: { message: 'Invalid email address format' },
+    };
+  }
+
+  // Rate limit check
+  const rateLimit = await checkClaimRateLimit(sanitizedEmail);
+  if (!rateLimit.success) {
+    return {
+      data: null,
+      error: { message: ContestErrors.RATE_LIMITED },
+    };
+  }
+
+  // Validate required fields
+  if (!contestId || !firstName || !lastName) {
+    return {
+      data: null,
+      error: { message: ContestErrors.ALL_FIELDS_REQUIRED },
+    };
+  }
+
+  if (squareIds.length === 0) {
+    return {
+      data: null,
+      error: { message: ContestErrors.NO_SQUARES_SELECTED },
+    };
+  }
+
+  const supabase = await createSupabaseServerClient();
+
+  const { data: contest, error: contestError } = await supabase
+    .from('contests')
+    .select(
+      'id, max_squares_per_person, name, slug, row_team_name, col_team_name, square_price, payment_deadline_hours'
+    )
+    .eq('id', contestId)
+    .single();
+
+  if (contestError || !contest) {
+    logger.error('claimSquares', contestError, { contestId });
+    return {
+      data: null,
+      error: { message: ContestErrors.NOT_FOUND },
+    };
+  }
+
+  // Only the service role can run the claim, so pass along who is claiming
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  // Access, status, availability, the per-person limit and the referral are all checked inside the transaction
+  const { data: claimedSquares, error: claimError } = await supabaseAdminClient.rpc('claim_squares', {
+    p_contest_id: contestId,
+    p_square_ids: squareIds,
+    p_first_name: firstName.trim(),
+    p_last_name: lastName.trim(),
+    p_email: sanitizedEmail,
+    p_venmo: venmoHandle?.trim() || undefined,
+    p_referred_by_slug: referredBySlug || undefined,
+    p_access_token: (await getContestAccessToken(contest.slug)) ?? undefined,
+    p_user_id: user?.id,
+    p_user_email: user?.email,
+  });
+
+  if (claimError || !claimedSquares) {
+    const message = claimError && getClaimErrorMessage(claimError, contest, squareIds.length);
+    if (!message) {
+      logger.error('claimSquares', claimError, { contestId, squareIds });
+    }
+
+    return {
+      data: null,
+      error: { message: message ?? ContestErrors.FAILED_TO_CLAIM },
+    };
+  }
+
+  const squares = [...claimedSquares].sort((a, b) => a.row_index - b.row_index || a.col_index - b.col_index);
+
+  // One confirmation email for the whole cart
+  await notifySquaresClaimed({ contest, squares, email: sanitizedEmail, firstName });
+
+  return {
+    data: { squares },
+    error: null,
+  };
+}
@@ -4,11 +4,13 @@ import { redirect } from 'next/navigation';
 import { nanoid } from 'nanoid';
 import slugify from 'slugify';
 
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { Database } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
 import { logger } from '@/utils/logger';
 
+import { ALL_PAYOUT_FIELDS, ALL_PRIZE_TEXT_FIELDS, getSport } from '../constants';
 import { CreateContestInput, createContestSchema } from '../models/contest';
 
 type ContestInsert = Database['public']['Tables']['contests']['Insert'];
@@ -39,6 +41,28 @@ function generateSlug(name: string, uniqueId: string): string {
   return `${baseSlug}-${uniqueId}`;
 }
 
+/**
+ * Maps the sport's payout and prize text form fields to contest columns.
+ * Columns belonging to other sports are zeroed so they can't count toward payout totals.
+ */
+function buildPeriodColumns(data: CreateContestInput): Partial<ContestInsert> {
+  const columns: Partial<ContestInsert> = Object.fromEntries([
+    ...ALL_PAYOUT_FIELDS.map((field) => [field, 0]),
+    ...ALL_PRIZE_TEXT_FIELDS.map((field) => [field, null]),
+  ]);
+
+  for (const period of getSport(data.sportType).periods) {
+    // Score-change contests pay per scoring play instead of per period
+    columns[period.payoutField] = data.prizeType === 'score_change' ? 0 : data[period.payoutFormField];
+    // Prize text fields - only include values when prizeType is 'custom', otherwise null
+    if (period.prizeTextField && period.prizeTextFormField && data.prizeType === 'custom') {
+      columns[period.prizeTextField] = data[period.prizeTextFormField] || null;
+    }
+  }
+
+  return columns;
+}
+
 export async function createContest(input: CreateContestInput, retryCount = 0): Promise<ActionResponse> {
   const supabase = await createSupabaseServerClient();
 
@@ -70,6 +94,10 @@ export async function createContest(input: CreateContestInput, retryCount = 0):
 
   const data = validationResult.data;
 
+  // Contests created while an organization workspace is active belong to the organization
+  const workspace = await getActiveWorkspace(user.id);
+  const organizationId = workspace?.organization.id ?? null;
+
   // Generate unique code and slug
   const uniqueId = nanoid(6);
   const code = generateContestCode();
@@ -78,6 +106,7 @@ export async function createContest(input: CreateContestInput, retryCount = 0):
   // Insert contest into database
   const insertData: ContestInsert = {
     owner_id: user.id,
+    organization_id: organizationId,
     code,
     slug,
     name: data.name,
@@ -87,33 +116,18 @@ export async function createContest(input: CreateContestInput, retryCount = 0):
     col_team_name: data.colTeamName,
     square_price: data.squarePrice,
     max_squares_per_person: data.maxSquaresPerPerson || null,
-    // Football payouts
-    payout_q1_percent: data.payoutQ1Percent,
-    payout_q2_percent: data.payoutQ2Percent,
-    payout_q3_percent: data.payoutQ3Percent,
-    payout_final_percent: data.payoutFinalPercent,
-    // Baseball payouts
-    payout_game1_percent: data.payoutGame1Percent,
-    payout_game2_percent: data.payoutGame2Percent,
-    payout_game3_percent: data.payoutGame3Percent,
-    payout_game4_percent: data.payoutGame4Percent,
-    payout_game5_percent: data.payoutGame5Percent,
-    payout_game6_percent: data.payoutGame6Percent,
-    payout_game7_percent: data.payoutGame7Percent,
+    grid_layout: data.gridLayout,
+    redraw_numbers_each_period: data.redrawNumbersEachPeriod,
+    // Only the selected sport's periods carry payouts
+    ...buildPeriodColumns(data),
     hero_image_url: data.heroImageUrl || null,
     hero_image_position: data.heroImagePosition,
     org_image_url: data.orgImageUrl || null,
     primary_color: data.primaryColor,
     secondary_color: data.secondaryColor,
-    // Access control - only save PIN if requirePin is true
-    access_pin: data.requirePin ? data.accessPin : null,
     // Prize settings
     prize_type: data.prizeType,
-    // Prize text fields - only include values when prizeType is 'custom', otherwise null
-    prize_q1_text: data.prizeType === 'custom' ? (data.prizeQ1Text || null) : null,
-    prize_q2_text: data.prizeType === 'custom' ? (data.prizeQ2Text || null) : null,
-    prize_q3_text: data.prizeType === 'custom' ? (data.prizeQ3Text || null) : null,
-    prize_final_text: data.prizeType === 'custom' ? (data.prizeFinalText || null) : null,
+    score_change_payout: data.prizeType === 'score_change' ? data.scoreChangePayout : 0,
     status: 'draft',
   };
 
@@ -143,6 +157,41 @@ export async function createContest(input: CreateContestInput, retryCount = 0):
     };
   }
 
+  // Access control - only save PIN if requirePin is true
+  if (data.requirePin && data.accessPin) {
+    const { error: pinError } = await supabase
+      .from('contest_access_pins')
+      .insert({ contest_id: contest.id, access_pin: data.accessPin.toUpperCase() });
+
+    // A contest that was meant to be private must not go out without its PIN
+    if (pinError) {
+      logger.error('createContest', pinError, { contestId: contest.id });
+      await supabase.from('contests').delete().eq('id', contest.id);
+      return {
+        data: null,
+        error: { message: 'Failed to create contest. Please try again.' },
+      };
+    }
+  }
+
+  // Start with the organization's shared payment options
+  if (organizationId) {
+    const { data: paymentOptions } = await supabase
+      .from('organization_payment_options')
+      .select('type, handle_or_link, display_name, instructions, account_last_4_digits, qr_code_url, sort_order')
+      .eq('organization_id', organizationId);
+
+    if (paymentOptions && paymentOptions.length > 0) {
+      const { error: paymentOptionsError } = await supabase
+        .from('payment_options')
+        .insert(paymentOptions.map((option) => ({ ...option, contest_id: contest.id })));
+
+      if (paymentOptionsError) {
+        logger.error('createContest', paymentOptionsError, { contestId: contest.id, organizationId });
+      }
+    }
+  }
+
   // Redirect to the new contest's management page
   redirect(`/dashboard/${contest.id}`);
 }
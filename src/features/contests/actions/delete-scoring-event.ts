@@ -0,0 +1,36 @@
+'use server';
+
+import { ContestStatus } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { ActionResponse } from '@/types/action-response';
+
+import { withContestPermission } from '../middleware/auth-middleware';
+
+/**
+ * Removes a scoring event entered by mistake. Later events keep their sequence numbers,
+ * so running payouts are recalculated in order from the events that remain.
+ */
+export async function deleteScoringEvent(contestId: string, eventId: string): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'enter_scores', async (user, supabase, contest) => {
+    if (contest.status !== ContestStatus.IN_PROGRESS) {
+      throw new Error(ContestErrors.SCORES_ONLY_IN_PROGRESS);
+    }
+
+    const { data, error } = await supabase
+      .from('scoring_events')
+      .delete()
+      .eq('id', eventId)
+      .eq('contest_id', contestId)
+      .select('id');
+
+    if (error) {
+      throw new Error(ContestErrors.FAILED_TO_DELETE);
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(ContestErrors.SCORING_EVENT_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
@@ -0,0 +1,28 @@
+'use server';
+
+import { getSquaresForContest, GridSquare } from '@/features/contests/queries/get-squares';
+import { getContestAccessToken } from '@/features/contests/utils/contest-access';
+import { ActionResponse } from '@/types/action-response';
+import { logger } from '@/utils/logger';
+
+/**
+ * Re-reads a contest's grid for live updates. Pass the slug on the public contest page so a
+ * PIN-protected contest can be read with the visitor's access cookie.
+ */
+export async function getContestSquares(
+  contestId: string,
+  contestSlug?: string
+): Promise<ActionResponse<GridSquare[]>> {
+  try {
+    const accessToken = contestSlug ? await getContestAccessToken(contestSlug) : null;
+    const squares = await getSquaresForContest(contestId, accessToken);
+
+    return { data: squares, error: null };
+  } catch (error) {
+    logger.error('getContestSquares', error, { contestId });
+    return {
+      data: null,
+      error: { message: 'Failed to load squares' },
+    };
+  }
+}
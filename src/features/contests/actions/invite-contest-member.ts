@@ -0,0 +1,75 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+
+import { CONTEST_MEMBER_ROLES, CONTEST_ROLES, ContestMemberRole } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { contestInviteEmail } from '@/features/emails/templates/contest-invite-email';
+import { ActionResponse } from '@/types/action-response';
+import { sanitizeEmail } from '@/utils/email-validator';
+import { getURL } from '@/utils/get-url';
+
+import { withContestPermission } from '../middleware/auth-middleware';
+import { ContestMember } from '../types';
+
+interface InviteContestMemberInput {
+  email: string;
+  role: ContestMemberRole;
+}
+
+/**
+ * Invites a co-organizer by email. They join the contest when they sign in with that
+ * address and open the invite link.
+ */
+export async function inviteContestMember(
+  contestId: string,
+  input: InviteContestMemberInput
+): Promise<ActionResponse<ContestMember>> {
+  return withContestPermission<ContestMember>(contestId, 'manage_members', async (user, supabase, contest) => {
+    const email = sanitizeEmail(input.email);
+    if (!email) {
+      throw new Error('Invalid email address format');
+    }
+
+    if (!(CONTEST_MEMBER_ROLES as readonly string[]).includes(input.role)) {
+      throw new Error(ContestErrors.INVALID_MEMBER_ROLE);
+    }
+
+    if (email === user.email?.toLowerCase()) {
+      throw new Error(ContestErrors.MEMBER_IS_OWNER);
+    }
+
+    const { data, error } = await supabase
+      .from('contest_members')
+      .insert({
+        contest_id: contestId,
+        email,
+        role: input.role,
+        invite_token: randomBytes(24).toString('hex'),
+        invited_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.code === '23505' ? ContestErrors.MEMBER_ALREADY_INVITED : 'Failed to invite member');
+    }
+
+    const role = CONTEST_ROLES[data.role];
+    await sendEmailSafe({
+      to: email,
+      template: contestInviteEmail({
+        inviterEmail: user.email ?? 'A contest organizer',
+        contestName: contest.name,
+        roleLabel: role.label,
+        roleDescription: role.description,
+        inviteUrl: getURL(`/dashboard/invites/${data.invite_token}`),
+      }),
+      contestId,
+      emailType: 'contest_invite',
+    });
+
+    return data;
+  })();
+}
@@ -0,0 +1,141 @@
+'use server';
+
+import { ContestErrors, TOO_MANY_INVITEES } from '@/features/contests/constants/error-messages';
+import { ACCESS_LINK_TTL_DAYS, MAX_INVITEES_PER_ADD } from '@/features/contests/constants/invitees';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { contestAccessInviteEmail } from '@/features/emails/templates/contest-access-invite-email';
+import { ActionResponse } from '@/types/action-response';
+import { getURL } from '@/utils/get-url';
+
+import { NotFoundError, withContestPermission } from '../middleware/auth-middleware';
+import { ContestInvitee } from '../types';
+import { createAccessLinkToken } from '../utils/access-links';
+import { parseInviteeEmails } from '../utils/invitees';
+
+interface AddContestInviteesResult {
+  /** Rows created; addresses already on the list are left as they were */
+  invitees: ContestInvitee[];
+  /** Entries that looked like an address but aren't valid */
+  invalid: string[];
+}
+
+/**
+ * Adds email addresses to a contest's invite allowlist from a pasted list or CSV export.
+ * Doesn't email anyone; see sendContestInvites.
+ */
+export async function addContestInvitees(
+  contestId: string,
+  text: string
+): Promise<ActionResponse<AddContestInviteesResult>> {
+  const { emails, invalid } = parseInviteeEmails(text);
+
+  if (emails.length === 0) {
+    return { data: null, error: { message: ContestErrors.NO_INVITEE_EMAILS } };
+  }
+
+  if (emails.length > MAX_INVITEES_PER_ADD) {
+    return { data: null, error: { message: TOO_MANY_INVITEES(MAX_INVITEES_PER_ADD) } };
+  }
+
+  return withContestPermission<AddContestInviteesResult>(contestId, 'manage_settings', async (user, supabase) => {
+    const { data, error } = await supabase
+      .from('contest_invitees')
+      .upsert(
+        emails.map((email) => ({ contest_id: contestId, email, invited_by: user.id })),
+        { onConflict: 'contest_id,email', ignoreDuplicates: true }
+      )
+      .select('*');
+
+    if (error) {
+      throw new Error('Failed to add invitees');
+    }
+
+    return { invitees: data ?? [], invalid };
+  })();
+}
+
+/**
+ * Removes someone from the allowlist. Their access link and cookie stop working right away.
+ */
+export async function removeContestInvitee(contestId: string, inviteeId: string): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_settings', async (user, supabase) => {
+    const { data, error } = await supabase
+      .from('contest_invitees')
+      .delete()
+      .eq('contest_id', contestId)
+      .eq('id', inviteeId)
+      .select('id');
+
+    if (error) {
+      throw new Error('Failed to remove invitee');
+    }
+
+    if (!data || data.length === 0) {
+      throw new NotFoundError(ContestErrors.INVITEE_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
+
+/**
+ * Emails invitees a personal access link. With no ids it sends to everyone who hasn't been
+ * emailed yet; pass ids to resend. Returns the invitees whose email went out.
+ */
+export async function sendContestInvites(
+  contestId: string,
+  inviteeIds?: string[]
+): Promise<ActionResponse<ContestInvitee[]>> {
+  return withContestPermission<ContestInvitee[]>(contestId, 'manage_settings', async (user, supabase, contest) => {
+    let query = supabase.from('contest_invitees').select('*').eq('contest_id', contestId);
+    query = inviteeIds ? query.in('id', inviteeIds) : query.is('last_sent_at', null);
+
+    const { data: invitees, error } = await query;
+
+    if (error) {
+      throw new Error('Failed to load invitees');
+    }
+
+    const sent: ContestInvitee[] = [];
+
+    for (const invitee of invitees ?? []) {
+      const token = createAccessLinkToken(invitee.id);
+      const delivered = await sendEmailSafe({
+        to: invitee.email,
+        template: contestAccessInviteEmail({
+          inviterEmail: user.email ?? 'A contest organizer',
+          contestName: contest.name,
+          rowTeamName: contest.row_team_name,
+          colTeamName: contest.col_team_name,
+          accessUrl: getURL(`/contest/${contest.slug}/access?token=${encodeURIComponent(token)}`),
+          expiresInDays: ACCESS_LINK_TTL_DAYS,
+        }),
+        contestId,
+        emailType: 'contest_access_invite',
+      });
+
+      if (delivered) {
+        sent.push(invitee);
+      }
+    }
+
+    if (sent.length === 0) {
+      return [];
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('contest_invitees')
+      .update({ last_sent_at: new Date().toISOString() })
+      .in(
+        'id',
+        sent.map((invitee) => invitee.id)
+      )
+      .select('*');
+
+    if (updateError) {
+      throw new Error('Failed to record sent invites');
+    }
+
+    return updated ?? [];
+  })();
+}
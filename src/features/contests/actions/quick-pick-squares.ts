@@ -0,0 +1,133 @@
+'use server';
+
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { QUICK_PICK_MAX_SQUARES } from '@/features/contests/constants/quick-pick';
+import {
+  ClaimedSquare,
+  getClaimErrorMessage,
+  notifySquaresClaimed,
+} from '@/features/contests/controllers/notify-squares-claimed';
+import { getContestAccessToken } from '@/features/contests/utils/contest-access';
+import { checkClaimRateLimit } from '@/features/contests/utils/rate-limits';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { ActionResponse } from '@/types/action-response';
+import { sanitizeEmail } from '@/utils/email-validator';
+import { logger } from '@/utils/logger';
+
+interface QuickPickSquaresInput {
+  contestId: string;
+  count: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  venmoHandle?: string;
+  referredBySlug?: string;
+}
+
+/**
+ * Claims `count` random available squares for a participant. The squares are picked and
+ * claimed in one transaction, so two quick picks (or a quick pick and a cart claim) can
+ * never get the same square. When the contest hides quick-pick locations, the positions
+ * are left out of the response until the numbers are drawn.
+ */
+export async function quickPickSquares(
+  input: QuickPickSquaresInput
+): Promise<ActionResponse<{ squareIds: string[]; squares: ClaimedSquare[]; locationsHidden: boolean }>> {
+  const { contestId, count, firstName, lastName, email, venmoHandle, referredBySlug } = input;
+
+  // Validate and sanitize email
+  const sanitizedEmail = sanitizeEmail(email);
+  if (!sanitizedEmail) {
+    return {
+      data: null,
+      error: { message: 'Invalid email address format' },
+    };
+  }
+
+  // Shares the claim rate limit so quick picks can't be used to get around it
+  const rateLimit = await checkClaimRateLimit(sanitizedEmail);
+  if (!rateLimit.success) {
+    return {
+      data: null,
+      error: { message: ContestErrors.RATE_LIMITED },
+    };
+  }
+
+  if (!contestId || !firstName || !lastName) {
+    return {
+      data: null,
+      error: { message: ContestErrors.ALL_FIELDS_REQUIRED },
+    };
+  }
+
+  if (!Number.isInteger(count) || count < 1 || count > QUICK_PICK_MAX_SQUARES) {
+    return {
+      data: null,
+      error: { message: ContestErrors.INVALID_QUICK_PICK_COUNT },
+    };
+  }
+
+  const supabase = await createSupabaseServerClient();
+
+  const { data: contest, error: contestError } = await supabase
+    .from('contests')
+    .select(
+      'id, max_squares_per_person, name, slug, row_team_name, col_team_name, square_price, hide_quick_pick_locations, row_numbers, payment_deadline_hours'
+    )
+    .eq('id', contestId)
+    .single();
+
+  if (contestError || !contest) {
+    logger.error('quickPickSquares', contestError, { contestId });
+    return {
+      data: null,
+      error: { message: ContestErrors.NOT_FOUND },
+    };
+  }
+
+  // Only the service role can run the claim, so pass along who is claiming
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: pickedSquares, error: pickError } = await supabaseAdminClient.rpc('quick_pick_squares', {
+    p_contest_id: contestId,
+    p_count: count,
+    p_first_name: firstName.trim(),
+    p_last_name: lastName.trim(),
+    p_email: sanitizedEmail,
+    p_venmo: venmoHandle?.trim() || undefined,
+    p_referred_by_slug: referredBySlug || undefined,
+    p_access_token: (await getContestAccessToken(contest.slug)) ?? undefined,
+    p_user_id: user?.id,
+    p_user_email: user?.email,
+  });
+
+  if (pickError || !pickedSquares) {
+    const message = pickError && getClaimErrorMessage(pickError, contest, count);
+    if (!message) {
+      logger.error('quickPickSquares', pickError, { contestId, count });
+    }
+
+    return {
+      data: null,
+      error: { message: message ?? ContestErrors.FAILED_TO_CLAIM },
+    };
+  }
+
+  const squares = [...pickedSquares].sort((a, b) => a.row_index - b.row_index || a.col_index - b.col_index);
+  const locationsHidden = contest.hide_quick_pick_locations && contest.row_numbers === null;
+
+  await notifySquaresClaimed({ contest, squares, email: sanitizedEmail, firstName, hideLocations: locationsHidden });
+
+  return {
+    data: {
+      // Ids let the participant pay by card; positions stay secret until the draw
+      squareIds: squares.map((square) => square.id),
+      squares: locationsHidden ? [] : squares,
+      locationsHidden,
+    },
+    error: null,
+  };
+}
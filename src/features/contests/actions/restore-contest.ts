@@ -0,0 +1,75 @@
+'use server';
+
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { canManageOrganization } from '@/features/organizations/constants';
+import { getContestLimit } from '@/features/subscriptions/get-contest-limit';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { ActionResponse } from '@/types/action-response';
+import { logger } from '@/utils/logger';
+
+import { AuthError, requireAuth } from '../middleware/auth-middleware';
+
+// Statuses that count against the workspace's contest limit (see getContestLimit)
+const ACTIVE_STATUSES = ['draft', 'open', 'locked', 'in_progress'];
+
+/**
+ * Moves a contest out of the trash, within CONTEST_TRASH_RETENTION_DAYS of deleting it. The owner
+ * can restore, and so can organization owners and admins for an organization's contests. An
+ * active contest counts against its workspace's contest limit again, so it's checked first.
+ */
+export async function restoreContest(contestId: string): Promise<ActionResponse<null>> {
+  try {
+    const { user, supabase } = await requireAuth();
+
+    // Deleted contests are hidden by RLS
+    const { data: contest } = await supabaseAdminClient
+      .from('contests')
+      .select('owner_id, organization_id, status')
+      .eq('id', contestId)
+      .not('deleted_at', 'is', null)
+      .maybeSingle();
+
+    if (!contest) {
+      return { data: null, error: { message: ContestErrors.RESTORE_EXPIRED } };
+    }
+
+    let canRestore = contest.owner_id === user.id;
+    if (!canRestore && contest.organization_id) {
+      const { data: organizationRole } = await supabase.rpc('get_organization_role', {
+        p_organization_id: contest.organization_id,
+      });
+      canRestore = canManageOrganization(organizationRole);
+    }
+
+    if (!canRestore) {
+      return { data: null, error: { message: ContestErrors.RESTORE_EXPIRED } };
+    }
+
+    if (ACTIVE_STATUSES.includes(contest.status)) {
+      const { canCreate } = await getContestLimit(contest.owner_id, contest.organization_id);
+      if (!canCreate) {
+        return { data: null, error: { message: ContestErrors.RESTORE_LIMIT_REACHED } };
+      }
+    }
+
+    // The database function checks the caller and the trash window again as it restores
+    const { data, error } = await supabase.rpc('restore_contest', { contest_id: contestId });
+
+    if (error) {
+      logger.error('restoreContest', error, { contestId });
+      return { data: null, error: { message: 'Failed to restore contest' } };
+    }
+
+    if (!data) {
+      return { data: null, error: { message: ContestErrors.RESTORE_EXPIRED } };
+    }
+
+    return { data: null, error: null };
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return { data: null, error: { message: error.message } };
+    }
+    logger.error('restoreContest', error);
+    return { data: null, error: { message: 'An unexpected error occurred' } };
+  }
+}
@@ -0,0 +1,72 @@
+'use server';
+
+import { PaymentStatus, SQUARE_RELEASE_UNDO_WINDOW_MINUTES } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { ActionResponse } from '@/types/action-response';
+import { getCurrentISOString } from '@/utils/date-formatters';
+
+import { NotFoundError, withContestPermission } from '../middleware/auth-middleware';
+
+/**
+ * Puts a released square back in its previous claimant's name. Only the square's latest
+ * release can be undone, within SQUARE_RELEASE_UNDO_WINDOW_MINUTES, and only while the
+ * square is still available.
+ */
+export async function undoSquareRelease(contestId: string, releaseId: string): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_squares', async (user, supabase) => {
+    const { data: release } = await supabase
+      .from('square_releases')
+      .select('*')
+      .eq('id', releaseId)
+      .eq('contest_id', contestId)
+      .is('restored_at', null)
+      .maybeSingle();
+
+    const windowMs = SQUARE_RELEASE_UNDO_WINDOW_MINUTES * 60 * 1000;
+    if (!release || Date.now() - new Date(release.released_at).getTime() > windowMs) {
+      throw new NotFoundError(ContestErrors.RELEASE_UNDO_EXPIRED);
+    }
+
+    // A newer release means the square was claimed (and released) again in the meantime
+    const { count: newerReleases } = await supabase
+      .from('square_releases')
+      .select('id', { count: 'exact', head: true })
+      .eq('square_id', release.square_id)
+      .gt('released_at', release.released_at);
+
+    if (newerReleases) {
+      throw new NotFoundError(ContestErrors.SQUARE_RECLAIMED);
+    }
+
+    // Only restore if nobody has claimed the square since
+    const { data: restored, error: restoreError } = await supabase
+      .from('squares')
+      .update({
+        payment_status: release.payment_status,
+        claimant_first_name: release.claimant_first_name,
+        claimant_last_name: release.claimant_last_name,
+        claimant_email: release.claimant_email,
+        claimant_venmo: release.claimant_venmo,
+        claimed_at: release.claimed_at,
+        paid_at: release.paid_at,
+        referred_by: release.referred_by,
+        quick_picked: release.quick_picked,
+      })
+      .eq('id', release.square_id)
+      .eq('contest_id', contestId)
+      .eq('payment_status', PaymentStatus.AVAILABLE)
+      .select('id');
+
+    if (restoreError) {
+      throw new Error(ContestErrors.FAILED_TO_UPDATE);
+    }
+
+    if (!restored || restored.length === 0) {
+      throw new NotFoundError(ContestErrors.SQUARE_RECLAIMED);
+    }
+
+    await supabase.from('square_releases').update({ restored_at: getCurrentISOString() }).eq('id', release.id);
+
+    return null;
+  })();
+}
@@ -0,0 +1,63 @@
+'use server';
+
+import { CONTEST_MEMBER_ROLES, ContestMemberRole } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { ActionResponse } from '@/types/action-response';
+
+import { withContestPermission } from '../middleware/auth-middleware';
+
+/**
+ * Changes a member's role. Takes effect on their next request.
+ */
+export async function updateContestMemberRole(
+  contestId: string,
+  memberId: string,
+  role: ContestMemberRole
+): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_members', async (user, supabase) => {
+    if (!(CONTEST_MEMBER_ROLES as readonly string[]).includes(role)) {
+      throw new Error(ContestErrors.INVALID_MEMBER_ROLE);
+    }
+
+    const { data, error } = await supabase
+      .from('contest_members')
+      .update({ role })
+      .eq('id', memberId)
+      .eq('contest_id', contestId)
+      .select('id');
+
+    if (error) {
+      throw new Error('Failed to update member');
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(ContestErrors.MEMBER_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
+
+/**
+ * Removes a member or cancels a pending invite.
+ */
+export async function removeContestMember(contestId: string, memberId: string): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_members', async (user, supabase) => {
+    const { data, error } = await supabase
+      .from('contest_members')
+      .delete()
+      .eq('id', memberId)
+      .eq('contest_id', contestId)
+      .select('id');
+
+    if (error) {
+      throw new Error(ContestErrors.FAILED_TO_DELETE);
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(ContestErrors.MEMBER_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
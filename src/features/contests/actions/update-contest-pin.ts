@@ -0,0 +1,113 @@
+'use server';
+
+import { randomInt } from 'crypto';
+
+import { ACCESS_PIN_MAX_LENGTH, ACCESS_PIN_MIN_LENGTH } from '@/features/contests/constants/access-pin';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { ActionResponse } from '@/types/action-response';
+
+import { NotFoundError, withContestPermission } from '../middleware/auth-middleware';
+
+// No 0/O or 1/I, so a PIN read aloud or off a flyer is typed right
+const PIN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PIN_LENGTH = ACCESS_PIN_MIN_LENGTH;
+
+function generateAccessPin(): string {
+  let pin = '';
+  for (let i = 0; i < PIN_LENGTH; i++) {
+    pin += PIN_ALPHABET.charAt(randomInt(PIN_ALPHABET.length));
+  }
+  return pin;
+}
+
+interface UpdateContestPinInput {
+  /** null turns the PIN off */
+  accessPin: string | null;
+  /** ISO timestamp after which the PIN stops working, or null for never */
+  expiresAt: string | null;
+}
+
+/**
+ * Sets, changes or removes a contest's access PIN. Changing the PIN signs out everyone who
+ * entered the old one; changing only the expiry keeps them in.
+ */
+export async function updateContestPin(contestId: string, input: UpdateContestPinInput): Promise<ActionResponse<null>> {
+  const accessPin = input.accessPin?.trim().toUpperCase() ?? null;
+
+  if (
+    accessPin !== null &&
+    (!/^[A-Z0-9]+$/.test(accessPin) ||
+      accessPin.length < ACCESS_PIN_MIN_LENGTH ||
+      accessPin.length > ACCESS_PIN_MAX_LENGTH)
+  ) {
+    return { data: null, error: { message: ContestErrors.INVALID_PIN } };
+  }
+
+  if (accessPin !== null && input.expiresAt) {
+    const expiresAt = new Date(input.expiresAt).getTime();
+    if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+      return { data: null, error: { message: ContestErrors.INVALID_PIN_EXPIRY } };
+    }
+  }
+
+  return withContestPermission<null>(contestId, 'manage_settings', async (user, supabase) => {
+    if (accessPin === null) {
+      const { error } = await supabase.from('contest_access_pins').delete().eq('contest_id', contestId);
+
+      if (error) {
+        throw new Error('Failed to remove PIN');
+      }
+
+      return null;
+    }
+
+    // The database issues a new access token when the PIN changes
+    const { error } = await supabase
+      .from('contest_access_pins')
+      .upsert(
+        { contest_id: contestId, access_pin: accessPin, expires_at: input.expiresAt || null },
+        { onConflict: 'contest_id' }
+      );
+
+    if (error) {
+      throw new Error('Failed to update PIN');
+    }
+
+    return null;
+  })();
+}
+
+/**
+ * Replaces a contest's PIN with a new random one, signing out everyone who entered the old
+ * PIN. Use it when the PIN has leaked or after someone was removed from the pool.
+ */
+export async function rotateContestPin(contestId: string): Promise<ActionResponse<{ accessPin: string }>> {
+  return withContestPermission<{ accessPin: string }>(contestId, 'manage_settings', async (user, supabase) => {
+    const { data: current } = await supabase
+      .from('contest_access_pins')
+      .select('access_pin')
+      .eq('contest_id', contestId)
+      .maybeSingle();
+
+    if (!current) {
+      throw new NotFoundError(ContestErrors.NO_PIN);
+    }
+
+    // Only a different PIN gets a new access token
+    let accessPin = generateAccessPin();
+    while (accessPin === current.access_pin) {
+      accessPin = generateAccessPin();
+    }
+
+    const { error } = await supabase
+      .from('contest_access_pins')
+      .update({ access_pin: accessPin })
+      .eq('contest_id', contestId);
+
+    if (error) {
+      throw new Error('Failed to rotate PIN');
+    }
+
+    return { accessPin };
+  })();
+}
@@ -1,12 +1,18 @@
 'use server';
 
-import { ContestStatus } from '@/features/contests/constants';
+import {
+  canChangeContestField,
+  ContestErrors,
+  ContestStatus,
+  MAX_SECONDARY_PAYOUT_PERCENT,
+  SECONDARY_PAYOUT_RULES,
+} from '@/features/contests/constants';
 import type { Contest, ContestUpdate } from '@/features/contests/types';
 import type { Database } from '@/libs/supabase/types';
 import type { ActionResponse } from '@/types/action-response';
 import { SupabaseClient } from '@supabase/supabase-js';
 
-import { withContestOwnership } from '../middleware/auth-middleware';
+import { ForbiddenError, withContestPermission } from '../middleware/auth-middleware';
 
 type SupabaseDb = SupabaseClient<Database>;
 
@@ -33,13 +39,13 @@ async function validateOpenTransition(
     }
   }
 
-  // Opening from draft - payment options required
+  // Opening from draft - payment options required (card payments count as one)
   const { count } = await supabase
     .from('payment_options')
     .select('*', { count: 'exact', head: true })
     .eq('contest_id', contest.id);
 
-  if (!count || count === 0) {
+  if ((!count || count === 0) && !contest.accept_card_payments) {
     return 'Please add payment options before opening the contest';
   }
 
@@ -47,13 +53,18 @@ async function validateOpenTransition(
 }
 
 /**
- * Updates a contest. Only the owner can update their contest.
+ * Updates a contest's settings. Managers can change how it's run; the price, pot and payouts
+ * stay with the owner (see CONTEST_SETTINGS_FIELDS).
  */
 export async function updateContest(
   contestId: string,
   updates: ContestUpdate
 ): Promise<ActionResponse<{ id: string }>> {
-  return withContestOwnership<{ id: string }>(contestId, async (user, supabase, contest) => {
+  return withContestPermission<{ id: string }>(contestId, 'manage_settings', async (user, supabase, contest, role) => {
+    if (Object.keys(updates).some((field) => !canChangeContestField(role, field))) {
+      throw new ForbiddenError(ContestErrors.ROLE_NOT_ALLOWED);
+    }
+
     // Validate status transitions
     if (updates.status === ContestStatus.IN_PROGRESS) {
       const validationError = validateInProgressTransition(contest);
@@ -65,12 +76,68 @@ export async function updateContest(
       if (validationError) throw new Error(validationError);
     }
 
-    // Update contest (RLS ensures only owner can update)
+    // Switching how numbers are drawn would change past winners once the game has started
+    if (
+      updates.redraw_numbers_each_period !== undefined &&
+      updates.redraw_numbers_each_period !== contest.redraw_numbers_each_period &&
+      (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED)
+    ) {
+      throw new Error('Cannot change how numbers are drawn after the game has started');
+    }
+
+    // Scoring plays and period scores are recorded separately, so the payout mode is fixed once play starts
+    const isScoreChangeSwitch =
+      updates.prize_type !== undefined &&
+      updates.prize_type !== contest.prize_type &&
+      (updates.prize_type === 'score_change' || contest.prize_type === 'score_change');
+    if (
+      isScoreChangeSwitch &&
+      (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED)
+    ) {
+      throw new Error('Cannot switch to or from score-change payouts after the game has started');
+    }
+
+    // Unclaimed prizes are settled when each score is saved
+    if (
+      updates.rollover_policy !== undefined &&
+      updates.rollover_policy !== contest.rollover_policy &&
+      (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED)
+    ) {
+      throw new Error('Cannot change the rollover policy after the game has started');
+    }
+
+    // The final may already have been paid on the regulation or overtime score
+    if (
+      updates.overtime_rule !== undefined &&
+      updates.overtime_rule !== contest.overtime_rule &&
+      (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED)
+    ) {
+      throw new Error('Cannot change the overtime rule after the game has started');
+    }
+
+    // Prizes already paid were calculated from the pot settings
+    const changesPot =
+      (updates.pot_basis !== undefined && updates.pot_basis !== contest.pot_basis) ||
+      (updates.organization_cut_percent !== undefined &&
+        updates.organization_cut_percent !== contest.organization_cut_percent);
+    if (changesPot && (contest.status === ContestStatus.IN_PROGRESS || contest.status === ContestStatus.COMPLETED)) {
+      throw new Error('Cannot change how the pot is calculated after the game has started');
+    }
+
+    // Secondary payouts come out of the winning square's share, so they can't take more than half
+    const secondaryPercent = SECONDARY_PAYOUT_RULES.reduce(
+      (sum, rule) => sum + (Number(updates[rule.field] ?? contest[rule.field]) || 0),
+      0
+    );
+    if (secondaryPercent > MAX_SECONDARY_PAYOUT_PERCENT) {
+      throw new Error(`Secondary payouts cannot exceed ${MAX_SECONDARY_PAYOUT_PERCENT}% of a prize`);
+    }
+
+    // Update contest (RLS ensures only the owner and managers can update)
     const { data, error } = await supabase
       .from('contests')
       .update(updates)
       .eq('id', contestId)
-      .eq('owner_id', user.id)
       .select('id')
       .single();
 
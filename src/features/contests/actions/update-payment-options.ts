@@ -1,5 +1,7 @@
 'use server';
 
+import { ContestErrors, hasContestPermission } from '@/features/contests/constants';
+import { getContestRole } from '@/features/contests/middleware/auth-middleware';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { Database } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
@@ -37,10 +39,10 @@ export async function updatePaymentOptions(
     return { data: null, error: { message: 'You must be logged in' } };
   }
 
-  // Verify user owns the contest
+  // Verify user can manage the contest's settings
   const { data: contest, error: contestError } = await supabase
     .from('contests')
-    .select('id, owner_id')
+    .select('id, owner_id, organization_id')
     .eq('id', contestId)
     .single();
 
@@ -48,8 +50,9 @@ export async function updatePaymentOptions(
     return { data: null, error: { message: 'Contest not found' } };
   }
 
-  if (contest.owner_id !== user.id) {
-    return { data: null, error: { message: 'You do not own this contest' } };
+  const role = await getContestRole(supabase, user.id, contest);
+  if (!hasContestPermission(role, 'manage_settings')) {
+    return { data: null, error: { message: ContestErrors.ROLE_NOT_ALLOWED } };
   }
 
   // Delete all existing payment options for this contest
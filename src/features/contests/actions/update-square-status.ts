@@ -4,12 +4,14 @@ import { PaymentStatus, PaymentStatusType } from '@/features/contests/constants'
 import { ContestErrors } from '@/features/contests/constants/error-messages';
 import { sendEmailSafe } from '@/features/emails/send-email-safe';
 import { paymentConfirmedEmail } from '@/features/emails/templates/payment-confirmed-email';
+import { expireReleasedCheckouts } from '@/features/square-payments/controllers/expire-released-checkouts';
 import { Database } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
 import { getCurrentISOString } from '@/utils/date-formatters';
 import { getURL } from '@/utils/get-url';
 
-import { NotFoundError, withContestOwnership } from '../middleware/auth-middleware';
+import { NotFoundError, withContestPermission } from '../middleware/auth-middleware';
+import { isSquareLocationHidden } from '../utils/quick-pick';
 
 interface UpdateSquareStatusInput {
   squareId: string;
@@ -17,15 +19,22 @@ interface UpdateSquareStatusInput {
   newStatus: PaymentStatusType;
 }
 
+interface StatusUpdateResult {
+  success: boolean;
+  /** Set when a claimed square was released; pass to undoSquareRelease */
+  releaseId: string | null;
+}
+
 /**
  * Updates the payment status of a square.
  * Only contest owners can update square status.
- * When setting to 'available', clears all claimant info.
+ * When setting to 'available', snapshots and clears all claimant info (see undoSquareRelease)
+ * and expires the claimant's open card checkout.
  * When setting to 'paid', sets paid_at timestamp.
  */
 export async function updateSquareStatus(
   input: UpdateSquareStatusInput
-): Promise<ActionResponse<{ success: boolean }>> {
+): Promise<ActionResponse<StatusUpdateResult>> {
   const { squareId, contestId, newStatus } = input;
 
   // Validate required fields
@@ -49,11 +58,13 @@ export async function updateSquareStatus(
     };
   }
 
-  return withContestOwnership<{ success: boolean }>(contestId, async (user, supabase, contest) => {
+  return withContestPermission<StatusUpdateResult>(contestId, 'manage_squares', async (user, supabase, contest) => {
     // Verify square belongs to contest
     const { data: square, error: squareError } = await supabase
       .from('squares')
-      .select('id, contest_id, payment_status, claimant_email, claimant_first_name, row_index, col_index')
+      .select(
+        'id, contest_id, payment_status, claimant_email, claimant_first_name, claimant_last_name, claimant_venmo, claimed_at, paid_at, referred_by, quick_picked, row_index, col_index, stripe_checkout_session_id'
+      )
       .eq('id', squareId)
       .eq('contest_id', contestId)
       .single();
@@ -78,6 +89,8 @@ export async function updateSquareStatus(
         claimant_venmo: null,
         claimed_at: null,
         paid_at: null,
+        // A checkout left open by the old claimant must not pay for the next one's square
+        stripe_checkout_session_id: null,
       };
     } else if (newStatus === PaymentStatus.PAID) {
       // Set paid_at timestamp when marking as paid
@@ -93,6 +106,35 @@ export async function updateSquareStatus(
       };
     }
 
+    // Keep the claimant so the release can be undone
+    let releaseId: string | null = null;
+    if (newStatus === PaymentStatus.AVAILABLE && square.payment_status !== PaymentStatus.AVAILABLE) {
+      const { data: release, error: releaseError } = await supabase
+        .from('square_releases')
+        .insert({
+          square_id: square.id,
+          contest_id: contestId,
+          payment_status: square.payment_status,
+          claimant_first_name: square.claimant_first_name,
+          claimant_last_name: square.claimant_last_name,
+          claimant_email: square.claimant_email,
+          claimant_venmo: square.claimant_venmo,
+          claimed_at: square.claimed_at,
+          paid_at: square.paid_at,
+          referred_by: square.referred_by,
+          quick_picked: square.quick_picked,
+          released_by: user.id,
+        })
+        .select('id')
+        .single();
+
+      if (releaseError || !release) {
+        throw new Error(ContestErrors.FAILED_TO_UPDATE);
+      }
+
+      releaseId = release.id;
+    }
+
     // Update the square
     const { error: updateError } = await supabase
       .from('squares')
@@ -104,6 +146,10 @@ export async function updateSquareStatus(
       throw new NotFoundError(ContestErrors.SQUARE_NOT_FOUND);
     }
 
+    if (releaseId) {
+      await expireReleasedCheckouts([square.stripe_checkout_session_id]);
+    }
+
     // Send confirmation email when marking as paid (don't block on failure)
     if (newStatus === PaymentStatus.PAID && square.claimant_email) {
       const contestUrl = `${getURL()}/contest/${contest.slug}`;
@@ -115,16 +161,16 @@ export async function updateSquareStatus(
           contestName: contest.name,
           rowTeamName: contest.row_team_name,
           colTeamName: contest.col_team_name,
-          rowIndex: square.row_index,
-          colIndex: square.col_index,
+          squares: [{ rowIndex: square.row_index, colIndex: square.col_index }],
+          hideLocations: isSquareLocationHidden(contest, square),
           contestUrl,
         }),
         contestId,
-        squareId: square.id,
+        squareIds: [square.id],
         emailType: 'payment_confirmed',
       });
     }
 
-    return { success: true };
+    return { success: true, releaseId };
   })();
 }
@@ -1,5 +1,7 @@
 'use server';
 
+import { ContestErrors } from '@/features/contests/constants';
+import { checkImageUploadRateLimit } from '@/features/contests/utils/rate-limits';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { ActionResponse } from '@/types/action-response';
 import { validateImageFile } from '@/utils/file-validators';
@@ -19,6 +21,11 @@ export async function uploadContestImage(
   const authResult = await requireAuth();
   const { user, supabase } = authResult;
 
+  const rateLimit = await checkImageUploadRateLimit(user.id);
+  if (!rateLimit.success) {
+    return { data: null, error: { message: ContestErrors.RATE_LIMITED } };
+  }
+
   // Get file from form data
   const file = formData.get('file') as File | null;
   const imageType = formData.get('imageType') as ImageType | null;
@@ -1,5 +1,8 @@
 'use server';
 
+import { ContestErrors, hasContestPermission } from '@/features/contests/constants';
+import { getContestRole } from '@/features/contests/middleware/auth-middleware';
+import { checkImageUploadRateLimit } from '@/features/contests/utils/rate-limits';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { ActionResponse } from '@/types/action-response';
 import { validateImageFile } from '@/utils/file-validators';
@@ -24,10 +27,10 @@ export async function uploadPaymentQr(
     return { data: null, error: { message: 'You must be logged in' } };
   }
 
-  // Verify user owns the contest
+  // Verify user can manage the contest's settings
   const { data: contest, error: contestError } = await supabase
     .from('contests')
-    .select('id, owner_id')
+    .select('id, owner_id, organization_id')
     .eq('id', contestId)
     .single();
 
@@ -35,8 +38,14 @@ export async function uploadPaymentQr(
     return { data: null, error: { message: 'Contest not found' } };
   }
 
-  if (contest.owner_id !== user.id) {
-    return { data: null, error: { message: 'You do not own this contest' } };
+  const role = await getContestRole(supabase, user.id, contest);
+  if (!hasContestPermission(role, 'manage_settings')) {
+    return { data: null, error: { message: ContestErrors.ROLE_NOT_ALLOWED } };
+  }
+
+  const rateLimit = await checkImageUploadRateLimit(user.id);
+  if (!rateLimit.success) {
+    return { data: null, error: { message: ContestErrors.RATE_LIMITED } };
   }
 
   const file = formData.get('file') as File | null;
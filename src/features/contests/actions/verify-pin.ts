@@ -1,9 +1,19 @@
 'use server';
 
 import { cookies } from 'next/headers';
-import { createHash, timingSafeEqual } from 'crypto';
 
-import { getContestPin } from '@/features/contests/queries';
+import { ContestErrors, PIN_INCORRECT_WAIT, PIN_LOCKED } from '@/features/contests/constants/error-messages';
+import { formatTimeRemaining } from '@/features/contests/utils';
+import {
+  getContestAccessCookieName,
+  getContestAccessCookieOptions,
+  getContestAccessToken,
+} from '@/features/contests/utils/contest-access';
+import { checkPinRateLimit } from '@/features/contests/utils/rate-limits';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { getClientIp } from '@/utils/get-client-ip';
+import { logger } from '@/utils/logger';
 
 interface VerifyPinInput {
   contestSlug: string;
@@ -17,7 +27,8 @@ interface VerifyPinResponse {
 
 /**
  * Verifies a PIN for accessing a private contest.
- * If successful, sets a cookie to remember access for 7 days.
+ * If successful, sets a cookie to remember access for 7 days. Guesses are counted per contest
+ * and per client in verify_contest_pin, which makes repeat offenders wait longer each time.
  */
 export async function verifyPin(input: VerifyPinInput): Promise<VerifyPinResponse> {
   const { contestSlug, enteredPin } = input;
@@ -29,53 +40,64 @@ export async function verifyPin(input: VerifyPinInput): Promise<VerifyPinRespons
     };
   }
 
-  // Fetch contest access PIN
-  const accessPin = await getContestPin(contestSlug);
-
-  if (accessPin === null) {
+  const rateLimit = await checkPinRateLimit(contestSlug);
+  if (!rateLimit.success) {
     return {
       data: null,
-      error: { message: 'Contest not found' },
+      error: { message: 'Too many attempts. Please wait a few minutes and try again.' },
     };
   }
 
-  // Compare PINs (case-insensitive, timing-safe)
-  const normalizedCorrect = accessPin.toUpperCase();
-  const normalizedEntered = enteredPin.toUpperCase();
-
-  // Convert to buffers for timing-safe comparison
-  const correctBuffer = Buffer.from(normalizedCorrect);
-  const enteredBuffer = Buffer.from(normalizedEntered);
-
-  // Pad shorter buffer to match longer to prevent timing leaks
-  const maxLength = Math.max(correctBuffer.length, enteredBuffer.length);
-  const paddedCorrect = Buffer.alloc(maxLength);
-  const paddedEntered = Buffer.alloc(maxLength);
-  correctBuffer.copy(paddedCorrect, 0);
-  enteredBuffer.copy(paddedEntered, 0);
+  const clientIp = await getClientIp();
+  const { data, error } = await supabaseAdminClient.rpc('verify_contest_pin', {
+    p_slug: contestSlug,
+    p_pin: enteredPin,
+    p_client_ip: clientIp ?? undefined,
+  });
 
-  const isCorrect = timingSafeEqual(paddedCorrect, paddedEntered);
+  const attempt = data?.[0];
 
-  if (!isCorrect) {
+  if (error || !attempt) {
+    logger.error('verifyPin', error, { contestSlug });
     return {
-      data: { success: false },
-      error: { message: 'Incorrect PIN' },
+      data: null,
+      error: { message: 'Failed to verify PIN. Please try again.' },
     };
   }
 
-  // Set access cookie (expires in 7 days)
+  const wait = attempt.retry_at ? formatTimeRemaining(new Date(attempt.retry_at)) : null;
+
+  switch (attempt.result) {
+    case 'ok':
+      break;
+    case 'not_found':
+      return {
+        data: null,
+        error: { message: ContestErrors.NOT_FOUND },
+      };
+    case 'expired':
+      return {
+        data: null,
+        error: { message: ContestErrors.PIN_EXPIRED },
+      };
+    case 'locked':
+      return {
+        data: { success: false },
+        error: { message: PIN_LOCKED(wait ?? '1m') },
+      };
+    default:
+      return {
+        data: { success: false },
+        error: { message: wait ? PIN_INCORRECT_WAIT(wait) : ContestErrors.PIN_INCORRECT },
+      };
+  }
+
+  // Set access cookie (expires in 7 days). It holds the contest's access token, which changes
+  // whenever the PIN does.
   const cookieStore = await cookies();
-  const cookieName = `contest_access_${contestSlug}`;
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-  const pinHash = createHash('sha256').update(accessPin).digest('hex');
-
-  cookieStore.set(cookieName, pinHash, {
-    expires: expiresAt,
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    path: '/',
-  });
+  const cookieName = getContestAccessCookieName(contestSlug);
+
+  cookieStore.set(cookieName, attempt.access_token, getContestAccessCookieOptions());
 
   return {
     data: { success: true },
@@ -84,21 +106,22 @@ export async function verifyPin(input: VerifyPinInput): Promise<VerifyPinRespons
 }
 
 /**
- * Checks if the user has access to a PIN-protected contest.
- * Returns true if no PIN is required or if the user has a valid access cookie.
+ * Checks if the visitor has access to a contest's grid: members always do, everyone else when
+ * the contest has no PIN or their access cookie matches its current, unexpired PIN.
  */
-export async function hasContestAccess(contestSlug: string, accessPin: string | null): Promise<boolean> {
-  // No PIN required - public access
-  if (!accessPin) {
-    return true;
-  }
+export async function hasContestAccess(contestId: string, contestSlug: string): Promise<boolean> {
+  const supabase = await createSupabaseServerClient();
+  const accessToken = await getContestAccessToken(contestSlug);
 
-  // Check for access cookie
-  const cookieStore = await cookies();
-  const cookieName = `contest_access_${contestSlug}`;
-  const accessCookie = cookieStore.get(cookieName);
+  const { data, error } = await supabase.rpc('has_contest_access', {
+    p_contest_id: contestId,
+    p_access_token: accessToken ?? undefined,
+  });
 
-  const pinHash = createHash('sha256').update(accessPin).digest('hex');
+  if (error) {
+    logger.error('hasContestAccess', error, { contestId });
+    return false;
+  }
 
-  return accessCookie?.value === pinHash;
+  return data;
 }
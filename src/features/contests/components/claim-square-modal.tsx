@@ -2,7 +2,7 @@
 
 import { useState, useTransition } from 'react';
 import Image from 'next/image';
-import { Check, Copy, Loader2 } from 'lucide-react';
+import { Check, Copy, CreditCard, Loader2, Shuffle, X } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 
 import { Button } from '@/components/ui/button';
@@ -16,28 +16,41 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { createSquareCheckout } from '@/features/square-payments/actions/create-square-checkout';
 import { logger } from '@/utils/logger';
 import { generatePaymentUrl } from '@/utils/payment-url-generator';
 import { zodResolver } from '@hookform/resolvers/zod';
 
-import { claimSquare } from '../actions/claim-square';
+import { claimSquares } from '../actions/claim-squares';
+import { quickPickSquares } from '../actions/quick-pick-squares';
+import { QUICK_PICK_MAX_SQUARES, QUICK_PICK_PRESETS } from '../constants/quick-pick';
 import { PaymentOption } from '../types';
 import { Player } from '../types/player';
 import { getPaymentConfig } from '../utils/payment-helpers';
 import { ClaimSquareFormData, claimSquareSchema } from '../validation';
 
+interface CartSquare {
+  id: string;
+  row_index: number;
+  col_index: number;
+}
+
 interface ClaimSquareModalProps {
   isOpen: boolean;
   onClose: () => void;
-  square: {
-    id: string;
-    row_index: number;
-    col_index: number;
-  };
+  /** The squares in the participant's cart, claimed together */
+  squares: CartSquare[];
+  onRemoveSquare?: (squareId: string) => void;
+  /** Quick pick assigns random squares instead of claiming the cart */
+  mode?: 'cart' | 'quick_pick';
+  /** Squares still available, the most a quick pick can ask for */
+  availableCount?: number;
   contestId: string;
   squarePrice: number;
   maxSquaresPerPerson?: number | null;
   paymentOptions: PaymentOption[];
+  /** The owner accepts card payments through Stripe */
+  cardPaymentsEnabled?: boolean;
   onSuccess?: () => void;
   enablePlayerTracking?: boolean;
   players?: Player[];
@@ -152,11 +165,15 @@ function PaymentOptionItem({ option }: { option: PaymentOption }) {
 export function ClaimSquareModal({
   isOpen,
   onClose,
-  square,
+  squares,
+  onRemoveSquare,
+  mode = 'cart',
+  availableCount = QUICK_PICK_MAX_SQUARES,
   contestId,
   squarePrice,
   maxSquaresPerPerson,
   paymentOptions,
+  cardPaymentsEnabled,
   onSuccess,
   enablePlayerTracking,
   players,
@@ -165,6 +182,18 @@ export function ClaimSquareModal({
   const [step, setStep] = useState<1 | 2>(1);
   const [isPending, startTransition] = useTransition();
   const [serverError, setServerError] = useState<string | null>(null);
+  const [claimedEmail, setClaimedEmail] = useState('');
+  const [claimedSquareIds, setClaimedSquareIds] = useState<string[]>([]);
+  const [claimedSquares, setClaimedSquares] = useState<CartSquare[]>([]);
+  const [locationsHidden, setLocationsHidden] = useState(false);
+  const [quickPickCount, setQuickPickCount] = useState(1);
+
+  const isQuickPick = mode === 'quick_pick';
+  const requestedCount = isQuickPick ? quickPickCount : squares.length;
+  const maxQuickPick = Math.min(QUICK_PICK_MAX_SQUARES, availableCount, maxSquaresPerPerson ?? QUICK_PICK_MAX_SQUARES);
+  const totalDue = squarePrice * requestedCount;
+  const claimedTotal = squarePrice * claimedSquareIds.length;
+  const isCart = squares.length > 1;
 
   const {
     register,
@@ -186,6 +215,10 @@ export function ClaimSquareModal({
     reset();
     setServerError(null);
     setStep(1);
+    setClaimedSquareIds([]);
+    setClaimedSquares([]);
+    setLocationsHidden(false);
+    setQuickPickCount(1);
     onClose();
   };
 
@@ -194,22 +227,40 @@ export function ClaimSquareModal({
 
     startTransition(async () => {
       try {
-        const result = await claimSquare({
-          squareId: square.id,
+        const participant = {
           contestId,
           firstName: data.firstName,
           lastName: data.lastName,
           email: data.email,
           venmoHandle: data.venmoHandle,
           referredBySlug: referredByPlayer?.slug || data.referredBySlug || undefined,
-        });
+        };
+
+        if (isQuickPick) {
+          const result = await quickPickSquares({ ...participant, count: quickPickCount });
+
+          if (result?.error || !result?.data) {
+            setServerError(result?.error?.message ?? 'An unexpected error occurred. Please try again.');
+            return;
+          }
 
-        if (result?.error) {
-          setServerError(result.error.message);
-          return;
+          setClaimedSquares(result.data.squares);
+          setClaimedSquareIds(result.data.squareIds);
+          setLocationsHidden(result.data.locationsHidden);
+        } else {
+          const result = await claimSquares({ ...participant, squareIds: squares.map((square) => square.id) });
+
+          if (result?.error || !result?.data) {
+            setServerError(result?.error?.message ?? 'An unexpected error occurred. Please try again.');
+            return;
+          }
+
+          setClaimedSquares(result.data.squares);
+          setClaimedSquareIds(result.data.squares.map((square) => square.id));
         }
 
         // Move to step 2 on success
+        setClaimedEmail(data.email);
         setStep(2);
         onSuccess?.();
       } catch (error) {
@@ -222,29 +273,110 @@ export function ClaimSquareModal({
     handleClose();
   };
 
+  const handlePayByCard = () => {
+    setServerError(null);
+
+    startTransition(async () => {
+      const result = await createSquareCheckout({
+        contestId,
+        squareIds: claimedSquareIds,
+        email: claimedEmail,
+      });
+
+      if (result?.error || !result?.data) {
+        setServerError(result?.error?.message ?? 'An unexpected error occurred. Please try again.');
+        return;
+      }
+
+      // Stripe Checkout; the squares are marked paid once the payment goes through
+      window.location.href = result.data.url;
+    });
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
       <DialogContent className="sm:max-w-md">
         {step === 1 ? (
           <>
             <DialogHeader>
-              <DialogTitle>Claim Your Square</DialogTitle>
+              <DialogTitle>
+                {isQuickPick ? 'Quick Pick' : isCart ? `Claim ${squares.length} Squares` : 'Claim Your Square'}
+              </DialogTitle>
               <DialogDescription>
-                Fill in your details to claim this square.
+                {isQuickPick
+                  ? "Tell us how many squares you want and we'll pick them at random for you."
+                  : isCart
+                    ? 'Review your squares and fill in your details to claim them all at once.'
+                    : 'Fill in your details to claim this square.'}
               </DialogDescription>
             </DialogHeader>
 
-            {/* Square Info */}
+            {/* Cart */}
             <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4 space-y-2">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-zinc-400">Position</span>
-                <span className="font-medium text-white">
-                  Row {square.row_index}, Column {square.col_index}
+              {isQuickPick ? (
+                <div className="space-y-2">
+                  <Label htmlFor="quickPickCount" className="text-zinc-200">
+                    How many squares?
+                  </Label>
+                  <div className="flex flex-wrap gap-2">
+                    {QUICK_PICK_PRESETS.filter((preset) => preset <= maxQuickPick).map((preset) => (
+                      <Button
+                        key={preset}
+                        type="button"
+                        size="sm"
+                        variant={quickPickCount === preset ? 'orange' : 'outline'}
+                        onClick={() => setQuickPickCount(preset)}
+                        disabled={isPending}
+                      >
+                        {preset}
+                      </Button>
+                    ))}
+                    <Input
+                      id="quickPickCount"
+                      type="number"
+                      min={1}
+                      max={maxQuickPick}
+                      value={quickPickCount}
+                      onChange={(e) =>
+                        setQuickPickCount(Math.max(1, Math.min(maxQuickPick, Number(e.target.value) || 1)))
+                      }
+                      disabled={isPending}
+                      className="h-9 w-20"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1 max-h-[160px] overflow-y-auto pr-1">
+                  {squares.map((square) => (
+                    <div key={square.id} className="flex items-center justify-between">
+                      <span className="text-sm text-zinc-400">Position</span>
+                      <span className="flex items-center gap-2 font-medium text-white">
+                        Row {square.row_index}, Column {square.col_index}
+                        {isCart && onRemoveSquare && (
+                          <button
+                            type="button"
+                            onClick={() => onRemoveSquare(square.id)}
+                            disabled={isPending}
+                            className="p-0.5 rounded text-zinc-500 hover:bg-zinc-700 hover:text-zinc-200 transition-colors"
+                            title="Remove from cart"
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center justify-between border-t border-zinc-700 pt-2">
+                <span className="text-sm text-zinc-400">Price</span>
+                <span className="text-sm text-zinc-300">
+                  {requestedCount} × ${squarePrice}
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-sm text-zinc-400">Price</span>
-                <span className="font-semibold text-orange-400">${squarePrice}</span>
+                <span className="text-sm text-zinc-400">Total Due</span>
+                <span className="font-semibold text-orange-400">${totalDue}</span>
               </div>
               {maxSquaresPerPerson && (
                 <div className="flex items-center justify-between">
@@ -365,12 +497,19 @@ export function ClaimSquareModal({
                 <Button type="button" variant="outline" onClick={handleClose} disabled={isPending}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={isPending}>
+                <Button type="submit" disabled={isPending || requestedCount === 0}>
                   {isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Claiming...
                     </>
+                  ) : isQuickPick ? (
+                    <>
+                      <Shuffle className="mr-2 h-4 w-4" />
+                      Pick {quickPickCount} Square{quickPickCount > 1 ? 's' : ''}
+                    </>
+                  ) : isCart ? (
+                    `Claim ${squares.length} Squares`
                   ) : (
                     'Claim Square'
                   )}
@@ -383,7 +522,9 @@ export function ClaimSquareModal({
             <DialogHeader>
               <DialogTitle>Complete Your Payment</DialogTitle>
               <DialogDescription>
-                Your square is reserved. Please complete payment to secure it.
+                {claimedSquareIds.length > 1
+                  ? 'Your squares are reserved. Please complete payment to secure them.'
+                  : 'Your square is reserved. Please complete payment to secure it.'}
               </DialogDescription>
             </DialogHeader>
 
@@ -391,23 +532,49 @@ export function ClaimSquareModal({
             <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-4 space-y-2">
               <div className="flex items-center gap-2">
                 <Check className="h-5 w-5 text-green-400" />
-                <span className="font-medium text-green-400">Square Claimed!</span>
-              </div>
-              <div className="flex items-center justify-between pl-7">
-                <span className="text-sm text-zinc-400">Position</span>
-                <span className="font-medium text-white">
-                  Row {square.row_index}, Column {square.col_index}
+                <span className="font-medium text-green-400">
+                  {claimedSquareIds.length > 1 ? `${claimedSquareIds.length} Squares Claimed!` : 'Square Claimed!'}
                 </span>
               </div>
+              {locationsHidden && (
+                <p className="pl-7 text-sm text-zinc-400">
+                  Your squares were picked at random. You&apos;ll see where they are once the numbers are drawn.
+                </p>
+              )}
+              {claimedSquares.map((square) => (
+                <div key={square.id} className="flex items-center justify-between pl-7">
+                  <span className="text-sm text-zinc-400">Position</span>
+                  <span className="font-medium text-white">
+                    Row {square.row_index}, Column {square.col_index}
+                  </span>
+                </div>
+              ))}
               <div className="flex items-center justify-between pl-7">
                 <span className="text-sm text-zinc-400">Amount Due</span>
-                <span className="font-semibold text-orange-400">${squarePrice}</span>
+                <span className="font-semibold text-orange-400">${claimedTotal}</span>
               </div>
             </div>
 
+            {/* Card Payment */}
+            {cardPaymentsEnabled && (
+              <div className="space-y-2">
+                <Button variant="orange" onClick={handlePayByCard} disabled={isPending} className="w-full">
+                  {isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CreditCard className="mr-2 h-4 w-4" />
+                  )}
+                  Pay ${claimedTotal} by Card
+                </Button>
+                {serverError && <p className="text-sm text-red-400">{serverError}</p>}
+              </div>
+            )}
+
             {/* Payment Options */}
             <div className="space-y-3">
-              <h4 className="text-sm font-medium text-zinc-300">Payment Options</h4>
+              <h4 className="text-sm font-medium text-zinc-300">
+                {cardPaymentsEnabled ? 'Or Pay Another Way' : 'Payment Options'}
+              </h4>
               {paymentOptions.length > 0 ? (
                 <div className="space-y-3 max-h-[280px] overflow-y-auto pr-1">
                   {paymentOptions.map((option) => (
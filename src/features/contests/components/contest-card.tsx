@@ -2,14 +2,16 @@
 
 import Link from 'next/link';
 import { Grid3X3 } from 'lucide-react';
-import { IoAmericanFootball, IoBaseball } from 'react-icons/io5';
 
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import type { Database } from '@/libs/supabase/types';
 
+import { getTotalSquares } from '../constants/grid-layouts';
+
+import { SportIcon } from './sport-icon';
+
 type Contest = Database['public']['Tables']['contests']['Row'] & {
-  sport_type?: 'football' | 'baseball';
   squares?: { payment_status: string }[];
 };
 
@@ -29,8 +31,6 @@ interface ContestCardProps {
 }
 
 export function ContestCard({ contest, claimedCount = 0 }: ContestCardProps) {
-  const sportType = contest.sport_type ?? 'football';
-  const SportIcon = sportType === 'baseball' ? IoBaseball : IoAmericanFootball;
 
   const formattedDate = new Intl.DateTimeFormat('en-US', {
     month: 'short',
@@ -52,7 +52,7 @@ export function ContestCard({ contest, claimedCount = 0 }: ContestCardProps) {
           <div className="flex items-start justify-between gap-3">
             <div className="flex items-center gap-2">
               <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-orange-500/10">
-                <SportIcon className="h-5 w-5 text-orange-500" />
+                <SportIcon sportType={contest.sport_type} className="h-5 w-5 text-orange-500" />
               </div>
               <h3 className="line-clamp-1 font-semibold text-white group-hover:text-orange-400 transition-colors">
                 {contest.name}
@@ -82,7 +82,7 @@ export function ContestCard({ contest, claimedCount = 0 }: ContestCardProps) {
                 <Grid3X3 className="h-3.5 w-3.5" />
                 <span>
                   <span className="font-medium text-zinc-300">{claimedCount}</span>
-                  <span className="text-zinc-500">/100</span>
+                  <span className="text-zinc-500">/{getTotalSquares(contest.grid_layout)}</span>
                 </span>
               </div>
             </div>
@@ -15,14 +15,31 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/components/ui/use-toast';
 import { Database } from '@/libs/supabase/types';
 
 import { saveScores } from '../actions/save-scores';
-import { FOOTBALL_QUARTER_LABELS } from '../constants';
+import {
+  getScoreLabel,
+  getSport,
+  GridLayout,
+  OVERTIME_RULES,
+  OvertimeRule,
+  PotBasis,
+  SportDefinition,
+  supportsOvertimeRules,
+} from '../constants';
 import { GridSquare } from '../queries/get-squares';
-import { ContestPrizeFields } from '../types';
-import { getPrizeText } from '../utils';
+import { ContestPrizeFields, PeriodNumbers } from '../types';
+import {
+  calculatePot,
+  findWinningCell,
+  getNumbersForPeriod,
+  getPrizeAmount,
+  getPrizeText,
+  getSquaresAtCell,
+} from '../utils';
 
 type Score = Database['public']['Tables']['scores']['Row'];
 type GameQuarter = Database['public']['Enums']['game_quarter'];
@@ -38,6 +55,11 @@ interface Contest extends ContestPrizeFields {
   col_numbers: number[] | null;
   status: ContestStatus;
   square_price: number;
+  grid_layout: GridLayout;
+  pot_basis: PotBasis;
+  organization_cut_percent: number;
+  redraw_numbers_each_period: boolean;
+  overtime_rule: OvertimeRule;
   payout_q1_percent: number | null;
   payout_q2_percent: number | null;
   payout_q3_percent: number | null;
@@ -49,6 +71,7 @@ interface Contest extends ContestPrizeFields {
   payout_game5_percent: number | null;
   payout_game6_percent: number | null;
   payout_game7_percent: number | null;
+  payout_ot_percent: number | null;
 }
 
 interface EnterScoresModalProps {
@@ -57,6 +80,7 @@ interface EnterScoresModalProps {
   contest: Contest;
   existingScores: Score[];
   squares: GridSquare[];
+  periodNumbers: PeriodNumbers[];
   onSuccess?: () => void;
 }
 
@@ -68,55 +92,39 @@ interface ScoreEntry {
   payoutPercent: number | null;
 }
 
-const FOOTBALL_QUARTERS = FOOTBALL_QUARTER_LABELS.map((q) => ({
-  quarter: q.key as GameQuarter,
-  label: q.label,
-  payoutKey: q.dbField as keyof Contest,
-}));
-
-const BASEBALL_GAMES: { quarter: GameQuarter; label: string; payoutKey: keyof Contest }[] = [
-  { quarter: 'q1', label: 'Game 1', payoutKey: 'payout_game1_percent' },
-  { quarter: 'q2', label: 'Game 2', payoutKey: 'payout_game2_percent' },
-  { quarter: 'q3', label: 'Game 3', payoutKey: 'payout_game3_percent' },
-  { quarter: 'final', label: 'Game 4', payoutKey: 'payout_game4_percent' },
-];
-
-function getQuarterConfig(sportType: SportType) {
-  return sportType === 'football' ? FOOTBALL_QUARTERS : BASEBALL_GAMES;
-}
-
-function calculateWinningSquare(
+/**
+ * Returns the squares in the winning cell (two when the grid is sold in halves).
+ */
+function calculateWinningSquares(
+  sport: SportDefinition,
   homeScore: number,
   awayScore: number,
   rowNumbers: number[],
   colNumbers: number[],
-  squares: GridSquare[]
-): GridSquare | null {
-  const homeLastDigit = homeScore % 10;
-  const awayLastDigit = awayScore % 10;
-
-  // Find the index in row_numbers where the value matches homeLastDigit
-  const winningRowIndex = rowNumbers.indexOf(homeLastDigit);
-  // Find the index in col_numbers where the value matches awayLastDigit
-  const winningColIndex = colNumbers.indexOf(awayLastDigit);
-
-  if (winningRowIndex === -1 || winningColIndex === -1) {
-    return null;
+  squares: GridSquare[],
+  gridLayout: GridLayout
+): GridSquare[] {
+  const homeDigit = sport.scoreDigit(homeScore);
+  const awayDigit = sport.scoreDigit(awayScore);
+
+  // Find the row and column whose numbers include each digit
+  const cell = findWinningCell(rowNumbers, colNumbers, homeDigit, awayDigit, gridLayout);
+
+  if (!cell) {
+    return [];
   }
 
-  return (
-    squares.find(
-      (sq) => sq.row_index === winningRowIndex && sq.col_index === winningColIndex
-    ) || null
-  );
+  return getSquaresAtCell(squares, cell.rowIndex, cell.colIndex);
 }
 
 function getWinnerDisplay(
+  sport: SportDefinition,
   homeScore: string,
   awayScore: string,
   rowNumbers: number[] | null,
   colNumbers: number[] | null,
-  squares: GridSquare[]
+  squares: GridSquare[],
+  gridLayout: GridLayout
 ): { text: string; isWinner: boolean } {
   const home = parseInt(homeScore, 10);
   const away = parseInt(awayScore, 10);
@@ -129,22 +137,22 @@ function getWinnerDisplay(
     return { text: 'Numbers not assigned', isWinner: false };
   }
 
-  const winningSquare = calculateWinningSquare(home, away, rowNumbers, colNumbers, squares);
+  const winningSquares = calculateWinningSquares(sport, home, away, rowNumbers, colNumbers, squares, gridLayout);
 
-  if (!winningSquare) {
+  if (winningSquares.length === 0) {
     return { text: 'No matching square', isWinner: false };
   }
 
-  if (winningSquare.claimant_first_name) {
-    let name = winningSquare.claimant_first_name;
-    if (winningSquare.claimant_last_name) {
-      name += ` ${winningSquare.claimant_last_name}`;
-    }
-    return { text: name, isWinner: true };
+  const names = winningSquares
+    .filter((sq) => sq.claimant_first_name)
+    .map((sq) => (sq.claimant_last_name ? `${sq.claimant_first_name} ${sq.claimant_last_name}` : sq.claimant_first_name));
+
+  if (names.length > 0) {
+    return { text: names.join(' & '), isWinner: true };
   }
 
   return {
-    text: `Row ${winningSquare.row_index}, Col ${winningSquare.col_index}`,
+    text: `Row ${winningSquares[0].row_index}, Col ${winningSquares[0].col_index}`,
     isWinner: true,
   };
 }
@@ -155,29 +163,39 @@ export function EnterScoresModal({
   contest,
   existingScores,
   squares,
+  periodNumbers,
   onSuccess,
 }: EnterScoresModalProps) {
   const { toast } = useToast();
   const [isPending, startTransition] = useTransition();
   const [scoreEntries, setScoreEntries] = useState<ScoreEntry[]>([]);
-
-  const quarterConfig = getQuarterConfig(contest.sport_type);
-  const totalPot = contest.square_price * 100;
+  const [wentToOvertime, setWentToOvertime] = useState(false);
+
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
+  const pot = calculatePot(contest, squares);
+  const hasOvertimeRule = supportsOvertimeRules(sport.type);
+  // A separate OT prize is only entered when the game went to overtime
+  const isSeparateOvertime = contest.overtime_rule === 'separate_ot';
+  const overtimeEntry = scoreEntries.find((entry) => entry.quarter === 'ot');
+  const finalWentToOvertime = isSeparateOvertime
+    ? !!overtimeEntry && overtimeEntry.homeScore !== '' && overtimeEntry.awayScore !== ''
+    : wentToOvertime;
 
   // Initialize score entries from existing scores
   useEffect(() => {
-    const entries = quarterConfig.map(({ quarter, label, payoutKey }) => {
-      const existingScore = existingScores.find((s) => s.quarter === quarter);
+    const entries = sport.periods.map((period) => {
+      const existingScore = existingScores.find((s) => s.quarter === period.key);
       return {
-        quarter,
-        label,
+        quarter: period.key,
+        label: period.label,
         homeScore: existingScore?.home_score?.toString() ?? '',
         awayScore: existingScore?.away_score?.toString() ?? '',
-        payoutPercent: contest[payoutKey] as number | null,
+        payoutPercent: contest[period.payoutField],
       };
     });
     setScoreEntries(entries);
-  }, [existingScores, quarterConfig, contest]);
+    setWentToOvertime(existingScores.some((s) => s.quarter === 'final' && s.went_to_overtime));
+  }, [existingScores, sport, contest]);
 
   const handleScoreChange = (
     index: number,
@@ -202,6 +220,7 @@ export function EnterScoresModal({
         quarter: entry.quarter,
         homeScore: parseInt(entry.homeScore, 10),
         awayScore: parseInt(entry.awayScore, 10),
+        wentToOvertime: entry.quarter === 'final' && hasOvertimeRule && finalWentToOvertime,
       }));
 
     if (scoresToSave.length === 0) {
@@ -281,7 +300,7 @@ export function EnterScoresModal({
         <DialogHeader>
           <DialogTitle>Enter Scores</DialogTitle>
           <DialogDescription>
-            Enter the scores for each {contest.sport_type === 'football' ? 'quarter' : 'game'}.
+            Enter the scores for each {sport.periodNoun}.
             Winners are calculated automatically.
           </DialogDescription>
         </DialogHeader>
@@ -295,18 +314,21 @@ export function EnterScoresModal({
         </div>
 
         {/* Score Entry Rows */}
-        <div className="space-y-3">
+        <div className="max-h-[60vh] space-y-3 overflow-y-auto">
           {scoreEntries.map((entry, index) => {
+            // Contests that redraw numbers every period use that period's numbers
+            const numbers = getNumbersForPeriod(contest, periodNumbers, entry.quarter);
             const winner = getWinnerDisplay(
+              sport,
               entry.homeScore,
               entry.awayScore,
-              contest.row_numbers,
-              contest.col_numbers,
-              squares
+              numbers?.rowNumbers ?? null,
+              numbers?.colNumbers ?? null,
+              squares,
+              contest.grid_layout
             );
 
-            const payoutAmount =
-              entry.payoutPercent != null ? (totalPot * entry.payoutPercent) / 100 : null;
+            const payoutAmount = entry.payoutPercent != null ? getPrizeAmount(pot, entry.payoutPercent) : null;
             const prizeText = getPrizeText(contest.prize_type, entry.quarter, contest);
 
             return (
@@ -316,7 +338,11 @@ export function EnterScoresModal({
               >
                 {/* Quarter Label with Payout */}
                 <div className="space-y-0.5">
-                  <Label className="text-zinc-200 font-medium">{entry.label}</Label>
+                  <Label className="text-zinc-200 font-medium">
+                    {hasOvertimeRule
+                      ? getScoreLabel(sport.type, entry.quarter, contest.overtime_rule, finalWentToOvertime)
+                      : entry.label}
+                  </Label>
                   {contest.prize_type === 'custom' && prizeText ? (
                     <p className="text-xs text-orange-400">{prizeText}</p>
                   ) : payoutAmount != null ? (
@@ -362,6 +388,30 @@ export function EnterScoresModal({
           })}
         </div>
 
+        {/* Overtime - how the final is scored depends on the contest's overtime rule */}
+        {hasOvertimeRule && (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-3">
+            <div>
+              <p className="text-sm font-medium text-zinc-200">{OVERTIME_RULES[contest.overtime_rule].label}</p>
+              <p className="text-xs text-zinc-500">
+                {contest.overtime_rule === 'final_includes_ot'
+                  ? 'Enter the final score after overtime.'
+                  : isSeparateOvertime
+                    ? 'Enter the final score at the end of regulation, and the OT score only if the game went to overtime.'
+                    : 'Enter the final score at the end of regulation. Overtime points do not count.'}
+              </p>
+            </div>
+            {!isSeparateOvertime && (
+              <div className="flex shrink-0 items-center gap-2">
+                <Label htmlFor="went_to_overtime" className="text-sm text-zinc-400">
+                  Went to OT
+                </Label>
+                <Switch id="went_to_overtime" checked={wentToOvertime} onCheckedChange={setWentToOvertime} />
+              </div>
+            )}
+          </div>
+        )}
+
         <DialogFooter className="gap-2 sm:gap-0">
           <Button variant="outline" onClick={onClose} disabled={isPending}>
             Cancel
@@ -4,8 +4,11 @@ export { ContestCard } from './contest-card';
 export { EnterScoresModal } from './enter-scores-modal';
 export type { HeroImagePosition } from './hero-position-picker';
 export { HeroPositionPicker } from './hero-position-picker';
+export { InviteOnlyNotice } from './invite-only-notice';
 export { ManageNumbersModal } from './manage-numbers-modal';
 export type { ManageSquare } from './manage-square-modal';
 export { ManageSquareModal } from './manage-square-modal';
 export { PinEntryModal } from './pin-entry-modal';
+export { ScoringEventsModal } from './scoring-events-modal';
+export { SPORT_ICONS, SportIcon } from './sport-icon';
 export { SquaresGrid } from './squares-grid';
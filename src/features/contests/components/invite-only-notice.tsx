@@ -0,0 +1,31 @@
+import Link from 'next/link';
+import { MailCheck } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+
+interface InviteOnlyNoticeProps {
+  contestName: string;
+  /** The visitor followed an access link that was expired, tampered with or revoked */
+  linkInvalid?: boolean;
+}
+
+export function InviteOnlyNotice({ contestName, linkInvalid = false }: InviteOnlyNoticeProps) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-zinc-900 px-4">
+      <div className="max-w-md text-center">
+        <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-orange-500/10">
+          <MailCheck className="h-6 w-6 text-orange-500" />
+        </div>
+        <h1 className="text-2xl font-bold text-white">{contestName}</h1>
+        <p className="mt-4 text-zinc-400">
+          {linkInvalid
+            ? 'This invite link has expired or is no longer valid. Ask the organizer to send you a new one.'
+            : 'This contest is invite-only. Open the link from your invitation email to join.'}
+        </p>
+        <Link href="/">
+          <Button className="mt-6">← Back to Home</Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,18 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from '@/components/ui/use-toast';
+import { cn } from '@/utils/cn';
 
 import { assignGridNumbers } from '../actions/assign-grid-numbers';
+import { updateContest } from '../actions/update-contest';
+import { formatLineDigits, getGridLayout, GridLayout, groupLineDigits } from '../constants/grid-layouts';
+import { OvertimeRule } from '../constants/overtime-rules';
+import { getSport, SportType } from '../constants/sports';
+import { GameQuarter, PeriodNumbers, Score } from '../types';
+import { getNumbersForPeriod } from '../utils';
 
 interface Contest {
   id: string;
@@ -27,12 +35,18 @@ interface Contest {
   numbers_auto_generated: boolean | null;
   row_team_name: string | null;
   col_team_name: string | null;
+  grid_layout: GridLayout;
+  sport_type: SportType;
+  redraw_numbers_each_period: boolean;
+  overtime_rule: OvertimeRule;
 }
 
 interface ManageNumbersModalProps {
   isOpen: boolean;
   onClose: () => void;
   contest: Contest;
+  periodNumbers: PeriodNumbers[];
+  scores: Score[];
   onSuccess?: () => void;
 }
 
@@ -44,12 +58,18 @@ function GridPreview({
   colNumbers,
   rowTeamName,
   colTeamName,
+  gridLayout,
 }: {
   rowNumbers: number[];
   colNumbers: number[];
   rowTeamName: string | null;
   colTeamName: string | null;
+  gridLayout: GridLayout;
 }) {
+  const layout = getGridLayout(gridLayout);
+  // 5x5 headers hold two digits and span twice the width of a 10x10 header
+  const isWide = layout.digitsPerLine > 1;
+
   return (
     <div className="rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
       <h4 className="text-sm font-medium text-zinc-300 mb-3">Preview</h4>
@@ -62,12 +82,12 @@ function GridPreview({
         {/* Grid header with column numbers */}
         <div className="flex gap-1">
           <div className="w-6 h-6" /> {/* Corner spacer */}
-          {colNumbers.map((num, idx) => (
+          {groupLineDigits(colNumbers, gridLayout).map((digits, idx) => (
             <div
               key={idx}
-              className="w-6 h-6 flex items-center justify-center bg-zinc-700 text-xs font-medium text-zinc-300 rounded"
+              className={`${isWide ? 'w-[50px]' : 'w-6'} h-6 flex items-center justify-center bg-zinc-700 text-xs font-medium text-zinc-300 rounded`}
             >
-              {num}
+              {formatLineDigits(digits)}
             </div>
           ))}
         </div>
@@ -84,19 +104,19 @@ function GridPreview({
           
           {/* Row numbers */}
           <div className="flex flex-col gap-1">
-            {rowNumbers.map((num, idx) => (
+            {groupLineDigits(rowNumbers, gridLayout).map((digits, idx) => (
               <div
                 key={idx}
-                className="w-6 h-6 flex items-center justify-center bg-zinc-700 text-xs font-medium text-zinc-300 rounded"
+                className={`${isWide ? 'h-[50px] w-8' : 'h-6 w-6'} flex items-center justify-center bg-zinc-700 text-xs font-medium text-zinc-300 rounded`}
               >
-                {num}
+                {formatLineDigits(digits)}
               </div>
             ))}
           </div>
           
           {/* Grid placeholder */}
           <div className="w-[268px] h-[268px] bg-zinc-900/50 rounded border border-zinc-700 flex items-center justify-center">
-            <span className="text-xs text-zinc-500">10x10 Grid</span>
+            <span className="text-xs text-zinc-500">{layout.label} Grid</span>
           </div>
         </div>
       </div>
@@ -110,20 +130,22 @@ function GridPreview({
 function NumbersDisplay({
   label,
   numbers,
+  gridLayout,
 }: {
   label: string;
   numbers: number[];
+  gridLayout: GridLayout;
 }) {
   return (
     <div className="space-y-2">
       <Label className="text-zinc-300">{label}</Label>
       <div className="flex gap-1 flex-wrap">
-        {numbers.map((num, idx) => (
+        {groupLineDigits(numbers, gridLayout).map((digits, idx) => (
           <div
             key={idx}
-            className="w-8 h-8 flex items-center justify-center bg-zinc-800 border border-zinc-600 text-sm font-medium text-zinc-300 rounded"
+            className="min-w-8 h-8 px-2 flex items-center justify-center bg-zinc-800 border border-zinc-600 text-sm font-medium text-zinc-300 rounded"
           >
-            {num}
+            {formatLineDigits(digits)}
           </div>
         ))}
       </div>
@@ -158,17 +180,35 @@ export function ManageNumbersModal({
   isOpen,
   onClose,
   contest,
+  periodNumbers,
+  scores,
   onSuccess,
 }: ManageNumbersModalProps) {
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
+  const redrawEachPeriod = contest.redraw_numbers_each_period;
+  const isScored = (quarter: GameQuarter) => scores.some((s) => s.quarter === quarter);
+
+  // When numbers are redrawn every period, start on the first period that can still be drawn
+  const defaultQuarter = (sport.periods.find((p) => !isScored(p.key)) ?? sport.periods[0]).key;
+  const [selectedQuarter, setSelectedQuarter] = useState<GameQuarter>(defaultQuarter);
+
+  const getCurrentNumbers = (quarter: GameQuarter) =>
+    redrawEachPeriod
+      ? getNumbersForPeriod(contest, periodNumbers, quarter)
+      : contest.row_numbers && contest.col_numbers
+        ? { rowNumbers: contest.row_numbers, colNumbers: contest.col_numbers }
+        : null;
+  const currentNumbers = getCurrentNumbers(selectedQuarter);
+
   const [activeTab, setActiveTab] = useState<'auto' | 'manual'>('auto');
   const [isPending, startTransition] = useTransition();
   
   // Manual entry state
   const [rowInputs, setRowInputs] = useState<(number | null)[]>(
-    contest.row_numbers ?? Array(10).fill(null)
+    currentNumbers?.rowNumbers ?? Array(10).fill(null)
   );
   const [colInputs, setColInputs] = useState<(number | null)[]>(
-    contest.col_numbers ?? Array(10).fill(null)
+    currentNumbers?.colNumbers ?? Array(10).fill(null)
   );
   const [rowError, setRowError] = useState<string | null>(null);
   const [colError, setColError] = useState<string | null>(null);
@@ -177,29 +217,59 @@ export function ManageNumbersModal({
   const [previewNumbers, setPreviewNumbers] = useState<{
     row: number[];
     col: number[];
-  } | null>(
-    contest.row_numbers && contest.col_numbers
-      ? { row: contest.row_numbers, col: contest.col_numbers }
-      : null
-  );
-
-  const isLocked = contest.status === 'in_progress' || contest.status === 'completed';
-  const hasExistingNumbers = contest.row_numbers !== null && contest.col_numbers !== null;
+  } | null>(currentNumbers ? { row: currentNumbers.rowNumbers, col: currentNumbers.colNumbers } : null);
+
+  const layout = getGridLayout(contest.grid_layout);
+  // Leave a gap between lines when each row or column holds several numbers
+  const startsNewLine = (idx: number) => layout.digitsPerLine > 1 && idx > 0 && idx % layout.digitsPerLine === 0;
+  const hasStarted = contest.status === 'in_progress' || contest.status === 'completed';
+  // Per-period numbers stay editable during the game until that period has a score
+  const isLocked = redrawEachPeriod
+    ? contest.status === 'completed' || isScored(selectedQuarter)
+    : hasStarted;
+  const hasExistingNumbers = currentNumbers !== null;
+
+  const resetInputs = (quarter: GameQuarter) => {
+    const numbers = getCurrentNumbers(quarter);
+    setRowInputs(numbers?.rowNumbers ?? Array(10).fill(null));
+    setColInputs(numbers?.colNumbers ?? Array(10).fill(null));
+    setRowError(null);
+    setColError(null);
+    setPreviewNumbers(numbers ? { row: numbers.rowNumbers, col: numbers.colNumbers } : null);
+  };
 
   const handleClose = () => {
     // Reset state when closing
-    setRowInputs(contest.row_numbers ?? Array(10).fill(null));
-    setColInputs(contest.col_numbers ?? Array(10).fill(null));
-    setRowError(null);
-    setColError(null);
-    setPreviewNumbers(
-      contest.row_numbers && contest.col_numbers
-        ? { row: contest.row_numbers, col: contest.col_numbers }
-        : null
-    );
+    resetInputs(selectedQuarter);
     onClose();
   };
 
+  const handleSelectQuarter = (quarter: GameQuarter) => {
+    setSelectedQuarter(quarter);
+    resetInputs(quarter);
+  };
+
+  const handleRedrawToggle = (enabled: boolean) => {
+    startTransition(async () => {
+      const result = await updateContest(contest.id, { redraw_numbers_each_period: enabled });
+
+      if (result?.error) {
+        toast({
+          title: 'Error',
+          description: result.error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: enabled ? `New numbers every ${sport.periodNoun}` : 'One set of numbers for the game',
+      });
+
+      onSuccess?.();
+    });
+  };
+
   const handleInputChange = (
     type: 'row' | 'col',
     index: number,
@@ -244,6 +314,7 @@ export function ManageNumbersModal({
         rowNumbers: null,
         colNumbers: null,
         autoGenerate: true,
+        quarter: redrawEachPeriod ? selectedQuarter : null,
       });
 
       if (result?.error) {
@@ -292,6 +363,7 @@ export function ManageNumbersModal({
         rowNumbers: rowInputs as number[],
         colNumbers: colInputs as number[],
         autoGenerate: false,
+        quarter: redrawEachPeriod ? selectedQuarter : null,
       });
 
       if (result?.error) {
@@ -325,17 +397,62 @@ export function ManageNumbersModal({
         <DialogHeader>
           <DialogTitle>Manage Grid Numbers</DialogTitle>
           <DialogDescription>
-            Assign numbers 0-9 to each row and column of the grid.
+            {layout.digitsPerLine > 1
+              ? `Assign the numbers 0-9 to the grid. Each row and column gets ${layout.digitsPerLine} numbers.`
+              : 'Assign numbers 0-9 to each row and column of the grid.'}
           </DialogDescription>
         </DialogHeader>
 
+        {/* Redraw toggle - how numbers are drawn can only change before the game starts */}
+        {!hasStarted && (
+          <div className="flex items-center justify-between rounded-lg border border-zinc-700 bg-zinc-800/50 p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="redrawNumbersEachPeriod" className="text-zinc-200 cursor-pointer">
+                New numbers every {sport.periodNoun}
+              </Label>
+              <p className="text-xs text-zinc-500">Draw fresh numbers for each {sport.periodNoun}</p>
+            </div>
+            <Switch
+              id="redrawNumbersEachPeriod"
+              checked={redrawEachPeriod}
+              onCheckedChange={handleRedrawToggle}
+              disabled={isPending}
+            />
+          </div>
+        )}
+
+        {/* Period selector */}
+        {redrawEachPeriod && (
+          <div className="flex flex-wrap gap-1.5">
+            {sport.periods.map((period) => (
+              <button
+                key={period.key}
+                type="button"
+                onClick={() => handleSelectQuarter(period.key)}
+                className={cn(
+                  'flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium transition-colors',
+                  selectedQuarter === period.key
+                    ? 'bg-orange-500 text-white'
+                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'
+                )}
+              >
+                {isScored(period.key) && <Lock className="h-3 w-3" />}
+                {period.label}
+                {!getNumbersForPeriod(contest, periodNumbers, period.key) && ' (not drawn)'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {isLocked ? (
           <>
             {/* Locked state - read only */}
             <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-4 flex items-start gap-3">
               <Lock className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
               <p className="text-sm text-amber-200">
-                Numbers cannot be changed after the game has started.
+                {redrawEachPeriod
+                  ? `Numbers cannot be changed after a score has been entered for this ${sport.periodNoun}.`
+                  : 'Numbers cannot be changed after the game has started.'}
               </p>
             </div>
 
@@ -343,11 +460,13 @@ export function ManageNumbersModal({
               <div className="space-y-4">
                 <NumbersDisplay
                   label={contest.row_team_name ?? 'Row Numbers'}
-                  numbers={contest.row_numbers!}
+                  numbers={currentNumbers.rowNumbers}
+                  gridLayout={contest.grid_layout}
                 />
                 <NumbersDisplay
                   label={contest.col_team_name ?? 'Column Numbers'}
-                  numbers={contest.col_numbers!}
+                  numbers={currentNumbers.colNumbers}
+                  gridLayout={contest.grid_layout}
                 />
               </div>
             )}
@@ -430,7 +549,7 @@ export function ManageNumbersModal({
                         onChange={(e) => handleInputChange('row', idx, e.target.value)}
                         className={`w-9 h-9 text-center p-0 ${
                           rowError ? 'border-red-500' : ''
-                        }`}
+                        } ${startsNewLine(idx) ? 'ml-2' : ''}`}
                         placeholder={String(idx)}
                       />
                     ))}
@@ -456,7 +575,7 @@ export function ManageNumbersModal({
                         onChange={(e) => handleInputChange('col', idx, e.target.value)}
                         className={`w-9 h-9 text-center p-0 ${
                           colError ? 'border-red-500' : ''
-                        }`}
+                        } ${startsNewLine(idx) ? 'ml-2' : ''}`}
                         placeholder={String(idx)}
                       />
                     ))}
@@ -490,6 +609,7 @@ export function ManageNumbersModal({
                 colNumbers={previewNumbers.col}
                 rowTeamName={contest.row_team_name}
                 colTeamName={contest.col_team_name}
+                gridLayout={contest.grid_layout}
               />
             )}
 
@@ -13,9 +13,11 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { ToastAction } from '@/components/ui/toast';
 import { toast } from '@/components/ui/use-toast';
 import { formatDateTime } from '@/utils/date-formatters';
 
+import { undoSquareRelease } from '../actions/undo-square-release';
 import { updateSquareStatus } from '../actions/update-square-status';
 import { PaymentStatus } from '../types';
 
@@ -23,6 +25,7 @@ export interface ManageSquare {
   id: string;
   row_index: number;
   col_index: number;
+  share_index: number;
   payment_status: PaymentStatus;
   claimant_first_name: string | null;
   claimant_last_name: string | null;
@@ -31,6 +34,7 @@ export interface ManageSquare {
   claimed_at: string | null;
   paid_at: string | null;
   referred_by: string | null;
+  quick_picked: boolean;
 }
 
 interface ManageSquareModalProps {
@@ -77,6 +81,28 @@ export function ManageSquareModal({
 
   if (!square) return null;
 
+  const handleUndoRelease = (releaseId: string) => {
+    startTransition(async () => {
+      const result = await undoSquareRelease(contestId, releaseId);
+
+      if (result?.error) {
+        toast({
+          title: 'Error',
+          description: result.error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Release undone and claimant restored',
+      });
+
+      onSuccess?.();
+    });
+  };
+
   const handleUpdateStatus = (newStatus: PaymentStatus) => {
     startTransition(async () => {
       const result = await updateSquareStatus({
@@ -100,9 +126,16 @@ export function ManageSquareModal({
         paid: 'Square marked as paid',
       };
 
+      const releaseId = result?.data?.releaseId;
+
       toast({
         title: 'Success',
         description: messages[newStatus],
+        action: releaseId ? (
+          <ToastAction altText="Undo release" onClick={() => handleUndoRelease(releaseId)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
       });
 
       onSuccess?.();
@@ -19,12 +19,13 @@ import { Label } from '@/components/ui/label';
 import { zodResolver } from '@hookform/resolvers/zod';
 
 import { verifyPin } from '../actions/verify-pin';
+import { ACCESS_PIN_MAX_LENGTH } from '../constants/access-pin';
 
 const pinSchema = z.object({
   pin: z
     .string()
     .min(1, 'PIN is required')
-    .max(6, 'PIN must be 6 characters or less')
+    .max(ACCESS_PIN_MAX_LENGTH, `PIN must be ${ACCESS_PIN_MAX_LENGTH} characters or less`)
     .regex(/^[A-Za-z0-9]+$/, 'PIN must be alphanumeric'),
 });
 
@@ -99,8 +100,8 @@ export function PinEntryModal({ isOpen, contestName, contestSlug, onSuccess }: P
             <Input
               id="pin"
               type="text"
-              maxLength={6}
-              placeholder="Enter 6-character PIN"
+              maxLength={ACCESS_PIN_MAX_LENGTH}
+              placeholder="Enter PIN"
               autoComplete="off"
               autoFocus
               {...register('pin')}
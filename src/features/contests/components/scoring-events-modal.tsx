@@ -0,0 +1,491 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import Link from 'next/link';
+import { Loader2, Plus, Settings, Trash2, Trophy, Upload } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { Database } from '@/libs/supabase/types';
+import { cn } from '@/utils/cn';
+
+import { addScoringEvents } from '../actions/add-scoring-events';
+import { deleteScoringEvent } from '../actions/delete-scoring-event';
+import { getPeriodLabel, getSport, GridLayout, PotBasis, RolloverPolicy } from '../constants';
+import { GridSquare } from '../queries/get-squares';
+import { PeriodNumbers, ScoringEventWithWinners } from '../types';
+import {
+  calculatePot,
+  changesScore,
+  findWinningCell,
+  getNumbersForPeriod,
+  getScoringEventCarryPercent,
+  getScoringEventPayouts,
+  getScoringEventRolloverNote,
+  getSquaresAtCell,
+  parseScoringEvents,
+} from '../utils';
+
+type GameQuarter = Database['public']['Enums']['game_quarter'];
+type SportType = Database['public']['Enums']['sport_type'];
+type ContestStatus = Database['public']['Enums']['contest_status'];
+
+interface Contest {
+  id: string;
+  sport_type: SportType;
+  row_team_name: string;
+  col_team_name: string;
+  row_numbers: number[] | null;
+  col_numbers: number[] | null;
+  status: ContestStatus;
+  square_price: number;
+  grid_layout: GridLayout;
+  pot_basis: PotBasis;
+  organization_cut_percent: number;
+  redraw_numbers_each_period: boolean;
+  score_change_payout: number;
+  rollover_policy: RolloverPolicy;
+}
+
+interface ScoringEventsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  contest: Contest;
+  scoringEvents: ScoringEventWithWinners[];
+  squares: GridSquare[];
+  periodNumbers: PeriodNumbers[];
+  onSuccess?: () => void;
+}
+
+function getSquareNames(squares: GridSquare[]): string | null {
+  const names = squares
+    .filter((sq) => sq.claimant_first_name)
+    .map((sq) =>
+      sq.claimant_last_name ? `${sq.claimant_first_name} ${sq.claimant_last_name}` : sq.claimant_first_name
+    );
+  return names.length > 0 ? names.join(' & ') : null;
+}
+
+export function ScoringEventsModal({
+  isOpen,
+  onClose,
+  contest,
+  scoringEvents,
+  squares,
+  periodNumbers,
+  onSuccess,
+}: ScoringEventsModalProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const sport = getSport(contest.sport_type);
+
+  // New events default to the period of the last one entered
+  const [quarter, setQuarter] = useState<GameQuarter>(
+    scoringEvents[scoringEvents.length - 1]?.quarter ?? sport.periods[0].key
+  );
+  const [homeScore, setHomeScore] = useState('');
+  const [awayScore, setAwayScore] = useState('');
+  const [description, setDescription] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  const { prizePool } = calculatePot(contest, squares);
+  const squaresMap = new Map(squares.map((sq) => [sq.id, sq]));
+  const payouts = getScoringEventPayouts(
+    scoringEvents,
+    contest.score_change_payout,
+    prizePool,
+    getScoringEventCarryPercent(contest.rollover_policy, squaresMap)
+  );
+  const totalPaid = payouts[payouts.length - 1]?.runningTotal ?? 0;
+  const numbers = getNumbersForPeriod(contest, periodNumbers, quarter);
+
+  // Preview the winner of the event being entered
+  const getPreview = (): { text: string; isWinner: boolean } => {
+    const home = parseInt(homeScore, 10);
+    const away = parseInt(awayScore, 10);
+    if (isNaN(home) || isNaN(away)) return { text: 'Enter scores', isWinner: false };
+    if (!numbers) return { text: 'Numbers not drawn', isWinner: false };
+
+    const cell = findWinningCell(
+      numbers.rowNumbers,
+      numbers.colNumbers,
+      sport.scoreDigit(home),
+      sport.scoreDigit(away),
+      contest.grid_layout
+    );
+    if (!cell) return { text: 'No matching square', isWinner: false };
+
+    const cellSquares = getSquaresAtCell(squares, cell.rowIndex, cell.colIndex);
+    return {
+      text: getSquareNames(cellSquares) ?? `Row ${cell.rowIndex}, Col ${cell.colIndex}`,
+      isWinner: true,
+    };
+  };
+
+  const handleScoreChange = (setter: (value: string) => void, value: string) => {
+    // Only allow numbers
+    if (value !== '' && !/^\d+$/.test(value)) {
+      return;
+    }
+    setter(value);
+  };
+
+  const saveEvents = (
+    events: { quarter: GameQuarter; homeScore: number; awayScore: number; description: string | null }[],
+    onSaved: () => void
+  ) => {
+    // Every play has to move the score on from the one before it
+    const lastEvent = scoringEvents[scoringEvents.length - 1];
+    let previous = lastEvent ? { homeScore: lastEvent.home_score, awayScore: lastEvent.away_score } : null;
+    for (const event of events) {
+      if (!changesScore(event, previous)) {
+        toast({
+          title: 'Score unchanged',
+          description: `${event.homeScore} - ${event.awayScore} is the same as the play before it.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      previous = event;
+    }
+
+    startTransition(async () => {
+      try {
+        const result = await addScoringEvents(contest.id, events);
+
+        if (result?.error) {
+          toast({
+            title: 'Error saving scoring plays',
+            description: result.error.message,
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        toast({
+          title: 'Scoring plays saved!',
+          description: `${events.length} scoring play(s) added.`,
+        });
+
+        onSaved();
+        onSuccess?.();
+      } catch (error) {
+        toast({
+          title: 'Error',
+          description: 'An unexpected error occurred. Please try again.',
+          variant: 'destructive',
+        });
+      }
+    });
+  };
+
+  const handleAdd = () => {
+    if (homeScore === '' || awayScore === '') {
+      toast({
+        title: 'Missing score',
+        description: 'Enter both scores after the play.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveEvents(
+      [
+        {
+          quarter,
+          homeScore: parseInt(homeScore, 10),
+          awayScore: parseInt(awayScore, 10),
+          description: description.trim() || null,
+        },
+      ],
+      () => {
+        setHomeScore('');
+        setAwayScore('');
+        setDescription('');
+      }
+    );
+  };
+
+  const handleImport = () => {
+    const { events, invalidLines } = parseScoringEvents(importText);
+
+    if (invalidLines.length > 0) {
+      toast({
+        title: 'Could not read every line',
+        description: `Check line(s) ${invalidLines.join(', ')}. Use "home,away" or "home,away,description".`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (events.length === 0) {
+      toast({
+        title: 'Nothing to import',
+        description: 'Paste one scoring play per line.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveEvents(
+      events.map((event) => ({ ...event, quarter })),
+      () => {
+        setImportText('');
+        setShowImport(false);
+      }
+    );
+  };
+
+  const handleDelete = (eventId: string) => {
+    startTransition(async () => {
+      const result = await deleteScoringEvent(contest.id, eventId);
+
+      if (result?.error) {
+        toast({
+          title: 'Error removing scoring play',
+          description: result.error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      onSuccess?.();
+    });
+  };
+
+  // Status check - show message if not in progress
+  if (contest.status !== 'in_progress') {
+    return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Scoring Plays</DialogTitle>
+            <DialogDescription>Scoring plays can only be entered during the game.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 rounded-lg border border-amber-500/50 bg-amber-500/10 p-4">
+            <p className="text-sm text-amber-200">
+              Change contest status to &ldquo;In Progress&rdquo; to enter scoring plays.
+            </p>
+            <Link href={`/dashboard/${contest.id}/settings`}>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Settings className="h-4 w-4" />
+                Go to Settings
+              </Button>
+            </Link>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const preview = getPreview();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Scoring Plays</DialogTitle>
+          <DialogDescription>
+            Every score change pays ${contest.score_change_payout.toFixed(2)}. Enter the score after each play; the
+            winner is calculated automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Period selector */}
+        <div className="flex flex-wrap gap-1.5">
+          {sport.periods.map((period) => (
+            <button
+              key={period.key}
+              type="button"
+              onClick={() => setQuarter(period.key)}
+              className={cn(
+                'rounded-full px-3 py-1 text-xs font-medium transition-colors',
+                quarter === period.key
+                  ? 'bg-orange-500 text-white'
+                  : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'
+              )}
+            >
+              {period.label}
+            </button>
+          ))}
+        </div>
+
+        {showImport ? (
+          <div className="space-y-2">
+            <Label htmlFor="scoring-import" className="text-zinc-200">
+              Import scoring plays
+            </Label>
+            <Textarea
+              id="scoring-import"
+              rows={6}
+              placeholder={'7,0,Touchdown\n7,3,Field goal\n14,3'}
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <p className="text-xs text-zinc-500">
+              Paste or copy from a CSV: one play per line as home score, away score and an optional description. Plays
+              are added to {getPeriodLabel(sport.type, quarter)}.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowImport(false)} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleImport} disabled={isPending}>
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_1fr] items-center gap-2 px-1 text-sm font-medium text-zinc-400">
+              <div className="text-center">{contest.row_team_name} (Home)</div>
+              <div className="text-center">{contest.col_team_name} (Away)</div>
+              <div className="text-center">Winner</div>
+            </div>
+            <div className="grid grid-cols-[1fr_1fr_1fr] items-center gap-2">
+              <Input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                placeholder="0"
+                value={homeScore}
+                onChange={(e) => handleScoreChange(setHomeScore, e.target.value)}
+                className="text-center text-lg font-semibold"
+              />
+              <Input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                placeholder="0"
+                value={awayScore}
+                onChange={(e) => handleScoreChange(setAwayScore, e.target.value)}
+                className="text-center text-lg font-semibold"
+              />
+              <div
+                className={`flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 text-sm ${
+                  preview.isWinner
+                    ? 'border border-green-500/30 bg-green-500/10 text-green-400'
+                    : 'bg-zinc-800 text-zinc-500'
+                }`}
+              >
+                {preview.isWinner && <Trophy className="h-3.5 w-3.5" />}
+                <span className="truncate">{preview.text}</span>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Description (optional), e.g. Touchdown"
+                maxLength={200}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <Button onClick={handleAdd} disabled={isPending}>
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add
+              </Button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowImport(true)}
+              className="text-xs text-orange-400 hover:text-orange-300"
+            >
+              Import several plays at once
+            </button>
+          </div>
+        )}
+
+        {/* Entered events */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-zinc-200">{payouts.length} scoring play(s)</span>
+            <span className="text-zinc-400">
+              ${totalPaid.toFixed(2)} of ${prizePool.toFixed(2)} paid
+            </span>
+          </div>
+          <div className="max-h-[40vh] space-y-1.5 overflow-y-auto">
+            {[...payouts].reverse().map(({ event, payout, rolloverOut, runningTotal }) => {
+              const winningSquare = event.winning_square_id ? squaresMap.get(event.winning_square_id) : undefined;
+              const winnerName = winningSquare
+                ? getSquareNames(getSquaresAtCell(squares, winningSquare.row_index, winningSquare.col_index)) ??
+                  'Unclaimed'
+                : 'Unclaimed';
+              const rolloverNote = getScoringEventRolloverNote(event, (id) => {
+                const square = squaresMap.get(id);
+                return (square && getSquareNames([square])) ?? 'Unclaimed';
+              });
+
+              return (
+                <div
+                  key={event.id}
+                  className="flex items-center gap-3 rounded-md border border-zinc-700 bg-zinc-800/50 px-3 py-2 text-sm"
+                >
+                  <span className="w-8 text-zinc-500">#{event.sequence}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-zinc-200">
+                      {event.home_score} - {event.away_score}
+                      <span className="ml-2 text-xs text-zinc-500">
+                        {getPeriodLabel(sport.type, event.quarter)}
+                        {event.description && ` · ${event.description}`}
+                      </span>
+                    </p>
+                    <p
+                      className={cn(
+                        'truncate text-xs',
+                        winnerName === 'Unclaimed' ? 'text-zinc-500' : 'text-green-400'
+                      )}
+                    >
+                      {winnerName}
+                    </p>
+                    {rolloverNote && <p className="truncate text-xs text-amber-400">{rolloverNote}</p>}
+                    {rolloverOut > 0 && (
+                      <p className="text-xs text-zinc-500">${rolloverOut.toFixed(2)} rolls to the next play</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className="font-medium text-orange-400">${payout.toFixed(2)}</p>
+                    <p className="text-xs text-zinc-500">${runningTotal.toFixed(2)} total</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(event.id)}
+                    disabled={isPending}
+                    aria-label={`Remove scoring play #${event.sequence}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-zinc-400" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isPending}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import type { IconType } from 'react-icons';
+import { IoAmericanFootball, IoBaseball, IoBasketball, IoFootball } from 'react-icons/io5';
+import { MdSportsHockey } from 'react-icons/md';
+
+import { SportType } from '../constants';
+
+export const SPORT_ICONS: Record<SportType, IconType> = {
+  football: IoAmericanFootball,
+  baseball: IoBaseball,
+  hockey: MdSportsHockey,
+  basketball: IoBasketball,
+  soccer: IoFootball,
+};
+
+interface SportIconProps {
+  sportType: SportType;
+  className?: string;
+}
+
+export function SportIcon({ sportType, className }: SportIconProps) {
+  const Icon = SPORT_ICONS[sportType] ?? IoAmericanFootball;
+  return <Icon className={className} />;
+}
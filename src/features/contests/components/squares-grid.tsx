@@ -1,11 +1,14 @@
 'use client';
 
-import { Fragment } from 'react';
-import { Trophy } from 'lucide-react';
+import { Fragment, useState } from 'react';
+import { Check, Trophy } from 'lucide-react';
 
 import { cn } from '@/utils/cn';
 
+import { formatLineDigits, getGridLayout, GridLayout, groupLineDigits } from '../constants/grid-layouts';
 import { GridSquare } from '../queries/get-squares';
+import { GameQuarter } from '../types';
+import { GridPeriodNumbers } from '../utils/period-numbers';
 
 interface SquaresGridProps<T extends GridSquare = GridSquare> {
   squares: T[];
@@ -17,8 +20,15 @@ interface SquaresGridProps<T extends GridSquare = GridSquare> {
   rowNumbers?: number[] | null;
   colNumbers?: number[] | null;
   winningSquareIds?: string[];
+  /** Squares in the participant's cart, highlighted until they're claimed */
+  selectedSquareIds?: string[];
+  gridLayout?: GridLayout;
+  /** When set, the grid shows one period's numbers at a time with tabs to switch */
+  periodNumbers?: GridPeriodNumbers[];
 }
 
+const DEFAULT_NUMBERS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
 /**
  * Gets initials from first and last name
  * e.g., "Brent Hoskins" → "BH"
@@ -38,9 +48,32 @@ function getSquareTooltip(square: GridSquare): string {
   }
   const name = `${square.claimant_first_name || ''} ${square.claimant_last_name || ''}`.trim();
   const status = square.payment_status === 'paid' ? 'Paid' : 'Pending Payment';
-  return `${name} (${status})`;
+  // Hidden quick picks have no name until the numbers are drawn
+  return `${name || 'Claimed'} (${status})`;
 }
 
+/**
+ * Tailwind classes per grid size. Sizes are fixed to prevent collapse on mobile - the grid
+ * scrolls horizontally; on lg+ screens squares are larger for a better desktop experience.
+ * 5x5 headers show two digits, so their number column is wider.
+ */
+const GRID_SIZE_CLASSES: Record<number, { cols: string; colsWithoutNumbers: string; height: string; headerOffset: string }> = {
+  10: {
+    cols: 'grid-cols-[24px_repeat(10,40px)] sm:grid-cols-[28px_repeat(10,44px)] md:grid-cols-[32px_repeat(10,48px)] lg:grid-cols-[36px_repeat(10,56px)]',
+    colsWithoutNumbers:
+      'grid-cols-[repeat(10,40px)] sm:grid-cols-[repeat(10,44px)] md:grid-cols-[repeat(10,48px)] lg:grid-cols-[repeat(10,56px)]',
+    height: 'h-10 sm:h-11 md:h-12 lg:h-14',
+    headerOffset: 'pl-6 sm:pl-7 md:pl-8 lg:pl-9',
+  },
+  5: {
+    cols: 'grid-cols-[36px_repeat(5,80px)] sm:grid-cols-[40px_repeat(5,88px)] md:grid-cols-[44px_repeat(5,96px)] lg:grid-cols-[48px_repeat(5,112px)]',
+    colsWithoutNumbers:
+      'grid-cols-[repeat(5,80px)] sm:grid-cols-[repeat(5,88px)] md:grid-cols-[repeat(5,96px)] lg:grid-cols-[repeat(5,112px)]',
+    height: 'h-20 sm:h-[88px] md:h-24 lg:h-28',
+    headerOffset: 'pl-9 sm:pl-10 md:pl-11 lg:pl-12',
+  },
+};
+
 export function SquaresGrid<T extends GridSquare = GridSquare>({
   squares,
   rowTeamName,
@@ -51,28 +84,42 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
   rowNumbers,
   colNumbers,
   winningSquareIds = [],
+  selectedSquareIds = [],
+  gridLayout = 'standard',
+  periodNumbers,
 }: SquaresGridProps<T>) {
-  // Use provided numbers or default to 0-9
-  const displayRowNumbers = rowNumbers ?? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
-  const displayColNumbers = colNumbers ?? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
-  const hasAssignedNumbers = rowNumbers !== null && rowNumbers !== undefined;
-  
-  // Create 10x10 grid from squares array
-  const grid: (T | null)[][] = Array.from({ length: 10 }, () => Array(10).fill(null));
+  const layout = getGridLayout(gridLayout);
+  const sizeClasses = GRID_SIZE_CLASSES[layout.size];
+
+  // Default to the latest drawn period; fall back to it if the selection disappears
+  const [selectedQuarter, setSelectedQuarter] = useState<GameQuarter | null>(null);
+  const selectedPeriod = periodNumbers?.length
+    ? (periodNumbers.find((p) => p.quarter === selectedQuarter) ?? periodNumbers[periodNumbers.length - 1])
+    : null;
+  const activeRowNumbers = selectedPeriod ? selectedPeriod.rowNumbers : rowNumbers;
+  const activeColNumbers = selectedPeriod ? selectedPeriod.colNumbers : colNumbers;
+
+  // Use provided numbers or default to 0-9, grouped into each row/column header
+  const hasAssignedNumbers = activeRowNumbers !== null && activeRowNumbers !== undefined;
+  const displayRowNumbers = groupLineDigits(activeRowNumbers ?? DEFAULT_NUMBERS, gridLayout);
+  const displayColNumbers = groupLineDigits(activeColNumbers ?? DEFAULT_NUMBERS, gridLayout);
+
+  // Create grid of cells from squares array; each cell holds one square per share
+  const grid: (T | null)[][][] = Array.from({ length: layout.size }, () =>
+    Array.from({ length: layout.size }, () => Array(layout.sharesPerSquare).fill(null))
+  );
   squares.forEach((square) => {
-    if (square.row_index >= 0 && square.row_index <= 9 && square.col_index >= 0 && square.col_index <= 9) {
-      grid[square.row_index][square.col_index] = square;
+    const cell = grid[square.row_index]?.[square.col_index];
+    if (cell && square.share_index >= 0 && square.share_index < cell.length) {
+      cell[square.share_index] = square;
     }
   });
 
   const isClickable = !!onSquareClick && !disabled;
+  const isShared = layout.sharesPerSquare > 1;
 
   // Grid column template based on whether numbers are shown
-  // Using fixed sizes to prevent collapse on mobile - grid will scroll horizontally
-  // On lg+ screens, use larger squares for better desktop experience
-  const gridColsClass = showNumbers
-    ? 'grid-cols-[24px_repeat(10,40px)] sm:grid-cols-[28px_repeat(10,44px)] md:grid-cols-[32px_repeat(10,48px)] lg:grid-cols-[36px_repeat(10,56px)]'
-    : 'grid-cols-[repeat(10,40px)] sm:grid-cols-[repeat(10,44px)] md:grid-cols-[repeat(10,48px)] lg:grid-cols-[repeat(10,56px)]';
+  const gridColsClass = showNumbers ? sizeClasses.cols : sizeClasses.colsWithoutNumbers;
 
   return (
     <div className="relative">
@@ -84,6 +131,27 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
       <div className="overflow-x-auto lg:overflow-visible lg:flex lg:justify-center">
         {/* Fixed minimum width container - prevents grid collapse on mobile, centers on desktop */}
         <div className="min-w-[480px] w-max p-3 sm:p-4 lg:min-w-0">
+          {/* Period tabs - each quarter/game has its own numbers */}
+          {showNumbers && periodNumbers && periodNumbers.length > 0 && (
+            <div className="mb-3 flex flex-wrap justify-center gap-1.5">
+              {periodNumbers.map((period) => (
+                <button
+                  key={period.quarter}
+                  type="button"
+                  onClick={() => setSelectedQuarter(period.quarter)}
+                  className={cn(
+                    'rounded-full px-3 py-1 text-xs font-medium transition-colors',
+                    selectedPeriod?.quarter === period.quarter
+                      ? 'bg-orange-500 text-white'
+                      : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'
+                  )}
+                >
+                  {period.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Main layout: Row team label + Grid */}
           <div className="flex gap-1 lg:gap-2">
             {/* Row team label - vertical, outside the grid */}
@@ -101,7 +169,7 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
               {/* Column team header */}
               <div className={cn(
                 'mb-1.5 text-center text-[10px] font-medium text-zinc-400 sm:mb-2 sm:text-xs lg:text-sm lg:mb-3',
-                showNumbers && 'pl-6 sm:pl-7 md:pl-8 lg:pl-9'
+                showNumbers && sizeClasses.headerOffset
               )}>
                 {colTeamName}
               </div>
@@ -115,7 +183,7 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
                     <div className="h-6 sm:h-7 md:h-8 lg:h-9" />
                     
                     {/* Column numbers */}
-                    {displayColNumbers.map((num, i) => (
+                    {displayColNumbers.map((digits, i) => (
                       <div
                         key={`col-${i}`}
                         className={cn(
@@ -123,80 +191,112 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
                           hasAssignedNumbers ? 'text-orange-400' : 'text-zinc-500'
                         )}
                       >
-                        {hasAssignedNumbers ? num : '?'}
+                        {hasAssignedNumbers ? formatLineDigits(digits) : '?'}
                       </div>
                     ))}
                   </>
                 )}
 
-                {/* Rows 1-10: Row number + 10 squares */}
+                {/* One row per line: Row number + a cell per column */}
                 {grid.map((row, rowIndex) => (
                   <Fragment key={`row-${rowIndex}`}>
                     {/* Row number */}
                     {showNumbers && (
                       <div
                         className={cn(
-                          'flex h-10 items-center justify-center text-xs font-medium sm:h-11 sm:text-sm md:h-12 lg:h-14',
+                          'flex items-center justify-center text-xs font-medium sm:text-sm',
+                          sizeClasses.height,
                           hasAssignedNumbers ? 'text-orange-400' : 'text-zinc-500'
                         )}
                       >
-                        {hasAssignedNumbers ? displayRowNumbers[rowIndex] : '?'}
+                        {hasAssignedNumbers ? formatLineDigits(displayRowNumbers[rowIndex]) : '?'}
                       </div>
                     )}
 
-                    {/* 10 squares for this row */}
-                    {row.map((square, colIndex) => {
-                      const initials = square ? getInitials(square.claimant_first_name, square.claimant_last_name) : '';
-                      const tooltip = square ? getSquareTooltip(square) : 'Loading...';
-                      const isWinner = square && winningSquareIds.includes(square.id);
-
-                      return (
-                        <button
-                          key={`${rowIndex}-${colIndex}`}
-                          type="button"
-                          disabled={!isClickable || !square}
-                          onClick={() => {
-                            if (isClickable && square) {
-                              onSquareClick(square);
-                            }
-                          }}
-                          className={cn(
-                            // Base styles - fixed height to match grid columns
-                            'h-10 rounded-sm font-medium transition-all flex items-center justify-center relative select-none',
-                            'text-xs sm:h-11 sm:text-sm md:h-12 lg:h-14 lg:rounded',
-                            // Touch feedback
-                            isClickable && 'active:scale-95 active:opacity-80',
-                            // Winner highlight
-                            isWinner && 'ring-2 ring-amber-400 ring-offset-1 ring-offset-zinc-900',
-                            // Available
-                            square?.payment_status === 'available' && [
-                              'bg-zinc-700',
-                              isClickable && 'hover:bg-zinc-600 cursor-pointer',
-                            ],
-                            // Pending
-                            square?.payment_status === 'pending' && [
-                              'bg-yellow-500/30 text-yellow-200',
-                              isClickable && 'hover:bg-yellow-500/40 cursor-pointer',
-                            ],
-                            // Paid
-                            square?.payment_status === 'paid' && [
-                              'bg-green-500/30 text-green-200',
-                              isClickable && 'hover:bg-green-500/40 cursor-pointer',
-                            ],
-                            // Loading/null state
-                            !square && 'bg-zinc-800',
-                            // Disabled state
-                            disabled && 'opacity-50 cursor-not-allowed'
-                          )}
-                          title={isWinner ? `🏆 WINNER! ${tooltip}` : tooltip}
-                        >
-                          {isWinner ? (
-                            <Trophy className="h-4 w-4 text-amber-400 sm:h-5 sm:w-5 lg:h-6 lg:w-6" />
-                          ) : (
-                            square?.payment_status !== 'available' && initials
-                          )}
-                        </button>
-                      );
+                    {/* Cells for this row */}
+                    {row.map((cell, colIndex) => {
+                      // A cell wins when any of its shares is a winning square
+                      const isWinner = cell.some((square) => square && winningSquareIds.includes(square.id));
+
+                      const renderSquare = (square: T | null, key: string, className?: string) => {
+                        const initials = square ? getInitials(square.claimant_first_name, square.claimant_last_name) : '';
+                        const tooltip = square ? getSquareTooltip(square) : 'Loading...';
+                        const isSelected =
+                          square?.payment_status === 'available' && selectedSquareIds.includes(square.id);
+
+                        return (
+                          <button
+                            key={key}
+                            type="button"
+                            disabled={!isClickable || !square}
+                            onClick={() => {
+                              if (isClickable && square) {
+                                onSquareClick(square);
+                              }
+                            }}
+                            className={cn(
+                              // Base styles - fixed height to match grid columns
+                              'rounded-sm font-medium transition-all flex items-center justify-center relative select-none',
+                              'text-xs sm:text-sm lg:rounded',
+                              sizeClasses.height,
+                              // Touch feedback
+                              isClickable && 'active:scale-95 active:opacity-80',
+                              // Available
+                              square?.payment_status === 'available' && !isSelected && [
+                                'bg-zinc-700',
+                                isClickable && 'hover:bg-zinc-600 cursor-pointer',
+                              ],
+                              // Selected (in cart)
+                              isSelected && [
+                                'bg-orange-500/40 text-orange-100 ring-2 ring-inset ring-orange-400',
+                                isClickable && 'hover:bg-orange-500/50 cursor-pointer',
+                              ],
+                              // Pending
+                              square?.payment_status === 'pending' && [
+                                'bg-yellow-500/30 text-yellow-200',
+                                isClickable && 'hover:bg-yellow-500/40 cursor-pointer',
+                              ],
+                              // Paid
+                              square?.payment_status === 'paid' && [
+                                'bg-green-500/30 text-green-200',
+                                isClickable && 'hover:bg-green-500/40 cursor-pointer',
+                              ],
+                              // Loading/null state
+                              !square && 'bg-zinc-800',
+                              // Disabled state
+                              disabled && 'opacity-50 cursor-not-allowed',
+                              className
+                            )}
+                            title={isWinner ? `🏆 WINNER! ${tooltip}` : isSelected ? 'Selected' : tooltip}
+                          >
+                            {isWinner ? (
+                              <Trophy className="h-4 w-4 text-amber-400 sm:h-5 sm:w-5 lg:h-6 lg:w-6" />
+                            ) : isSelected ? (
+                              <Check className="h-4 w-4 sm:h-5 sm:w-5" />
+                            ) : (
+                              square?.payment_status !== 'available' && initials
+                            )}
+                          </button>
+                        );
+                      };
+
+                      const winnerRing = isWinner && 'ring-2 ring-amber-400 ring-offset-1 ring-offset-zinc-900';
+
+                      // Squares sold in halves show each share side by side within the cell
+                      if (isShared) {
+                        return (
+                          <div
+                            key={`${rowIndex}-${colIndex}`}
+                            className={cn('grid grid-cols-2 gap-px rounded-sm lg:rounded', winnerRing)}
+                          >
+                            {cell.map((square, shareIndex) =>
+                              renderSquare(square, `${rowIndex}-${colIndex}-${shareIndex}`, 'text-[10px] sm:text-xs')
+                            )}
+                          </div>
+                        );
+                      }
+
+                      return renderSquare(cell[0], `${rowIndex}-${colIndex}`, winnerRing || undefined);
                     })}
                   </Fragment>
                 ))}
@@ -210,6 +310,12 @@ export function SquaresGrid<T extends GridSquare = GridSquare>({
               <div className="h-3 w-3 rounded-sm bg-zinc-700" />
               <span>Available</span>
             </div>
+            {selectedSquareIds.length > 0 && (
+              <div className="flex items-center gap-2">
+                <div className="h-3 w-3 rounded-sm bg-orange-500/40 ring-1 ring-inset ring-orange-400" />
+                <span>Selected</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <div className="h-3 w-3 rounded-sm bg-yellow-500/30" />
               <span>Pending</span>
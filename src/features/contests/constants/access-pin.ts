@@ -0,0 +1,6 @@
+/**
+ * Contest access PINs are 6 to 12 letters or numbers. Matches the check in
+ * 20260314000000_slow_pin_guessing_instead_of_locking.sql.
+ */
+export const ACCESS_PIN_MIN_LENGTH = 6;
+export const ACCESS_PIN_MAX_LENGTH = 12;
@@ -0,0 +1,41 @@
+/**
+ * Audit log action values.
+ * These match the CHECK constraint on `contest_audit_log.action`.
+ */
+export const AuditAction = {
+  SQUARE_CLAIMED: 'square_claimed',
+  SQUARE_RELEASED: 'square_released',
+  PAYMENT_STATUS_CHANGED: 'payment_status_changed',
+  SQUARE_UPDATED: 'square_updated',
+  NUMBERS_ASSIGNED: 'numbers_assigned',
+  SCORE_ENTERED: 'score_entered',
+  SCORE_DELETED: 'score_deleted',
+  STATUS_CHANGED: 'status_changed',
+  SETTINGS_UPDATED: 'settings_updated',
+} as const;
+
+export type AuditActionType = (typeof AuditAction)[keyof typeof AuditAction];
+
+export const AUDIT_ACTION_LABELS: Record<AuditActionType, string> = {
+  square_claimed: 'Square claimed',
+  square_released: 'Square released',
+  payment_status_changed: 'Payment status changed',
+  square_updated: 'Square updated',
+  numbers_assigned: 'Numbers assigned',
+  score_entered: 'Score entered',
+  score_deleted: 'Score deleted',
+  status_changed: 'Status changed',
+  settings_updated: 'Settings updated',
+};
+
+/**
+ * Who made a change: a signed-in organizer, an anonymous participant, or the service role
+ * (live score automation and scheduled jobs).
+ */
+export type AuditActorType = 'user' | 'participant' | 'system';
+
+export const AUDIT_ACTOR_LABELS: Record<AuditActorType, string> = {
+  user: 'Organizer',
+  participant: 'Participant',
+  system: 'System',
+};
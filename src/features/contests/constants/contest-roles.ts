@@ -0,0 +1,137 @@
+import { Database } from '@/libs/supabase/types';
+
+export type ContestRole = Database['public']['Enums']['contest_role'];
+
+/** Roles that can be given to an invited member (the owner is the contest's owner_id) */
+export type ContestMemberRole = Exclude<ContestRole, 'owner'>;
+
+export type ContestPermission =
+  | 'view_contest'
+  | 'manage_squares'
+  | 'enter_scores'
+  | 'manage_settings'
+  | 'manage_members'
+  | 'delete_contest';
+
+export interface ContestRoleDefinition {
+  type: ContestRole;
+  label: string;
+  description: string;
+  permissions: ContestPermission[];
+}
+
+/**
+ * What each person working on a contest can do. Mirrors the RLS policies in
+ * 20260221000000_add_contest_members.sql.
+ */
+export const CONTEST_ROLES: Record<ContestRole, ContestRoleDefinition> = {
+  owner: {
+    type: 'owner',
+    label: 'Owner',
+    description: 'Full control, including members and deleting the contest.',
+    permissions: [
+      'view_contest',
+      'manage_squares',
+      'enter_scores',
+      'manage_settings',
+      'manage_members',
+      'delete_contest',
+    ],
+  },
+  manager: {
+    type: 'manager',
+    label: 'Manager',
+    description:
+      'Runs the contest: settings, payment options, numbers, scores and squares. The price and payouts stay with the owner.',
+    permissions: ['view_contest', 'manage_squares', 'enter_scores', 'manage_settings'],
+  },
+  cashier: {
+    type: 'cashier',
+    label: 'Cashier',
+    description: 'Marks squares paid and manages claims.',
+    permissions: ['view_contest', 'manage_squares'],
+  },
+  viewer: {
+    type: 'viewer',
+    label: 'Viewer',
+    description: 'Read-only access to the dashboard.',
+    permissions: ['view_contest'],
+  },
+};
+
+export const CONTEST_MEMBER_ROLES = ['manager', 'cashier', 'viewer'] as const satisfies readonly ContestMemberRole[];
+
+export function hasContestPermission(role: ContestRole | null | undefined, permission: ContestPermission): boolean {
+  return !!role && CONTEST_ROLES[role].permissions.includes(permission);
+}
+
+type ContestField = keyof Database['public']['Tables']['contests']['Update'];
+
+/** Settings managers can change: how the contest is listed and run, who can get in and the claim rules */
+const MANAGER_CONTEST_FIELDS = [
+  'name',
+  'description',
+  'row_team_name',
+  'col_team_name',
+  'status',
+  'is_public',
+  'invite_only',
+  'is_super_bowl',
+  'redraw_numbers_each_period',
+  'enable_player_tracking',
+  'players',
+  'hero_image_url',
+  'hero_image_position',
+  'org_image_url',
+  'primary_color',
+  'secondary_color',
+  'max_squares_per_person',
+  'hide_quick_pick_locations',
+  'payment_deadline_hours',
+] as const satisfies readonly ContestField[];
+
+/** The price, the pot and what each period pays, which only the owner decides */
+const PAYOUT_CONTEST_FIELDS = [
+  'square_price',
+  'prize_type',
+  'score_change_payout',
+  'rollover_policy',
+  'pot_basis',
+  'organization_cut_percent',
+  'overtime_rule',
+  'payout_q1_percent',
+  'payout_q2_percent',
+  'payout_q3_percent',
+  'payout_final_percent',
+  'payout_ot_percent',
+  'payout_game1_percent',
+  'payout_game2_percent',
+  'payout_game3_percent',
+  'payout_game4_percent',
+  'payout_game5_percent',
+  'payout_game6_percent',
+  'payout_game7_percent',
+  'prize_q1_text',
+  'prize_q2_text',
+  'prize_q3_text',
+  'prize_final_text',
+  'prize_ot_text',
+  'secondary_reverse_percent',
+  'secondary_touching_percent',
+  'secondary_minus_one_percent',
+] as const satisfies readonly ContestField[];
+
+/**
+ * Contest columns each role may change with updateContest. Mirrors protect_contest_owner_fields in
+ * 20260309000000_restrict_member_contest_and_square_changes.sql.
+ */
+export const CONTEST_SETTINGS_FIELDS: Record<ContestRole, readonly ContestField[]> = {
+  owner: [...MANAGER_CONTEST_FIELDS, ...PAYOUT_CONTEST_FIELDS],
+  manager: MANAGER_CONTEST_FIELDS,
+  cashier: [],
+  viewer: [],
+};
+
+export function canChangeContestField(role: ContestRole | null | undefined, field: string): boolean {
+  return !!role && (CONTEST_SETTINGS_FIELDS[role] as readonly string[]).includes(field);
+}
@@ -2,20 +2,79 @@ export const ContestErrors = {
   NOT_FOUND: 'Contest not found',
   UNAUTHORIZED: 'You must be logged in',
   NOT_OWNER: 'You do not own this contest',
+  ROLE_NOT_ALLOWED: "Your role on this contest doesn't allow this",
   NOT_OPEN: 'This contest is not currently accepting claims',
+  ACCESS_DENIED: 'Enter the contest PIN to claim squares',
+  RATE_LIMITED: 'Too many requests. Please wait a moment and try again.',
+  PIN_INCORRECT: 'Incorrect PIN',
+  PIN_EXPIRED: 'This PIN has expired. Ask the organizer for the new one.',
+  INVALID_PIN: 'PIN must be 6 to 12 letters or numbers',
+  INVALID_PIN_EXPIRY: 'PIN expiry must be a date in the future',
+  NO_PIN: 'This contest does not have a PIN',
+  EMAIL_NOT_INVITED: 'This contest is invite-only. Use the email address your invitation was sent to.',
+  NO_INVITEE_EMAILS: 'No valid email addresses found',
+  INVITEE_NOT_FOUND: 'Invitee not found',
   SQUARE_TAKEN: 'This square has already been claimed. Please select another.',
   SQUARE_NOT_FOUND: 'Square not found',
   FAILED_TO_CLAIM: 'Failed to claim square. Please try again.',
   RACE_CONDITION: 'This square was just claimed by someone else. Please select another.',
+  INVALID_QUICK_PICK_COUNT: 'Choose how many squares you want picked for you',
+  CART_SQUARE_TAKEN: 'One of your squares was just claimed by someone else. Please review your selection.',
   SCORES_ONLY_IN_PROGRESS: 'Scores can only be entered when the contest is in progress',
   NUMBERS_REQUIRED: 'Grid numbers must be assigned before entering scores',
+  PERIOD_NUMBERS_REQUIRED: 'Numbers must be drawn for each quarter or game before entering its score',
+  PERIOD_NUMBERS_LOCKED: 'Numbers cannot be redrawn after a score has been entered for that period',
+  NOT_SCORE_CHANGE: 'This contest does not pay on score changes',
+  INVALID_SCORING_EVENT: 'Each scoring event needs a valid quarter or game and whole-number scores',
+  SCORING_EVENT_NOT_FOUND: 'Scoring event not found',
+  SCORING_EVENT_UNCHANGED: 'Each scoring play must change the score from the play before it',
+  INVALID_PERIOD: 'Scores include a quarter or game that does not apply to this contest',
   INVALID_STATUS: 'Invalid status value',
   ALL_FIELDS_REQUIRED: 'All required fields must be provided',
   NO_SQUARES_SELECTED: 'No squares selected',
   FAILED_TO_UPDATE: 'Failed to update square status',
   FAILED_TO_DELETE: 'Failed to delete',
+  INVALID_MEMBER_ROLE: 'Choose manager, cashier or viewer',
+  MEMBER_ALREADY_INVITED: 'That email has already been invited to this contest',
+  MEMBER_IS_OWNER: 'You already own this contest',
+  MEMBER_NOT_FOUND: 'Member not found',
+  INVITE_NOT_FOUND: 'This invite is no longer valid',
+  INVITE_EMAIL_MISMATCH: 'This invite was sent to a different email address',
+  RESTORE_EXPIRED: 'This contest is no longer in the trash and cannot be restored',
+  RESTORE_LIMIT_REACHED:
+    "You've reached your active contest limit. Complete or delete a contest, or upgrade, to restore this one.",
+  BULK_RELEASE_NOT_ALLOWED: 'Release squares one at a time so each release can be undone',
+  RELEASE_UNDO_EXPIRED: 'This release can no longer be undone',
+  SQUARE_RECLAIMED: 'This square has been claimed again since it was released',
 } as const;
 
 export const MAX_SQUARES_REACHED = (max: number): string =>
   `You have already claimed the maximum of ${max} square(s) for this contest.`;
 
+export const NOT_ENOUGH_SQUARES = (available: number): string =>
+  available > 0
+    ? `Only ${available} square(s) are still available. Please pick a smaller number.`
+    : 'There are no squares left to pick.';
+
+/** `wait` is how long until the client may guess again, e.g. "5m" */
+export const PIN_LOCKED = (wait: string): string => `Too many incorrect PINs. Try again in ${wait}.`;
+
+export const PIN_INCORRECT_WAIT = (wait: string): string => `Incorrect PIN. Try again in ${wait}.`;
+
+const CLAIMANT_FIELD_LABELS: Record<string, string> = {
+  first_name: 'First name is required and must be 50 characters or less',
+  last_name: 'Last name is required and must be 50 characters or less',
+  email: 'Please enter a valid email',
+  venmo: 'Payment handle must be 32 characters or less',
+};
+
+/** Message for the claimant field named in an invalid_claimant error's DETAIL */
+export const INVALID_CLAIMANT = (field: string): string =>
+  CLAIMANT_FIELD_LABELS[field] ?? ContestErrors.ALL_FIELDS_REQUIRED;
+
+export const TOO_MANY_INVITEES = (max: number): string =>
+  `You can add up to ${max} email addresses at a time. Split the list and try again.`;
+
+export const MAX_SQUARES_REMAINING = (max: number, remaining: number): string =>
+  `You can claim ${remaining} more square(s) in this contest (limit of ${max} per person).`;
+
@@ -0,0 +1,76 @@
+import { Database } from '@/libs/supabase/types';
+
+export type GridLayout = Database['public']['Enums']['grid_layout'];
+
+export interface GridLayoutDefinition {
+  type: GridLayout;
+  label: string;
+  description: string;
+  /** Rows (and columns) on each axis */
+  size: number;
+  /** Digits assigned to each row or column header */
+  digitsPerLine: number;
+  /** Owners who can share a single cell, each holding their own square */
+  sharesPerSquare: number;
+}
+
+export const GRID_LAYOUTS: Record<GridLayout, GridLayoutDefinition> = {
+  standard: {
+    type: 'standard',
+    label: '10x10',
+    description: '100 squares. Each row and column gets one digit.',
+    size: 10,
+    digitsPerLine: 1,
+    sharesPerSquare: 1,
+  },
+  five_by_five: {
+    type: 'five_by_five',
+    label: '5x5',
+    description: '25 squares for small pools. Each row and column gets two digits.',
+    size: 5,
+    digitsPerLine: 2,
+    sharesPerSquare: 1,
+  },
+  halves: {
+    type: 'halves',
+    label: '10x10 Halves',
+    description: '200 half squares. Two owners share each square and split its prize.',
+    size: 10,
+    digitsPerLine: 1,
+    sharesPerSquare: 2,
+  },
+};
+
+export const GRID_LAYOUT_TYPES = ['standard', 'five_by_five', 'halves'] as const satisfies readonly GridLayout[];
+
+export function getGridLayout(layout: GridLayout | null | undefined): GridLayoutDefinition {
+  return GRID_LAYOUTS[layout ?? 'standard'] ?? GRID_LAYOUTS.standard;
+}
+
+/** Number of sellable squares (halves count individually) */
+export function getTotalSquares(layout: GridLayout | null | undefined): number {
+  const { size, sharesPerSquare } = getGridLayout(layout);
+  return size * size * sharesPerSquare;
+}
+
+/**
+ * Finds the row or column that owns a digit. Axis numbers are always a permutation of 0-9;
+ * consecutive digits are grouped into lines when a layout has more than one digit per line.
+ * Returns -1 when the digit is not on the axis.
+ */
+export function getLineIndexForDigit(numbers: number[], digit: number, layout: GridLayout | null | undefined): number {
+  const position = numbers.indexOf(digit);
+  if (position === -1) return -1;
+  return Math.floor(position / getGridLayout(layout).digitsPerLine);
+}
+
+/** Splits axis numbers into the digits shown on each row or column header */
+export function groupLineDigits(numbers: number[], layout: GridLayout | null | undefined): number[][] {
+  const { size, digitsPerLine } = getGridLayout(layout);
+  return Array.from({ length: size }, (_, line) => numbers.slice(line * digitsPerLine, (line + 1) * digitsPerLine));
+}
+
+/** Formats a header's digits, e.g. "4" or "4/7" */
+export function formatLineDigits(digits: number[]): string {
+  return digits.join('/');
+}
@@ -1,3 +1,15 @@
+export * from './access-pin';
+export * from './audit-actions';
+export * from './contest-roles';
 export * from './error-messages';
+export * from './grid-layouts';
+export * from './invitees';
+export * from './overtime-rules';
+export * from './payment-deadline';
 export * from './payouts';
+export * from './quick-pick';
+export * from './rollover-policies';
+export * from './secondary-payouts';
+export * from './sports';
 export * from './status';
+export * from './trash';
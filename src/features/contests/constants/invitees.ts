@@ -0,0 +1,5 @@
+/** How long an emailed access link works. Invitees whose link expired can be sent a new one. */
+export const ACCESS_LINK_TTL_DAYS = 14;
+
+/** Most addresses one paste or CSV upload can add to a contest's allowlist */
+export const MAX_INVITEES_PER_ADD = 500;
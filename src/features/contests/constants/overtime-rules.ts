@@ -0,0 +1,43 @@
+import { Database } from '@/libs/supabase/types';
+
+export type OvertimeRule = Database['public']['Enums']['overtime_rule'];
+
+export interface OvertimeRuleDefinition {
+  type: OvertimeRule;
+  label: string;
+  description: string;
+}
+
+/**
+ * How a game that goes to overtime is paid, for sports with an overtime period.
+ */
+export const OVERTIME_RULES: Record<OvertimeRule, OvertimeRuleDefinition> = {
+  final_includes_ot: {
+    type: 'final_includes_ot',
+    label: 'Final includes OT',
+    description: 'The final prize is paid on the score after overtime.',
+  },
+  separate_ot: {
+    type: 'separate_ot',
+    label: 'Separate OT prize',
+    description: 'The final prize is paid at the end of regulation and overtime pays its own prize.',
+  },
+  regulation_final: {
+    type: 'regulation_final',
+    label: 'Regulation pays the final',
+    description: 'The final prize is paid at the end of regulation. Overtime points are ignored.',
+  },
+};
+
+export const OVERTIME_RULE_TYPES = [
+  'final_includes_ot',
+  'separate_ot',
+  'regulation_final',
+] as const satisfies readonly OvertimeRule[];
+
+export const DEFAULT_OVERTIME_RULE: OvertimeRule = 'final_includes_ot';
+
+/** Whether a rule pays the final prize on the score at the end of regulation */
+export function paysFinalAtRegulation(rule: OvertimeRule | null | undefined): boolean {
+  return (rule ?? DEFAULT_OVERTIME_RULE) !== 'final_includes_ot';
+}
@@ -0,0 +1,8 @@
+/** Longest payment deadline an owner can set (30 days). Matches the check in 20260228000000_add_payment_deadlines.sql. */
+export const PAYMENT_DEADLINE_MAX_HOURS = 720;
+
+/**
+ * How long before the deadline participants get a payment reminder, and the least notice they
+ * get before an unpaid square is released. Short deadlines remind at the halfway point instead.
+ */
+export const PAYMENT_REMINDER_HOURS_BEFORE_DEADLINE = 12;
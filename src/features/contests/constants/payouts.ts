@@ -1,21 +1,40 @@
-export type QuarterKey = 'q1' | 'q2' | 'q3' | 'final';
+import { Database } from '@/libs/supabase/types';
 
-export interface QuarterLabel {
-  key: QuarterKey;
+export const PRIZE_TEXT_MAX_LENGTH = 25;
+
+export const TOTAL_SQUARES = 100;
+
+export type PotBasis = Database['public']['Enums']['pot_basis'];
+
+export interface PotBasisDefinition {
+  type: PotBasis;
   label: string;
-  dbField: string;
-  formField: string;
-  color: string;
+  description: string;
 }
 
-export const FOOTBALL_QUARTER_LABELS: QuarterLabel[] = [
-  { key: 'q1', label: 'Q1', dbField: 'payout_q1_percent', formField: 'payoutQ1Percent', color: 'bg-amber-500' },
-  { key: 'q2', label: 'Halftime', dbField: 'payout_q2_percent', formField: 'payoutQ2Percent', color: 'bg-orange-500' },
-  { key: 'q3', label: 'Q3', dbField: 'payout_q3_percent', formField: 'payoutQ3Percent', color: 'bg-red-500' },
-  { key: 'final', label: 'Final', dbField: 'payout_final_percent', formField: 'payoutFinalPercent', color: 'bg-rose-600' },
-];
+/**
+ * Which squares the pot is counted from.
+ */
+export const POT_BASES: Record<PotBasis, PotBasisDefinition> = {
+  all: {
+    type: 'all',
+    label: 'Every square',
+    description: 'Prizes are based on a full grid, sold or not.',
+  },
+  claimed: {
+    type: 'claimed',
+    label: 'Claimed squares',
+    description: 'Prizes grow as squares are claimed, paid or not.',
+  },
+  paid: {
+    type: 'paid',
+    label: 'Paid squares',
+    description: 'Prizes grow as squares are paid for.',
+  },
+};
 
-export const PRIZE_TEXT_MAX_LENGTH = 25;
+export const POT_BASIS_TYPES = ['all', 'claimed', 'paid'] as const satisfies readonly PotBasis[];
 
-export const TOTAL_SQUARES = 100;
+export const DEFAULT_POT_BASIS: PotBasis = 'all';
 
+export const MAX_ORGANIZATION_CUT_PERCENT = 100;
@@ -0,0 +1,5 @@
+/** The most squares a participant can ask for in one quick pick */
+export const QUICK_PICK_MAX_SQUARES = 25;
+
+/** Counts offered as one-tap buttons in the quick pick dialog */
+export const QUICK_PICK_PRESETS = [1, 2, 5, 10] as const;
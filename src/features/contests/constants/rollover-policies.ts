@@ -0,0 +1,51 @@
+import { Database } from '@/libs/supabase/types';
+
+export type RolloverPolicy = Database['public']['Enums']['rollover_policy'];
+
+export interface RolloverPolicyDefinition {
+  type: RolloverPolicy;
+  label: string;
+  description: string;
+}
+
+/**
+ * What happens to a prize (or a share of one) won by an unclaimed square.
+ */
+export const ROLLOVER_POLICIES: Record<RolloverPolicy, RolloverPolicyDefinition> = {
+  house: {
+    type: 'house',
+    label: 'Fundraiser keeps it',
+    description: 'Unclaimed prizes go back to the fundraiser.',
+  },
+  next_period: {
+    type: 'next_period',
+    label: 'Roll to next period',
+    description: 'Unclaimed prizes are added to the next prize. The fundraiser keeps an unclaimed last prize.',
+  },
+  split_paid: {
+    type: 'split_paid',
+    label: 'Split among paid squares',
+    description: 'Unclaimed prizes are split evenly among every paid square.',
+  },
+  nearest_claimed: {
+    type: 'nearest_claimed',
+    label: 'Nearest claimed square',
+    description: 'Unclaimed prizes go to the closest claimed square on the grid.',
+  },
+};
+
+export const ROLLOVER_POLICY_TYPES = [
+  'house',
+  'next_period',
+  'split_paid',
+  'nearest_claimed',
+] as const satisfies readonly RolloverPolicy[];
+
+export const DEFAULT_ROLLOVER_POLICY: RolloverPolicy = 'house';
+
+/** Shown next to squares paid a share rolled over from an unclaimed square */
+export const ROLLOVER_LABEL = 'Rollover';
+
+export function getRolloverPolicy(policy: RolloverPolicy | null | undefined): RolloverPolicyDefinition {
+  return ROLLOVER_POLICIES[policy ?? DEFAULT_ROLLOVER_POLICY] ?? ROLLOVER_POLICIES[DEFAULT_ROLLOVER_POLICY];
+}
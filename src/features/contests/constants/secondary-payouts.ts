@@ -0,0 +1,76 @@
+import { Database } from '@/libs/supabase/types';
+
+import { getSport, SportType } from './sports';
+
+type ContestRow = Database['public']['Tables']['contests']['Row'];
+
+export type WinnerRole = Database['public']['Enums']['winner_role'];
+export type SecondaryWinnerRole = Exclude<WinnerRole, 'primary'>;
+
+/** Contest columns holding a secondary payout's share of each period's prize */
+export type SecondaryPayoutField = Extract<keyof ContestRow, `secondary_${string}_percent`>;
+
+export interface SecondaryPayoutRule {
+  role: SecondaryWinnerRole;
+  label: string;
+  description: string;
+  field: SecondaryPayoutField;
+  /** Only paid for the final score, so only offered for sports with a final period */
+  finalOnly: boolean;
+}
+
+/**
+ * Secondary payouts pay a share of a period's prize to squares other than the winner.
+ * Whatever isn't paid out to them stays with the winning square.
+ */
+export const SECONDARY_PAYOUT_RULES: SecondaryPayoutRule[] = [
+  {
+    role: 'reverse',
+    label: 'Reverse',
+    description: 'The square with the winning digits swapped',
+    field: 'secondary_reverse_percent',
+    finalOnly: false,
+  },
+  {
+    role: 'touching',
+    label: 'Touching',
+    description: 'Every square touching the winner, split evenly',
+    field: 'secondary_touching_percent',
+    finalOnly: false,
+  },
+  {
+    role: 'minus_one',
+    label: 'Final Minus One',
+    description: 'The square one below each digit of the final score',
+    field: 'secondary_minus_one_percent',
+    finalOnly: true,
+  },
+];
+
+export const WINNER_ROLE_LABELS: Record<WinnerRole, string> = {
+  primary: 'Winner',
+  reverse: 'Reverse',
+  touching: 'Touching',
+  minus_one: 'Final Minus One',
+};
+
+/** The winning square always keeps at least half of a period's prize */
+export const MAX_SECONDARY_PAYOUT_PERCENT = 50;
+
+/**
+ * Secondary payout rules that apply to a sport. "Final minus one" needs a final period.
+ */
+export function getSecondaryPayoutRules(sportType: SportType): SecondaryPayoutRule[] {
+  const hasFinal = getSport(sportType).periods.some((p) => p.key === 'final');
+  return SECONDARY_PAYOUT_RULES.filter((rule) => !rule.finalOnly || hasFinal);
+}
+
+/**
+ * Sums the secondary payout percentages that apply to a sport.
+ */
+export function sumSecondaryPercent(
+  sportType: SportType,
+  values: Partial<Record<SecondaryPayoutField, unknown>>
+): number {
+  return getSecondaryPayoutRules(sportType).reduce((sum, rule) => sum + (Number(values[rule.field]) || 0), 0);
+}
@@ -0,0 +1,453 @@
+import { Database } from '@/libs/supabase/types';
+
+import { OvertimeRule, paysFinalAtRegulation } from './overtime-rules';
+
+type ContestRow = Database['public']['Tables']['contests']['Row'];
+type GameQuarter = Database['public']['Enums']['game_quarter'];
+
+export type SportType = Database['public']['Enums']['sport_type'];
+
+/** Contest columns holding a period's payout percentage */
+export type PayoutDbField = Extract<keyof ContestRow, `payout_${string}_percent`>;
+
+/** Contest columns holding a period's custom prize description */
+export type PrizeTextDbField = Extract<keyof ContestRow, `prize_${string}_text`>;
+
+/** Create-contest form fields holding a period's payout percentage */
+export type PayoutFormField =
+  | 'payoutQ1Percent'
+  | 'payoutQ2Percent'
+  | 'payoutQ3Percent'
+  | 'payoutFinalPercent'
+  | 'payoutOtPercent'
+  | 'payoutGame1Percent'
+  | 'payoutGame2Percent'
+  | 'payoutGame3Percent'
+  | 'payoutGame4Percent'
+  | 'payoutGame5Percent'
+  | 'payoutGame6Percent'
+  | 'payoutGame7Percent';
+
+/** Create-contest form fields holding a period's custom prize description */
+export type PrizeTextFormField = 'prizeQ1Text' | 'prizeQ2Text' | 'prizeQ3Text' | 'prizeFinalText' | 'prizeOtText';
+
+/**
+ * A scoring period (quarter, half, period or game) that pays out a winner.
+ * `key` is the value stored in `scores.quarter`.
+ */
+export interface PeriodDefinition {
+  key: GameQuarter;
+  label: string;
+  payoutField: PayoutDbField;
+  payoutFormField: PayoutFormField;
+  /** Only set for periods that support custom prize text */
+  prizeTextField?: PrizeTextDbField;
+  prizeTextFormField?: PrizeTextFormField;
+  color: string;
+  defaultPercent: number;
+}
+
+export interface SportDefinition {
+  type: SportType;
+  label: string;
+  /** Singular noun for a period, e.g. "quarter" or "game" */
+  periodNoun: string;
+  periods: PeriodDefinition[];
+  /** Maps a team's score to the digit matched against the grid axis */
+  scoreDigit: (score: number) => number;
+  description: string;
+  /** Shown in the wizard when some periods may never be played */
+  unplayedPeriodNote?: string;
+  /** Paid as its own period when the contest's overtime rule is separate_ot */
+  overtimePeriod?: PeriodDefinition;
+  placeholders: { name: string; row: string; col: string };
+}
+
+const lastDigit = (score: number) => score % 10;
+
+const GRID_DESCRIPTION =
+  "Your 10×10 grid will have the row team's last digit of their score on the left axis, and the column team's on the top.";
+
+const FOOTBALL: SportDefinition = {
+  type: 'football',
+  label: 'Football',
+  periodNoun: 'quarter',
+  periods: [
+    {
+      key: 'q1',
+      label: 'Q1',
+      payoutField: 'payout_q1_percent',
+      payoutFormField: 'payoutQ1Percent',
+      prizeTextField: 'prize_q1_text',
+      prizeTextFormField: 'prizeQ1Text',
+      color: 'bg-amber-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q2',
+      label: 'Halftime',
+      payoutField: 'payout_q2_percent',
+      payoutFormField: 'payoutQ2Percent',
+      prizeTextField: 'prize_q2_text',
+      prizeTextFormField: 'prizeQ2Text',
+      color: 'bg-orange-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q3',
+      label: 'Q3',
+      payoutField: 'payout_q3_percent',
+      payoutFormField: 'payoutQ3Percent',
+      prizeTextField: 'prize_q3_text',
+      prizeTextFormField: 'prizeQ3Text',
+      color: 'bg-red-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'final',
+      label: 'Final',
+      payoutField: 'payout_final_percent',
+      payoutFormField: 'payoutFinalPercent',
+      prizeTextField: 'prize_final_text',
+      prizeTextFormField: 'prizeFinalText',
+      color: 'bg-rose-600',
+      defaultPercent: 20,
+    },
+  ],
+  overtimePeriod: {
+    key: 'ot',
+    label: 'OT',
+    payoutField: 'payout_ot_percent',
+    payoutFormField: 'payoutOtPercent',
+    prizeTextField: 'prize_ot_text',
+    prizeTextFormField: 'prizeOtText',
+    color: 'bg-rose-800',
+    defaultPercent: 0,
+  },
+  scoreDigit: lastDigit,
+  description: `${GRID_DESCRIPTION} Winners are determined by matching the last digit of each team's score at the end of each quarter.`,
+  placeholders: { name: 'Super Bowl Squares 2025', row: 'Kansas City Chiefs', col: 'San Francisco 49ers' },
+};
+
+const BASEBALL: SportDefinition = {
+  type: 'baseball',
+  label: 'Baseball',
+  periodNoun: 'game',
+  periods: [
+    {
+      key: 'game1',
+      label: 'Game 1',
+      payoutField: 'payout_game1_percent',
+      payoutFormField: 'payoutGame1Percent',
+      color: 'bg-blue-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'game2',
+      label: 'Game 2',
+      payoutField: 'payout_game2_percent',
+      payoutFormField: 'payoutGame2Percent',
+      color: 'bg-blue-600',
+      defaultPercent: 10,
+    },
+    {
+      key: 'game3',
+      label: 'Game 3',
+      payoutField: 'payout_game3_percent',
+      payoutFormField: 'payoutGame3Percent',
+      color: 'bg-indigo-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'game4',
+      label: 'Game 4',
+      payoutField: 'payout_game4_percent',
+      payoutFormField: 'payoutGame4Percent',
+      color: 'bg-indigo-600',
+      defaultPercent: 10,
+    },
+    {
+      key: 'game5',
+      label: 'Game 5',
+      payoutField: 'payout_game5_percent',
+      payoutFormField: 'payoutGame5Percent',
+      color: 'bg-violet-500',
+      defaultPercent: 15,
+    },
+    {
+      key: 'game6',
+      label: 'Game 6',
+      payoutField: 'payout_game6_percent',
+      payoutFormField: 'payoutGame6Percent',
+      color: 'bg-violet-600',
+      defaultPercent: 15,
+    },
+    {
+      key: 'game7',
+      label: 'Game 7',
+      payoutField: 'payout_game7_percent',
+      payoutFormField: 'payoutGame7Percent',
+      color: 'bg-purple-600',
+      defaultPercent: 30,
+    },
+  ],
+  scoreDigit: lastDigit,
+  description: `${GRID_DESCRIPTION} Winners are determined by matching the last digit of each team's score at the end of each game in the series.`,
+  unplayedPeriodNote: 'If the series ends early, remaining game payouts go to the fundraiser.',
+  placeholders: { name: 'World Series Squares 2025', row: 'New York Yankees', col: 'Los Angeles Dodgers' },
+};
+
+const HOCKEY: SportDefinition = {
+  type: 'hockey',
+  label: 'Hockey',
+  periodNoun: 'period',
+  periods: [
+    {
+      key: 'q1',
+      label: 'P1',
+      payoutField: 'payout_q1_percent',
+      payoutFormField: 'payoutQ1Percent',
+      prizeTextField: 'prize_q1_text',
+      prizeTextFormField: 'prizeQ1Text',
+      color: 'bg-sky-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q2',
+      label: 'P2',
+      payoutField: 'payout_q2_percent',
+      payoutFormField: 'payoutQ2Percent',
+      prizeTextField: 'prize_q2_text',
+      prizeTextFormField: 'prizeQ2Text',
+      color: 'bg-sky-600',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q3',
+      label: 'P3',
+      payoutField: 'payout_q3_percent',
+      payoutFormField: 'payoutQ3Percent',
+      prizeTextField: 'prize_q3_text',
+      prizeTextFormField: 'prizeQ3Text',
+      color: 'bg-cyan-600',
+      defaultPercent: 20,
+    },
+    {
+      key: 'ot',
+      label: 'OT',
+      payoutField: 'payout_ot_percent',
+      payoutFormField: 'payoutOtPercent',
+      prizeTextField: 'prize_ot_text',
+      prizeTextFormField: 'prizeOtText',
+      color: 'bg-teal-600',
+      defaultPercent: 10,
+    },
+  ],
+  scoreDigit: lastDigit,
+  description: `${GRID_DESCRIPTION} Winners are determined by matching the last digit of each team's score at the end of each period and after overtime.`,
+  unplayedPeriodNote: 'If the game ends in regulation, the OT payout goes to the fundraiser.',
+  placeholders: { name: 'Stanley Cup Squares 2025', row: 'Florida Panthers', col: 'Edmonton Oilers' },
+};
+
+const BASKETBALL: SportDefinition = {
+  type: 'basketball',
+  label: 'Basketball',
+  periodNoun: 'quarter',
+  periods: [
+    {
+      key: 'q1',
+      label: 'Q1',
+      payoutField: 'payout_q1_percent',
+      payoutFormField: 'payoutQ1Percent',
+      prizeTextField: 'prize_q1_text',
+      prizeTextFormField: 'prizeQ1Text',
+      color: 'bg-orange-400',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q2',
+      label: 'Halftime',
+      payoutField: 'payout_q2_percent',
+      payoutFormField: 'payoutQ2Percent',
+      prizeTextField: 'prize_q2_text',
+      prizeTextFormField: 'prizeQ2Text',
+      color: 'bg-orange-500',
+      defaultPercent: 10,
+    },
+    {
+      key: 'q3',
+      label: 'Q3',
+      payoutField: 'payout_q3_percent',
+      payoutFormField: 'payoutQ3Percent',
+      prizeTextField: 'prize_q3_text',
+      prizeTextFormField: 'prizeQ3Text',
+      color: 'bg-orange-600',
+      defaultPercent: 10,
+    },
+    {
+      key: 'final',
+      label: 'Final',
+      payoutField: 'payout_final_percent',
+      payoutFormField: 'payoutFinalPercent',
+      prizeTextField: 'prize_final_text',
+      prizeTextFormField: 'prizeFinalText',
+      color: 'bg-orange-700',
+      defaultPercent: 20,
+    },
+  ],
+  scoreDigit: lastDigit,
+  description: `${GRID_DESCRIPTION} Winners are determined by matching the last digit of each team's score at the end of each quarter, including halftime.`,
+  placeholders: { name: 'March Madness Squares 2025', row: 'Duke Blue Devils', col: 'North Carolina Tar Heels' },
+};
+
+const SOCCER: SportDefinition = {
+  type: 'soccer',
+  label: 'Soccer',
+  periodNoun: 'half',
+  periods: [
+    {
+      key: 'q2',
+      label: 'Halftime',
+      payoutField: 'payout_q2_percent',
+      payoutFormField: 'payoutQ2Percent',
+      prizeTextField: 'prize_q2_text',
+      prizeTextFormField: 'prizeQ2Text',
+      color: 'bg-emerald-500',
+      defaultPercent: 20,
+    },
+    {
+      key: 'final',
+      label: 'Full Time',
+      payoutField: 'payout_final_percent',
+      payoutFormField: 'payoutFinalPercent',
+      prizeTextField: 'prize_final_text',
+      prizeTextFormField: 'prizeFinalText',
+      color: 'bg-emerald-700',
+      defaultPercent: 30,
+    },
+  ],
+  scoreDigit: lastDigit,
+  description: `${GRID_DESCRIPTION} Winners are determined by matching the last digit of each team's score at halftime and full time.`,
+  placeholders: { name: 'World Cup Final Squares 2026', row: 'Argentina', col: 'France' },
+};
+
+/**
+ * Registry of supported sports. Every screen that deals with periods, payouts
+ * or winners reads from here, so adding a sport only requires a new entry.
+ */
+export const SPORTS: Record<SportType, SportDefinition> = {
+  football: FOOTBALL,
+  baseball: BASEBALL,
+  hockey: HOCKEY,
+  basketball: BASKETBALL,
+  soccer: SOCCER,
+};
+
+export const SPORT_TYPES = [
+  'football',
+  'baseball',
+  'hockey',
+  'basketball',
+  'soccer',
+] as const satisfies readonly SportType[];
+
+/** Every payout column used by any sport */
+export const ALL_PAYOUT_FIELDS = [
+  ...new Set(Object.values(SPORTS).flatMap((s) => s.periods.map((p) => p.payoutField))),
+];
+
+/** Every prize text column used by any sport */
+export const ALL_PRIZE_TEXT_FIELDS = [
+  ...new Set(
+    Object.values(SPORTS).flatMap((s) => s.periods.flatMap((p) => (p.prizeTextField ? [p.prizeTextField] : [])))
+  ),
+];
+
+/** Sports with an overtime period, with that period paid after the others */
+const SPORTS_WITH_OVERTIME_PERIOD = Object.fromEntries(
+  Object.values(SPORTS).flatMap((sport) =>
+    sport.overtimePeriod
+      ? [
+          [
+            sport.type,
+            {
+              ...sport,
+              periods: [...sport.periods, sport.overtimePeriod],
+              unplayedPeriodNote: 'If the game ends in regulation, the OT payout goes to the fundraiser.',
+            },
+          ],
+        ]
+      : []
+  )
+) as Partial<Record<SportType, SportDefinition>>;
+
+/**
+ * Returns a sport's definition. Pass the contest's overtime rule so a separately paid
+ * overtime shows up as a period.
+ */
+export function getSport(sportType: SportType, overtimeRule?: OvertimeRule | null): SportDefinition {
+  if (overtimeRule === 'separate_ot' && SPORTS_WITH_OVERTIME_PERIOD[sportType]) {
+    return SPORTS_WITH_OVERTIME_PERIOD[sportType];
+  }
+  return SPORTS[sportType] ?? FOOTBALL;
+}
+
+export function getPeriod(
+  sportType: SportType,
+  quarter: GameQuarter,
+  overtimeRule?: OvertimeRule | null
+): PeriodDefinition | undefined {
+  return getSport(sportType, overtimeRule).periods.find((p) => p.key === quarter);
+}
+
+/**
+ * Returns the display label for a period, falling back to the raw key.
+ */
+export function getPeriodLabel(sportType: SportType, quarter: GameQuarter, overtimeRule?: OvertimeRule | null): string {
+  return getPeriod(sportType, quarter, overtimeRule)?.label ?? quarter;
+}
+
+/**
+ * Whether contests of a sport choose how overtime is paid.
+ */
+export function supportsOvertimeRules(sportType: SportType): boolean {
+  return !!SPORTS[sportType]?.overtimePeriod;
+}
+
+/**
+ * Label for a recorded score. A final from a game that went to overtime says whether
+ * it counts the overtime points, e.g. "Final (OT)" or "Final (Regulation)".
+ */
+export function getScoreLabel(
+  sportType: SportType,
+  quarter: GameQuarter,
+  overtimeRule: OvertimeRule | null | undefined,
+  wentToOvertime: boolean | null | undefined
+): string {
+  const label = getPeriodLabel(sportType, quarter, overtimeRule);
+  if (quarter !== 'final' || !wentToOvertime || !supportsOvertimeRules(sportType)) return label;
+  return paysFinalAtRegulation(overtimeRule) ? `${label} (Regulation)` : `${label} (OT)`;
+}
+
+/**
+ * Sums the payout percentages of a sport's periods from either contest columns
+ * or create-contest form values.
+ */
+export function sumPayoutPercent(
+  sportType: SportType,
+  values: Partial<Record<PayoutDbField | PayoutFormField, unknown>>,
+  source: 'db' | 'form' = 'db',
+  overtimeRule?: OvertimeRule | null
+): number {
+  return getSport(sportType, overtimeRule).periods.reduce((sum, period) => {
+    const field = source === 'db' ? period.payoutField : period.payoutFormField;
+    return sum + (Number(values[field]) || 0);
+  }, 0);
+}
+
+/**
+ * Whether custom prize text can be configured for every period of a sport.
+ */
+export function supportsCustomPrizes(sportType: SportType): boolean {
+  return getSport(sportType).periods.every((p) => p.prizeTextField);
+}
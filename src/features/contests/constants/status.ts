@@ -33,6 +33,7 @@ export const GameQuarter = {
   Q2: 'q2',
   Q3: 'q3',
   FINAL: 'final',
+  OT: 'ot',
   // Baseball games
   GAME1: 'game1',
   GAME2: 'game2',
@@ -44,21 +45,3 @@ export const GameQuarter = {
 } as const;
 
 export type GameQuarterType = (typeof GameQuarter)[keyof typeof GameQuarter];
-
-/**
- * Display names for quarters/games
- */
-export const QuarterDisplayNames: Record<GameQuarterType, string> = {
-  q1: 'Q1',
-  q2: 'Halftime',
-  q3: 'Q3',
-  final: 'Final',
-  game1: 'Game 1',
-  game2: 'Game 2',
-  game3: 'Game 3',
-  game4: 'Game 4',
-  game5: 'Game 5',
-  game6: 'Game 6',
-  game7: 'Game 7',
-};
-
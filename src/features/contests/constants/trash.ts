@@ -0,0 +1,8 @@
+/**
+ * How long a deleted contest stays in the trash before the purge job removes it for good.
+ * Matches the interval in 20260224000000_add_contest_trash_and_square_undo.sql.
+ */
+export const CONTEST_TRASH_RETENTION_DAYS = 30;
+
+/** How long after releasing a square an organizer can undo it and restore the claimant */
+export const SQUARE_RELEASE_UNDO_WINDOW_MINUTES = 10;
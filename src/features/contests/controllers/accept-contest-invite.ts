@@ -0,0 +1,44 @@
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { User } from '@supabase/supabase-js';
+
+export type AcceptContestInviteResult = { contestId: string; error: null } | { contestId: null; error: string };
+
+/**
+ * Accepts a contest invite for the signed-in user. Invites are bound to the email they were
+ * sent to, so a forwarded link can't be used by someone else. Uses the admin client because
+ * the invitee isn't a member (and can't see the invite) until it's accepted.
+ */
+export async function acceptContestInvite(token: string, user: User): Promise<AcceptContestInviteResult> {
+  const { data: invite } = await supabaseAdminClient
+    .from('contest_members')
+    .select('id, contest_id, email, user_id, contests(owner_id, deleted_at)')
+    .eq('invite_token', token)
+    .maybeSingle();
+
+  if (!invite || !invite.contests || invite.contests.deleted_at) {
+    return { contestId: null, error: ContestErrors.INVITE_NOT_FOUND };
+  }
+
+  // Already accepted by this user - just take them to the contest
+  if (invite.user_id === user.id || invite.contests.owner_id === user.id) {
+    return { contestId: invite.contest_id, error: null };
+  }
+
+  if (invite.user_id || invite.email !== user.email?.toLowerCase()) {
+    return { contestId: null, error: ContestErrors.INVITE_EMAIL_MISMATCH };
+  }
+
+  const { error } = await supabaseAdminClient
+    .from('contest_members')
+    .update({ user_id: user.id, accepted_at: getCurrentISOString() })
+    .eq('id', invite.id)
+    .is('user_id', null);
+
+  if (error) {
+    return { contestId: null, error: ContestErrors.INVITE_NOT_FOUND };
+  }
+
+  return { contestId: invite.contest_id, error: null };
+}
@@ -0,0 +1,228 @@
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { claimExpiredEmail } from '@/features/emails/templates/claim-expired-email';
+import { paymentReminderEmail } from '@/features/emails/templates/payment-reminder-email';
+import { expireReleasedCheckouts } from '@/features/square-payments/controllers/expire-released-checkouts';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { getURL } from '@/utils/get-url';
+import { logger } from '@/utils/logger';
+
+import { PAYMENT_REMINDER_HOURS_BEFORE_DEADLINE, PaymentStatus } from '../constants';
+import { getPaymentDueAt, isPaymentReminderDue } from '../utils/payment-deadline';
+import { isSquareLocationHidden } from '../utils/quick-pick';
+
+export interface ExpirePendingClaimsResult {
+  reminded: number;
+  released: number;
+}
+
+interface ClaimantSquare {
+  id: string;
+  contest_id: string;
+  row_index: number;
+  col_index: number;
+  quick_picked: boolean;
+  claimant_email: string | null;
+  claimant_first_name: string | null;
+}
+
+const CONTEST_COLUMNS =
+  'id, name, slug, row_team_name, col_team_name, square_price, payment_deadline_hours, hide_quick_pick_locations, row_numbers';
+
+/** Groups squares by contest and claimant so each participant gets one email per contest */
+function groupByClaimant<T extends ClaimantSquare>(squares: T[]): T[][] {
+  const groups = new Map<string, T[]>();
+
+  for (const square of squares) {
+    if (!square.claimant_email) continue;
+    const key = `${square.contest_id}:${square.claimant_email.toLowerCase()}`;
+    groups.set(key, [...(groups.get(key) ?? []), square]);
+  }
+
+  return Array.from(groups.values()).map((group) =>
+    group.sort((a, b) => a.row_index - b.row_index || a.col_index - b.col_index)
+  );
+}
+
+/**
+ * Releases pending squares whose payment deadline has passed, expires the card checkouts they
+ * were waiting on, and tells each claimant which of their squares went back on the grid.
+ */
+async function releaseExpiredClaims(): Promise<number> {
+  const { data: released, error } = await supabaseAdminClient.rpc('release_expired_claims', {
+    p_reminder_hours: PAYMENT_REMINDER_HOURS_BEFORE_DEADLINE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to release expired claims: ${error.message}`);
+  }
+
+  if (!released?.length) return 0;
+
+  await expireReleasedCheckouts(released.map((square) => square.stripe_checkout_session_id));
+
+  const squares = released.map(({ square_id, ...square }) => ({ ...square, id: square_id }));
+  const contestIds = Array.from(new Set(squares.map((square) => square.contest_id)));
+
+  const { data: contests, error: contestsError } = await supabaseAdminClient
+    .from('contests')
+    .select(CONTEST_COLUMNS)
+    .in('id', contestIds);
+
+  // The squares are already released; only the emails are lost
+  if (contestsError) {
+    logger.error('expirePendingClaims', contestsError, { contestIds });
+    return squares.length;
+  }
+
+  const contestsById = new Map((contests ?? []).map((contest) => [contest.id, contest]));
+
+  for (const group of groupByClaimant(squares)) {
+    const contest = contestsById.get(group[0].contest_id);
+    if (!contest) continue;
+
+    await sendEmailSafe({
+      to: group[0].claimant_email!,
+      template: claimExpiredEmail({
+        participantName: group[0].claimant_first_name || 'there',
+        contestName: contest.name,
+        rowTeamName: contest.row_team_name,
+        colTeamName: contest.col_team_name,
+        squares: group.map((square) => ({ rowIndex: square.row_index, colIndex: square.col_index })),
+        hideLocations: group.some((square) => isSquareLocationHidden(contest, square)),
+        contestUrl: `${getURL()}/contest/${contest.slug}`,
+      }),
+      contestId: contest.id,
+      squareIds: group.map((square) => square.id),
+      emailType: 'claim_expired',
+    });
+  }
+
+  return squares.length;
+}
+
+/**
+ * Emails a payment reminder for pending squares nearing their deadline. Squares are marked
+ * before sending so overlapping runs never remind twice, and unmarked again if the email
+ * fails so the next run retries (a square is never released without its reminder).
+ */
+async function sendPaymentReminders(): Promise<number> {
+  const { data: contests, error: contestsError } = await supabaseAdminClient
+    .from('contests')
+    .select(CONTEST_COLUMNS)
+    .eq('status', 'open')
+    .is('deleted_at', null)
+    .not('payment_deadline_hours', 'is', null);
+
+  if (contestsError) {
+    throw new Error(`Failed to fetch contests with payment deadlines: ${contestsError.message}`);
+  }
+
+  if (!contests?.length) return 0;
+
+  const contestIds = contests.map((contest) => contest.id);
+  const { data: pending, error: pendingError } = await supabaseAdminClient
+    .from('squares')
+    .select('id, contest_id, row_index, col_index, quick_picked, claimant_email, claimant_first_name, claimed_at')
+    .in('contest_id', contestIds)
+    .eq('payment_status', PaymentStatus.PENDING)
+    .is('payment_reminder_sent_at', null)
+    .not('claimed_at', 'is', null);
+
+  if (pendingError) {
+    throw new Error(`Failed to fetch pending squares: ${pendingError.message}`);
+  }
+
+  const contestsById = new Map(contests.map((contest) => [contest.id, contest]));
+  const now = new Date();
+
+  const due = (pending ?? []).filter((square) => {
+    const deadlineHours = contestsById.get(square.contest_id)?.payment_deadline_hours;
+    return deadlineHours && square.claimed_at && isPaymentReminderDue(square.claimed_at, deadlineHours, now);
+  });
+
+  let reminded = 0;
+
+  for (const group of groupByClaimant(due)) {
+    const contest = contestsById.get(group[0].contest_id)!;
+    const deadlineHours = contest.payment_deadline_hours!;
+    const squareIds = group.map((square) => square.id);
+    const sentAt = getCurrentISOString();
+
+    const { data: marked, error: markError } = await supabaseAdminClient
+      .from('squares')
+      .update({ payment_reminder_sent_at: sentAt })
+      .in('id', squareIds)
+      .eq('payment_status', PaymentStatus.PENDING)
+      .is('payment_reminder_sent_at', null)
+      .select('id');
+
+    if (markError) {
+      logger.error('expirePendingClaims', markError, { contestId: contest.id });
+      continue;
+    }
+
+    // Paid or released since the query above
+    const markedIds = new Set((marked ?? []).map((square) => square.id));
+    const squares = group.filter((square) => markedIds.has(square.id));
+    if (squares.length === 0) continue;
+
+    const dueAt = Math.min(
+      ...squares.map((square) => getPaymentDueAt(square.claimed_at!, deadlineHours, sentAt).getTime())
+    );
+
+    const { data: paymentOptions } = await supabaseAdminClient
+      .from('payment_options')
+      .select('type, handle_or_link')
+      .eq('contest_id', contest.id)
+      .order('sort_order', { ascending: true });
+
+    const sent = await sendEmailSafe({
+      to: squares[0].claimant_email!,
+      template: paymentReminderEmail({
+        participantName: squares[0].claimant_first_name || 'there',
+        contestName: contest.name,
+        rowTeamName: contest.row_team_name,
+        colTeamName: contest.col_team_name,
+        squares: squares.map((square) => ({ rowIndex: square.row_index, colIndex: square.col_index })),
+        hideLocations: squares.some((square) => isSquareLocationHidden(contest, square)),
+        squarePrice: contest.square_price,
+        hoursRemaining: Math.floor((dueAt - now.getTime()) / (60 * 60 * 1000)),
+        contestUrl: `${getURL()}/contest/${contest.slug}`,
+        paymentOptions: (paymentOptions ?? []).map((opt) => ({
+          type: opt.type,
+          handle: opt.handle_or_link,
+          link: opt.handle_or_link.startsWith('http') ? opt.handle_or_link : undefined,
+        })),
+      }),
+      contestId: contest.id,
+      squareIds: squares.map((square) => square.id),
+      emailType: 'payment_reminder',
+    });
+
+    if (!sent) {
+      await supabaseAdminClient
+        .from('squares')
+        .update({ payment_reminder_sent_at: null })
+        .in('id', Array.from(markedIds))
+        .eq('payment_reminder_sent_at', sentAt);
+      continue;
+    }
+
+    reminded += squares.length;
+  }
+
+  return reminded;
+}
+
+/**
+ * Enforces contest payment deadlines: releases pending squares that are past due, then reminds
+ * participants whose deadline is coming up. Run by the expire-pending-claims cron job, which
+ * should be scheduled at least hourly so reminders land well ahead of the deadline.
+ */
+export async function expirePendingClaims(): Promise<ExpirePendingClaimsResult> {
+  const released = await releaseExpiredClaims();
+  const reminded = await sendPaymentReminders();
+
+  return { reminded, released };
+}
@@ -0,0 +1,105 @@
+import {
+  ContestErrors,
+  INVALID_CLAIMANT,
+  MAX_SQUARES_REACHED,
+  MAX_SQUARES_REMAINING,
+  NOT_ENOUGH_SQUARES,
+} from '@/features/contests/constants/error-messages';
+import { getPaymentOptionsForContest } from '@/features/contests/queries/get-payment-options';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { squareClaimedEmail } from '@/features/emails/templates/square-claimed-email';
+import { getURL } from '@/utils/get-url';
+import { PostgrestError } from '@supabase/supabase-js';
+
+export interface ClaimedSquare {
+  id: string;
+  row_index: number;
+  col_index: number;
+}
+
+interface ClaimedContest {
+  id: string;
+  name: string;
+  slug: string;
+  row_team_name: string;
+  col_team_name: string;
+  square_price: number;
+  max_squares_per_person: number | null;
+  payment_deadline_hours: number | null;
+}
+
+/**
+ * Maps an error raised by the claim_squares / quick_pick_squares functions to a message for
+ * the participant, or null when it isn't one of theirs (the caller logs it).
+ */
+export function getClaimErrorMessage(error: PostgrestError, contest: ClaimedContest, requested: number): string | null {
+  // Squares left for the participant, or left on the grid for not_enough_squares
+  const remaining = Number(error.details) || 0;
+
+  switch (error.message) {
+    case 'contest_not_found':
+      return ContestErrors.NOT_FOUND;
+    case 'contest_not_open':
+      return ContestErrors.NOT_OPEN;
+    case 'contest_access_denied':
+      return ContestErrors.ACCESS_DENIED;
+    case 'invalid_claimant':
+      return INVALID_CLAIMANT(error.details);
+    case 'email_not_invited':
+      return ContestErrors.EMAIL_NOT_INVITED;
+    case 'square_taken':
+      return requested > 1 ? ContestErrors.CART_SQUARE_TAKEN : ContestErrors.RACE_CONDITION;
+    case 'not_enough_squares':
+      return NOT_ENOUGH_SQUARES(remaining);
+    case 'max_squares_reached': {
+      const max = contest.max_squares_per_person ?? 0;
+      return remaining > 0 ? MAX_SQUARES_REMAINING(max, remaining) : MAX_SQUARES_REACHED(max);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Sends one confirmation email listing every square in a claim with the total due and the
+ * contest's payment options. Doesn't block on failure.
+ */
+export async function notifySquaresClaimed({
+  contest,
+  squares,
+  email,
+  firstName,
+  hideLocations = false,
+}: {
+  contest: ClaimedContest;
+  squares: ClaimedSquare[];
+  email: string;
+  firstName: string;
+  hideLocations?: boolean;
+}): Promise<void> {
+  const paymentOptions = await getPaymentOptionsForContest(contest.id);
+  const contestUrl = `${getURL()}/contest/${contest.slug}`;
+
+  sendEmailSafe({
+    to: email,
+    template: squareClaimedEmail({
+      participantName: firstName,
+      contestName: contest.name,
+      rowTeamName: contest.row_team_name,
+      colTeamName: contest.col_team_name,
+      squares: squares.map((square) => ({ rowIndex: square.row_index, colIndex: square.col_index })),
+      hideLocations,
+      squarePrice: contest.square_price,
+      paymentDeadlineHours: contest.payment_deadline_hours,
+      contestUrl,
+      paymentOptions: paymentOptions.map((opt) => ({
+        type: opt.type,
+        handle: opt.handle_or_link,
+        link: opt.handle_or_link.startsWith('http') ? opt.handle_or_link : undefined,
+      })),
+    }),
+    contestId: contest.id,
+    squareIds: squares.map((square) => square.id),
+    emailType: 'square_claimed',
+  });
+}
@@ -0,0 +1,61 @@
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { logger } from '@/utils/logger';
+
+import { CONTEST_TRASH_RETENTION_DAYS } from '../constants';
+
+// Uploads are stored under {owner_id}/{contest_id}/ in each bucket
+const CONTEST_STORAGE_BUCKETS = ['contest-images', 'payment-qr-codes'];
+
+export interface PurgeDeletedContestsResult {
+  purged: number;
+}
+
+/**
+ * Removes the uploaded images and QR codes of a purged contest. Failures are logged and
+ * skipped, since the contest itself is already gone.
+ */
+async function removeContestFiles(ownerId: string, contestId: string): Promise<void> {
+  for (const bucket of CONTEST_STORAGE_BUCKETS) {
+    const folder = `${ownerId}/${contestId}`;
+    const { data: files, error } = await supabaseAdminClient.storage.from(bucket).list(folder);
+
+    if (error) {
+      logger.error('purgeDeletedContests', error, { bucket, contestId });
+      continue;
+    }
+
+    if (files && files.length > 0) {
+      await supabaseAdminClient.storage.from(bucket).remove(files.map((file) => `${folder}/${file.name}`));
+    }
+  }
+}
+
+/**
+ * Permanently deletes contests that have been in the trash for CONTEST_TRASH_RETENTION_DAYS,
+ * along with their uploads. Run daily by the purge-deleted-contests cron job.
+ */
+export async function purgeDeletedContests(): Promise<PurgeDeletedContestsResult> {
+  const cutoff = new Date(Date.now() - CONTEST_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: expired, error: expiredError } = await supabaseAdminClient
+    .from('contests')
+    .select('id, owner_id')
+    .not('deleted_at', 'is', null)
+    .lte('deleted_at', cutoff);
+
+  if (expiredError) {
+    throw new Error(`Failed to fetch deleted contests: ${expiredError.message}`);
+  }
+
+  const { data: purged, error } = await supabaseAdminClient.rpc('purge_deleted_contests');
+
+  if (error) {
+    throw new Error(`Failed to purge deleted contests: ${error.message}`);
+  }
+
+  for (const contest of expired ?? []) {
+    await removeContestFiles(contest.owner_id, contest.id);
+  }
+
+  return { purged: purged ?? 0 };
+}
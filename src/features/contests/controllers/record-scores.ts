@@ -0,0 +1,307 @@
+import { getPeriod, getScoreLabel, getSport, WinnerRole } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { winnerEmail } from '@/features/emails/templates/winner-email';
+import { Database } from '@/libs/supabase/types';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { getURL } from '@/utils/get-url';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { Contest, GameQuarter } from '../types';
+import {
+  applyRolloverPolicy,
+  calculatePot,
+  getNumbersForPeriod,
+  getPaidSquareLabel,
+  getPrizeAmount,
+  getRolloverCarryPercent,
+  getUnclaimedSharePercent,
+  getWinningCells,
+  getWinningSquares,
+} from '../utils';
+
+export interface ScoreInput {
+  quarter: GameQuarter;
+  homeScore: number;
+  awayScore: number;
+  /** Only meaningful on a final score; shown in winners and emails under the contest's overtime rule */
+  wentToOvertime?: boolean;
+}
+
+export interface WinnerInfo {
+  quarter: GameQuarter;
+  homeScore: number;
+  awayScore: number;
+  winningSquareId: string | null;
+  winnerName: string | null;
+  winnerEmail: string | null;
+}
+
+export interface RecordScoresResult {
+  winners: WinnerInfo[];
+}
+
+/** A square paid for a score, with what its claimant needs to be told */
+export interface ScoreWinnerNotice {
+  square: { id: string; claimant_first_name: string | null; claimant_email: string | null };
+  role: WinnerRole;
+  sharePercent: number;
+  rolloverFromSquareId: string | null;
+}
+
+/**
+ * Emails a paid square's claimant their share of a period's prize. Returns whether it was sent.
+ */
+export function sendWinnerEmail(
+  contest: Contest,
+  score: ScoreInput,
+  { square, role, sharePercent, rolloverFromSquareId }: ScoreWinnerNotice,
+  periodPrize: number
+): Promise<boolean> {
+  if (!square.claimant_email) return Promise.resolve(false);
+
+  return sendEmailSafe({
+    to: square.claimant_email,
+    template: winnerEmail({
+      participantName: square.claimant_first_name || 'Winner',
+      contestName: contest.name,
+      quarterName: getScoreLabel(contest.sport_type, score.quarter, contest.overtime_rule, score.wentToOvertime),
+      homeTeamName: contest.row_team_name,
+      awayTeamName: contest.col_team_name,
+      homeScore: score.homeScore,
+      awayScore: score.awayScore,
+      prizeAmount: (periodPrize * sharePercent) / 100,
+      contestUrl: `${getURL()}/contest/${contest.slug}`,
+      roleLabel:
+        role === 'primary' && !rolloverFromSquareId ? undefined : getPaidSquareLabel(role, rolloverFromSquareId),
+    }),
+    contestId: contest.id,
+    squareIds: [square.id],
+    emailType: 'winner_notification',
+  });
+}
+
+/**
+ * Records period scores for a contest, pays the winning squares and emails new winners.
+ * Shared by manual score entry and live score automation; callers check who may record scores.
+ */
+export async function recordScores(
+  supabase: SupabaseClient<Database>,
+  contest: Contest,
+  scores: ScoreInput[]
+): Promise<RecordScoresResult> {
+  // Verify row and column numbers are assigned
+  if (!contest.row_numbers || !contest.col_numbers) {
+    throw new Error(ContestErrors.NUMBERS_REQUIRED);
+  }
+
+  // Verify every score belongs to a period defined for this sport
+  // (a separate OT period only exists under the contest's overtime rule)
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
+  if (scores.some((score) => !getPeriod(sport.type, score.quarter, contest.overtime_rule))) {
+    throw new Error(ContestErrors.INVALID_PERIOD);
+  }
+
+  // Fetch all squares for this contest
+  const { data: squares, error: squaresError } = await supabase
+    .from('squares')
+    .select(
+      'id, row_index, col_index, share_index, payment_status, claimant_first_name, claimant_last_name, claimant_email'
+    )
+    .eq('contest_id', contest.id);
+
+  if (squaresError) {
+    throw new Error('Failed to fetch squares');
+  }
+
+  const squaresById = new Map((squares ?? []).map((sq) => [sq.id, sq]));
+
+  // Contests that redraw numbers every period pick each winner with that period's numbers
+  let periodNumbers: { quarter: GameQuarter; row_numbers: number[]; col_numbers: number[] }[] = [];
+  if (contest.redraw_numbers_each_period) {
+    const { data, error: periodNumbersError } = await supabase
+      .from('period_numbers')
+      .select('quarter, row_numbers, col_numbers')
+      .eq('contest_id', contest.id);
+
+    if (periodNumbersError) {
+      throw new Error('Failed to fetch period numbers');
+    }
+    periodNumbers = data ?? [];
+  }
+
+  if (scores.some((score) => !getNumbersForPeriod(contest, periodNumbers, score.quarter))) {
+    throw new Error(ContestErrors.PERIOD_NUMBERS_REQUIRED);
+  }
+
+  // Fetch existing scores to determine which quarters are new
+  const { data: existingScores } = await supabase
+    .from('scores')
+    .select('id, quarter, winning_square_id, rollover_in_percent')
+    .eq('contest_id', contest.id);
+
+  const existingScoreMap = new Map(existingScores?.map((s) => [s.quarter, s]) || []);
+
+  // Squares already paid, keyed by quarter, role, square and rollover source
+  const { data: existingWinners } = await supabase
+    .from('score_winners')
+    .select('score_id, square_id, role, share_percent, rollover_from_square_id')
+    .eq('contest_id', contest.id);
+
+  const quarterByScoreId = new Map(existingScores?.map((s) => [s.id, s.quarter]) || []);
+  const getWinnerKey = (quarter: GameQuarter, role: string, squareId: string, rolloverFromSquareId: string | null) =>
+    `${quarter}:${role}:${squareId}:${rolloverFromSquareId ?? ''}`;
+  const existingWinnerKeys = new Set(
+    existingWinners?.map((w) =>
+      getWinnerKey(quarterByScoreId.get(w.score_id)!, w.role, w.square_id, w.rollover_from_square_id)
+    ) || []
+  );
+
+  const policy = contest.rollover_policy;
+  const pot = calculatePot(contest, squares ?? []);
+  const scoresByQuarter = new Map(scores.map((score) => [score.quarter, score]));
+  const winners: WinnerInfo[] = [];
+
+  // Walk the periods in game order so unclaimed prizes can roll into the next scored period
+  let carryPercent = 0;
+  for (const [periodIndex, period] of sport.periods.entries()) {
+    const score = scoresByQuarter.get(period.key);
+    const existingScore = existingScoreMap.get(period.key);
+    if (!score && !existingScore) continue;
+
+    const isLastPeriod = periodIndex === sport.periods.length - 1;
+    const rolloverInPercent = Math.round(carryPercent * 1000) / 1000;
+    const periodPercent = (contest[period.payoutField] || 0) + rolloverInPercent;
+
+    if (!score) {
+      // Already scored: keep its carried-in share current in case an earlier period changed
+      if (existingScore && Number(existingScore.rollover_in_percent) !== rolloverInPercent) {
+        await supabase.from('scores').update({ rollover_in_percent: rolloverInPercent }).eq('id', existingScore.id);
+      }
+      const unclaimedPercent = getUnclaimedSharePercent(
+        existingWinners?.filter((w) => w.score_id === existingScore?.id) ?? [],
+        squaresById
+      );
+      carryPercent = getRolloverCarryPercent(policy, periodPercent, unclaimedPercent, isLastPeriod);
+      continue;
+    }
+
+    // Calculate winning position based on the sport's digit rule
+    const homeDigit = sport.scoreDigit(score.homeScore);
+    const awayDigit = sport.scoreDigit(score.awayScore);
+
+    // Find the winning cell (the row and column whose numbers include each digit)
+    // and any cells paid by the contest's secondary payouts
+    const numbers = getNumbersForPeriod(contest, periodNumbers, score.quarter)!;
+    const winningCells = getWinningCells(
+      contest,
+      numbers.rowNumbers,
+      numbers.colNumbers,
+      homeDigit,
+      awayDigit,
+      score.quarter
+    );
+    const winningSquares = getWinningSquares(squares ?? [], winningCells, contest.grid_layout);
+
+    // A cell sold in halves has two squares; the first half identifies the cell on the score.
+    const cellSquares = winningSquares.filter((w) => w.role === 'primary').map((w) => w.square);
+    const winningSquare = cellSquares[0] ?? null;
+
+    const winningSquareId = winningSquare?.id || null;
+
+    // Hand shares won by unclaimed squares to whoever the contest's rollover policy names
+    const { winners: paidSquares, unclaimedPercent } = applyRolloverPolicy(policy, winningSquares, squares ?? []);
+
+    // Upsert the score (update if quarter exists, insert if not)
+    const { data: savedScore, error: upsertError } = await supabase
+      .from('scores')
+      .upsert(
+        {
+          contest_id: contest.id,
+          quarter: score.quarter,
+          home_score: score.homeScore,
+          away_score: score.awayScore,
+          went_to_overtime: score.quarter === 'final' && !!score.wentToOvertime,
+          winning_square_id: winningSquareId,
+          rollover_in_percent: rolloverInPercent,
+          entered_at: getCurrentISOString(),
+        },
+        {
+          onConflict: 'contest_id,quarter',
+        }
+      )
+      .select('id')
+      .single();
+
+    if (upsertError || !savedScore) {
+      throw new Error(`Failed to save score for ${score.quarter}`);
+    }
+
+    // Replace the squares paid for this score
+    const { error: deleteWinnersError } = await supabase.from('score_winners').delete().eq('score_id', savedScore.id);
+
+    if (deleteWinnersError) {
+      throw new Error(`Failed to save winners for ${score.quarter}`);
+    }
+
+    if (paidSquares.length > 0) {
+      const { error: winnersError } = await supabase.from('score_winners').insert(
+        paidSquares.map((w) => ({
+          score_id: savedScore.id,
+          contest_id: contest.id,
+          square_id: w.square.id,
+          role: w.role,
+          share_percent: Math.round(w.sharePercent * 1000) / 1000,
+          rollover_from_square_id: w.rolloverFromSquareId,
+        }))
+      );
+
+      if (winnersError) {
+        throw new Error(`Failed to save winners for ${score.quarter}`);
+      }
+    }
+
+    carryPercent = getRolloverCarryPercent(policy, periodPercent, unclaimedPercent, isLastPeriod);
+
+    // Build winner name from every claimed square in the cell
+    const claimedSquares = cellSquares.filter((sq) => sq.claimant_first_name);
+    const winnerName =
+      claimedSquares
+        .map((sq) =>
+          sq.claimant_last_name ? `${sq.claimant_first_name} ${sq.claimant_last_name}` : sq.claimant_first_name
+        )
+        .join(' & ') || null;
+
+    winners.push({
+      quarter: score.quarter,
+      homeScore: score.homeScore,
+      awayScore: score.awayScore,
+      winningSquareId,
+      winnerName,
+      winnerEmail: claimedSquares.find((sq) => sq.claimant_email)?.claimant_email || null,
+    });
+
+    // Send winner notification emails to new winners. The winning cell is new when it
+    // changed; secondary and rollover winners are new when they weren't paid for this score before.
+    const previousWinningSquareId = existingScore?.winning_square_id;
+    const isNewWinner = winningSquareId && winningSquareId !== previousWinningSquareId;
+
+    // The period's prize includes anything rolled over from earlier periods
+    const periodPrize = getPrizeAmount(pot, periodPercent);
+
+    for (const winner of paidSquares) {
+      const { square, role, rolloverFromSquareId } = winner;
+      if (!square.claimant_email) continue;
+
+      const isNew =
+        role === 'primary' && !rolloverFromSquareId
+          ? isNewWinner
+          : !existingWinnerKeys.has(getWinnerKey(score.quarter, role, square.id, rolloverFromSquareId));
+      if (!isNew) continue;
+
+      sendWinnerEmail(contest, score, winner, periodPrize);
+    }
+  }
+
+  return { winners };
+}
@@ -1,4 +1,6 @@
+import { ContestErrors, ContestPermission, ContestRole, hasContestPermission } from '@/features/contests/constants';
 import { Contest } from '@/features/contests/types';
+import { ORGANIZATION_ROLES } from '@/features/organizations/constants';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 import { Database } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
@@ -60,6 +62,71 @@ export async function requireContestOwnership(
   return contest;
 }
 
+/**
+ * The user's role on a contest: owner, the role of an accepted membership, or the role
+ * their organization membership grants on the organization's contests.
+ */
+export async function getContestRole(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  contest: Pick<Contest, 'id' | 'owner_id' | 'organization_id'>
+): Promise<ContestRole | null> {
+  if (contest.owner_id === userId) {
+    return 'owner';
+  }
+
+  const { data: membership } = await supabase
+    .from('contest_members')
+    .select('role')
+    .eq('contest_id', contest.id)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .maybeSingle();
+
+  if (membership) {
+    return membership.role;
+  }
+
+  if (!contest.organization_id) {
+    return null;
+  }
+
+  const { data: organizationRole } = await supabase.rpc('get_organization_role', {
+    p_organization_id: contest.organization_id,
+  });
+
+  return organizationRole ? ORGANIZATION_ROLES[organizationRole].contestRole : null;
+}
+
+export async function requireContestPermission(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  contestId: string,
+  permission: ContestPermission
+): Promise<{ contest: Contest; role: ContestRole }> {
+  const { data: contest, error } = await supabase
+    .from('contests')
+    .select('*')
+    .eq('id', contestId)
+    .single();
+
+  if (error || !contest) {
+    throw new NotFoundError('Contest not found');
+  }
+
+  const role = await getContestRole(supabase, userId, contest);
+
+  if (!role) {
+    throw new NotFoundError('Contest not found');
+  }
+
+  if (!hasContestPermission(role, permission)) {
+    throw new ForbiddenError(ContestErrors.ROLE_NOT_ALLOWED);
+  }
+
+  return { contest, role };
+}
+
 export function withContestOwnership<T>(
   contestId: string,
   action: (
@@ -88,6 +155,39 @@ export function withContestOwnership<T>(
   };
 }
 
+/**
+ * Like withContestOwnership, for actions co-organizers may also run (see CONTEST_ROLES).
+ */
+export function withContestPermission<T>(
+  contestId: string,
+  permission: ContestPermission,
+  action: (
+    user: User,
+    supabase: SupabaseClient<Database>,
+    contest: Contest,
+    role: ContestRole
+  ) => Promise<T>
+): () => Promise<ActionResponse<T>> {
+  return async () => {
+    try {
+      const { user, supabase } = await requireAuth();
+      const { contest, role } = await requireContestPermission(supabase, user.id, contestId, permission);
+      const result = await action(user, supabase, contest, role);
+      return { data: result, error: null };
+    } catch (error) {
+      if (
+        error instanceof AuthError ||
+        error instanceof NotFoundError ||
+        error instanceof ForbiddenError
+      ) {
+        return { data: null, error: { message: error.message } };
+      }
+      logger.error('auth-middleware', error);
+      return { data: null, error: { message: 'An unexpected error occurred' } };
+    }
+  };
+}
+
 export async function requireContestOwnershipForUpload(
   contestId: string
 ): Promise<{ user: User; supabase: SupabaseClient<Database> } | { error: string }> {
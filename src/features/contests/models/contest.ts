@@ -1,8 +1,12 @@
 import { z } from 'zod';
 
+import { ACCESS_PIN_MAX_LENGTH, ACCESS_PIN_MIN_LENGTH } from '../constants/access-pin';
+import { getTotalSquares,GRID_LAYOUT_TYPES } from '../constants/grid-layouts';
+import { getSport, PayoutFormField, SPORT_TYPES, SportType, sumPayoutPercent } from '../constants/sports';
+
 // Sport type enum
-export const sportTypes = ['football', 'baseball'] as const;
-export type SportType = (typeof sportTypes)[number];
+export const sportTypes = SPORT_TYPES;
+export type { SportType };
 
 // Schema for Step 1 - Basic Info
 export const basicInfoSchema = z.object({
@@ -23,11 +27,16 @@ export const settingsBaseSchema = z.object({
     .union([z.literal(''), z.coerce.number().min(1, 'Must be at least 1').max(100, 'Cannot exceed 100 squares')])
     .transform((val) => (val === '' || val === 0 ? null : val))
     .nullable(),
-  // Football payouts
+  // Grid layout (decides how many squares exist, so it can't change after creation)
+  gridLayout: z.enum(GRID_LAYOUT_TYPES).default('standard'),
+  // Draw fresh row/column numbers for every quarter or game
+  redrawNumbersEachPeriod: z.boolean().default(false),
+  // Quarter/period payouts (football, hockey, basketball, soccer)
   payoutQ1Percent: z.coerce.number().min(0).max(100),
   payoutQ2Percent: z.coerce.number().min(0).max(100),
   payoutQ3Percent: z.coerce.number().min(0).max(100),
   payoutFinalPercent: z.coerce.number().min(0).max(100),
+  payoutOtPercent: z.coerce.number().min(0).max(100),
   // Baseball payouts
   payoutGame1Percent: z.coerce.number().min(0).max(100),
   payoutGame2Percent: z.coerce.number().min(0).max(100),
@@ -40,15 +49,19 @@ export const settingsBaseSchema = z.object({
   requirePin: z.boolean().default(false),
   accessPin: z
     .string()
-    .max(6, 'PIN must be 6 characters or less')
+    .min(ACCESS_PIN_MIN_LENGTH, `PIN must be at least ${ACCESS_PIN_MIN_LENGTH} characters`)
+    .max(ACCESS_PIN_MAX_LENGTH, `PIN must be ${ACCESS_PIN_MAX_LENGTH} characters or less`)
     .regex(/^[A-Za-z0-9]*$/, 'PIN must be alphanumeric')
     .optional(),
   // Prize settings
-  prizeType: z.enum(['percentage', 'custom']).default('percentage'),
+  prizeType: z.enum(['percentage', 'custom', 'score_change']).default('percentage'),
+  // Paid for every scoring play when prizeType is 'score_change'
+  scoreChangePayout: z.coerce.number().min(0, 'Payout cannot be negative').default(0),
   prizeQ1Text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
   prizeQ2Text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
   prizeQ3Text: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
   prizeFinalText: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
+  prizeOtText: z.string().max(25, 'Prize text must be 25 characters or less').optional(),
 });
 
 // Settings schema with validation (for step validation)
@@ -66,48 +79,46 @@ export const brandingSchema = z.object({
   secondaryColor: z.string().regex(/^#[0-9A-Fa-f]{6}$/, 'Must be a valid hex color'),
 });
 
-// Helper to calculate total payout based on sport type
-export function calculateTotalPayout(data: { sportType: SportType } & Record<string, unknown>): number {
-  if (data.sportType === 'football') {
-    return (
-      (Number(data.payoutQ1Percent) || 0) +
-      (Number(data.payoutQ2Percent) || 0) +
-      (Number(data.payoutQ3Percent) || 0) +
-      (Number(data.payoutFinalPercent) || 0)
-    );
-  } else {
-    return (
-      (Number(data.payoutGame1Percent) || 0) +
-      (Number(data.payoutGame2Percent) || 0) +
-      (Number(data.payoutGame3Percent) || 0) +
-      (Number(data.payoutGame4Percent) || 0) +
-      (Number(data.payoutGame5Percent) || 0) +
-      (Number(data.payoutGame6Percent) || 0) +
-      (Number(data.payoutGame7Percent) || 0)
-    );
-  }
-}
-
 // Combined schema for full contest creation (with payout validation)
 export const createContestSchema = basicInfoSchema
   .merge(settingsBaseSchema)
   .merge(brandingSchema)
-  .refine((data) => calculateTotalPayout(data) <= 100, {
-    message: 'Total payout cannot exceed 100%',
-    path: ['payoutFinalPercent'],
-  })
-  .refine(
-    (data) => {
-      if (data.prizeType === 'custom') {
-        return !!(data.prizeQ1Text || data.prizeQ2Text || data.prizeQ3Text || data.prizeFinalText);
-      }
-      return true;
-    },
-    {
-      message: 'At least one prize text field is required when using custom prizes',
-      path: ['prizeQ1Text'],
+  .superRefine((data, ctx) => {
+    const periods = getSport(data.sportType).periods;
+
+    if (sumPayoutPercent(data.sportType, data, 'form') > 100) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Total payout cannot exceed 100%',
+        path: [periods[periods.length - 1].payoutFormField],
+      });
+    }
+
+    const totalSquares = getTotalSquares(data.gridLayout);
+    if (data.maxSquaresPerPerson && data.maxSquaresPerPerson > totalSquares) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Cannot exceed ${totalSquares} squares`,
+        path: ['maxSquaresPerPerson'],
+      });
     }
-  );
+
+    if (data.prizeType === 'score_change' && data.scoreChangePayout <= 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Enter the amount paid for each score change',
+        path: ['scoreChangePayout'],
+      });
+    }
+
+    if (data.prizeType === 'custom' && !periods.some((p) => p.prizeTextFormField && data[p.prizeTextFormField])) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'At least one prize text field is required when using custom prizes',
+        path: [periods[0].prizeTextFormField ?? 'prizeType'],
+      });
+    }
+  });
 
 // Type exports
 export type BasicInfoInput = z.infer<typeof basicInfoSchema>;
@@ -115,6 +126,31 @@ export type SettingsInput = z.infer<typeof settingsSchema>;
 export type BrandingInput = z.infer<typeof brandingSchema>;
 export type CreateContestInput = z.infer<typeof createContestSchema>;
 
+/**
+ * Returns payout form values with the sport's default split applied and
+ * every payout field the sport doesn't use set to 0.
+ */
+export function getDefaultPayouts(sportType: SportType): Pick<CreateContestInput, PayoutFormField> {
+  const payouts: Pick<CreateContestInput, PayoutFormField> = {
+    payoutQ1Percent: 0,
+    payoutQ2Percent: 0,
+    payoutQ3Percent: 0,
+    payoutFinalPercent: 0,
+    payoutOtPercent: 0,
+    payoutGame1Percent: 0,
+    payoutGame2Percent: 0,
+    payoutGame3Percent: 0,
+    payoutGame4Percent: 0,
+    payoutGame5Percent: 0,
+    payoutGame6Percent: 0,
+    payoutGame7Percent: 0,
+  };
+  for (const period of getSport(sportType).periods) {
+    payouts[period.payoutFormField] = period.defaultPercent;
+  }
+  return payouts;
+}
+
 // Default values for the form
 export const defaultContestValues: CreateContestInput = {
   sportType: 'football',
@@ -124,28 +160,21 @@ export const defaultContestValues: CreateContestInput = {
   colTeamName: '',
   squarePrice: 10,
   maxSquaresPerPerson: null,
-  // Football defaults
-  payoutQ1Percent: 10,
-  payoutQ2Percent: 10,
-  payoutQ3Percent: 10,
-  payoutFinalPercent: 20,
-  // Baseball defaults
-  payoutGame1Percent: 10,
-  payoutGame2Percent: 10,
-  payoutGame3Percent: 10,
-  payoutGame4Percent: 10,
-  payoutGame5Percent: 15,
-  payoutGame6Percent: 15,
-  payoutGame7Percent: 30,
+  gridLayout: 'standard',
+  redrawNumbersEachPeriod: false,
+  // Payout defaults come from the sport registry
+  ...getDefaultPayouts('football'),
   // Access control
   requirePin: false,
   accessPin: undefined,
   // Prize settings
   prizeType: 'percentage',
+  scoreChangePayout: 0,
   prizeQ1Text: undefined,
   prizeQ2Text: undefined,
   prizeQ3Text: undefined,
   prizeFinalText: undefined,
+  prizeOtText: undefined,
   heroImageUrl: null,
   heroImagePosition: 'center',
   orgImageUrl: null,
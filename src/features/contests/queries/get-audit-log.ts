@@ -0,0 +1,26 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ContestAuditLogEntry } from '../types';
+
+// Enough for a full 100-square board plus scores; older entries stay in the table
+const AUDIT_LOG_LIMIT = 500;
+
+/**
+ * Fetches a contest's most recent audit log entries, newest first (contest members only, via RLS)
+ */
+export async function getAuditLogForContest(contestId: string): Promise<ContestAuditLogEntry[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contest_audit_log')
+    .select('*')
+    .eq('contest_id', contestId)
+    .order('created_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch audit log: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -0,0 +1,50 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ContestAccessPin, ContestPinAttempt } from '../types';
+
+// What the owner sees in Access Control; older attempts stay in the table for 30 days
+const FAILED_ATTEMPTS_LIMIT = 50;
+const FAILED_ATTEMPTS_DAYS = 7;
+
+/**
+ * Fetches a contest's access PIN (contest members only, via RLS). Returns null when the contest
+ * has no PIN or the user can't see it.
+ */
+export async function getContestAccessPin(contestId: string): Promise<ContestAccessPin | null> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contest_access_pins')
+    .select('*')
+    .eq('contest_id', contestId)
+    .maybeSingle();
+
+  if (error) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Fetches a contest's recent wrong PIN guesses, newest first (owners and managers only, via RLS)
+ */
+export async function getFailedPinAttemptsForContest(contestId: string): Promise<ContestPinAttempt[]> {
+  const supabase = await createSupabaseServerClient();
+  const since = new Date(Date.now() - FAILED_ATTEMPTS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('contest_pin_attempts')
+    .select('*')
+    .eq('contest_id', contestId)
+    .eq('succeeded', false)
+    .gte('attempted_at', since)
+    .order('attempted_at', { ascending: false })
+    .limit(FAILED_ATTEMPTS_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch PIN attempts: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -0,0 +1,22 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ContestInvitee } from '../types';
+
+/**
+ * Fetches a contest's invite allowlist, oldest first (owners and managers only, via RLS)
+ */
+export async function getContestInviteesForContest(contestId: string): Promise<ContestInvitee[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contest_invitees')
+    .select('*')
+    .eq('contest_id', contestId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch invitees: ${error.message}`);
+  }
+
+  return data ?? [];
+}
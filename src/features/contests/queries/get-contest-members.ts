@@ -0,0 +1,22 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ContestMember } from '../types';
+
+/**
+ * Fetches a contest's members and pending invites (owner only, via RLS)
+ */
+export async function getContestMembersForContest(contestId: string): Promise<ContestMember[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contest_members')
+    .select('*')
+    .eq('contest_id', contestId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch contest members: ${error.message}`);
+  }
+
+  return data ?? [];
+}
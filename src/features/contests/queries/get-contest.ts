@@ -17,18 +17,3 @@ export async function getContestById(contestId: string): Promise<Contest | null>
 
   return data;
 }
-
-/**
- * Fetches only the access_pin for PIN verification
- */
-export async function getContestPin(slug: string): Promise<string | null> {
-  const supabase = await createSupabaseServerClient();
-
-  const { data, error } = await supabase.from('contests').select('access_pin').eq('slug', slug).single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return data.access_pin;
-}
@@ -7,6 +7,7 @@ export interface Participant {
   id: string;
   row_index: number;
   col_index: number;
+  share_index: number;
   payment_status: PaymentStatus;
   claimant_first_name: string | null;
   claimant_last_name: string | null;
@@ -15,6 +16,8 @@ export interface Participant {
   claimed_at: string | null;
   paid_at: string | null;
   referred_by: string | null;
+  quick_picked: boolean;
+  payment_reminder_sent_at: string | null;
 }
 
 /**
@@ -27,7 +30,7 @@ export async function getParticipantsForContest(contestId: string): Promise<Part
   const { data, error } = await supabase
     .from('squares')
     .select(
-      'id, row_index, col_index, payment_status, claimant_first_name, claimant_last_name, claimant_email, claimant_venmo, claimed_at, paid_at, referred_by'
+      'id, row_index, col_index, share_index, payment_status, claimant_first_name, claimant_last_name, claimant_email, claimant_venmo, claimed_at, paid_at, referred_by, quick_picked, payment_reminder_sent_at'
     )
     .eq('contest_id', contestId)
     .neq('payment_status', 'available')
@@ -0,0 +1,22 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { PeriodNumbers } from '../types';
+
+/**
+ * Fetches the numbers drawn for each period of a contest that redraws numbers every period
+ */
+export async function getPeriodNumbersForContest(contestId: string): Promise<PeriodNumbers[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('period_numbers')
+    .select('*')
+    .eq('contest_id', contestId)
+    .order('quarter');
+
+  if (error) {
+    throw new Error(`Failed to fetch period numbers: ${error.message}`);
+  }
+
+  return data ?? [];
+}
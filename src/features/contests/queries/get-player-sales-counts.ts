@@ -5,7 +5,7 @@ import { logger } from '@/utils/logger';
 
 /**
  * Get count of squares sold per player (referred_by) for a contest.
- * Uses JS aggregation - performant since max 100 squares per contest.
+ * Uses JS aggregation - performant since max 200 squares per contest.
  */
 export async function getPlayerSalesCounts(contestId: string): Promise<Record<string, number>> {
   const supabase = await createSupabaseServerClient();
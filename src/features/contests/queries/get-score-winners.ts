@@ -0,0 +1,18 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ScoreWinner } from '../types';
+
+/**
+ * Fetches every square paid for a contest's scores, including secondary payouts
+ */
+export async function getScoreWinnersForContest(contestId: string): Promise<ScoreWinner[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.from('score_winners').select('*').eq('contest_id', contestId);
+
+  if (error) {
+    throw new Error(`Failed to fetch score winners: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -0,0 +1,23 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { ScoringEventWithWinners } from '../types';
+
+/**
+ * Fetches every scoring event for a score-change contest in the order they happened, with the
+ * squares paid for each
+ */
+export async function getScoringEventsForContest(contestId: string): Promise<ScoringEventWithWinners[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('scoring_events')
+    .select('*, winners:scoring_event_winners(*)')
+    .eq('contest_id', contestId)
+    .order('sequence');
+
+  if (error) {
+    throw new Error(`Failed to fetch scoring events: ${error.message}`);
+  }
+
+  return data ?? [];
+}
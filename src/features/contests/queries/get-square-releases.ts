@@ -0,0 +1,30 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { SQUARE_RELEASE_UNDO_WINDOW_MINUTES } from '../constants';
+import { SquareRelease } from '../types';
+
+export interface RecentSquareRelease extends SquareRelease {
+  squares: { row_index: number; col_index: number } | null;
+}
+
+/**
+ * Fetches square releases that can still be undone, newest first
+ */
+export async function getRecentSquareReleases(contestId: string): Promise<RecentSquareRelease[]> {
+  const supabase = await createSupabaseServerClient();
+  const since = new Date(Date.now() - SQUARE_RELEASE_UNDO_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('square_releases')
+    .select('*, squares(row_index, col_index)')
+    .eq('contest_id', contestId)
+    .is('restored_at', null)
+    .gt('released_at', since)
+    .order('released_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch square releases: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -5,24 +5,29 @@ export interface GridSquare {
   id: string;
   row_index: number;
   col_index: number;
+  /** Which half of a shared square this is (always 0 unless the grid is sold in halves) */
+  share_index: number;
   payment_status: 'available' | 'pending' | 'paid';
   claimant_first_name: string | null;
   claimant_last_name: string | null;
   referred_by: string | null;
+  /** Assigned by quick pick rather than chosen on the grid */
+  quick_picked: boolean;
 }
 
 /**
- * Fetches all 100 squares for a contest, ordered by position
+ * Fetches all squares for a contest, ordered by position, without claimant contact details.
+ * Visitors to a PIN-protected contest need the access token from their contest_access_<slug>
+ * cookie; without it no squares come back. Owners and members never need one. Until the numbers
+ * are drawn, visitors get hidden quick picks without a name, referrer or real id.
  */
-export async function getSquaresForContest(contestId: string): Promise<GridSquare[]> {
+export async function getSquaresForContest(contestId: string, accessToken?: string | null): Promise<GridSquare[]> {
   const supabase = await createSupabaseServerClient();
 
-  const { data, error } = await supabase
-    .from('squares')
-    .select('id, row_index, col_index, payment_status, claimant_first_name, claimant_last_name, referred_by')
-    .eq('contest_id', contestId)
-    .order('row_index')
-    .order('col_index');
+  const { data, error } = await supabase.rpc('get_contest_squares', {
+    p_contest_id: contestId,
+    p_access_token: accessToken ?? undefined,
+  });
 
   if (error) {
     throw new Error(`Failed to fetch squares: ${error.message}`);
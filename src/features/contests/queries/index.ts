@@ -1,8 +1,16 @@
+export * from './get-audit-log';
 export * from './get-contest';
+export * from './get-contest-access-pin';
+export * from './get-contest-invitees';
+export * from './get-contest-members';
 export * from './get-contest-safe';
 export * from './get-participants';
 export * from './get-payment-options';
+export * from './get-period-numbers';
 export * from './get-player-sales-counts';
+export * from './get-score-winners';
 export * from './get-scores';
+export * from './get-scoring-events';
+export * from './get-square-releases';
 export * from './get-squares';
 export * from './list-contests';
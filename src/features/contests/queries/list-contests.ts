@@ -2,13 +2,14 @@ import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-clie
 import { Database } from '@/libs/supabase/types';
 
 type Contest = Database['public']['Tables']['contests']['Row'];
+type ContestRole = Database['public']['Enums']['contest_role'];
 
 export interface ContestWithCounts extends Contest {
   squares: { payment_status: string }[];
 }
 
 /**
- * Fetches all contests owned by the current user with square counts
+ * Fetches the contests in the user's personal workspace with square counts
  */
 export async function listContestsForOwner(ownerId: string): Promise<ContestWithCounts[]> {
   const supabase = await createSupabaseServerClient();
@@ -17,6 +18,7 @@ export async function listContestsForOwner(ownerId: string): Promise<ContestWith
     .from('contests')
     .select('*, squares(payment_status)')
     .eq('owner_id', ownerId)
+    .is('organization_id', null)
     .is('deleted_at', null)
     .order('created_at', { ascending: false });
 
@@ -26,3 +28,66 @@ export async function listContestsForOwner(ownerId: string): Promise<ContestWith
 
   return data ?? [];
 }
+
+/**
+ * Fetches all contests in an organization with square counts
+ */
+export async function listContestsForOrganization(organizationId: string): Promise<ContestWithCounts[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contests')
+    .select('*, squares(payment_status)')
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch contests: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+export interface SharedContest extends ContestWithCounts {
+  role: ContestRole;
+}
+
+/**
+ * Fetches contests the user helps run as an invited member, with square counts
+ */
+export async function listContestsSharedWithUser(userId: string): Promise<SharedContest[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('contest_members')
+    .select('role, contests(*, squares(payment_status))')
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .order('accepted_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch shared contests: ${error.message}`);
+  }
+
+  return (data ?? []).flatMap(({ role, contests }) =>
+    contests && !contests.deleted_at ? [{ ...contests, role }] : []
+  );
+}
+
+export type DeletedContest = Database['public']['Functions']['list_deleted_contests']['Returns'][number];
+
+/**
+ * Fetches the contests the user can restore that are still in the trash for the given workspace
+ */
+export async function listDeletedContests(organizationId: string | null): Promise<DeletedContest[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.rpc('list_deleted_contests');
+
+  if (error) {
+    throw new Error(`Failed to fetch deleted contests: ${error.message}`);
+  }
+
+  return (data ?? []).filter((contest) => contest.organization_id === organizationId);
+}
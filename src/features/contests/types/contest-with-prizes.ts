@@ -10,5 +10,6 @@ export interface ContestPrizeFields {
   prize_q2_text?: string | null;
   prize_q3_text?: string | null;
   prize_final_text?: string | null;
+  prize_ot_text?: string | null;
 }
 
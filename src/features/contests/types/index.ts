@@ -9,6 +9,7 @@ export type ContestUpdate = Database['public']['Tables']['contests']['Update'];
 
 export type Square = Database['public']['Tables']['squares']['Row'];
 export type SquareUpdate = Database['public']['Tables']['squares']['Update'];
+export type SquareRelease = Database['public']['Tables']['square_releases']['Row'];
 
 export type PaymentOption = Database['public']['Tables']['payment_options']['Row'];
 export type PaymentStatus = Database['public']['Enums']['payment_status'];
@@ -17,3 +18,20 @@ export type PaymentOptionType = Database['public']['Enums']['payment_option_type
 export type Score = Database['public']['Tables']['scores']['Row'];
 export type GameQuarter = Database['public']['Enums']['game_quarter'];
 
+export type PeriodNumbers = Database['public']['Tables']['period_numbers']['Row'];
+
+export type ScoreWinner = Database['public']['Tables']['score_winners']['Row'];
+
+
+export type ScoringEvent = Database['public']['Tables']['scoring_events']['Row'];
+export type ScoringEventWinner = Database['public']['Tables']['scoring_event_winners']['Row'];
+/** A scoring event with every square paid for it */
+export type ScoringEventWithWinners = ScoringEvent & { winners: ScoringEventWinner[] };
+
+export type ContestMember = Database['public']['Tables']['contest_members']['Row'];
+
+export type ContestAuditLogEntry = Database['public']['Tables']['contest_audit_log']['Row'];
+
+export type ContestAccessPin = Database['public']['Tables']['contest_access_pins']['Row'];
+export type ContestPinAttempt = Database['public']['Tables']['contest_pin_attempts']['Row'];
+export type ContestInvitee = Database['public']['Tables']['contest_invitees']['Row'];
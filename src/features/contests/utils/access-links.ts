@@ -0,0 +1,44 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { getEnvVar } from '@/utils/get-env-var';
+
+import { ACCESS_LINK_TTL_DAYS } from '../constants/invitees';
+
+function sign(payload: string): string {
+  const secret = getEnvVar(process.env.CONTEST_ACCESS_LINK_SECRET, 'CONTEST_ACCESS_LINK_SECRET');
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Token for an invitee's emailed access link: `<invitee id>.<expiry, unix seconds>.<signature>`.
+ * It names the invitee rather than carrying their access token, so removing them from the
+ * allowlist also kills links already sent.
+ */
+export function createAccessLinkToken(inviteeId: string, now: Date = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + ACCESS_LINK_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${inviteeId}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Checks an access link token's signature and expiry. Returns the invitee it was issued to,
+ * or null when the token is malformed, tampered with or expired.
+ */
+export function verifyAccessLinkToken(token: string, now: Date = new Date()): { inviteeId: string } | null {
+  const [inviteeId, expiresAt, signature, ...rest] = token.split('.');
+  if (!inviteeId || !expiresAt || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${inviteeId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  if (!/^\d+$/.test(expiresAt) || Number(expiresAt) * 1000 <= now.getTime()) {
+    return null;
+  }
+
+  return { inviteeId };
+}
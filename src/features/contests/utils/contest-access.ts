@@ -0,0 +1,30 @@
+import { cookies } from 'next/headers';
+
+/**
+ * Cookie that remembers a visitor entered a contest's PIN or opened their invite link; holds the
+ * PIN's current access token or the invitee's own
+ */
+export function getContestAccessCookieName(contestSlug: string): string {
+  return `contest_access_${contestSlug}`;
+}
+
+/** The access cookie lasts 7 days; after that the visitor enters the PIN or opens their link again */
+export function getContestAccessCookieOptions() {
+  return {
+    expires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+  };
+}
+
+/**
+ * The visitor's access token for a PIN-protected or invite-only contest, if they've entered the PIN
+ * or opened their invite link. Passed to get_contest_squares, which checks it against the PIN and
+ * the invite list.
+ */
+export async function getContestAccessToken(contestSlug: string): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(getContestAccessCookieName(contestSlug))?.value ?? null;
+}
@@ -0,0 +1,43 @@
+import { getLineIndexForDigit, GridLayout } from '../constants/grid-layouts';
+
+interface PositionedSquare {
+  row_index: number;
+  col_index: number;
+  share_index: number;
+}
+
+/**
+ * Finds the grid cell for a pair of score digits, or null when numbers don't cover a digit.
+ */
+export function findWinningCell(
+  rowNumbers: number[],
+  colNumbers: number[],
+  homeDigit: number,
+  awayDigit: number,
+  layout: GridLayout | null | undefined
+): { rowIndex: number; colIndex: number } | null {
+  const rowIndex = getLineIndexForDigit(rowNumbers, homeDigit, layout);
+  const colIndex = getLineIndexForDigit(colNumbers, awayDigit, layout);
+
+  if (rowIndex === -1 || colIndex === -1) {
+    return null;
+  }
+
+  return { rowIndex, colIndex };
+}
+
+/**
+ * Returns every square in a cell ordered by share. Layouts sold in halves have two squares per cell.
+ */
+export function getSquaresAtCell<T extends PositionedSquare>(squares: T[], rowIndex: number, colIndex: number): T[] {
+  return squares
+    .filter((sq) => sq.row_index === rowIndex && sq.col_index === colIndex)
+    .sort((a, b) => a.share_index - b.share_index);
+}
+
+/**
+ * Returns every square sharing a cell with the given square (including itself).
+ */
+export function getCellSquares<T extends PositionedSquare>(squares: T[], square: PositionedSquare): T[] {
+  return getSquaresAtCell(squares, square.row_index, square.col_index);
+}
@@ -1,3 +1,11 @@
+export * from './grid-helpers';
+export * from './invitees';
+export * from './payment-deadline';
 export * from './payment-helpers';
+export * from './payout-calculator';
+export * from './period-numbers';
 export * from './prize-helpers';
-
+export * from './quick-pick';
+export * from './rollover';
+export * from './scoring-events';
+export * from './winning-cells';
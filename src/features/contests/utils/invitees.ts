@@ -0,0 +1,32 @@
+import { sanitizeEmail } from '@/utils/email-validator';
+
+export interface ParsedInviteeEmails {
+  /** Normalized, de-duplicated addresses in the order they appeared */
+  emails: string[];
+  /** Entries that looked like an address but aren't valid */
+  invalid: string[];
+}
+
+/**
+ * Pulls email addresses out of a pasted list or CSV export: one per line, or separated by
+ * commas, semicolons or spaces, optionally quoted or written as `Name <address>`. Cells
+ * without an @ (names, header rows) are skipped.
+ */
+export function parseInviteeEmails(text: string): ParsedInviteeEmails {
+  const emails = new Set<string>();
+  const invalid = new Set<string>();
+
+  for (const token of text.split(/[\s,;]+/)) {
+    const candidate = token.replace(/^["'<(]+|[>"')]+$/g, '').replace(/^mailto:/i, '');
+    if (!candidate.includes('@')) continue;
+
+    const email = sanitizeEmail(candidate);
+    if (email) {
+      emails.add(email);
+    } else {
+      invalid.add(candidate);
+    }
+  }
+
+  return { emails: Array.from(emails), invalid: Array.from(invalid) };
+}
@@ -0,0 +1,39 @@
+import { PAYMENT_REMINDER_HOURS_BEFORE_DEADLINE } from '../constants/payment-deadline';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long before the deadline the reminder goes out; short deadlines remind at the halfway point */
+export function getReminderLeadHours(deadlineHours: number): number {
+  return Math.min(PAYMENT_REMINDER_HOURS_BEFORE_DEADLINE, deadlineHours / 2);
+}
+
+/**
+ * When a pending claim is released if it's still unpaid. Usually claimed_at plus the deadline, but
+ * once a reminder has gone out the participant always gets the full reminder window to pay.
+ * Mirrors release_expired_claims.
+ */
+export function getPaymentDueAt(claimedAt: string, deadlineHours: number, reminderSentAt: string | null = null): Date {
+  const deadline = new Date(claimedAt).getTime() + deadlineHours * HOUR_MS;
+  if (!reminderSentAt) return new Date(deadline);
+
+  const notice = new Date(reminderSentAt).getTime() + getReminderLeadHours(deadlineHours) * HOUR_MS;
+  return new Date(Math.max(deadline, notice));
+}
+
+/** Whether a pending claim without a reminder is close enough to its deadline to get one */
+export function isPaymentReminderDue(claimedAt: string, deadlineHours: number, now: Date = new Date()): boolean {
+  const remindAt = getPaymentDueAt(claimedAt, deadlineHours).getTime() - getReminderLeadHours(deadlineHours) * HOUR_MS;
+  return now.getTime() >= remindAt;
+}
+
+/** "1d 4h", "3h 20m" or "12m" until the given time, or null once it has passed */
+export function formatTimeRemaining(dueAt: Date, now: Date = new Date()): string | null {
+  const minutes = Math.ceil((dueAt.getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return null;
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
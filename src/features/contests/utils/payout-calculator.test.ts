@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { PaymentStatus } from '../types';
+
+import { calculateMaxPot, calculatePot, getFundraiserAmount, getPrizeAmount, PotSettings } from './payout-calculator';
+
+const settings: PotSettings = {
+  square_price: '10',
+  grid_layout: 'standard',
+  pot_basis: 'all',
+  organization_cut_percent: 20,
+};
+
+function squaresWith(counts: Partial<Record<PaymentStatus, number>>): { payment_status: PaymentStatus }[] {
+  return (Object.entries(counts) as [PaymentStatus, number][]).flatMap(([status, count]) =>
+    Array.from({ length: count }, () => ({ payment_status: status }))
+  );
+}
+
+describe('calculatePot', () => {
+  const squares = squaresWith({ paid: 30, pending: 10, available: 60 });
+
+  it('counts every square on the grid by default', () => {
+    expect(calculatePot(settings, squares)).toEqual({
+      squareCount: 100,
+      grossPot: 1000,
+      organizationCut: 200,
+      prizePool: 800,
+    });
+    expect(calculatePot({ ...settings, pot_basis: null }, squares).squareCount).toBe(100);
+  });
+
+  it('counts claimed or paid squares under those pot bases', () => {
+    expect(calculatePot({ ...settings, pot_basis: 'claimed' }, squares).prizePool).toBe(320);
+    expect(calculatePot({ ...settings, pot_basis: 'paid' }, squares).prizePool).toBe(240);
+  });
+
+  it('counts both halves of each cell on a halves grid', () => {
+    expect(calculatePot({ ...settings, grid_layout: 'halves', organization_cut_percent: 0 }, []).grossPot).toBe(2000);
+    expect(calculateMaxPot({ ...settings, grid_layout: 'five_by_five' }).squareCount).toBe(25);
+  });
+
+  it('keeps the organization cut between 0 and 100 percent', () => {
+    expect(calculatePot({ ...settings, organization_cut_percent: null }, squares).prizePool).toBe(1000);
+    expect(calculatePot({ ...settings, organization_cut_percent: -5 }, squares).organizationCut).toBe(0);
+    expect(calculatePot({ ...settings, organization_cut_percent: 150 }, squares).prizePool).toBe(0);
+  });
+});
+
+describe('getPrizeAmount', () => {
+  it('pays a percentage of the prize pool', () => {
+    const pot = calculatePot(settings, []);
+    expect(getPrizeAmount(pot, 25)).toBe(200);
+    expect(getFundraiserAmount(1000, pot, 100)).toBe(200);
+  });
+
+  it('leaves the unpaid share with the fundraiser when the pot is counted from paid squares', () => {
+    const pot = calculatePot({ ...settings, pot_basis: 'paid' }, squaresWith({ paid: 50, available: 50 }));
+    expect(getFundraiserAmount(500, pot, 100)).toBe(100);
+  });
+});
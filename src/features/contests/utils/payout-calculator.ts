@@ -0,0 +1,72 @@
+import { getTotalSquares, GridLayout } from '../constants/grid-layouts';
+import { DEFAULT_POT_BASIS, PotBasis } from '../constants/payouts';
+import { PaymentStatus } from '../types';
+
+/** Contest columns the pot is calculated from */
+export interface PotSettings {
+  square_price: number | string;
+  grid_layout: GridLayout | null;
+  pot_basis: PotBasis | null;
+  organization_cut_percent: number | null;
+}
+
+export interface Pot {
+  /** Squares the pot is counted from */
+  squareCount: number;
+  /** Square price times squareCount */
+  grossPot: number;
+  /** Kept by the organization before any prize is paid */
+  organizationCut: number;
+  /** What payout percentages are applied to */
+  prizePool: number;
+}
+
+/** Number of squares the pot is counted from under a pot basis */
+export function countPotSquares(
+  basis: PotBasis | null,
+  layout: GridLayout | null,
+  squares: { payment_status: PaymentStatus }[]
+): number {
+  switch (basis ?? DEFAULT_POT_BASIS) {
+    case 'claimed':
+      return squares.filter((sq) => sq.payment_status !== 'available').length;
+    case 'paid':
+      return squares.filter((sq) => sq.payment_status === 'paid').length;
+    default:
+      return getTotalSquares(layout);
+  }
+}
+
+function buildPot(settings: PotSettings, squareCount: number): Pot {
+  const grossPot = squareCount * Number(settings.square_price);
+  const cutPercent = Math.min(Math.max(Number(settings.organization_cut_percent) || 0, 0), 100);
+  const organizationCut = (grossPot * cutPercent) / 100;
+
+  return { squareCount, grossPot, organizationCut, prizePool: grossPot - organizationCut };
+}
+
+/**
+ * Calculates a contest's pot from its squares. Every surface that shows or pays a prize
+ * goes through this so the numbers always agree.
+ */
+export function calculatePot(settings: PotSettings, squares: { payment_status: PaymentStatus }[]): Pot {
+  return buildPot(settings, countPotSquares(settings.pot_basis, settings.grid_layout, squares));
+}
+
+/** The pot once every square has been sold */
+export function calculateMaxPot(settings: PotSettings): Pot {
+  return buildPot(settings, getTotalSquares(settings.grid_layout));
+}
+
+/** Prize paid for a share of the prize pool, e.g. a period's payout percentage */
+export function getPrizeAmount(pot: Pot, percent: number): number {
+  return (pot.prizePool * percent) / 100;
+}
+
+/**
+ * What the fundraiser keeps of the money collected once prizes are paid. When the pot is
+ * counted from paid squares this is the organization's cut plus the unpaid share of the pool.
+ */
+export function getFundraiserAmount(revenue: number, pot: Pot, payoutPercent: number): number {
+  return revenue - getPrizeAmount(pot, payoutPercent);
+}
@@ -0,0 +1,92 @@
+import { OvertimeRule } from '../constants/overtime-rules';
+import { getPeriodLabel, getSport, SportType } from '../constants/sports';
+import { GameQuarter, PeriodNumbers } from '../types';
+
+type PeriodNumbersPick = Pick<PeriodNumbers, 'quarter' | 'row_numbers' | 'col_numbers'>;
+
+/** Numbers drawn for a single quarter/game, as shown on the grid */
+export interface GridPeriodNumbers {
+  quarter: GameQuarter;
+  label: string;
+  rowNumbers: number[];
+  colNumbers: number[];
+}
+
+interface ContestNumbers {
+  redraw_numbers_each_period: boolean;
+  row_numbers: number[] | null;
+  col_numbers: number[] | null;
+}
+
+/**
+ * Every layout stores a permutation of 0-9 per axis. Layouts with fewer lines than digits
+ * (5x5) give each row/column consecutive digits, so a shuffle also randomizes the pairings.
+ */
+export function shuffleDigits(): number[] {
+  const nums = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+  for (let i = nums.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [nums[i], nums[j]] = [nums[j], nums[i]];
+  }
+  return nums;
+}
+
+/**
+ * Returns the numbers that decide a period's winner. Contests that redraw numbers every period
+ * use that period's draw (null until it has been drawn); other contests use their single pair.
+ */
+export function getNumbersForPeriod(
+  contest: ContestNumbers,
+  periodNumbers: PeriodNumbersPick[],
+  quarter: GameQuarter
+): { rowNumbers: number[]; colNumbers: number[] } | null {
+  if (contest.redraw_numbers_each_period) {
+    const draw = periodNumbers.find((p) => p.quarter === quarter);
+    return draw ? { rowNumbers: draw.row_numbers, colNumbers: draw.col_numbers } : null;
+  }
+
+  if (!contest.row_numbers || !contest.col_numbers) {
+    return null;
+  }
+
+  return { rowNumbers: contest.row_numbers, colNumbers: contest.col_numbers };
+}
+
+/**
+ * Returns the draw for the latest period (in game order) that has numbers.
+ */
+export function getLatestPeriodNumbers<T extends PeriodNumbersPick>(
+  sportType: SportType,
+  periodNumbers: T[],
+  overtimeRule?: OvertimeRule | null
+): T | null {
+  const periods = getSport(sportType, overtimeRule).periods;
+  for (let i = periods.length - 1; i >= 0; i--) {
+    const draw = periodNumbers.find((p) => p.quarter === periods[i].key);
+    if (draw) return draw;
+  }
+  return null;
+}
+
+/**
+ * Orders a contest's drawn periods by game order and labels them for the grid's period tabs.
+ */
+export function toGridPeriodNumbers(
+  sportType: SportType,
+  periodNumbers: PeriodNumbersPick[],
+  overtimeRule?: OvertimeRule | null
+): GridPeriodNumbers[] {
+  return getSport(sportType, overtimeRule).periods.flatMap((period) => {
+    const draw = periodNumbers.find((p) => p.quarter === period.key);
+    return draw
+      ? [
+          {
+            quarter: draw.quarter,
+            label: getPeriodLabel(sportType, draw.quarter, overtimeRule),
+            rowNumbers: draw.row_numbers,
+            colNumbers: draw.col_numbers,
+          },
+        ]
+      : [];
+  });
+}
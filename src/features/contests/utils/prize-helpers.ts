@@ -17,11 +17,13 @@ export function getPrizeText(
 ): string | null {
   if (prizeType !== 'custom') return null;
 
-  const prizeMap: Record<GameQuarter, string | null | undefined> = {
+  // Custom prize text is not defined for baseball games
+  const prizeMap: Partial<Record<GameQuarter, string | null | undefined>> = {
     q1: prizeTexts.prize_q1_text,
     q2: prizeTexts.prize_q2_text,
     q3: prizeTexts.prize_q3_text,
     final: prizeTexts.prize_final_text,
+    ot: prizeTexts.prize_ot_text,
   };
 
   return prizeMap[quarter] ?? null;
@@ -0,0 +1,27 @@
+import { GridSquare } from '../queries/get-squares';
+
+interface QuickPickContest {
+  hide_quick_pick_locations: boolean;
+  row_numbers: number[] | null;
+}
+
+/**
+ * Whether a square's position is kept secret: it was quick-picked in a contest that hides
+ * quick-pick locations, and the numbers haven't been drawn yet.
+ */
+export function isSquareLocationHidden(contest: QuickPickContest, square: { quick_picked: boolean }): boolean {
+  return contest.hide_quick_pick_locations && contest.row_numbers === null && square.quick_picked;
+}
+
+/**
+ * Removes the claimant's name from hidden quick-picked squares so the public grid doesn't give
+ * their positions away. The square still shows as taken. get_contest_squares already masks
+ * them for visitors; this covers owners and members looking at the public page.
+ */
+export function maskQuickPickedSquares<T extends GridSquare>(contest: QuickPickContest, squares: T[]): T[] {
+  return squares.map((square) =>
+    isSquareLocationHidden(contest, square)
+      ? { ...square, claimant_first_name: null, claimant_last_name: null, referred_by: null }
+      : square
+  );
+}
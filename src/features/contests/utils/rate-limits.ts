@@ -0,0 +1,37 @@
+import { getClientIp } from '@/utils/get-client-ip';
+import { checkRateLimits } from '@/utils/rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Claims (cart and quick pick) share one budget. The per-IP limit is looser than the
+ * per-email one since a household or office can share an address.
+ */
+export async function checkClaimRateLimit(email: string) {
+  const ip = await getClientIp();
+
+  return checkRateLimits([
+    ip ? { key: `claim:ip:${ip}`, maxRequests: 30, windowMs: MINUTE_MS } : null,
+    { key: `claim:email:${email}`, maxRequests: 10, windowMs: MINUTE_MS },
+  ]);
+}
+
+/** PIN guesses, per contest and across all contests from the same address */
+export async function checkPinRateLimit(contestSlug: string) {
+  const ip = await getClientIp();
+
+  return checkRateLimits([
+    ip ? { key: `pin:ip:${ip}`, maxRequests: 30, windowMs: 10 * MINUTE_MS } : null,
+    ip ? { key: `pin:ip:${ip}:${contestSlug}`, maxRequests: 10, windowMs: 10 * MINUTE_MS } : null,
+  ]);
+}
+
+/** Contest images and payment QR codes, per signed-in uploader and per address */
+export async function checkImageUploadRateLimit(userId: string) {
+  const ip = await getClientIp();
+
+  return checkRateLimits([
+    ip ? { key: `upload:ip:${ip}`, maxRequests: 60, windowMs: 10 * MINUTE_MS } : null,
+    { key: `upload:user:${userId}`, maxRequests: 30, windowMs: 10 * MINUTE_MS },
+  ]);
+}
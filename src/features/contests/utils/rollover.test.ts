@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+
+import { PaymentStatus } from '../types';
+
+import {
+  applyRolloverPolicy,
+  findNearestClaimedSquare,
+  getRolloverCarryPercent,
+  getUnclaimedSharePercent,
+} from './rollover';
+import { WinningSquare } from './winning-cells';
+
+interface TestSquare {
+  id: string;
+  row_index: number;
+  col_index: number;
+  share_index: number;
+  payment_status: PaymentStatus;
+}
+
+function square(row: number, col: number, paymentStatus: PaymentStatus, shareIndex = 0): TestSquare {
+  return {
+    id: `${row}-${col}-${shareIndex}`,
+    row_index: row,
+    col_index: col,
+    share_index: shareIndex,
+    payment_status: paymentStatus,
+  };
+}
+
+const unclaimed = square(5, 5, 'available');
+const near = square(5, 6, 'pending');
+const far = square(0, 0, 'paid');
+const alsoPaid = square(9, 9, 'paid');
+const squares = [unclaimed, near, far, alsoPaid];
+
+const primary = (winner: TestSquare, sharePercent = 100): WinningSquare<TestSquare> => ({
+  square: winner,
+  role: 'primary',
+  sharePercent,
+});
+
+describe('findNearestClaimedSquare', () => {
+  it('skips unclaimed squares and the square itself', () => {
+    expect(findNearestClaimedSquare(squares, unclaimed)).toBe(near);
+    expect(findNearestClaimedSquare([unclaimed, square(1, 1, 'available')], unclaimed)).toBeNull();
+  });
+
+  it('prefers the other half of a half square', () => {
+    const otherHalf = square(5, 5, 'paid', 1);
+    expect(findNearestClaimedSquare([...squares, otherHalf], unclaimed)).toBe(otherHalf);
+  });
+
+  it('breaks ties by the earlier row, then column', () => {
+    const above = square(4, 5, 'paid');
+    const left = square(5, 4, 'paid');
+    expect(findNearestClaimedSquare([unclaimed, left, above], unclaimed)).toBe(above);
+  });
+});
+
+describe('applyRolloverPolicy', () => {
+  it('pays claimed winners as they are', () => {
+    expect(applyRolloverPolicy('split_paid', [primary(near)], squares)).toEqual({
+      winners: [{ ...primary(near), rolloverFromSquareId: null }],
+      unclaimedPercent: 0,
+    });
+  });
+
+  it('leaves an unclaimed win with the fundraiser under the house and next_period policies', () => {
+    for (const policy of ['house', 'next_period'] as const) {
+      expect(applyRolloverPolicy(policy, [primary(unclaimed)], squares)).toEqual({
+        winners: [{ ...primary(unclaimed), rolloverFromSquareId: null }],
+        unclaimedPercent: 100,
+      });
+    }
+  });
+
+  it('hands an unclaimed win to the nearest claimed square', () => {
+    expect(applyRolloverPolicy('nearest_claimed', [primary(unclaimed)], squares)).toEqual({
+      winners: [{ ...primary(near), rolloverFromSquareId: unclaimed.id }],
+      unclaimedPercent: 0,
+    });
+  });
+
+  it('splits an unclaimed win evenly among paid squares', () => {
+    const { winners, unclaimedPercent } = applyRolloverPolicy('split_paid', [primary(unclaimed, 60)], squares);
+
+    expect(unclaimedPercent).toBe(0);
+    expect(winners).toEqual([
+      { ...primary(far, 30), rolloverFromSquareId: unclaimed.id },
+      { ...primary(alsoPaid, 30), rolloverFromSquareId: unclaimed.id },
+    ]);
+  });
+
+  it('counts a win as unclaimed when nobody can receive it', () => {
+    const onlyUnclaimed = [unclaimed, square(1, 1, 'pending')];
+    expect(applyRolloverPolicy('split_paid', [primary(unclaimed, 50)], onlyUnclaimed).unclaimedPercent).toBe(50);
+  });
+
+  it('only rolls over the unclaimed half of a half square', () => {
+    const paidHalf = square(5, 5, 'paid', 1);
+    const { winners, unclaimedPercent } = applyRolloverPolicy(
+      'house',
+      [primary(unclaimed, 50), primary(paidHalf, 50)],
+      [...squares, paidHalf]
+    );
+
+    expect(unclaimedPercent).toBe(50);
+    expect(winners.map((w) => w.square)).toEqual([unclaimed, paidHalf]);
+  });
+});
+
+describe('getUnclaimedSharePercent', () => {
+  it('adds up shares recorded on squares that are still unclaimed', () => {
+    const squaresById = new Map(squares.map((sq) => [sq.id, sq]));
+    const winners = [
+      { square_id: unclaimed.id, share_percent: 40, rollover_from_square_id: null },
+      { square_id: near.id, share_percent: 30, rollover_from_square_id: null },
+      { square_id: far.id, share_percent: 20, rollover_from_square_id: unclaimed.id },
+      { square_id: 'deleted', share_percent: 10, rollover_from_square_id: null },
+    ];
+
+    expect(getUnclaimedSharePercent(winners, squaresById)).toBe(50);
+  });
+});
+
+describe('getRolloverCarryPercent', () => {
+  it('carries the unclaimed share of a period only under the next_period policy', () => {
+    expect(getRolloverCarryPercent('next_period', 25, 50, false)).toBe(12.5);
+    expect(getRolloverCarryPercent('house', 25, 50, false)).toBe(0);
+  });
+
+  it('keeps an unclaimed last prize with the fundraiser', () => {
+    expect(getRolloverCarryPercent('next_period', 25, 100, true)).toBe(0);
+  });
+});
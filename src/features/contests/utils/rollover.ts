@@ -0,0 +1,141 @@
+import { ROLLOVER_LABEL, RolloverPolicy } from '../constants/rollover-policies';
+import { WINNER_ROLE_LABELS, WinnerRole } from '../constants/secondary-payouts';
+import { PaymentStatus } from '../types';
+
+import { WinningSquare } from './winning-cells';
+
+interface RolloverSquare {
+  id: string;
+  row_index: number;
+  col_index: number;
+  share_index: number;
+  payment_status: PaymentStatus;
+}
+
+/** A square paid for a score. Shares rolled over from an unclaimed square point back at it. */
+export interface PaidSquare<T> extends WinningSquare<T> {
+  rolloverFromSquareId: string | null;
+}
+
+export interface RolloverResult<T> {
+  winners: PaidSquare<T>[];
+  /** Share of the period's prize nobody was paid (kept by the fundraiser or rolled to the next period) */
+  unclaimedPercent: number;
+}
+
+export function isUnclaimedSquare(square: { payment_status: PaymentStatus }): boolean {
+  return square.payment_status === 'available';
+}
+
+/**
+ * Finds the claimed square closest to a square (by rows plus columns). The other half of a
+ * square sold in halves is closest of all. Ties go to the earlier row, then column.
+ */
+export function findNearestClaimedSquare<T extends RolloverSquare>(squares: T[], from: RolloverSquare): T | null {
+  let nearest: T | null = null;
+  let nearestDistance = Infinity;
+
+  const ordered = [...squares].sort(
+    (a, b) => a.row_index - b.row_index || a.col_index - b.col_index || a.share_index - b.share_index
+  );
+
+  for (const square of ordered) {
+    if (square.id === from.id || isUnclaimedSquare(square)) continue;
+
+    const distance = Math.abs(square.row_index - from.row_index) + Math.abs(square.col_index - from.col_index);
+    if (distance < nearestDistance) {
+      nearest = square;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Applies a contest's rollover policy to the squares paid for a score. Shares won by unclaimed
+ * squares are handed to the nearest claimed square or split among paid squares; under the other
+ * policies (or when nobody can receive them) they stay on the unclaimed square and count as unclaimed.
+ */
+export function applyRolloverPolicy<T extends RolloverSquare>(
+  policy: RolloverPolicy,
+  winningSquares: WinningSquare<T>[],
+  squares: T[]
+): RolloverResult<T> {
+  const winners: PaidSquare<T>[] = [];
+  let unclaimedPercent = 0;
+  const paidSquares = squares.filter((sq) => sq.payment_status === 'paid');
+
+  for (const winner of winningSquares) {
+    if (!isUnclaimedSquare(winner.square)) {
+      winners.push({ ...winner, rolloverFromSquareId: null });
+      continue;
+    }
+
+    if (policy === 'nearest_claimed') {
+      const nearest = findNearestClaimedSquare(squares, winner.square);
+      if (nearest) {
+        winners.push({ ...winner, square: nearest, rolloverFromSquareId: winner.square.id });
+        continue;
+      }
+    }
+
+    if (policy === 'split_paid' && paidSquares.length > 0) {
+      for (const square of paidSquares) {
+        winners.push({
+          square,
+          role: winner.role,
+          sharePercent: winner.sharePercent / paidSquares.length,
+          rolloverFromSquareId: winner.square.id,
+        });
+      }
+      continue;
+    }
+
+    winners.push({ ...winner, rolloverFromSquareId: null });
+    unclaimedPercent += winner.sharePercent;
+  }
+
+  return { winners, unclaimedPercent };
+}
+
+/**
+ * Share of a period's prize that went unpaid, from the squares recorded for its score.
+ */
+export function getUnclaimedSharePercent(
+  winners: { square_id: string; share_percent: number; rollover_from_square_id: string | null }[],
+  squaresById: Map<string, { payment_status: PaymentStatus }>
+): number {
+  return winners
+    .filter((w) => !w.rollover_from_square_id)
+    .filter((w) => {
+      const square = squaresById.get(w.square_id);
+      return !square || isUnclaimedSquare(square);
+    })
+    .reduce((sum, w) => sum + Number(w.share_percent), 0);
+}
+
+/**
+ * Share of the pot carried into the next period. Only the next_period policy carries prizes,
+ * and an unclaimed last prize stays with the fundraiser.
+ */
+export function getRolloverCarryPercent(
+  policy: RolloverPolicy,
+  periodPercent: number,
+  unclaimedPercent: number,
+  isLastPeriod: boolean
+): number {
+  if (policy !== 'next_period' || isLastPeriod) return 0;
+  return (periodPercent * unclaimedPercent) / 100;
+}
+
+/** Whether a paid square is the period's own winner rather than a secondary or rollover payout */
+export function isPrimaryPayout(winner: { role: WinnerRole; rollover_from_square_id: string | null }): boolean {
+  return winner.role === 'primary' && !winner.rollover_from_square_id;
+}
+
+/** Label for a paid square, e.g. "Reverse" or "Reverse Rollover" */
+export function getPaidSquareLabel(role: WinnerRole, rolloverFromSquareId: string | null): string {
+  if (!rolloverFromSquareId) return WINNER_ROLE_LABELS[role];
+  return role === 'primary' ? ROLLOVER_LABEL : `${WINNER_ROLE_LABELS[role]} ${ROLLOVER_LABEL}`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { getScoringEventCarryPercent, getScoringEventPayouts } from './scoring-events';
+
+const events = [1, 2, 3, 4].map((sequence) => ({ sequence }));
+
+describe('getScoringEventPayouts', () => {
+  it('pays each event in order until the prize pool runs out', () => {
+    const payouts = getScoringEventPayouts([...events].reverse(), 30, 100);
+
+    expect(payouts.map((p) => [p.event.sequence, p.payout, p.runningTotal])).toEqual([
+      [1, 30, 30],
+      [2, 30, 60],
+      [3, 30, 90],
+      [4, 10, 100],
+    ]);
+  });
+
+  it('adds a carried share to the next event instead of paying it', () => {
+    const payouts = getScoringEventPayouts(events, 30, 1000, (event) => (event.sequence === 1 ? 50 : 0));
+
+    expect(payouts.slice(0, 2)).toEqual([
+      { event: events[0], payout: 30, rolloverIn: 0, rolloverOut: 15, runningTotal: 15 },
+      { event: events[1], payout: 45, rolloverIn: 15, rolloverOut: 0, runningTotal: 60 },
+    ]);
+  });
+
+  it('caps a carried share at what is left of the pot', () => {
+    const payouts = getScoringEventPayouts(events.slice(0, 2), 30, 40, (event) => (event.sequence === 1 ? 100 : 0));
+
+    expect(payouts[1]).toMatchObject({ payout: 40, rolloverIn: 30, runningTotal: 40 });
+  });
+});
+
+describe('getScoringEventCarryPercent', () => {
+  const squaresById = new Map([
+    ['open', { payment_status: 'available' as const }],
+    ['half-paid', { payment_status: 'paid' as const }],
+  ]);
+  const event = {
+    winners: [
+      { square_id: 'open', share_percent: 50, rollover_from_square_id: null },
+      { square_id: 'half-paid', share_percent: 50, rollover_from_square_id: null },
+    ],
+  };
+
+  it('carries the unclaimed half of a shared square under the next_period policy', () => {
+    expect(getScoringEventCarryPercent('next_period', squaresById)(event)).toBe(50);
+  });
+
+  it('carries nothing under the other policies', () => {
+    expect(getScoringEventCarryPercent('house', squaresById)(event)).toBe(0);
+  });
+});
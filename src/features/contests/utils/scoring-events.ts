@@ -0,0 +1,121 @@
+import { ROLLOVER_LABEL, RolloverPolicy } from '../constants/rollover-policies';
+import { PaymentStatus } from '../types';
+
+import { getUnclaimedSharePercent } from './rollover';
+
+interface SequencedEvent {
+  sequence: number;
+}
+
+export interface ScoringEventPayout<T extends SequencedEvent> {
+  event: T;
+  /** Amount paid for this event; the last events get less (or nothing) once the pot runs out */
+  payout: number;
+  /** Part of the payout carried in from earlier events won by unclaimed squares */
+  rolloverIn: number;
+  /** Part of the payout carried on to the next event because unclaimed squares won it */
+  rolloverOut: number;
+  /** Total paid through this event */
+  runningTotal: number;
+}
+
+export interface ParsedScoringEvent {
+  homeScore: number;
+  awayScore: number;
+  description: string | null;
+}
+
+/**
+ * Pays a fixed amount for each scoring event, in order, until the prize pool is used up.
+ * getCarryPercent names the share of an event's payout that moves on to the next event
+ * (see getScoringEventCarryPercent); it is added to that event's payout instead of being paid.
+ */
+export function getScoringEventPayouts<T extends SequencedEvent>(
+  events: T[],
+  payoutPerEvent: number,
+  prizePool: number,
+  getCarryPercent: (event: T) => number = () => 0
+): ScoringEventPayout<T>[] {
+  let runningTotal = 0;
+  let rolloverIn = 0;
+
+  return [...events]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((event) => {
+      const payout = Math.max(0, Math.min(payoutPerEvent + rolloverIn, prizePool - runningTotal));
+      const eventRolloverIn = Math.min(rolloverIn, payout);
+      const rolloverOut = (payout * getCarryPercent(event)) / 100;
+      runningTotal += payout - rolloverOut;
+      rolloverIn = rolloverOut;
+      return { event, payout, rolloverIn: eventRolloverIn, rolloverOut, runningTotal };
+    });
+}
+
+/**
+ * Share of each scoring event's payout carried to the next event. Only the next_period policy
+ * carries payouts: whatever unclaimed squares won (and wasn't rolled over to someone) moves on.
+ */
+export function getScoringEventCarryPercent(
+  policy: RolloverPolicy,
+  squaresById: Map<string, { payment_status: PaymentStatus }>
+): (event: { winners: { square_id: string; share_percent: number; rollover_from_square_id: string | null }[] }) => number {
+  return (event) => (policy === 'next_period' ? getUnclaimedSharePercent(event.winners, squaresById) : 0);
+}
+
+/**
+ * Says where the shares of a scoring event won by unclaimed squares went, e.g. "Rollover: Jane Doe"
+ * or "Rollover split among 12 paid squares". Null when nothing was rolled over.
+ */
+export function getScoringEventRolloverNote(
+  event: { winners: { square_id: string; rollover_from_square_id: string | null }[] },
+  getName: (squareId: string) => string
+): string | null {
+  const recipients = Array.from(
+    new Set(event.winners.filter((w) => w.rollover_from_square_id).map((w) => w.square_id))
+  );
+  if (recipients.length === 0) return null;
+  if (recipients.length > 2) return `${ROLLOVER_LABEL} split among ${recipients.length} paid squares`;
+  return `${ROLLOVER_LABEL}: ${recipients.map(getName).join(' & ')}`;
+}
+
+/**
+ * Whether a scoring event changed the score from the one before it (0-0 before the first)
+ */
+export function changesScore(
+  event: { homeScore: number; awayScore: number },
+  previous: { homeScore: number; awayScore: number } | null
+): boolean {
+  const before = previous ?? { homeScore: 0, awayScore: 0 };
+  return event.homeScore !== before.homeScore || event.awayScore !== before.awayScore;
+}
+
+/**
+ * Parses pasted scoring events, one per line: "home,away" or "home-away", optionally followed
+ * by a comma and a description (e.g. "7,3,Field goal"). A header row is skipped.
+ * Returns the events, or the 1-based line numbers that could not be read.
+ */
+export function parseScoringEvents(text: string): { events: ParsedScoringEvent[]; invalidLines: number[] } {
+  const events: ParsedScoringEvent[] = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const match = line.match(/^(\d+)\s*[,\-\t]\s*(\d+)\s*(?:[,\t]\s*(.*))?$/);
+    if (!match) {
+      // Allow a CSV header such as "home,away,description"
+      if (index === 0 && /[a-z]/i.test(line)) return;
+      invalidLines.push(index + 1);
+      return;
+    }
+
+    events.push({
+      homeScore: parseInt(match[1], 10),
+      awayScore: parseInt(match[2], 10),
+      description: match[3]?.trim() || null,
+    });
+  });
+
+  return { events, invalidLines };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import { findWinningCell, getSquaresAtCell } from './grid-helpers';
+import { getWinningCells, getWinningSquares } from './winning-cells';
+
+const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+const REVERSED = [9, 8, 7, 6, 5, 4, 3, 2, 1, 0];
+
+const contest = {
+  prize_type: 'percentage' as const,
+  sport_type: 'football' as const,
+  grid_layout: 'standard' as const,
+  secondary_reverse_percent: 0,
+  secondary_touching_percent: 0,
+  secondary_minus_one_percent: 0,
+};
+
+describe('findWinningCell', () => {
+  it('finds the row for the home digit and the column for the away digit', () => {
+    expect(findWinningCell(DIGITS, REVERSED, 7, 3, 'standard')).toEqual({ rowIndex: 7, colIndex: 6 });
+  });
+
+  it('groups two digits per line on a 5x5 grid', () => {
+    expect(findWinningCell(DIGITS, DIGITS, 7, 3, 'five_by_five')).toEqual({ rowIndex: 3, colIndex: 1 });
+  });
+
+  it('returns null when a digit is not on the axis', () => {
+    expect(findWinningCell([], DIGITS, 7, 3, 'standard')).toBeNull();
+  });
+});
+
+describe('getSquaresAtCell', () => {
+  it('returns both halves of a cell in share order', () => {
+    const squares = [
+      { id: 'b', row_index: 2, col_index: 3, share_index: 1 },
+      { id: 'x', row_index: 3, col_index: 2, share_index: 0 },
+      { id: 'a', row_index: 2, col_index: 3, share_index: 0 },
+    ];
+    expect(getSquaresAtCell(squares, 2, 3).map((sq) => sq.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('getWinningCells', () => {
+  it('pays the whole prize to the winning cell without secondary payouts', () => {
+    expect(getWinningCells(contest, DIGITS, DIGITS, 7, 3, 'q1')).toEqual([
+      { role: 'primary', rowIndex: 7, colIndex: 3, sharePercent: 100 },
+    ]);
+  });
+
+  it('takes the reverse payout out of the winning cell', () => {
+    const cells = getWinningCells({ ...contest, secondary_reverse_percent: 20 }, DIGITS, DIGITS, 7, 3, 'q1');
+    expect(cells).toEqual([
+      { role: 'primary', rowIndex: 7, colIndex: 3, sharePercent: 80 },
+      { role: 'reverse', rowIndex: 3, colIndex: 7, sharePercent: 20 },
+    ]);
+  });
+
+  it('leaves the reverse payout with the winner when the digits match', () => {
+    const cells = getWinningCells({ ...contest, secondary_reverse_percent: 20 }, DIGITS, DIGITS, 7, 7, 'q1');
+    expect(cells).toEqual([{ role: 'primary', rowIndex: 7, colIndex: 7, sharePercent: 100 }]);
+  });
+
+  it('splits the touching payout among the neighbors on the grid', () => {
+    const cells = getWinningCells({ ...contest, secondary_touching_percent: 30 }, DIGITS, DIGITS, 0, 0, 'q1');
+    expect(cells[0].sharePercent).toBe(70);
+    expect(cells.slice(1)).toEqual([
+      { role: 'touching', rowIndex: 0, colIndex: 1, sharePercent: 10 },
+      { role: 'touching', rowIndex: 1, colIndex: 0, sharePercent: 10 },
+      { role: 'touching', rowIndex: 1, colIndex: 1, sharePercent: 10 },
+    ]);
+  });
+
+  it('only pays the minus one square for the final', () => {
+    const minusOne = { ...contest, secondary_minus_one_percent: 10 };
+    expect(getWinningCells(minusOne, DIGITS, DIGITS, 0, 4, 'q2')).toHaveLength(1);
+    expect(getWinningCells(minusOne, DIGITS, DIGITS, 0, 4, 'final')).toEqual([
+      { role: 'primary', rowIndex: 0, colIndex: 4, sharePercent: 90 },
+      { role: 'minus_one', rowIndex: 9, colIndex: 3, sharePercent: 10 },
+    ]);
+  });
+
+  it('skips secondary payouts for custom prizes', () => {
+    const custom = { ...contest, prize_type: 'custom' as const, secondary_reverse_percent: 20 };
+    expect(getWinningCells(custom, DIGITS, DIGITS, 7, 3, 'q1')).toHaveLength(1);
+  });
+
+  it('returns no cells before numbers are drawn', () => {
+    expect(getWinningCells(contest, [], [], 7, 3, 'q1')).toEqual([]);
+  });
+});
+
+describe('getWinningSquares', () => {
+  const cells = [{ role: 'primary' as const, rowIndex: 7, colIndex: 3, sharePercent: 80 }];
+
+  it('pays the square that owns the cell', () => {
+    const owner = { id: 'a', row_index: 7, col_index: 3, share_index: 0 };
+    expect(getWinningSquares([owner], cells, 'standard')).toEqual([
+      { square: owner, role: 'primary', sharePercent: 80 },
+    ]);
+  });
+
+  it('splits a cell sold in halves between both squares', () => {
+    const halves = [
+      { id: 'a', row_index: 7, col_index: 3, share_index: 0 },
+      { id: 'b', row_index: 7, col_index: 3, share_index: 1 },
+    ];
+    expect(getWinningSquares(halves, cells, 'halves').map((w) => [w.square.id, w.sharePercent])).toEqual([
+      ['a', 40],
+      ['b', 40],
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import { getGridLayout, GridLayout } from '../constants/grid-layouts';
+import { getSecondaryPayoutRules, SecondaryPayoutField, WinnerRole } from '../constants/secondary-payouts';
+import { SportType } from '../constants/sports';
+import { ContestPrizeFields, GameQuarter } from '../types';
+
+import { findWinningCell, getSquaresAtCell } from './grid-helpers';
+
+type SecondaryPayoutContest = Pick<ContestPrizeFields, 'prize_type'> &
+  Record<SecondaryPayoutField, number> & {
+    sport_type: SportType;
+    grid_layout: GridLayout;
+  };
+
+interface PositionedSquare {
+  row_index: number;
+  col_index: number;
+  share_index: number;
+}
+
+/** A cell paid for a score, with its share of the period's prize */
+export interface WinningCell {
+  role: WinnerRole;
+  rowIndex: number;
+  colIndex: number;
+  sharePercent: number;
+}
+
+/** A square paid for a score, with its share of the period's prize */
+export interface WinningSquare<T> {
+  square: T;
+  role: WinnerRole;
+  sharePercent: number;
+}
+
+const isSameCell = (a: { rowIndex: number; colIndex: number }, b: { rowIndex: number; colIndex: number }) =>
+  a.rowIndex === b.rowIndex && a.colIndex === b.colIndex;
+
+const previousDigit = (digit: number) => (digit + 9) % 10;
+
+/**
+ * Returns every cell paid for a score: the winning cell plus the contest's secondary payouts.
+ * Secondary payouts only apply to cash prizes. A payout with no other cell to pay (e.g. the
+ * reverse of 7-7) stays with the winning cell. Returns an empty list when no cell wins.
+ */
+export function getWinningCells(
+  contest: SecondaryPayoutContest,
+  rowNumbers: number[],
+  colNumbers: number[],
+  homeDigit: number,
+  awayDigit: number,
+  quarter: GameQuarter
+): WinningCell[] {
+  const primary = findWinningCell(rowNumbers, colNumbers, homeDigit, awayDigit, contest.grid_layout);
+  if (!primary) return [];
+
+  const { size } = getGridLayout(contest.grid_layout);
+  const cells: WinningCell[] = [];
+
+  if (contest.prize_type !== 'custom') {
+    for (const rule of getSecondaryPayoutRules(contest.sport_type)) {
+      const percent = contest[rule.field] || 0;
+      if (percent <= 0 || (rule.finalOnly && quarter !== 'final')) continue;
+
+      if (rule.role === 'touching') {
+        const neighbors: { rowIndex: number; colIndex: number }[] = [];
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            const rowIndex = primary.rowIndex + dr;
+            const colIndex = primary.colIndex + dc;
+            if ((dr || dc) && rowIndex >= 0 && rowIndex < size && colIndex >= 0 && colIndex < size) {
+              neighbors.push({ rowIndex, colIndex });
+            }
+          }
+        }
+        cells.push(
+          ...neighbors.map((cell) => ({ role: rule.role, ...cell, sharePercent: percent / neighbors.length }))
+        );
+        continue;
+      }
+
+      const cell =
+        rule.role === 'reverse'
+          ? findWinningCell(rowNumbers, colNumbers, awayDigit, homeDigit, contest.grid_layout)
+          : findWinningCell(
+              rowNumbers,
+              colNumbers,
+              previousDigit(homeDigit),
+              previousDigit(awayDigit),
+              contest.grid_layout
+            );
+
+      if (cell && !isSameCell(cell, primary)) {
+        cells.push({ role: rule.role, ...cell, sharePercent: percent });
+      }
+    }
+  }
+
+  const secondaryPercent = cells.reduce((sum, cell) => sum + cell.sharePercent, 0);
+  return [{ role: 'primary', ...primary, sharePercent: 100 - secondaryPercent }, ...cells];
+}
+
+/**
+ * Expands winning cells into the squares that own them. Cells sold in halves split their
+ * share between both squares.
+ */
+export function getWinningSquares<T extends PositionedSquare>(
+  squares: T[],
+  cells: WinningCell[],
+  layout: GridLayout | null | undefined
+): WinningSquare<T>[] {
+  const { sharesPerSquare } = getGridLayout(layout);
+  return cells.flatMap((cell) =>
+    getSquaresAtCell(squares, cell.rowIndex, cell.colIndex).map((square) => ({
+      square,
+      role: cell.role,
+      sharePercent: cell.sharePercent / sharesPerSquare,
+    }))
+  );
+}
@@ -1,29 +1,40 @@
 import { emailStyles } from '../layouts/email-layout';
 
-type SquareDetailsParams = {
+export type SquarePosition = {
   rowIndex: number;
   colIndex: number;
+};
+
+type SquareDetailsParams = {
+  squares: SquarePosition[];
+  /** Quick-picked squares stay secret until the numbers are drawn */
+  hidePositions?: boolean;
   rowTeamName: string;
   colTeamName: string;
   statusHtml?: string;
 };
 
 export function squareDetailsTable({
-  rowIndex,
-  colIndex,
+  squares,
+  hidePositions,
   rowTeamName,
   colTeamName,
   statusHtml,
 }: SquareDetailsParams): string {
+  const isCart = squares.length > 1;
+  const positionsHtml = hidePositions
+    ? 'Revealed when the numbers are drawn'
+    : squares.map(({ rowIndex, colIndex }) => `Row ${rowIndex}, Column ${colIndex}`).join('<br />');
+
   return `
     <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="${emailStyles.detailsBox}">
       <tr>
         <td style="${emailStyles.detailsBoxPadding}">
-          <p style="${emailStyles.detailsTitle}">Square Details</p>
+          <p style="${emailStyles.detailsTitle}">${isCart ? `Your ${squares.length} Squares` : 'Square Details'}</p>
           <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
             <tr style="${emailStyles.detailRow}">
-              <td style="${emailStyles.detailLabel}">Position:</td>
-              <td style="${emailStyles.detailValue}">Row ${rowIndex}, Column ${colIndex}</td>
+              <td style="${emailStyles.detailLabel}">${isCart ? 'Positions:' : 'Position:'}</td>
+              <td style="${emailStyles.detailValue}">${positionsHtml}</td>
             </tr>
             <tr style="${emailStyles.detailRow}">
               <td style="${emailStyles.detailLabel}">Teams:</td>
@@ -36,6 +47,43 @@ export function squareDetailsTable({
     </table>`;
 }
 
+export type PaymentOption = {
+  type: string;
+  handle: string;
+  link?: string;
+};
+
+/** The contest's payment options as a list, or nothing when the owner hasn't set any up */
+export function paymentOptionsSection(paymentOptions: PaymentOption[]): string {
+  if (paymentOptions.length === 0) return '';
+
+  const paymentOptionsHtml = paymentOptions
+    .map(
+      (option) => `
+      <tr>
+        <td style="padding: 8px 0; border-bottom: 1px solid #3f3f46;">
+          <strong style="color: #fafafa;">${option.type}:</strong>
+          ${
+            option.link
+              ? `<a href="${option.link}" style="color: #F97316; text-decoration: none; margin-left: 8px;">${option.handle}</a>`
+              : `<span style="color: #a1a1aa; margin-left: 8px;">${option.handle}</span>`
+          }
+        </td>
+      </tr>
+    `
+    )
+    .join('');
+
+  return `
+    <h3 style="margin: 0 0 16px 0; color: #fafafa; font-size: 16px; font-weight: 600;">
+      Complete your payment using one of these options:
+    </h3>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
+      ${paymentOptionsHtml}
+    </table>
+  `;
+}
+
 export function ctaButton(text: string, url: string): string {
   return `
     <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
@@ -47,3 +95,13 @@ export function ctaButton(text: string, url: string): string {
     </table>`;
 }
 
+
+/** Escapes text entered by participants (names, emails, handles) before it goes into an email */
+export function escapeHtml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
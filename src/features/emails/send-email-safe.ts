@@ -5,8 +5,8 @@ import { sendEmail } from './send-email';
 interface SendEmailSafeParams {
   to: string;
   template: { subject: string; html: string };
-  contestId: string;
-  squareId?: string;
+  contestId?: string;
+  squareIds?: string[];
   emailType: string;
 }
 
@@ -17,7 +17,7 @@ export async function sendEmailSafe(params: SendEmailSafeParams): Promise<boolea
       subject: params.template.subject,
       html: params.template.html,
       contestId: params.contestId,
-      squareId: params.squareId,
+      squareIds: params.squareIds,
       emailType: params.emailType,
     });
 
@@ -1,4 +1,5 @@
 import { resendClient } from '@/libs/resend/resend-client';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
 import { logger } from '@/utils/logger';
 
 interface SendEmailParams {
@@ -6,16 +7,41 @@ interface SendEmailParams {
   subject: string;
   html: string;
   contestId?: string;
-  squareId?: string;
+  /** The squares the email is about; each gets its own email_logs row */
+  squareIds?: string[];
   emailType: string;
 }
 
+interface LogEmailParams {
+  contestId: string;
+  squareIds: string[];
+  recipientEmail: string;
+  emailType: string;
+  resendId: string | undefined;
+}
+
+/**
+ * Records a sent contest email in email_logs so owners can see what went out. Logging
+ * failures are reported but never fail the send.
+ */
+async function logEmail({ contestId, squareIds, recipientEmail, emailType, resendId }: LogEmailParams): Promise<void> {
+  const entry = { contest_id: contestId, recipient_email: recipientEmail, email_type: emailType, resend_id: resendId };
+  const rows =
+    squareIds.length > 0 ? squareIds.map((squareId) => ({ ...entry, square_id: squareId })) : [{ ...entry }];
+
+  const { error } = await supabaseAdminClient.from('email_logs').insert(rows);
+
+  if (error) {
+    logger.error('send-email', error, { contestId, emailType });
+  }
+}
+
 export async function sendEmail({
   to,
   subject,
   html,
   contestId,
-  squareId,
+  squareIds = [],
   emailType,
 }: SendEmailParams): Promise<{ success: true; id: string | undefined } | { success: false; error: unknown }> {
   try {
@@ -30,8 +56,9 @@ export async function sendEmail({
       throw new Error(error.message);
     }
 
-    // Log email to database (optional, for tracking)
-    // await logEmail({ contestId, squareId, recipientEmail: to, emailType, resendId: data?.id });
+    if (contestId) {
+      await logEmail({ contestId, squareIds, recipientEmail: to, emailType, resendId: data?.id });
+    }
 
     return { success: true, id: data?.id };
   } catch (error) {
@@ -0,0 +1,54 @@
+import { ctaButton, squareDetailsTable, SquarePosition } from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface ClaimExpiredEmailParams {
+  participantName: string;
+  contestName: string;
+  rowTeamName: string;
+  colTeamName: string;
+  squares: SquarePosition[];
+  hideLocations?: boolean;
+  contestUrl: string;
+}
+
+export function claimExpiredEmail({
+  participantName,
+  contestName,
+  rowTeamName,
+  colTeamName,
+  squares,
+  hideLocations,
+  contestUrl,
+}: ClaimExpiredEmailParams): { subject: string; html: string } {
+  const squaresLabel = squares.length > 1 ? 'Your squares have' : 'Your square has';
+  const subject = `${squaresLabel} been released in ${contestName}`;
+
+  const statusHtml = `
+    <td style="${emailStyles.detailLabel}">Status:</td>
+    <td style="color: #a1a1aa; font-size: 16px; font-weight: bold; text-align: right;">Released</td>
+  `;
+
+  const content = `
+    <p style="${emailStyles.greeting}">Hi ${participantName},</p>
+    <p style="${emailStyles.greeting}">
+      We didn't receive your payment in time, so ${squaresLabel.toLowerCase()} been released in
+      <strong style="color: #F97316;">${contestName}</strong> for someone else to claim.
+    </p>
+    ${squareDetailsTable({
+      squares,
+      hidePositions: hideLocations,
+      rowTeamName,
+      colTeamName,
+      statusHtml,
+    })}
+    <p style="${emailStyles.greeting}">
+      Still want in? Claim again while squares are available. If you already paid, contact the organizer so they can
+      sort it out.
+    </p>
+    ${ctaButton('View Contest', contestUrl)}
+  `;
+
+  const html = emailLayout({ children: content });
+
+  return { subject, html };
+}
@@ -0,0 +1,45 @@
+import { ctaButton } from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface ContestAccessInviteEmailParams {
+  inviterEmail: string;
+  contestName: string;
+  rowTeamName: string;
+  colTeamName: string;
+  accessUrl: string;
+  expiresInDays: number;
+}
+
+export function contestAccessInviteEmail({
+  inviterEmail,
+  contestName,
+  rowTeamName,
+  colTeamName,
+  accessUrl,
+  expiresInDays,
+}: ContestAccessInviteEmailParams): { subject: string; html: string } {
+  const subject = `You're invited to ${contestName}`;
+
+  const content = `
+    <p style="${emailStyles.greeting}">Hi there,</p>
+    <p style="margin: 0 0 24px 0; color: #fafafa; font-size: 18px; font-weight: 600;">
+      ${inviterEmail} invited you to pick squares in ${contestName}.
+    </p>
+    <div style="${emailStyles.detailsBox}">
+      <div style="${emailStyles.detailsBoxPadding}">
+        <p style="${emailStyles.detailsTitle}">${rowTeamName} vs ${colTeamName}</p>
+        <p style="margin: 0; color: #a1a1aa; font-size: 14px;">
+          This contest is invite-only. Claim squares with this email address.
+        </p>
+      </div>
+    </div>
+    <p style="${emailStyles.greeting}">
+      The link below is just for you and works for ${expiresInDays} days. Please don't forward it.
+    </p>
+    ${ctaButton('Open Contest', accessUrl)}
+  `;
+
+  const html = emailLayout({ children: content });
+
+  return { subject, html };
+}
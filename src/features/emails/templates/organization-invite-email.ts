@@ -0,0 +1,39 @@
+import { ctaButton } from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface OrganizationInviteEmailParams {
+  inviterEmail: string;
+  organizationName: string;
+  roleLabel: string;
+  roleDescription: string;
+  inviteUrl: string;
+}
+
+export function organizationInviteEmail({
+  inviterEmail,
+  organizationName,
+  roleLabel,
+  roleDescription,
+  inviteUrl,
+}: OrganizationInviteEmailParams): { subject: string; html: string } {
+  const subject = `You're invited to join ${organizationName} on Fundwell`;
+
+  const content = `
+    <p style="${emailStyles.greeting}">Hi there,</p>
+    <p style="margin: 0 0 24px 0; color: #fafafa; font-size: 18px; font-weight: 600;">
+      ${inviterEmail} invited you to join ${organizationName} as a ${roleLabel}.
+    </p>
+    <div style="${emailStyles.detailsBox}">
+      <div style="${emailStyles.detailsBoxPadding}">
+        <p style="${emailStyles.detailsTitle}">${roleLabel}</p>
+        <p style="margin: 0; color: #a1a1aa; font-size: 14px;">${roleDescription}</p>
+      </div>
+    </div>
+    <p style="${emailStyles.greeting}">Sign in with this email address to accept the invite.</p>
+    ${ctaButton('Accept Invite', inviteUrl)}
+  `;
+
+  const html = emailLayout({ children: content });
+
+  return { subject, html };
+}
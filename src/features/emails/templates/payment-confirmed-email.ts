@@ -1,4 +1,4 @@
-import { ctaButton, squareDetailsTable } from '../components/email-components';
+import { ctaButton, squareDetailsTable, SquarePosition } from '../components/email-components';
 import { emailLayout, emailStyles } from '../layouts/email-layout';
 
 interface PaymentConfirmedEmailParams {
@@ -6,8 +6,8 @@ interface PaymentConfirmedEmailParams {
   contestName: string;
   rowTeamName: string;
   colTeamName: string;
-  rowIndex: number;
-  colIndex: number;
+  squares: SquarePosition[];
+  hideLocations?: boolean;
   contestUrl: string;
 }
 
@@ -16,8 +16,8 @@ export function paymentConfirmedEmail({
   contestName,
   rowTeamName,
   colTeamName,
-  rowIndex,
-  colIndex,
+  squares,
+  hideLocations,
   contestUrl,
 }: PaymentConfirmedEmailParams): { subject: string; html: string } {
   const subject = `Payment confirmed for ${contestName}`;
@@ -33,13 +33,13 @@ export function paymentConfirmedEmail({
       Your payment has been confirmed! ✓
     </p>
     ${squareDetailsTable({
-      rowIndex,
-      colIndex,
+      squares,
+      hidePositions: hideLocations,
       rowTeamName,
       colTeamName,
       statusHtml,
     })}
-    <p style="${emailStyles.greeting}">Your square is locked in. Good luck!</p>
+    <p style="${emailStyles.greeting}">${squares.length > 1 ? 'Your squares are' : 'Your square is'} locked in. Good luck!</p>
     ${ctaButton('View Contest', contestUrl)}
   `;
 
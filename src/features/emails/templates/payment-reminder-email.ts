@@ -0,0 +1,72 @@
+import {
+  ctaButton,
+  PaymentOption,
+  paymentOptionsSection,
+  squareDetailsTable,
+  SquarePosition,
+} from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface PaymentReminderEmailParams {
+  participantName: string;
+  contestName: string;
+  rowTeamName: string;
+  colTeamName: string;
+  squares: SquarePosition[];
+  hideLocations?: boolean;
+  squarePrice: number;
+  hoursRemaining: number;
+  contestUrl: string;
+  paymentOptions: PaymentOption[];
+}
+
+export function paymentReminderEmail({
+  participantName,
+  contestName,
+  rowTeamName,
+  colTeamName,
+  squares,
+  hideLocations,
+  squarePrice,
+  hoursRemaining,
+  contestUrl,
+  paymentOptions,
+}: PaymentReminderEmailParams): { subject: string; html: string } {
+  const squaresLabel = squares.length > 1 ? 'your squares' : 'your square';
+  const subject = `Reminder: pay for ${squaresLabel} in ${contestName}`;
+  const amountDue = squarePrice * squares.length;
+  const timeLabel =
+    hoursRemaining >= 1 ? `about ${hoursRemaining} hour${hoursRemaining !== 1 ? 's' : ''}` : 'less than an hour';
+
+  const statusHtml = `
+    <td style="${emailStyles.detailLabel}">Amount Due:</td>
+    <td style="color: #F97316; font-size: 16px; font-weight: bold; text-align: right;">$${amountDue.toFixed(2)}</td>
+  `;
+
+  const content = `
+    <p style="${emailStyles.greeting}">Hi ${participantName},</p>
+    <p style="${emailStyles.greeting}">
+      We haven't received your payment for ${squaresLabel} in <strong style="color: #F97316;">${contestName}</strong> yet.
+      You have <strong style="color: #fafafa;">${timeLabel}</strong> to pay before ${
+    squares.length > 1 ? 'they are' : 'it is'
+  }
+      released for someone else to claim.
+    </p>
+    ${squareDetailsTable({
+      squares,
+      hidePositions: hideLocations,
+      rowTeamName,
+      colTeamName,
+      statusHtml,
+    })}
+    ${paymentOptionsSection(paymentOptions)}
+    <p style="${
+      emailStyles.greeting
+    }">Already paid? The organizer will mark it shortly, so you can ignore this email.</p>
+    ${ctaButton('View Contest', contestUrl)}
+  `;
+
+  const html = emailLayout({ children: content });
+
+  return { subject, html };
+}
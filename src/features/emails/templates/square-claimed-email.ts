@@ -1,20 +1,22 @@
-import { ctaButton, squareDetailsTable } from '../components/email-components';
+import {
+  ctaButton,
+  PaymentOption,
+  paymentOptionsSection,
+  squareDetailsTable,
+  SquarePosition,
+} from '../components/email-components';
 import { emailLayout, emailStyles } from '../layouts/email-layout';
 
-interface PaymentOption {
-  type: string;
-  handle: string;
-  link?: string;
-}
-
 interface SquareClaimedEmailParams {
   participantName: string;
   contestName: string;
   rowTeamName: string;
   colTeamName: string;
-  rowIndex: number;
-  colIndex: number;
+  squares: SquarePosition[];
+  hideLocations?: boolean;
   squarePrice: number;
+  /** Hours the participant has to pay before the squares are released, if the contest sets a deadline */
+  paymentDeadlineHours?: number | null;
   contestUrl: string;
   paymentOptions: PaymentOption[];
 }
@@ -24,61 +26,43 @@ export function squareClaimedEmail({
   contestName,
   rowTeamName,
   colTeamName,
-  rowIndex,
-  colIndex,
+  squares,
+  hideLocations,
   squarePrice,
+  paymentDeadlineHours,
   contestUrl,
   paymentOptions,
 }: SquareClaimedEmailParams): { subject: string; html: string } {
-  const subject = `You claimed a square in ${contestName}!`;
-
-  const paymentOptionsHtml = paymentOptions
-    .map(
-      (option) => `
-      <tr>
-        <td style="padding: 8px 0; border-bottom: 1px solid #3f3f46;">
-          <strong style="color: #fafafa;">${option.type}:</strong>
-          ${
-            option.link
-              ? `<a href="${option.link}" style="color: #F97316; text-decoration: none; margin-left: 8px;">${option.handle}</a>`
-              : `<span style="color: #a1a1aa; margin-left: 8px;">${option.handle}</span>`
-          }
-        </td>
-      </tr>
-    `
-    )
-    .join('');
+  const squaresLabel = squares.length > 1 ? `${squares.length} squares` : 'a square';
+  const subject = `You claimed ${squaresLabel} in ${contestName}!`;
+  const amountDue = squarePrice * squares.length;
 
   const statusHtml = `
     <td style="${emailStyles.detailLabel}">Amount Due:</td>
-    <td style="color: #F97316; font-size: 16px; font-weight: bold; text-align: right;">$${squarePrice.toFixed(2)}</td>
+    <td style="color: #F97316; font-size: 16px; font-weight: bold; text-align: right;">$${amountDue.toFixed(2)}</td>
   `;
 
-  const paymentSection =
-    paymentOptions.length > 0
-      ? `
-        <h3 style="margin: 0 0 16px 0; color: #fafafa; font-size: 16px; font-weight: 600;">
-          Complete your payment using one of these options:
-        </h3>
-        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin-bottom: 24px;">
-          ${paymentOptionsHtml}
-        </table>
-      `
-      : '';
+  const deadlineHtml = paymentDeadlineHours
+    ? `<p style="${emailStyles.greeting}">
+        Please pay within <strong style="color: #fafafa;">${paymentDeadlineHours} hour${paymentDeadlineHours !== 1 ? 's' : ''}</strong>.
+        After that, ${squares.length > 1 ? 'they are' : 'it is'} released for someone else to claim.
+      </p>`
+    : '';
 
   const content = `
     <p style="${emailStyles.greeting}">Hi ${participantName},</p>
     <p style="${emailStyles.greeting}">
-      You've claimed a square in <strong style="color: #F97316;">${contestName}</strong>!
+      You've claimed ${squaresLabel} in <strong style="color: #F97316;">${contestName}</strong>!
     </p>
     ${squareDetailsTable({
-      rowIndex,
-      colIndex,
+      squares,
+      hidePositions: hideLocations,
       rowTeamName,
       colTeamName,
       statusHtml,
     })}
-    ${paymentSection}
+    ${deadlineHtml}
+    ${paymentOptionsSection(paymentOptions)}
     ${ctaButton('View Contest', contestUrl)}
   `;
 
@@ -86,4 +70,3 @@ export function squareClaimedEmail({
 
   return { subject, html };
 }
-
@@ -0,0 +1,100 @@
+import { escapeHtml } from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface SuperBowlQuarterEmailParams {
+  ownerName: string;
+  contestName: string;
+  quarterName: string;
+  homeTeamName: string;
+  awayTeamName: string;
+  homeScore: number;
+  awayScore: number;
+  winnerName: string;
+  winnerEmail: string | null;
+  winnerVenmo: string | null;
+  prizeAmount: number;
+  /** Secondary payouts and shares rolled over from unclaimed squares */
+  secondaryWinners: { roleLabel: string; name: string; email: string | null; prizeAmount: number }[];
+  unclaimedNote: string | null;
+}
+
+export function superBowlQuarterEmail({
+  ownerName,
+  contestName,
+  quarterName,
+  homeTeamName,
+  awayTeamName,
+  homeScore,
+  awayScore,
+  winnerName,
+  winnerEmail,
+  winnerVenmo,
+  prizeAmount,
+  secondaryWinners,
+  unclaimedNote,
+}: SuperBowlQuarterEmailParams): { subject: string; html: string } {
+  const subject = `${quarterName} Winner - ${contestName}`;
+
+  const detailRow = (label: string, value: string) => `
+    <tr style="${emailStyles.detailRow}">
+      <td style="${emailStyles.detailLabel}">${label}:</td>
+      <td style="${emailStyles.detailValue}">${value}</td>
+    </tr>`;
+
+  const secondaryRows = secondaryWinners
+    .map((w) =>
+      detailRow(
+        escapeHtml(w.roleLabel),
+        `${escapeHtml(w.name)}${w.email ? ` (${escapeHtml(w.email)})` : ''} - ` +
+          `<span style="color: #22c55e; font-weight: bold;">$${w.prizeAmount.toLocaleString()}</span>`
+      )
+    )
+    .join('');
+
+  const secondarySection = secondaryRows
+    ? `
+      <div style="border-top: 1px solid #52525b; padding-top: 16px; margin-top: 16px;">
+        <p style="margin: 0 0 12px 0; color: #FBBF24; font-size: 18px; font-weight: 600;">Secondary Payouts</p>
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${secondaryRows}</table>
+      </div>`
+    : '';
+
+  const content = `
+    <p style="${emailStyles.greeting}">Hi ${escapeHtml(ownerName)},</p>
+    <p style="margin: 0 0 24px 0; color: #fafafa; font-size: 16px;">
+      <strong style="color: #F97316;">${quarterName}</strong> just ended in <strong>${escapeHtml(contestName)}</strong>!
+      Here are the results:
+    </p>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="${emailStyles.detailsBox}">
+      <tr>
+        <td style="${emailStyles.detailsBoxPadding}">
+          <p style="${emailStyles.detailsTitle}">Score</p>
+          <p style="margin: 0 0 4px 0; color: #a1a1aa; font-size: 14px;">
+            ${escapeHtml(homeTeamName)}: <strong style="color: #fafafa;">${homeScore}</strong>
+          </p>
+          <p style="margin: 0 0 16px 0; color: #a1a1aa; font-size: 14px;">
+            ${escapeHtml(awayTeamName)}: <strong style="color: #fafafa;">${awayScore}</strong>
+          </p>
+          <div style="border-top: 1px solid #52525b; padding-top: 16px;">
+            <p style="margin: 0 0 12px 0; color: #FBBF24; font-size: 18px; font-weight: 600;">Winner</p>
+            <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+              ${detailRow('Name', escapeHtml(winnerName))}
+              ${detailRow('Email', winnerEmail ? escapeHtml(winnerEmail) : 'N/A')}
+              ${detailRow('Venmo', winnerVenmo ? escapeHtml(winnerVenmo) : 'N/A')}
+              ${detailRow(
+                'Prize',
+                `<span style="color: #22c55e; font-weight: bold;">$${prizeAmount.toLocaleString()}</span>`
+              )}
+            </table>
+          </div>
+          ${secondarySection}
+          ${unclaimedNote ? `<p style="margin: 16px 0 0 0; color: #FBBF24; font-size: 14px;">${unclaimedNote}</p>` : ''}
+        </td>
+      </tr>
+    </table>
+  `;
+
+  const html = emailLayout({ children: content });
+
+  return { subject, html };
+}
@@ -0,0 +1,86 @@
+import { escapeHtml } from '../components/email-components';
+import { emailLayout, emailStyles } from '../layouts/email-layout';
+
+interface SuperBowlSummaryEmailParams {
+  ownerName: string;
+  contestName: string;
+  winners: {
+    quarterName: string;
+    homeScore: number;
+    awayScore: number;
+    winnerName: string;
+    winnerEmail: string | null;
+    winnerVenmo: string | null;
+    prizeAmount: number;
+  }[];
+  totalPayout: number;
+}
+
+export function superBowlSummaryEmail({ ownerName, contestName, winners, totalPayout }: SuperBowlSummaryEmailParams): {
+  subject: string;
+  html: string;
+} {
+  const subject = `Game Over! Final Summary - ${contestName}`;
+
+  const cellStyle = 'padding: 12px 16px; border-bottom: 1px solid #52525b; color: #fafafa; font-size: 14px;';
+  const headerStyle =
+    'padding: 12px 16px; text-align: left; color: #a1a1aa; font-size: 12px; text-transform: uppercase; border-bottom: 2px solid #52525b;';
+
+  const winnerRows = winners
+    .map(
+      (w) => `
+      <tr>
+        <td style="${cellStyle} color: #F97316; font-weight: 600;">${w.quarterName}</td>
+        <td style="${cellStyle}">${w.homeScore}-${w.awayScore}</td>
+        <td style="${cellStyle}">${escapeHtml(w.winnerName)}</td>
+        <td style="${cellStyle}">${w.winnerEmail ? escapeHtml(w.winnerEmail) : 'N/A'}</td>
+        <td style="${cellStyle}">${w.winnerVenmo ? escapeHtml(w.winnerVenmo) : 'N/A'}</td>
+        <td style="${cellStyle} color: #22c55e; font-weight: bold;">$${w.prizeAmount.toLocaleString()}</td>
+      </tr>`
+    )
+    .join('');
+
+  const content = `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+      <tr>
+        <td align="center" style="padding-bottom: 24px;">
+          <div style="font-size: 64px; line-height: 1;">🏈</div>
+          <h2 style="margin: 16px 0 0 0; color: #FBBF24; font-size: 28px; font-weight: bold;">Game Over!</h2>
+        </td>
+      </tr>
+    </table>
+    <p style="margin: 0 0 8px 0; color: #fafafa; font-size: 16px;">Hi ${escapeHtml(ownerName)},</p>
+    <p style="margin: 0 0 24px 0; color: #a1a1aa; font-size: 16px;">
+      The Super Bowl is over! Here's the complete winner summary for
+      <strong style="color: #fafafa;">${escapeHtml(contestName)}</strong>.
+    </p>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="${
+      emailStyles.detailsBox
+    } overflow: hidden;">
+      <tr>
+        <th style="${headerStyle}">Quarter</th>
+        <th style="${headerStyle}">Score</th>
+        <th style="${headerStyle}">Winner</th>
+        <th style="${headerStyle}">Email</th>
+        <th style="${headerStyle}">Venmo</th>
+        <th style="${headerStyle}">Prize</th>
+      </tr>
+      ${winnerRows}
+      <tr>
+        <td colspan="5" style="padding: 12px 16px; color: #fafafa; font-size: 14px; font-weight: bold; text-align: right;">
+          Total Payout:
+        </td>
+        <td style="padding: 12px 16px; color: #22c55e; font-size: 16px; font-weight: bold;">
+          $${totalPayout.toLocaleString()}
+        </td>
+      </tr>
+    </table>
+    <p style="margin: 0; color: #a1a1aa; font-size: 14px; text-align: center;">
+      Your contest has been automatically marked as completed. All winners have been notified.
+    </p>
+  `;
+
+  const html = emailLayout({ headerStyle: 'gradient', children: content });
+
+  return { subject, html };
+}
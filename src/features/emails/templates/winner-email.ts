@@ -11,6 +11,8 @@ interface WinnerEmailParams {
   awayScore: number;
   prizeAmount: number;
   contestUrl: string;
+  /** Set for secondary payouts, e.g. "Reverse" */
+  roleLabel?: string;
 }
 
 export function winnerEmail({
@@ -23,8 +25,14 @@ export function winnerEmail({
   awayScore,
   prizeAmount,
   contestUrl,
+  roleLabel,
 }: WinnerEmailParams): { subject: string; html: string } {
-  const subject = `🏆 You won ${quarterName} in ${contestName}!`;
+  const subject = roleLabel
+    ? `🏆 You won the ${roleLabel} prize for ${quarterName} in ${contestName}!`
+    : `🏆 You won ${quarterName} in ${contestName}!`;
+  const wonText = roleLabel
+    ? `You won the <strong style="color: #F97316;">${roleLabel}</strong> prize for <strong style="color: #F97316;">${quarterName}</strong>`
+    : `You won <strong style="color: #F97316;">${quarterName}</strong>`;
 
   const scoreBox = `
     <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="${emailStyles.detailsBox}">
@@ -102,7 +110,7 @@ export function winnerEmail({
       Congratulations ${participantName}!
     </p>
     <p style="margin: 0 0 24px 0; color: #a1a1aa; font-size: 16px; text-align: center;">
-      You won <strong style="color: #F97316;">${quarterName}</strong> in <strong style="color: #fafafa;">${contestName}</strong>!
+      ${wonText} in <strong style="color: #fafafa;">${contestName}</strong>!
     </p>
     ${scoreBox}
     ${prizeSection}
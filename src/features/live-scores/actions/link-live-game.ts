@@ -0,0 +1,68 @@
+'use server';
+
+import { ContestStatus, getPeriod } from '@/features/contests/constants';
+import { withContestPermission } from '@/features/contests/middleware/auth-middleware';
+import { GameQuarter } from '@/features/contests/types';
+import { ActionResponse } from '@/types/action-response';
+
+import { isSeriesSport, SCORE_LEAGUES } from '../constants';
+import { LiveGame, ScoreLeague } from '../types';
+
+const MAX_EVENT_ID_LENGTH = 100;
+
+interface LinkLiveGameInput {
+  league: ScoreLeague;
+  eventId: string;
+  /** The period the game decides, for series contests */
+  quarter: GameQuarter | null;
+  rowIsHome: boolean;
+}
+
+/**
+ * Links a contest to a scheduled game so its period scores are recorded automatically.
+ */
+export async function linkLiveGame(contestId: string, input: LinkLiveGameInput): Promise<ActionResponse<LiveGame>> {
+  return withContestPermission<LiveGame>(contestId, 'manage_settings', async (user, supabase, contest) => {
+    if (contest.status === ContestStatus.COMPLETED) {
+      throw new Error('Cannot link a game to a completed contest');
+    }
+
+    if (contest.prize_type === 'score_change') {
+      throw new Error('Scoring plays are recorded by hand for contests where every score wins');
+    }
+
+    const league = SCORE_LEAGUES[input.league];
+    if (!league || league.sportType !== contest.sport_type) {
+      throw new Error('Choose a league for this sport');
+    }
+
+    const eventId = input.eventId.trim();
+    if (!eventId || eventId.length > MAX_EVENT_ID_LENGTH) {
+      throw new Error("Enter the game's event id");
+    }
+
+    // Each game of a series decides one period; other games decide every period
+    const isSeries = isSeriesSport(contest.sport_type);
+    if (isSeries && (!input.quarter || !getPeriod(contest.sport_type, input.quarter))) {
+      throw new Error('Choose the game this event decides');
+    }
+
+    const { data, error } = await supabase
+      .from('live_games')
+      .insert({
+        contest_id: contestId,
+        league: league.type,
+        event_id: eventId,
+        quarter: isSeries ? input.quarter : null,
+        row_is_home: input.rowIsHome,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.code === '23505' ? 'That game or period is already linked' : 'Failed to link game');
+    }
+
+    return data;
+  })();
+}
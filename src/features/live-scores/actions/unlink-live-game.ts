@@ -0,0 +1,19 @@
+'use server';
+
+import { withContestPermission } from '@/features/contests/middleware/auth-middleware';
+import { ActionResponse } from '@/types/action-response';
+
+/**
+ * Stops recording scores from a linked game. Scores already recorded are kept.
+ */
+export async function unlinkLiveGame(contestId: string, liveGameId: string): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_settings', async (user, supabase) => {
+    const { error } = await supabase.from('live_games').delete().eq('id', liveGameId).eq('contest_id', contestId);
+
+    if (error) {
+      throw new Error('Failed to unlink game');
+    }
+
+    return null;
+  })();
+}
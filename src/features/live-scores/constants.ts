@@ -0,0 +1,102 @@
+import { OvertimeRule, paysFinalAtRegulation, supportsOvertimeRules } from '@/features/contests/constants';
+import { GameQuarter } from '@/features/contests/types';
+import { Database } from '@/libs/supabase/types';
+
+import { ScoreLeague } from './types';
+
+type SportType = Database['public']['Enums']['sport_type'];
+
+export type ScoreProviderName = 'espn' | 'fake' | 'replay';
+
+export interface ScoreLeagueDefinition {
+  type: ScoreLeague;
+  label: string;
+  sportType: SportType;
+  /** Provider that serves the league's scores */
+  provider: ScoreProviderName;
+  /** Path of the league on ESPN's site API */
+  espnPath: string;
+}
+
+export const SCORE_LEAGUES: Record<ScoreLeague, ScoreLeagueDefinition> = {
+  nfl: { type: 'nfl', label: 'NFL', sportType: 'football', provider: 'espn', espnPath: 'football/nfl' },
+  college_football: {
+    type: 'college_football',
+    label: 'College Football',
+    sportType: 'football',
+    provider: 'espn',
+    espnPath: 'football/college-football',
+  },
+  nba: { type: 'nba', label: 'NBA', sportType: 'basketball', provider: 'espn', espnPath: 'basketball/nba' },
+  mlb: { type: 'mlb', label: 'MLB', sportType: 'baseball', provider: 'espn', espnPath: 'baseball/mlb' },
+  nhl: { type: 'nhl', label: 'NHL', sportType: 'hockey', provider: 'espn', espnPath: 'hockey/nhl' },
+  mls: { type: 'mls', label: 'MLS', sportType: 'soccer', provider: 'espn', espnPath: 'soccer/usa.1' },
+};
+
+export const SCORE_LEAGUE_TYPES = [
+  'nfl',
+  'college_football',
+  'nba',
+  'mlb',
+  'nhl',
+  'mls',
+] as const satisfies readonly ScoreLeague[];
+
+export function getLeaguesForSport(sportType: SportType): ScoreLeagueDefinition[] {
+  return SCORE_LEAGUE_TYPES.map((type) => SCORE_LEAGUES[type]).filter((league) => league.sportType === sportType);
+}
+
+/**
+ * When a contest period is decided: after a number of game periods, or by the final score.
+ * overtimeOnly periods are only scored when the game went past regulation.
+ */
+export type PeriodEnd = { afterPeriod: number } | { final: true; overtimeOnly?: boolean };
+
+/**
+ * How each sport's contest periods map onto a game. Series sports are missing: each of their
+ * periods is a whole game, so every game is linked to the period its final score decides.
+ */
+export const PERIOD_ENDS: Partial<Record<SportType, Partial<Record<GameQuarter, PeriodEnd>>>> = {
+  football: { q1: { afterPeriod: 1 }, q2: { afterPeriod: 2 }, q3: { afterPeriod: 3 }, final: { final: true } },
+  basketball: { q1: { afterPeriod: 1 }, q2: { afterPeriod: 2 }, q3: { afterPeriod: 3 }, final: { final: true } },
+  hockey: {
+    q1: { afterPeriod: 1 },
+    q2: { afterPeriod: 2 },
+    q3: { afterPeriod: 3 },
+    ot: { final: true, overtimeOnly: true },
+  },
+  soccer: { q2: { afterPeriod: 1 }, final: { final: true } },
+};
+
+/** Game periods in regulation, used to tell whether a game went to overtime */
+export const REGULATION_PERIODS: Partial<Record<SportType, number>> = {
+  football: 4,
+  basketball: 4,
+  hockey: 3,
+  soccer: 2,
+};
+
+/**
+ * A contest's period ends under its overtime rule. Unless the final includes overtime,
+ * the final is decided at the end of regulation, and a separate OT prize by the final score.
+ */
+export function getPeriodEnds(
+  sportType: SportType,
+  overtimeRule: OvertimeRule | null | undefined
+): Partial<Record<GameQuarter, PeriodEnd>> {
+  const periodEnds = PERIOD_ENDS[sportType] ?? {};
+  const regulationPeriods = REGULATION_PERIODS[sportType];
+  if (!supportsOvertimeRules(sportType) || !paysFinalAtRegulation(overtimeRule) || !regulationPeriods) {
+    return periodEnds;
+  }
+
+  return {
+    ...periodEnds,
+    final: { afterPeriod: regulationPeriods },
+    ...(overtimeRule === 'separate_ot' && { ot: { final: true, overtimeOnly: true } }),
+  };
+}
+
+export function isSeriesSport(sportType: SportType): boolean {
+  return !PERIOD_ENDS[sportType];
+}
@@ -0,0 +1,154 @@
+import { ContestStatus } from '@/features/contests/constants';
+import { recordScores } from '@/features/contests/controllers/record-scores';
+import { Contest } from '@/features/contests/types';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { logger } from '@/utils/logger';
+
+import { getPeriodScores } from '../period-scores';
+import { getScoreProvider } from '../providers';
+import { LiveGame, ProviderGame, ScoreLeague } from '../types';
+
+type LinkedGame = LiveGame & { contests: Contest | null };
+
+export interface CheckLiveScoresResult {
+  checked: number;
+  recorded: number;
+  errors: number;
+}
+
+// Contests whose scores can be recorded; a locked contest starts once its game does
+const RECORDABLE_STATUSES: string[] = [ContestStatus.LOCKED, ContestStatus.IN_PROGRESS];
+
+/**
+ * Records the period scores of one linked game through the same winner logic as manual entry.
+ * Returns the number of periods recorded.
+ */
+async function recordGameScores(link: LinkedGame, contest: Contest, game: ProviderGame): Promise<number> {
+  if (game.status === 'scheduled' || contest.status === ContestStatus.COMPLETED) return 0;
+  if (!RECORDABLE_STATUSES.includes(contest.status)) {
+    throw new Error('Lock the contest so scores can be recorded');
+  }
+
+  // Only periods that are new or whose score changed (e.g. a stat correction)
+  const { data: existingScores } = await supabaseAdminClient
+    .from('scores')
+    .select('quarter, home_score, away_score')
+    .eq('contest_id', contest.id);
+
+  const periodScores = getPeriodScores(contest.sport_type, contest.overtime_rule, game, link).filter(
+    (score) =>
+      !existingScores?.some(
+        (s) => s.quarter === score.quarter && s.home_score === score.homeScore && s.away_score === score.awayScore
+      )
+  );
+  if (periodScores.length === 0) return 0;
+
+  await recordScores(supabaseAdminClient, contest, periodScores);
+
+  if (contest.status === ContestStatus.LOCKED) {
+    await supabaseAdminClient.from('contests').update({ status: ContestStatus.IN_PROGRESS }).eq('id', contest.id);
+  }
+
+  return periodScores.length;
+}
+
+/**
+ * Completes a contest once every game linked to it is final.
+ */
+async function completeFinishedContest(contestId: string): Promise<void> {
+  const { count } = await supabaseAdminClient
+    .from('live_games')
+    .select('*', { count: 'exact', head: true })
+    .eq('contest_id', contestId)
+    .neq('status', 'final');
+
+  if (count === 0) {
+    await supabaseAdminClient
+      .from('contests')
+      .update({ status: ContestStatus.COMPLETED })
+      .eq('id', contestId)
+      .eq('status', ContestStatus.IN_PROGRESS);
+  }
+}
+
+/**
+ * Polls each league's score provider for every unfinished linked game and records the periods
+ * that have ended. Run on a schedule; games are skipped once final.
+ */
+export async function checkLiveScores(): Promise<CheckLiveScoresResult> {
+  const result: CheckLiveScoresResult = { checked: 0, recorded: 0, errors: 0 };
+
+  const { data: links, error } = await supabaseAdminClient
+    .from('live_games')
+    .select('*, contests(*)')
+    .neq('status', 'final');
+
+  if (error) {
+    throw error;
+  }
+
+  // Score-change contests pay per scoring play, which the owner records by hand
+  const activeLinks = ((links ?? []) as LinkedGame[]).filter(
+    (link) => link.contests && !link.contests.deleted_at && link.contests.prize_type !== 'score_change'
+  );
+
+  const linksByLeague = new Map<ScoreLeague, LinkedGame[]>();
+  for (const link of activeLinks) {
+    linksByLeague.set(link.league, [...(linksByLeague.get(link.league) ?? []), link]);
+  }
+
+  for (const [league, leagueLinks] of linksByLeague) {
+    const provider = getScoreProvider(league);
+    let games: ProviderGame[];
+
+    try {
+      games = await provider.fetchGames(league, [...new Set(leagueLinks.map((link) => link.event_id))]);
+    } catch (fetchError) {
+      logger.error('checkLiveScores', fetchError, { league, provider: provider.name });
+      result.errors += leagueLinks.length;
+      continue;
+    }
+
+    for (const link of leagueLinks) {
+      const contest = link.contests!;
+      const game = games.find((g) => g.eventId === link.event_id);
+      let lastError: string | null = null;
+      result.checked += 1;
+
+      if (!game) {
+        lastError = `Game ${link.event_id} was not found`;
+      } else {
+        try {
+          result.recorded += await recordGameScores(link, contest, game);
+        } catch (recordError) {
+          lastError = recordError instanceof Error ? recordError.message : 'Failed to record scores';
+          logger.error('checkLiveScores', recordError, { contestId: contest.id, eventId: link.event_id });
+        }
+      }
+
+      if (lastError) result.errors += 1;
+
+      // A game is only marked final once its scores are recorded, so failures are retried
+      const isFinal = game?.status === 'final' && !lastError;
+      const status = !game ? link.status : game.status === 'final' && !isFinal ? 'in_progress' : game.status;
+      await supabaseAdminClient
+        .from('live_games')
+        .update({
+          status,
+          period: game?.period ?? link.period,
+          home_score: game?.homeScore ?? link.home_score,
+          away_score: game?.awayScore ?? link.away_score,
+          last_checked_at: getCurrentISOString(),
+          last_error: lastError,
+        })
+        .eq('id', link.id);
+
+      if (isFinal) {
+        await completeFinishedContest(contest.id);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import { getPeriodScores } from './period-scores';
+import { ProviderGame } from './types';
+
+const LINK = { quarter: null, row_is_home: true };
+
+function game(overrides: Partial<ProviderGame>): ProviderGame {
+  const homeLineScores = overrides.homeLineScores ?? [];
+  const awayLineScores = overrides.awayLineScores ?? [];
+
+  return {
+    eventId: 'event-1',
+    status: 'in_progress',
+    period: homeLineScores.length,
+    completedPeriods: homeLineScores.length,
+    homeTeam: 'Home',
+    awayTeam: 'Away',
+    homeScore: homeLineScores.reduce((sum, points) => sum + points, 0),
+    awayScore: awayLineScores.reduce((sum, points) => sum + points, 0),
+    homeLineScores,
+    awayLineScores,
+    ...overrides,
+  };
+}
+
+describe('getPeriodScores', () => {
+  it('does not call a decided game overtime in the gap before it is marked final', () => {
+    const endOfRegulation = game({ homeLineScores: [7, 7, 3, 7], awayLineScores: [0, 3, 7, 0] });
+
+    const scores = getPeriodScores('football', 'separate_ot', endOfRegulation, LINK);
+
+    expect(scores.find((score) => score.quarter === 'final')).toEqual({
+      quarter: 'final',
+      homeScore: 24,
+      awayScore: 10,
+      wentToOvertime: false,
+    });
+
+    const final = getPeriodScores('football', 'separate_ot', { ...endOfRegulation, status: 'final' }, LINK);
+    expect(final.map((score) => score.quarter)).not.toContain('ot');
+  });
+
+  it('calls a game tied at the end of regulation overtime before any overtime points', () => {
+    const tied = game({ homeLineScores: [7, 7, 0, 7], awayLineScores: [0, 7, 7, 7] });
+
+    const scores = getPeriodScores('football', 'regulation_final', tied, LINK);
+
+    expect(scores.find((score) => score.quarter === 'final')).toMatchObject({ homeScore: 21, wentToOvertime: true });
+  });
+
+  it('pays the separate OT period from the final score once an overtime line score is in', () => {
+    const overtime = game({
+      status: 'final',
+      homeLineScores: [7, 7, 0, 7, 0],
+      awayLineScores: [0, 7, 7, 7, 6],
+    });
+
+    const scores = getPeriodScores('football', 'separate_ot', overtime, LINK);
+
+    expect(scores.find((score) => score.quarter === 'final')).toMatchObject({
+      homeScore: 21,
+      awayScore: 21,
+      wentToOvertime: true,
+    });
+    expect(scores.find((score) => score.quarter === 'ot')).toEqual({ quarter: 'ot', homeScore: 21, awayScore: 27 });
+  });
+});
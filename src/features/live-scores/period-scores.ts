@@ -0,0 +1,66 @@
+import { OvertimeRule } from '@/features/contests/constants';
+import { ScoreInput } from '@/features/contests/controllers/record-scores';
+import { GameQuarter } from '@/features/contests/types';
+import { Database } from '@/libs/supabase/types';
+
+import { getPeriodEnds, REGULATION_PERIODS } from './constants';
+import { ProviderGame } from './types';
+
+type SportType = Database['public']['Enums']['sport_type'];
+
+function sumPeriods(lineScores: number[], periods: number): number {
+  return lineScores.slice(0, periods).reduce((sum, points) => sum + points, 0);
+}
+
+/**
+ * Scores of the contest periods a game has decided so far, with the contest's row team
+ * as the home score. A game linked to one period (series contests) decides it with its final score.
+ */
+export function getPeriodScores(
+  sportType: SportType,
+  overtimeRule: OvertimeRule | null | undefined,
+  game: ProviderGame,
+  link: { quarter: GameQuarter | null; row_is_home: boolean }
+): ScoreInput[] {
+  const toScore = (quarter: GameQuarter, home: number, away: number): ScoreInput =>
+    link.row_is_home ? { quarter, homeScore: home, awayScore: away } : { quarter, homeScore: away, awayScore: home };
+
+  if (link.quarter) {
+    return game.status === 'final' ? [toScore(link.quarter, game.homeScore, game.awayScore)] : [];
+  }
+
+  const periodEnds = getPeriodEnds(sportType, overtimeRule);
+  const regulationPeriods = REGULATION_PERIODS[sportType] ?? Infinity;
+  // An overtime line score settles it. Between the end of regulation and the first overtime
+  // score, only a tie means overtime: a decided game can sit there until it's marked final.
+  const wentToOvertime =
+    game.homeLineScores.length > regulationPeriods ||
+    (game.status !== 'final' &&
+      game.completedPeriods >= regulationPeriods &&
+      game.homeLineScores.length >= regulationPeriods &&
+      sumPeriods(game.homeLineScores, regulationPeriods) === sumPeriods(game.awayLineScores, regulationPeriods));
+  const scores: ScoreInput[] = [];
+
+  for (const [quarter, end] of Object.entries(periodEnds) as [GameQuarter, (typeof periodEnds)[GameQuarter]][]) {
+    if (!end) continue;
+
+    if ('afterPeriod' in end) {
+      if (game.completedPeriods < end.afterPeriod && game.status !== 'final') continue;
+      if (game.homeLineScores.length < end.afterPeriod) continue;
+      scores.push(
+        toScore(
+          quarter,
+          sumPeriods(game.homeLineScores, end.afterPeriod),
+          sumPeriods(game.awayLineScores, end.afterPeriod)
+        )
+      );
+      continue;
+    }
+
+    if (game.status !== 'final' || (end.overtimeOnly && !wentToOvertime)) continue;
+    scores.push(toScore(quarter, game.homeScore, game.awayScore));
+  }
+
+  // The final says whether the game went to overtime so winners and emails can label it
+  return scores.map((score) => (score.quarter === 'final' ? { ...score, wentToOvertime } : score));
+}
@@ -0,0 +1,97 @@
+import { SCORE_LEAGUES } from '../constants';
+import { LiveGameStatus, ProviderGame, ScoreProvider } from '../types';
+
+interface ESPNCompetitor {
+  homeAway: 'home' | 'away';
+  score?: string;
+  team?: { displayName?: string };
+  linescores?: { value?: number; displayValue?: string }[];
+}
+
+export interface ESPNSummary {
+  header?: {
+    competitions?: {
+      status?: {
+        period?: number;
+        type?: { name?: string; state?: 'pre' | 'in' | 'post'; completed?: boolean };
+      };
+      competitors?: ESPNCompetitor[];
+    }[];
+  };
+}
+
+const ESPN_BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports';
+
+// Statuses reported between periods, when the period that just ended is complete
+const PERIOD_BREAK_STATUSES = ['STATUS_END_PERIOD', 'STATUS_HALFTIME'];
+
+function getLineScores(competitor: ESPNCompetitor): number[] {
+  return (competitor.linescores ?? []).map((line) => Number(line.value ?? line.displayValue) || 0);
+}
+
+/**
+ * Reads a game from an ESPN event summary. Returns null when the summary has no competition
+ * with both teams.
+ */
+export function toProviderGame(eventId: string, summary: ESPNSummary): ProviderGame | null {
+  const competition = summary.header?.competitions?.[0];
+  const home = competition?.competitors?.find((c) => c.homeAway === 'home');
+  const away = competition?.competitors?.find((c) => c.homeAway === 'away');
+  if (!competition || !home || !away) return null;
+
+  const statusType = competition.status?.type;
+  const period = competition.status?.period ?? 0;
+  const status: LiveGameStatus =
+    statusType?.completed || statusType?.state === 'post'
+      ? 'final'
+      : statusType?.state === 'in'
+      ? 'in_progress'
+      : 'scheduled';
+
+  const homeLineScores = getLineScores(home);
+  const completedPeriods =
+    status === 'final'
+      ? homeLineScores.length
+      : status === 'scheduled'
+      ? 0
+      : PERIOD_BREAK_STATUSES.includes(statusType?.name ?? '')
+      ? period
+      : Math.max(period - 1, 0);
+
+  return {
+    eventId,
+    status,
+    period,
+    completedPeriods,
+    homeTeam: home.team?.displayName ?? 'Home',
+    awayTeam: away.team?.displayName ?? 'Away',
+    homeScore: parseInt(home.score ?? '0', 10) || 0,
+    awayScore: parseInt(away.score ?? '0', 10) || 0,
+    homeLineScores,
+    awayLineScores: getLineScores(away),
+  };
+}
+
+/**
+ * Reads games from ESPN's public site API, one event summary per game.
+ */
+export const espnProvider: ScoreProvider = {
+  name: 'espn',
+  async fetchGames(league, eventIds) {
+    const games: ProviderGame[] = [];
+
+    for (const eventId of eventIds) {
+      const url = `${ESPN_BASE_URL}/${SCORE_LEAGUES[league].espnPath}/summary?event=${encodeURIComponent(eventId)}`;
+      const response = await fetch(url, { cache: 'no-store' });
+      if (response.status === 404) continue;
+      if (!response.ok) {
+        throw new Error(`ESPN API returned ${response.status}`);
+      }
+
+      const game = toProviderGame(eventId, (await response.json()) as ESPNSummary);
+      if (game) games.push(game);
+    }
+
+    return games;
+  },
+};
@@ -0,0 +1,51 @@
+import { readFile } from 'fs/promises';
+
+import { LiveGameStatus, ProviderGame, ScoreProvider } from '../types';
+
+interface FakeGame {
+  status?: LiveGameStatus;
+  /** Periods that have finished; defaults to every period listed */
+  completedPeriods?: number;
+  homeTeam?: string;
+  awayTeam?: string;
+  /** Points scored in each period */
+  home: number[];
+  away: number[];
+}
+
+const DEFAULT_FAKE_SCORES_PATH = 'fake-live-scores.json';
+
+/**
+ * Serves games from a local JSON file for testing, keyed by event id (FAKE_LIVE_SCORES_PATH,
+ * fake-live-scores.json by default). Edit the file while the app runs to play a game through:
+ *
+ *   { "demo": { "status": "in_progress", "completedPeriods": 1, "home": [7], "away": [3] } }
+ */
+export const fakeProvider: ScoreProvider = {
+  name: 'fake',
+  async fetchGames(_league, eventIds) {
+    const path = process.env.FAKE_LIVE_SCORES_PATH || DEFAULT_FAKE_SCORES_PATH;
+    const fakeGames = JSON.parse(await readFile(path, 'utf8')) as Record<string, FakeGame>;
+
+    return eventIds
+      .filter((eventId) => fakeGames[eventId])
+      .map((eventId) => {
+        const game = fakeGames[eventId];
+        const status = game.status ?? 'in_progress';
+        const completedPeriods = game.completedPeriods ?? game.home.length;
+
+        return {
+          eventId,
+          status,
+          period: status === 'in_progress' ? completedPeriods + 1 : completedPeriods,
+          completedPeriods,
+          homeTeam: game.homeTeam ?? 'Home',
+          awayTeam: game.awayTeam ?? 'Away',
+          homeScore: game.home.reduce((sum, points) => sum + points, 0),
+          awayScore: game.away.reduce((sum, points) => sum + points, 0),
+          homeLineScores: game.home,
+          awayLineScores: game.away,
+        };
+      });
+  },
+};
@@ -0,0 +1,23 @@
+import { SCORE_LEAGUES, ScoreProviderName } from '../constants';
+import { ScoreLeague, ScoreProvider } from '../types';
+
+import { espnProvider } from './espn-provider';
+import { fakeProvider } from './fake-provider';
+import { replayProvider } from './replay-provider';
+
+const SCORE_PROVIDERS: Record<ScoreProviderName, ScoreProvider> = {
+  espn: espnProvider,
+  fake: fakeProvider,
+  replay: replayProvider,
+};
+
+/**
+ * Returns the provider serving a league's scores. SCORE_PROVIDER overrides it for every
+ * league, e.g. SCORE_PROVIDER=fake to play games from a local file or SCORE_PROVIDER=replay to
+ * step through a recorded one.
+ */
+export function getScoreProvider(league: ScoreLeague): ScoreProvider {
+  const override = process.env.SCORE_PROVIDER as ScoreProviderName | undefined;
+  if (override && SCORE_PROVIDERS[override]) return SCORE_PROVIDERS[override];
+  return SCORE_PROVIDERS[SCORE_LEAGUES[league].provider];
+}
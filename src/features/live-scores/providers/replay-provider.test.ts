@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { OvertimeRule } from '@/features/contests/constants';
+
+import { getPeriodScores } from '../period-scores';
+import { ProviderGame } from '../types';
+
+import { REPLAY_FIXTURES, replayProvider } from './replay-provider';
+
+const FIXTURE = REPLAY_FIXTURES['super-bowl-li-overtime'];
+// Atlanta is home; the contest's row team is Atlanta
+const LINK = { quarter: null, row_is_home: true };
+
+async function playStep(label: string): Promise<ProviderGame> {
+  const step = FIXTURE.steps.findIndex((recorded) => recorded.label === label);
+  expect(step).toBeGreaterThanOrEqual(0);
+  vi.stubEnv('REPLAY_STEP', String(step));
+
+  const [game] = await replayProvider.fetchGames('nfl', [FIXTURE.eventId]);
+  return game;
+}
+
+function periodScores(game: ProviderGame, overtimeRule: OvertimeRule) {
+  return getPeriodScores('football', overtimeRule, game, LINK);
+}
+
+describe('replayProvider with Super Bowl LI', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('serves nothing for other events', async () => {
+    expect(await replayProvider.fetchGames('nfl', ['some-other-game'])).toEqual([]);
+  });
+
+  it('reads the pregame summary as a scheduled game', async () => {
+    const game = await playStep('Pregame');
+
+    expect(game).toMatchObject({
+      status: 'scheduled',
+      period: 0,
+      completedPeriods: 0,
+      homeTeam: 'Atlanta Falcons',
+      awayTeam: 'New England Patriots',
+      homeScore: 0,
+      awayScore: 0,
+    });
+    expect(periodScores(game, 'final_includes_ot')).toEqual([]);
+  });
+
+  it('scores Q1 at the end of the first quarter', async () => {
+    const game = await playStep('End of Q1');
+
+    expect(game).toMatchObject({ status: 'in_progress', period: 1, completedPeriods: 1, homeLineScores: [0] });
+    expect(periodScores(game, 'final_includes_ot')).toEqual([{ quarter: 'q1', homeScore: 0, awayScore: 0 }]);
+  });
+
+  it('scores the half at halftime', async () => {
+    const game = await playStep('Halftime');
+
+    expect(game).toMatchObject({ status: 'in_progress', period: 2, completedPeriods: 2, homeScore: 21, awayScore: 3 });
+    expect(periodScores(game, 'final_includes_ot')).toEqual([
+      { quarter: 'q1', homeScore: 0, awayScore: 0 },
+      { quarter: 'q2', homeScore: 21, awayScore: 3 },
+    ]);
+  });
+
+  it('pays the regulation final at the tied end of regulation, and waits under the overtime rule', async () => {
+    const game = await playStep('End of regulation');
+
+    expect(game).toMatchObject({ status: 'in_progress', period: 4, completedPeriods: 4, homeScore: 28, awayScore: 28 });
+
+    expect(periodScores(game, 'final_includes_ot').map((score) => score.quarter)).toEqual(['q1', 'q2', 'q3']);
+    expect(periodScores(game, 'final_includes_ot')[2]).toEqual({ quarter: 'q3', homeScore: 28, awayScore: 9 });
+
+    for (const rule of ['regulation_final', 'separate_ot'] as const) {
+      expect(periodScores(game, rule).find((score) => score.quarter === 'final')).toEqual({
+        quarter: 'final',
+        homeScore: 28,
+        awayScore: 28,
+        wentToOvertime: true,
+      });
+      expect(periodScores(game, rule).map((score) => score.quarter)).not.toContain('ot');
+    }
+  });
+
+  it('pays nothing new while overtime is being played', async () => {
+    const game = await playStep('Overtime');
+
+    expect(game).toMatchObject({
+      status: 'in_progress',
+      period: 5,
+      completedPeriods: 4,
+      homeLineScores: [0, 21, 7, 0, 0],
+      awayLineScores: [0, 3, 6, 19, 0],
+    });
+    expect(periodScores(game, 'final_includes_ot').map((score) => score.quarter)).toEqual(['q1', 'q2', 'q3']);
+    expect(periodScores(game, 'separate_ot').map((score) => score.quarter)).toEqual(['q1', 'q2', 'q3', 'final']);
+  });
+
+  it('pays the final score once the game is final, under each overtime rule', async () => {
+    const game = await playStep('Final');
+
+    expect(game).toMatchObject({
+      status: 'final',
+      period: 5,
+      completedPeriods: 5,
+      homeScore: 28,
+      awayScore: 34,
+      awayLineScores: [0, 3, 6, 19, 6],
+    });
+
+    expect(periodScores(game, 'final_includes_ot').find((score) => score.quarter === 'final')).toEqual({
+      quarter: 'final',
+      homeScore: 28,
+      awayScore: 34,
+      wentToOvertime: true,
+    });
+    expect(periodScores(game, 'regulation_final').find((score) => score.quarter === 'final')).toMatchObject({
+      homeScore: 28,
+      awayScore: 28,
+    });
+    expect(periodScores(game, 'separate_ot').find((score) => score.quarter === 'ot')).toEqual({
+      quarter: 'ot',
+      homeScore: 28,
+      awayScore: 34,
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { LiveGame } from '../types';
+
+/**
+ * Fetches the games a contest is linked to for live score automation
+ */
+export async function getLiveGamesForContest(contestId: string): Promise<LiveGame[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase.from('live_games').select('*').eq('contest_id', contestId).order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch live games: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -0,0 +1,29 @@
+import { Database } from '@/libs/supabase/types';
+
+export type ScoreLeague = Database['public']['Enums']['score_league'];
+export type LiveGame = Database['public']['Tables']['live_games']['Row'];
+
+export type LiveGameStatus = 'scheduled' | 'in_progress' | 'final';
+
+/** A game as reported by a score provider */
+export interface ProviderGame {
+  eventId: string;
+  status: LiveGameStatus;
+  /** Current game period (1-based), 0 before the game starts */
+  period: number;
+  /** Periods that have finished, e.g. 2 at halftime */
+  completedPeriods: number;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  /** Points scored in each period, overtime periods included */
+  homeLineScores: number[];
+  awayLineScores: number[];
+}
+
+export interface ScoreProvider {
+  name: string;
+  /** Fetches the games for a league's event ids. Unknown event ids are left out. */
+  fetchGames(league: ScoreLeague, eventIds: string[]): Promise<ProviderGame[]>;
+}
@@ -0,0 +1,51 @@
+'use server';
+
+import { cookies } from 'next/headers';
+
+import { requireAuth } from '@/features/contests/middleware/auth-middleware';
+import { ActionResponse } from '@/types/action-response';
+import { logger } from '@/utils/logger';
+
+import { WORKSPACE_COOKIE } from '../constants';
+import { Organization } from '../types';
+import { OrganizationNameFormData, organizationNameSchema } from '../validation/organization-schema';
+
+/**
+ * Creates an organization owned by the current user and switches the dashboard to it.
+ */
+export async function createOrganization(input: OrganizationNameFormData): Promise<ActionResponse<Organization>> {
+  const { user, supabase } = await requireAuth();
+
+  const validationResult = organizationNameSchema.safeParse(input);
+
+  if (!validationResult.success) {
+    return {
+      data: null,
+      error: {
+        message: 'Invalid organization name',
+        details: validationResult.error.flatten().fieldErrors,
+      },
+    };
+  }
+
+  const { data: organization, error } = await supabase
+    .from('organizations')
+    .insert({ name: validationResult.data.name, owner_id: user.id })
+    .select('*')
+    .single();
+
+  if (error || !organization) {
+    logger.error('createOrganization', error, { userId: user.id });
+    return { data: null, error: { message: 'Failed to create organization' } };
+  }
+
+  const cookieStore = await cookies();
+  cookieStore.set(WORKSPACE_COOKIE, organization.id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+  });
+
+  return { data: organization, error: null };
+}
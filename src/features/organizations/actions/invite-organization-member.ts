@@ -0,0 +1,73 @@
+'use server';
+
+import { randomBytes } from 'crypto';
+
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { organizationInviteEmail } from '@/features/emails/templates/organization-invite-email';
+import { ActionResponse } from '@/types/action-response';
+import { sanitizeEmail } from '@/utils/email-validator';
+import { getURL } from '@/utils/get-url';
+
+import { ORGANIZATION_MEMBER_ROLES, ORGANIZATION_ROLES, OrganizationErrors } from '../constants';
+import { withOrganizationAdmin } from '../middleware/organization-middleware';
+import { OrganizationMember, OrganizationMemberRole } from '../types';
+
+interface InviteOrganizationMemberInput {
+  email: string;
+  role: OrganizationMemberRole;
+}
+
+/**
+ * Invites someone to an organization by email. They join when they sign in with that
+ * address and open the invite link.
+ */
+export async function inviteOrganizationMember(
+  organizationId: string,
+  input: InviteOrganizationMemberInput
+): Promise<ActionResponse<OrganizationMember>> {
+  return withOrganizationAdmin<OrganizationMember>(organizationId, async (user, supabase, { organization }) => {
+    const email = sanitizeEmail(input.email);
+    if (!email) {
+      throw new Error('Invalid email address format');
+    }
+
+    if (!(ORGANIZATION_MEMBER_ROLES as readonly string[]).includes(input.role)) {
+      throw new Error(OrganizationErrors.INVALID_MEMBER_ROLE);
+    }
+
+    if (email === user.email?.toLowerCase()) {
+      throw new Error(OrganizationErrors.MEMBER_IS_OWNER);
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .insert({
+        organization_id: organizationId,
+        email,
+        role: input.role,
+        invite_token: randomBytes(24).toString('hex'),
+        invited_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.code === '23505' ? OrganizationErrors.MEMBER_ALREADY_INVITED : 'Failed to invite member');
+    }
+
+    const role = ORGANIZATION_ROLES[data.role];
+    await sendEmailSafe({
+      to: email,
+      template: organizationInviteEmail({
+        inviterEmail: user.email ?? 'An organization admin',
+        organizationName: organization.name,
+        roleLabel: role.label,
+        roleDescription: role.description,
+        inviteUrl: getURL(`/dashboard/organization/invites/${data.invite_token}`),
+      }),
+      emailType: 'organization_invite',
+    });
+
+    return data;
+  })();
+}
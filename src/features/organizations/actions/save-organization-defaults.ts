@@ -0,0 +1,78 @@
+'use server';
+
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { ActionResponse } from '@/types/action-response';
+
+import { OrganizationErrors } from '../constants';
+import { withOrganizationAdmin } from '../middleware/organization-middleware';
+
+/**
+ * Saves a contest's branding and payment options as the organization's defaults, so every
+ * new contest created in the organization starts with them.
+ */
+export async function saveOrganizationDefaults(contestId: string): Promise<ActionResponse<null>> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data: contest } = await supabase
+    .from('contests')
+    .select('id, organization_id, primary_color, secondary_color, org_image_url, hero_image_url')
+    .eq('id', contestId)
+    .maybeSingle();
+
+  if (!contest) {
+    return { data: null, error: { message: 'Contest not found' } };
+  }
+
+  if (!contest.organization_id) {
+    return { data: null, error: { message: OrganizationErrors.CONTEST_NOT_IN_ORGANIZATION } };
+  }
+
+  const organizationId = contest.organization_id;
+
+  return withOrganizationAdmin<null>(organizationId, async (user, supabase) => {
+    const { error: brandingError } = await supabase
+      .from('organizations')
+      .update({
+        primary_color: contest.primary_color,
+        secondary_color: contest.secondary_color,
+        org_image_url: contest.org_image_url,
+        hero_image_url: contest.hero_image_url,
+      })
+      .eq('id', organizationId);
+
+    if (brandingError) {
+      throw new Error('Failed to save organization branding');
+    }
+
+    const { data: paymentOptions, error: fetchError } = await supabase
+      .from('payment_options')
+      .select('type, handle_or_link, display_name, instructions, account_last_4_digits, qr_code_url, sort_order')
+      .eq('contest_id', contestId);
+
+    if (fetchError || !paymentOptions) {
+      throw new Error('Failed to fetch payment options');
+    }
+
+    // Replace the organization's payment options with the contest's
+    const { error: deleteError } = await supabase
+      .from('organization_payment_options')
+      .delete()
+      .eq('organization_id', organizationId);
+
+    if (deleteError) {
+      throw new Error('Failed to save organization payment options');
+    }
+
+    if (paymentOptions.length > 0) {
+      const { error: insertError } = await supabase
+        .from('organization_payment_options')
+        .insert(paymentOptions.map((option) => ({ ...option, organization_id: organizationId })));
+
+      if (insertError) {
+        throw new Error('Failed to save organization payment options');
+      }
+    }
+
+    return null;
+  })();
+}
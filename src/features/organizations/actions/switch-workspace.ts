@@ -0,0 +1,36 @@
+'use server';
+
+import { cookies } from 'next/headers';
+
+import { requireAuth } from '@/features/contests/middleware/auth-middleware';
+import { ActionResponse } from '@/types/action-response';
+
+import { OrganizationErrors, WORKSPACE_COOKIE } from '../constants';
+import { getWorkspaces } from '../controllers/get-workspaces';
+
+/**
+ * Scopes the dashboard to an organization, or to the personal workspace when organizationId is null.
+ */
+export async function switchWorkspace(organizationId: string | null): Promise<ActionResponse<null>> {
+  const { user } = await requireAuth();
+  const cookieStore = await cookies();
+
+  if (!organizationId) {
+    cookieStore.delete(WORKSPACE_COOKIE);
+    return { data: null, error: null };
+  }
+
+  const workspaces = await getWorkspaces(user.id);
+  if (!workspaces.some((workspace) => workspace.organization.id === organizationId)) {
+    return { data: null, error: { message: OrganizationErrors.NOT_FOUND } };
+  }
+
+  cookieStore.set(WORKSPACE_COOKIE, organizationId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+  });
+
+  return { data: null, error: null };
+}
@@ -0,0 +1,66 @@
+'use server';
+
+import { ActionResponse } from '@/types/action-response';
+
+import { ORGANIZATION_MEMBER_ROLES, OrganizationErrors } from '../constants';
+import { withOrganizationAdmin } from '../middleware/organization-middleware';
+import { OrganizationMemberRole } from '../types';
+
+/**
+ * Changes a member's role. Takes effect on their next request.
+ */
+export async function updateOrganizationMemberRole(
+  organizationId: string,
+  memberId: string,
+  role: OrganizationMemberRole
+): Promise<ActionResponse<null>> {
+  return withOrganizationAdmin<null>(organizationId, async (user, supabase) => {
+    if (!(ORGANIZATION_MEMBER_ROLES as readonly string[]).includes(role)) {
+      throw new Error(OrganizationErrors.INVALID_MEMBER_ROLE);
+    }
+
+    const { data, error } = await supabase
+      .from('organization_members')
+      .update({ role })
+      .eq('id', memberId)
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      throw new Error('Failed to update member');
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(OrganizationErrors.MEMBER_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
+
+/**
+ * Removes a member or cancels a pending invite. Contests they created stay in the organization.
+ */
+export async function removeOrganizationMember(
+  organizationId: string,
+  memberId: string
+): Promise<ActionResponse<null>> {
+  return withOrganizationAdmin<null>(organizationId, async (user, supabase) => {
+    const { data, error } = await supabase
+      .from('organization_members')
+      .delete()
+      .eq('id', memberId)
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      throw new Error('Failed to remove member');
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error(OrganizationErrors.MEMBER_NOT_FOUND);
+    }
+
+    return null;
+  })();
+}
@@ -0,0 +1,36 @@
+'use server';
+
+import { ActionResponse } from '@/types/action-response';
+
+import { withOrganizationAdmin } from '../middleware/organization-middleware';
+import { OrganizationNameFormData, organizationNameSchema } from '../validation/organization-schema';
+
+export async function renameOrganization(
+  organizationId: string,
+  input: OrganizationNameFormData
+): Promise<ActionResponse<null>> {
+  const validationResult = organizationNameSchema.safeParse(input);
+
+  if (!validationResult.success) {
+    return {
+      data: null,
+      error: {
+        message: 'Invalid organization name',
+        details: validationResult.error.flatten().fieldErrors,
+      },
+    };
+  }
+
+  return withOrganizationAdmin<null>(organizationId, async (user, supabase) => {
+    const { error } = await supabase
+      .from('organizations')
+      .update({ name: validationResult.data.name })
+      .eq('id', organizationId);
+
+    if (error) {
+      throw new Error('Failed to update organization');
+    }
+
+    return null;
+  })();
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+
+import { inviteOrganizationMember } from '../actions/invite-organization-member';
+import { removeOrganizationMember, updateOrganizationMemberRole } from '../actions/update-organization-member';
+import { ORGANIZATION_MEMBER_ROLES, ORGANIZATION_ROLES } from '../constants';
+import { OrganizationMember, OrganizationMemberRole } from '../types';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-md border border-zinc-700 bg-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-zinc-900';
+
+interface OrganizationMembersProps {
+  organizationId: string;
+  members: OrganizationMember[];
+}
+
+export function OrganizationMembers({ organizationId, members }: OrganizationMembersProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationMemberRole>('member');
+
+  function handleInvite() {
+    startTransition(async () => {
+      const result = await inviteOrganizationMember(organizationId, { email, role });
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Invite sent', description: `${email} can accept it after signing in.` });
+      setEmail('');
+      router.refresh();
+    });
+  }
+
+  function handleRoleChange(memberId: string, newRole: OrganizationMemberRole) {
+    startTransition(async () => {
+      const result = await updateOrganizationMemberRole(organizationId, memberId, newRole);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Role updated' });
+      router.refresh();
+    });
+  }
+
+  function handleRemove(memberId: string) {
+    startTransition(async () => {
+      const result = await removeOrganizationMember(organizationId, memberId);
+
+      if (result?.error) {
+        toast({ variant: 'destructive', title: 'Error', description: result.error.message });
+        return;
+      }
+
+      toast({ title: 'Member removed' });
+      router.refresh();
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {members.length > 0 && (
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between gap-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4"
+            >
+              <div className="min-w-0 space-y-1">
+                <p className="truncate text-sm font-medium text-zinc-300">{member.email}</p>
+                {!member.accepted_at && (
+                  <Badge variant="outline" className="border-zinc-600 text-zinc-400">
+                    Invite pending
+                  </Badge>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <select
+                  aria-label={`Role for ${member.email}`}
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.id, e.target.value as OrganizationMemberRole)}
+                  disabled={isPending}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {ORGANIZATION_MEMBER_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {ORGANIZATION_ROLES[r].label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(member.id)}
+                  disabled={isPending}
+                  className="h-8 w-8 shrink-0 p-0 text-red-400 hover:bg-red-950 hover:text-red-300"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-4 rounded-lg border border-zinc-700 bg-zinc-800/50 p-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr,180px]">
+          <div className="space-y-2">
+            <Label htmlFor="organization_member_email">Email</Label>
+            <Input
+              id="organization_member_email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="coach@example.com"
+              className="border-zinc-700 bg-zinc-800"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="organization_member_role">Role</Label>
+            <select
+              id="organization_member_role"
+              value={role}
+              onChange={(e) => setRole(e.target.value as OrganizationMemberRole)}
+              className={SELECT_CLASS_NAME}
+            >
+              {ORGANIZATION_MEMBER_ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ORGANIZATION_ROLES[r].label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <p className="text-xs text-zinc-500">{ORGANIZATION_ROLES[role].description}</p>
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleInvite} disabled={isPending || !email.trim()}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send Invite
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { zodResolver } from '@hookform/resolvers/zod';
+
+import { createOrganization } from '../actions/create-organization';
+import { renameOrganization } from '../actions/update-organization';
+import { OrganizationNameFormData, organizationNameSchema } from '../validation/organization-schema';
+
+interface OrganizationNameFormProps {
+  /** Renames this organization; omit to create a new one */
+  organizationId?: string;
+  defaultName?: string;
+}
+
+export function OrganizationNameForm({ organizationId, defaultName }: OrganizationNameFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<OrganizationNameFormData>({
+    resolver: zodResolver(organizationNameSchema),
+    defaultValues: {
+      name: defaultName ?? '',
+    },
+  });
+
+  const onSubmit = (data: OrganizationNameFormData) => {
+    startTransition(async () => {
+      const result = organizationId ? await renameOrganization(organizationId, data) : await createOrganization(data);
+
+      if (result?.error) {
+        toast({
+          variant: 'destructive',
+          title: organizationId ? 'Error updating organization' : 'Error creating organization',
+          description: result.error.message || 'Something went wrong. Please try again.',
+        });
+        return;
+      }
+
+      if (organizationId) {
+        toast({ title: 'Organization updated' });
+        router.refresh();
+      } else {
+        toast({ title: 'Organization created', description: `You're now working in ${data.name}.` });
+        router.push('/dashboard');
+        router.refresh();
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="organizationName" className="text-zinc-200">
+          Organization Name <span className="text-orange-500">*</span>
+        </Label>
+        <Input
+          id="organizationName"
+          placeholder="Lincoln High Boosters"
+          {...register('name')}
+          className={errors.name ? 'border-red-500' : ''}
+          disabled={isPending}
+        />
+        {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+      </div>
+
+      <Button type="submit" disabled={isPending} variant="orange">
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : organizationId ? (
+          'Save Changes'
+        ) : (
+          'Create Organization'
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,62 @@
+import { ContestRole } from '@/features/contests/constants';
+
+import { OrganizationMemberRole, OrganizationRole } from './types';
+
+/** Cookie holding the id of the organization the dashboard is scoped to; absent for the personal workspace */
+export const WORKSPACE_COOKIE = 'fundwell_workspace';
+
+export interface OrganizationRoleDefinition {
+  type: OrganizationRole;
+  label: string;
+  description: string;
+  /** Billing, members and shared defaults */
+  canManage: boolean;
+  /** Role on every contest in the organization, unless the user is a direct contest member */
+  contestRole: ContestRole;
+}
+
+/**
+ * What each person in an organization can do. Mirrors the RLS policies in
+ * 20260222000000_add_organizations.sql.
+ */
+export const ORGANIZATION_ROLES: Record<OrganizationRole, OrganizationRoleDefinition> = {
+  owner: {
+    type: 'owner',
+    label: 'Owner',
+    description: 'Full control, including billing and members.',
+    canManage: true,
+    contestRole: 'manager',
+  },
+  admin: {
+    type: 'admin',
+    label: 'Admin',
+    description: 'Manages billing, members, shared branding and every contest in the organization.',
+    canManage: true,
+    contestRole: 'manager',
+  },
+  member: {
+    type: 'member',
+    label: 'Member',
+    description: 'Creates contests in the organization and can view the others.',
+    canManage: false,
+    contestRole: 'viewer',
+  },
+};
+
+export const ORGANIZATION_MEMBER_ROLES = ['admin', 'member'] as const satisfies readonly OrganizationMemberRole[];
+
+export function canManageOrganization(role: OrganizationRole | null | undefined): boolean {
+  return !!role && ORGANIZATION_ROLES[role].canManage;
+}
+
+export const OrganizationErrors = {
+  NOT_FOUND: 'Organization not found',
+  NOT_ALLOWED: 'Only organization owners and admins can do this',
+  INVALID_MEMBER_ROLE: 'Choose admin or member',
+  MEMBER_ALREADY_INVITED: 'That email has already been invited to this organization',
+  MEMBER_IS_OWNER: 'You already own this organization',
+  MEMBER_NOT_FOUND: 'Member not found',
+  INVITE_NOT_FOUND: 'This invite is no longer valid',
+  INVITE_EMAIL_MISMATCH: 'This invite was sent to a different email address',
+  CONTEST_NOT_IN_ORGANIZATION: 'This contest does not belong to an organization',
+} as const;
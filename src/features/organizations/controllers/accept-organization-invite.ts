@@ -0,0 +1,46 @@
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { User } from '@supabase/supabase-js';
+
+import { OrganizationErrors } from '../constants';
+
+export type AcceptOrganizationInviteResult =
+  | { organizationId: string; error: null }
+  | { organizationId: null; error: string };
+
+/**
+ * Accepts an organization invite for the signed-in user. Like contest invites, they're bound
+ * to the email they were sent to and accepted with the admin client.
+ */
+export async function acceptOrganizationInvite(token: string, user: User): Promise<AcceptOrganizationInviteResult> {
+  const { data: invite } = await supabaseAdminClient
+    .from('organization_members')
+    .select('id, organization_id, email, user_id, organizations(owner_id)')
+    .eq('invite_token', token)
+    .maybeSingle();
+
+  if (!invite || !invite.organizations) {
+    return { organizationId: null, error: OrganizationErrors.INVITE_NOT_FOUND };
+  }
+
+  // Already accepted by this user - just take them to the organization
+  if (invite.user_id === user.id || invite.organizations.owner_id === user.id) {
+    return { organizationId: invite.organization_id, error: null };
+  }
+
+  if (invite.user_id || invite.email !== user.email?.toLowerCase()) {
+    return { organizationId: null, error: OrganizationErrors.INVITE_EMAIL_MISMATCH };
+  }
+
+  const { error } = await supabaseAdminClient
+    .from('organization_members')
+    .update({ user_id: user.id, accepted_at: getCurrentISOString() })
+    .eq('id', invite.id)
+    .is('user_id', null);
+
+  if (error) {
+    return { organizationId: null, error: OrganizationErrors.INVITE_NOT_FOUND };
+  }
+
+  return { organizationId: invite.organization_id, error: null };
+}
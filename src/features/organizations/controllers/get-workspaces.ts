@@ -0,0 +1,52 @@
+import { cookies } from 'next/headers';
+
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { logger } from '@/utils/logger';
+
+import { WORKSPACE_COOKIE } from '../constants';
+import { Workspace } from '../types';
+
+/**
+ * Organizations the user owns or has accepted an invite to, oldest first.
+ */
+export async function getWorkspaces(userId: string): Promise<Workspace[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const [ownedResult, membershipsResult] = await Promise.all([
+    supabase.from('organizations').select('*').eq('owner_id', userId),
+    supabase
+      .from('organization_members')
+      .select('role, organizations(*)')
+      .eq('user_id', userId)
+      .not('accepted_at', 'is', null),
+  ]);
+
+  if (ownedResult.error || membershipsResult.error) {
+    logger.error('get-workspaces', ownedResult.error ?? membershipsResult.error, { userId });
+  }
+
+  const workspaces: Workspace[] = [
+    ...(ownedResult.data ?? []).map((organization) => ({ organization, role: 'owner' as const })),
+    ...(membershipsResult.data ?? []).flatMap(({ role, organizations }) =>
+      organizations ? [{ organization: organizations, role }] : []
+    ),
+  ];
+
+  return workspaces.sort((a, b) => a.organization.created_at.localeCompare(b.organization.created_at));
+}
+
+/**
+ * The organization the dashboard is currently scoped to, or null for the personal workspace.
+ * Falls back to personal if the cookie points at an organization the user no longer belongs to.
+ */
+export async function getActiveWorkspace(userId: string): Promise<Workspace | null> {
+  const cookieStore = await cookies();
+  const organizationId = cookieStore.get(WORKSPACE_COOKIE)?.value;
+
+  if (!organizationId) {
+    return null;
+  }
+
+  const workspaces = await getWorkspaces(userId);
+  return workspaces.find((workspace) => workspace.organization.id === organizationId) ?? null;
+}
@@ -0,0 +1,49 @@
+import { AuthError, ForbiddenError, NotFoundError, requireAuth } from '@/features/contests/middleware/auth-middleware';
+import { Database } from '@/libs/supabase/types';
+import { ActionResponse } from '@/types/action-response';
+import { logger } from '@/utils/logger';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { User } from '@supabase/supabase-js';
+
+import { canManageOrganization, OrganizationErrors } from '../constants';
+import { getWorkspaces } from '../controllers/get-workspaces';
+import { Workspace } from '../types';
+
+/**
+ * Loads the user's membership in an organization and checks they can manage it
+ * (owner or admin). Throws NotFoundError if they aren't a member at all.
+ */
+export async function requireOrganizationAdmin(userId: string, organizationId: string): Promise<Workspace> {
+  const workspaces = await getWorkspaces(userId);
+  const workspace = workspaces.find((w) => w.organization.id === organizationId);
+
+  if (!workspace) {
+    throw new NotFoundError(OrganizationErrors.NOT_FOUND);
+  }
+
+  if (!canManageOrganization(workspace.role)) {
+    throw new ForbiddenError(OrganizationErrors.NOT_ALLOWED);
+  }
+
+  return workspace;
+}
+
+export function withOrganizationAdmin<T>(
+  organizationId: string,
+  action: (user: User, supabase: SupabaseClient<Database>, workspace: Workspace) => Promise<T>
+): () => Promise<ActionResponse<T>> {
+  return async () => {
+    try {
+      const { user, supabase } = await requireAuth();
+      const workspace = await requireOrganizationAdmin(user.id, organizationId);
+      const result = await action(user, supabase, workspace);
+      return { data: result, error: null };
+    } catch (error) {
+      if (error instanceof AuthError || error instanceof NotFoundError || error instanceof ForbiddenError) {
+        return { data: null, error: { message: error.message } };
+      }
+      logger.error('organization-middleware', error);
+      return { data: null, error: { message: 'An unexpected error occurred' } };
+    }
+  };
+}
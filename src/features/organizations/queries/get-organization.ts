@@ -0,0 +1,41 @@
+import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+
+import { OrganizationMember, OrganizationPaymentOption } from '../types';
+
+/**
+ * Fetches an organization's members and pending invites
+ */
+export async function getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch organization members: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Fetches the payment options new contests in the organization start with
+ */
+export async function getOrganizationPaymentOptions(organizationId: string): Promise<OrganizationPaymentOption[]> {
+  const supabase = await createSupabaseServerClient();
+
+  const { data, error } = await supabase
+    .from('organization_payment_options')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch organization payment options: ${error.message}`);
+  }
+
+  return data ?? [];
+}
@@ -0,0 +1,18 @@
+import { Database } from '@/libs/supabase/types';
+
+export type Organization = Database['public']['Tables']['organizations']['Row'];
+export type OrganizationMember = Database['public']['Tables']['organization_members']['Row'];
+export type OrganizationPaymentOption = Database['public']['Tables']['organization_payment_options']['Row'];
+export type OrganizationRole = Database['public']['Enums']['organization_role'];
+
+/** Roles that can be given to an invited member (the owner is the organization's owner_id) */
+export type OrganizationMemberRole = Exclude<OrganizationRole, 'owner'>;
+
+/**
+ * An organization the user belongs to. The personal workspace (contests with no
+ * organization_id) is represented by `null` wherever a Workspace is expected.
+ */
+export interface Workspace {
+  organization: Organization;
+  role: OrganizationRole;
+}
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const organizationNameSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: 'Organization name is required' })
+    .max(100, { message: 'Organization name must be 100 characters or less' }),
+});
+
+export type OrganizationNameFormData = z.infer<typeof organizationNameSchema>;
@@ -4,6 +4,8 @@ import { redirect } from 'next/navigation';
 
 import { getOrCreateCustomer } from '@/features/account/controllers/get-or-create-customer';
 import { getUser } from '@/features/account/controllers/get-user';
+import { canManageOrganization, OrganizationErrors } from '@/features/organizations/constants';
+import { getActiveWorkspace } from '@/features/organizations/controllers/get-workspaces';
 import { Price } from '@/features/pricing/types';
 import { stripeAdmin } from '@/libs/stripe/stripe-admin';
 import { getURL } from '@/utils/get-url';
@@ -20,6 +22,13 @@ export async function createCheckoutAction({ price }: { price: Price }) {
     throw Error('Could not get email');
   }
 
+  // Subscriptions bought from an organization workspace belong to the organization
+  const workspace = await getActiveWorkspace(user.id);
+
+  if (workspace && !canManageOrganization(workspace.role)) {
+    throw Error(OrganizationErrors.NOT_ALLOWED);
+  }
+
   // 2. Retrieve or create the customer in Stripe
   const customer = await getOrCreateCustomer({
     userId: user.id,
@@ -41,6 +50,10 @@ export async function createCheckoutAction({ price }: { price: Price }) {
       },
     ],
     mode: price.type === 'recurring' ? 'subscription' : 'payment',
+    subscription_data:
+      workspace && price.type === 'recurring'
+        ? { metadata: { organization_id: workspace.organization.id } }
+        : undefined,
     allow_promotion_codes: true,
     success_url: `${getURL()}/account`,
     cancel_url: `${getURL()}/`,
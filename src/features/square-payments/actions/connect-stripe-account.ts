@@ -0,0 +1,70 @@
+'use server';
+
+import { NotFoundError, withContestOwnership } from '@/features/contests/middleware/auth-middleware';
+import { stripeAdmin } from '@/libs/stripe/stripe-admin';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { ActionResponse } from '@/types/action-response';
+import { getURL } from '@/utils/get-url';
+
+import { SquarePaymentErrors } from '../constants';
+import { getConnectedAccount } from '../controllers/get-connected-account';
+
+/**
+ * Starts (or resumes) Stripe Express onboarding for the contest owner and returns the
+ * onboarding link. Stripe sends them back to the contest's settings page when they're done.
+ */
+export async function createStripeOnboardingLink(contestId: string): Promise<ActionResponse<{ url: string }>> {
+  return withContestOwnership<{ url: string }>(contestId, async (user) => {
+    let connectedAccount = await getConnectedAccount(user.id);
+
+    if (!connectedAccount) {
+      const account = await stripeAdmin.accounts.create({
+        type: 'express',
+        email: user.email,
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+        },
+        metadata: { userId: user.id },
+      });
+
+      const { data, error } = await supabaseAdminClient
+        .from('stripe_connected_accounts')
+        .insert({ user_id: user.id, stripe_account_id: account.id })
+        .select('*')
+        .single();
+
+      if (error || !data) {
+        throw new Error('Failed to save connected account');
+      }
+
+      connectedAccount = data;
+    }
+
+    const settingsUrl = `${getURL()}/dashboard/${contestId}/settings`;
+    const accountLink = await stripeAdmin.accountLinks.create({
+      account: connectedAccount.stripe_account_id,
+      refresh_url: settingsUrl,
+      return_url: `${settingsUrl}?stripe=connected`,
+      type: 'account_onboarding',
+    });
+
+    return { url: accountLink.url };
+  })();
+}
+
+/**
+ * Returns a login link to the owner's Stripe Express dashboard (payouts, refunds, bank details)
+ */
+export async function createStripeDashboardLink(contestId: string): Promise<ActionResponse<{ url: string }>> {
+  return withContestOwnership<{ url: string }>(contestId, async (user) => {
+    const connectedAccount = await getConnectedAccount(user.id);
+
+    if (!connectedAccount) {
+      throw new NotFoundError(SquarePaymentErrors.NOT_CONNECTED);
+    }
+
+    const loginLink = await stripeAdmin.accounts.createLoginLink(connectedAccount.stripe_account_id);
+    return { url: loginLink.url };
+  })();
+}
@@ -0,0 +1,162 @@
+'use server';
+
+import { PaymentStatus } from '@/features/contests/constants';
+import { ContestErrors } from '@/features/contests/constants/error-messages';
+import { isSquareLocationHidden } from '@/features/contests/utils/quick-pick';
+import { stripeAdmin } from '@/libs/stripe/stripe-admin';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { ActionResponse } from '@/types/action-response';
+import { sanitizeEmail } from '@/utils/email-validator';
+import { getURL } from '@/utils/get-url';
+import { logger } from '@/utils/logger';
+import { checkRateLimit } from '@/utils/rate-limit';
+
+import { SQUARE_PAYMENT_CURRENCY, SquarePaymentErrors } from '../constants';
+import { getConnectedAccount } from '../controllers/get-connected-account';
+
+interface CreateSquareCheckoutInput {
+  contestId: string;
+  squareIds: string[];
+  email: string;
+}
+
+/**
+ * Expires earlier checkouts for the same squares, so only the newest one can be paid. Returns
+ * false if one was already paid and the webhook hasn't marked its squares yet.
+ */
+async function expirePreviousCheckouts(sessionIds: string[]): Promise<boolean> {
+  for (const sessionId of sessionIds) {
+    const session = await stripeAdmin.checkout.sessions.retrieve(sessionId);
+
+    if (session.status === 'complete') {
+      return false;
+    }
+
+    if (session.status === 'open') {
+      await stripeAdmin.checkout.sessions.expire(sessionId);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Creates a Stripe Checkout Session for a participant's pending squares. The payment is
+ * transferred to the contest owner's connected account, and the webhook marks the squares paid.
+ */
+export async function createSquareCheckout(
+  input: CreateSquareCheckoutInput
+): Promise<ActionResponse<{ url: string }>> {
+  const { contestId, email } = input;
+  const squareIds = Array.from(new Set(input.squareIds));
+
+  const sanitizedEmail = sanitizeEmail(email);
+  if (!sanitizedEmail) {
+    return { data: null, error: { message: 'Invalid email address format' } };
+  }
+
+  const rateLimit = await checkRateLimit(`checkout:${sanitizedEmail}`, { maxRequests: 10, windowMs: 60000 });
+  if (!rateLimit.success) {
+    return { data: null, error: { message: 'Too many requests. Please wait a moment and try again.' } };
+  }
+
+  if (squareIds.length === 0) {
+    return { data: null, error: { message: ContestErrors.NO_SQUARES_SELECTED } };
+  }
+
+  const { data: contest } = await supabaseAdminClient
+    .from('contests')
+    .select(
+      'id, name, slug, owner_id, square_price, accept_card_payments, deleted_at, hide_quick_pick_locations, row_numbers'
+    )
+    .eq('id', contestId)
+    .maybeSingle();
+
+  // Admin client: claimant details aren't readable by anonymous visitors
+  const { data: squares } = await supabaseAdminClient
+    .from('squares')
+    .select('id, row_index, col_index, payment_status, claimant_email, quick_picked, stripe_checkout_session_id')
+    .in('id', squareIds)
+    .eq('contest_id', contestId)
+    .order('row_index')
+    .order('col_index');
+
+  if (!contest || contest.deleted_at || !squares || squares.length !== squareIds.length) {
+    return { data: null, error: { message: ContestErrors.SQUARE_NOT_FOUND } };
+  }
+
+  if (squares.some((square) => square.payment_status !== PaymentStatus.PENDING)) {
+    return { data: null, error: { message: SquarePaymentErrors.SQUARE_NOT_PENDING } };
+  }
+
+  if (squares.some((square) => square.claimant_email?.toLowerCase() !== sanitizedEmail)) {
+    return { data: null, error: { message: SquarePaymentErrors.EMAIL_MISMATCH } };
+  }
+
+  const connectedAccount = contest.accept_card_payments ? await getConnectedAccount(contest.owner_id) : null;
+
+  if (!connectedAccount?.charges_enabled) {
+    return { data: null, error: { message: SquarePaymentErrors.CARD_PAYMENTS_DISABLED } };
+  }
+
+  const contestUrl = `${getURL()}/contest/${contest.slug}`;
+  const description = squares.some((square) => isSquareLocationHidden(contest, square))
+    ? 'Quick pick, revealed when the numbers are drawn'
+    : squares.map((square) => `Row ${square.row_index}, Column ${square.col_index}`).join('; ');
+  const metadata = { contest_id: contest.id };
+  const previousSessionIds = Array.from(
+    new Set(squares.flatMap((square) => (square.stripe_checkout_session_id ? [square.stripe_checkout_session_id] : [])))
+  );
+
+  try {
+    if (!(await expirePreviousCheckouts(previousSessionIds))) {
+      return { data: null, error: { message: SquarePaymentErrors.PAYMENT_IN_PROGRESS } };
+    }
+
+    const checkoutSession = await stripeAdmin.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      customer_email: sanitizedEmail,
+      line_items: [
+        {
+          price_data: {
+            currency: SQUARE_PAYMENT_CURRENCY,
+            unit_amount: Math.round(Number(contest.square_price) * 100),
+            product_data: {
+              name: `${contest.name} square`,
+              description,
+            },
+          },
+          quantity: squares.length,
+        },
+      ],
+      payment_intent_data: {
+        transfer_data: { destination: connectedAccount.stripe_account_id },
+        metadata,
+      },
+      metadata,
+      success_url: `${contestUrl}?payment=success`,
+      cancel_url: contestUrl,
+    });
+
+    if (!checkoutSession.url) {
+      throw new Error('checkoutSession.url is not defined');
+    }
+
+    // The webhook finds the squares by session; the earlier checkouts for them can no longer be paid
+    const { error: updateError } = await supabaseAdminClient
+      .from('squares')
+      .update({ stripe_checkout_session_id: checkoutSession.id })
+      .in('id', squareIds)
+      .eq('payment_status', PaymentStatus.PENDING);
+
+    if (updateError) {
+      throw new Error(`Failed to link squares to checkout session: ${updateError.message}`);
+    }
+
+    return { data: { url: checkoutSession.url }, error: null };
+  } catch (error) {
+    logger.error('createSquareCheckout', error, { contestId, squareIds });
+    return { data: null, error: { message: SquarePaymentErrors.FAILED_TO_START_CHECKOUT } };
+  }
+}
@@ -0,0 +1,34 @@
+'use server';
+
+import { ForbiddenError, withContestPermission } from '@/features/contests/middleware/auth-middleware';
+import { ActionResponse } from '@/types/action-response';
+
+import { SquarePaymentErrors } from '../constants';
+import { getConnectedAccount } from '../controllers/get-connected-account';
+
+/**
+ * Turns card payments on or off for a contest. Payments go to the owner's Stripe account,
+ * so it has to be able to accept charges before they can be turned on.
+ */
+export async function updateCardPayments(contestId: string, enabled: boolean): Promise<ActionResponse<null>> {
+  return withContestPermission<null>(contestId, 'manage_settings', async (user, supabase, contest) => {
+    if (enabled) {
+      const connectedAccount = await getConnectedAccount(contest.owner_id);
+
+      if (!connectedAccount?.charges_enabled) {
+        throw new ForbiddenError(SquarePaymentErrors.NOT_CONNECTED);
+      }
+    }
+
+    const { error } = await supabase
+      .from('contests')
+      .update({ accept_card_payments: enabled })
+      .eq('id', contestId);
+
+    if (error) {
+      throw new Error('Failed to update card payments');
+    }
+
+    return null;
+  })();
+}
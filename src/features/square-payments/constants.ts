@@ -0,0 +1,12 @@
+// Square prices are stored in dollars; Stripe amounts are in cents
+export const SQUARE_PAYMENT_CURRENCY = 'usd';
+
+export const SquarePaymentErrors = {
+  NOT_CONNECTED: 'Connect a Stripe account before accepting card payments',
+  OWNER_ONLY: 'Only the contest owner can connect a Stripe account',
+  CARD_PAYMENTS_DISABLED: 'This contest does not accept card payments',
+  SQUARE_NOT_PENDING: 'This square is not awaiting payment',
+  EMAIL_MISMATCH: 'Use the email address you claimed the square with',
+  PAYMENT_IN_PROGRESS: 'A card payment for these squares is already being processed. Check back in a moment.',
+  FAILED_TO_START_CHECKOUT: 'Could not start checkout. Please try again or use another payment option.',
+} as const;
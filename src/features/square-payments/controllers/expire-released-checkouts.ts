@@ -0,0 +1,23 @@
+import { stripeAdmin } from '@/libs/stripe/stripe-admin';
+import { logger } from '@/utils/logger';
+
+/**
+ * Expires the still-open Checkout Sessions of squares that were just released, so the old
+ * claimant can't pay for a square they no longer hold. Call it after the squares' session ids
+ * are cleared. Failures are logged rather than thrown: the release has already happened, and
+ * a payment that slips through is refunded by markSquaresPaidFromCheckout.
+ */
+export async function expireReleasedCheckouts(sessionIds: Array<string | null>): Promise<void> {
+  for (const sessionId of Array.from(new Set(sessionIds))) {
+    if (!sessionId) continue;
+
+    try {
+      const session = await stripeAdmin.checkout.sessions.retrieve(sessionId);
+      if (session.status === 'open') {
+        await stripeAdmin.checkout.sessions.expire(sessionId);
+      }
+    } catch (error) {
+      logger.error('expireReleasedCheckouts', error, { sessionId });
+    }
+  }
+}
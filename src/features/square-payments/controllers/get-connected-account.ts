@@ -0,0 +1,76 @@
+import Stripe from 'stripe';
+
+import { stripeAdmin } from '@/libs/stripe/stripe-admin';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { logger } from '@/utils/logger';
+
+import { ConnectedAccount } from '../types';
+
+/**
+ * Fetches a user's Stripe connected account. Uses the admin client so the public contest
+ * page can check whether the owner accepts card payments.
+ */
+export async function getConnectedAccount(userId: string): Promise<ConnectedAccount | null> {
+  const { data } = await supabaseAdminClient
+    .from('stripe_connected_accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Whether participants can pay for a contest's squares by card: the contest has card payments
+ * turned on and its owner's Stripe account can accept charges.
+ */
+export async function canAcceptCardPayments(contest: { owner_id: string; accept_card_payments: boolean }) {
+  if (!contest.accept_card_payments) return false;
+
+  const account = await getConnectedAccount(contest.owner_id);
+  return Boolean(account?.charges_enabled);
+}
+
+/**
+ * Copies an account's onboarding status from Stripe (account.updated webhook, or when the
+ * owner returns from onboarding).
+ */
+export async function syncConnectedAccount(account: Stripe.Account): Promise<void> {
+  const { error } = await supabaseAdminClient
+    .from('stripe_connected_accounts')
+    .update({
+      charges_enabled: account.charges_enabled,
+      details_submitted: account.details_submitted,
+    })
+    .eq('stripe_account_id', account.id);
+
+  if (error) {
+    throw new Error(`Failed to sync connected account: ${error.message}`);
+  }
+}
+
+/**
+ * Refreshes a user's account from Stripe while onboarding is incomplete
+ */
+export async function refreshConnectedAccount(userId: string): Promise<ConnectedAccount | null> {
+  const connectedAccount = await getConnectedAccount(userId);
+
+  if (!connectedAccount || connectedAccount.charges_enabled) {
+    return connectedAccount;
+  }
+
+  try {
+    const account = await stripeAdmin.accounts.retrieve(connectedAccount.stripe_account_id);
+    await syncConnectedAccount(account);
+
+    return {
+      ...connectedAccount,
+      charges_enabled: account.charges_enabled,
+      details_submitted: account.details_submitted,
+    };
+  } catch (error) {
+    // Show the last known status rather than failing the page
+    logger.error('refreshConnectedAccount', error, { userId });
+    return connectedAccount;
+  }
+}
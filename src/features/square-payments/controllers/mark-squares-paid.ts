@@ -0,0 +1,117 @@
+import Stripe from 'stripe';
+
+import { PaymentStatus } from '@/features/contests/constants';
+import { isSquareLocationHidden } from '@/features/contests/utils/quick-pick';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { paymentConfirmedEmail } from '@/features/emails/templates/payment-confirmed-email';
+import { stripeAdmin } from '@/libs/stripe/stripe-admin';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { getURL } from '@/utils/get-url';
+import { logger } from '@/utils/logger';
+
+/**
+ * Refunds a checkout whose squares were released before the payment landed, taking the
+ * transfer back from the owner's account. Keyed on the session so webhook retries refund once.
+ */
+async function refundReleasedCheckout(session: Stripe.Checkout.Session, contestId: string): Promise<void> {
+  const paymentIntentId =
+    typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    throw new Error(`Checkout ${session.id} for released squares has no payment to refund`);
+  }
+
+  await stripeAdmin.refunds.create(
+    { payment_intent: paymentIntentId, reverse_transfer: true, metadata: { contest_id: contestId } },
+    { idempotencyKey: `released-squares-refund-${session.id}` }
+  );
+
+  logger.warn('markSquaresPaidFromCheckout', 'Refunded a payment for released squares', {
+    sessionId: session.id,
+    contestId,
+  });
+}
+
+/**
+ * Marks the squares bought in a completed Checkout Session as paid and sends one
+ * payment-confirmed email for them. Safe to call more than once for the same session. If the
+ * squares were released before the payment landed, the payment is refunded.
+ */
+export async function markSquaresPaidFromCheckout(session: Stripe.Checkout.Session): Promise<void> {
+  const contestId = session.metadata?.contest_id;
+
+  // Not a square payment (e.g. a one-off product purchase)
+  if (!contestId) return;
+
+  if (session.payment_status !== 'paid') {
+    logger.warn('markSquaresPaidFromCheckout', 'Checkout completed without payment', {
+      sessionId: session.id,
+      contestId,
+    });
+    return;
+  }
+
+  const { data: squares, error } = await supabaseAdminClient
+    .from('squares')
+    .update({
+      payment_status: PaymentStatus.PAID,
+      paid_at: getCurrentISOString(),
+      stripe_payment_intent_id: typeof session.payment_intent === 'string' ? session.payment_intent : null,
+    })
+    .eq('contest_id', contestId)
+    .eq('stripe_checkout_session_id', session.id)
+    .eq('payment_status', PaymentStatus.PENDING)
+    .select('id, row_index, col_index, claimant_email, claimant_first_name, quick_picked')
+    .order('row_index')
+    .order('col_index');
+
+  if (error) {
+    throw new Error(`Failed to mark squares paid: ${error.message}`);
+  }
+
+  if (!squares?.length) {
+    const { count, error: paidError } = await supabaseAdminClient
+      .from('squares')
+      .select('id', { count: 'exact', head: true })
+      .eq('contest_id', contestId)
+      .eq('stripe_checkout_session_id', session.id);
+
+    if (paidError) {
+      throw new Error(`Failed to look up squares for checkout: ${paidError.message}`);
+    }
+
+    // Already paid (webhook retry); releasing a square unlinks it from its checkout
+    if (count) return;
+
+    await refundReleasedCheckout(session, contestId);
+    return;
+  }
+
+  const [firstSquare] = squares;
+  if (!firstSquare.claimant_email) return;
+
+  const { data: contest } = await supabaseAdminClient
+    .from('contests')
+    .select('name, slug, row_team_name, col_team_name, hide_quick_pick_locations, row_numbers')
+    .eq('id', contestId)
+    .single();
+
+  if (!contest) return;
+
+  await sendEmailSafe({
+    to: firstSquare.claimant_email,
+    template: paymentConfirmedEmail({
+      participantName: firstSquare.claimant_first_name || 'there',
+      contestName: contest.name,
+      rowTeamName: contest.row_team_name,
+      colTeamName: contest.col_team_name,
+      squares: squares.map((square) => ({ rowIndex: square.row_index, colIndex: square.col_index })),
+      hideLocations: squares.some((square) => isSquareLocationHidden(contest, square)),
+      contestUrl: `${getURL()}/contest/${contest.slug}`,
+    }),
+    contestId,
+    squareIds: squares.map((square) => square.id),
+    emailType: 'payment_confirmed',
+  });
+}
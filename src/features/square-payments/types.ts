@@ -0,0 +1,3 @@
+import { Database } from '@/libs/supabase/types';
+
+export type ConnectedAccount = Database['public']['Tables']['stripe_connected_accounts']['Row'];
@@ -12,21 +12,31 @@ type ContestLimitResult = {
 
 // Free tier: 1 active contest at a time (completed contests don't count)
 // Pro tier: Unlimited active contests
+// Limits apply per workspace: an organization's contests count against the organization's
+// subscription, personal contests against the user's.
 
-export async function getContestLimit(userId: string): Promise<ContestLimitResult> {
+export async function getContestLimit(
+  userId: string,
+  organizationId: string | null = null
+): Promise<ContestLimitResult> {
   try {
     const [isSubscribed, supabase] = await Promise.all([
-      hasActiveSubscription(userId),
+      hasActiveSubscription(userId, organizationId),
       createSupabaseServerClient(),
     ]);
 
-    const { count, error } = await supabase
+    let query = supabase
       .from('contests')
       .select('id', { count: 'exact', head: true })
-      .eq('owner_id', userId)
       .is('deleted_at', null)
       .in('status', ['draft', 'open', 'locked', 'in_progress']);
 
+    query = organizationId
+      ? query.eq('organization_id', organizationId)
+      : query.eq('owner_id', userId).is('organization_id', null);
+
+    const { count, error } = await query;
+
     if (error) {
       return { canCreate: false, limit: 1, currentCount: 0 };
     }
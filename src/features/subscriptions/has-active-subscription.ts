@@ -3,18 +3,27 @@
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 
 /**
- * Returns true if the given owner has an active or trialing subscription.
+ * Returns true if the workspace has an active or trialing subscription: the organization's
+ * when an organizationId is given, otherwise the owner's personal subscription.
  */
-export async function hasActiveSubscription(userId: string | null): Promise<boolean> {
-  if (!userId) return false;
+export async function hasActiveSubscription(
+  userId: string | null,
+  organizationId: string | null = null
+): Promise<boolean> {
+  if (!userId && !organizationId) return false;
 
   const supabase = await createSupabaseServerClient();
 
-  const { count } = await supabase
+  let query = supabase
     .from('subscriptions')
     .select('id', { count: 'exact', head: true })
-    .eq('user_id', userId)
     .in('status', ['active', 'trialing']);
 
+  query = organizationId
+    ? query.eq('organization_id', organizationId)
+    : query.eq('user_id', userId!).is('organization_id', null);
+
+  const { count } = await query;
+
   return Boolean(count && count > 0);
 }
@@ -2,25 +2,30 @@
 
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
 
-export async function getUsageStats(userId: string): Promise<{
+/**
+ * Contest counts for a workspace: the organization's contests when an organizationId is
+ * given, otherwise the user's personal contests.
+ */
+export async function getUsageStats(
+  userId: string,
+  organizationId: string | null = null
+): Promise<{
   activeContests: number;
   totalContests: number;
 }> {
   try {
     const supabase = await createSupabaseServerClient();
 
+    const workspaceContests = () => {
+      const query = supabase.from('contests').select('id', { count: 'exact', head: true }).is('deleted_at', null);
+      return organizationId
+        ? query.eq('organization_id', organizationId)
+        : query.eq('owner_id', userId).is('organization_id', null);
+    };
+
     const [activeResult, totalResult] = await Promise.all([
-      supabase
-        .from('contests')
-        .select('id', { count: 'exact', head: true })
-        .eq('owner_id', userId)
-        .is('deleted_at', null)
-        .in('status', ['draft', 'open', 'locked', 'in_progress']),
-      supabase
-        .from('contests')
-        .select('id', { count: 'exact', head: true })
-        .eq('owner_id', userId)
-        .is('deleted_at', null),
+      workspaceContests().in('status', ['draft', 'open', 'locked', 'in_progress']),
+      workspaceContests(),
     ]);
 
     return {
@@ -1,28 +1,55 @@
 'use server';
 
+import { GameQuarter } from '@/features/contests/types';
 import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
 import { createSupabaseServerClient } from '@/libs/supabase/supabase-server-client';
+import { Json } from '@/libs/supabase/types';
 import { ActionResponse } from '@/types/action-response';
 import { logger } from '@/utils/logger';
+import { User } from '@supabase/supabase-js';
+
+import { checkSuperBowlScores } from './controllers/check-super-bowl-scores';
 
 // =============================================================================
-// Auth helper - ensure user is authenticated
+// Auth helper - ensure user is a platform admin
 // =============================================================================
 
-async function requireAuth() {
+async function requirePlatformAdmin() {
   const supabase = await createSupabaseServerClient();
   const { data, error } = await supabase.auth.getUser();
   if (error || !data.user) throw new Error('Authentication required');
+
+  // These actions use the admin client across every contest, so only staff may run them
+  const { data: isAdmin, error: adminError } = await supabase.rpc('is_platform_admin');
+  if (adminError || !isAdmin) throw new Error('Platform admin access required');
+
   return data.user;
 }
 
+// =============================================================================
+// Audit trail - who toggled, forced or resent what
+// =============================================================================
+
+async function recordAdminAction(admin: User, action: string, details: Record<string, Json | undefined>) {
+  const { error } = await supabaseAdminClient.from('platform_admin_audit_log').insert({
+    admin_id: admin.id,
+    admin_email: admin.email ?? admin.id,
+    action,
+    details,
+  });
+
+  if (error) {
+    logger.error('recordAdminAction', error, { action });
+  }
+}
+
 // =============================================================================
 // Toggle score checking on/off
 // =============================================================================
 
 export async function toggleScoreChecking(enabled: boolean): Promise<ActionResponse<{ enabled: boolean }>> {
   try {
-    await requireAuth();
+    const admin = await requirePlatformAdmin();
 
     const { error } = await supabaseAdminClient
       .from('super_bowl_config')
@@ -31,6 +58,8 @@ export async function toggleScoreChecking(enabled: boolean): Promise<ActionRespo
 
     if (error) throw error;
 
+    await recordAdminAction(admin, 'toggle_score_checking', { enabled });
+
     return { data: { enabled }, error: null };
   } catch (error) {
     logger.error('toggleScoreChecking', error);
@@ -44,7 +73,7 @@ export async function toggleScoreChecking(enabled: boolean): Promise<ActionRespo
 
 export async function getSuperBowlConfig() {
   try {
-    await requireAuth();
+    await requirePlatformAdmin();
 
     const { data, error } = await supabaseAdminClient
       .from('super_bowl_config')
@@ -66,7 +95,7 @@ export async function getSuperBowlConfig() {
 
 export async function getProcessingLogs(limit = 50) {
   try {
-    await requireAuth();
+    await requirePlatformAdmin();
 
     const { data, error } = await supabaseAdminClient
       .from('super_bowl_processing_log')
@@ -88,7 +117,7 @@ export async function getProcessingLogs(limit = 50) {
 
 export async function getQuarterResults() {
   try {
-    await requireAuth();
+    await requirePlatformAdmin();
 
     const { data, error } = await supabaseAdminClient
       .from('super_bowl_quarter_results')
@@ -104,46 +133,60 @@ export async function getQuarterResults() {
 }
 
 // =============================================================================
-// Manually trigger score check
+// Get admin audit trail
 // =============================================================================
 
-export async function triggerScoreCheck(
-  quarter?: string,
-  force = false
-): Promise<ActionResponse<{ status: string }>> {
+export async function getAdminAuditLog(limit = 50) {
   try {
-    await requireAuth();
+    await requirePlatformAdmin();
 
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-    if (!supabaseUrl || !serviceRoleKey) {
-      return { data: null, error: { message: 'Missing Supabase configuration' } };
-    }
+    const { data, error } = await supabaseAdminClient
+      .from('platform_admin_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
 
-    // Invoke the edge function
-    const response = await fetch(`${supabaseUrl}/functions/v1/check-super-bowl-scores`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${serviceRoleKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ quarter, force }),
-    });
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    logger.error('getAdminAuditLog', error);
+    return [];
+  }
+}
 
-    const result = await response.json();
+// =============================================================================
+// Manually trigger score check
+// =============================================================================
 
-    if (!response.ok) {
-      return { data: null, error: { message: result.error || 'Edge function failed' } };
-    }
+export async function triggerScoreCheck(
+  quarter?: GameQuarter,
+  force = false
+): Promise<ActionResponse<{ status: string }>> {
+  try {
+    const admin = await requirePlatformAdmin();
+    await recordAdminAction(admin, 'trigger_score_check', { quarter, force });
 
-    return { data: { status: result.status || 'triggered' }, error: null };
+    return await invokeScoreCheck(quarter, force);
   } catch (error) {
     logger.error('triggerScoreCheck', error);
     return { data: null, error: { message: 'Failed to trigger score check' } };
   }
 }
 
+async function invokeScoreCheck(
+  quarter: GameQuarter | undefined,
+  force: boolean
+): Promise<ActionResponse<{ status: string }>> {
+  const result = await checkSuperBowlScores({ quarter, force });
+  const failed = result.results.find((check) => check.error);
+
+  if (failed) {
+    return { data: null, error: { message: failed.error ?? 'Score check failed' } };
+  }
+
+  return { data: { status: result.status }, error: null };
+}
+
 // =============================================================================
 // Resend emails for a quarter result
 // =============================================================================
@@ -152,10 +195,10 @@ export async function resendQuarterEmails(
   resultId: string
 ): Promise<ActionResponse<{ status: string }>> {
   try {
-    await requireAuth();
+    const admin = await requirePlatformAdmin();
 
     // Reset email flags so next processing attempt resends
-    const { error } = await supabaseAdminClient
+    const { data: quarterResult, error } = await supabaseAdminClient
       .from('super_bowl_quarter_results')
       .update({
         winner_email_sent: false,
@@ -163,12 +206,20 @@ export async function resendQuarterEmails(
         winner_email_sent_at: null,
         owner_email_sent_at: null,
       })
-      .eq('id', resultId);
+      .eq('id', resultId)
+      .select('contest_id, quarter')
+      .single();
 
     if (error) throw error;
 
+    await recordAdminAction(admin, 'resend_quarter_emails', {
+      resultId,
+      contestId: quarterResult.contest_id,
+      quarter: quarterResult.quarter,
+    });
+
     // Trigger a force re-process
-    const triggerResult = await triggerScoreCheck(undefined, true);
+    const triggerResult = await invokeScoreCheck(undefined, true);
     if (!triggerResult || triggerResult.error) {
       return { data: null, error: triggerResult?.error ?? { message: 'Trigger failed' } };
     }
@@ -186,7 +237,7 @@ export async function resendQuarterEmails(
 
 export async function getSuperBowlContests() {
   try {
-    await requireAuth();
+    await requirePlatformAdmin();
 
     const { data, error } = await supabaseAdminClient
       .from('contests')
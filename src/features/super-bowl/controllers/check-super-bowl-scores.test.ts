@@ -0,0 +1,285 @@
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { FakeSupabase } from '@/test/fake-supabase';
+
+import { FAKE_SUPER_BOWL_EVENT_ID } from '../super-bowl-event';
+
+import { checkSuperBowlScores } from './check-super-bowl-scores';
+
+vi.mock('@/libs/supabase/supabase-admin', async () => {
+  const { FakeSupabase } = await import('@/test/fake-supabase');
+  return { supabaseAdminClient: new FakeSupabase() };
+});
+
+vi.mock('@/features/emails/send-email-safe', () => ({
+  sendEmailSafe: vi.fn(async () => true),
+}));
+
+const db = supabaseAdminClient as unknown as FakeSupabase;
+const sentEmails = vi.mocked(sendEmailSafe);
+
+const CONTEST_ID = 'contest-1';
+const OWNER_ID = 'owner-1';
+const DIGITS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+interface FakeGame {
+  status: 'scheduled' | 'in_progress' | 'final';
+  completedPeriods?: number;
+  home: number[];
+  away: number[];
+}
+
+let scoresPath: string;
+
+async function playGame(game: FakeGame) {
+  await writeFile(scoresPath, JSON.stringify({ [FAKE_SUPER_BOWL_EVENT_ID]: game }));
+}
+
+function seedContest(overrides: Record<string, unknown> = {}) {
+  db.table('super_bowl_config').push({ id: 'config-1', enabled: true, game_finished: false });
+  db.users[OWNER_ID] = { id: OWNER_ID, email: 'owner@example.com', user_metadata: { full_name: 'Olive Owner' } };
+
+  db.table('contests').push({
+    id: CONTEST_ID,
+    name: 'Big Game Squares',
+    slug: 'big-game',
+    owner_id: OWNER_ID,
+    row_team_name: 'Chiefs',
+    col_team_name: 'Eagles',
+    row_numbers: DIGITS,
+    col_numbers: DIGITS,
+    square_price: 10,
+    grid_layout: 'standard',
+    pot_basis: 'all',
+    organization_cut_percent: 0,
+    redraw_numbers_each_period: false,
+    payout_q1_percent: 20,
+    payout_q2_percent: 20,
+    payout_q3_percent: 20,
+    payout_final_percent: 40,
+    payout_ot_percent: null,
+    prize_type: 'percentage',
+    secondary_reverse_percent: 0,
+    secondary_touching_percent: 0,
+    secondary_minus_one_percent: 0,
+    rollover_policy: 'house',
+    overtime_rule: 'final_includes_ot',
+    sport_type: 'football',
+    status: 'in_progress',
+    is_super_bowl: true,
+    deleted_at: null,
+    ...overrides,
+  });
+
+  for (const row of DIGITS) {
+    for (const col of DIGITS) {
+      db.table('squares').push({
+        id: `square-${row}-${col}`,
+        contest_id: CONTEST_ID,
+        row_index: row,
+        col_index: col,
+        share_index: 0,
+        payment_status: 'available',
+        claimant_first_name: null,
+        claimant_last_name: null,
+        claimant_email: null,
+        claimant_venmo: null,
+      });
+    }
+  }
+}
+
+function claimSquare(row: number, col: number, firstName: string) {
+  const square = db.table('squares').find((sq) => sq.id === `square-${row}-${col}`)!;
+  Object.assign(square, {
+    payment_status: 'paid',
+    claimant_first_name: firstName,
+    claimant_last_name: 'Player',
+    claimant_email: `${firstName.toLowerCase()}@example.com`,
+    claimant_venmo: `@${firstName.toLowerCase()}`,
+  });
+}
+
+function quarterResult(quarter: string) {
+  return db.table('super_bowl_quarter_results').find((r) => r.contest_id === CONTEST_ID && r.quarter === quarter);
+}
+
+function emailsOfType(emailType: string) {
+  return sentEmails.mock.calls.map(([params]) => params).filter((params) => params.emailType === emailType);
+}
+
+describe('checkSuperBowlScores', () => {
+  beforeEach(async () => {
+    db.reset();
+    sentEmails.mockClear();
+    scoresPath = path.join(await mkdtemp(path.join(tmpdir(), 'super-bowl-')), 'fake-live-scores.json');
+    vi.stubEnv('SCORE_PROVIDER', 'fake');
+    vi.stubEnv('FAKE_LIVE_SCORES_PATH', scoresPath);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('records an ended quarter in super_bowl_quarter_results and emails the winner and owner', async () => {
+    seedContest();
+    claimSquare(7, 3, 'Alice');
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+
+    const result = await checkSuperBowlScores();
+
+    expect(result.results).toEqual([{ contestId: CONTEST_ID, quarter: 'q1', processed: true }]);
+    expect(quarterResult('q1')).toMatchObject({
+      home_score: 7,
+      away_score: 3,
+      home_last_digit: 7,
+      away_last_digit: 3,
+      winning_square_id: 'square-7-3',
+      winner_first_name: 'Alice',
+      winner_email: 'alice@example.com',
+      winner_venmo: '@alice',
+      prize_amount: 200,
+      payout_percent: 20,
+      winner_email_sent: true,
+      owner_email_sent: true,
+    });
+
+    expect(emailsOfType('winner_notification')).toEqual([
+      expect.objectContaining({ to: 'alice@example.com', squareIds: ['square-7-3'] }),
+    ]);
+    expect(emailsOfType('super_bowl_quarter')).toEqual([expect.objectContaining({ to: 'owner@example.com' })]);
+
+    // Paid through the same scores and winners as manual entry
+    expect(db.table('scores')).toEqual([expect.objectContaining({ quarter: 'q1', winning_square_id: 'square-7-3' })]);
+    expect(db.table('score_winners')).toEqual([
+      expect.objectContaining({ square_id: 'square-7-3', role: 'primary', share_percent: 100 }),
+    ]);
+  });
+
+  it('does nothing for a quarter that is already recorded', async () => {
+    seedContest();
+    claimSquare(7, 3, 'Alice');
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+
+    await checkSuperBowlScores();
+    const firstResult = { ...quarterResult('q1') };
+    sentEmails.mockClear();
+
+    const result = await checkSuperBowlScores();
+
+    expect(result.results).toEqual([{ contestId: CONTEST_ID, quarter: 'q1', processed: false }]);
+    expect(sentEmails).not.toHaveBeenCalled();
+    expect(quarterResult('q1')).toEqual(firstResult);
+    expect(db.table('super_bowl_quarter_results')).toHaveLength(1);
+  });
+
+  it('re-records a corrected score and emails the new winner', async () => {
+    seedContest();
+    claimSquare(7, 3, 'Alice');
+    claimSquare(7, 0, 'Bob');
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+    await checkSuperBowlScores();
+    sentEmails.mockClear();
+
+    // The field goal is taken off the board after review
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [0] });
+    await checkSuperBowlScores();
+
+    expect(quarterResult('q1')).toMatchObject({
+      away_score: 0,
+      winning_square_id: 'square-7-0',
+      winner_first_name: 'Bob',
+    });
+    expect(emailsOfType('winner_notification')).toEqual([expect.objectContaining({ to: 'bob@example.com' })]);
+    expect(emailsOfType('super_bowl_quarter')).toHaveLength(1);
+  });
+
+  it('resends both emails once the control panel resets them', async () => {
+    seedContest();
+    claimSquare(7, 3, 'Alice');
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+    await checkSuperBowlScores();
+    sentEmails.mockClear();
+
+    Object.assign(quarterResult('q1')!, { winner_email_sent: false, owner_email_sent: false });
+    await checkSuperBowlScores({ force: true });
+
+    expect(emailsOfType('winner_notification')).toEqual([expect.objectContaining({ to: 'alice@example.com' })]);
+    expect(emailsOfType('super_bowl_quarter')).toHaveLength(1);
+    expect(quarterResult('q1')).toMatchObject({ winner_email_sent: true, owner_email_sent: true });
+  });
+
+  it('marks a quarter whose owner email failed so the next check retries it', async () => {
+    seedContest();
+    claimSquare(7, 3, 'Alice');
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+    sentEmails.mockImplementation(async (params) => params.emailType !== 'super_bowl_quarter');
+
+    await checkSuperBowlScores();
+    expect(quarterResult('q1')).toMatchObject({ winner_email_sent: true, owner_email_sent: false });
+
+    sentEmails.mockImplementation(async () => true);
+    sentEmails.mockClear();
+    await checkSuperBowlScores();
+
+    expect(emailsOfType('winner_notification')).toHaveLength(0);
+    expect(emailsOfType('super_bowl_quarter')).toHaveLength(1);
+    expect(quarterResult('q1')).toMatchObject({ owner_email_sent: true });
+  });
+
+  it('pays the final after overtime, completes the contest and emails the owner a summary', async () => {
+    seedContest();
+    claimSquare(6, 0, 'Carol');
+    await playGame({ status: 'final', home: [3, 7, 7, 3, 6], away: [0, 10, 0, 10, 0] });
+
+    const result = await checkSuperBowlScores();
+
+    expect(result.gameFinished).toBe(true);
+    expect(result.results.map((check) => check.quarter)).toEqual(['q1', 'q2', 'q3', 'final']);
+    expect(quarterResult('q2')).toMatchObject({ home_score: 10, away_score: 10 });
+    expect(quarterResult('final')).toMatchObject({
+      home_score: 26,
+      away_score: 20,
+      went_to_overtime: true,
+      winner_first_name: 'Carol',
+    });
+    expect(quarterResult('q3')).toMatchObject({ home_score: 17, away_score: 10, winner_first_name: null });
+
+    expect(db.table('contests')[0].status).toBe('completed');
+    expect(db.table('super_bowl_config')[0].game_finished).toBe(true);
+    expect(emailsOfType('super_bowl_summary')).toEqual([expect.objectContaining({ to: 'owner@example.com' })]);
+  });
+
+  it('pays the final at the end of regulation under the regulation rule', async () => {
+    seedContest({ overtime_rule: 'regulation_final' });
+    claimSquare(1, 1, 'Dana');
+    await playGame({ status: 'in_progress', completedPeriods: 4, home: [3, 7, 7, 4], away: [0, 10, 0, 11] });
+
+    await checkSuperBowlScores();
+
+    expect(quarterResult('final')).toMatchObject({
+      home_score: 21,
+      away_score: 21,
+      winner_first_name: 'Dana',
+      went_to_overtime: true,
+    });
+    expect(emailsOfType('winner_notification')).toEqual([expect.objectContaining({ to: 'dana@example.com' })]);
+  });
+
+  it('leaves contests alone while checking is turned off', async () => {
+    seedContest();
+    db.table('super_bowl_config')[0].enabled = false;
+    await playGame({ status: 'in_progress', completedPeriods: 1, home: [7], away: [3] });
+
+    const result = await checkSuperBowlScores();
+
+    expect(result.status).toBe('disabled');
+    expect(db.table('super_bowl_quarter_results')).toHaveLength(0);
+    expect(sentEmails).not.toHaveBeenCalled();
+  });
+});
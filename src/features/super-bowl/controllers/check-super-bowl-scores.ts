@@ -0,0 +1,504 @@
+import {
+  ContestStatus,
+  getPeriod,
+  getPeriodLabel,
+  getScoreLabel,
+  getSport,
+  WinnerRole,
+} from '@/features/contests/constants';
+import { recordScores, ScoreInput, sendWinnerEmail } from '@/features/contests/controllers/record-scores';
+import { Contest, GameQuarter, PaymentStatus } from '@/features/contests/types';
+import {
+  calculatePot,
+  getPaidSquareLabel,
+  getPrizeAmount,
+  getUnclaimedSharePercent,
+  isPrimaryPayout,
+  shuffleDigits,
+} from '@/features/contests/utils';
+import { sendEmailSafe } from '@/features/emails/send-email-safe';
+import { superBowlQuarterEmail } from '@/features/emails/templates/super-bowl-quarter-email';
+import { superBowlSummaryEmail } from '@/features/emails/templates/super-bowl-summary-email';
+import { getPeriodScores } from '@/features/live-scores/period-scores';
+import { getScoreProvider } from '@/features/live-scores/providers';
+import { ProviderGame } from '@/features/live-scores/types';
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { Json } from '@/libs/supabase/types';
+import { getCurrentISOString } from '@/utils/date-formatters';
+import { logger } from '@/utils/logger';
+
+import { findSuperBowlEventId, SUPER_BOWL_LEAGUE } from '../super-bowl-event';
+
+const RESULT_SQUARE_COLUMNS =
+  'id, row_index, col_index, share_index, payment_status, claimant_first_name, claimant_last_name, claimant_email, claimant_venmo';
+
+// Contests are checked from when they're listed until the game ends
+const ACTIVE_STATUSES = [ContestStatus.OPEN, ContestStatus.LOCKED, ContestStatus.IN_PROGRESS];
+
+// Super Bowl contests put the game's home team on the rows
+const SUPER_BOWL_LINK = { quarter: null, row_is_home: true };
+
+interface ResultSquare {
+  id: string;
+  row_index: number;
+  col_index: number;
+  share_index: number;
+  payment_status: PaymentStatus;
+  claimant_first_name: string | null;
+  claimant_last_name: string | null;
+  claimant_email: string | null;
+  claimant_venmo: string | null;
+}
+
+/** Everything paid for a recorded quarter, read back from its score */
+interface QuarterSummary {
+  payoutPercent: number;
+  /** The quarter's prize, including anything rolled over into it */
+  periodPrize: number;
+  /** Squares in the winning cell (two when it was sold in halves) */
+  cellSquares: ResultSquare[];
+  winners: { square: ResultSquare; role: WinnerRole; sharePercent: number; rolloverFromSquareId: string | null }[];
+  unclaimedPercent: number;
+}
+
+export interface CheckSuperBowlScoresOptions {
+  /** Only process this quarter */
+  quarter?: GameQuarter;
+  /** Check even when checking is turned off or the game has finished */
+  force?: boolean;
+}
+
+export interface QuarterCheck {
+  contestId: string;
+  quarter: GameQuarter;
+  processed: boolean;
+  error?: string;
+}
+
+export interface CheckSuperBowlScoresResult {
+  status: 'disabled' | 'finished' | 'no_game' | 'scheduled' | 'processed';
+  results: QuarterCheck[];
+  gameFinished: boolean;
+}
+
+async function log(
+  action: string,
+  status: 'success' | 'error' | 'skipped',
+  details: Record<string, Json | undefined> = {},
+  errorMessage?: string
+): Promise<void> {
+  const { error } = await supabaseAdminClient
+    .from('super_bowl_processing_log')
+    .insert({ action, status, details, error_message: errorMessage ?? null });
+
+  if (error) {
+    logger.error('checkSuperBowlScores', error, { action });
+  }
+}
+
+function buildWinnerName(square: ResultSquare | undefined): string {
+  if (!square?.claimant_first_name) return 'Unclaimed Square';
+  return square.claimant_last_name
+    ? `${square.claimant_first_name} ${square.claimant_last_name}`
+    : square.claimant_first_name;
+}
+
+async function getContestOwner(ownerId: string): Promise<{ email: string; name: string } | null> {
+  const { data } = await supabaseAdminClient.auth.admin.getUserById(ownerId);
+  const user = data?.user;
+  if (!user?.email) return null;
+
+  return { email: user.email, name: user.user_metadata?.full_name || user.user_metadata?.name || 'Contest Owner' };
+}
+
+/**
+ * Reads back what recordScores paid for a quarter, so emails and the control panel show
+ * exactly what the contest page does.
+ */
+async function getQuarterSummary(contest: Contest, quarter: GameQuarter): Promise<QuarterSummary> {
+  const [{ data: score }, { data: squares }] = await Promise.all([
+    supabaseAdminClient
+      .from('scores')
+      .select('id, winning_square_id, rollover_in_percent')
+      .eq('contest_id', contest.id)
+      .eq('quarter', quarter)
+      .single(),
+    supabaseAdminClient.from('squares').select(RESULT_SQUARE_COLUMNS).eq('contest_id', contest.id),
+  ]);
+
+  if (!score || !squares) {
+    throw new Error(`Failed to load the ${quarter} result`);
+  }
+
+  const { data: scoreWinners } = await supabaseAdminClient
+    .from('score_winners')
+    .select('square_id, role, share_percent, rollover_from_square_id')
+    .eq('score_id', score.id);
+
+  const squaresById = new Map(squares.map((sq) => [sq.id, sq]));
+  const cellSquare = score.winning_square_id ? squaresById.get(score.winning_square_id) : undefined;
+  const period = getPeriod(contest.sport_type, quarter, contest.overtime_rule);
+  const payoutPercent = (period && contest[period.payoutField]) || 0;
+
+  return {
+    payoutPercent,
+    periodPrize: getPrizeAmount(calculatePot(contest, squares), payoutPercent + Number(score.rollover_in_percent)),
+    cellSquares: cellSquare
+      ? squares
+          .filter((sq) => sq.row_index === cellSquare.row_index && sq.col_index === cellSquare.col_index)
+          .sort((a, b) => a.share_index - b.share_index)
+      : [],
+    winners: (scoreWinners ?? []).flatMap((w) => {
+      const square = squaresById.get(w.square_id);
+      return square
+        ? [
+            {
+              square,
+              role: w.role,
+              sharePercent: Number(w.share_percent),
+              rolloverFromSquareId: w.rollover_from_square_id,
+            },
+          ]
+        : [];
+    }),
+    unclaimedPercent: getUnclaimedSharePercent(scoreWinners ?? [], squaresById),
+  };
+}
+
+async function sendOwnerQuarterEmail(contest: Contest, score: ScoreInput, summary: QuarterSummary): Promise<boolean> {
+  const owner = await getContestOwner(contest.owner_id);
+  if (!owner) return false;
+
+  const claimedCell = summary.cellSquares.filter((sq) => sq.claimant_first_name);
+  const winner = claimedCell[0];
+  const toPrize = (sharePercent: number) => (summary.periodPrize * sharePercent) / 100;
+  const isCellPayout = (w: QuarterSummary['winners'][number]) =>
+    isPrimaryPayout({ role: w.role, rollover_from_square_id: w.rolloverFromSquareId });
+  const isLastPeriod = getSport(contest.sport_type, contest.overtime_rule).periods.at(-1)?.key === score.quarter;
+
+  return sendEmailSafe({
+    to: owner.email,
+    template: superBowlQuarterEmail({
+      ownerName: owner.name,
+      contestName: contest.name,
+      quarterName: getScoreLabel(contest.sport_type, score.quarter, contest.overtime_rule, score.wentToOvertime),
+      homeTeamName: contest.row_team_name,
+      awayTeamName: contest.col_team_name,
+      homeScore: score.homeScore,
+      awayScore: score.awayScore,
+      winnerName: claimedCell.length > 0 ? claimedCell.map(buildWinnerName).join(' & ') : buildWinnerName(undefined),
+      winnerEmail: winner?.claimant_email ?? null,
+      winnerVenmo: winner?.claimant_venmo ?? null,
+      prizeAmount: summary.winners.filter(isCellPayout).reduce((sum, w) => sum + toPrize(w.sharePercent), 0),
+      secondaryWinners: summary.winners
+        .filter((w) => !isCellPayout(w))
+        .map((w) => ({
+          roleLabel: getPaidSquareLabel(w.role, w.rolloverFromSquareId),
+          name: buildWinnerName(w.square),
+          email: w.square.claimant_email,
+          prizeAmount: toPrize(w.sharePercent),
+        })),
+      unclaimedNote:
+        summary.unclaimedPercent > 0
+          ? `$${toPrize(summary.unclaimedPercent).toLocaleString()} was won by unclaimed squares and ` +
+            (contest.rollover_policy === 'next_period' && !isLastPeriod
+              ? 'rolls over to the next quarter.'
+              : 'stays with the fundraiser.')
+          : null,
+    }),
+    contestId: contest.id,
+    emailType: 'super_bowl_quarter',
+  });
+}
+
+/**
+ * Records one quarter for a contest and emails its winners and owner. A quarter already recorded
+ * with the same score and both emails sent is skipped, so the check can run every minute.
+ * Returns whether anything was done.
+ */
+async function processQuarter(contest: Contest, score: ScoreInput): Promise<boolean> {
+  const { data: existing } = await supabaseAdminClient
+    .from('super_bowl_quarter_results')
+    .select('*')
+    .eq('contest_id', contest.id)
+    .eq('quarter', score.quarter)
+    .maybeSingle();
+
+  const unchanged = !!existing && existing.home_score === score.homeScore && existing.away_score === score.awayScore;
+  if (unchanged && existing.winner_email_sent && existing.owner_email_sent) return false;
+
+  // Paid through the same winner logic as manual entry, which emails the new winners
+  if (!unchanged) {
+    await recordScores(supabaseAdminClient, contest, [score]);
+  }
+
+  const summary = await getQuarterSummary(contest, score.quarter);
+
+  let winnerEmailSent = unchanged ? existing.winner_email_sent : true;
+  if (!winnerEmailSent) {
+    // Resent from the control panel: everyone paid for the quarter is emailed again
+    const sent = await Promise.all(
+      summary.winners
+        .filter((w) => w.square.claimant_email)
+        .map((w) => sendWinnerEmail(contest, score, w, summary.periodPrize))
+    );
+    winnerEmailSent = sent.every(Boolean);
+  }
+
+  let ownerEmailSent = unchanged ? existing.owner_email_sent : false;
+  if (!ownerEmailSent) {
+    ownerEmailSent = await sendOwnerQuarterEmail(contest, score, summary);
+  }
+
+  const sport = getSport(contest.sport_type, contest.overtime_rule);
+  const winner = summary.cellSquares.find((sq) => sq.claimant_first_name) ?? summary.cellSquares[0];
+  const now = getCurrentISOString();
+
+  const { error } = await supabaseAdminClient.from('super_bowl_quarter_results').upsert(
+    {
+      contest_id: contest.id,
+      quarter: score.quarter,
+      home_score: score.homeScore,
+      away_score: score.awayScore,
+      home_last_digit: sport.scoreDigit(score.homeScore),
+      away_last_digit: sport.scoreDigit(score.awayScore),
+      winning_square_id: summary.cellSquares[0]?.id ?? null,
+      winner_first_name: winner?.claimant_first_name ?? null,
+      winner_last_name: winner?.claimant_last_name ?? null,
+      winner_email: winner?.claimant_email ?? null,
+      winner_venmo: winner?.claimant_venmo ?? null,
+      prize_amount: summary.periodPrize,
+      payout_percent: summary.payoutPercent,
+      went_to_overtime: score.quarter === 'final' && !!score.wentToOvertime,
+      winner_email_sent: winnerEmailSent,
+      owner_email_sent: ownerEmailSent,
+      winner_email_sent_at: winnerEmailSent ? now : null,
+      owner_email_sent_at: ownerEmailSent ? now : null,
+      processed_at: now,
+    },
+    { onConflict: 'contest_id,quarter' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save the ${score.quarter} result`);
+  }
+
+  return true;
+}
+
+/**
+ * Draws and reveals the next quarter's numbers once a quarter ends, for contests that
+ * redraw numbers every quarter. Existing draws (e.g. entered by the owner) are kept.
+ */
+async function drawNextQuarterNumbers(contest: Contest, quarter: GameQuarter): Promise<void> {
+  const periods = getSport(contest.sport_type, contest.overtime_rule).periods;
+  const nextQuarter = periods[periods.findIndex((period) => period.key === quarter) + 1]?.key;
+  if (!contest.redraw_numbers_each_period || !nextQuarter) return;
+
+  const rowNumbers = shuffleDigits();
+  const colNumbers = shuffleDigits();
+
+  const { data: inserted } = await supabaseAdminClient
+    .from('period_numbers')
+    .upsert(
+      {
+        contest_id: contest.id,
+        quarter: nextQuarter,
+        row_numbers: rowNumbers,
+        col_numbers: colNumbers,
+        numbers_auto_generated: true,
+        revealed_at: getCurrentISOString(),
+      },
+      { onConflict: 'contest_id,quarter', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (!inserted || inserted.length === 0) return;
+
+  // Keep the contest's numbers on the latest drawn quarter
+  await supabaseAdminClient
+    .from('contests')
+    .update({ row_numbers: rowNumbers, col_numbers: colNumbers, numbers_auto_generated: true })
+    .eq('id', contest.id);
+
+  // Emails are best effort
+  await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/send-numbers-revealed-emails`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contestId: contest.id,
+      quarter: nextQuarter,
+      periodLabel: getPeriodLabel(contest.sport_type, nextQuarter, contest.overtime_rule),
+    }),
+  }).catch((error) => logger.error('drawNextQuarterNumbers', error, { contestId: contest.id }));
+}
+
+/**
+ * Emails the owner every quarter's winner and completes the contest once the game is final.
+ */
+async function completeContest(contest: Contest): Promise<void> {
+  const { data: results } = await supabaseAdminClient
+    .from('super_bowl_quarter_results')
+    .select('*')
+    .eq('contest_id', contest.id);
+
+  const owner = await getContestOwner(contest.owner_id);
+  if (results && results.length > 0 && owner) {
+    const periods = getSport(contest.sport_type, contest.overtime_rule).periods.map((period) => period.key as string);
+    const winners = [...results]
+      .sort((a, b) => periods.indexOf(a.quarter) - periods.indexOf(b.quarter))
+      .map((r) => ({
+        quarterName: getScoreLabel(
+          contest.sport_type,
+          r.quarter as GameQuarter,
+          contest.overtime_rule,
+          r.went_to_overtime
+        ),
+        homeScore: r.home_score,
+        awayScore: r.away_score,
+        winnerName: r.winner_first_name
+          ? [r.winner_first_name, r.winner_last_name].filter(Boolean).join(' ')
+          : 'Unclaimed Square',
+        winnerEmail: r.winner_email,
+        winnerVenmo: r.winner_venmo,
+        prizeAmount: Number(r.prize_amount) || 0,
+      }));
+
+    await sendEmailSafe({
+      to: owner.email,
+      template: superBowlSummaryEmail({
+        ownerName: owner.name,
+        contestName: contest.name,
+        winners,
+        totalPayout: winners.reduce((sum, w) => sum + w.prizeAmount, 0),
+      }),
+      contestId: contest.id,
+      emailType: 'super_bowl_summary',
+    });
+  }
+
+  await supabaseAdminClient.from('contests').update({ status: ContestStatus.COMPLETED }).eq('id', contest.id);
+}
+
+/**
+ * Checks the Super Bowl and records each quarter that has ended for every active Super Bowl
+ * contest, through the same score providers and winner logic as linked live games. Run every
+ * minute on game day; it does nothing while checking is turned off or once the game has finished.
+ */
+export async function checkSuperBowlScores({
+  quarter,
+  force = false,
+}: CheckSuperBowlScoresOptions = {}): Promise<CheckSuperBowlScoresResult> {
+  const result: CheckSuperBowlScoresResult = { status: 'processed', results: [], gameFinished: false };
+
+  const { data: config, error: configError } = await supabaseAdminClient
+    .from('super_bowl_config')
+    .select('*')
+    .limit(1)
+    .single();
+
+  if (configError || !config) {
+    await log('check_scores', 'error', {}, 'No super bowl config found');
+    throw new Error('No Super Bowl config found');
+  }
+
+  if (!config.enabled && !force) return { ...result, status: 'disabled' };
+  if (config.game_finished && !force) return { ...result, status: 'finished', gameFinished: true };
+
+  const provider = getScoreProvider(SUPER_BOWL_LEAGUE);
+  const eventId = await findSuperBowlEventId(provider.name);
+  const game: ProviderGame | undefined = eventId
+    ? (await provider.fetchGames(SUPER_BOWL_LEAGUE, [eventId]))[0]
+    : undefined;
+
+  await supabaseAdminClient
+    .from('super_bowl_config')
+    .update({
+      last_checked_at: getCurrentISOString(),
+      last_status: game?.status ?? null,
+      last_period: game?.period ?? null,
+    })
+    .eq('id', config.id);
+
+  if (!game) {
+    await log('check_scores', 'skipped', { reason: 'no_super_bowl_game_found', provider: provider.name });
+    return { ...result, status: 'no_game' };
+  }
+
+  await log('check_scores', 'success', {
+    provider: provider.name,
+    eventId,
+    status: game.status,
+    period: game.period,
+    homeTeam: game.homeTeam,
+    awayTeam: game.awayTeam,
+    homeScore: game.homeScore,
+    awayScore: game.awayScore,
+  });
+
+  if (game.status === 'scheduled') return { ...result, status: 'scheduled' };
+
+  const { data: contests, error: contestsError } = await supabaseAdminClient
+    .from('contests')
+    .select('*')
+    .eq('is_super_bowl', true)
+    .eq('sport_type', 'football')
+    // Score-change contests pay per scoring play, which the owner records by hand
+    .neq('prize_type', 'score_change')
+    .in('status', ACTIVE_STATUSES)
+    .is('deleted_at', null);
+
+  if (contestsError) {
+    await log('fetch_contests', 'error', {}, contestsError.message);
+    throw new Error('Failed to fetch Super Bowl contests');
+  }
+
+  for (const contest of contests ?? []) {
+    // Contests without numbers can't have a winner yet
+    if (!contest.row_numbers || !contest.col_numbers) continue;
+
+    const periodScores = getPeriodScores(contest.sport_type, contest.overtime_rule, game, SUPER_BOWL_LINK).filter(
+      (score) => !quarter || score.quarter === quarter
+    );
+
+    for (const score of periodScores) {
+      try {
+        const processed = await processQuarter(contest, score);
+        result.results.push({ contestId: contest.id, quarter: score.quarter, processed });
+
+        if (processed) {
+          await log('process_quarter', 'success', {
+            contestId: contest.id,
+            quarter: score.quarter,
+            homeScore: score.homeScore,
+            awayScore: score.awayScore,
+          });
+          await drawNextQuarterNumbers(contest, score.quarter);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to process quarter';
+        result.results.push({ contestId: contest.id, quarter: score.quarter, processed: false, error: message });
+        await log('process_quarter', 'error', { contestId: contest.id, quarter: score.quarter }, message);
+      }
+    }
+  }
+
+  if (game.status === 'final') {
+    for (const contest of contests ?? []) {
+      try {
+        await completeContest(contest);
+        await log('game_complete', 'success', { contestId: contest.id });
+      } catch (error) {
+        await log('game_complete', 'error', { contestId: contest.id }, String(error));
+      }
+    }
+
+    await supabaseAdminClient.from('super_bowl_config').update({ game_finished: true }).eq('id', config.id);
+    result.gameFinished = true;
+  }
+
+  return result;
+}
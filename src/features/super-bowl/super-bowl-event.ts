@@ -0,0 +1,48 @@
+import { SCORE_LEAGUES } from '@/features/live-scores/constants';
+import { getReplayFixture } from '@/features/live-scores/providers/replay-provider';
+import { ScoreLeague } from '@/features/live-scores/types';
+
+interface ESPNScoreboard {
+  events?: {
+    id: string;
+    name?: string;
+    season?: { type?: number | { name?: string } };
+  }[];
+}
+
+export const SUPER_BOWL_LEAGUE: ScoreLeague = 'nfl';
+
+/** Event id the fake provider serves the Super Bowl under, e.g. { "super-bowl": { ... } } */
+export const FAKE_SUPER_BOWL_EVENT_ID = 'super-bowl';
+
+// ESPN numbers the postseason as season type 3
+const ESPN_POSTSEASON_TYPE = 3;
+
+function isPostseason(season: NonNullable<ESPNScoreboard['events']>[number]['season']): boolean {
+  const type = season?.type;
+  return typeof type === 'number'
+    ? type === ESPN_POSTSEASON_TYPE
+    : type?.name === 'Postseason' || type?.name === 'Post Season';
+}
+
+/**
+ * Finds the Super Bowl's event id on ESPN's NFL scoreboard, which lists this week's games.
+ * Returns null when it isn't on the scoreboard. The fake and replay providers always serve it.
+ */
+export async function findSuperBowlEventId(providerName: string): Promise<string | null> {
+  if (providerName === 'fake') return FAKE_SUPER_BOWL_EVENT_ID;
+  if (providerName === 'replay') return getReplayFixture().eventId;
+
+  const url = `https://site.api.espn.com/apis/site/v2/sports/${SCORE_LEAGUES[SUPER_BOWL_LEAGUE].espnPath}/scoreboard`;
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`ESPN API returned ${response.status}`);
+  }
+
+  const events = ((await response.json()) as ESPNScoreboard).events ?? [];
+  const superBowl =
+    events.find((event) => event.name?.toLowerCase().includes('super bowl')) ??
+    events.find((event) => isPostseason(event.season));
+
+  return superBowl?.id ?? null;
+}
@@ -1,13 +1,30 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 import { createSupabaseBrowserClient } from '@/libs/supabase/supabase-browser-client';
 
 type BaseSquare = { id: string };
 
-export function useRealtimeSquares<T extends BaseSquare>(contestId: string, initialSquares: T[]) {
+// Claims and bulk updates change many squares at once; re-read the grid once per burst
+const REFETCH_DELAY_MS = 300;
+
+/**
+ * Keeps a contest's grid live. The squares:<contest_id> broadcast only says that a square
+ * changed (never its claimant), so the grid is re-read with `fetchSquares`, which goes
+ * through the same access checks as the first load.
+ */
+export function useRealtimeSquares<T extends BaseSquare>(
+  contestId: string,
+  initialSquares: T[],
+  fetchSquares: () => Promise<T[] | null>
+) {
   const [squares, setSquares] = useState<T[]>(initialSquares);
+  const fetchSquaresRef = useRef(fetchSquares);
+
+  useEffect(() => {
+    fetchSquaresRef.current = fetchSquares;
+  }, [fetchSquares]);
 
   // Sync state when initialSquares prop changes
   useEffect(() => {
@@ -17,36 +34,28 @@ export function useRealtimeSquares<T extends BaseSquare>(contestId: string, init
   // Subscribe to realtime updates
   useEffect(() => {
     const supabase = createSupabaseBrowserClient();
+    let refetchTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const refetch = async () => {
+      const latest = await fetchSquaresRef.current();
+      if (latest) {
+        setSquares(latest);
+      }
+    };
 
     const channel = supabase
       .channel(`squares:${contestId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'squares',
-          filter: `contest_id=eq.${contestId}`,
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            setSquares((prev) => [...prev, payload.new as T]);
-          } else if (payload.eventType === 'UPDATE') {
-            setSquares((prev) =>
-              prev.map((s) => (s.id === (payload.new as T).id ? (payload.new as T) : s))
-            );
-          } else if (payload.eventType === 'DELETE') {
-            setSquares((prev) => prev.filter((s) => s.id !== (payload.old as T).id));
-          }
-        }
-      )
+      .on('broadcast', { event: 'square_changed' }, () => {
+        clearTimeout(refetchTimeout);
+        refetchTimeout = setTimeout(refetch, REFETCH_DELAY_MS);
+      })
       .subscribe();
 
     return () => {
+      clearTimeout(refetchTimeout);
       supabase.removeChannel(channel);
     };
   }, [contestId]);
 
   return squares;
 }
-
@@ -14,9 +14,217 @@ export type Database = {
   }
   public: {
     Tables: {
+      contest_access_pins: {
+        Row: {
+          access_pin: string
+          access_token: string
+          contest_id: string
+          created_at: string
+          expires_at: string | null
+          rotated_at: string
+          updated_at: string
+        }
+        Insert: {
+          access_pin: string
+          access_token?: string
+          contest_id: string
+          created_at?: string
+          expires_at?: string | null
+          rotated_at?: string
+          updated_at?: string
+        }
+        Update: {
+          access_pin?: string
+          access_token?: string
+          contest_id?: string
+          created_at?: string
+          expires_at?: string | null
+          rotated_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contest_access_pins_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: true
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contest_audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_type: string
+          after: Json | null
+          before: Json | null
+          contest_id: string
+          created_at: string
+          entity_id: string | null
+          entity_type: string
+          id: string
+          metadata: Json
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_type: string
+          after?: Json | null
+          before?: Json | null
+          contest_id: string
+          created_at?: string
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          metadata?: Json
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_type?: string
+          after?: Json | null
+          before?: Json | null
+          contest_id?: string
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          metadata?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contest_audit_log_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contest_invitees: {
+        Row: {
+          access_token: string
+          contest_id: string
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          last_sent_at: string | null
+        }
+        Insert: {
+          access_token?: string
+          contest_id: string
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string | null
+        }
+        Update: {
+          access_token?: string
+          contest_id?: string
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          last_sent_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contest_invitees_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contest_members: {
+        Row: {
+          accepted_at: string | null
+          contest_id: string
+          created_at: string
+          email: string
+          id: string
+          invite_token: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["contest_role"]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          contest_id: string
+          created_at?: string
+          email: string
+          id?: string
+          invite_token: string
+          invited_by?: string | null
+          role: Database["public"]["Enums"]["contest_role"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          contest_id?: string
+          created_at?: string
+          email?: string
+          id?: string
+          invite_token?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["contest_role"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contest_members_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contest_pin_attempts: {
+        Row: {
+          attempted_at: string
+          client_ip: string | null
+          contest_id: string
+          id: string
+          succeeded: boolean
+        }
+        Insert: {
+          attempted_at?: string
+          client_ip?: string | null
+          contest_id: string
+          id?: string
+          succeeded: boolean
+        }
+        Update: {
+          attempted_at?: string
+          client_ip?: string | null
+          contest_id?: string
+          id?: string
+          succeeded?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contest_pin_attempts_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contests: {
         Row: {
-          access_pin: string | null
+          accept_card_payments: boolean
           code: string
           col_numbers: number[] | null
           col_team_name: string
@@ -24,16 +232,23 @@ export type Database = {
           deleted_at: string | null
           description: string | null
           enable_player_tracking: boolean
+          grid_layout: Database["public"]["Enums"]["grid_layout"]
           hero_image_position: string
           hero_image_url: string | null
+          hide_quick_pick_locations: boolean
           id: string
+          invite_only: boolean
           is_public: boolean
           is_super_bowl: boolean
           max_squares_per_person: number | null
           name: string
           numbers_auto_generated: boolean | null
           org_image_url: string | null
+          organization_cut_percent: number
+          organization_id: string | null
+          overtime_rule: Database["public"]["Enums"]["overtime_rule"]
           owner_id: string
+          payment_deadline_hours: number | null
           payout_final_percent: number | null
           payout_game1_percent: number | null
           payout_game2_percent: number | null
@@ -42,19 +257,28 @@ export type Database = {
           payout_game5_percent: number | null
           payout_game6_percent: number | null
           payout_game7_percent: number | null
+          payout_ot_percent: number | null
           payout_q1_percent: number | null
           payout_q2_percent: number | null
           payout_q3_percent: number | null
           players: Json
+          pot_basis: Database["public"]["Enums"]["pot_basis"]
           primary_color: string | null
           prize_final_text: string | null
+          prize_ot_text: string | null
           prize_q1_text: string | null
           prize_q2_text: string | null
           prize_q3_text: string | null
           prize_type: Database["public"]["Enums"]["prize_type"]
+          redraw_numbers_each_period: boolean
+          rollover_policy: Database["public"]["Enums"]["rollover_policy"]
           row_numbers: number[] | null
           row_team_name: string
+          score_change_payout: number
           secondary_color: string | null
+          secondary_minus_one_percent: number
+          secondary_reverse_percent: number
+          secondary_touching_percent: number
           slug: string
           sport_type: Database["public"]["Enums"]["sport_type"]
           square_price: number
@@ -62,7 +286,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
-          access_pin?: string | null
+          accept_card_payments?: boolean
           code: string
           col_numbers?: number[] | null
           col_team_name: string
@@ -70,16 +294,23 @@ export type Database = {
           deleted_at?: string | null
           description?: string | null
           enable_player_tracking?: boolean
+          grid_layout?: Database["public"]["Enums"]["grid_layout"]
           hero_image_position?: string
           hero_image_url?: string | null
+          hide_quick_pick_locations?: boolean
           id?: string
+          invite_only?: boolean
           is_public?: boolean
           is_super_bowl?: boolean
           max_squares_per_person?: number | null
           name: string
           numbers_auto_generated?: boolean | null
           org_image_url?: string | null
+          organization_cut_percent?: number
+          organization_id?: string | null
+          overtime_rule?: Database["public"]["Enums"]["overtime_rule"]
           owner_id: string
+          payment_deadline_hours?: number | null
           payout_final_percent?: number | null
           payout_game1_percent?: number | null
           payout_game2_percent?: number | null
@@ -88,19 +319,28 @@ export type Database = {
           payout_game5_percent?: number | null
           payout_game6_percent?: number | null
           payout_game7_percent?: number | null
+          payout_ot_percent?: number | null
           payout_q1_percent?: number | null
           payout_q2_percent?: number | null
           payout_q3_percent?: number | null
           players?: Json
+          pot_basis?: Database["public"]["Enums"]["pot_basis"]
           primary_color?: string | null
           prize_final_text?: string | null
+          prize_ot_text?: string | null
           prize_q1_text?: string | null
           prize_q2_text?: string | null
           prize_q3_text?: string | null
           prize_type?: Database["public"]["Enums"]["prize_type"]
+          redraw_numbers_each_period?: boolean
+          rollover_policy?: Database["public"]["Enums"]["rollover_policy"]
           row_numbers?: number[] | null
           row_team_name: string
+          score_change_payout?: number
           secondary_color?: string | null
+          secondary_minus_one_percent?: number
+          secondary_reverse_percent?: number
+          secondary_touching_percent?: number
           slug: string
           sport_type?: Database["public"]["Enums"]["sport_type"]
           square_price: number
@@ -108,7 +348,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
-          access_pin?: string | null
+          accept_card_payments?: boolean
           code?: string
           col_numbers?: number[] | null
           col_team_name?: string
@@ -116,16 +356,23 @@ export type Database = {
           deleted_at?: string | null
           description?: string | null
           enable_player_tracking?: boolean
+          grid_layout?: Database["public"]["Enums"]["grid_layout"]
           hero_image_position?: string
           hero_image_url?: string | null
+          hide_quick_pick_locations?: boolean
           id?: string
+          invite_only?: boolean
           is_public?: boolean
           is_super_bowl?: boolean
           max_squares_per_person?: number | null
           name?: string
           numbers_auto_generated?: boolean | null
           org_image_url?: string | null
+          organization_cut_percent?: number
+          organization_id?: string | null
+          overtime_rule?: Database["public"]["Enums"]["overtime_rule"]
           owner_id?: string
+          payment_deadline_hours?: number | null
           payout_final_percent?: number | null
           payout_game1_percent?: number | null
           payout_game2_percent?: number | null
@@ -134,26 +381,43 @@ export type Database = {
           payout_game5_percent?: number | null
           payout_game6_percent?: number | null
           payout_game7_percent?: number | null
+          payout_ot_percent?: number | null
           payout_q1_percent?: number | null
           payout_q2_percent?: number | null
           payout_q3_percent?: number | null
           players?: Json
+          pot_basis?: Database["public"]["Enums"]["pot_basis"]
           primary_color?: string | null
           prize_final_text?: string | null
+          prize_ot_text?: string | null
           prize_q1_text?: string | null
           prize_q2_text?: string | null
           prize_q3_text?: string | null
           prize_type?: Database["public"]["Enums"]["prize_type"]
+          redraw_numbers_each_period?: boolean
+          rollover_policy?: Database["public"]["Enums"]["rollover_policy"]
           row_numbers?: number[] | null
           row_team_name?: string
+          score_change_payout?: number
           secondary_color?: string | null
+          secondary_minus_one_percent?: number
+          secondary_reverse_percent?: number
+          secondary_touching_percent?: number
           slug?: string
           sport_type?: Database["public"]["Enums"]["sport_type"]
           square_price?: number
           status?: Database["public"]["Enums"]["contest_status"]
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "contests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       customers: {
         Row: {
@@ -218,6 +482,195 @@ export type Database = {
           },
         ]
       }
+      live_games: {
+        Row: {
+          away_score: number | null
+          contest_id: string
+          created_at: string
+          event_id: string
+          home_score: number | null
+          id: string
+          last_checked_at: string | null
+          last_error: string | null
+          league: Database["public"]["Enums"]["score_league"]
+          period: number | null
+          quarter: Database["public"]["Enums"]["game_quarter"] | null
+          row_is_home: boolean
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          away_score?: number | null
+          contest_id: string
+          created_at?: string
+          event_id: string
+          home_score?: number | null
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          league: Database["public"]["Enums"]["score_league"]
+          period?: number | null
+          quarter?: Database["public"]["Enums"]["game_quarter"] | null
+          row_is_home?: boolean
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          away_score?: number | null
+          contest_id?: string
+          created_at?: string
+          event_id?: string
+          home_score?: number | null
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          league?: Database["public"]["Enums"]["score_league"]
+          period?: number | null
+          quarter?: Database["public"]["Enums"]["game_quarter"] | null
+          row_is_home?: boolean
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_games_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          invite_token: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invite_token: string
+          invited_by?: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["organization_role"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invite_token?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["organization_role"]
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_payment_options: {
+        Row: {
+          account_last_4_digits: string | null
+          created_at: string
+          display_name: string | null
+          handle_or_link: string
+          id: string
+          instructions: string | null
+          organization_id: string
+          qr_code_url: string | null
+          sort_order: number | null
+          type: Database["public"]["Enums"]["payment_option_type"]
+        }
+        Insert: {
+          account_last_4_digits?: string | null
+          created_at?: string
+          display_name?: string | null
+          handle_or_link: string
+          id?: string
+          instructions?: string | null
+          organization_id: string
+          qr_code_url?: string | null
+          sort_order?: number | null
+          type: Database["public"]["Enums"]["payment_option_type"]
+        }
+        Update: {
+          account_last_4_digits?: string | null
+          created_at?: string
+          display_name?: string | null
+          handle_or_link?: string
+          id?: string
+          instructions?: string | null
+          organization_id?: string
+          qr_code_url?: string | null
+          sort_order?: number | null
+          type?: Database["public"]["Enums"]["payment_option_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_payment_options_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          hero_image_url: string | null
+          id: string
+          name: string
+          org_image_url: string | null
+          owner_id: string
+          primary_color: string | null
+          secondary_color: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          hero_image_url?: string | null
+          id?: string
+          name: string
+          org_image_url?: string | null
+          owner_id: string
+          primary_color?: string | null
+          secondary_color?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          hero_image_url?: string | null
+          id?: string
+          name?: string
+          org_image_url?: string | null
+          owner_id?: string
+          primary_color?: string | null
+          secondary_color?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       payment_options: {
         Row: {
           account_last_4_digits: string | null
@@ -255,15 +708,95 @@ export type Database = {
           sort_order?: number | null
           type?: Database["public"]["Enums"]["payment_option_type"]
         }
-        Relationships: [
-          {
-            foreignKeyName: "payment_options_contest_id_fkey"
-            columns: ["contest_id"]
-            isOneToOne: false
-            referencedRelation: "contests"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: [
+          {
+            foreignKeyName: "payment_options_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      period_numbers: {
+        Row: {
+          col_numbers: number[]
+          contest_id: string
+          id: string
+          numbers_auto_generated: boolean
+          quarter: Database["public"]["Enums"]["game_quarter"]
+          revealed_at: string
+          row_numbers: number[]
+        }
+        Insert: {
+          col_numbers: number[]
+          contest_id: string
+          id?: string
+          numbers_auto_generated?: boolean
+          quarter: Database["public"]["Enums"]["game_quarter"]
+          revealed_at?: string
+          row_numbers: number[]
+        }
+        Update: {
+          col_numbers?: number[]
+          contest_id?: string
+          id?: string
+          numbers_auto_generated?: boolean
+          quarter?: Database["public"]["Enums"]["game_quarter"]
+          revealed_at?: string
+          row_numbers?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "period_numbers_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_admin_audit_log: {
+        Row: {
+          action: string
+          admin_email: string
+          admin_id: string | null
+          created_at: string
+          details: Json
+          id: string
+        }
+        Insert: {
+          action: string
+          admin_email: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+        }
+        Update: {
+          action?: string
+          admin_email?: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+        }
+        Relationships: []
+      }
+      platform_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
       }
       prices: {
         Row: {
@@ -342,6 +875,86 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_hits: {
+        Row: {
+          hit_at: string
+          id: number
+          key: string
+        }
+        Insert: {
+          hit_at?: string
+          id?: number
+          key: string
+        }
+        Update: {
+          hit_at?: string
+          id?: number
+          key?: string
+        }
+        Relationships: []
+      }
+      score_winners: {
+        Row: {
+          contest_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["winner_role"]
+          rollover_from_square_id: string | null
+          score_id: string
+          share_percent: number
+          square_id: string
+        }
+        Insert: {
+          contest_id: string
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["winner_role"]
+          rollover_from_square_id?: string | null
+          score_id: string
+          share_percent: number
+          square_id: string
+        }
+        Update: {
+          contest_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["winner_role"]
+          rollover_from_square_id?: string | null
+          score_id?: string
+          share_percent?: number
+          square_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "score_winners_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_winners_rollover_from_square_id_fkey"
+            columns: ["rollover_from_square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_winners_score_id_fkey"
+            columns: ["score_id"]
+            isOneToOne: false
+            referencedRelation: "scores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "score_winners_square_id_fkey"
+            columns: ["square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scores: {
         Row: {
           away_score: number
@@ -350,6 +963,8 @@ export type Database = {
           home_score: number
           id: string
           quarter: Database["public"]["Enums"]["game_quarter"]
+          rollover_in_percent: number
+          went_to_overtime: boolean
           winning_square_id: string | null
         }
         Insert: {
@@ -359,6 +974,8 @@ export type Database = {
           home_score: number
           id?: string
           quarter: Database["public"]["Enums"]["game_quarter"]
+          rollover_in_percent?: number
+          went_to_overtime?: boolean
           winning_square_id?: string | null
         }
         Update: {
@@ -368,6 +985,8 @@ export type Database = {
           home_score?: number
           id?: string
           quarter?: Database["public"]["Enums"]["game_quarter"]
+          rollover_in_percent?: number
+          went_to_overtime?: boolean
           winning_square_id?: string | null
         }
         Relationships: [
@@ -387,6 +1006,212 @@ export type Database = {
           },
         ]
       }
+      scoring_event_winners: {
+        Row: {
+          contest_id: string
+          created_at: string
+          id: string
+          rollover_from_square_id: string | null
+          scoring_event_id: string
+          share_percent: number
+          square_id: string
+        }
+        Insert: {
+          contest_id: string
+          created_at?: string
+          id?: string
+          rollover_from_square_id?: string | null
+          scoring_event_id: string
+          share_percent: number
+          square_id: string
+        }
+        Update: {
+          contest_id?: string
+          created_at?: string
+          id?: string
+          rollover_from_square_id?: string | null
+          scoring_event_id?: string
+          share_percent?: number
+          square_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scoring_event_winners_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scoring_event_winners_rollover_from_square_id_fkey"
+            columns: ["rollover_from_square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scoring_event_winners_scoring_event_id_fkey"
+            columns: ["scoring_event_id"]
+            isOneToOne: false
+            referencedRelation: "scoring_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scoring_event_winners_square_id_fkey"
+            columns: ["square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scoring_events: {
+        Row: {
+          away_score: number
+          contest_id: string
+          created_at: string
+          description: string | null
+          home_score: number
+          id: string
+          quarter: Database["public"]["Enums"]["game_quarter"]
+          sequence: number
+          winning_square_id: string | null
+        }
+        Insert: {
+          away_score: number
+          contest_id: string
+          created_at?: string
+          description?: string | null
+          home_score: number
+          id?: string
+          quarter: Database["public"]["Enums"]["game_quarter"]
+          sequence: number
+          winning_square_id?: string | null
+        }
+        Update: {
+          away_score?: number
+          contest_id?: string
+          created_at?: string
+          description?: string | null
+          home_score?: number
+          id?: string
+          quarter?: Database["public"]["Enums"]["game_quarter"]
+          sequence?: number
+          winning_square_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scoring_events_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scoring_events_winning_square_id_fkey"
+            columns: ["winning_square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      square_releases: {
+        Row: {
+          claimant_email: string | null
+          claimant_first_name: string | null
+          claimant_last_name: string | null
+          claimant_venmo: string | null
+          claimed_at: string | null
+          contest_id: string
+          id: string
+          paid_at: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          quick_picked: boolean
+          referred_by: string | null
+          released_at: string
+          released_by: string | null
+          restored_at: string | null
+          square_id: string
+        }
+        Insert: {
+          claimant_email?: string | null
+          claimant_first_name?: string | null
+          claimant_last_name?: string | null
+          claimant_venmo?: string | null
+          claimed_at?: string | null
+          contest_id: string
+          id?: string
+          paid_at?: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          quick_picked?: boolean
+          referred_by?: string | null
+          released_at?: string
+          released_by?: string | null
+          restored_at?: string | null
+          square_id: string
+        }
+        Update: {
+          claimant_email?: string | null
+          claimant_first_name?: string | null
+          claimant_last_name?: string | null
+          claimant_venmo?: string | null
+          claimed_at?: string | null
+          contest_id?: string
+          id?: string
+          paid_at?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          quick_picked?: boolean
+          referred_by?: string | null
+          released_at?: string
+          released_by?: string | null
+          restored_at?: string | null
+          square_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "square_releases_contest_id_fkey"
+            columns: ["contest_id"]
+            isOneToOne: false
+            referencedRelation: "contests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "square_releases_square_id_fkey"
+            columns: ["square_id"]
+            isOneToOne: false
+            referencedRelation: "squares"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_connected_accounts: {
+        Row: {
+          charges_enabled: boolean
+          created_at: string
+          details_submitted: boolean
+          stripe_account_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          charges_enabled?: boolean
+          created_at?: string
+          details_submitted?: boolean
+          stripe_account_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          charges_enabled?: boolean
+          created_at?: string
+          details_submitted?: boolean
+          stripe_account_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       super_bowl_config: {
         Row: {
           id: string
@@ -440,6 +1265,7 @@ export type Database = {
           winner_last_name: string | null
           winner_email: string | null
           winner_venmo: string | null
+          went_to_overtime: boolean
           prize_amount: number | null
           payout_percent: number | null
           winner_email_sent: boolean
@@ -461,6 +1287,7 @@ export type Database = {
           winner_last_name?: string | null
           winner_email?: string | null
           winner_venmo?: string | null
+          went_to_overtime?: boolean
           prize_amount?: number | null
           payout_percent?: number | null
           winner_email_sent?: boolean
@@ -482,6 +1309,7 @@ export type Database = {
           winner_last_name?: string | null
           winner_email?: string | null
           winner_venmo?: string | null
+          went_to_overtime?: boolean
           prize_amount?: number | null
           payout_percent?: number | null
           winner_email_sent?: boolean
@@ -545,9 +1373,14 @@ export type Database = {
           contest_id: string
           id: string
           paid_at: string | null
+          payment_reminder_sent_at: string | null
           payment_status: Database["public"]["Enums"]["payment_status"]
+          quick_picked: boolean
           referred_by: string | null
           row_index: number
+          share_index: number
+          stripe_checkout_session_id: string | null
+          stripe_payment_intent_id: string | null
         }
         Insert: {
           claimant_email?: string | null
@@ -559,9 +1392,14 @@ export type Database = {
           contest_id: string
           id?: string
           paid_at?: string | null
+          payment_reminder_sent_at?: string | null
           payment_status?: Database["public"]["Enums"]["payment_status"]
+          quick_picked?: boolean
           referred_by?: string | null
           row_index: number
+          share_index?: number
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
         }
         Update: {
           claimant_email?: string | null
@@ -573,9 +1411,14 @@ export type Database = {
           contest_id?: string
           id?: string
           paid_at?: string | null
+          payment_reminder_sent_at?: string | null
           payment_status?: Database["public"]["Enums"]["payment_status"]
+          quick_picked?: boolean
           referred_by?: string | null
           row_index?: number
+          share_index?: number
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
         }
         Relationships: [
           {
@@ -598,6 +1441,7 @@ export type Database = {
           ended_at: string | null
           id: string
           metadata: Json | null
+          organization_id: string | null
           price_id: string | null
           quantity: number | null
           status: Database["public"]["Enums"]["subscription_status"] | null
@@ -615,6 +1459,7 @@ export type Database = {
           ended_at?: string | null
           id: string
           metadata?: Json | null
+          organization_id?: string | null
           price_id?: string | null
           quantity?: number | null
           status?: Database["public"]["Enums"]["subscription_status"] | null
@@ -632,6 +1477,7 @@ export type Database = {
           ended_at?: string | null
           id?: string
           metadata?: Json | null
+          organization_id?: string | null
           price_id?: string | null
           quantity?: number | null
           status?: Database["public"]["Enums"]["subscription_status"] | null
@@ -640,6 +1486,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "subscriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "subscriptions_price_id_fkey"
             columns: ["price_id"]
@@ -678,17 +1531,177 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_restore_contest: {
+        Args: {
+          p_organization_id: string
+          p_owner_id: string
+        }
+        Returns: boolean
+      }
+      check_claimant: {
+        Args: {
+          p_email: string
+          p_first_name: string
+          p_last_name: string
+          p_venmo: string
+        }
+        Returns: undefined
+      }
+      check_rate_limit: {
+        Args: { p_key: string; p_max_requests: number; p_window_ms: number }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_at: string
+        }[]
+      }
+      claim_squares: {
+        Args: {
+          p_access_token?: string
+          p_contest_id: string
+          p_email: string
+          p_first_name: string
+          p_last_name: string
+          p_referred_by_slug?: string
+          p_square_ids: string[]
+          p_user_email?: string
+          p_user_id?: string
+          p_venmo?: string
+        }
+        Returns: {
+          col_index: number
+          id: string
+          row_index: number
+        }[]
+      }
+      get_contest_squares: {
+        Args: { p_access_token?: string; p_contest_id: string }
+        Returns: {
+          claimant_first_name: string
+          claimant_last_name: string
+          col_index: number
+          id: string
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          quick_picked: boolean
+          referred_by: string
+          row_index: number
+          share_index: number
+        }[]
+      }
+      generate_contest_access_token: { Args: Record<PropertyKey, never>; Returns: string }
+      get_contest_role: {
+        Args: { p_contest_id: string }
+        Returns: Database["public"]["Enums"]["contest_role"]
+      }
+      get_organization_role: {
+        Args: { p_organization_id: string }
+        Returns: Database["public"]["Enums"]["organization_role"]
+      }
+      has_contest_access: {
+        Args: { p_access_token?: string; p_contest_id: string }
+        Returns: boolean
+      }
+      has_contest_role: {
+        Args: {
+          p_contest_id: string
+          p_roles: Database["public"]["Enums"]["contest_role"][]
+        }
+        Returns: boolean
+      }
+      has_organization_role: {
+        Args: {
+          p_organization_id: string
+          p_roles: Database["public"]["Enums"]["organization_role"][]
+        }
+        Returns: boolean
+      }
+      is_platform_admin: { Args: Record<PropertyKey, never>; Returns: boolean }
+      list_deleted_contests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          claimed_count: number
+          deleted_at: string
+          id: string
+          name: string
+          organization_id: string | null
+        }[]
+      }
+      purge_deleted_contests: { Args: Record<PropertyKey, never>; Returns: number }
+      quick_pick_squares: {
+        Args: {
+          p_access_token?: string
+          p_contest_id: string
+          p_count: number
+          p_email: string
+          p_first_name: string
+          p_last_name: string
+          p_referred_by_slug?: string
+          p_user_email?: string
+          p_user_id?: string
+          p_venmo?: string
+        }
+        Returns: {
+          col_index: number
+          id: string
+          row_index: number
+        }[]
+      }
+      release_expired_claims: {
+        Args: { p_reminder_hours: number }
+        Returns: {
+          claimant_email: string
+          claimant_first_name: string
+          col_index: number
+          contest_id: string
+          quick_picked: boolean
+          row_index: number
+          square_id: string
+          stripe_checkout_session_id: string
+        }[]
+      }
+      resolve_referred_by: {
+        Args: { p_players: Json; p_referred_by_slug: string }
+        Returns: string
+      }
+      restore_contest: { Args: { contest_id: string }; Returns: boolean }
       soft_delete_contest: { Args: { contest_id: string }; Returns: boolean }
+      verify_contest_pin: {
+        Args: { p_client_ip?: string; p_pin: string; p_slug: string }
+        Returns: {
+          access_token: string
+          result: string
+          retry_at: string
+        }[]
+      }
     }
     Enums: {
+      contest_role: "owner" | "manager" | "cashier" | "viewer"
       contest_status: "draft" | "open" | "locked" | "in_progress" | "completed"
-      game_quarter: "q1" | "q2" | "q3" | "final"
+      game_quarter:
+        | "q1"
+        | "q2"
+        | "q3"
+        | "final"
+        | "game1"
+        | "game2"
+        | "game3"
+        | "game4"
+        | "game5"
+        | "game6"
+        | "game7"
+        | "ot"
+      grid_layout: "standard" | "five_by_five" | "halves"
+      organization_role: "owner" | "admin" | "member"
+      overtime_rule: "final_includes_ot" | "separate_ot" | "regulation_final"
       payment_option_type: "venmo" | "paypal" | "zelle" | "cashapp"
       payment_status: "available" | "pending" | "paid"
+      pot_basis: "all" | "claimed" | "paid"
       pricing_plan_interval: "day" | "week" | "month" | "year"
       pricing_type: "one_time" | "recurring"
-      prize_type: "percentage" | "custom"
-      sport_type: "football" | "baseball"
+      prize_type: "percentage" | "custom" | "score_change"
+      rollover_policy: "house" | "next_period" | "split_paid" | "nearest_claimed"
+      score_league: "nfl" | "college_football" | "nba" | "mlb" | "nhl" | "mls"
+      sport_type: "football" | "baseball" | "hockey" | "basketball" | "soccer"
       subscription_status:
         | "trialing"
         | "active"
@@ -698,6 +1711,7 @@ export type Database = {
         | "past_due"
         | "unpaid"
         | "paused"
+      winner_role: "primary" | "reverse" | "touching" | "minus_one"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -825,14 +1839,34 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      contest_role: ["owner", "manager", "cashier", "viewer"],
       contest_status: ["draft", "open", "locked", "in_progress", "completed"],
-      game_quarter: ["q1", "q2", "q3", "final"],
+      game_quarter: [
+        "q1",
+        "q2",
+        "q3",
+        "final",
+        "game1",
+        "game2",
+        "game3",
+        "game4",
+        "game5",
+        "game6",
+        "game7",
+        "ot",
+      ],
+      grid_layout: ["standard", "five_by_five", "halves"],
+      organization_role: ["owner", "admin", "member"],
+      overtime_rule: ["final_includes_ot", "separate_ot", "regulation_final"],
       payment_option_type: ["venmo", "paypal", "zelle", "cashapp"],
       payment_status: ["available", "pending", "paid"],
+      pot_basis: ["all", "claimed", "paid"],
       pricing_plan_interval: ["day", "week", "month", "year"],
       pricing_type: ["one_time", "recurring"],
-      prize_type: ["percentage", "custom"],
-      sport_type: ["football", "baseball"],
+      prize_type: ["percentage", "custom", "score_change"],
+      rollover_policy: ["house", "next_period", "split_paid", "nearest_claimed"],
+      score_league: ["nfl", "college_football", "nba", "mlb", "nhl", "mls"],
+      sport_type: ["football", "baseball", "hockey", "basketball", "soccer"],
       subscription_status: [
         "trialing",
         "active",
@@ -843,6 +1877,7 @@ export const Constants = {
         "unpaid",
         "paused",
       ],
+      winner_role: ["primary", "reverse", "touching", "minus_one"],
     },
   },
 } as const
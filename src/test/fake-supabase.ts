@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto';
+
+type Row = Record<string, unknown>;
+
+interface FakeUser {
+  id: string;
+  email: string;
+  user_metadata: Record<string, string>;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+  count: number | null;
+}
+
+type Filter = (row: Row) => boolean;
+
+/**
+ * In-memory stand-in for the Supabase client, for tests of server code that reads and writes
+ * through supabaseAdminClient. Supports the query builder calls the app uses (filters, single,
+ * insert, upsert with onConflict, update, delete) on plain rows; selected columns and
+ * embedded relations are ignored, so every query returns whole rows.
+ */
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  users: Record<string, FakeUser> = {};
+
+  auth = {
+    admin: {
+      getUserById: async (id: string) => ({ data: { user: this.users[id] ?? null }, error: null }),
+    },
+  };
+
+  reset(): void {
+    this.tables = {};
+    this.users = {};
+  }
+
+  table(name: string): Row[] {
+    this.tables[name] ??= [];
+    return this.tables[name];
+  }
+
+  from(name: string): FakeQuery {
+    return new FakeQuery(this.table(name));
+  }
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private returning = false;
+  private countOnly = false;
+  private maxRows: number | null = null;
+  private expect: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private rows: Row[]) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }): this {
+    if (this.operation !== 'select') {
+      this.returning = true;
+    }
+    this.countOnly = !!options?.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options?.onConflict ?? 'id').split(',');
+    this.ignoreDuplicates = !!options?.ignoreDuplicates;
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  not(column: string, operator: 'is', value: null): this {
+    this.filters.push((row) => (row[column] ?? null) !== value);
+    return this;
+  }
+
+  order(): this {
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.expect = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.expect = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row): boolean {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private run(): Row[] {
+    switch (this.operation) {
+      case 'select':
+        return this.rows.filter((row) => this.matches(row));
+
+      case 'insert': {
+        const inserted = this.values.map((values) => ({ id: randomUUID(), ...values }));
+        this.rows.push(...inserted);
+        return inserted;
+      }
+
+      case 'upsert': {
+        const written: Row[] = [];
+        for (const values of this.values) {
+          const existing = this.rows.find((row) =>
+            this.conflictColumns.every((column) => row[column] === values[column])
+          );
+          if (existing) {
+            if (this.ignoreDuplicates) continue;
+            Object.assign(existing, values);
+            written.push(existing);
+          } else {
+            const inserted = { id: randomUUID(), ...values };
+            this.rows.push(inserted);
+            written.push(inserted);
+          }
+        }
+        return written;
+      }
+
+      case 'update': {
+        const updated = this.rows.filter((row) => this.matches(row));
+        updated.forEach((row) => Object.assign(row, this.changes));
+        return updated;
+      }
+
+      case 'delete': {
+        const deleted = this.rows.filter((row) => this.matches(row));
+        const kept = this.rows.filter((row) => !this.matches(row));
+        this.rows.splice(0, this.rows.length, ...kept);
+        return deleted;
+      }
+    }
+  }
+
+  private execute(): QueryResult {
+    let rows = this.run().map((row) => ({ ...row }));
+    if (this.maxRows !== null) rows = rows.slice(0, this.maxRows);
+
+    if (this.countOnly) {
+      return { data: null, error: null, count: rows.length };
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null };
+    }
+
+    if (this.expect === 'many') {
+      return { data: rows, error: null, count: rows.length };
+    }
+
+    if (rows.length > 1 || (this.expect === 'single' && rows.length === 0)) {
+      return {
+        data: null,
+        error: { message: `Expected one row, found ${rows.length}`, code: 'PGRST116' },
+        count: null,
+      };
+    }
+
+    return { data: rows[0] ?? null, error: null, count: rows.length };
+  }
+}
@@ -0,0 +1,30 @@
+import { headers } from 'next/headers';
+import { describe, expect, it, vi } from 'vitest';
+
+import { getClientIp } from './get-client-ip';
+
+vi.mock('next/headers', () => ({ headers: vi.fn() }));
+
+function requestWith(requestHeaders: Record<string, string>) {
+  vi.mocked(headers).mockResolvedValue(new Headers(requestHeaders) as never);
+}
+
+describe('getClientIp', () => {
+  it("uses Vercel's own client IP header when there is one", async () => {
+    requestWith({ 'x-vercel-forwarded-for': '203.0.113.7', 'x-forwarded-for': '1.1.1.1, 203.0.113.7' });
+
+    expect(await getClientIp()).toBe('203.0.113.7');
+  });
+
+  it('ignores x-forwarded-for entries the client sent and uses the one the proxy appended', async () => {
+    requestWith({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 203.0.113.7' });
+
+    expect(await getClientIp()).toBe('203.0.113.7');
+  });
+
+  it('returns null without a proxy header', async () => {
+    requestWith({});
+
+    expect(await getClientIp()).toBeNull();
+  });
+});
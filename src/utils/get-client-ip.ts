@@ -0,0 +1,19 @@
+import { headers } from 'next/headers';
+
+/**
+ * Returns the IP address of the client making the current request. Only trusts what the
+ * proxy in front of the app wrote: Vercel's x-vercel-forwarded-for, or else the last
+ * x-forwarded-for entry (the one the nearest proxy appended). Earlier x-forwarded-for entries
+ * come from the client and can be anything. Returns null when there's no proxy header, e.g. in
+ * local development.
+ */
+export async function getClientIp(): Promise<string | null> {
+  const headerStore = await headers();
+
+  const vercelForwardedFor = headerStore.get('x-vercel-forwarded-for')?.split(',')[0]?.trim();
+  if (vercelForwardedFor) {
+    return vercelForwardedFor;
+  }
+
+  return headerStore.get('x-forwarded-for')?.split(',').at(-1)?.trim() || null;
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+
+import {
+  checkRateLimit,
+  checkRateLimits,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  setRateLimitStore,
+} from './rate-limit';
+
+vi.mock('@/libs/supabase/supabase-admin', () => ({ supabaseAdminClient: { rpc: vi.fn() } }));
+vi.mock('@/utils/logger', () => ({ logger: { error: vi.fn() } }));
+
+const rpc = vi.mocked(supabaseAdminClient.rpc);
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  it('allows requests up to the limit within the window', async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await checkRateLimit('claim:email:a@example.com', { maxRequests: 3, windowMs: 60000 }));
+    }
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+  });
+
+  it('lets a client back in once its oldest hit leaves the window', async () => {
+    vi.useFakeTimers();
+    try {
+      await checkRateLimit('pin:ip:1.2.3.4', { maxRequests: 1, windowMs: 1000 });
+      expect((await checkRateLimit('pin:ip:1.2.3.4', { maxRequests: 1, windowMs: 1000 })).success).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect((await checkRateLimit('pin:ip:1.2.3.4', { maxRequests: 1, windowMs: 1000 })).success).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects empty keys and windows longer than a day', async () => {
+    await expect(checkRateLimit(' ')).rejects.toThrow('non-empty');
+    await expect(checkRateLimit('key', { windowMs: 25 * 60 * 60 * 1000 })).rejects.toThrow('one day');
+  });
+});
+
+describe('checkRateLimits', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  it('stops at the first exceeded limit without using up the ones after it', async () => {
+    const ipLimit = { key: 'claim:ip:1.2.3.4', maxRequests: 1, windowMs: 60000 };
+    const emailLimit = { key: 'claim:email:a@example.com', maxRequests: 5, windowMs: 60000 };
+
+    expect((await checkRateLimits([ipLimit, emailLimit])).success).toBe(true);
+    expect((await checkRateLimits([ipLimit, emailLimit])).success).toBe(false);
+
+    const email = await checkRateLimit(emailLimit.key, emailLimit);
+    expect(email.remaining).toBe(3);
+  });
+
+  it('skips limits without a key, e.g. no client IP in development', async () => {
+    const result = await checkRateLimits([null, { key: 'upload:user:1', maxRequests: 2, windowMs: 60000 }]);
+
+    expect(result).toMatchObject({ success: true, remaining: 1 });
+  });
+});
+
+describe('PostgresRateLimitStore', () => {
+  beforeEach(() => {
+    setRateLimitStore(new PostgresRateLimitStore());
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection refused' } } as never);
+  });
+
+  it('refuses PIN guesses and claims when the database is unavailable', async () => {
+    expect((await checkRateLimit('pin:ip:1.2.3.4')).success).toBe(false);
+    expect((await checkRateLimit('claim:email:a@example.com')).success).toBe(false);
+  });
+
+  it('lets other requests through when the database is unavailable', async () => {
+    expect((await checkRateLimit('upload:user:1')).success).toBe(true);
+  });
+});
@@ -1,24 +1,24 @@
 /**
- * In-memory rate limiter using a Map.
- * Note: This is instance-local. In serverless/distributed environments,
- * each instance maintains its own state, so limits won't be strictly
- * enforced across instances. For strict rate limiting, use Redis or
- * a similar external store.
+ * Sliding-window rate limiter with a pluggable store.
+ * By default hits are kept in Postgres (see the check_rate_limit function), so every
+ * serverless instance enforces the same limits. Tests and scripts can swap in
+ * MemoryRateLimitStore with setRateLimitStore.
+ *
+ * Keys name what is limited and by whom, e.g. `claim:email:<address>` or `claim:ip:<address>`.
+ * Limit by IP as well as email wherever the email is user-supplied, so rotating addresses
+ * doesn't reset the budget.
  *
  * @example
  * ```ts
- * const result = checkRateLimit('user-123', { maxRequests: 10, windowMs: 60000 });
+ * const result = await checkRateLimit('user-123', { maxRequests: 10, windowMs: 60000 });
  * if (!result.success) {
  *   return new Response('Rate limit exceeded', { status: 429 });
  * }
  * ```
  */
 
-interface RateLimitEntry {
-  count: number;
-  windowStart: number;
-  windowMs: number;
-}
+import { supabaseAdminClient } from '@/libs/supabase/supabase-admin';
+import { logger } from '@/utils/logger';
 
 interface RateLimitOptions {
   maxRequests?: number;
@@ -31,10 +31,100 @@ interface RateLimitResult {
   resetAt: number;
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+interface RateLimitCheck extends RateLimitOptions {
+  key: string;
+}
+
+/**
+ * Records a hit for `key` if fewer than `maxRequests` hits were allowed in the last `windowMs`.
+ * Rejected hits are not recorded, so a client that keeps retrying is let back in as soon as
+ * its oldest allowed hit leaves the window.
+ */
+export interface RateLimitStore {
+  hit(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult>;
+}
 
 const DEFAULT_MAX_REQUESTS = 10;
 const DEFAULT_WINDOW_MS = 60000; // 60 seconds
+const MAX_WINDOW_MS = 24 * 60 * 60 * 1000; // Hits older than a day are swept from Postgres
+const FAIL_CLOSED_KEY_PREFIXES = ['pin:', 'claim:'];
+
+/**
+ * Keeps hits in process memory. Limits hold per instance only, so use it for tests and local
+ * scripts, not deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  async hit(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const recent = (this.hits.get(key) ?? []).filter((hitAt) => now - hitAt < windowMs);
+
+    if (recent.length >= maxRequests) {
+      this.hits.set(key, recent);
+      return { success: false, remaining: 0, resetAt: recent[0] + windowMs };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+
+    // Clean up expired keys periodically (1% chance per check, ~100 checks on average)
+    if (Math.random() < 0.01) {
+      this.cleanupExpiredEntries(now);
+    }
+
+    return { success: true, remaining: maxRequests - recent.length, resetAt: recent[0] + windowMs };
+  }
+
+  /** Removes keys with no hits in the last day to prevent memory leaks */
+  private cleanupExpiredEntries(now: number): void {
+    for (const [key, hits] of this.hits.entries()) {
+      if (now - hits[hits.length - 1] >= MAX_WINDOW_MS) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps hits in the rate_limit_hits table, shared by every instance. If the database can't be
+ * reached, most requests are let through so a limiter outage doesn't take sign-ins and
+ * uploads down with it. PIN guesses and claims are refused instead (FAIL_CLOSED_KEY_PREFIXES):
+ * their limits are what stand between a visitor and guessing a PIN or emptying a grid.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, maxRequests: number, windowMs: number): Promise<RateLimitResult> {
+    const { data, error } = await supabaseAdminClient.rpc('check_rate_limit', {
+      p_key: key,
+      p_max_requests: maxRequests,
+      p_window_ms: windowMs,
+    });
+
+    const result = data?.[0];
+
+    if (error || !result) {
+      logger.error('checkRateLimit', error ?? 'No result from check_rate_limit', { key });
+
+      if (FAIL_CLOSED_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+        return { success: false, remaining: 0, resetAt: Date.now() + windowMs };
+      }
+      return { success: true, remaining: maxRequests - 1, resetAt: Date.now() + windowMs };
+    }
+
+    return {
+      success: result.allowed,
+      remaining: result.remaining,
+      resetAt: new Date(result.reset_at).getTime(),
+    };
+  }
+}
+
+let rateLimitStore: RateLimitStore = new PostgresRateLimitStore();
+
+/** Replaces the store used by checkRateLimit, e.g. with a MemoryRateLimitStore in tests */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
 
 /**
  * Checks if a request should be rate limited.
@@ -42,10 +132,10 @@ const DEFAULT_WINDOW_MS = 60000; // 60 seconds
  * @param key - Unique identifier for the rate limit (e.g., user ID, IP address)
  * @param options - Rate limit configuration
  * @param options.maxRequests - Maximum number of requests allowed (default: 10)
- * @param options.windowMs - Time window in milliseconds (default: 60000)
+ * @param options.windowMs - Sliding time window in milliseconds (default: 60000, max: one day)
  * @returns Rate limit check result with success status, remaining requests, and reset time
  */
-export function checkRateLimit(key: string, options?: RateLimitOptions): RateLimitResult {
+export async function checkRateLimit(key: string, options?: RateLimitOptions): Promise<RateLimitResult> {
   if (!key || key.trim().length === 0) {
     throw new Error('Rate limit key must be a non-empty string');
   }
@@ -56,54 +146,36 @@ export function checkRateLimit(key: string, options?: RateLimitOptions): RateLim
   if (maxRequests <= 0) {
     throw new Error('maxRequests must be a positive number');
   }
-  if (windowMs <= 0) {
-    throw new Error('windowMs must be a positive number');
+  if (windowMs <= 0 || windowMs > MAX_WINDOW_MS) {
+    throw new Error('windowMs must be a positive number no longer than one day');
   }
 
-  const now = Date.now();
-
-  const entry = rateLimitStore.get(key);
-
-  // If no entry or window expired, create/reset entry
-  if (!entry || now - entry.windowStart >= entry.windowMs) {
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      windowStart: now,
-      windowMs,
-    };
-    rateLimitStore.set(key, newEntry);
-    return {
-      success: true,
-      remaining: maxRequests - 1,
-      resetAt: now + windowMs,
-    };
-  }
-
-  // Increment count
-  entry.count += 1;
-  const remaining = Math.max(0, maxRequests - entry.count);
-  const success = entry.count <= maxRequests;
-
-  // Clean up expired entries periodically (1% chance per check, ~100 checks on average)
-  if (rateLimitStore.size > 0 && Math.random() < 0.01) {
-    cleanupExpiredEntries();
-  }
-
-  return {
-    success,
-    remaining,
-    resetAt: entry.windowStart + entry.windowMs,
-  };
+  return rateLimitStore.hit(key, maxRequests, windowMs);
 }
 
 /**
- * Removes expired entries from the rate limit store to prevent memory leaks.
+ * Checks several limits for one request (e.g. per IP and per email), stopping at the first
+ * that is exceeded so a blocked request doesn't use up the budgets after it. Keys that are
+ * null (e.g. no client IP in development) are skipped.
  */
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (now - entry.windowStart >= entry.windowMs) {
-      rateLimitStore.delete(key);
+export async function checkRateLimits(checks: Array<RateLimitCheck | null>): Promise<RateLimitResult> {
+  let result: RateLimitResult = { success: true, remaining: Infinity, resetAt: Date.now() };
+
+  for (const check of checks) {
+    if (!check) continue;
+
+    const { key, ...options } = check;
+    const checkResult = await checkRateLimit(key, options);
+    if (!checkResult.success) {
+      return checkResult;
     }
+
+    result = {
+      success: true,
+      remaining: Math.min(result.remaining, checkResult.remaining),
+      resetAt: Math.max(result.resetAt, checkResult.resetAt),
+    };
   }
+
+  return result;
 }
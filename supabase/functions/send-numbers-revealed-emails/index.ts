@@ -9,9 +9,50 @@ interface NumbersRevealedEmailParams {
   colTeamName: string;
   rowIndex: number;
   colIndex: number;
-  rowNumber: number;
-  colNumber: number;
+  /** The square's digits, e.g. "4" or "4/7" when a row or column holds two */
+  rowNumber: string;
+  colNumber: string;
   contestUrl: string;
+  /** Set when the contest redraws numbers every period, e.g. "Q2" */
+  periodLabel?: string | null;
+}
+
+// Digits per row/column for each grid layout (mirrors src/features/contests/constants/grid-layouts.ts)
+const DIGITS_PER_LINE: Record<string, number> = {
+  standard: 1,
+  five_by_five: 2,
+  halves: 1,
+};
+
+// Period labels per sport (mirrors SPORTS in src/features/contests/constants/sports.ts)
+const PERIOD_LABELS: Record<string, Record<string, string>> = {
+  football: { q1: 'Q1', q2: 'Halftime', q3: 'Q3', final: 'Final' },
+  baseball: {
+    game1: 'Game 1',
+    game2: 'Game 2',
+    game3: 'Game 3',
+    game4: 'Game 4',
+    game5: 'Game 5',
+    game6: 'Game 6',
+    game7: 'Game 7',
+  },
+  hockey: { q1: 'P1', q2: 'P2', q3: 'P3', ot: 'OT' },
+  basketball: { q1: 'Q1', q2: 'Halftime', q3: 'Q3', final: 'Final' },
+  soccer: { q2: 'Halftime', final: 'Full Time' },
+};
+
+// Overtime periods that are only paid under the separate_ot rule
+const OVERTIME_PERIOD_LABELS: Record<string, Record<string, string>> = {
+  football: { ot: 'OT' },
+};
+
+/**
+ * Label for one of a contest's periods, e.g. "Halftime". Mirrors getPeriodLabel; returns null
+ * for a period the contest doesn't have.
+ */
+function getPeriodLabel(sportType: string, quarter: string, overtimeRule: string | null): string | null {
+  const overtimeLabels = overtimeRule === 'separate_ot' ? OVERTIME_PERIOD_LABELS[sportType] : undefined;
+  return PERIOD_LABELS[sportType]?.[quarter] ?? overtimeLabels?.[quarter] ?? null;
 }
 
 /**
@@ -47,6 +88,7 @@ function generateNumbersRevealedEmail({
   rowNumber,
   colNumber,
   contestUrl,
+  periodLabel,
 }: NumbersRevealedEmailParams): { subject: string; html: string } {
   // Escape user-provided values to prevent HTML injection
   const safeParticipantName = escapeHtml(participantName);
@@ -56,7 +98,10 @@ function generateNumbersRevealedEmail({
 
   // Sanitize contest name for subject line (prevent header injection)
   const subjectSafeContestName = sanitizeSubject(contestName);
-  const subject = `Numbers are in for ${subjectSafeContestName}!`;
+  const subject = periodLabel
+    ? `${sanitizeSubject(periodLabel)} numbers are in for ${subjectSafeContestName}!`
+    : `Numbers are in for ${subjectSafeContestName}!`;
+  const safePeriodText = periodLabel ? ` for <strong style="color: #F97316;">${escapeHtml(periodLabel)}</strong> in` : ' for';
 
   const html = `
 <!DOCTYPE html>
@@ -88,7 +133,7 @@ function generateNumbersRevealedEmail({
               </p>
               
               <p style="margin: 0 0 24px 0; color: #fafafa; font-size: 16px;">
-                The numbers have been revealed for <strong style="color: #F97316;">${safeContestName}</strong>!
+                The numbers have been revealed${safePeriodText} <strong style="color: #F97316;">${safeContestName}</strong>!
               </p>
               
               <!-- Square Details Box -->
@@ -175,7 +220,7 @@ serve(async (req: Request) => {
     });
   }
 
-  let body: { contestId?: string };
+  let body: { contestId?: string; quarter?: string };
   try {
     body = await req.json();
   } catch (err) {
@@ -186,7 +231,8 @@ serve(async (req: Request) => {
     });
   }
 
-  const { contestId } = body;
+  // quarter is sent when the contest redraws numbers every period
+  const { contestId, quarter } = body;
 
   if (!contestId) {
     return new Response(JSON.stringify({ error: 'contestId is required' }), {
@@ -219,7 +265,7 @@ serve(async (req: Request) => {
   // Fetch contest
   const { data: contest, error: contestError } = await supabase
     .from('contests')
-    .select('id, name, slug, row_team_name, col_team_name, row_numbers, col_numbers')
+    .select('id, name, slug, row_team_name, col_team_name, row_numbers, col_numbers, grid_layout, sport_type, overtime_rule')
     .eq('id', contestId)
     .single();
 
@@ -231,6 +277,37 @@ serve(async (req: Request) => {
     });
   }
 
+  // Worked out here rather than taken from the caller: it goes into every participant's email
+  const periodLabel = quarter ? getPeriodLabel(contest.sport_type, quarter, contest.overtime_rule) : null;
+
+  if (quarter && !periodLabel) {
+    return new Response(JSON.stringify({ error: 'Unknown period for this contest' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Use the period's own draw when one was requested
+  if (quarter) {
+    const { data: periodNumbers, error: periodNumbersError } = await supabase
+      .from('period_numbers')
+      .select('row_numbers, col_numbers')
+      .eq('contest_id', contestId)
+      .eq('quarter', quarter)
+      .single();
+
+    if (periodNumbersError || !periodNumbers) {
+      console.log('Period numbers not set for contest:', contestId, quarter);
+      return new Response(JSON.stringify({ error: 'Numbers not set for this period' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    contest.row_numbers = periodNumbers.row_numbers;
+    contest.col_numbers = periodNumbers.col_numbers;
+  }
+
   if (!contest.row_numbers || !contest.col_numbers) {
     console.log('Numbers not set for contest:', contestId);
     return new Response(JSON.stringify({ error: 'Numbers not set for this contest' }), {
@@ -283,8 +360,10 @@ serve(async (req: Request) => {
     const colIndex = square.col_index;
     const rowNumbers = contest.row_numbers as number[];
     const colNumbers = contest.col_numbers as number[];
+    const digitsPerLine = DIGITS_PER_LINE[contest.grid_layout] || 1;
+    const lineCount = Math.floor(rowNumbers.length / digitsPerLine);
 
-    if (rowIndex < 0 || rowIndex >= rowNumbers.length || colIndex < 0 || colIndex >= colNumbers.length) {
+    if (rowIndex < 0 || rowIndex >= lineCount || colIndex < 0 || colIndex >= lineCount) {
       console.warn(
         `Skipping square with invalid indices: square_id=${square.id}, row_index=${rowIndex}, col_index=${colIndex}, ` +
           `row_numbers.length=${rowNumbers.length}, col_numbers.length=${colNumbers.length}`
@@ -293,8 +372,11 @@ serve(async (req: Request) => {
       continue;
     }
 
-    const rowNumber = rowNumbers[rowIndex];
-    const colNumber = colNumbers[colIndex];
+    // Each row/column covers consecutive digits of its axis
+    const rowDigits = rowNumbers.slice(rowIndex * digitsPerLine, (rowIndex + 1) * digitsPerLine);
+    const colDigits = colNumbers.slice(colIndex * digitsPerLine, (colIndex + 1) * digitsPerLine);
+    const rowNumber = rowDigits.length > 0 ? rowDigits.join('/') : undefined;
+    const colNumber = colDigits.length > 0 ? colDigits.join('/') : undefined;
 
     // Extra safety check for undefined values (shouldn't happen after bounds check)
     if (rowNumber === undefined || colNumber === undefined) {
@@ -316,6 +398,7 @@ serve(async (req: Request) => {
       rowNumber,
       colNumber,
       contestUrl,
+      periodLabel,
     });
 
     try {
@@ -0,0 +1,10 @@
+-- Add baseball game periods to the game_quarter enum so all seven games can be scored.
+-- New enum values cannot be used in the same transaction they are added in, so the
+-- existing baseball scores are remapped in the following migration.
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game1';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game2';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game3';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game4';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game5';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game6';
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'game7';
@@ -0,0 +1,14 @@
+-- Baseball scores were previously stored against the football quarter values
+-- (Game 1 = q1, Game 2 = q2, Game 3 = q3, Game 4 = final). Move them to the
+-- dedicated game values so payouts resolve to payout_gameN_percent.
+UPDATE scores
+SET quarter = CASE scores.quarter
+  WHEN 'q1' THEN 'game1'::game_quarter
+  WHEN 'q2' THEN 'game2'::game_quarter
+  WHEN 'q3' THEN 'game3'::game_quarter
+  WHEN 'final' THEN 'game4'::game_quarter
+END
+FROM contests
+WHERE contests.id = scores.contest_id
+  AND contests.sport_type = 'baseball'
+  AND scores.quarter IN ('q1', 'q2', 'q3', 'final');
@@ -0,0 +1,25 @@
+-- Add hockey, basketball and soccer contests.
+-- Period definitions (labels, payout columns, default splits) live in the app's sport
+-- registry; the database only needs the enum values and the extra overtime columns.
+ALTER TYPE sport_type ADD VALUE IF NOT EXISTS 'hockey';
+ALTER TYPE sport_type ADD VALUE IF NOT EXISTS 'basketball';
+ALTER TYPE sport_type ADD VALUE IF NOT EXISTS 'soccer';
+
+-- Hockey pays an overtime winner separately from the end of regulation
+ALTER TYPE game_quarter ADD VALUE IF NOT EXISTS 'ot';
+
+ALTER TABLE contests
+ADD COLUMN payout_ot_percent INTEGER DEFAULT 0,
+ADD COLUMN prize_ot_text TEXT;
+
+-- Periods that share the quarter columns across sports (football, hockey, basketball,
+-- soccer) plus overtime must not exceed 100% together
+ALTER TABLE contests DROP CONSTRAINT IF EXISTS check_football_payout_total;
+ALTER TABLE contests ADD CONSTRAINT check_period_payout_total
+CHECK (
+  COALESCE(payout_q1_percent, 0) +
+  COALESCE(payout_q2_percent, 0) +
+  COALESCE(payout_q3_percent, 0) +
+  COALESCE(payout_final_percent, 0) +
+  COALESCE(payout_ot_percent, 0) <= 100
+);
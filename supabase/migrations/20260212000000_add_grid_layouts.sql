@@ -0,0 +1,50 @@
+-- Add grid layouts.
+-- standard:     10x10 grid, one digit per row/column, one owner per square (100 squares)
+-- five_by_five: 5x5 grid, two digits per row/column, one owner per square (25 squares)
+-- halves:       10x10 grid, one digit per row/column, each square sold as two halves (200 squares)
+CREATE TYPE grid_layout AS ENUM ('standard', 'five_by_five', 'halves');
+
+ALTER TABLE contests ADD COLUMN grid_layout grid_layout DEFAULT 'standard' NOT NULL;
+
+-- Each half of a shared square is its own row, told apart by share_index
+ALTER TABLE squares
+ADD COLUMN share_index INTEGER DEFAULT 0 NOT NULL CHECK (share_index >= 0 AND share_index <= 1);
+
+ALTER TABLE squares DROP CONSTRAINT IF EXISTS squares_contest_id_row_index_col_index_key;
+ALTER TABLE squares ADD CONSTRAINT squares_contest_id_row_index_col_index_share_index_key
+UNIQUE (contest_id, row_index, col_index, share_index);
+
+-- Initialize squares for the contest's layout when it is created
+CREATE OR REPLACE FUNCTION initialize_squares()
+RETURNS TRIGGER AS $$
+DECLARE
+  grid_size INTEGER := CASE NEW.grid_layout WHEN 'five_by_five' THEN 5 ELSE 10 END;
+  share_count INTEGER := CASE NEW.grid_layout WHEN 'halves' THEN 2 ELSE 1 END;
+BEGIN
+  FOR r IN 0..grid_size - 1 LOOP
+    FOR c IN 0..grid_size - 1 LOOP
+      FOR s IN 0..share_count - 1 LOOP
+        INSERT INTO squares (contest_id, row_index, col_index, share_index)
+        VALUES (NEW.id, r, c, s);
+      END LOOP;
+    END LOOP;
+  END LOOP;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The layout decides which squares exist, so it cannot change after creation
+CREATE OR REPLACE FUNCTION prevent_grid_layout_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.grid_layout IS DISTINCT FROM OLD.grid_layout THEN
+    RAISE EXCEPTION 'grid_layout cannot be changed after a contest is created';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER contests_grid_layout_immutable
+  BEFORE UPDATE OF grid_layout ON contests
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_grid_layout_change();
@@ -0,0 +1,42 @@
+-- Per-period numbers: contests can opt in to redrawing the row/column digits for every
+-- quarter (or game/period). Each period's draw is stored here; contests.row_numbers and
+-- col_numbers keep mirroring the most recently drawn period so existing checks still apply.
+ALTER TABLE contests ADD COLUMN redraw_numbers_each_period BOOLEAN DEFAULT false NOT NULL;
+
+-- =============================================
+-- PERIOD NUMBERS TABLE
+-- =============================================
+CREATE TABLE period_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  quarter game_quarter NOT NULL,
+  row_numbers INTEGER[] NOT NULL,
+  col_numbers INTEGER[] NOT NULL,
+  numbers_auto_generated BOOLEAN DEFAULT true NOT NULL,
+
+  revealed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE(contest_id, quarter)
+);
+
+CREATE INDEX idx_period_numbers_contest ON period_numbers(contest_id);
+
+ALTER TABLE period_numbers ENABLE ROW LEVEL SECURITY;
+
+-- Revealed numbers are public, like the contest's own numbers
+CREATE POLICY "Anyone can view period numbers"
+  ON period_numbers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Contest owners can manage period numbers"
+  ON period_numbers FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM contests
+      WHERE contests.id = period_numbers.contest_id
+      AND contests.owner_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE period_numbers;
@@ -0,0 +1,49 @@
+-- Secondary payouts: smaller prizes for squares other than the period's winner.
+-- Each percentage is a share of the period's prize, taken from the winning square's share.
+-- reverse:   the square with the winning digits swapped
+-- touching:  every square touching the winning square (split evenly)
+-- minus_one: the square one below each digit of the final score (final period only)
+ALTER TABLE contests
+ADD COLUMN secondary_reverse_percent INTEGER DEFAULT 0 NOT NULL CHECK (secondary_reverse_percent >= 0 AND secondary_reverse_percent <= 100),
+ADD COLUMN secondary_touching_percent INTEGER DEFAULT 0 NOT NULL CHECK (secondary_touching_percent >= 0 AND secondary_touching_percent <= 100),
+ADD COLUMN secondary_minus_one_percent INTEGER DEFAULT 0 NOT NULL CHECK (secondary_minus_one_percent >= 0 AND secondary_minus_one_percent <= 100);
+
+CREATE TYPE winner_role AS ENUM ('primary', 'reverse', 'touching', 'minus_one');
+
+-- =============================================
+-- SCORE WINNERS TABLE
+-- =============================================
+-- Every square paid for a score, with its role and share of the period's prize.
+-- scores.winning_square_id keeps pointing at the primary winning cell.
+CREATE TABLE score_winners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  score_id UUID REFERENCES scores(id) ON DELETE CASCADE NOT NULL,
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+  square_id UUID REFERENCES squares(id) ON DELETE CASCADE NOT NULL,
+
+  role winner_role NOT NULL,
+  share_percent NUMERIC(6, 3) NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE(score_id, square_id, role)
+);
+
+CREATE INDEX idx_score_winners_contest ON score_winners(contest_id);
+CREATE INDEX idx_score_winners_score ON score_winners(score_id);
+
+ALTER TABLE score_winners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view score winners"
+  ON score_winners FOR SELECT
+  USING (true);
+
+CREATE POLICY "Contest owners can manage score winners"
+  ON score_winners FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM contests
+      WHERE contests.id = score_winners.contest_id
+      AND contests.owner_id = auth.uid()
+    )
+  );
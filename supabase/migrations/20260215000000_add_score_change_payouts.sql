@@ -0,0 +1,51 @@
+-- Score-change payouts: instead of paying at the end of each quarter, the contest pays a
+-- fixed amount every time the score changes. The owner records each scoring event and the
+-- winning square is picked from the new score's last digits, like a quarter score.
+ALTER TYPE prize_type ADD VALUE IF NOT EXISTS 'score_change';
+
+-- Amount paid for each scoring event (the pot caps the total)
+ALTER TABLE contests
+ADD COLUMN score_change_payout NUMERIC(10,2) DEFAULT 0 NOT NULL CHECK (score_change_payout >= 0);
+
+-- =============================================
+-- SCORING EVENTS TABLE
+-- =============================================
+CREATE TABLE scoring_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  -- Order the events happened in, starting at 1
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  -- Period the event happened in; picks the numbers when they are redrawn each period
+  quarter game_quarter NOT NULL,
+  home_score INTEGER NOT NULL CHECK (home_score >= 0),
+  away_score INTEGER NOT NULL CHECK (away_score >= 0),
+  description TEXT,
+
+  winning_square_id UUID REFERENCES squares(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE(contest_id, sequence)
+);
+
+CREATE INDEX idx_scoring_events_contest ON scoring_events(contest_id);
+
+ALTER TABLE scoring_events ENABLE ROW LEVEL SECURITY;
+
+-- Scoring events are public, like scores
+CREATE POLICY "Anyone can view scoring events"
+  ON scoring_events FOR SELECT
+  USING (true);
+
+CREATE POLICY "Contest owners can manage scoring events"
+  ON scoring_events FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM contests
+      WHERE contests.id = scoring_events.contest_id
+      AND contests.owner_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE scoring_events;
@@ -0,0 +1,23 @@
+-- Rollover policies: what happens to a prize (or a share of one) won by an unclaimed square.
+-- house:           the fundraiser keeps it
+-- next_period:     it is added to the next quarter or game's prize (the last period falls back to house)
+-- split_paid:      it is split evenly among every paid square
+-- nearest_claimed: it goes to the closest claimed square on the grid
+CREATE TYPE rollover_policy AS ENUM ('house', 'next_period', 'split_paid', 'nearest_claimed');
+
+ALTER TABLE contests ADD COLUMN rollover_policy rollover_policy DEFAULT 'house' NOT NULL;
+
+-- Share of the pot carried into a period from earlier unclaimed prizes (next_period policy),
+-- paid on top of the period's own payout percentage
+ALTER TABLE scores
+ADD COLUMN rollover_in_percent NUMERIC(6, 3) DEFAULT 0 NOT NULL CHECK (rollover_in_percent >= 0);
+
+-- Squares paid an unclaimed square's share point back at the square it was rolled over from.
+-- One square can receive the same role's share from several unclaimed squares, so the source
+-- is part of the uniqueness check.
+ALTER TABLE score_winners
+ADD COLUMN rollover_from_square_id UUID REFERENCES squares(id) ON DELETE CASCADE;
+
+ALTER TABLE score_winners DROP CONSTRAINT IF EXISTS score_winners_score_id_square_id_role_key;
+ALTER TABLE score_winners ADD CONSTRAINT score_winners_score_id_square_id_role_rollover_key
+UNIQUE NULLS NOT DISTINCT (score_id, square_id, role, rollover_from_square_id);
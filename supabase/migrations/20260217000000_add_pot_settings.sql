@@ -0,0 +1,13 @@
+-- Pot settings: which squares the pot is counted from and how much the organization keeps
+-- before prizes are paid.
+-- all:     every square on the grid, sold or not
+-- claimed: squares that have been claimed (pending or paid)
+-- paid:    squares that have been paid for
+CREATE TYPE pot_basis AS ENUM ('all', 'claimed', 'paid');
+
+ALTER TABLE contests ADD COLUMN pot_basis pot_basis DEFAULT 'all' NOT NULL;
+
+-- Share of the pot the organization keeps off the top. Payout percentages apply to what is left.
+ALTER TABLE contests
+ADD COLUMN organization_cut_percent INTEGER DEFAULT 0 NOT NULL
+CHECK (organization_cut_percent >= 0 AND organization_cut_percent <= 100);
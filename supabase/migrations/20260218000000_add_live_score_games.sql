@@ -0,0 +1,64 @@
+-- Live score automation: owners link a contest to a scheduled game (league + the score
+-- provider's event id) and a scheduled job records each period's score as the game plays.
+--
+-- The job runs at /api/cron/live-scores and is scheduled like check-super-bowl-scores
+-- (see 20260209000001_add_super_bowl_cron.sql), with the app's CRON_SECRET as the token:
+--
+--    SELECT net.http_get(
+--      url := 'https://YOUR_SITE/api/cron/live-scores',
+--      headers := '{"Authorization": "Bearer YOUR_CRON_SECRET"}'::jsonb
+--    ) AS request_id;
+--
+-- Games that haven't started or have finished are skipped, so running every minute is cheap.
+CREATE TYPE score_league AS ENUM ('nfl', 'college_football', 'nba', 'mlb', 'nhl', 'mls');
+
+-- =============================================
+-- LIVE GAMES TABLE
+-- =============================================
+CREATE TABLE live_games (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  league score_league NOT NULL,
+  -- The score provider's id for the game
+  event_id TEXT NOT NULL CHECK (char_length(event_id) BETWEEN 1 AND 100),
+  -- Series contests (one period per game) link each game to the period its final score decides.
+  -- Otherwise NULL: the game's own periods decide the contest's periods.
+  quarter game_quarter,
+  -- Whether the contest's row team is the game's home team (row numbers match the home score)
+  row_is_home BOOLEAN DEFAULT true NOT NULL,
+
+  -- Last state seen by the job
+  status TEXT DEFAULT 'scheduled' NOT NULL CHECK (status IN ('scheduled', 'in_progress', 'final')),
+  period INTEGER,
+  home_score INTEGER,
+  away_score INTEGER,
+  last_checked_at TIMESTAMPTZ,
+  last_error TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (contest_id, event_id),
+  UNIQUE NULLS NOT DISTINCT (contest_id, quarter)
+);
+
+CREATE INDEX idx_live_games_unfinished ON live_games(league) WHERE status <> 'final';
+
+ALTER TABLE live_games ENABLE ROW LEVEL SECURITY;
+
+-- The job writes with the service role; owners link and unlink games
+CREATE POLICY "Contest owners can manage live games"
+  ON live_games FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM contests
+      WHERE contests.id = live_games.contest_id
+      AND contests.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_live_games_updated_at
+  BEFORE UPDATE ON live_games
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
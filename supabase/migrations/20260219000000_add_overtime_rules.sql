@@ -0,0 +1,18 @@
+-- Overtime rules: how a football game that goes to overtime is paid.
+-- final_includes_ot: the final prize is paid on the score after overtime
+-- separate_ot:       the final prize is paid at the end of regulation and overtime pays its own prize
+-- regulation_final:  the final prize is paid at the end of regulation and overtime is ignored
+CREATE TYPE overtime_rule AS ENUM ('final_includes_ot', 'separate_ot', 'regulation_final');
+
+ALTER TABLE contests ADD COLUMN overtime_rule overtime_rule DEFAULT 'final_includes_ot' NOT NULL;
+
+-- Marks a final score from a game that went to overtime, so winners and emails can say
+-- whether it counts the overtime points
+ALTER TABLE scores ADD COLUMN went_to_overtime BOOLEAN DEFAULT false NOT NULL;
+
+-- Super Bowl automation records the separate overtime prize alongside the quarters
+ALTER TABLE super_bowl_quarter_results DROP CONSTRAINT IF EXISTS super_bowl_quarter_results_quarter_check;
+ALTER TABLE super_bowl_quarter_results
+ADD CONSTRAINT super_bowl_quarter_results_quarter_check CHECK (quarter IN ('q1', 'q2', 'q3', 'final', 'ot'));
+
+ALTER TABLE super_bowl_quarter_results ADD COLUMN went_to_overtime BOOLEAN DEFAULT false NOT NULL;
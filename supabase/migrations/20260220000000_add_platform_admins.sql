@@ -0,0 +1,76 @@
+-- Platform admins: Fundwell staff who can reach the Super Bowl control panel, which acts across
+-- every contest. Kept in its own table (not on users) because users can update their own row.
+--
+-- Grant a staff member admin access from the SQL editor:
+--
+--    INSERT INTO platform_admins (user_id)
+--    SELECT id FROM auth.users WHERE email = 'staff@fundwell.us';
+
+-- =============================================
+-- PLATFORM ADMINS TABLE
+-- =============================================
+CREATE TABLE platform_admins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE platform_admins ENABLE ROW LEVEL SECURITY;
+
+-- Admins are only granted with the service role; a user can see whether they're an admin
+CREATE POLICY "Users can view their own admin grant"
+  ON platform_admins FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Used by RLS policies and the app to check the current user
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM platform_admins WHERE user_id = auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION is_platform_admin() TO authenticated;
+
+-- =============================================
+-- ADMIN AUDIT LOG
+-- =============================================
+-- Who toggled, forced or resent what. Written by the app's admin actions with the service role.
+CREATE TABLE platform_admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Kept so the entry still says who acted if the account is deleted
+  admin_email TEXT NOT NULL,
+  action TEXT NOT NULL, -- 'toggle_score_checking', 'trigger_score_check', 'resend_quarter_emails'
+  details JSONB DEFAULT '{}' NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_platform_admin_audit_log_created ON platform_admin_audit_log (created_at DESC);
+
+ALTER TABLE platform_admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can view the audit log"
+  ON platform_admin_audit_log FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
+
+-- =============================================
+-- SUPER BOWL CONTROL PANEL
+-- =============================================
+-- Config and processing logs were readable by any signed-in user; limit them to admins
+DROP POLICY IF EXISTS "Authenticated users can view super bowl config" ON super_bowl_config;
+DROP POLICY IF EXISTS "Authenticated users can view processing log" ON super_bowl_processing_log;
+
+CREATE POLICY "Platform admins can view super bowl config"
+  ON super_bowl_config FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
+
+CREATE POLICY "Platform admins can view processing log"
+  ON super_bowl_processing_log FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
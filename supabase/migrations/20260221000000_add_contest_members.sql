@@ -0,0 +1,159 @@
+-- Contest members: co-organizers invited by email, each with a role, so helpers like a booster
+-- club treasurer can mark squares paid without sharing the owner's login.
+--
+--   owner   - the contest's owner_id (never stored here); everything, including members and deletion
+--   manager - settings, payment options, numbers, scores and squares
+--   cashier - marks squares paid and manages claims
+--   viewer  - read-only dashboard
+CREATE TYPE contest_role AS ENUM ('owner', 'manager', 'cashier', 'viewer');
+
+-- =============================================
+-- CONTEST MEMBERS TABLE
+-- =============================================
+CREATE TABLE contest_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  -- Invites are sent by email; user_id is set once the invite is accepted
+  email TEXT NOT NULL CHECK (char_length(email) BETWEEN 3 AND 255),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  role contest_role NOT NULL CHECK (role <> 'owner'),
+
+  invite_token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (contest_id, email),
+  UNIQUE (contest_id, user_id)
+);
+
+CREATE INDEX idx_contest_members_user ON contest_members(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_contest_members_updated_at
+  BEFORE UPDATE ON contest_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- ROLE HELPERS
+-- =============================================
+-- The current user's role on a contest, or NULL. SECURITY DEFINER so policies on contests can
+-- use it without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION get_contest_role(p_contest_id UUID)
+RETURNS contest_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM contests WHERE id = p_contest_id AND owner_id = auth.uid())
+      THEN 'owner'::contest_role
+    ELSE (
+      SELECT role FROM contest_members
+      WHERE contest_id = p_contest_id
+      AND user_id = auth.uid()
+      AND accepted_at IS NOT NULL
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_contest_role(p_contest_id UUID, p_roles contest_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(get_contest_role(p_contest_id) = ANY(p_roles), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contest_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_contest_role(UUID, contest_role[]) TO authenticated;
+
+-- =============================================
+-- RLS: CONTEST MEMBERS
+-- =============================================
+ALTER TABLE contest_members ENABLE ROW LEVEL SECURITY;
+
+-- Invites are accepted through the app with the service role
+CREATE POLICY "Contest owners can manage members"
+  ON contest_members FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['owner']::contest_role[]));
+
+CREATE POLICY "Members can view their own membership"
+  ON contest_members FOR SELECT
+  USING (user_id = auth.uid());
+
+-- =============================================
+-- RLS: CONTESTS
+-- =============================================
+CREATE POLICY "Contest members can view contests"
+  ON contests FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND has_contest_role(id, ARRAY['manager', 'cashier', 'viewer']::contest_role[])
+  );
+
+CREATE POLICY "Contest managers can update contests"
+  ON contests FOR UPDATE
+  USING (deleted_at IS NULL AND has_contest_role(id, ARRAY['manager']::contest_role[]))
+  WITH CHECK (has_contest_role(id, ARRAY['manager']::contest_role[]));
+
+-- Managers can edit a contest but never hand it to someone else or delete it
+CREATE OR REPLACE FUNCTION protect_contest_owner_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() <> OLD.owner_id
+    AND (NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+  THEN
+    RAISE EXCEPTION 'Only the contest owner can transfer or delete a contest';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_contest_owner_fields
+  BEFORE UPDATE ON contests
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_contest_owner_fields();
+
+-- =============================================
+-- RLS: CONTEST DATA
+-- =============================================
+-- Owners keep their existing policies; these add the members who share the work
+CREATE POLICY "Contest managers and cashiers can manage squares"
+  ON squares FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager', 'cashier']::contest_role[]));
+
+CREATE POLICY "Contest managers can manage scores"
+  ON scores FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
+
+CREATE POLICY "Contest managers can manage payment options"
+  ON payment_options FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
+
+-- Written alongside scores and numbers
+CREATE POLICY "Contest managers can manage score winners"
+  ON score_winners FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
+
+CREATE POLICY "Contest managers can manage scoring events"
+  ON scoring_events FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
+
+CREATE POLICY "Contest managers can manage period numbers"
+  ON period_numbers FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
+
+CREATE POLICY "Contest managers can manage live games"
+  ON live_games FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['manager']::contest_role[]));
@@ -0,0 +1,266 @@
+-- Organizations: team workspaces (schools, leagues, booster clubs) that own many contests and
+-- share branding, payment options and a Pro subscription across them.
+--
+--   owner  - the organization's owner_id (never stored in organization_members); everything
+--   admin  - billing, members, shared defaults, and manages every contest in the organization
+--   member - creates their own contests in the organization and can view the others
+CREATE TYPE organization_role AS ENUM ('owner', 'admin', 'member');
+
+-- =============================================
+-- ORGANIZATIONS TABLE
+-- =============================================
+CREATE TABLE organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Branding applied to new contests created in the organization
+  primary_color TEXT DEFAULT '#F97316',
+  secondary_color TEXT DEFAULT '#D97706',
+  org_image_url TEXT,
+  hero_image_url TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_organizations_owner ON organizations(owner_id);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- ORGANIZATION MEMBERS TABLE
+-- =============================================
+CREATE TABLE organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+
+  -- Invites are sent by email; user_id is set once the invite is accepted
+  email TEXT NOT NULL CHECK (char_length(email) BETWEEN 3 AND 255),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  role organization_role NOT NULL CHECK (role <> 'owner'),
+
+  invite_token TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (organization_id, email),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user ON organization_members(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- ORGANIZATION PAYMENT OPTIONS TABLE
+-- =============================================
+-- Copied into payment_options when a contest is created in the organization
+CREATE TABLE organization_payment_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  type payment_option_type NOT NULL,
+  handle_or_link TEXT NOT NULL,
+  display_name TEXT,
+  instructions TEXT,
+  account_last_4_digits TEXT,
+  qr_code_url TEXT,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_organization_payment_options_org ON organization_payment_options(organization_id);
+
+-- =============================================
+-- CONTESTS AND SUBSCRIPTIONS BELONG TO AN ORGANIZATION
+-- =============================================
+-- NULL means the contest lives in its owner's personal workspace
+ALTER TABLE contests
+  ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_contests_organization ON contests(organization_id) WHERE organization_id IS NOT NULL;
+
+-- Set from the Stripe subscription metadata; NULL means a personal subscription
+ALTER TABLE subscriptions
+  ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_subscriptions_organization ON subscriptions(organization_id) WHERE organization_id IS NOT NULL;
+
+-- =============================================
+-- ROLE HELPERS
+-- =============================================
+-- The current user's role in an organization, or NULL
+CREATE OR REPLACE FUNCTION get_organization_role(p_organization_id UUID)
+RETURNS organization_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM organizations WHERE id = p_organization_id AND owner_id = auth.uid())
+      THEN 'owner'::organization_role
+    ELSE (
+      SELECT role FROM organization_members
+      WHERE organization_id = p_organization_id
+      AND user_id = auth.uid()
+      AND accepted_at IS NOT NULL
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_organization_role(p_organization_id UUID, p_roles organization_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(get_organization_role(p_organization_id) = ANY(p_roles), false);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_organization_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_organization_role(UUID, organization_role[]) TO authenticated;
+
+-- Organization owners and admins manage every contest in the organization; members can view them.
+-- A direct contest membership wins over the organization-derived role.
+CREATE OR REPLACE FUNCTION get_contest_role(p_contest_id UUID)
+RETURNS contest_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM contests WHERE id = p_contest_id AND owner_id = auth.uid())
+      THEN 'owner'::contest_role
+    ELSE COALESCE(
+      (
+        SELECT role FROM contest_members
+        WHERE contest_id = p_contest_id
+        AND user_id = auth.uid()
+        AND accepted_at IS NOT NULL
+      ),
+      (
+        SELECT CASE get_organization_role(c.organization_id)
+          WHEN 'owner' THEN 'manager'::contest_role
+          WHEN 'admin' THEN 'manager'::contest_role
+          WHEN 'member' THEN 'viewer'::contest_role
+        END
+        FROM contests c
+        WHERE c.id = p_contest_id
+        AND c.organization_id IS NOT NULL
+      )
+    )
+  END;
+$$;
+
+-- =============================================
+-- RLS: ORGANIZATIONS
+-- =============================================
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organizations"
+  ON organizations FOR SELECT
+  USING (has_organization_role(id, ARRAY['owner', 'admin', 'member']::organization_role[]));
+
+CREATE POLICY "Users can create organizations they own"
+  ON organizations FOR INSERT
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Organization admins can update organizations"
+  ON organizations FOR UPDATE
+  USING (has_organization_role(id, ARRAY['owner', 'admin']::organization_role[]))
+  WITH CHECK (has_organization_role(id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Organization owners can delete organizations"
+  ON organizations FOR DELETE
+  USING (owner_id = auth.uid());
+
+-- Admins can edit the organization but never hand it to someone else
+CREATE OR REPLACE FUNCTION protect_organization_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Organization ownership cannot be transferred';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_organization_owner
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_organization_owner();
+
+-- =============================================
+-- RLS: ORGANIZATION MEMBERS
+-- =============================================
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Invites are accepted through the app with the service role
+CREATE POLICY "Organization admins can manage members"
+  ON organization_members FOR ALL
+  USING (has_organization_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+CREATE POLICY "Members can view their organization's members"
+  ON organization_members FOR SELECT
+  USING (has_organization_role(organization_id, ARRAY['owner', 'admin', 'member']::organization_role[]));
+
+-- =============================================
+-- RLS: ORGANIZATION PAYMENT OPTIONS
+-- =============================================
+ALTER TABLE organization_payment_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization payment options"
+  ON organization_payment_options FOR SELECT
+  USING (has_organization_role(organization_id, ARRAY['owner', 'admin', 'member']::organization_role[]));
+
+CREATE POLICY "Organization admins can manage payment options"
+  ON organization_payment_options FOR ALL
+  USING (has_organization_role(organization_id, ARRAY['owner', 'admin']::organization_role[]));
+
+-- =============================================
+-- RLS: CONTESTS AND SUBSCRIPTIONS
+-- =============================================
+-- Contests can only be placed in organizations the creator belongs to
+CREATE OR REPLACE FUNCTION check_contest_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.organization_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.organization_id IS DISTINCT FROM OLD.organization_id)
+    AND NOT has_organization_role(NEW.organization_id, ARRAY['owner', 'admin', 'member']::organization_role[])
+  THEN
+    RAISE EXCEPTION 'Not a member of this organization';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_contest_organization
+  BEFORE INSERT OR UPDATE ON contests
+  FOR EACH ROW
+  EXECUTE FUNCTION check_contest_organization();
+
+CREATE POLICY "Members can view organization subscriptions"
+  ON subscriptions FOR SELECT
+  USING (
+    organization_id IS NOT NULL
+    AND has_organization_role(organization_id, ARRAY['owner', 'admin', 'member']::organization_role[])
+  );
@@ -0,0 +1,304 @@
+-- Contest audit log: an append-only history of square, number, score and settings changes so
+-- owners can answer "who released my square?". Rows are written by triggers, so every path
+-- (dashboard actions, public claims, edge functions, cron jobs) is covered.
+--
+-- actor_type:
+--   user        - a signed-in owner or co-organizer (actor_id / actor_email set)
+--   participant - an anonymous visitor claiming a square (actor_email is the claimant's)
+--   system      - the service role: live score automation, scheduled jobs, admin scripts
+
+-- =============================================
+-- AUDIT LOG TABLE
+-- =============================================
+CREATE TABLE contest_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('user', 'participant', 'system')),
+
+  action TEXT NOT NULL CHECK (action IN (
+    'square_claimed',
+    'square_released',
+    'payment_status_changed',
+    'square_updated',
+    'numbers_assigned',
+    'score_entered',
+    'score_deleted',
+    'status_changed',
+    'settings_updated'
+  )),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('square', 'contest', 'score', 'period_numbers', 'scoring_event')),
+  entity_id UUID,
+
+  -- Only the fields that changed; NULL for inserts (before) and deletes (after)
+  before JSONB,
+  after JSONB,
+  -- Identifies the entity for display, e.g. {"row_index": 3, "col_index": 7} or {"quarter": "q2"}
+  metadata JSONB DEFAULT '{}'::jsonb NOT NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_contest_audit_log_contest ON contest_audit_log(contest_id, created_at DESC);
+
+-- =============================================
+-- RLS: APPEND-ONLY
+-- =============================================
+ALTER TABLE contest_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see the contest dashboard can read its history
+CREATE POLICY "Contest members can view the audit log"
+  ON contest_audit_log FOR SELECT
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[]));
+
+-- No insert/update/delete policies: rows are only written by the SECURITY DEFINER triggers below
+REVOKE INSERT, UPDATE, DELETE ON contest_audit_log FROM anon, authenticated;
+
+-- =============================================
+-- HELPERS
+-- =============================================
+-- Keys whose values differ between p_old and p_new (all keys when one side is NULL), minus noise
+CREATE OR REPLACE FUNCTION audit_changed_fields(p_old JSONB, p_new JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(key ORDER BY key), ARRAY[]::TEXT[])
+  FROM jsonb_object_keys(COALESCE(p_new, p_old)) AS key
+  WHERE key NOT IN ('id', 'contest_id', 'created_at', 'updated_at')
+  AND (p_old IS NULL OR p_new IS NULL OR p_old -> key IS DISTINCT FROM p_new -> key);
+$$;
+
+CREATE OR REPLACE FUNCTION audit_pick_fields(p_row JSONB, p_keys TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_row IS NULL THEN NULL
+    -- PINs are recorded as changed, never stored
+    ELSE (
+      SELECT COALESCE(
+        jsonb_object_agg(
+          key,
+          CASE WHEN key = 'access_pin' AND value <> 'null'::jsonb THEN '"****"'::jsonb ELSE value END
+        ),
+        '{}'::jsonb
+      )
+      FROM jsonb_each(p_row)
+      WHERE key = ANY(p_keys)
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION write_contest_audit_log(
+  p_contest_id UUID,
+  p_action TEXT,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_old JSONB,
+  p_new JSONB,
+  p_metadata JSONB DEFAULT '{}'::jsonb,
+  p_participant_email TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[] := audit_changed_fields(p_old, p_new);
+  v_role TEXT := COALESCE(current_setting('request.jwt.claims', true)::jsonb ->> 'role', '');
+  v_actor_type TEXT;
+  v_actor_email TEXT;
+BEGIN
+  IF array_length(v_fields, 1) IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    v_actor_type := 'user';
+    v_actor_email := auth.jwt() ->> 'email';
+  ELSIF v_role = 'anon' THEN
+    v_actor_type := 'participant';
+    v_actor_email := p_participant_email;
+  ELSE
+    v_actor_type := 'system';
+  END IF;
+
+  INSERT INTO contest_audit_log (
+    contest_id, actor_id, actor_email, actor_type, action, entity_type, entity_id, before, after, metadata
+  ) VALUES (
+    p_contest_id,
+    auth.uid(),
+    v_actor_email,
+    v_actor_type,
+    p_action,
+    p_entity_type,
+    p_entity_id,
+    audit_pick_fields(p_old, v_fields),
+    audit_pick_fields(p_new, v_fields),
+    p_metadata
+  );
+END;
+$$;
+
+-- =============================================
+-- TRIGGERS
+-- =============================================
+CREATE OR REPLACE FUNCTION audit_squares()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action TEXT;
+BEGIN
+  IF NEW.payment_status = 'available' AND OLD.payment_status <> 'available' THEN
+    v_action := 'square_released';
+  ELSIF OLD.payment_status = 'available' AND NEW.payment_status <> 'available' THEN
+    v_action := 'square_claimed';
+  ELSIF NEW.payment_status <> OLD.payment_status THEN
+    v_action := 'payment_status_changed';
+  ELSE
+    v_action := 'square_updated';
+  END IF;
+
+  PERFORM write_contest_audit_log(
+    NEW.contest_id,
+    v_action,
+    'square',
+    NEW.id,
+    to_jsonb(OLD),
+    to_jsonb(NEW),
+    jsonb_build_object('row_index', NEW.row_index, 'col_index', NEW.col_index),
+    COALESCE(NEW.claimant_email, OLD.claimant_email)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_squares
+  AFTER UPDATE ON squares
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_squares();
+
+CREATE OR REPLACE FUNCTION audit_contests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := to_jsonb(OLD);
+  v_new JSONB := to_jsonb(NEW);
+BEGIN
+  -- One contest update can touch numbers, status and settings; log each separately
+  IF NEW.row_numbers IS DISTINCT FROM OLD.row_numbers OR NEW.col_numbers IS DISTINCT FROM OLD.col_numbers THEN
+    PERFORM write_contest_audit_log(
+      NEW.id, 'numbers_assigned', 'contest', NEW.id,
+      jsonb_build_object('row_numbers', OLD.row_numbers, 'col_numbers', OLD.col_numbers),
+      jsonb_build_object('row_numbers', NEW.row_numbers, 'col_numbers', NEW.col_numbers)
+    );
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM write_contest_audit_log(
+      NEW.id, 'status_changed', 'contest', NEW.id,
+      jsonb_build_object('status', OLD.status),
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+
+  PERFORM write_contest_audit_log(
+    NEW.id, 'settings_updated', 'contest', NEW.id,
+    v_old - ARRAY['row_numbers', 'col_numbers', 'numbers_auto_generated', 'status'],
+    v_new - ARRAY['row_numbers', 'col_numbers', 'numbers_auto_generated', 'status']
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_contests
+  AFTER UPDATE ON contests
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_contests();
+
+CREATE OR REPLACE FUNCTION audit_period_numbers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_contest_audit_log(
+    NEW.contest_id,
+    'numbers_assigned',
+    'period_numbers',
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) - ARRAY['revealed_at', 'quarter'] END,
+    to_jsonb(NEW) - ARRAY['revealed_at', 'quarter'],
+    jsonb_build_object('quarter', NEW.quarter)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_period_numbers
+  AFTER INSERT OR UPDATE ON period_numbers
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_period_numbers();
+
+-- Scores and scoring events share a shape: quarter plus home/away score
+CREATE OR REPLACE FUNCTION audit_scores()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[] := ARRAY['home_score', 'away_score', 'went_to_overtime', 'description'];
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := audit_pick_fields(to_jsonb(OLD), v_fields);
+    v_row := to_jsonb(OLD);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    v_new := audit_pick_fields(to_jsonb(NEW), v_fields);
+    v_row := to_jsonb(NEW);
+  END IF;
+
+  PERFORM write_contest_audit_log(
+    (v_row ->> 'contest_id')::UUID,
+    CASE WHEN TG_OP = 'DELETE' THEN 'score_deleted' ELSE 'score_entered' END,
+    CASE WHEN TG_TABLE_NAME = 'scores' THEN 'score' ELSE 'scoring_event' END,
+    (v_row ->> 'id')::UUID,
+    v_old,
+    v_new,
+    jsonb_build_object('quarter', v_row ->> 'quarter')
+  );
+
+  -- AFTER trigger: the return value is ignored
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_scores
+  AFTER INSERT OR UPDATE OR DELETE ON scores
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_scores();
+
+CREATE TRIGGER audit_scoring_events
+  AFTER INSERT OR UPDATE OR DELETE ON scoring_events
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_scores();
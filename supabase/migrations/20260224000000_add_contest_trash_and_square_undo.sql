@@ -0,0 +1,128 @@
+-- Trash and undo: deleted contests can be restored for 30 days before a scheduled job purges
+-- them, and a released square keeps a snapshot of its claimant so the release can be undone.
+--
+-- The purge runs at /api/cron/purge-deleted-contests and is scheduled like the live scores job
+-- (see 20260218000000_add_live_score_games.sql), once a day is plenty:
+--
+--    SELECT net.http_get(
+--      url := 'https://YOUR_SITE/api/cron/purge-deleted-contests',
+--      headers := '{"Authorization": "Bearer YOUR_CRON_SECRET"}'::jsonb
+--    ) AS request_id;
+--
+-- The 30 day window matches CONTEST_TRASH_RETENTION_DAYS in src/features/contests/constants/trash.ts.
+
+-- =============================================
+-- CONTEST TRASH
+-- =============================================
+-- Deleted contests are hidden by RLS, so the owner lists them through this function
+CREATE OR REPLACE FUNCTION list_deleted_contests()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  organization_id UUID,
+  deleted_at TIMESTAMPTZ,
+  claimed_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.organization_id,
+    c.deleted_at,
+    (SELECT COUNT(*)::INTEGER FROM squares s WHERE s.contest_id = c.id AND s.payment_status <> 'available')
+  FROM contests c
+  WHERE c.owner_id = auth.uid()
+  AND c.deleted_at IS NOT NULL
+  AND c.deleted_at > NOW() - INTERVAL '30 days'
+  ORDER BY c.deleted_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_contest(contest_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only the owner can restore, and only while the contest is still in the trash
+  UPDATE contests
+  SET deleted_at = NULL
+  WHERE id = restore_contest.contest_id
+  AND owner_id = auth.uid()
+  AND deleted_at IS NOT NULL
+  AND deleted_at > NOW() - INTERVAL '30 days';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_deleted_contests() TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_contest(UUID) TO authenticated;
+
+-- =============================================
+-- SQUARE RELEASES
+-- =============================================
+-- A snapshot of the claimant taken when an organizer releases a square
+CREATE TABLE square_releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  square_id UUID REFERENCES squares(id) ON DELETE CASCADE NOT NULL,
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+
+  payment_status payment_status NOT NULL CHECK (payment_status <> 'available'),
+  claimant_first_name TEXT,
+  claimant_last_name TEXT,
+  claimant_email TEXT,
+  claimant_venmo TEXT,
+  claimed_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  referred_by TEXT,
+
+  released_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  released_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  -- Set when the release is undone; a snapshot can only be restored once
+  restored_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_square_releases_contest ON square_releases(contest_id, released_at DESC);
+
+ALTER TABLE square_releases ENABLE ROW LEVEL SECURITY;
+
+-- Same people who can release a square can see and undo the release
+CREATE POLICY "Contest owners, managers and cashiers can manage square releases"
+  ON square_releases FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager', 'cashier']::contest_role[]));
+
+-- =============================================
+-- PURGE JOB
+-- =============================================
+-- Permanently deletes contests that have been in the trash for 30 days (squares, scores and
+-- everything else cascade) and drops release snapshots that are past any undo window.
+-- Returns the number of contests purged.
+CREATE OR REPLACE FUNCTION purge_deleted_contests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purged INTEGER;
+BEGIN
+  DELETE FROM contests
+  WHERE deleted_at IS NOT NULL
+  AND deleted_at <= NOW() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS v_purged = ROW_COUNT;
+
+  DELETE FROM square_releases
+  WHERE released_at <= NOW() - INTERVAL '1 day';
+
+  RETURN v_purged;
+END;
+$$;
+
+-- Only the scheduled job (service role) may purge
+REVOKE EXECUTE ON FUNCTION purge_deleted_contests() FROM PUBLIC, anon, authenticated;
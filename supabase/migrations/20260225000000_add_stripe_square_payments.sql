@@ -0,0 +1,44 @@
+-- Online square payments: owners connect a Stripe Express account, and participants pay for
+-- claimed squares through Stripe Checkout. The charge is made on the platform and transferred
+-- to the owner's account; the checkout.session.completed webhook marks the square paid.
+
+-- =============================================
+-- STRIPE CONNECTED ACCOUNTS
+-- =============================================
+-- One Express account per user, used for every contest they own
+CREATE TABLE stripe_connected_accounts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_account_id TEXT NOT NULL UNIQUE,
+  -- Synced from Stripe; card payments are only offered once charges are enabled
+  charges_enabled BOOLEAN DEFAULT false NOT NULL,
+  details_submitted BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE TRIGGER update_stripe_connected_accounts_updated_at
+  BEFORE UPDATE ON stripe_connected_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE stripe_connected_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Accounts are created and synced by the app with the service role
+CREATE POLICY "Users can view their own connected account"
+  ON stripe_connected_accounts FOR SELECT
+  USING (user_id = auth.uid());
+
+-- =============================================
+-- CONTESTS AND SQUARES
+-- =============================================
+ALTER TABLE contests
+  ADD COLUMN accept_card_payments BOOLEAN DEFAULT false NOT NULL;
+
+-- The Checkout Session that paid for the square, for matching refunds and disputes in Stripe
+ALTER TABLE squares
+  ADD COLUMN stripe_checkout_session_id TEXT,
+  ADD COLUMN stripe_payment_intent_id TEXT;
+
+CREATE UNIQUE INDEX idx_squares_stripe_checkout_session
+  ON squares(stripe_checkout_session_id)
+  WHERE stripe_checkout_session_id IS NOT NULL;
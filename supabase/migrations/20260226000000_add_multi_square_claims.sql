@@ -0,0 +1,107 @@
+-- Cart claims: a participant picks several squares and claims them in one transaction. Either
+-- every square in the cart is claimed or none are, and the per-person limit counts the whole cart.
+--
+-- Errors are raised with a machine-readable message that claimSquares maps to a user-facing one:
+--   contest_not_found   - missing or deleted contest
+--   contest_not_open    - contest is not accepting claims
+--   max_squares_reached - the cart would go over max_squares_per_person (DETAIL: squares left)
+--   square_taken        - at least one square is no longer available
+
+-- =============================================
+-- CLAIM SQUARES
+-- =============================================
+CREATE OR REPLACE FUNCTION claim_squares(
+  p_contest_id UUID,
+  p_square_ids UUID[],
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_square_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_square_ids));
+  v_requested INTEGER := COALESCE(array_length(v_square_ids, 1), 0);
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_existing INTEGER;
+  v_claimed INTEGER;
+BEGIN
+  IF v_requested = 0 THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+
+  -- Lock the contest so concurrent carts from the same email can't both pass the limit check
+  SELECT c.status, c.max_squares_per_person
+  INTO v_status, v_max_squares
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + v_requested > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = p_first_name,
+    claimant_last_name = p_last_name,
+    claimant_email = p_email,
+    claimant_venmo = p_venmo,
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = p_referred_by
+  WHERE s.id = ANY(v_square_ids)
+  AND s.contest_id = p_contest_id
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+
+  -- Someone else got one of the squares first; raising rolls back the rest of the cart
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> v_requested THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_squares(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =============================================
+-- CARD PAYMENTS FOR A CART
+-- =============================================
+-- One Checkout Session now pays for every square in the cart
+DROP INDEX idx_squares_stripe_checkout_session;
+
+CREATE INDEX idx_squares_stripe_checkout_session
+  ON squares(stripe_checkout_session_id)
+  WHERE stripe_checkout_session_id IS NOT NULL;
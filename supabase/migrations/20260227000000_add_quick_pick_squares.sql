@@ -0,0 +1,138 @@
+-- Quick pick: a participant asks for N squares and the server picks them at random from the
+-- squares still available. Picks follow the same rules as cart claims (20260226000000): the
+-- contest must be open, the per-person limit counts every pick, and it's all-or-nothing.
+--
+-- With hide_quick_pick_locations on, the public page and emails keep quick-picked squares'
+-- positions secret until the numbers are drawn, so nobody can trade for a "good" spot early.
+--
+-- Errors (mapped to user-facing messages by the claim actions):
+--   contest_not_found, contest_not_open, max_squares_reached - as in claim_squares
+--   not_enough_squares - fewer squares are left than requested (DETAIL: squares left)
+
+-- =============================================
+-- SETTINGS AND TRACKING
+-- =============================================
+ALTER TABLE contests
+  ADD COLUMN hide_quick_pick_locations BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE squares
+  ADD COLUMN quick_picked BOOLEAN DEFAULT false NOT NULL;
+
+-- Undoing a release puts a quick-picked square back as one
+ALTER TABLE square_releases
+  ADD COLUMN quick_picked BOOLEAN DEFAULT false NOT NULL;
+
+-- =============================================
+-- QUICK PICK SQUARES
+-- =============================================
+CREATE OR REPLACE FUNCTION quick_pick_squares(
+  p_contest_id UUID,
+  p_count INTEGER,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_existing INTEGER;
+  v_square_ids UUID[];
+  v_picked INTEGER;
+BEGIN
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = '0';
+  END IF;
+
+  -- Same lock as claim_squares, so picks and cart claims never race each other
+  SELECT c.status, c.max_squares_per_person
+  INTO v_status, v_max_squares
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + p_count > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  -- Skip squares an organizer is editing right now rather than waiting on them
+  v_square_ids := ARRAY(
+    SELECT s.id
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND s.payment_status = 'available'
+    ORDER BY random()
+    LIMIT p_count
+    FOR UPDATE SKIP LOCKED
+  );
+
+  v_picked := COALESCE(array_length(v_square_ids, 1), 0);
+
+  IF v_picked < p_count THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = v_picked::TEXT;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = p_first_name,
+    claimant_last_name = p_last_name,
+    claimant_email = p_email,
+    claimant_venmo = p_venmo,
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = p_referred_by,
+    quick_picked = true
+  WHERE s.id = ANY(v_square_ids)
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quick_pick_squares(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- A released square goes back to the pool as an ordinary square
+CREATE OR REPLACE FUNCTION reset_quick_picked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.quick_picked := false;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_quick_picked
+  BEFORE UPDATE ON squares
+  FOR EACH ROW
+  WHEN (NEW.payment_status = 'available' AND OLD.quick_picked)
+  EXECUTE FUNCTION reset_quick_picked();
@@ -0,0 +1,111 @@
+-- Payment deadlines: an owner can give participants a set number of hours after claiming to
+-- pay. The expire-pending-claims job emails a reminder shortly before the deadline and then
+-- releases squares that are still pending, so unpaid claims don't hold the grid hostage.
+--
+-- Only open contests are swept; once the grid is locked the owner settles unpaid squares by
+-- hand. A square is never released before its reminder went out, and the reminder always
+-- gives the participant the full reminder window to pay, even if the deadline was shortened
+-- or only just turned on.
+
+-- =============================================
+-- SETTINGS AND TRACKING
+-- =============================================
+-- NULL means pending claims never expire
+ALTER TABLE contests
+  ADD COLUMN payment_deadline_hours INTEGER
+    CHECK (payment_deadline_hours IS NULL OR payment_deadline_hours BETWEEN 1 AND 720);
+
+ALTER TABLE squares
+  ADD COLUMN payment_reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX idx_squares_pending_claims ON squares(contest_id, claimed_at)
+  WHERE payment_status = 'pending';
+
+-- A released square starts over, so its next claimant gets their own reminder
+CREATE OR REPLACE FUNCTION reset_payment_reminder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.payment_reminder_sent_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_payment_reminder
+  BEFORE UPDATE ON squares
+  FOR EACH ROW
+  WHEN (NEW.payment_status = 'available' AND OLD.payment_reminder_sent_at IS NOT NULL)
+  EXECUTE FUNCTION reset_payment_reminder();
+
+-- =============================================
+-- RELEASE EXPIRED CLAIMS
+-- =============================================
+-- Releases every pending square past its deadline, keeping a square_releases snapshot so an
+-- organizer can undo it like a manual release. p_reminder_hours is how long before the
+-- deadline the reminder goes out (capped at half the deadline), and the minimum notice a
+-- participant gets after their reminder. Returns the released squares and their claimants
+-- so the job can tell them.
+CREATE OR REPLACE FUNCTION release_expired_claims(p_reminder_hours NUMERIC)
+RETURNS TABLE (
+  square_id UUID,
+  contest_id UUID,
+  row_index INTEGER,
+  col_index INTEGER,
+  quick_picked BOOLEAN,
+  claimant_email TEXT,
+  claimant_first_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    SELECT s.*
+    FROM squares s
+    JOIN contests c ON c.id = s.contest_id
+    WHERE s.payment_status = 'pending'
+    AND s.payment_reminder_sent_at IS NOT NULL
+    AND c.status = 'open'
+    AND c.deleted_at IS NULL
+    AND c.payment_deadline_hours IS NOT NULL
+    AND NOW() >= GREATEST(
+      s.claimed_at + make_interval(hours => c.payment_deadline_hours),
+      s.payment_reminder_sent_at
+        + LEAST(p_reminder_hours, c.payment_deadline_hours / 2.0) * INTERVAL '1 hour'
+    )
+    -- Leave squares an organizer is editing right now for the next run
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  snapshots AS (
+    INSERT INTO square_releases (
+      square_id, contest_id, payment_status, claimant_first_name, claimant_last_name, claimant_email,
+      claimant_venmo, claimed_at, paid_at, referred_by, quick_picked, released_by
+    )
+    SELECT
+      e.id, e.contest_id, e.payment_status, e.claimant_first_name, e.claimant_last_name, e.claimant_email,
+      e.claimant_venmo, e.claimed_at, e.paid_at, e.referred_by, e.quick_picked, NULL
+    FROM expired e
+  )
+  UPDATE squares s
+  SET
+    payment_status = 'available',
+    claimant_first_name = NULL,
+    claimant_last_name = NULL,
+    claimant_email = NULL,
+    claimant_venmo = NULL,
+    claimed_at = NULL,
+    paid_at = NULL,
+    referred_by = NULL,
+    -- A checkout left open by the old claimant must not pay for the next one's square
+    stripe_checkout_session_id = NULL
+  FROM expired e
+  WHERE s.id = e.id
+  RETURNING e.id, e.contest_id, e.row_index, e.col_index, e.quick_picked, e.claimant_email, e.claimant_first_name;
+END;
+$$;
+
+-- Only the scheduled job (service role) may release claims
+REVOKE EXECUTE ON FUNCTION release_expired_claims(NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,134 @@
+-- Hide claimant contact details from the public. Until now "Anyone can view squares" let any
+-- visitor with the anon key read claimant_email and claimant_venmo for every contest, and read
+-- the squares of PIN-protected contests straight through the API without the PIN.
+--
+-- Now:
+--   * The squares table is readable only by the contest's owner and members (the Participants
+--     page and dashboard).
+--   * Everyone else reads get_contest_squares, which returns the grid without contact fields
+--     and checks the contest's PIN against the visitor's access token (the value of the
+--     contest_access_<slug> cookie set by verifyPin).
+--   * Live grid updates move from postgres_changes, which would need the table to be public,
+--     to a broadcast that only says which square changed; the page re-reads the grid through
+--     get_contest_squares.
+
+-- =============================================
+-- RLS
+-- =============================================
+DROP POLICY IF EXISTS "Anyone can view squares" ON squares;
+
+CREATE POLICY "Contest members can view squares"
+  ON squares FOR SELECT
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[]));
+
+-- =============================================
+-- PUBLIC GRID
+-- =============================================
+-- The grid as a visitor may see it: names (hidden for secret quick picks until the draw) but
+-- no contact fields. Returns nothing when the contest isn't public, or when it has a PIN and
+-- p_access_token isn't the hash of it. Owners and members always get the grid unmasked.
+CREATE OR REPLACE FUNCTION get_contest_squares(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER,
+  share_index INTEGER,
+  payment_status payment_status,
+  claimant_first_name TEXT,
+  claimant_last_name TEXT,
+  referred_by TEXT,
+  quick_picked BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest contests%ROWTYPE;
+  v_is_member BOOLEAN;
+  v_mask_quick_picks BOOLEAN;
+BEGIN
+  SELECT * INTO v_contest
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_is_member := has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[]);
+
+  IF NOT v_is_member THEN
+    -- Same visibility as the "Users can view public contests" policy
+    IF NOT v_contest.is_public OR v_contest.status = 'draft' THEN
+      RETURN;
+    END IF;
+
+    -- The access cookie holds the SHA-256 of the PIN (see verifyPin)
+    IF v_contest.access_pin IS NOT NULL
+      AND p_access_token IS DISTINCT FROM encode(sha256(convert_to(v_contest.access_pin, 'UTF8')), 'hex') THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  v_mask_quick_picks := NOT v_is_member
+    AND v_contest.hide_quick_pick_locations
+    AND v_contest.row_numbers IS NULL;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.row_index,
+    s.col_index,
+    s.share_index,
+    s.payment_status,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_first_name END,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_last_name END,
+    s.referred_by,
+    s.quick_picked
+  FROM squares s
+  WHERE s.contest_id = p_contest_id
+  ORDER BY s.row_index, s.col_index, s.share_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_contest_squares(UUID, TEXT) TO anon, authenticated;
+
+-- =============================================
+-- LIVE UPDATES
+-- =============================================
+ALTER PUBLICATION supabase_realtime DROP TABLE squares;
+
+-- Tells subscribers of the public squares:<contest_id> channel which square changed, without
+-- any of its data
+CREATE OR REPLACE FUNCTION broadcast_square_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_square squares%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_square := OLD;
+  ELSE
+    v_square := NEW;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('id', v_square.id),
+    'square_changed',
+    'squares:' || v_square.contest_id::TEXT,
+    false
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER broadcast_square_change
+  AFTER INSERT OR UPDATE OR DELETE ON squares
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_square_change();
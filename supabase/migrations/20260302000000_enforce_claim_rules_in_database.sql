@@ -0,0 +1,347 @@
+-- Every claim rule now lives in the database. The "Anyone can claim available squares" policy
+-- let a visitor flip a square to pending straight through the API, skipping the contest status,
+-- the per-person limit and referral lookup. Claims now only go through claim_squares and
+-- quick_pick_squares, which check, in one transaction:
+--   * the contest is open, and the visitor may see it (public, and the PIN's access token when
+--     it has one; owners and members always may)
+--   * the claimant's name, email and payment handle (same limits as claimSquareSchema)
+--   * the per-person limit, counted while the contest row is locked
+--   * the ?ref= player slug, resolved against the contest's players
+--
+-- New errors (see 20260226000000 and 20260227000000 for the rest):
+--   contest_access_denied - the contest is private or the PIN hasn't been entered
+--   invalid_claimant      - a name, email or handle is missing or too long (DETAIL: the field)
+
+-- =============================================
+-- RLS
+-- =============================================
+DROP POLICY IF EXISTS "Anyone can claim available squares" ON squares;
+
+-- =============================================
+-- HELPERS
+-- =============================================
+-- Whether the current visitor may see a contest's grid. p_access_token is the value of their
+-- contest_access_<slug> cookie: the SHA-256 of the PIN (see verifyPin).
+CREATE OR REPLACE FUNCTION has_contest_access(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[])
+    OR EXISTS (
+      SELECT 1
+      FROM contests c
+      WHERE c.id = p_contest_id
+      AND c.deleted_at IS NULL
+      -- Same visibility as the "Users can view public contests" policy
+      AND c.is_public
+      AND c.status <> 'draft'
+      AND (
+        c.access_pin IS NULL
+        OR p_access_token = encode(sha256(convert_to(c.access_pin, 'UTF8')), 'hex')
+      )
+    );
+$$;
+
+-- Raises invalid_claimant unless the claimant's details fit what the claim form allows
+CREATE OR REPLACE FUNCTION check_claimant(p_first_name TEXT, p_last_name TEXT, p_email TEXT, p_venmo TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF COALESCE(length(btrim(p_first_name)), 0) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'invalid_claimant' USING DETAIL = 'first_name';
+  END IF;
+
+  IF COALESCE(length(btrim(p_last_name)), 0) NOT BETWEEN 1 AND 50 THEN
+    RAISE EXCEPTION 'invalid_claimant' USING DETAIL = 'last_name';
+  END IF;
+
+  IF p_email IS NULL OR length(p_email) > 254 OR p_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'invalid_claimant' USING DETAIL = 'email';
+  END IF;
+
+  IF length(p_venmo) > 32 THEN
+    RAISE EXCEPTION 'invalid_claimant' USING DETAIL = 'venmo';
+  END IF;
+END;
+$$;
+
+-- The name of the player a ?ref= slug points at, or NULL when it doesn't match one
+CREATE OR REPLACE FUNCTION resolve_referred_by(p_players JSONB, p_referred_by_slug TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT player ->> 'name'
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p_players) = 'array' THEN p_players ELSE '[]'::jsonb END
+  ) AS player
+  WHERE lower(player ->> 'slug') = lower(p_referred_by_slug)
+  LIMIT 1;
+$$;
+
+-- =============================================
+-- CLAIM SQUARES
+-- =============================================
+-- Replaces the version from 20260226000000, which took the referrer's name from the caller
+DROP FUNCTION IF EXISTS claim_squares(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION claim_squares(
+  p_contest_id UUID,
+  p_square_ids UUID[],
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by_slug TEXT DEFAULT NULL,
+  p_access_token TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_square_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_square_ids));
+  v_requested INTEGER := COALESCE(array_length(v_square_ids, 1), 0);
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_players JSONB;
+  v_existing INTEGER;
+  v_claimed INTEGER;
+BEGIN
+  PERFORM check_claimant(p_first_name, p_last_name, p_email, p_venmo);
+
+  IF v_requested = 0 THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+
+  -- Lock the contest so concurrent carts from the same email can't both pass the limit check
+  SELECT c.status, c.max_squares_per_person, c.players
+  INTO v_status, v_max_squares, v_players
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RAISE EXCEPTION 'contest_access_denied';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + v_requested > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = btrim(p_first_name),
+    claimant_last_name = btrim(p_last_name),
+    claimant_email = p_email,
+    claimant_venmo = NULLIF(btrim(p_venmo), ''),
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = resolve_referred_by(v_players, p_referred_by_slug)
+  WHERE s.id = ANY(v_square_ids)
+  AND s.contest_id = p_contest_id
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+
+  -- Someone else got one of the squares first; raising rolls back the rest of the cart
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> v_requested THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_squares(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =============================================
+-- QUICK PICK SQUARES
+-- =============================================
+-- Replaces the version from 20260227000000 with the same checks as claim_squares
+DROP FUNCTION IF EXISTS quick_pick_squares(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION quick_pick_squares(
+  p_contest_id UUID,
+  p_count INTEGER,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by_slug TEXT DEFAULT NULL,
+  p_access_token TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_players JSONB;
+  v_existing INTEGER;
+  v_square_ids UUID[];
+  v_picked INTEGER;
+BEGIN
+  PERFORM check_claimant(p_first_name, p_last_name, p_email, p_venmo);
+
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = '0';
+  END IF;
+
+  -- Same lock as claim_squares, so picks and cart claims never race each other
+  SELECT c.status, c.max_squares_per_person, c.players
+  INTO v_status, v_max_squares, v_players
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RAISE EXCEPTION 'contest_access_denied';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + p_count > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  -- Skip squares an organizer is editing right now rather than waiting on them
+  v_square_ids := ARRAY(
+    SELECT s.id
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND s.payment_status = 'available'
+    ORDER BY random()
+    LIMIT p_count
+    FOR UPDATE SKIP LOCKED
+  );
+
+  v_picked := COALESCE(array_length(v_square_ids, 1), 0);
+
+  IF v_picked < p_count THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = v_picked::TEXT;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = btrim(p_first_name),
+    claimant_last_name = btrim(p_last_name),
+    claimant_email = p_email,
+    claimant_venmo = NULLIF(btrim(p_venmo), ''),
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = resolve_referred_by(v_players, p_referred_by_slug),
+    quick_picked = true
+  WHERE s.id = ANY(v_square_ids)
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quick_pick_squares(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =============================================
+-- PUBLIC GRID
+-- =============================================
+-- Same result as the version from 20260301000000, with the access check shared with claims
+CREATE OR REPLACE FUNCTION get_contest_squares(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER,
+  share_index INTEGER,
+  payment_status payment_status,
+  claimant_first_name TEXT,
+  claimant_last_name TEXT,
+  referred_by TEXT,
+  quick_picked BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mask_quick_picks BOOLEAN;
+BEGIN
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    NOT has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[])
+    AND c.hide_quick_pick_locations
+    AND c.row_numbers IS NULL
+  INTO v_mask_quick_picks
+  FROM contests c
+  WHERE c.id = p_contest_id;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.row_index,
+    s.col_index,
+    s.share_index,
+    s.payment_status,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_first_name END,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_last_name END,
+    s.referred_by,
+    s.quick_picked
+  FROM squares s
+  WHERE s.contest_id = p_contest_id
+  ORDER BY s.row_index, s.col_index, s.share_index;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Shared rate limiting. The app's limiter kept its counters in process memory, so on a
+-- serverless deployment every instance had its own budget and a limit like "10 claims a
+-- minute per email" held only per instance. The counters now live here, where every
+-- instance sees the same ones.
+--
+-- Limits are sliding windows: a request is allowed when fewer than p_max_requests were
+-- allowed for the same key in the last p_window_ms. Keys are built by the app, e.g.
+-- 'claim:email:<address>' or 'claim:ip:<address>'.
+
+-- =============================================
+-- HITS
+-- =============================================
+CREATE TABLE rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_rate_limit_hits_key ON rate_limit_hits(key, hit_at);
+CREATE INDEX idx_rate_limit_hits_hit_at ON rate_limit_hits(hit_at);
+
+-- Only the service role reads and writes hits (no policies)
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- CHECK RATE LIMIT
+-- =============================================
+-- Records a hit for p_key if it is under its limit. Hits for the same key are serialized by
+-- an advisory lock so concurrent requests can't all see the last free slot. reset_at is when
+-- the oldest hit in the window falls out of it, i.e. when the next request will be allowed.
+CREATE OR REPLACE FUNCTION check_rate_limit(p_key TEXT, p_max_requests INTEGER, p_window_ms INTEGER)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining INTEGER,
+  reset_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window INTERVAL := p_window_ms * INTERVAL '1 millisecond';
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+BEGIN
+  IF p_key IS NULL OR length(p_key) = 0 THEN
+    RAISE EXCEPTION 'invalid_rate_limit_key';
+  END IF;
+
+  -- Hits older than a day are swept below, so no window may be longer
+  IF p_max_requests <= 0 OR p_window_ms <= 0 OR p_window_ms > 86400000 THEN
+    RAISE EXCEPTION 'invalid_rate_limit_options';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('rate_limit:' || p_key, 0));
+
+  DELETE FROM rate_limit_hits h
+  WHERE h.key = p_key
+  AND h.hit_at <= NOW() - v_window;
+
+  SELECT COUNT(*), MIN(h.hit_at) INTO v_count, v_oldest
+  FROM rate_limit_hits h
+  WHERE h.key = p_key;
+
+  IF v_count >= p_max_requests THEN
+    RETURN QUERY SELECT false, 0, v_oldest + v_window;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_hits (key) VALUES (p_key);
+
+  -- Keys that stop being hit are never pruned above; clear them out now and then
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_hits h
+    WHERE h.hit_at < NOW() - INTERVAL '1 day';
+  END IF;
+
+  RETURN QUERY SELECT true, p_max_requests - v_count - 1, COALESCE(v_oldest, NOW()) + v_window;
+END;
+$$;
+
+-- Only the server (service role) checks limits; clients must not be able to spend or probe
+-- someone else's budget
+REVOKE EXECUTE ON FUNCTION check_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,309 @@
+-- PIN brute-force protection. Contest PINs are at most 6 characters and verifyPin had no
+-- attempt limit, and worse, contests.access_pin was readable by anyone through the "Users can
+-- view public contests" policy, and get_contest_squares would confirm any guess hashed the
+-- same way as the cookie.
+--
+-- Now:
+--   * The PIN lives in contest_access_pins, readable by contest members only.
+--   * The contest_access_<slug> cookie holds a random access token instead of a hash of the
+--     PIN. Changing the PIN (including rotating it) issues a new token, so everyone who
+--     entered the old PIN has to enter the new one.
+--   * A PIN can expire; after that nobody can enter it and existing cookies stop working.
+--   * PINs are checked by verify_contest_pin, which records every attempt and makes a client
+--     wait longer after each wrong guess. A flood of wrong guesses from many clients locks the
+--     PIN for everyone for a while. Owners and managers can see recent failed attempts.
+--
+-- Existing access cookies hold the old hash, so visitors enter the PIN once more.
+
+-- =============================================
+-- PINS
+-- =============================================
+-- 256 random bits, hex encoded
+CREATE OR REPLACE FUNCTION generate_contest_access_token()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+$$;
+
+-- One row per PIN-protected contest; no row means anyone who can see the contest gets in
+CREATE TABLE contest_access_pins (
+  contest_id UUID PRIMARY KEY REFERENCES contests(id) ON DELETE CASCADE,
+  access_pin VARCHAR(6) NOT NULL CHECK (access_pin ~ '^[A-Z0-9]{1,6}$'),
+  -- Value of the contest_access_<slug> cookie; replaced whenever the PIN changes
+  access_token TEXT NOT NULL DEFAULT generate_contest_access_token(),
+  -- NULL means the PIN never expires
+  expires_at TIMESTAMPTZ,
+  rotated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO contest_access_pins (contest_id, access_pin)
+SELECT id, UPPER(access_pin)
+FROM contests
+WHERE access_pin IS NOT NULL;
+
+ALTER TABLE contests DROP COLUMN access_pin;
+
+-- Tokens are never chosen by the client: a new PIN always gets a new one, and an update that
+-- leaves the PIN alone keeps the old one
+CREATE OR REPLACE FUNCTION set_contest_access_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.access_pin IS DISTINCT FROM OLD.access_pin THEN
+    NEW.access_token := generate_contest_access_token();
+    NEW.rotated_at := NOW();
+  ELSE
+    NEW.access_token := OLD.access_token;
+    NEW.rotated_at := OLD.rotated_at;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_contest_access_token
+  BEFORE INSERT OR UPDATE ON contest_access_pins
+  FOR EACH ROW
+  EXECUTE FUNCTION set_contest_access_token();
+
+ALTER TABLE contest_access_pins ENABLE ROW LEVEL SECURITY;
+
+-- Every member can see the PIN to share it, as they could on the contest row
+CREATE POLICY "Contest members can view the access PIN"
+  ON contest_access_pins FOR SELECT
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[]));
+
+CREATE POLICY "Owners and managers can manage the access PIN"
+  ON contest_access_pins FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]))
+  WITH CHECK (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]));
+
+-- =============================================
+-- ATTEMPTS
+-- =============================================
+-- client_ip is the address verifyPin saw (NULL when there was no proxy header, e.g. locally)
+CREATE TABLE contest_pin_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+  client_ip TEXT,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_contest_pin_attempts_contest ON contest_pin_attempts(contest_id, attempted_at DESC);
+CREATE INDEX idx_contest_pin_attempts_client ON contest_pin_attempts(contest_id, client_ip, attempted_at DESC);
+
+ALTER TABLE contest_pin_attempts ENABLE ROW LEVEL SECURITY;
+
+-- No insert/update/delete policies: rows are only written by verify_contest_pin
+CREATE POLICY "Owners and managers can view PIN attempts"
+  ON contest_pin_attempts FOR SELECT
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]));
+
+-- =============================================
+-- ACCESS CHECK
+-- =============================================
+-- Whether the current visitor may see a contest's grid. p_access_token is the value of their
+-- contest_access_<slug> cookie (see verifyPin).
+CREATE OR REPLACE FUNCTION has_contest_access(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[])
+    OR EXISTS (
+      SELECT 1
+      FROM contests c
+      LEFT JOIN contest_access_pins p ON p.contest_id = c.id
+      WHERE c.id = p_contest_id
+      AND c.deleted_at IS NULL
+      -- Same visibility as the "Users can view public contests" policy
+      AND c.is_public
+      AND c.status <> 'draft'
+      AND (
+        p.contest_id IS NULL
+        OR (
+          p_access_token = p.access_token
+          AND (p.expires_at IS NULL OR p.expires_at > NOW())
+        )
+      )
+    );
+$$;
+
+-- =============================================
+-- VERIFY PIN
+-- =============================================
+-- Checks a PIN guess from p_client_ip and records it. result is one of:
+--   ok        - correct; access_token is the cookie value
+--   incorrect - wrong; retry_at is set when the client now has to wait before guessing again
+--   locked    - too many wrong guesses; nothing was checked, try again at retry_at
+--   expired   - the PIN has expired; nothing was checked
+--   not_found - no such public contest, or it has no PIN
+--
+-- A client gets 5 free guesses, then waits 30 seconds after the next wrong one, doubling with
+-- each wrong guess up to an hour. A correct guess, or a day without one, starts it over. When
+-- 100 wrong guesses from any clients land within 15 minutes, the PIN is locked for everyone
+-- until 15 minutes after the last one.
+CREATE OR REPLACE FUNCTION verify_contest_pin(p_slug TEXT, p_pin TEXT, p_client_ip TEXT DEFAULT NULL)
+RETURNS TABLE (
+  result TEXT,
+  access_token TEXT,
+  retry_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest_id UUID;
+  v_pin contest_access_pins%ROWTYPE;
+  v_contest_failures INTEGER;
+  v_last_contest_failure TIMESTAMPTZ;
+  v_last_success TIMESTAMPTZ;
+  v_failures INTEGER;
+  v_last_failure TIMESTAMPTZ;
+  v_retry_at TIMESTAMPTZ;
+  v_correct BOOLEAN;
+BEGIN
+  SELECT c.id INTO v_contest_id
+  FROM contests c
+  WHERE c.slug = p_slug
+  AND c.deleted_at IS NULL
+  AND c.is_public
+  AND c.status <> 'draft';
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Serializes guesses on one contest so parallel requests can't all slip under the limits
+  SELECT * INTO v_pin
+  FROM contest_access_pins p
+  WHERE p.contest_id = v_contest_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_pin.expires_at IS NOT NULL AND v_pin.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Contest-wide lockout
+  SELECT COUNT(*), MAX(a.attempted_at) INTO v_contest_failures, v_last_contest_failure
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND NOT a.succeeded
+  AND a.attempted_at > NOW() - INTERVAL '15 minutes';
+
+  IF v_contest_failures >= 100 THEN
+    RETURN QUERY SELECT 'locked'::TEXT, NULL::TEXT, v_last_contest_failure + INTERVAL '15 minutes';
+    RETURN;
+  END IF;
+
+  -- Per-client backoff, counting wrong guesses since the client's last correct one
+  SELECT MAX(a.attempted_at) INTO v_last_success
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND a.client_ip IS NOT DISTINCT FROM p_client_ip
+  AND a.succeeded;
+
+  SELECT COUNT(*), MAX(a.attempted_at) INTO v_failures, v_last_failure
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND a.client_ip IS NOT DISTINCT FROM p_client_ip
+  AND NOT a.succeeded
+  AND a.attempted_at > GREATEST(NOW() - INTERVAL '1 day', COALESCE(v_last_success, '-infinity'));
+
+  IF v_failures >= 5 THEN
+    v_retry_at := v_last_failure
+      + LEAST(INTERVAL '30 seconds' * power(2, LEAST(v_failures - 5, 7)), INTERVAL '1 hour');
+
+    IF NOW() < v_retry_at THEN
+      RETURN QUERY SELECT 'locked'::TEXT, NULL::TEXT, v_retry_at;
+      RETURN;
+    END IF;
+  END IF;
+
+  v_correct := UPPER(btrim(COALESCE(p_pin, ''))) = v_pin.access_pin;
+
+  INSERT INTO contest_pin_attempts (contest_id, client_ip, succeeded)
+  VALUES (v_contest_id, p_client_ip, v_correct);
+
+  -- Attempts are only needed for a day of backoff and the owner's recent list
+  IF random() < 0.01 THEN
+    DELETE FROM contest_pin_attempts a
+    WHERE a.attempted_at < NOW() - INTERVAL '30 days';
+  END IF;
+
+  IF v_correct THEN
+    RETURN QUERY SELECT 'ok'::TEXT, v_pin.access_token, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  v_failures := v_failures + 1;
+  IF v_failures >= 5 THEN
+    v_retry_at := NOW() + LEAST(INTERVAL '30 seconds' * power(2, LEAST(v_failures - 5, 7)), INTERVAL '1 hour');
+  ELSE
+    v_retry_at := NULL;
+  END IF;
+
+  RETURN QUERY SELECT 'incorrect'::TEXT, NULL::TEXT, v_retry_at;
+END;
+$$;
+
+-- Only the server (service role) verifies PINs, so p_client_ip can be trusted
+REVOKE EXECUTE ON FUNCTION verify_contest_pin(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- AUDIT
+-- =============================================
+-- PIN changes show up as settings changes, with the PIN masked like it was on the contest row
+CREATE OR REPLACE FUNCTION audit_contest_access_pins()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_contest_id := OLD.contest_id;
+  ELSE
+    v_contest_id := NEW.contest_id;
+  END IF;
+
+  -- The contest itself is being deleted
+  IF NOT EXISTS (SELECT 1 FROM contests c WHERE c.id = v_contest_id) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_contest_audit_log(
+    v_contest_id, 'settings_updated', 'contest', v_contest_id,
+    CASE WHEN TG_OP = 'INSERT' THEN jsonb_build_object('access_pin', NULL, 'access_pin_expires_at', NULL)
+      ELSE jsonb_build_object('access_pin', OLD.access_pin, 'access_pin_expires_at', OLD.expires_at) END,
+    CASE WHEN TG_OP = 'DELETE' THEN jsonb_build_object('access_pin', NULL, 'access_pin_expires_at', NULL)
+      ELSE jsonb_build_object('access_pin', NEW.access_pin, 'access_pin_expires_at', NEW.expires_at) END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_contest_access_pins
+  AFTER INSERT OR UPDATE OR DELETE ON contest_access_pins
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_contest_access_pins();
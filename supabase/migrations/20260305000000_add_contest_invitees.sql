@@ -0,0 +1,121 @@
+-- Invite-only contests. A PIN gets forwarded around group chats; an owner can now restrict a
+-- contest to a list of email addresses instead. Each invitee is emailed a signed, expiring
+-- link (see /contest/<slug>/access) that sets their contest_access_<slug> cookie to their own
+-- access token, so removing someone from the list locks them out again.
+--
+-- Invite links work on any contest, with or without a PIN. When a contest is invite-only:
+--   * only members and invitees can see the grid; the PIN alone is no longer enough
+--   * squares can only be claimed with an email on the list (owners and organizers can still
+--     assign squares to anyone)
+--
+-- New errors (see 20260302000000 for the rest):
+--   email_not_invited - the contest is invite-only and the claimant's email isn't on the list
+
+-- =============================================
+-- SETTINGS
+-- =============================================
+ALTER TABLE contests
+  ADD COLUMN invite_only BOOLEAN NOT NULL DEFAULT false;
+
+-- =============================================
+-- INVITEES
+-- =============================================
+-- email is stored normalized (see sanitizeEmail), as claims are
+CREATE TABLE contest_invitees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  -- Value of the contest_access_<slug> cookie set by the invitee's link
+  access_token TEXT NOT NULL DEFAULT generate_contest_access_token(),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- When the access link was last emailed; NULL until the owner sends invites
+  last_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (contest_id, email)
+);
+
+CREATE INDEX idx_contest_invitees_access_token ON contest_invitees(contest_id, access_token);
+
+ALTER TABLE contest_invitees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and managers can manage invitees"
+  ON contest_invitees FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]))
+  WITH CHECK (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]));
+
+-- =============================================
+-- ACCESS CHECK
+-- =============================================
+-- Whether the current visitor may see a contest's grid. p_access_token is the value of their
+-- contest_access_<slug> cookie: an invitee's token (see the access link route) or the PIN's
+-- (see verifyPin).
+CREATE OR REPLACE FUNCTION has_contest_access(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[])
+    OR EXISTS (
+      SELECT 1
+      FROM contests c
+      LEFT JOIN contest_access_pins p ON p.contest_id = c.id
+      WHERE c.id = p_contest_id
+      AND c.deleted_at IS NULL
+      -- Same visibility as the "Users can view public contests" policy
+      AND c.is_public
+      AND c.status <> 'draft'
+      AND (
+        EXISTS (
+          SELECT 1
+          FROM contest_invitees i
+          WHERE i.contest_id = c.id
+          AND i.access_token = p_access_token
+        )
+        OR (
+          NOT c.invite_only
+          AND (
+            p.contest_id IS NULL
+            OR (
+              p_access_token = p.access_token
+              AND (p.expires_at IS NULL OR p.expires_at > NOW())
+            )
+          )
+        )
+      )
+    );
+$$;
+
+-- =============================================
+-- CLAIMS
+-- =============================================
+-- Runs for every claim (claim_squares, quick_pick_squares and anything added later). Owners,
+-- managers and cashiers assigning squares by hand are exempt.
+CREATE OR REPLACE FUNCTION check_invited_claimant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM contests c WHERE c.id = NEW.contest_id AND c.invite_only)
+    AND NOT has_contest_role(NEW.contest_id, ARRAY['owner', 'manager', 'cashier']::contest_role[])
+    AND NOT EXISTS (
+      SELECT 1
+      FROM contest_invitees i
+      WHERE i.contest_id = NEW.contest_id
+      AND i.email = lower(NEW.claimant_email)
+    ) THEN
+    RAISE EXCEPTION 'email_not_invited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_invited_claimant
+  BEFORE UPDATE ON squares
+  FOR EACH ROW
+  WHEN (OLD.payment_status = 'available' AND NEW.payment_status <> 'available')
+  EXECUTE FUNCTION check_invited_claimant();
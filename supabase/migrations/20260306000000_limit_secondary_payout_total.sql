@@ -0,0 +1,9 @@
+-- Secondary payouts are taken from the winning square's share of a period's prize, so together
+-- they may take at most half of it (MAX_SECONDARY_PAYOUT_PERCENT). Each column was only limited
+-- to 0-100 on its own, which let the winner's share go negative.
+ALTER TABLE contests ADD CONSTRAINT check_secondary_payout_total
+CHECK (
+  secondary_reverse_percent +
+  secondary_touching_percent +
+  secondary_minus_one_percent <= 50
+);
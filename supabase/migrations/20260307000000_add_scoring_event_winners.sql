@@ -0,0 +1,56 @@
+-- Rollover policies for score-change contests. A scoring play won by an unclaimed square was
+-- always kept by the fundraiser; it now follows the contest's rollover_policy like period prizes:
+--   next_period:     the unclaimed share is added to the next scoring play's payout
+--   split_paid:      it is split evenly among every paid square
+--   nearest_claimed: it goes to the closest claimed square on the grid
+--
+-- Like score_winners, every square paid for a play is recorded with its share of the play's
+-- payout, so a cell sold in halves pays each half (or rolls over an unclaimed half) on its own.
+-- scoring_events.winning_square_id keeps pointing at the winning cell.
+
+-- =============================================
+-- SCORING EVENT WINNERS TABLE
+-- =============================================
+CREATE TABLE scoring_event_winners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scoring_event_id UUID REFERENCES scoring_events(id) ON DELETE CASCADE NOT NULL,
+  contest_id UUID REFERENCES contests(id) ON DELETE CASCADE NOT NULL,
+  square_id UUID REFERENCES squares(id) ON DELETE CASCADE NOT NULL,
+
+  share_percent NUMERIC(6, 3) NOT NULL,
+  -- Set when the share was rolled over from an unclaimed square
+  rollover_from_square_id UUID REFERENCES squares(id) ON DELETE CASCADE,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE NULLS NOT DISTINCT (scoring_event_id, square_id, rollover_from_square_id)
+);
+
+CREATE INDEX idx_scoring_event_winners_contest ON scoring_event_winners(contest_id);
+CREATE INDEX idx_scoring_event_winners_event ON scoring_event_winners(scoring_event_id);
+
+ALTER TABLE scoring_event_winners ENABLE ROW LEVEL SECURITY;
+
+-- Public, like scoring events
+CREATE POLICY "Anyone can view scoring event winners"
+  ON scoring_event_winners FOR SELECT
+  USING (true);
+
+-- Written alongside scoring events
+CREATE POLICY "Owners and managers can manage scoring event winners"
+  ON scoring_event_winners FOR ALL
+  USING (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]))
+  WITH CHECK (has_contest_role(contest_id, ARRAY['owner', 'manager']::contest_role[]));
+
+-- =============================================
+-- BACKFILL
+-- =============================================
+-- Plays entered before this were paid to the squares in the winning cell, split evenly
+INSERT INTO scoring_event_winners (scoring_event_id, contest_id, square_id, share_percent)
+SELECT e.id, e.contest_id, s.id, ROUND(100.0 / COUNT(*) OVER (PARTITION BY e.id), 3)
+FROM scoring_events e
+JOIN squares w ON w.id = e.winning_square_id
+JOIN squares s
+  ON s.contest_id = w.contest_id
+  AND s.row_index = w.row_index
+  AND s.col_index = w.col_index;
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Super Bowl score checks move into the app - MANUAL SETUP REQUIRED
+-- ============================================================================
+--
+-- The check-super-bowl-scores edge function kept its own copies of the payout, secondary,
+-- rollover, grid layout and overtime logic. It is retired: the check now runs in the app at
+-- /api/cron/super-bowl-scores, through the same score providers and recordScores as live games.
+--
+-- 1. Remove the old cron job and edge function:
+--
+--    SELECT cron.unschedule('check-super-bowl-scores');
+--    supabase functions delete check-super-bowl-scores
+--
+-- 2. Schedule the new job every minute, with the app's CRON_SECRET as the token:
+--
+--    SELECT cron.schedule('check-super-bowl-scores', '* * * * *', $$
+--      SELECT net.http_get(
+--        url := 'https://YOUR_SITE/api/cron/super-bowl-scores',
+--        headers := '{"Authorization": "Bearer YOUR_CRON_SECRET"}'::jsonb
+--      ) AS request_id;
+--    $$);
+--
+-- The job still exits right away while super_bowl_config.enabled is false or the game has
+-- finished. To play a game through locally, run the app with SCORE_PROVIDER=fake and put the
+-- game under the "super-bowl" event id in fake-live-scores.json.
+--
+-- ============================================================================
+-- This migration is intentionally empty (documentation only).
+-- ============================================================================
@@ -0,0 +1,94 @@
+-- Narrow what co-organizers can change directly through the API:
+--   squares  - managers and cashiers update claims and payments; they can no longer insert or
+--              delete squares, and nobody can move a square to another cell or contest
+--   contests - managers run the contest but can't change the price, the pot or what each
+--              period pays; like owner_id and deleted_at, those stay with the owner
+--
+-- updateContest checks the same fields (CONTEST_SETTINGS_FIELDS in contest-roles.ts).
+
+-- =============================================
+-- SQUARES
+-- =============================================
+DROP POLICY IF EXISTS "Contest managers and cashiers can manage squares" ON squares;
+
+CREATE POLICY "Contest managers and cashiers can update squares"
+  ON squares FOR UPDATE
+  USING (has_contest_role(contest_id, ARRAY['manager', 'cashier']::contest_role[]))
+  WITH CHECK (has_contest_role(contest_id, ARRAY['manager', 'cashier']::contest_role[]));
+
+-- A square's place on the grid is fixed when the contest is created
+CREATE OR REPLACE FUNCTION protect_square_layout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.contest_id IS DISTINCT FROM OLD.contest_id
+    OR NEW.row_index IS DISTINCT FROM OLD.row_index
+    OR NEW.col_index IS DISTINCT FROM OLD.col_index
+    OR NEW.share_index IS DISTINCT FROM OLD.share_index
+  THEN
+    RAISE EXCEPTION 'A square cannot be moved to another cell or contest';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_square_layout
+  BEFORE UPDATE ON squares
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_square_layout();
+
+-- =============================================
+-- CONTESTS
+-- =============================================
+-- Only the owner can transfer or delete a contest, move it between workspaces, or change its
+-- price, pot and payouts. The service role (auth.uid() IS NULL) is not limited.
+CREATE OR REPLACE FUNCTION protect_contest_owner_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    RAISE EXCEPTION 'Only the contest owner can transfer or delete a contest';
+  END IF;
+
+  IF (
+    NEW.organization_id, NEW.slug, NEW.code, NEW.sport_type, NEW.grid_layout
+  ) IS DISTINCT FROM (
+    OLD.organization_id, OLD.slug, OLD.code, OLD.sport_type, OLD.grid_layout
+  ) THEN
+    RAISE EXCEPTION 'Only the contest owner can change how a contest is set up';
+  END IF;
+
+  IF (
+    NEW.square_price, NEW.prize_type, NEW.score_change_payout, NEW.rollover_policy,
+    NEW.pot_basis, NEW.organization_cut_percent, NEW.overtime_rule,
+    NEW.payout_q1_percent, NEW.payout_q2_percent, NEW.payout_q3_percent,
+    NEW.payout_final_percent, NEW.payout_ot_percent,
+    NEW.payout_game1_percent, NEW.payout_game2_percent, NEW.payout_game3_percent,
+    NEW.payout_game4_percent, NEW.payout_game5_percent, NEW.payout_game6_percent,
+    NEW.payout_game7_percent,
+    NEW.prize_q1_text, NEW.prize_q2_text, NEW.prize_q3_text, NEW.prize_final_text, NEW.prize_ot_text,
+    NEW.secondary_reverse_percent, NEW.secondary_touching_percent, NEW.secondary_minus_one_percent
+  ) IS DISTINCT FROM (
+    OLD.square_price, OLD.prize_type, OLD.score_change_payout, OLD.rollover_policy,
+    OLD.pot_basis, OLD.organization_cut_percent, OLD.overtime_rule,
+    OLD.payout_q1_percent, OLD.payout_q2_percent, OLD.payout_q3_percent,
+    OLD.payout_final_percent, OLD.payout_ot_percent,
+    OLD.payout_game1_percent, OLD.payout_game2_percent, OLD.payout_game3_percent,
+    OLD.payout_game4_percent, OLD.payout_game5_percent, OLD.payout_game6_percent,
+    OLD.payout_game7_percent,
+    OLD.prize_q1_text, OLD.prize_q2_text, OLD.prize_q3_text, OLD.prize_final_text, OLD.prize_ot_text,
+    OLD.secondary_reverse_percent, OLD.secondary_touching_percent, OLD.secondary_minus_one_percent
+  ) THEN
+    RAISE EXCEPTION 'Only the contest owner can change the price, pot or payouts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Organization owners and admins can see and restore their organization's deleted contests,
+-- not just the contest owner. restoreContest also checks the workspace's contest limit before
+-- restoring, so a free workspace can't get a second active contest back out of the trash.
+
+-- =============================================
+-- WHO CAN RESTORE
+-- =============================================
+CREATE OR REPLACE FUNCTION can_restore_contest(p_owner_id UUID, p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_owner_id = auth.uid()
+    OR (
+      p_organization_id IS NOT NULL
+      AND has_organization_role(p_organization_id, ARRAY['owner', 'admin']::organization_role[])
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_restore_contest(UUID, UUID) TO authenticated;
+
+-- =============================================
+-- CONTEST TRASH
+-- =============================================
+CREATE OR REPLACE FUNCTION list_deleted_contests()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  organization_id UUID,
+  deleted_at TIMESTAMPTZ,
+  claimed_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.organization_id,
+    c.deleted_at,
+    (SELECT COUNT(*)::INTEGER FROM squares s WHERE s.contest_id = c.id AND s.payment_status <> 'available')
+  FROM contests c
+  WHERE can_restore_contest(c.owner_id, c.organization_id)
+  AND c.deleted_at IS NOT NULL
+  AND c.deleted_at > NOW() - INTERVAL '30 days'
+  ORDER BY c.deleted_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION restore_contest(contest_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only while the contest is still in the trash
+  UPDATE contests
+  SET deleted_at = NULL
+  WHERE id = restore_contest.contest_id
+  AND can_restore_contest(owner_id, organization_id)
+  AND deleted_at IS NOT NULL
+  AND deleted_at > NOW() - INTERVAL '30 days';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- =============================================
+-- OWNER-ONLY FIELDS
+-- =============================================
+-- Same as 20260309000000_restrict_member_contest_and_square_changes.sql, except that deleted_at
+-- may be cleared by anyone who can restore the contest
+CREATE OR REPLACE FUNCTION protect_contest_owner_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR auth.uid() = OLD.owner_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.owner_id IS DISTINCT FROM OLD.owner_id THEN
+    RAISE EXCEPTION 'Only the contest owner can transfer or delete a contest';
+  END IF;
+
+  -- Organization owners and admins can bring an organization contest back out of the trash
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+    AND NOT (NEW.deleted_at IS NULL AND can_restore_contest(OLD.owner_id, OLD.organization_id))
+  THEN
+    RAISE EXCEPTION 'Only the contest owner can transfer or delete a contest';
+  END IF;
+
+  IF (
+    NEW.organization_id, NEW.slug, NEW.code, NEW.sport_type, NEW.grid_layout
+  ) IS DISTINCT FROM (
+    OLD.organization_id, OLD.slug, OLD.code, OLD.sport_type, OLD.grid_layout
+  ) THEN
+    RAISE EXCEPTION 'Only the contest owner can change how a contest is set up';
+  END IF;
+
+  IF (
+    NEW.square_price, NEW.prize_type, NEW.score_change_payout, NEW.rollover_policy,
+    NEW.pot_basis, NEW.organization_cut_percent, NEW.overtime_rule,
+    NEW.payout_q1_percent, NEW.payout_q2_percent, NEW.payout_q3_percent,
+    NEW.payout_final_percent, NEW.payout_ot_percent,
+    NEW.payout_game1_percent, NEW.payout_game2_percent, NEW.payout_game3_percent,
+    NEW.payout_game4_percent, NEW.payout_game5_percent, NEW.payout_game6_percent,
+    NEW.payout_game7_percent,
+    NEW.prize_q1_text, NEW.prize_q2_text, NEW.prize_q3_text, NEW.prize_final_text, NEW.prize_ot_text,
+    NEW.secondary_reverse_percent, NEW.secondary_touching_percent, NEW.secondary_minus_one_percent
+  ) IS DISTINCT FROM (
+    OLD.square_price, OLD.prize_type, OLD.score_change_payout, OLD.rollover_policy,
+    OLD.pot_basis, OLD.organization_cut_percent, OLD.overtime_rule,
+    OLD.payout_q1_percent, OLD.payout_q2_percent, OLD.payout_q3_percent,
+    OLD.payout_final_percent, OLD.payout_ot_percent,
+    OLD.payout_game1_percent, OLD.payout_game2_percent, OLD.payout_game3_percent,
+    OLD.payout_game4_percent, OLD.payout_game5_percent, OLD.payout_game6_percent,
+    OLD.payout_game7_percent,
+    OLD.prize_q1_text, OLD.prize_q2_text, OLD.prize_q3_text, OLD.prize_final_text, OLD.prize_ot_text,
+    OLD.secondary_reverse_percent, OLD.secondary_touching_percent, OLD.secondary_minus_one_percent
+  ) THEN
+    RAISE EXCEPTION 'Only the contest owner can change the price, pot or payouts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- Hidden quick picks were only partly hidden by get_contest_squares. It dropped the claimant's
+-- name but still returned the square's real id and referrer. quickPickSquares hands the
+-- participant their square ids so they can pay by card, so matching those ids against the
+-- public grid showed them exactly where their squares were. The live-update broadcast named
+-- the changed square's id too.
+--
+-- Now, until the numbers are drawn, a hidden quick pick comes back from get_contest_squares
+-- with a throwaway id (new on every read) and no referrer, and the broadcast carries no id.
+-- Owners and members still get every square as it is.
+
+-- =============================================
+-- PUBLIC GRID
+-- =============================================
+-- Not STABLE any more: masked squares get a new id on every call
+CREATE OR REPLACE FUNCTION get_contest_squares(p_contest_id UUID, p_access_token TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER,
+  share_index INTEGER,
+  payment_status payment_status,
+  claimant_first_name TEXT,
+  claimant_last_name TEXT,
+  referred_by TEXT,
+  quick_picked BOOLEAN
+)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_mask_quick_picks BOOLEAN;
+BEGIN
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    NOT has_contest_role(p_contest_id, ARRAY['owner', 'manager', 'cashier', 'viewer']::contest_role[])
+    AND c.hide_quick_pick_locations
+    AND c.row_numbers IS NULL
+  INTO v_mask_quick_picks
+  FROM contests c
+  WHERE c.id = p_contest_id;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN gen_random_uuid() ELSE s.id END,
+    s.row_index,
+    s.col_index,
+    s.share_index,
+    s.payment_status,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_first_name END,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.claimant_last_name END,
+    CASE WHEN v_mask_quick_picks AND s.quick_picked THEN NULL ELSE s.referred_by END,
+    s.quick_picked
+  FROM squares s
+  WHERE s.contest_id = p_contest_id
+  ORDER BY s.row_index, s.col_index, s.share_index;
+END;
+$$;
+
+-- =============================================
+-- LIVE UPDATES
+-- =============================================
+-- Subscribers re-read the grid through get_contest_squares, so the broadcast only needs to
+-- say that something changed
+CREATE OR REPLACE FUNCTION broadcast_square_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_contest_id := OLD.contest_id;
+  ELSE
+    v_contest_id := NEW.contest_id;
+  END IF;
+
+  PERFORM realtime.send(
+    '{}'::jsonb,
+    'square_changed',
+    'squares:' || v_contest_id::TEXT,
+    false
+  );
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Contest access tokens (the contest_access_<slug> cookie for a PIN or an invitee) were two
+-- random UUIDs glued together. Each UUID has 6 fixed version and variant bits, so the token had
+-- 244 random bits, not the 256 its comment promised, and leaned on gen_random_uuid() being a
+-- v4 UUID. Tokens now come straight from the CSPRNG.
+--
+-- Existing tokens stay valid; they're replaced the next time the PIN changes or the invitee is
+-- re-added.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 256 random bits, hex encoded
+CREATE OR REPLACE FUNCTION generate_contest_access_token()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT encode(extensions.gen_random_bytes(32), 'hex');
+$$;
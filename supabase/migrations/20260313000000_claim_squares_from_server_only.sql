@@ -0,0 +1,250 @@
+-- claim_squares and quick_pick_squares were granted to anon and authenticated, so anyone could
+-- call them straight through the API and skip the claimSquares and quickPickSquares actions,
+-- along with the claim rate limits those actions check. Only the server (service role) can
+-- call them now.
+--
+-- The service role has no auth.uid(), so the actions pass the signed-in user, if any, as
+-- p_user_id and p_user_email. Owners and members still get in without the PIN and still show
+-- up as the actor in the audit log. The visitor's contest access token is passed as before.
+
+-- =============================================
+-- CALLER
+-- =============================================
+-- Runs the rest of the transaction as the visitor the server is claiming for: the signed-in
+-- user when there is one, otherwise an anonymous participant. has_contest_access, the invited
+-- claimant trigger and the audit log all go by these claims rather than the service role's.
+CREATE OR REPLACE FUNCTION act_as_claimant(p_user_id UUID, p_user_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(p_user_id::TEXT, ''), true);
+  PERFORM set_config(
+    'request.jwt.claims',
+    CASE
+      WHEN p_user_id IS NULL THEN jsonb_build_object('role', 'anon')
+      ELSE jsonb_build_object('sub', p_user_id, 'email', p_user_email, 'role', 'authenticated')
+    END::TEXT,
+    true
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION act_as_claimant(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- CLAIM SQUARES
+-- =============================================
+DROP FUNCTION IF EXISTS claim_squares(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION claim_squares(
+  p_contest_id UUID,
+  p_square_ids UUID[],
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by_slug TEXT DEFAULT NULL,
+  p_access_token TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_square_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_square_ids));
+  v_requested INTEGER := COALESCE(array_length(v_square_ids, 1), 0);
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_players JSONB;
+  v_existing INTEGER;
+  v_claimed INTEGER;
+BEGIN
+  PERFORM act_as_claimant(p_user_id, p_user_email);
+
+  PERFORM check_claimant(p_first_name, p_last_name, p_email, p_venmo);
+
+  IF v_requested = 0 THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+
+  -- Lock the contest so concurrent carts from the same email can't both pass the limit check
+  SELECT c.status, c.max_squares_per_person, c.players
+  INTO v_status, v_max_squares, v_players
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RAISE EXCEPTION 'contest_access_denied';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + v_requested > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = btrim(p_first_name),
+    claimant_last_name = btrim(p_last_name),
+    claimant_email = p_email,
+    claimant_venmo = NULLIF(btrim(p_venmo), ''),
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = resolve_referred_by(v_players, p_referred_by_slug)
+  WHERE s.id = ANY(v_square_ids)
+  AND s.contest_id = p_contest_id
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+
+  -- Someone else got one of the squares first; raising rolls back the rest of the cart
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed <> v_requested THEN
+    RAISE EXCEPTION 'square_taken';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_squares(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- QUICK PICK SQUARES
+-- =============================================
+DROP FUNCTION IF EXISTS quick_pick_squares(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION quick_pick_squares(
+  p_contest_id UUID,
+  p_count INTEGER,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_email TEXT,
+  p_venmo TEXT DEFAULT NULL,
+  p_referred_by_slug TEXT DEFAULT NULL,
+  p_access_token TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_user_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  row_index INTEGER,
+  col_index INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status contest_status;
+  v_max_squares INTEGER;
+  v_players JSONB;
+  v_existing INTEGER;
+  v_square_ids UUID[];
+  v_picked INTEGER;
+BEGIN
+  PERFORM act_as_claimant(p_user_id, p_user_email);
+
+  PERFORM check_claimant(p_first_name, p_last_name, p_email, p_venmo);
+
+  IF p_count IS NULL OR p_count < 1 THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = '0';
+  END IF;
+
+  -- Same lock as claim_squares, so picks and cart claims never race each other
+  SELECT c.status, c.max_squares_per_person, c.players
+  INTO v_status, v_max_squares, v_players
+  FROM contests c
+  WHERE c.id = p_contest_id
+  AND c.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'contest_not_found';
+  END IF;
+
+  IF NOT has_contest_access(p_contest_id, p_access_token) THEN
+    RAISE EXCEPTION 'contest_access_denied';
+  END IF;
+
+  IF v_status <> 'open' THEN
+    RAISE EXCEPTION 'contest_not_open';
+  END IF;
+
+  IF v_max_squares IS NOT NULL THEN
+    SELECT COUNT(*)::INTEGER
+    INTO v_existing
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND lower(s.claimant_email) = lower(p_email)
+    AND s.payment_status <> 'available';
+
+    IF v_existing + p_count > v_max_squares THEN
+      RAISE EXCEPTION 'max_squares_reached'
+        USING DETAIL = GREATEST(v_max_squares - v_existing, 0)::TEXT;
+    END IF;
+  END IF;
+
+  -- Skip squares an organizer is editing right now rather than waiting on them
+  v_square_ids := ARRAY(
+    SELECT s.id
+    FROM squares s
+    WHERE s.contest_id = p_contest_id
+    AND s.payment_status = 'available'
+    ORDER BY random()
+    LIMIT p_count
+    FOR UPDATE SKIP LOCKED
+  );
+
+  v_picked := COALESCE(array_length(v_square_ids, 1), 0);
+
+  IF v_picked < p_count THEN
+    RAISE EXCEPTION 'not_enough_squares' USING DETAIL = v_picked::TEXT;
+  END IF;
+
+  RETURN QUERY
+  UPDATE squares s
+  SET
+    claimant_first_name = btrim(p_first_name),
+    claimant_last_name = btrim(p_last_name),
+    claimant_email = p_email,
+    claimant_venmo = NULLIF(btrim(p_venmo), ''),
+    payment_status = 'pending',
+    claimed_at = NOW(),
+    referred_by = resolve_referred_by(v_players, p_referred_by_slug),
+    quick_picked = true
+  WHERE s.id = ANY(v_square_ids)
+  AND s.payment_status = 'available'
+  RETURNING s.id, s.row_index, s.col_index;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION quick_pick_squares(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
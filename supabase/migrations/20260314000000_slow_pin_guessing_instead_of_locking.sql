@@ -0,0 +1,163 @@
+-- PIN guessing, take two (see 20260304000000_add_pin_attempt_limits.sql):
+--   * 100 wrong guesses in 15 minutes locked the PIN for everyone, so anyone could keep a
+--     contest's players out by guessing wrong on purpose. Now a flood of wrong guesses only
+--     slows guessing down: each client's free guesses drop from 5 to 1 and its waits start
+--     right away. A first guess is never turned away, so players who have the PIN still get in.
+--   * Guesses are counted by the client IP verifyPin now takes from the proxy's own header
+--     rather than the first x-forwarded-for entry, which the client chose.
+--   * PINs were 1 to 6 characters, few enough to guess through the limits. They are 6 to 12
+--     now. Shorter PINs are replaced with a random 6-character one, which signs out everyone
+--     who entered the old PIN; owners and members see the new PIN in the contest settings.
+
+-- =============================================
+-- PINS
+-- =============================================
+-- Same alphabet as rotateContestPin: no 0/O or 1/I. 32 characters, so each byte maps evenly.
+CREATE FUNCTION generate_contest_access_pin()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', get_byte(b.bytes, i) % 32 + 1, 1), '' ORDER BY i)
+  FROM (SELECT extensions.gen_random_bytes(6) AS bytes) b, generate_series(0, 5) AS i;
+$$;
+
+ALTER TABLE contest_access_pins DROP CONSTRAINT IF EXISTS contest_access_pins_access_pin_check;
+
+ALTER TABLE contest_access_pins ALTER COLUMN access_pin TYPE VARCHAR(12);
+
+UPDATE contest_access_pins
+SET access_pin = generate_contest_access_pin()
+WHERE length(access_pin) < 6;
+
+DROP FUNCTION generate_contest_access_pin();
+
+ALTER TABLE contest_access_pins
+  ADD CONSTRAINT contest_access_pins_access_pin_check CHECK (access_pin ~ '^[A-Z0-9]{6,12}$');
+
+-- =============================================
+-- VERIFY PIN
+-- =============================================
+-- Checks a PIN guess from p_client_ip and records it. result is one of:
+--   ok        - correct; access_token is the cookie value
+--   incorrect - wrong; retry_at is set when the client now has to wait before guessing again
+--   locked    - the client guessed wrong too often; nothing was checked, try again at retry_at
+--   expired   - the PIN has expired; nothing was checked
+--   not_found - no such public contest, or it has no PIN
+--
+-- A client gets 5 free guesses, then waits 30 seconds after the next wrong one, doubling with
+-- each wrong guess up to an hour. A correct guess, or a day without one, starts it over. While
+-- the contest has had 100 or more wrong guesses from any clients in the last 15 minutes, every
+-- client gets 1 free guess instead of 5.
+CREATE OR REPLACE FUNCTION verify_contest_pin(p_slug TEXT, p_pin TEXT, p_client_ip TEXT DEFAULT NULL)
+RETURNS TABLE (
+  result TEXT,
+  access_token TEXT,
+  retry_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contest_id UUID;
+  v_pin contest_access_pins%ROWTYPE;
+  v_contest_failures INTEGER;
+  v_free_guesses INTEGER;
+  v_last_success TIMESTAMPTZ;
+  v_failures INTEGER;
+  v_last_failure TIMESTAMPTZ;
+  v_retry_at TIMESTAMPTZ;
+  v_correct BOOLEAN;
+BEGIN
+  SELECT c.id INTO v_contest_id
+  FROM contests c
+  WHERE c.slug = p_slug
+  AND c.deleted_at IS NULL
+  AND c.is_public
+  AND c.status <> 'draft';
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Serializes guesses on one contest so parallel requests can't all slip under the limits
+  SELECT * INTO v_pin
+  FROM contest_access_pins p
+  WHERE p.contest_id = v_contest_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF v_pin.expires_at IS NOT NULL AND v_pin.expires_at <= NOW() THEN
+    RETURN QUERY SELECT 'expired'::TEXT, NULL::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  -- Contest-wide slowdown
+  SELECT COUNT(*) INTO v_contest_failures
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND NOT a.succeeded
+  AND a.attempted_at > NOW() - INTERVAL '15 minutes';
+
+  v_free_guesses := CASE WHEN v_contest_failures >= 100 THEN 1 ELSE 5 END;
+
+  -- Per-client backoff, counting wrong guesses since the client's last correct one
+  SELECT MAX(a.attempted_at) INTO v_last_success
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND a.client_ip IS NOT DISTINCT FROM p_client_ip
+  AND a.succeeded;
+
+  SELECT COUNT(*), MAX(a.attempted_at) INTO v_failures, v_last_failure
+  FROM contest_pin_attempts a
+  WHERE a.contest_id = v_contest_id
+  AND a.client_ip IS NOT DISTINCT FROM p_client_ip
+  AND NOT a.succeeded
+  AND a.attempted_at > GREATEST(NOW() - INTERVAL '1 day', COALESCE(v_last_success, '-infinity'));
+
+  IF v_failures >= v_free_guesses THEN
+    v_retry_at := v_last_failure
+      + LEAST(INTERVAL '30 seconds' * power(2, LEAST(v_failures - v_free_guesses, 7)), INTERVAL '1 hour');
+
+    IF NOW() < v_retry_at THEN
+      RETURN QUERY SELECT 'locked'::TEXT, NULL::TEXT, v_retry_at;
+      RETURN;
+    END IF;
+  END IF;
+
+  v_correct := UPPER(btrim(COALESCE(p_pin, ''))) = v_pin.access_pin;
+
+  INSERT INTO contest_pin_attempts (contest_id, client_ip, succeeded)
+  VALUES (v_contest_id, p_client_ip, v_correct);
+
+  -- Attempts are only needed for a day of backoff and the owner's recent list
+  IF random() < 0.01 THEN
+    DELETE FROM contest_pin_attempts a
+    WHERE a.attempted_at < NOW() - INTERVAL '30 days';
+  END IF;
+
+  IF v_correct THEN
+    RETURN QUERY SELECT 'ok'::TEXT, v_pin.access_token, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  v_failures := v_failures + 1;
+  IF v_failures >= v_free_guesses THEN
+    v_retry_at := NOW()
+      + LEAST(INTERVAL '30 seconds' * power(2, LEAST(v_failures - v_free_guesses, 7)), INTERVAL '1 hour');
+  ELSE
+    v_retry_at := NULL;
+  END IF;
+
+  RETURN QUERY SELECT 'incorrect'::TEXT, NULL::TEXT, v_retry_at;
+END;
+$$;
+
+-- Only the server (service role) verifies PINs, so p_client_ip can be trusted
+REVOKE EXECUTE ON FUNCTION verify_contest_pin(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
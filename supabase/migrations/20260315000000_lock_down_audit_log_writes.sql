@@ -0,0 +1,49 @@
+-- The audit log helpers could be called by anyone through the API. write_contest_audit_log is
+-- SECURITY DEFINER, so the public anon key was enough to add forged entries, with any action,
+-- details and participant email, to any contest's log. Revoking INSERT on contest_audit_log
+-- didn't cover it. Only the audit triggers, which run as the function owner, call them now.
+--
+-- Square changes that only touch bookkeeping columns (the Stripe checkout a claim is waiting
+-- on, when the payment reminder went out) are no longer logged as square_updated.
+
+REVOKE EXECUTE ON FUNCTION audit_changed_fields(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION audit_pick_fields(JSONB, TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION write_contest_audit_log(UUID, TEXT, TEXT, UUID, JSONB, JSONB, JSONB, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION audit_squares()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Written by checkout and the reminder cron; they say nothing about who holds the square
+  v_bookkeeping TEXT[] := ARRAY['stripe_checkout_session_id', 'payment_reminder_sent_at'];
+  v_action TEXT;
+BEGIN
+  IF NEW.payment_status = 'available' AND OLD.payment_status <> 'available' THEN
+    v_action := 'square_released';
+  ELSIF OLD.payment_status = 'available' AND NEW.payment_status <> 'available' THEN
+    v_action := 'square_claimed';
+  ELSIF NEW.payment_status <> OLD.payment_status THEN
+    v_action := 'payment_status_changed';
+  ELSE
+    v_action := 'square_updated';
+  END IF;
+
+  -- Nothing is written when only bookkeeping columns changed
+  PERFORM write_contest_audit_log(
+    NEW.contest_id,
+    v_action,
+    'square',
+    NEW.id,
+    to_jsonb(OLD) - v_bookkeeping,
+    to_jsonb(NEW) - v_bookkeeping,
+    jsonb_build_object('row_index', NEW.row_index, 'col_index', NEW.col_index),
+    COALESCE(NEW.claimant_email, OLD.claimant_email)
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- release_expired_claims now also returns the checkout each released square was waiting on,
+-- so the job can expire it: until then the old claimant could still pay for a square that is
+-- back on the grid.
+
+DROP FUNCTION IF EXISTS release_expired_claims(NUMERIC);
+
+CREATE OR REPLACE FUNCTION release_expired_claims(p_reminder_hours NUMERIC)
+RETURNS TABLE (
+  square_id UUID,
+  contest_id UUID,
+  row_index INTEGER,
+  col_index INTEGER,
+  quick_picked BOOLEAN,
+  claimant_email TEXT,
+  claimant_first_name TEXT,
+  stripe_checkout_session_id TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    SELECT s.*
+    FROM squares s
+    JOIN contests c ON c.id = s.contest_id
+    WHERE s.payment_status = 'pending'
+    AND s.payment_reminder_sent_at IS NOT NULL
+    AND c.status = 'open'
+    AND c.deleted_at IS NULL
+    AND c.payment_deadline_hours IS NOT NULL
+    AND NOW() >= GREATEST(
+      s.claimed_at + make_interval(hours => c.payment_deadline_hours),
+      s.payment_reminder_sent_at
+        + LEAST(p_reminder_hours, c.payment_deadline_hours / 2.0) * INTERVAL '1 hour'
+    )
+    -- Leave squares an organizer is editing right now for the next run
+    FOR UPDATE OF s SKIP LOCKED
+  ),
+  snapshots AS (
+    INSERT INTO square_releases (
+      square_id, contest_id, payment_status, claimant_first_name, claimant_last_name, claimant_email,
+      claimant_venmo, claimed_at, paid_at, referred_by, quick_picked, released_by
+    )
+    SELECT
+      e.id, e.contest_id, e.payment_status, e.claimant_first_name, e.claimant_last_name, e.claimant_email,
+      e.claimant_venmo, e.claimed_at, e.paid_at, e.referred_by, e.quick_picked, NULL
+    FROM expired e
+  )
+  UPDATE squares s
+  SET
+    payment_status = 'available',
+    claimant_first_name = NULL,
+    claimant_last_name = NULL,
+    claimant_email = NULL,
+    claimant_venmo = NULL,
+    claimed_at = NULL,
+    paid_at = NULL,
+    referred_by = NULL,
+    -- A checkout left open by the old claimant must not pay for the next one's square
+    stripe_checkout_session_id = NULL
+  FROM expired e
+  WHERE s.id = e.id
+  RETURNING
+    e.id, e.contest_id, e.row_index, e.col_index, e.quick_picked, e.claimant_email, e.claimant_first_name,
+    e.stripe_checkout_session_id;
+END;
+$$;
+
+-- Only the scheduled job (service role) may release claims
+REVOKE EXECUTE ON FUNCTION release_expired_claims(NUMERIC) FROM PUBLIC, anon, authenticated;